@@ -24,6 +24,12 @@ import AdminDashboard from "./pages/AdminDashboard";
 import AthleteDashboard from "./pages/AthleteDashboard";
 import Subscribe from "./pages/Subscribe";
 import SubscriptionSuccess from "./pages/SubscriptionSuccess";
+import Messages from "./pages/Messages";
+import GuardianSignContract from "./pages/GuardianSignContract";
+import GuardianConsentView from "./pages/GuardianConsentView";
+import FeedbackCenter from "./pages/FeedbackCenter";
+import AthleteSearch from "./pages/AthleteSearch";
+import BrandDirectory from "./pages/BrandDirectory";
 import { Loader2 } from "lucide-react";
 
 // Wizard Pages
@@ -90,10 +96,16 @@ function Router() {
             <Route path="/explore-matches">{() => <WizardRedirect />}</Route>
             <UnifiedProfileRequiredRoute path="/athlete/dashboard" component={AthleteDashboard} requiredRole="athlete" redirectPath="/athlete-onboarding" />
             <UnifiedProfileRequiredRoute path="/business/dashboard" component={BusinessDashboard} requiredRole="business" redirectPath="/business-onboarding" />
+            <UnifiedProfileRequiredRoute path="/business/athletes" component={AthleteSearch} requiredRole="business" redirectPath="/business-onboarding" />
+            <UnifiedProfileRequiredRoute path="/athlete/brands" component={BrandDirectory} requiredRole="athlete" redirectPath="/athlete-onboarding" />
             <RoleProtectedRoute path="/admin/dashboard" component={AdminDashboard} requiredRole="admin" />
             <UnifiedProtectedRoute path="/profile" component={ProfilePage} />
             <UnifiedProtectedRoute path="/edit-profile" component={EditProfilePage} />
             <UnifiedProtectedRoute path="/dashboard" component={DashboardRedirect} />
+            <UnifiedProtectedRoute path="/messages" component={Messages} />
+            <Route path="/contracts/guardian/:token" component={GuardianSignContract} />
+            <Route path="/guardian/:token" component={GuardianConsentView} />
+            <Route path="/feedback" component={FeedbackCenter} />
             <Route path="/wizard/pro/start">{() => <WizardLayout><StartPage /></WizardLayout>}</Route>
             <Route path="/wizard/pro/advanced">{() => <WizardLayout><AdvancedPage /></WizardLayout>}</Route>
             <Route path="/wizard/pro/deliverables">{() => <WizardLayout><DeliverablesPage /></WizardLayout>}</Route>
@@ -0,0 +1,70 @@
+import { useQuery } from "@tanstack/react-query";
+import { History, Loader2 } from "lucide-react";
+import type { AdminAuditEvent } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+
+const ACTION_LABELS: Record<string, string> = {
+  role_change: "Role change",
+  suspend: "Suspended",
+  reactivate: "Reactivated",
+  impersonate: "Impersonated",
+};
+
+function describe(event: AdminAuditEvent) {
+  if (event.action === "role_change" && event.details?.from && event.details?.to) {
+    return `${event.details.from} → ${event.details.to}`;
+  }
+  return event.reason || "";
+}
+
+/**
+ * Latest admin actions on user accounts, newest first
+ */
+export default function AdminAuditLogCard({ limit = 20 }: { limit?: number }) {
+  const { data, isLoading } = useQuery<{ events: AdminAuditEvent[]; total: number }>({
+    queryKey: [`/api/admin/audit?limit=${limit}`],
+  });
+  const events = data?.events || [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Admin Audit Trail
+        </CardTitle>
+        <CardDescription>Role changes, suspensions and impersonation sessions</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        ) : events.length === 0 ? (
+          <p className="text-sm text-gray-500">No admin actions recorded yet.</p>
+        ) : (
+          <div className="divide-y">
+            {events.map((event) => (
+              <div key={event.id} className="py-2 flex items-start justify-between gap-3 text-sm">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <Badge variant={event.action === "suspend" || event.action === "impersonate" ? "destructive" : "outline"}>
+                      {ACTION_LABELS[event.action] || event.action}
+                    </Badge>
+                    <span className="text-xs text-gray-500">User {event.target_user_id.slice(0, 8)}</span>
+                  </div>
+                  {describe(event) && <p className="text-xs text-gray-600 mt-1">{describe(event)}</p>}
+                </div>
+                <div className="text-xs text-gray-500 whitespace-nowrap">
+                  {event.created_at ? new Date(event.created_at).toLocaleString() : ""}
+                  <div>by {event.admin_id.slice(0, 8)}</div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,230 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Loader2, MessageSquareReply, Star } from "lucide-react";
+import { FEEDBACK_TRANSITIONS, type Feedback, type FeedbackStatus } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+const STATUS_LABELS: Record<FeedbackStatus, string> = {
+  pending: "New",
+  in_review: "In review",
+  resolved: "Resolved",
+  dismissed: "Dismissed",
+};
+
+const TYPE_LABELS: Record<string, string> = {
+  general: "General",
+  bug: "Bug",
+  feature: "Feature",
+  partnership: "Partnership",
+  testimonial: "Testimonial",
+};
+
+function invalidateFeedback() {
+  queryClient.invalidateQueries({
+    predicate: (query) => typeof query.queryKey[0] === "string" && query.queryKey[0].startsWith("/api/feedback"),
+  });
+}
+
+function RespondDialog({ item }: { item: Feedback }) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [response, setResponse] = useState(item.adminResponse || "");
+  const [status, setStatus] = useState<string>("keep");
+
+  const respondMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/feedback/${item.id}/respond`, {
+        response,
+        status: status === "keep" ? undefined : status,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Response sent", description: "The author has been notified." });
+      setOpen(false);
+      invalidateFeedback();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't send response", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline">
+          <MessageSquareReply className="h-4 w-4 mr-1" />
+          {item.adminResponse ? "Edit reply" : "Reply"}
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Reply to feedback</DialogTitle>
+          <DialogDescription className="whitespace-pre-wrap">{item.content}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3">
+          <Textarea
+            rows={5}
+            value={response}
+            onChange={(event) => setResponse(event.target.value)}
+            placeholder="Your reply is shown to the author and they're notified."
+            maxLength={5000}
+          />
+          <Select value={status} onValueChange={setStatus}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="keep">Keep status ({STATUS_LABELS[item.status]})</SelectItem>
+              {FEEDBACK_TRANSITIONS[item.status].map((next) => (
+                <SelectItem key={next} value={next}>Mark {STATUS_LABELS[next].toLowerCase()}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <DialogFooter>
+          <Button disabled={!response.trim() || respondMutation.isPending} onClick={() => respondMutation.mutate()}>
+            {respondMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Send reply
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * Admin feedback triage: filter by status, move items through review,
+ * reply to authors and approve testimonials for the public feed
+ */
+export default function AdminFeedbackTriage() {
+  const { toast } = useToast();
+  const [statusFilter, setStatusFilter] = useState("all");
+
+  const { data, isLoading } = useQuery<{ feedback: Feedback[] }>({
+    queryKey: [statusFilter === "all" ? "/api/feedback" : `/api/feedback?status=${statusFilter}`],
+  });
+  const items = data?.feedback || [];
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: number; status: FeedbackStatus }) => {
+      const res = await apiRequest("POST", `/api/feedback/${id}/status`, { status });
+      return res.json();
+    },
+    onSuccess: invalidateFeedback,
+    onError: (error: Error) => {
+      toast({ title: "Couldn't update status", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const publishMutation = useMutation({
+    mutationFn: async ({ id, isPublic }: { id: number; isPublic: boolean }) => {
+      const res = await apiRequest("POST", `/api/feedback/${id}/publish`, { public: isPublic });
+      return res.json();
+    },
+    onSuccess: (result) => {
+      toast({ title: result.message });
+      invalidateFeedback();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't update testimonial", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>User Feedback</CardTitle>
+          <CardDescription>Triage suggestions and issues, reply to authors and approve testimonials</CardDescription>
+        </div>
+        <Select value={statusFilter} onValueChange={setStatusFilter}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All statuses</SelectItem>
+            {Object.entries(STATUS_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        ) : items.length === 0 ? (
+          <p className="p-8 text-center text-gray-500">No feedback found</p>
+        ) : (
+          <div className="divide-y border rounded-md">
+            {items.map((item) => (
+              <div key={item.id} className="p-3 space-y-2">
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant="outline" className={
+                    item.feedbackType === "feature" ? "bg-green-50 text-green-700 border-green-200" :
+                    item.feedbackType === "bug" ? "bg-red-50 text-red-700 border-red-200" :
+                    "bg-gray-50 text-gray-700 border-gray-200"
+                  }>
+                    {TYPE_LABELS[item.feedbackType] || item.feedbackType}
+                  </Badge>
+                  <span className="text-xs text-gray-500">
+                    {item.userType} • {item.created_at ? new Date(item.created_at).toLocaleDateString() : ""}
+                    {item.matchId ? ` • Match #${item.matchId}` : ""}
+                  </span>
+                  {item.rating > 0 && (
+                    <span className="flex items-center text-xs text-amber-600">
+                      <Star className="h-3 w-3 mr-0.5 fill-current" />
+                      {item.rating}
+                    </span>
+                  )}
+                </div>
+                {item.title && <p className="text-sm font-medium">{item.title}</p>}
+                <p className="text-sm whitespace-pre-wrap">{item.content}</p>
+                {item.adminResponse && (
+                  <p className="text-sm text-gray-600 border-l-2 pl-2">Reply: {item.adminResponse}</p>
+                )}
+                <div className="flex flex-wrap items-center gap-2">
+                  <Select
+                    value={item.status}
+                    onValueChange={(status) => statusMutation.mutate({ id: item.id, status: status as FeedbackStatus })}
+                  >
+                    <SelectTrigger className="w-36 h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={item.status}>{STATUS_LABELS[item.status]}</SelectItem>
+                      {FEEDBACK_TRANSITIONS[item.status].map((next) => (
+                        <SelectItem key={next} value={next}>{STATUS_LABELS[next]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <RespondDialog item={item} />
+                  {item.allowPublic && (
+                    <label className="flex items-center gap-2 text-xs text-gray-600">
+                      <Switch
+                        checked={item.public}
+                        disabled={publishMutation.isPending}
+                        onCheckedChange={(checked) => publishMutation.mutate({ id: item.id, isPublic: checked })}
+                      />
+                      Testimonial
+                    </label>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,104 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Loader2, Star } from "lucide-react";
+import { RATING_CRITERIA_LABELS, type PartnershipRating } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+/**
+ * Disputed partnership ratings waiting for an admin decision: keep the
+ * rating, or remove it from the rated user's reputation
+ */
+export default function AdminRatingAppealsCard() {
+  const { toast } = useToast();
+  const [notes, setNotes] = useState<Record<string, string>>({});
+
+  const { data, isLoading } = useQuery<{ ratings: PartnershipRating[] }>({ queryKey: ["/api/ratings/appeals"] });
+  const appeals = data?.ratings || [];
+
+  const resolveMutation = useMutation({
+    mutationFn: async ({ id, decision }: { id: string; decision: "uphold" | "remove" }) => {
+      const res = await apiRequest("POST", `/api/ratings/${id}/resolve`, {
+        decision,
+        note: notes[id]?.trim() || undefined,
+      });
+      return res.json();
+    },
+    onSuccess: (result) => {
+      toast({ title: result.message, description: "Both parties have been notified." });
+      queryClient.invalidateQueries({ queryKey: ["/api/ratings/appeals"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't resolve appeal", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Rating Appeals</CardTitle>
+        <CardDescription>Partnership ratings disputed by the rated party, oldest first</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        ) : appeals.length === 0 ? (
+          <p className="p-8 text-center text-gray-500">No open appeals</p>
+        ) : (
+          <div className="divide-y border rounded-md">
+            {appeals.map((rating) => (
+              <div key={rating.id} className="p-3 space-y-2">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <span className="text-sm font-medium">
+                    {rating.rater_name || "Unknown"} rated {rating.ratee_name || "Unknown"}
+                  </span>
+                  <span className="flex items-center text-sm text-amber-600">
+                    <Star className="h-4 w-4 mr-1 fill-current" />
+                    {rating.overall.toFixed(1)}
+                  </span>
+                </div>
+                <p className="text-xs text-gray-500">
+                  {Object.entries(rating.scores)
+                    .map(([criterion, score]) => `${RATING_CRITERIA_LABELS[criterion] || criterion}: ${score}`)
+                    .join(" • ")}
+                </p>
+                {rating.comment && <p className="text-sm whitespace-pre-wrap">{rating.comment}</p>}
+                <p className="text-sm border-l-2 border-amber-400 pl-2">Appeal: {rating.appeal_reason}</p>
+                <div className="flex flex-wrap items-center gap-2">
+                  <Input
+                    className="h-8 flex-1 min-w-48"
+                    placeholder="Note to the parties (optional)"
+                    value={notes[rating.id] || ""}
+                    maxLength={2000}
+                    onChange={(event) => setNotes((current) => ({ ...current, [rating.id]: event.target.value }))}
+                  />
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={resolveMutation.isPending}
+                    onClick={() => resolveMutation.mutate({ id: rating.id, decision: "uphold" })}
+                  >
+                    Keep rating
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="destructive"
+                    disabled={resolveMutation.isPending}
+                    onClick={() => resolveMutation.mutate({ id: rating.id, decision: "remove" })}
+                  >
+                    Remove rating
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
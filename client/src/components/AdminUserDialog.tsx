@@ -0,0 +1,196 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Copy, Loader2, UserCog } from "lucide-react";
+import type { AdminUserSummary, UserRole } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+const ROLES: { value: UserRole; label: string }[] = [
+  { value: "athlete", label: "Athlete" },
+  { value: "business", label: "Business" },
+  { value: "compliance", label: "Compliance" },
+  { value: "admin", label: "Admin" },
+  { value: "user", label: "Regular User" },
+];
+
+// Everything derived from users and the audit trail is refetched after an action
+function invalidateAdminQueries() {
+  queryClient.invalidateQueries({
+    predicate: (query) => typeof query.queryKey[0] === "string" && query.queryKey[0].startsWith("/api/admin/"),
+  });
+}
+
+/**
+ * Manage one user from the admin console: change their role, suspend or
+ * reactivate them, or get a one-time sign-in link to impersonate them.
+ * Suspension and impersonation need a reason, which goes in the audit trail.
+ */
+export default function AdminUserDialog({ user, currentUserId }: { user: AdminUserSummary; currentUserId?: string }) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [role, setRole] = useState<UserRole>(user.role);
+  const [reason, setReason] = useState("");
+  const [link, setLink] = useState<string | null>(null);
+  const isSelf = user.id === currentUserId;
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const roleMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/admin/users/${user.id}/role`, { role, reason: reason || undefined });
+      return res.json();
+    },
+    onSuccess: (data) => {
+      toast({ title: "Role updated", description: data.message });
+      invalidateAdminQueries();
+    },
+    onError: onError("Couldn't change role"),
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async (action: "suspend" | "reactivate") => {
+      const res = await apiRequest("POST", `/api/admin/users/${user.id}/${action}`, { reason });
+      return res.json();
+    },
+    onSuccess: (data) => {
+      toast({ title: data.message });
+      setReason("");
+      invalidateAdminQueries();
+    },
+    onError: onError("Couldn't update account"),
+  });
+
+  const impersonateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/admin/users/${user.id}/impersonate`, { reason });
+      return res.json();
+    },
+    onSuccess: (data) => {
+      setLink(data.link);
+      toast({ title: "Sign-in link ready", description: data.message });
+      invalidateAdminQueries();
+    },
+    onError: onError("Couldn't impersonate user"),
+  });
+
+  const copyLink = async () => {
+    if (!link) return;
+    try {
+      await navigator.clipboard.writeText(link);
+      toast({ title: "Link copied" });
+    } catch {
+      toast({ title: "Couldn't copy", description: link, variant: "destructive" });
+    }
+  };
+
+  const busy = roleMutation.isPending || statusMutation.isPending || impersonateMutation.isPending;
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (!next) {
+          setReason("");
+          setLink(null);
+          setRole(user.role);
+        }
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline">Manage</Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <UserCog className="h-5 w-5" />
+            {user.full_name || user.email}
+          </DialogTitle>
+          <DialogDescription>
+            {user.email}
+            {user.status === "suspended" && (
+              <Badge variant="destructive" className="ml-2">Suspended</Badge>
+            )}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isSelf ? (
+          <p className="text-sm text-gray-500">You can't change your own account from here.</p>
+        ) : (
+          <div className="space-y-5">
+            <div className="space-y-2">
+              <Label>Reason</Label>
+              <Textarea
+                value={reason}
+                onChange={(event) => setReason(event.target.value)}
+                placeholder="Why are you making this change? Required to suspend or impersonate."
+                maxLength={500}
+              />
+            </div>
+
+            <div className="flex items-end gap-2">
+              <div className="flex-1 space-y-2">
+                <Label>Role</Label>
+                <Select value={role} onValueChange={(value) => setRole(value as UserRole)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ROLES.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button disabled={busy || role === user.role} onClick={() => roleMutation.mutate()}>
+                {roleMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Save role
+              </Button>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              {user.status === "suspended" ? (
+                <Button variant="outline" disabled={busy} onClick={() => statusMutation.mutate("reactivate")}>
+                  Reactivate
+                </Button>
+              ) : (
+                <Button variant="destructive" disabled={busy || !reason.trim()} onClick={() => statusMutation.mutate("suspend")}>
+                  Suspend
+                </Button>
+              )}
+              {user.role !== "admin" && user.status !== "suspended" && (
+                <Button variant="outline" disabled={busy || !reason.trim()} onClick={() => impersonateMutation.mutate()}>
+                  {impersonateMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Impersonate
+                </Button>
+              )}
+            </div>
+
+            {link && (
+              <div className="rounded-md border p-3 space-y-2">
+                <p className="text-sm">
+                  Open this one-time link in a private window to sign in as {user.full_name || user.email}.
+                </p>
+                <div className="flex items-center gap-2">
+                  <Input readOnly value={link} className="font-mono text-xs" />
+                  <Button size="icon" variant="ghost" onClick={copyLink}>
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,176 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Archive, Check, Inbox, Loader2, Users } from "lucide-react";
+import type { BrandLead, BrandLeadStatus } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+interface BrandLeadsCardProps {
+  variant?: "light" | "dark";
+}
+
+const STATUS_TABS: { value: BrandLeadStatus; label: string }[] = [
+  { value: "new", label: "New" },
+  { value: "contacted", label: "Contacted" },
+  { value: "archived", label: "Archived" },
+];
+
+function invalidateLeads() {
+  queryClient.invalidateQueries({
+    predicate: (query) => typeof query.queryKey[0] === "string" && query.queryKey[0].startsWith("/api/brands/leads"),
+  });
+}
+
+/**
+ * Athletes who expressed interest from the brand directory, and the
+ * business's setting for being listed there
+ */
+export default function BrandLeadsCard({ variant = "light" }: BrandLeadsCardProps) {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<BrandLeadStatus>("new");
+
+  const { data: settings } = useQuery<{ discoverable: boolean }>({ queryKey: ["/api/brands/settings"] });
+  const { data: leadsData, isLoading } = useQuery<{ leads: BrandLead[] }>({
+    queryKey: [`/api/brands/leads?status=${status}`],
+  });
+  const leads = leadsData?.leads || [];
+
+  const settingsMutation = useMutation({
+    mutationFn: async (discoverable: boolean) => {
+      const res = await apiRequest("PUT", "/api/brands/settings", { discoverable });
+      return res.json();
+    },
+    onSuccess: (data) => {
+      toast({ title: data.message || "Directory settings saved" });
+      queryClient.invalidateQueries({ queryKey: ["/api/brands/settings"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't update directory settings", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const leadMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: BrandLeadStatus }) => {
+      const res = await apiRequest("PATCH", `/api/brands/leads/${id}`, { status });
+      return res.json();
+    },
+    onSuccess: () => invalidateLeads(),
+    onError: (error: Error) => {
+      toast({ title: "Couldn't update lead", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const dark = variant === "dark";
+  const mutedClass = dark ? "text-gray-400" : "text-gray-500";
+  const rowClass = dark ? "border border-zinc-800 bg-black/20" : "bg-gray-50";
+
+  return (
+    <Card className={dark ? "bg-zinc-900/40 backdrop-blur-sm border border-zinc-800 shadow-lg" : "border-primary/20"}>
+      <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className={`flex items-center gap-2 font-heading ${dark ? "text-white" : ""}`}>
+            <Inbox className={`h-5 w-5 ${dark ? "text-amber-500" : "text-primary"}`} />
+            Athlete Leads
+          </CardTitle>
+          <CardDescription className={dark ? "text-gray-400" : undefined}>
+            Athletes who found you in the brand directory and want to work with you
+          </CardDescription>
+        </div>
+        <label className={`flex items-center gap-2 text-sm ${dark ? "text-gray-300" : ""}`}>
+          <Switch
+            checked={settings?.discoverable ?? true}
+            disabled={!settings || settingsMutation.isPending}
+            onCheckedChange={(checked) => settingsMutation.mutate(checked)}
+          />
+          Listed in brand directory
+        </label>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Tabs value={status} onValueChange={(value) => setStatus(value as BrandLeadStatus)}>
+          <TabsList>
+            {STATUS_TABS.map((tab) => (
+              <TabsTrigger key={tab.value} value={tab.value}>{tab.label}</TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : leads.length === 0 ? (
+          <p className={`text-sm ${mutedClass}`}>
+            {status === "new"
+              ? settings?.discoverable === false
+                ? "Your brand is hidden from the directory, so athletes can't find you there."
+                : "No new leads. Athletes browsing the directory can express interest in your brand."
+              : `No ${status} leads.`}
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {leads.map((lead) => (
+              <div key={lead.id} className={`p-3 rounded-md space-y-2 ${rowClass}`}>
+                <div className="flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className={`text-sm font-medium ${dark ? "text-white" : ""}`}>{lead.athlete?.name || "Athlete"}</p>
+                    <p className={`text-xs ${mutedClass}`}>
+                      {[lead.athlete?.sport, lead.athlete?.school, lead.athlete?.division].filter(Boolean).join(" • ")}
+                    </p>
+                  </div>
+                  {lead.athlete?.follower_count != null && (
+                    <Badge variant="outline" className={dark ? "text-gray-300" : undefined}>
+                      <Users className="h-3 w-3 mr-1" />
+                      {lead.athlete.follower_count.toLocaleString()}
+                    </Badge>
+                  )}
+                </div>
+                {lead.message && <p className={`text-sm whitespace-pre-wrap ${dark ? "text-gray-300" : ""}`}>{lead.message}</p>}
+                <div className="flex items-center justify-between gap-2">
+                  <span className={`text-xs ${mutedClass}`}>{new Date(lead.created_at).toLocaleDateString()}</span>
+                  <div className="flex gap-2">
+                    {lead.status !== "contacted" && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={leadMutation.isPending}
+                        onClick={() => leadMutation.mutate({ id: lead.id, status: "contacted" })}
+                      >
+                        <Check className="h-4 w-4 mr-1" />
+                        Mark contacted
+                      </Button>
+                    )}
+                    {lead.status !== "archived" ? (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        disabled={leadMutation.isPending}
+                        onClick={() => leadMutation.mutate({ id: lead.id, status: "archived" })}
+                      >
+                        <Archive className="h-4 w-4 mr-1" />
+                        Archive
+                      </Button>
+                    ) : (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        disabled={leadMutation.isPending}
+                        onClick={() => leadMutation.mutate({ id: lead.id, status: "new" })}
+                      >
+                        Restore
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
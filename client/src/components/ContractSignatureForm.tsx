@@ -0,0 +1,122 @@
+import { useState } from "react";
+import { CheckCircle2, Clock, Loader2, PenLine } from "lucide-react";
+import type { ContractSignature, ContractSignInput, SignatureMethod } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import SignaturePad from "@/components/SignaturePad";
+
+const SIGNER_LABELS: Record<ContractSignature["signer_role"], string> = {
+  business: "Business",
+  athlete: "Athlete",
+  guardian: "Parent / Guardian",
+};
+
+/**
+ * Signers of a contract in signing order, with who has signed so far
+ */
+export function SignerList({ signers }: { signers: ContractSignature[] }) {
+  return (
+    <ol className="space-y-2">
+      {signers.map((signer, index) => (
+        <li key={signer.id} className="flex items-center justify-between rounded-md border p-3">
+          <div className="flex items-center gap-3">
+            <span className="flex h-6 w-6 items-center justify-center rounded-full bg-gray-100 text-xs font-medium">
+              {index + 1}
+            </span>
+            <div>
+              <div className="text-sm font-medium">{SIGNER_LABELS[signer.signer_role]}</div>
+              <div className="text-xs text-gray-500">
+                {signer.typed_name || signer.signer_name || (signer.signer_role === "guardian" ? "Not named yet" : "Unknown")}
+              </div>
+            </div>
+          </div>
+          {signer.status === "signed" ? (
+            <Badge className="bg-green-100 text-green-800 hover:bg-green-100">
+              <CheckCircle2 className="h-3.5 w-3.5 mr-1" />
+              Signed {signer.signed_at ? new Date(signer.signed_at).toLocaleDateString() : ""}
+            </Badge>
+          ) : (
+            <Badge variant="outline">
+              <Clock className="h-3.5 w-3.5 mr-1" />
+              Waiting
+            </Badge>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+interface ContractSignatureFormProps {
+  defaultName?: string;
+  isPending: boolean;
+  onSubmit: (input: ContractSignInput) => void;
+}
+
+/**
+ * Typed or drawn signature with the e-sign consent checkbox
+ */
+export default function ContractSignatureForm({ defaultName = "", isPending, onSubmit }: ContractSignatureFormProps) {
+  const [method, setMethod] = useState<SignatureMethod>("typed");
+  const [typedName, setTypedName] = useState(defaultName);
+  const [image, setImage] = useState<string | null>(null);
+  const [consent, setConsent] = useState(false);
+
+  const ready = typedName.trim().length >= 2 && consent && (method === "typed" || !!image);
+
+  const submit = () => {
+    if (!ready) return;
+    onSubmit({
+      method,
+      typed_name: typedName.trim(),
+      signature_image: method === "drawn" && image ? image : undefined,
+      consent: true,
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="signature-name">Full legal name</Label>
+        <Input
+          id="signature-name"
+          value={typedName}
+          onChange={(event) => setTypedName(event.target.value)}
+          placeholder="Your full name"
+        />
+      </div>
+
+      <Tabs value={method} onValueChange={(value) => setMethod(value as SignatureMethod)}>
+        <TabsList className="grid w-full grid-cols-2">
+          <TabsTrigger value="typed">Type</TabsTrigger>
+          <TabsTrigger value="drawn">Draw</TabsTrigger>
+        </TabsList>
+        <TabsContent value="typed">
+          <div className="rounded-md border bg-white px-4 py-6 text-center font-serif text-2xl italic text-gray-900 min-h-[5rem]">
+            {typedName.trim() || <span className="text-base not-italic text-gray-400">Your signature appears here</span>}
+          </div>
+        </TabsContent>
+        <TabsContent value="drawn">
+          <SignaturePad onChange={setImage} />
+        </TabsContent>
+      </Tabs>
+
+      <div className="flex items-start gap-2">
+        <Checkbox id="signature-consent" checked={consent} onCheckedChange={(checked) => setConsent(checked === true)} />
+        <Label htmlFor="signature-consent" className="text-sm font-normal leading-snug">
+          I agree to sign this contract electronically and that my electronic signature is as binding as a handwritten one.
+          My IP address, browser and the time of signing will be recorded.
+        </Label>
+      </div>
+
+      <Button className="w-full" disabled={!ready || isPending} onClick={submit}>
+        {isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <PenLine className="h-4 w-4 mr-2" />}
+        Sign contract
+      </Button>
+    </div>
+  );
+}
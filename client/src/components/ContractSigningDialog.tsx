@@ -0,0 +1,201 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { History, Loader2, Mail, ShieldCheck } from "lucide-react";
+import type { ContractAuditEvent, ContractListItem, ContractSignInput, ContractSigningStatus } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import ContractSignatureForm, { SignerList } from "@/components/ContractSignatureForm";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+const AUDIT_LABELS: Record<ContractAuditEvent["action"], string> = {
+  signatures_requested: "Signatures requested",
+  guardian_invited: "Guardian invited to sign",
+  viewed: "Viewed",
+  signed: "Signed",
+  signatures_reset: "Signatures cleared after the contract was regenerated",
+  completed: "All signatures collected",
+};
+
+interface ContractSigningDialogProps {
+  contract: ContractListItem | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Signing status, signature form, guardian invite and audit trail for one contract
+ */
+export default function ContractSigningDialog({ contract, onOpenChange }: ContractSigningDialogProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [guardianName, setGuardianName] = useState("");
+  const [guardianEmail, setGuardianEmail] = useState("");
+
+  const statusKey = `/api/contracts/${contract?.id}/signatures`;
+  const { data: status, isLoading } = useQuery<ContractSigningStatus>({
+    queryKey: [statusKey],
+    enabled: !!contract,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: [statusKey] });
+    queryClient.invalidateQueries({ queryKey: ["/api/contracts"] });
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: "Contract update failed", description: error.message, variant: "destructive" });
+  };
+
+  const signMutation = useMutation({
+    mutationFn: async (input: ContractSignInput) => {
+      const res = await apiRequest("POST", `/api/contracts/${contract!.id}/sign`, input);
+      return res.json();
+    },
+    onSuccess: (result) => {
+      toast({
+        title: result.contract?.status === "signed" ? "Contract fully signed" : "Signature recorded",
+        description: result.contract?.status === "signed"
+          ? "Everyone has signed and the partnership is now active."
+          : "We've let the next signer know it's their turn.",
+      });
+      refresh();
+    },
+    onError,
+  });
+
+  const guardianMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/contracts/${contract!.id}/guardian`, {
+        name: guardianName,
+        email: guardianEmail,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Guardian added", description: "They'll get a signing link by email when it's their turn." });
+      refresh();
+    },
+    onError,
+  });
+
+  const myRole = user?.role === "business" ? "business" : user?.role === "athlete" ? "athlete" : null;
+  const mySignature = status?.signers.find((signer) => signer.signer_role === myRole);
+  const guardian = status?.signers.find((signer) => signer.signer_role === "guardian");
+  const canSign = !!status && status.next_signer === myRole && mySignature?.status === "pending";
+
+  return (
+    <Dialog open={!!contract} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Sign contract</DialogTitle>
+          <DialogDescription>
+            {contract?.campaign || "Partnership offer"} · {(myRole === "business" ? contract?.athlete : contract?.brand) || "Partnership"}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !status ? (
+          <div className="flex justify-center py-10">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <ScrollArea className="max-h-[70vh] pr-3">
+            <div className="space-y-6">
+              {status.contract.status === "signed" && (
+                <div className="flex items-start gap-2 rounded-md bg-green-50 p-3 text-sm text-green-800">
+                  <ShieldCheck className="h-5 w-5 min-w-5" />
+                  <span>
+                    Fully signed {status.contract.signed_at ? new Date(status.contract.signed_at).toLocaleString() : ""}.
+                    The downloaded PDF includes the signature certificate.
+                  </span>
+                </div>
+              )}
+
+              <SignerList signers={status.signers} />
+
+              {canSign && (
+                <ContractSignatureForm
+                  defaultName={mySignature?.signer_name || ""}
+                  isPending={signMutation.isPending}
+                  onSubmit={(input) => signMutation.mutate(input)}
+                />
+              )}
+
+              {!canSign && status.next_signer && status.next_signer !== myRole && mySignature?.status !== "signed" && (
+                <div className="text-sm text-gray-500">
+                  Waiting for the {status.next_signer === "guardian" ? "parent or guardian" : status.next_signer} to sign before you.
+                </div>
+              )}
+
+              {myRole === "athlete" && guardian && guardian.status === "pending" && (
+                <div className="space-y-3 rounded-md border p-4">
+                  <div>
+                    <div className="font-medium text-sm">Parent or guardian</div>
+                    <div className="text-xs text-gray-500">
+                      Because you're under 18, a parent or guardian must co-sign.
+                      {guardian.signer_email ? ` A signing link goes to ${guardian.signer_email} when it's their turn.` : ""}
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                    <div className="space-y-1">
+                      <Label htmlFor="guardian-name">Name</Label>
+                      <Input id="guardian-name" value={guardianName} onChange={(event) => setGuardianName(event.target.value)} />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="guardian-email">Email</Label>
+                      <Input
+                        id="guardian-email"
+                        type="email"
+                        value={guardianEmail}
+                        onChange={(event) => setGuardianEmail(event.target.value)}
+                      />
+                    </div>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={guardianMutation.isPending || guardianName.trim().length < 2 || !guardianEmail.includes("@")}
+                    onClick={() => guardianMutation.mutate()}
+                  >
+                    <Mail className="h-4 w-4 mr-2" />
+                    {guardian.signer_email ? "Update guardian and resend" : "Add guardian"}
+                  </Button>
+                </div>
+              )}
+
+              {status.audit.length > 0 && (
+                <div className="space-y-2">
+                  <div className="flex items-center gap-2 text-sm font-medium">
+                    <History className="h-4 w-4" />
+                    Audit trail
+                  </div>
+                  <ul className="space-y-1 text-xs text-gray-600">
+                    {status.audit.map((event) => (
+                      <li key={event.id} className="flex justify-between gap-4">
+                        <span>
+                          {AUDIT_LABELS[event.action]}
+                          {event.actor_name || event.actor_role ? ` · ${event.actor_name || event.actor_role}` : ""}
+                          {event.ip_address ? ` · ${event.ip_address}` : ""}
+                        </span>
+                        <span className="whitespace-nowrap">{new Date(event.created_at).toLocaleString()}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
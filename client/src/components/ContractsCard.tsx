@@ -0,0 +1,138 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Download, FileText, Loader2, PenLine } from "lucide-react";
+import type { ContractListItem } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import ContractSigningDialog from "@/components/ContractSigningDialog";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+interface ContractsCardProps {
+  variant?: "light" | "dark";
+}
+
+/**
+ * Generated partnership contracts for the signed-in user, with signing, PDF
+ * download and in-browser viewing
+ */
+export default function ContractsCard({ variant = "light" }: ContractsCardProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [loadingId, setLoadingId] = useState<string | null>(null);
+  const [signing, setSigning] = useState<ContractListItem | null>(null);
+
+  const { data, isLoading } = useQuery<{ contracts: ContractListItem[] }>({ queryKey: ["/api/contracts"] });
+  const contracts = data?.contracts || [];
+
+  const openContract = async (contract: ContractListItem, inline: boolean) => {
+    setLoadingId(contract.id);
+    try {
+      const res = await apiRequest("GET", `/api/contracts/${contract.id}/download${inline ? "?inline=true" : ""}`);
+      const url = URL.createObjectURL(await res.blob());
+
+      if (inline) {
+        window.open(url, "_blank");
+      } else {
+        const link = document.createElement("a");
+        link.href = url;
+        link.download = contract.status === "signed" ? contract.file_name.replace(/\.pdf$/, "-signed.pdf") : contract.file_name;
+        link.click();
+      }
+
+      // Give the new tab or download time to pick up the file before releasing it
+      setTimeout(() => URL.revokeObjectURL(url), 60_000);
+    } catch (error: any) {
+      toast({ title: "Contract unavailable", description: error.message, variant: "destructive" });
+    } finally {
+      setLoadingId(null);
+    }
+  };
+
+  const dark = variant === "dark";
+  const outlineClass = dark ? "border-zinc-700 bg-black/40 hover:bg-zinc-900/80 text-gray-300" : undefined;
+
+  return (
+    <Card className={dark ? "bg-zinc-900/40 backdrop-blur-sm border border-zinc-800 shadow-lg" : "border-primary/20"}>
+      <CardHeader>
+        <CardTitle className={`flex items-center gap-2 font-heading ${dark ? "text-white" : ""}`}>
+          <FileText className={`h-5 w-5 ${dark ? "text-amber-500" : "text-primary"}`} />
+          Partnership Contracts
+        </CardTitle>
+        <CardDescription className={dark ? "text-gray-400" : undefined}>
+          Sign, download and manage your partnership agreements
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          {isLoading && (
+            <div className="flex justify-center py-10">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          )}
+
+          {contracts.map((contract) => (
+            <div
+              key={contract.id}
+              className={`flex items-center justify-between p-4 rounded-md ${dark ? "border border-zinc-800 bg-black/20" : "bg-gray-50"}`}
+            >
+              <div className="flex items-center gap-3">
+                <FileText className={`h-5 w-5 ${dark ? "text-amber-500" : "text-primary"}`} />
+                <div>
+                  <div className={`font-medium flex items-center gap-2 ${dark ? "text-white" : ""}`}>
+                    {(user?.role === "business" ? contract.athlete : contract.brand) || "Partnership"} Contract
+                    {contract.status === "generated" && (
+                      <Badge className="bg-yellow-100 text-yellow-800 hover:bg-yellow-100">Awaiting signatures</Badge>
+                    )}
+                    {contract.status === "signed" && (
+                      <Badge className="bg-green-100 text-green-800 hover:bg-green-100">Signed</Badge>
+                    )}
+                    {contract.status === "void" && <Badge variant="outline">Void</Badge>}
+                  </div>
+                  <div className={`text-sm ${dark ? "text-gray-400" : "text-blue-700"}`}>
+                    {contract.campaign || "Partnership offer"} · Generated{" "}
+                    {new Date(contract.generated_at).toLocaleDateString()} · Template v{contract.template_version}
+                  </div>
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                {contract.status !== "void" && (
+                  <Button variant="outline" size="sm" className={outlineClass} onClick={() => setSigning(contract)}>
+                    <PenLine className="h-4 w-4 mr-2" />
+                    {contract.status === "signed" ? "Signatures" : "Sign"}
+                  </Button>
+                )}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className={outlineClass}
+                  disabled={loadingId === contract.id}
+                  onClick={() => openContract(contract, false)}
+                >
+                  <Download className="h-4 w-4 mr-2" />
+                  Download
+                </Button>
+                <Button size="sm" disabled={loadingId === contract.id} onClick={() => openContract(contract, true)}>
+                  View
+                </Button>
+              </div>
+            </div>
+          ))}
+
+          {!isLoading && contracts.length === 0 && (
+            <div className="text-center py-10">
+              <div className={`mb-2 ${dark ? "text-gray-300" : "text-blue-700"}`}>No contracts available</div>
+              <div className={`text-sm mb-4 ${dark ? "text-gray-400" : "text-blue-700"}`}>
+                Contracts are generated when a partnership offer is accepted
+              </div>
+            </div>
+          )}
+        </div>
+      </CardContent>
+
+      <ContractSigningDialog contract={signing} onOpenChange={(open) => !open && setSigning(null)} />
+    </Card>
+  );
+}
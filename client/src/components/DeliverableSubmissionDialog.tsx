@@ -0,0 +1,156 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+
+interface DeliverableSubmissionDialogProps {
+  deliverable: { id: string; type: string; platform?: string; description?: string } | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function DeliverableSubmissionDialog({
+  deliverable,
+  open,
+  onOpenChange,
+}: DeliverableSubmissionDialogProps) {
+  const { toast } = useToast();
+  const [proofUrl, setProofUrl] = useState("");
+  const [notes, setNotes] = useState("");
+  const [screenshot, setScreenshot] = useState<File | null>(null);
+
+  const resetForm = () => {
+    setProofUrl("");
+    setNotes("");
+    setScreenshot(null);
+  };
+
+  // Multipart upload, so this can't go through apiRequest
+  const submitProofMutation = useMutation({
+    mutationFn: async () => {
+      if (!deliverable) throw new Error("No deliverable selected");
+
+      const formData = new FormData();
+      formData.append("proof_url", proofUrl);
+      if (notes) formData.append("notes", notes);
+      if (screenshot) formData.append("screenshot", screenshot);
+
+      let authHeader = "";
+      try {
+        const { supabase } = await import("@/lib/supabase-client");
+        const { data: sessionData } = await supabase.auth.getSession();
+        if (sessionData?.session?.access_token) {
+          authHeader = `Bearer ${sessionData.session.access_token}`;
+        }
+      } catch (error) {
+        console.error("Error getting auth session:", error);
+      }
+
+      const response = await fetch(`/api/deliverables/${deliverable.id}/submissions`, {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+        headers: authHeader ? { Authorization: authHeader } : undefined,
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "Failed to submit proof");
+      }
+
+      return await response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Proof submitted",
+        description: "The brand has been notified and will review your post.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/deliverables"] });
+      resetForm();
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Submission failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (!next) resetForm();
+        onOpenChange(next);
+      }}
+    >
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Submit Proof of Post</DialogTitle>
+          <DialogDescription>
+            {deliverable
+              ? `Share the live link for your ${deliverable.platform ? `${deliverable.platform} ` : ""}${deliverable.type}.`
+              : "Share the live link for this deliverable."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="proof-url">Post URL</Label>
+            <Input
+              id="proof-url"
+              type="url"
+              placeholder="https://"
+              value={proofUrl}
+              onChange={(e) => setProofUrl(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="proof-screenshot">Screenshot (optional)</Label>
+            <Input
+              id="proof-screenshot"
+              type="file"
+              accept="image/*"
+              onChange={(e) => setScreenshot(e.target.files?.[0] || null)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="proof-notes">Notes (optional)</Label>
+            <Textarea
+              id="proof-notes"
+              placeholder="Anything the brand should know about this post"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => submitProofMutation.mutate()}
+            disabled={!proofUrl || submitProofMutation.isPending}
+          >
+            {submitProofMutation.isPending ? "Submitting..." : "Submit"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,277 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Bar, BarChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { ArrowRight, BarChart3, CheckCircle2, FileText, Loader2, Wallet } from "lucide-react";
+import type { EarningsSummary, PayoutAccount, PayoutHistoryItem } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import PaymentMilestonesCard from "@/components/PaymentMilestonesCard";
+
+export interface EarningsResponse {
+  period: string;
+  summary: EarningsSummary;
+  series: Array<{ date: string; amount: number }>;
+  history: PayoutHistoryItem[];
+}
+
+const RECENT_LIMIT = 5;
+
+function formatMoney(amount: number, currency = "USD") {
+  return new Intl.NumberFormat("en-US", { style: "currency", currency, maximumFractionDigits: 2 }).format(amount);
+}
+
+export function formatChange(change: number | null | undefined) {
+  if (change === null || change === undefined) return "—";
+  return `${change >= 0 ? "+" : ""}${change}%`;
+}
+
+// Chart label for a series bucket: "2025-03" (year view) or "2025-03-15"
+function bucketLabel(date: string) {
+  const [year, month, day] = date.split("-").map(Number);
+  const value = new Date(year, month - 1, day || 1);
+  return day
+    ? value.toLocaleDateString(undefined, { month: "short", day: "numeric" })
+    : value.toLocaleDateString(undefined, { month: "short" });
+}
+
+/**
+ * Athlete Earnings tab: period totals, escrowed milestones, payout account setup and payout history
+ */
+export default function EarningsPanel() {
+  const { toast } = useToast();
+  const [period, setPeriod] = useState("thisMonth");
+  const [showAll, setShowAll] = useState(false);
+
+  const { data, isLoading } = useQuery<EarningsResponse>({
+    queryKey: [`/api/payouts/earnings?period=${period}`],
+  });
+
+  const { data: accountData } = useQuery<{ account: PayoutAccount | null; provider: string }>({
+    queryKey: ["/api/payouts/account"],
+  });
+
+  const onboardingMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/payouts/account/onboarding", {});
+      return res.json();
+    },
+    onSuccess: (result: { url: string }) => {
+      window.location.href = result.url;
+    },
+    onError: (error: Error) => {
+      toast({ title: "Unable to start payout setup", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const summary = data?.summary;
+  const currency = summary?.currency || "USD";
+  const history = data?.history || [];
+  const account = accountData?.account;
+  const inPeriod = (data?.series || []).map((point) => ({ label: bucketLabel(point.date), amount: point.amount }));
+
+  return (
+    <div className="space-y-6">
+      <Card className="border-primary/20">
+        <CardHeader>
+          <div className="flex flex-col md:flex-row justify-between md:items-center">
+            <div>
+              <CardTitle className="flex items-center gap-2 mb-2">
+                <Wallet className="h-5 w-5 text-primary" />
+                Earnings Summary
+              </CardTitle>
+              <CardDescription>
+                View your earnings across all partnerships
+              </CardDescription>
+            </div>
+            <div className="mt-4 md:mt-0">
+              <Select value={period} onValueChange={setPeriod}>
+                <SelectTrigger className="w-[180px]">
+                  <SelectValue placeholder="Select Time Period" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectGroup>
+                    <SelectLabel>Time Period</SelectLabel>
+                    <SelectItem value="thisWeek">This Week</SelectItem>
+                    <SelectItem value="thisMonth">This Month</SelectItem>
+                    <SelectItem value="lastMonth">Last Month</SelectItem>
+                    <SelectItem value="thisYear">This Year</SelectItem>
+                  </SelectGroup>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="h-[300px] bg-gray-50 rounded-md mb-6 p-4">
+            {inPeriod.length > 0 ? (
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={inPeriod}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                  <XAxis dataKey="label" />
+                  <YAxis tickFormatter={(value) => formatMoney(Number(value), currency)} width={80} />
+                  <Tooltip formatter={(value) => formatMoney(Number(value), currency)} />
+                  <Bar dataKey="amount" name="Received" fill="#4f46e5" radius={[4, 4, 0, 0]} />
+                </BarChart>
+              </ResponsiveContainer>
+            ) : (
+              <div className="h-full flex items-center justify-center">
+                <BarChart3 className="h-16 w-16 text-gray-600" />
+                <span className="ml-2 text-blue-700 font-medium">
+                  {isLoading ? "Loading earnings..." : "No payments received in this period"}
+                </span>
+              </div>
+            )}
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <Card className="bg-muted/50">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-blue-700 font-heading">Total Earnings</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-3xl font-bold">{formatMoney(summary?.total || 0, currency)}</div>
+                <p className="text-sm text-blue-700">From {summary?.campaigns || 0} campaigns</p>
+              </CardContent>
+            </Card>
+            <Card className="bg-muted/50">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-blue-700 font-heading">Pending</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-3xl font-bold">{formatMoney(summary?.pending || 0, currency)}</div>
+                <p className="text-sm text-blue-700">Held in escrow</p>
+              </CardContent>
+            </Card>
+            <Card className="bg-muted/50">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-blue-700 font-heading">Received</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-3xl font-bold">{formatMoney(summary?.received || 0, currency)}</div>
+                <p className="text-sm text-blue-700">Payments received</p>
+              </CardContent>
+            </Card>
+            <Card className="bg-muted/50">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-blue-700 font-heading">Growth Rate</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-3xl font-bold">{formatChange(summary?.change)}</div>
+                <p className="text-sm text-blue-700">From previous period</p>
+              </CardContent>
+            </Card>
+          </div>
+        </CardContent>
+      </Card>
+
+      <PaymentMilestonesCard role="athlete" />
+
+      <Card className="border-primary/20">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 font-heading">
+            <Wallet className="h-5 w-5 text-primary" />
+            Payout Account
+          </CardTitle>
+          <CardDescription>
+            Approved deliverables are paid straight to your connected account
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {account?.status === "active" ? (
+            <div className="flex items-center gap-2 p-4 rounded-md bg-gray-50">
+              <CheckCircle2 className="h-5 w-5 text-green-600" />
+              <span className="font-medium">Payouts enabled</span>
+            </div>
+          ) : (
+            <div className="flex flex-col gap-4 p-4 rounded-md bg-gray-50 md:flex-row md:items-center md:justify-between">
+              <div>
+                <div className="font-medium">
+                  {account?.status === "restricted" ? "More information needed" : "Set up payouts"}
+                </div>
+                <div className="text-sm text-blue-700">
+                  {account?.status === "restricted"
+                    ? "Your payout provider needs a few more details before it can send you money."
+                    : "Connect a payout account to receive payments for approved work."}
+                </div>
+              </div>
+              <Button onClick={() => onboardingMutation.mutate()} disabled={onboardingMutation.isPending}>
+                {onboardingMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {account ? "Continue Setup" : "Set Up Payouts"}
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="border-primary/20">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 font-heading">
+            <FileText className="h-5 w-5 text-primary" />
+            Recent Transactions
+          </CardTitle>
+          <CardDescription>
+            Your recent payments from brand partnerships
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-4">
+            {history.length === 0 && (
+              <div className="text-sm text-gray-500">
+                {isLoading ? "Loading payouts..." : "No payouts yet. Payments appear here as your deliverables are approved."}
+              </div>
+            )}
+            {(showAll ? history : history.slice(0, RECENT_LIMIT)).map((payout) => (
+              <div key={payout.id} className="flex items-center justify-between p-4 rounded-md bg-gray-50">
+                <div>
+                  <div className="font-medium">{payout.brand || "Brand partner"}</div>
+                  <div className="text-sm text-blue-700">{payout.campaign || "Direct partnership"}</div>
+                </div>
+                <div className="flex items-center gap-4">
+                  <div className="text-right">
+                    <div className="font-semibold">{formatMoney(Number(payout.amount), payout.currency)}</div>
+                    <div className="text-sm text-blue-700">
+                      {new Date(payout.paid_at || payout.created_at || Date.now()).toLocaleDateString()}
+                    </div>
+                  </div>
+                  <Badge
+                    className={payout.status === "paid"
+                      ? "bg-green-100 text-green-800"
+                      : payout.status === "failed"
+                        ? "bg-red-100 text-red-800"
+                        : "bg-yellow-100 text-yellow-800"
+                    }
+                  >
+                    {payout.status === "paid"
+                      ? "Paid"
+                      : payout.status === "failed"
+                        ? "Failed"
+                        : payout.status === "processing" ? "Processing" : "Pending"}
+                  </Badge>
+                </div>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+        {history.length > RECENT_LIMIT && (
+          <CardFooter className="flex justify-center">
+            <Button variant="outline" onClick={() => setShowAll((value) => !value)}>
+              {showAll ? "Show Recent Transactions" : "View All Transactions"}
+              <ArrowRight className="ml-2 h-4 w-4" />
+            </Button>
+          </CardFooter>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Loader2, Mail, ShieldAlert, ShieldCheck } from "lucide-react";
+import type { GuardianConsentStatus, GuardianConsentSummary, GuardianInvite } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+const STATUS_LABELS: Record<GuardianConsentStatus, { label: string; className: string }> = {
+  pending: { label: "Awaiting approval", className: "bg-amber-100 text-amber-800" },
+  approved: { label: "Approved", className: "bg-green-100 text-green-800" },
+  declined: { label: "Declined", className: "bg-red-100 text-red-800" },
+  revoked: { label: "Revoked", className: "bg-red-100 text-red-800" },
+};
+
+/**
+ * Parent or guardian consent for athletes under 18, or a prompt for a missing
+ * date of birth; renders nothing for adults
+ */
+export default function GuardianConsentCard() {
+  const { toast } = useToast();
+  const [form, setForm] = useState<GuardianInvite>({ name: "", email: "", relationship: "" });
+
+  const { data: summary } = useQuery<GuardianConsentSummary>({ queryKey: ["/api/guardian/consent"] });
+  const consent = summary?.consent;
+
+  useEffect(() => {
+    if (consent) {
+      setForm({ name: consent.guardian_name, email: consent.guardian_email, relationship: consent.relationship || "" });
+    }
+  }, [consent?.id]);
+
+  const inviteMutation = useMutation({
+    mutationFn: async (input: GuardianInvite) => {
+      const res = await apiRequest("POST", "/api/guardian/consent", {
+        ...input,
+        relationship: input.relationship || undefined,
+      });
+      return res.json();
+    },
+    onSuccess: (result: { message: string }) => {
+      toast({ title: "Guardian invited", description: result.message });
+      queryClient.invalidateQueries({ queryKey: ["/api/guardian/consent"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Invite failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  // Ages come from the date of birth, so without one offers and messaging stay locked
+  if (summary && summary.age === null) {
+    return (
+      <Card className="border-amber-500/40">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 font-heading">
+            <ShieldAlert className="h-5 w-5 text-amber-500" />
+            Date of Birth Needed
+          </CardTitle>
+          <CardDescription>
+            Add your date of birth to your profile before accepting offers or messaging businesses. Athletes under 18 also need a parent or guardian's approval.
+          </CardDescription>
+        </CardHeader>
+      </Card>
+    );
+  }
+
+  if (!summary?.is_minor) {
+    return null;
+  }
+
+  const status = consent ? STATUS_LABELS[consent.status] : null;
+  const approved = consent?.status === "approved";
+
+  return (
+    <Card className={approved ? "border-green-600/30" : "border-amber-500/40"}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 font-heading">
+          {approved ? <ShieldCheck className="h-5 w-5 text-green-600" /> : <ShieldAlert className="h-5 w-5 text-amber-500" />}
+          Parent/Guardian Consent
+          {status && <Badge className={status.className}>{status.label}</Badge>}
+        </CardTitle>
+        <CardDescription>
+          {approved
+            ? `${consent!.guardian_name} approved your account${consent!.responded_at ? ` on ${new Date(consent!.responded_at).toLocaleDateString()}` : ""}. They can follow your offers from their emailed link.`
+            : "Because you're under 18, a parent or guardian must approve before you can accept offers or message businesses."}
+        </CardDescription>
+      </CardHeader>
+      {!approved && (
+        <CardContent>
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              inviteMutation.mutate(form);
+            }}
+          >
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="guardian-name">Name</Label>
+                <Input
+                  id="guardian-name"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="guardian-email">Email</Label>
+                <Input
+                  id="guardian-email"
+                  type="email"
+                  value={form.email}
+                  onChange={(e) => setForm({ ...form, email: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="guardian-relationship">Relationship</Label>
+                <Input
+                  id="guardian-relationship"
+                  value={form.relationship || ""}
+                  onChange={(e) => setForm({ ...form, relationship: e.target.value })}
+                  placeholder="e.g. Parent"
+                />
+              </div>
+            </div>
+            <Button type="submit" disabled={inviteMutation.isPending}>
+              {inviteMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Mail className="h-4 w-4 mr-2" />}
+              {consent ? "Resend invite" : "Send invite"}
+            </Button>
+          </form>
+        </CardContent>
+      )}
+    </Card>
+  );
+}
@@ -7,6 +7,7 @@ import {
   SheetTrigger,
 } from "@/components/ui/sheet";
 import SubscriptionBadge from "@/components/SubscriptionBadge";
+import NotificationBell from "@/components/NotificationBell";
 import {
   Menu,
   BarChart,
@@ -507,10 +508,12 @@ export default function Header() {
                 return <NavLinkItem key={index} item={item} isActive={isActive || false} />;
               }
             })}
+            {user && <NotificationBell />}
           </div>
 
           {/* --- Mobile Navigation Trigger --- */}
           <div className="md:hidden flex items-center">
+            {user && <div className="mr-2"><NotificationBell /></div>}
 
             <Sheet open={open} onOpenChange={setOpen}>
               <SheetTrigger asChild>
@@ -0,0 +1,206 @@
+import { useEffect, useMemo, useState } from "react";
+import { useLocation } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Bell, Check, Trash2 } from "lucide-react";
+import type { Notification } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useWebSocketContext } from "@/contexts/WebSocketProvider";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+
+type NotificationItem = Pick<Notification, "type" | "title" | "content"> & {
+  id: string;
+  reference_type?: string | null;
+  reference_id?: string | null;
+  is_read: boolean;
+  created_at?: string;
+  live?: boolean;
+};
+
+type NotificationPage = {
+  notifications: NotificationItem[];
+  total: number;
+  page: number;
+  limit: number;
+  unreadCount: number;
+};
+
+const NOTIFICATIONS_KEY = ["/api/notifications?limit=20"];
+
+// Where a notification should take the user when clicked
+function notificationLink(notification: NotificationItem): string | null {
+  switch (notification.reference_type) {
+    case "MESSAGE_THREAD":
+      return `/messages?thread=${notification.reference_id}`;
+    case "CAMPAIGN":
+    case "OFFER":
+    case "DELIVERABLE":
+    case "COMPLIANCE_REQUEST":
+      return "/dashboard";
+    default:
+      return null;
+  }
+}
+
+function timeAgo(value?: string) {
+  if (!value) return "Just now";
+  const minutes = Math.floor((Date.now() - new Date(value).getTime()) / 60000);
+  if (minutes < 1) return "Just now";
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return `${Math.floor(hours / 24)}d ago`;
+}
+
+/**
+ * Header bell with the stored notification history plus anything pushed
+ * over WebSocket since the list was last fetched.
+ */
+export default function NotificationBell() {
+  const [, navigate] = useLocation();
+  const [open, setOpen] = useState(false);
+  const [liveNotifications, setLiveNotifications] = useState<NotificationItem[]>([]);
+  const { lastMessage } = useWebSocketContext();
+
+  const { data, dataUpdatedAt } = useQuery<NotificationPage>({
+    queryKey: NOTIFICATIONS_KEY,
+  });
+
+  // Live pushes are already stored server-side, so a refetch supersedes them
+  useEffect(() => {
+    setLiveNotifications([]);
+  }, [dataUpdatedAt]);
+
+  useEffect(() => {
+    if (!lastMessage) return;
+
+    if (lastMessage.type === "notification" && lastMessage.notification) {
+      const pushed = lastMessage.notification;
+      setLiveNotifications((prev) => [
+        {
+          id: `live-${lastMessage.timestamp || Date.now()}-${prev.length}`,
+          type: pushed.type,
+          title: pushed.title,
+          content: pushed.content,
+          is_read: false,
+          created_at: lastMessage.timestamp,
+          live: true,
+        },
+        ...prev,
+      ]);
+      queryClient.invalidateQueries({ queryKey: NOTIFICATIONS_KEY });
+    } else if (lastMessage.type === "notifications_read") {
+      queryClient.invalidateQueries({ queryKey: NOTIFICATIONS_KEY });
+    }
+  }, [lastMessage]);
+
+  const notifications = useMemo(
+    () => [...liveNotifications, ...(data?.notifications || [])],
+    [liveNotifications, data]
+  );
+  const unreadCount = (data?.unreadCount || 0) + liveNotifications.length;
+
+  const markReadMutation = useMutation({
+    mutationFn: async (ids?: string[]) => {
+      const res = await apiRequest("POST", "/api/notifications/read-all", ids ? { ids } : {});
+      return res.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: NOTIFICATIONS_KEY }),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("DELETE", `/api/notifications/${id}`);
+      return res.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: NOTIFICATIONS_KEY }),
+  });
+
+  const handleOpenNotification = (notification: NotificationItem) => {
+    if (!notification.live && !notification.is_read) {
+      markReadMutation.mutate([notification.id]);
+    }
+
+    const link = notificationLink(notification);
+    if (link) {
+      setOpen(false);
+      navigate(link);
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative text-white hover:bg-primary/15 hover:text-white">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 rounded-full bg-red-500 text-[10px] font-semibold leading-[18px] text-white text-center">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+          <span className="sr-only">Notifications</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0 bg-gray-900 border-primary/50 text-white">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-zinc-800">
+          <span className="font-semibold">Notifications</span>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs text-gray-300 hover:text-white hover:bg-primary/15"
+            disabled={unreadCount === 0 || markReadMutation.isPending}
+            onClick={() => markReadMutation.mutate(undefined)}
+          >
+            <Check className="h-3 w-3 mr-1" />
+            Mark all read
+          </Button>
+        </div>
+        <ScrollArea className={notifications.length > 4 ? "h-96" : undefined}>
+          {notifications.length === 0 ? (
+            <div className="px-4 py-8 text-center text-sm text-gray-400">You're all caught up</div>
+          ) : (
+            <div className="divide-y divide-zinc-800">
+              {notifications.map((notification) => (
+                <div
+                  key={notification.id}
+                  className={cn(
+                    "group flex gap-3 px-4 py-3 cursor-pointer hover:bg-primary/10",
+                    !notification.is_read && "bg-primary/5"
+                  )}
+                  onClick={() => handleOpenNotification(notification)}
+                >
+                  <div
+                    className={cn(
+                      "mt-1.5 h-2 w-2 flex-shrink-0 rounded-full",
+                      notification.is_read ? "bg-transparent" : "bg-red-500"
+                    )}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-medium">{notification.title}</div>
+                    <div className="text-xs text-gray-400 mt-0.5">{notification.content}</div>
+                    <div className="text-[11px] text-gray-500 mt-1">{timeAgo(notification.created_at)}</div>
+                  </div>
+                  {!notification.live && (
+                    <button
+                      type="button"
+                      className="opacity-0 group-hover:opacity-100 text-gray-500 hover:text-red-400"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        deleteMutation.mutate(notification.id);
+                      }}
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                      <span className="sr-only">Delete notification</span>
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+      </PopoverContent>
+    </Popover>
+  );
+}
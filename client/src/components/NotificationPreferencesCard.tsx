@@ -0,0 +1,208 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Bell } from "lucide-react";
+import type { NotificationCategory, NotificationPreferences } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+const PREFERENCES_KEY = ["/api/notifications/preferences"];
+
+const CATEGORIES: { id: NotificationCategory; label: string; description: string }[] = [
+  { id: "new_offer", label: "Partnership Offers", description: "New offers, counter-offers and updates" },
+  { id: "match_response", label: "Match Responses", description: "When the other side responds to a match" },
+  { id: "compliance_decision", label: "Compliance Decisions", description: "Approvals, rejections and change requests" },
+  { id: "message", label: "Messages", description: "New messages while you're away" },
+  { id: "payment", label: "Payments", description: "Escrow, releases and payouts" },
+];
+
+const CHANNELS = [
+  { id: "in_app", label: "In-app" },
+  { id: "email", label: "Email" },
+  { id: "digest", label: "Digest" },
+] as const;
+
+function formatHour(hour: number) {
+  const suffix = hour < 12 ? "AM" : "PM";
+  return `${hour % 12 === 0 ? 12 : hour % 12}:00 ${suffix}`;
+}
+
+/**
+ * Per-category delivery channels, quiet hours and daily digest time
+ */
+export default function NotificationPreferencesCard() {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<NotificationPreferences | null>(null);
+
+  const { data, isLoading } = useQuery<{ preferences: NotificationPreferences }>({
+    queryKey: PREFERENCES_KEY,
+  });
+
+  useEffect(() => {
+    if (data?.preferences) {
+      setDraft(data.preferences);
+    }
+  }, [data]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (preferences: NotificationPreferences) => {
+      const res = await apiRequest("PUT", "/api/notifications/preferences", {
+        channels: preferences.channels,
+        quiet_hours: preferences.quiet_hours,
+        timezone: preferences.timezone,
+        digest_hour: preferences.digest_hour,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: PREFERENCES_KEY });
+      toast({ title: "Preferences saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Unable to save preferences", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const setChannel = (category: NotificationCategory, channel: (typeof CHANNELS)[number]["id"], value: boolean) => {
+    setDraft((prev) => prev && {
+      ...prev,
+      channels: {
+        ...prev.channels,
+        [category]: { ...prev.channels[category], [channel]: value },
+      } as NotificationPreferences["channels"],
+    });
+  };
+
+  const setQuietHours = (change: Partial<NotificationPreferences["quiet_hours"]>) => {
+    setDraft((prev) => prev && { ...prev, quiet_hours: { ...prev.quiet_hours, ...change } });
+  };
+
+  return (
+    <Card className="border-primary/20">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 font-heading">
+          <Bell className="h-5 w-5 text-primary" />
+          Notification Preferences
+        </CardTitle>
+        <CardDescription>
+          Manage how and when you receive notifications
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !draft ? (
+          <div className="text-sm text-gray-500">Loading preferences...</div>
+        ) : (
+          <div className="space-y-6">
+            <div className="space-y-3">
+              {CATEGORIES.map((category) => (
+                <div key={category.id} className="flex flex-col gap-3 p-3 rounded-md bg-gray-50 sm:flex-row sm:items-center sm:justify-between">
+                  <div>
+                    <div className="font-medium">{category.label}</div>
+                    <div className="text-xs text-gray-500">{category.description}</div>
+                  </div>
+                  <div className="flex items-center gap-4">
+                    {CHANNELS.map((channel) => (
+                      <div key={channel.id} className="flex items-center gap-2">
+                        <Switch
+                          id={`${category.id}-${channel.id}`}
+                          checked={draft.channels[category.id]?.[channel.id] ?? false}
+                          onCheckedChange={(value) => setChannel(category.id, channel.id, value)}
+                        />
+                        <Label htmlFor={`${category.id}-${channel.id}`} className="text-sm text-blue-700">
+                          {channel.label}
+                        </Label>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-3 p-3 rounded-md bg-gray-50">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="quiet-hours" className="font-medium">Quiet hours</Label>
+                  <Switch
+                    id="quiet-hours"
+                    checked={draft.quiet_hours.enabled}
+                    onCheckedChange={(enabled) => setQuietHours({ enabled })}
+                  />
+                </div>
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="time"
+                    value={draft.quiet_hours.start}
+                    disabled={!draft.quiet_hours.enabled}
+                    onChange={(e) => setQuietHours({ start: e.target.value })}
+                  />
+                  <span className="text-sm text-gray-500">to</span>
+                  <Input
+                    type="time"
+                    value={draft.quiet_hours.end}
+                    disabled={!draft.quiet_hours.enabled}
+                    onChange={(e) => setQuietHours({ end: e.target.value })}
+                  />
+                </div>
+                <p className="text-xs text-gray-500">
+                  Live alerts and emails are held during quiet hours and included in your next digest.
+                </p>
+              </div>
+
+              <div className="space-y-3 p-3 rounded-md bg-gray-50">
+                <div className="space-y-1">
+                  <Label htmlFor="timezone" className="font-medium">Time zone</Label>
+                  <Input
+                    id="timezone"
+                    value={draft.timezone}
+                    onChange={(e) => setDraft({ ...draft, timezone: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="font-medium">Daily digest time</Label>
+                  <Select
+                    value={String(draft.digest_hour)}
+                    onValueChange={(value) => setDraft({ ...draft, digest_hour: parseInt(value, 10) })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Array.from({ length: 24 }, (_, hour) => (
+                        <SelectItem key={hour} value={String(hour)}>
+                          {formatHour(hour)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+      <CardFooter className="flex justify-end gap-2">
+        <Button
+          variant="outline"
+          disabled={!draft}
+          onClick={() => setDraft((prev) => prev && {
+            ...prev,
+            timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+          })}
+        >
+          Use my time zone
+        </Button>
+        <Button
+          disabled={!draft || saveMutation.isPending}
+          onClick={() => draft && saveMutation.mutate(draft)}
+        >
+          {saveMutation.isPending ? "Saving..." : "Save Preferences"}
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
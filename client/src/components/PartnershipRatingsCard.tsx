@@ -0,0 +1,272 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Flag, Loader2, Star } from "lucide-react";
+import {
+  RATING_CRITERIA_LABELS,
+  type PartnershipRating,
+  type PendingRating,
+  type ReputationScore,
+} from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+interface PartnershipRatingsCardProps {
+  variant?: "light" | "dark";
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  appealed: "Under appeal",
+  removed: "Removed after appeal",
+};
+
+function invalidateRatings() {
+  queryClient.invalidateQueries({
+    predicate: (query) => typeof query.queryKey[0] === "string" && query.queryKey[0].startsWith("/api/ratings"),
+  });
+}
+
+function StarInput({ value, onChange }: { value: number; onChange: (value: number) => void }) {
+  return (
+    <div className="flex gap-1">
+      {[1, 2, 3, 4, 5].map((star) => (
+        <button key={star} type="button" aria-label={`${star} star${star > 1 ? "s" : ""}`} onClick={() => onChange(star)}>
+          <Star className={`h-5 w-5 text-amber-500 ${star <= value ? "fill-current" : ""}`} />
+        </button>
+      ))}
+    </div>
+  );
+}
+
+function RateDialog({ partnership, onClose }: { partnership: PendingRating; onClose: () => void }) {
+  const { toast } = useToast();
+  const [scores, setScores] = useState<Record<string, number>>({});
+  const [comment, setComment] = useState("");
+
+  const rateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/ratings", {
+        offerId: partnership.offer_id,
+        scores,
+        comment: comment.trim() || undefined,
+      });
+      return res.json();
+    },
+    onSuccess: (data) => {
+      toast({ title: data.message || "Rating saved" });
+      invalidateRatings();
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't save rating", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const complete = partnership.criteria.every((criterion) => scores[criterion] > 0);
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Rate {partnership.ratee_name}</DialogTitle>
+          <DialogDescription>
+            {partnership.campaign_title ? `${partnership.campaign_title}. ` : ""}
+            Ratings are shown to {partnership.ratee_name} and count towards their reputation.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          {partnership.criteria.map((criterion) => (
+            <div key={criterion} className="flex items-center justify-between gap-4">
+              <Label>{RATING_CRITERIA_LABELS[criterion] || criterion}</Label>
+              <StarInput
+                value={scores[criterion] || 0}
+                onChange={(value) => setScores((current) => ({ ...current, [criterion]: value }))}
+              />
+            </div>
+          ))}
+          <div className="space-y-2">
+            <Label htmlFor="rating-comment">Comment (optional)</Label>
+            <Textarea
+              id="rating-comment"
+              rows={3}
+              value={comment}
+              maxLength={2000}
+              onChange={(event) => setComment(event.target.value)}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button disabled={!complete || rateMutation.isPending} onClick={() => rateMutation.mutate()}>
+            {rateMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Submit rating
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function AppealDialog({ rating, onClose }: { rating: PartnershipRating; onClose: () => void }) {
+  const { toast } = useToast();
+  const [reason, setReason] = useState("");
+
+  const appealMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/ratings/${rating.id}/appeal`, { reason });
+      return res.json();
+    },
+    onSuccess: (data) => {
+      toast({ title: data.message || "Appeal sent" });
+      invalidateRatings();
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't send appeal", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Appeal this rating</DialogTitle>
+          <DialogDescription>
+            Our team will review the rating from {rating.rater_name || "your partner"}. It keeps counting until a
+            decision is made, and each rating can only be appealed once.
+          </DialogDescription>
+        </DialogHeader>
+        <Textarea
+          rows={4}
+          value={reason}
+          maxLength={2000}
+          placeholder="What's inaccurate or unfair about this rating?"
+          onChange={(event) => setReason(event.target.value)}
+        />
+        <DialogFooter>
+          <Button disabled={reason.trim().length < 10 || appealMutation.isPending} onClick={() => appealMutation.mutate()}>
+            {appealMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Send appeal
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * The signed-in user's reputation, ended partnerships waiting for their
+ * rating, and the ratings they've received (which they can appeal)
+ */
+export default function PartnershipRatingsCard({ variant = "light" }: PartnershipRatingsCardProps) {
+  const [rating, setRating] = useState<PendingRating | null>(null);
+  const [appealing, setAppealing] = useState<PartnershipRating | null>(null);
+
+  const { data: reputation, isLoading } = useQuery<ReputationScore>({ queryKey: ["/api/ratings/reputation"] });
+  const { data: pendingData } = useQuery<{ pending: PendingRating[] }>({ queryKey: ["/api/ratings/pending"] });
+  const { data: receivedData } = useQuery<{ ratings: PartnershipRating[] }>({ queryKey: ["/api/ratings/received"] });
+
+  const pending = pendingData?.pending || [];
+  const received = receivedData?.ratings || [];
+
+  const dark = variant === "dark";
+  const mutedClass = dark ? "text-gray-400" : "text-gray-500";
+  const rowClass = dark ? "border border-zinc-800 bg-black/20" : "bg-gray-50";
+
+  return (
+    <Card className={dark ? "bg-zinc-900/40 backdrop-blur-sm border border-zinc-800 shadow-lg" : "border-primary/20"}>
+      <CardHeader>
+        <CardTitle className={`flex items-center gap-2 font-heading ${dark ? "text-white" : ""}`}>
+          <Star className={`h-5 w-5 ${dark ? "text-amber-500" : "text-primary"}`} />
+          Ratings & Reputation
+        </CardTitle>
+        <CardDescription className={dark ? "text-gray-400" : undefined}>
+          Rate partners once a deal ends and see how partners rate you
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : !reputation?.rating_count ? (
+          <p className={`text-sm ${mutedClass}`}>No ratings yet. Your reputation appears after your first rated partnership.</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <p className={`text-4xl font-bold ${dark ? "text-white" : ""}`}>{reputation.score?.toFixed(1)}</p>
+              <p className={`text-sm ${mutedClass}`}>
+                Reputation from {reputation.rating_count} rating{reputation.rating_count === 1 ? "" : "s"}
+              </p>
+            </div>
+            <div className="md:col-span-2 space-y-2">
+              {Object.entries(reputation.criteria).map(([criterion, average]) => (
+                <div key={criterion} className="space-y-1">
+                  <div className={`flex justify-between text-sm ${dark ? "text-gray-300" : ""}`}>
+                    <span>{RATING_CRITERIA_LABELS[criterion] || criterion}</span>
+                    <span>{average.toFixed(1)}</span>
+                  </div>
+                  <Progress value={(average / 5) * 100} className="h-2" />
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {pending.length > 0 && (
+          <div className="space-y-2">
+            <h4 className={`text-sm font-semibold ${dark ? "text-white" : ""}`}>Waiting for your rating</h4>
+            {pending.map((partnership) => (
+              <div key={partnership.offer_id} className={`flex items-center justify-between p-3 rounded-md ${rowClass}`}>
+                <div>
+                  <p className={`text-sm font-medium ${dark ? "text-white" : ""}`}>{partnership.ratee_name}</p>
+                  {partnership.campaign_title && <p className={`text-xs ${mutedClass}`}>{partnership.campaign_title}</p>}
+                </div>
+                <Button size="sm" onClick={() => setRating(partnership)}>Rate</Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {received.length > 0 && (
+          <div className="space-y-2">
+            <h4 className={`text-sm font-semibold ${dark ? "text-white" : ""}`}>Ratings you've received</h4>
+            {received.map((item) => (
+              <div key={item.id} className={`p-3 rounded-md space-y-1 ${rowClass}`}>
+                <div className="flex items-center justify-between gap-2">
+                  <span className={`text-sm font-medium ${dark ? "text-white" : ""}`}>{item.rater_name || "Partner"}</span>
+                  <span className="flex items-center text-sm text-amber-500">
+                    <Star className="h-4 w-4 mr-1 fill-current" />
+                    {item.overall.toFixed(1)}
+                  </span>
+                </div>
+                {item.comment && <p className={`text-sm whitespace-pre-wrap ${dark ? "text-gray-300" : ""}`}>{item.comment}</p>}
+                <div className="flex items-center justify-between gap-2">
+                  <span className={`text-xs ${mutedClass}`}>{new Date(item.created_at).toLocaleDateString()}</span>
+                  {STATUS_LABELS[item.status] ? (
+                    <Badge variant="outline">{STATUS_LABELS[item.status]}</Badge>
+                  ) : item.appeal_decision === "uphold" ? (
+                    <Badge variant="outline">Upheld after appeal</Badge>
+                  ) : (
+                    <Button size="sm" variant="ghost" onClick={() => setAppealing(item)}>
+                      <Flag className="h-4 w-4 mr-1" />
+                      Appeal
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      {rating && <RateDialog partnership={rating} onClose={() => setRating(null)} />}
+      {appealing && <AppealDialog rating={appealing} onClose={() => setAppealing(null)} />}
+    </Card>
+  );
+}
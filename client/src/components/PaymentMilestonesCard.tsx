@@ -0,0 +1,317 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { AlertTriangle, CheckCircle2, Flag, Loader2, Milestone, Undo2 } from "lucide-react";
+import type { EscrowMilestone, EscrowWithMilestones, MilestoneResolution } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+interface PaymentMilestonesCardProps {
+  role: "athlete" | "business";
+  // Business campaign view: lets the card be narrowed to one campaign
+  campaigns?: Array<{ campaign_id: string; title: string }>;
+  variant?: "light" | "dark";
+}
+
+const STATUS_LABELS: Record<EscrowMilestone["status"], string> = {
+  pending: "Awaiting funding",
+  funded: "Held in escrow",
+  released: "Released",
+  disputed: "Disputed",
+  refunded: "Refunded",
+};
+
+const STATUS_CLASSES: Record<EscrowMilestone["status"], string> = {
+  pending: "bg-gray-100 text-gray-700",
+  funded: "bg-yellow-100 text-yellow-800",
+  released: "bg-green-100 text-green-800",
+  disputed: "bg-red-100 text-red-800",
+  refunded: "bg-blue-100 text-blue-800",
+};
+
+const TRIGGER_LABELS: Record<EscrowMilestone["trigger"], string> = {
+  on_acceptance: "Paid on signing",
+  deliverable: "Paid when deliverable is approved",
+  all_deliverables: "Paid when all deliverables are approved",
+  manual: "Paid on business approval",
+};
+
+function formatMoney(amount: number, currency = "USD") {
+  return new Intl.NumberFormat("en-US", { style: "currency", currency, maximumFractionDigits: 2 }).format(amount);
+}
+
+/**
+ * Escrowed payment milestones for the athlete Earnings tab and the business
+ * campaign view, with release and dispute actions
+ */
+export default function PaymentMilestonesCard({ role, campaigns, variant = "light" }: PaymentMilestonesCardProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [campaignId, setCampaignId] = useState("all");
+  const [disputing, setDisputing] = useState<EscrowMilestone | null>(null);
+  const [reason, setReason] = useState("");
+
+  const url = campaignId === "all" ? "/api/payouts/milestones" : `/api/payouts/milestones?campaignId=${campaignId}`;
+  const { data, isLoading } = useQuery<{ escrows: EscrowWithMilestones[] }>({ queryKey: [url] });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({
+      predicate: (query) => typeof query.queryKey[0] === "string" && query.queryKey[0].startsWith("/api/payouts"),
+    });
+    queryClient.invalidateQueries({ queryKey: ["/api/campaign/budget-summary"] });
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: "Milestone update failed", description: error.message, variant: "destructive" });
+  };
+
+  const releaseMutation = useMutation({
+    mutationFn: async (milestoneId: string) => {
+      const res = await apiRequest("POST", `/api/payouts/milestones/${milestoneId}/release`, {});
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Milestone released", description: "The payment is on its way to the athlete." });
+      refresh();
+    },
+    onError,
+  });
+
+  const disputeMutation = useMutation({
+    mutationFn: async ({ milestoneId, reason }: { milestoneId: string; reason: string }) => {
+      const res = await apiRequest("POST", `/api/payouts/milestones/${milestoneId}/dispute`, { reason });
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Dispute raised", description: "The milestone is frozen until the dispute is resolved." });
+      setDisputing(null);
+      setReason("");
+      refresh();
+    },
+    onError,
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: async ({ milestoneId, resolution }: { milestoneId: string; resolution: MilestoneResolution["resolution"] }) => {
+      const res = await apiRequest("POST", `/api/payouts/milestones/${milestoneId}/resolve`, { resolution });
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Dispute resolved" });
+      refresh();
+    },
+    onError,
+  });
+
+  const dark = variant === "dark";
+  const escrows = data?.escrows || [];
+  const busy = releaseMutation.isPending || disputeMutation.isPending || resolveMutation.isPending;
+
+  const actionsFor = (milestone: EscrowMilestone) => {
+    const buttonClass = dark ? "h-8 border border-zinc-700 bg-black/40 hover:bg-zinc-900/80 text-gray-300" : "h-8";
+    const actions = [];
+
+    if (role === "business" && milestone.status === "funded") {
+      actions.push(
+        <Button key="release" size="sm" className="h-8" disabled={busy} onClick={() => releaseMutation.mutate(milestone.id)}>
+          <CheckCircle2 className="mr-1 h-4 w-4" />
+          Release
+        </Button>
+      );
+    }
+
+    if (milestone.status === "pending" || milestone.status === "funded") {
+      actions.push(
+        <Button key="dispute" size="sm" variant="outline" className={buttonClass} disabled={busy} onClick={() => setDisputing(milestone)}>
+          <Flag className="mr-1 h-4 w-4" />
+          Dispute
+        </Button>
+      );
+    }
+
+    if (milestone.status === "disputed") {
+      if (milestone.disputed_by === user?.id) {
+        actions.push(
+          <Button
+            key="withdraw"
+            size="sm"
+            variant="outline"
+            className={buttonClass}
+            disabled={busy}
+            onClick={() => resolveMutation.mutate({ milestoneId: milestone.id, resolution: "resume" })}
+          >
+            <Undo2 className="mr-1 h-4 w-4" />
+            Withdraw Dispute
+          </Button>
+        );
+      }
+
+      // Each side can concede: the business by paying, the athlete by returning the funds
+      actions.push(
+        <Button
+          key="concede"
+          size="sm"
+          variant="outline"
+          className={buttonClass}
+          disabled={busy}
+          onClick={() => resolveMutation.mutate({ milestoneId: milestone.id, resolution: role === "business" ? "release" : "refund" })}
+        >
+          {role === "business" ? "Release Anyway" : "Refund to Brand"}
+        </Button>
+      );
+    }
+
+    return actions;
+  };
+
+  return (
+    <Card className={dark ? "bg-zinc-900/40 backdrop-blur-sm border border-zinc-800 shadow-lg" : "border-primary/20"}>
+      <CardHeader>
+        <div className="flex flex-col md:flex-row justify-between md:items-center gap-4">
+          <div>
+            <CardTitle className={`flex items-center gap-2 font-heading ${dark ? "text-white" : ""}`}>
+              <Milestone className={`h-5 w-5 ${dark ? "text-amber-500" : "text-primary"}`} />
+              Payment Milestones
+            </CardTitle>
+            <CardDescription className={dark ? "text-gray-400" : undefined}>
+              {role === "business"
+                ? "Escrowed funds per milestone, released as work is approved"
+                : "Funds held for you, released as each milestone is met"}
+            </CardDescription>
+          </div>
+          {campaigns && campaigns.length > 0 && (
+            <Select value={campaignId} onValueChange={setCampaignId}>
+              <SelectTrigger className={`w-[220px] ${dark ? "bg-black/40 border-zinc-700 text-gray-300" : ""}`}>
+                <SelectValue placeholder="All campaigns" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All campaigns</SelectItem>
+                {campaigns.map((campaign) => (
+                  <SelectItem key={campaign.campaign_id} value={campaign.campaign_id}>
+                    {campaign.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-6">
+          {escrows.length === 0 && (
+            <div className={`text-sm ${dark ? "text-gray-400" : "text-gray-500"}`}>
+              {isLoading ? "Loading milestones..." : "No funded partnerships yet. Milestones appear here once an offer is accepted."}
+            </div>
+          )}
+          {escrows.map((escrow) => {
+            const settled = Number(escrow.released_amount || 0) + Number(escrow.refunded_amount || 0);
+            const progress = Number(escrow.amount) > 0 ? Math.round((settled / Number(escrow.amount)) * 100) : 0;
+
+            return (
+              <div key={escrow.id} className={`rounded-md p-4 ${dark ? "border border-zinc-800 bg-black/20" : "bg-gray-50"}`}>
+                <div className="flex items-start justify-between gap-4 mb-2">
+                  <div>
+                    <div className={`font-medium ${dark ? "text-white" : ""}`}>
+                      {escrow.counterparty || (role === "business" ? "Athlete" : "Brand partner")}
+                    </div>
+                    <div className={`text-sm ${dark ? "text-gray-400" : "text-blue-700"}`}>
+                      {escrow.campaign || "Direct partnership"}
+                    </div>
+                  </div>
+                  <div className="text-right">
+                    <div className={`font-semibold ${dark ? "text-white" : ""}`}>{formatMoney(Number(escrow.amount), escrow.currency)}</div>
+                    <div className={`text-sm ${dark ? "text-gray-400" : "text-blue-700"}`}>
+                      {formatMoney(Number(escrow.released_amount || 0), escrow.currency)} released
+                    </div>
+                  </div>
+                </div>
+                {escrow.status === "failed" && (
+                  <div className="flex items-center gap-2 text-sm text-red-600 mb-2">
+                    <AlertTriangle className="h-4 w-4" />
+                    Escrow funding failed{escrow.failure_reason ? `: ${escrow.failure_reason}` : ""}
+                  </div>
+                )}
+                <Progress value={progress} className="h-2 mb-4" />
+                <div className="space-y-3">
+                  {escrow.milestones.map((milestone) => (
+                    <div
+                      key={milestone.id}
+                      className={`flex flex-col gap-2 md:flex-row md:items-center md:justify-between rounded-md p-3 ${dark ? "bg-zinc-900/60" : "bg-white"}`}
+                    >
+                      <div>
+                        <div className={`font-medium ${dark ? "text-white" : ""}`}>{milestone.title}</div>
+                        <div className={`text-sm ${dark ? "text-gray-400" : "text-gray-500"}`}>
+                          {milestone.status === "disputed" && milestone.dispute_reason
+                            ? `Disputed: ${milestone.dispute_reason}`
+                            : milestone.status === "released" && milestone.released_at
+                              ? `Released ${new Date(milestone.released_at).toLocaleDateString()}`
+                              : TRIGGER_LABELS[milestone.trigger]}
+                        </div>
+                      </div>
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className={`font-semibold ${dark ? "text-white" : ""}`}>
+                          {formatMoney(Number(milestone.amount), milestone.currency)}
+                        </span>
+                        <Badge className={STATUS_CLASSES[milestone.status]}>{STATUS_LABELS[milestone.status]}</Badge>
+                        {actionsFor(milestone)}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+
+      <Dialog open={!!disputing} onOpenChange={(open) => !open && setDisputing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Dispute "{disputing?.title}"</DialogTitle>
+            <DialogDescription>
+              The milestone's funds stay frozen in escrow until the dispute is withdrawn or resolved.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="milestone-dispute-reason">Reason</Label>
+            <Textarea
+              id="milestone-dispute-reason"
+              value={reason}
+              onChange={(event) => setReason(event.target.value)}
+              placeholder="Explain what needs to be resolved"
+              maxLength={1000}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDisputing(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={!reason.trim() || disputeMutation.isPending}
+              onClick={() => disputing && disputeMutation.mutate({ milestoneId: disputing.id, reason: reason.trim() })}
+            >
+              {disputeMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Raise Dispute
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
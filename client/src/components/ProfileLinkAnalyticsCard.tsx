@@ -0,0 +1,153 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { BarChart3, Loader2, MousePointerClick, Users, Eye } from "lucide-react";
+import type { ProfileLinkAnalytics } from "@shared/schema";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+const PERIODS = [
+  { days: 7, label: "Last 7 days" },
+  { days: 30, label: "Last 30 days" },
+  { days: 90, label: "Last 90 days" },
+];
+
+const trafficConfig = {
+  views: { label: "Views", color: "#ef4444" },
+  uniqueVisitors: { label: "Unique visitors", color: "#f59e0b" },
+} satisfies ChartConfig;
+
+const clicksConfig = {
+  clicks: { label: "Clicks", color: "#ef4444" },
+} satisfies ChartConfig;
+
+// "2025-03-15" -> "Mar 15", read as a UTC day
+function formatDay(date: string) {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: "UTC" });
+}
+
+/**
+ * Views, unique visitors and link clicks on the athlete's public profile page
+ */
+export default function ProfileLinkAnalyticsCard() {
+  const [days, setDays] = useState(30);
+
+  const { data: analytics, isLoading } = useQuery<ProfileLinkAnalytics>({
+    queryKey: [`/api/athlete-profile/profile-link/analytics?days=${days}`],
+  });
+
+  const stats = [
+    { label: "Views", value: analytics?.totals.views ?? 0, icon: Eye },
+    { label: "Unique visitors", value: analytics?.totals.uniqueVisitors ?? 0, icon: Users },
+    { label: "Link clicks", value: analytics?.totals.clicks ?? 0, icon: MousePointerClick },
+  ];
+
+  return (
+    <Card className="border-0 shadow-xl relative overflow-hidden">
+      <div className="absolute top-0 left-0 w-full h-0.5 bg-gradient-to-r from-red-600 to-amber-500"></div>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div>
+          <CardTitle className="flex items-center gap-2 text-xl font-black"><BarChart3 className="h-5 w-5 text-red-500" />PAGE ANALYTICS</CardTitle>
+          <CardDescription>
+            Real traffic on your public profile, with bots filtered out
+          </CardDescription>
+        </div>
+        <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+          <SelectTrigger className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PERIODS.map((period) => (
+              <SelectItem key={period.days} value={String(period.days)}>{period.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading || !analytics ? (
+          <div className="flex justify-center py-10">
+            <Loader2 className="h-6 w-6 animate-spin text-red-500" />
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {stats.map((stat) => (
+                <div key={stat.label} className="rounded-md border p-3">
+                  <div className="flex items-center gap-1 text-xs text-zinc-500">
+                    <stat.icon className="h-3 w-3" />
+                    {stat.label}
+                  </div>
+                  <div className="text-2xl font-bold">{stat.value.toLocaleString()}</div>
+                </div>
+              ))}
+              <div className="rounded-md border p-3">
+                <div className="text-xs text-zinc-500">Click-through rate</div>
+                <div className="text-2xl font-bold">
+                  {analytics.totals.clickThroughRate === null ? "-" : `${analytics.totals.clickThroughRate}%`}
+                </div>
+              </div>
+            </div>
+
+            <div>
+              <h3 className="text-sm font-semibold mb-2">Daily traffic</h3>
+              <ChartContainer config={trafficConfig} className="h-64 w-full aspect-auto">
+                <AreaChart data={analytics.daily} margin={{ left: 0, right: 8 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="date" tickFormatter={formatDay} tickLine={false} axisLine={false} minTickGap={24} />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent labelFormatter={(value) => formatDay(String(value))} />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Area dataKey="views" type="monotone" stroke="var(--color-views)" fill="var(--color-views)" fillOpacity={0.2} />
+                  <Area dataKey="uniqueVisitors" type="monotone" stroke="var(--color-uniqueVisitors)" fill="var(--color-uniqueVisitors)" fillOpacity={0.2} />
+                </AreaChart>
+              </ChartContainer>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                <h3 className="text-sm font-semibold mb-2">Clicks by link</h3>
+                {analytics.buttons.length === 0 ? (
+                  <p className="text-sm text-zinc-500">Add links to your profile to see which ones get clicked.</p>
+                ) : (
+                  <ChartContainer config={clicksConfig} className="h-56 w-full aspect-auto">
+                    <BarChart data={analytics.buttons} layout="vertical" margin={{ left: 0, right: 8 }}>
+                      <CartesianGrid horizontal={false} />
+                      <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+                      <YAxis type="category" dataKey="label" tickLine={false} axisLine={false} width={100} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Bar dataKey="clicks" fill="var(--color-clicks)" radius={4} />
+                    </BarChart>
+                  </ChartContainer>
+                )}
+              </div>
+
+              <div>
+                <h3 className="text-sm font-semibold mb-2">Top referrers</h3>
+                {analytics.referrers.length === 0 ? (
+                  <p className="text-sm text-zinc-500">No visits in this period yet.</p>
+                ) : (
+                  <div className="space-y-2">
+                    {analytics.referrers.map((referrer) => (
+                      <div key={referrer.source} className="flex items-center justify-between text-sm">
+                        <span>{referrer.source === "direct" ? "Direct / unknown" : referrer.source}</span>
+                        <span className="font-semibold">{referrer.views.toLocaleString()}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
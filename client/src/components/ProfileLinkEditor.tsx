@@ -1,5 +1,6 @@
 import { useState, useEffect } from "react";
 import { useForm } from "react-hook-form";
+import { useQuery } from "@tanstack/react-query";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { PlusCircle, Trash2, Link2, ChevronRight, Instagram, Facebook, Twitter, Copy, ExternalLink } from "lucide-react";
@@ -14,7 +15,8 @@ import { Switch } from "@/components/ui/switch";
 import { useToast } from "@/hooks/use-toast";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { cn } from "@/lib/utils";
-import { apiRequest } from "@/lib/queryClient";
+import type { ProfileLinkSettings } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 
 // Define a schema for the form
 const profileLinkSchema = z.object({
@@ -44,7 +46,7 @@ const profileLinkSchema = z.object({
 type ProfileLinkFormValues = z.infer<typeof profileLinkSchema>;
 
 interface ProfileLinkEditorProps {
-  athleteId: number;
+  athleteId?: string; // Defaults to the signed-in athlete
   onSave?: () => void;
   initialData?: any;
 }
@@ -79,11 +81,18 @@ export default function ProfileLinkEditor({ athleteId, onSave, initialData }: Pr
     defaultValues: initialData || defaultProfileLinkData
   });
   
+  // Saved settings, unless the caller already has them
+  const { data: savedSettings } = useQuery<ProfileLinkSettings>({
+    queryKey: ["/api/athlete-profile/profile-link"],
+    enabled: !initialData?.profileLinkId,
+  });
+  
   useEffect(() => {
-    if (initialData) {
-      form.reset(initialData);
+    const settings = initialData?.profileLinkId ? initialData : savedSettings;
+    if (settings) {
+      form.reset({ ...defaultProfileLinkData, ...settings });
     }
-  }, [initialData, form]);
+  }, [initialData, savedSettings, form]);
   
   const profileLinkButtons = form.watch("profileLinkButtons") || [];
   const profileLinkEnabled = form.watch("profileLinkEnabled");
@@ -182,12 +191,18 @@ export default function ProfileLinkEditor({ athleteId, onSave, initialData }: Pr
     setIsLoading(true);
     
     try {
-      const response = await apiRequest("POST", `/api/athlete-profile/${athleteId}/profile-link`, data);
+      const response = await apiRequest(
+        "POST",
+        athleteId ? `/api/athlete-profile/${athleteId}/profile-link` : "/api/athlete-profile/profile-link",
+        data
+      );
+      const saved = await response.json();
       
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.message || "Failed to update profile link");
+      // The server may have normalized the username
+      if (saved.profileLinkId) {
+        form.setValue("profileLinkId", saved.profileLinkId);
       }
+      queryClient.invalidateQueries({ queryKey: ["/api/athlete-profile/profile-link"] });
       
       toast({
         title: "Profile link updated",
@@ -0,0 +1,99 @@
+import { useEffect, useRef } from "react";
+import { Eraser } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+interface SignaturePadProps {
+  // Called with a PNG data URL after each stroke, or null once cleared
+  onChange: (dataUrl: string | null) => void;
+  height?: number;
+}
+
+/**
+ * Canvas for drawing a signature with a mouse, pen or finger
+ */
+export default function SignaturePad({ onChange, height = 160 }: SignaturePadProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawing = useRef(false);
+  const hasInk = useRef(false);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    // Match the backing store to the displayed size so strokes aren't blurry
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = canvas.offsetWidth * ratio;
+    canvas.height = height * ratio;
+    const context = canvas.getContext("2d");
+    if (context) {
+      context.scale(ratio, ratio);
+      context.lineWidth = 2;
+      context.lineCap = "round";
+      context.lineJoin = "round";
+      context.strokeStyle = "#111827";
+    }
+  }, [height]);
+
+  const point = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+  };
+
+  const start = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = event.currentTarget.getContext("2d");
+    if (!context) return;
+
+    event.currentTarget.setPointerCapture(event.pointerId);
+    drawing.current = true;
+    const { x, y } = point(event);
+    context.beginPath();
+    context.moveTo(x, y);
+  };
+
+  const move = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = event.currentTarget.getContext("2d");
+    if (!drawing.current || !context) return;
+
+    const { x, y } = point(event);
+    context.lineTo(x, y);
+    context.stroke();
+    hasInk.current = true;
+  };
+
+  const end = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawing.current) return;
+
+    drawing.current = false;
+    if (hasInk.current) {
+      onChange(event.currentTarget.toDataURL("image/png"));
+    }
+  };
+
+  const clear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext("2d")?.clearRect(0, 0, canvas.width, canvas.height);
+    hasInk.current = false;
+    onChange(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <canvas
+        ref={canvasRef}
+        className="w-full rounded-md border border-dashed border-gray-300 bg-white touch-none cursor-crosshair"
+        style={{ height }}
+        onPointerDown={start}
+        onPointerMove={move}
+        onPointerUp={end}
+        onPointerLeave={end}
+      />
+      <div className="flex justify-between items-center text-xs text-gray-500">
+        <span>Sign above</span>
+        <Button type="button" variant="ghost" size="sm" className="h-7" onClick={clear}>
+          <Eraser className="h-3.5 w-3.5 mr-1" />
+          Clear
+        </Button>
+      </div>
+    </div>
+  );
+}
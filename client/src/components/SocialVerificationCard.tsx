@@ -0,0 +1,157 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { BadgeCheck, Copy, Loader2, ShieldCheck } from "lucide-react";
+import type { SocialAccountVerification } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+const PLATFORM_NAMES: Record<string, string> = {
+  instagram: "Instagram",
+  twitter: "X (Twitter)",
+  tiktok: "TikTok",
+  youtube: "YouTube",
+  facebook: "Facebook",
+  other: "Other",
+};
+
+/**
+ * Ownership verification for the athlete's social accounts: issue a code,
+ * place it in the bio or a post, then check it
+ */
+export default function SocialVerificationCard() {
+  const { toast } = useToast();
+
+  const { data: accounts = [], isLoading } = useQuery<SocialAccountVerification[]>({
+    queryKey: ["/api/social-verification"],
+  });
+
+  const startMutation = useMutation({
+    mutationFn: async (accountId: string) => {
+      const res = await apiRequest("POST", `/api/social-verification/${accountId}/start`);
+      return res.json();
+    },
+    onSuccess: (data) => {
+      toast({ title: "Code ready", description: data.message });
+      queryClient.invalidateQueries({ queryKey: ["/api/social-verification"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't start verification", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const checkMutation = useMutation({
+    mutationFn: async (accountId: string) => {
+      const res = await apiRequest("POST", `/api/social-verification/${accountId}/check`);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Account verified", description: "Your verified badge now shows on your profile." });
+      queryClient.invalidateQueries({ queryKey: ["/api/social-verification"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Not verified yet", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const copyCode = async (code: string) => {
+    try {
+      await navigator.clipboard.writeText(code);
+      toast({ title: "Copied", description: code });
+    } catch {
+      toast({ title: "Couldn't copy", description: code, variant: "destructive" });
+    }
+  };
+
+  return (
+    <Card className="border-primary/20">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 font-heading">
+          <ShieldCheck className="h-5 w-5 text-primary" />
+          Verified Accounts
+        </CardTitle>
+        <CardDescription>
+          Prove you own your social accounts. Verified followers count fully when businesses are matched with athletes.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-10">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : accounts.length === 0 ? (
+          <div className="text-sm text-gray-600">Add your social handles to your profile to verify them here.</div>
+        ) : (
+          <div className="space-y-4">
+            {accounts.map((account) => (
+              <div key={account.id} className="p-4 rounded-md bg-gray-50 space-y-3">
+                <div className="flex items-center justify-between gap-3">
+                  <div>
+                    <div className="font-medium flex items-center gap-2">
+                      {PLATFORM_NAMES[account.platform] || account.platform}
+                      {account.verified && (
+                        <Badge className="bg-green-600 hover:bg-green-600">
+                          <BadgeCheck className="h-3 w-3 mr-1" />
+                          Verified
+                        </Badge>
+                      )}
+                    </div>
+                    <div className="text-sm text-blue-700">
+                      @{account.handle}
+                      {account.verified && account.verified_at && (
+                        ` - verified ${new Date(account.verified_at).toLocaleDateString()}`
+                        + (account.verification_expires_at ? `, renew by ${new Date(account.verification_expires_at).toLocaleDateString()}` : "")
+                      )}
+                    </div>
+                  </div>
+                  {account.supported ? (
+                    <Button
+                      size="sm"
+                      variant={account.verified || account.pending_code ? "outline" : "default"}
+                      disabled={startMutation.isPending}
+                      onClick={() => startMutation.mutate(account.id)}
+                    >
+                      {account.pending_code ? "New code" : account.verified ? "Re-verify" : "Verify"}
+                    </Button>
+                  ) : (
+                    <span className="text-xs text-gray-500">Can't be verified automatically</span>
+                  )}
+                </div>
+
+                {account.pending_code && (
+                  <div className="rounded-md border border-primary/20 bg-white p-3 space-y-2">
+                    <div className="text-sm">
+                      Add this code to your {PLATFORM_NAMES[account.platform] || account.platform} bio or a public post:
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <code className="font-mono text-sm font-semibold">{account.pending_code}</code>
+                      <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => copyCode(account.pending_code!)}>
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-xs text-gray-500">
+                        Expires {account.code_expires_at ? new Date(account.code_expires_at).toLocaleString() : "soon"}
+                      </span>
+                      <Button
+                        size="sm"
+                        disabled={checkMutation.isPending && checkMutation.variables === account.id}
+                        onClick={() => checkMutation.mutate(account.id)}
+                      >
+                        {checkMutation.isPending && checkMutation.variables === account.id && (
+                          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        )}
+                        Check
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,114 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Download, FileText, Loader2 } from "lucide-react";
+import type { Tax1099Row } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+async function saveFile(url: string, fileName: string) {
+  const res = await apiRequest("GET", url);
+  const objectUrl = URL.createObjectURL(await res.blob());
+  const link = document.createElement("a");
+  link.href = objectUrl;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(objectUrl), 60_000);
+}
+
+/**
+ * Admin 1099-NEC report: athletes over the reporting threshold for a year,
+ * with the CSV export and per-athlete PDFs
+ */
+export default function Tax1099ReportCard() {
+  const { toast } = useToast();
+  const lastYear = new Date().getFullYear() - 1;
+  const [year, setYear] = useState(lastYear);
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const { data, isLoading } = useQuery<{ year: number; rows: Tax1099Row[] }>({
+    queryKey: [`/api/tax/admin/1099?year=${year}`],
+  });
+  const rows = data?.rows || [];
+
+  const download = async (key: string, url: string, fileName: string) => {
+    setBusy(key);
+    try {
+      await saveFile(url, fileName);
+    } catch (error: any) {
+      toast({ title: "Download failed", description: error.message, variant: "destructive" });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <FileText className="h-5 w-5" />
+            1099-NEC Reporting
+          </CardTitle>
+          <CardDescription>Athletes paid at or over the reporting threshold</CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={String(year)} onValueChange={(value) => setYear(Number(value))}>
+            <SelectTrigger className="w-28"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {[lastYear + 1, lastYear, lastYear - 1, lastYear - 2].map((option) => (
+                <SelectItem key={option} value={String(option)}>{option}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={rows.length === 0 || busy === "csv"}
+            onClick={() => download("csv", `/api/tax/admin/1099/export?year=${year}`, `1099-nec-${year}.csv`)}
+          >
+            {busy === "csv" ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+            Export CSV
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : rows.length === 0 ? (
+          <p className="text-sm text-gray-500">No athletes reached the reporting threshold in {year}.</p>
+        ) : (
+          <div className="space-y-2">
+            {rows.map((row) => (
+              <div key={row.athlete_id} className="flex justify-between items-center p-3 border rounded-md">
+                <div>
+                  <p className="text-sm font-medium">{row.athlete_name}</p>
+                  <p className="text-xs text-gray-500">
+                    ${row.total.toLocaleString("en-US", { minimumFractionDigits: 2 })}
+                    {row.form ? ` - ${row.form.tin_type.toUpperCase()} ${row.form.tin_masked}` : ""}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  {!row.w9_on_file && <Badge variant="destructive">W-9 missing</Badge>}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={!row.w9_on_file || busy === row.athlete_id}
+                    onClick={() => download(row.athlete_id, `/api/tax/admin/1099/${row.athlete_id}/${year}`, `1099-nec-${year}-${row.athlete_id.slice(0, 8)}.pdf`)}
+                  >
+                    PDF
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,293 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { CheckCircle2, Download, FileText, Loader2, ShieldCheck } from "lucide-react";
+import type { TaxClassification, TaxForm, TaxYearEarnings, TinType, W9Input } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+const CLASSIFICATIONS: Record<TaxClassification, string> = {
+  individual: "Individual / sole proprietor",
+  c_corporation: "C corporation",
+  s_corporation: "S corporation",
+  partnership: "Partnership",
+  trust_estate: "Trust / estate",
+  llc: "Limited liability company",
+};
+
+type W9FormState = Omit<W9Input, "certify"> & { certify: boolean };
+
+const EMPTY_FORM: W9FormState = {
+  legal_name: "",
+  business_name: "",
+  tax_classification: "individual",
+  tin_type: "ssn",
+  tin: "",
+  address_line1: "",
+  address_line2: "",
+  city: "",
+  state: "",
+  zip: "",
+  signature_name: "",
+  certify: false,
+};
+
+function formatMoney(amount: number) {
+  return `$${amount.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+/**
+ * W-9 collection, yearly earnings and 1099-NEC downloads for the athlete's
+ * Contracts & Forms tab
+ */
+export default function TaxDocumentsCard() {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [form, setForm] = useState<W9FormState>(EMPTY_FORM);
+  const [downloading, setDownloading] = useState<number | null>(null);
+
+  const { data: w9Data, isLoading: w9Loading } = useQuery<{ form: TaxForm | null }>({ queryKey: ["/api/tax/w9"] });
+  const { data: earningsData, isLoading: earningsLoading } = useQuery<{ earnings: TaxYearEarnings[] }>({
+    queryKey: ["/api/tax/earnings"],
+  });
+
+  const w9 = w9Data?.form;
+  const earnings = earningsData?.earnings || [];
+  const currentYear = new Date().getFullYear();
+
+  const submitMutation = useMutation({
+    mutationFn: async (input: W9FormState) => {
+      const res = await apiRequest("POST", "/api/tax/w9", {
+        ...input,
+        business_name: input.business_name || undefined,
+        address_line2: input.address_line2 || undefined,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "W-9 saved", description: "Your tax information is stored securely." });
+      setOpen(false);
+      setForm(EMPTY_FORM);
+      queryClient.invalidateQueries({ queryKey: ["/api/tax/w9"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't save your W-9", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openForm = () => {
+    // The TIN is never sent back, so it has to be entered again on every update
+    setForm(w9 ? {
+      ...EMPTY_FORM,
+      legal_name: w9.legal_name,
+      business_name: w9.business_name || "",
+      tax_classification: w9.tax_classification,
+      tin_type: w9.tin_type,
+      address_line1: w9.address_line1,
+      address_line2: w9.address_line2 || "",
+      city: w9.city,
+      state: w9.state,
+      zip: w9.zip,
+    } : EMPTY_FORM);
+    setOpen(true);
+  };
+
+  const download1099 = async (year: number) => {
+    setDownloading(year);
+    try {
+      const res = await apiRequest("GET", `/api/tax/1099/${year}`);
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `1099-nec-${year}.pdf`;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 60_000);
+    } catch (error: any) {
+      toast({ title: "1099-NEC unavailable", description: error.message, variant: "destructive" });
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  const update = (field: keyof W9FormState, value: string | boolean) => setForm({ ...form, [field]: value });
+
+  return (
+    <Card className="border-primary/20">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 font-heading">
+          <FileText className="h-5 w-5 text-primary" />
+          Tax Documents
+        </CardTitle>
+        <CardDescription>
+          Your W-9 and the 1099-NEC forms for the payouts you've received
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          {w9Loading || earningsLoading ? (
+            <div className="flex justify-center py-10">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : (
+            <>
+              <div className="flex items-center justify-between p-4 rounded-md bg-gray-50">
+                <div className="flex items-center gap-3">
+                  {w9 ? <ShieldCheck className="h-5 w-5 text-green-600" /> : <FileText className="h-5 w-5 text-primary" />}
+                  <div>
+                    <div className="font-medium">Form W-9</div>
+                    <div className="text-sm text-blue-700">
+                      {w9
+                        ? `${w9.legal_name} - ${w9.tin_type.toUpperCase()} ${w9.tin_masked} - certified ${new Date(w9.certified_at).toLocaleDateString()}`
+                        : "Needed before we can report your earnings"}
+                    </div>
+                  </div>
+                </div>
+                <Button size="sm" variant={w9 ? "outline" : "default"} onClick={openForm}>
+                  {w9 ? "Update" : "Submit W-9"}
+                </Button>
+              </div>
+
+              {earnings.length === 0 && (
+                <div className="text-sm text-gray-600">No payouts yet. Your yearly earnings will show here.</div>
+              )}
+
+              {earnings.map((entry) => (
+                <div key={entry.year} className="flex items-center justify-between p-4 rounded-md bg-gray-50">
+                  <div className="flex items-center gap-3">
+                    <FileText className="h-5 w-5 text-primary" />
+                    <div>
+                      <div className="font-medium flex items-center gap-2">
+                        Tax Year {entry.year}
+                        {entry.reportable && <Badge variant="outline">1099-NEC</Badge>}
+                      </div>
+                      <div className="text-sm text-blue-700">
+                        {formatMoney(entry.total)} across {entry.payouts} payout{entry.payouts === 1 ? "" : "s"}
+                        {!entry.reportable && ` - under the ${formatMoney(entry.threshold)} reporting threshold`}
+                      </div>
+                    </div>
+                  </div>
+                  {entry.reportable && (
+                    entry.year < currentYear ? (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={!w9 || downloading === entry.year}
+                        onClick={() => download1099(entry.year)}
+                      >
+                        {downloading === entry.year ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+                        Download
+                      </Button>
+                    ) : (
+                      <span className="text-xs text-gray-500">Available after year end</span>
+                    )
+                  )}
+                </div>
+              ))}
+            </>
+          )}
+        </div>
+      </CardContent>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Form W-9</DialogTitle>
+            <DialogDescription>
+              Request for Taxpayer Identification Number and Certification. Your TIN is encrypted and only the last four digits are ever shown.
+            </DialogDescription>
+          </DialogHeader>
+          <form
+            className="space-y-3"
+            onSubmit={(e) => {
+              e.preventDefault();
+              submitMutation.mutate(form);
+            }}
+          >
+            <div className="space-y-1">
+              <Label htmlFor="w9-legal-name">Name (as shown on your income tax return)</Label>
+              <Input id="w9-legal-name" value={form.legal_name} onChange={(e) => update("legal_name", e.target.value)} required />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="w9-business-name">Business name (if different)</Label>
+              <Input id="w9-business-name" value={form.business_name || ""} onChange={(e) => update("business_name", e.target.value)} />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label>Tax classification</Label>
+                <Select value={form.tax_classification} onValueChange={(value) => update("tax_classification", value)}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(CLASSIFICATIONS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>TIN type</Label>
+                <Select value={form.tin_type} onValueChange={(value) => update("tin_type", value as TinType)}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="ssn">Social Security number</SelectItem>
+                    <SelectItem value="ein">Employer identification number</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="w9-tin">{form.tin_type === "ssn" ? "SSN" : "EIN"}</Label>
+              <Input
+                id="w9-tin"
+                value={form.tin}
+                onChange={(e) => update("tin", e.target.value)}
+                placeholder={form.tin_type === "ssn" ? "123-45-6789" : "12-3456789"}
+                autoComplete="off"
+                required
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="w9-address1">Address</Label>
+              <Input id="w9-address1" value={form.address_line1} onChange={(e) => update("address_line1", e.target.value)} required />
+              <Input value={form.address_line2 || ""} onChange={(e) => update("address_line2", e.target.value)} placeholder="Apt, suite (optional)" />
+            </div>
+            <div className="grid grid-cols-3 gap-3">
+              <Input value={form.city} onChange={(e) => update("city", e.target.value)} placeholder="City" required />
+              <Input value={form.state} onChange={(e) => update("state", e.target.value)} placeholder="State" maxLength={2} required />
+              <Input value={form.zip} onChange={(e) => update("zip", e.target.value)} placeholder="ZIP" required />
+            </div>
+            <div className="flex items-start gap-2">
+              <Checkbox id="w9-certify" checked={form.certify} onCheckedChange={(checked) => update("certify", checked === true)} />
+              <Label htmlFor="w9-certify" className="text-xs font-normal leading-snug">
+                Under penalties of perjury, I certify that the number shown is my correct taxpayer identification number, that I am not subject to backup withholding, and that I am a U.S. citizen or other U.S. person.
+              </Label>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="w9-signature">Signature (type your full name)</Label>
+              <Input id="w9-signature" value={form.signature_name} onChange={(e) => update("signature_name", e.target.value)} required />
+            </div>
+            <DialogFooter>
+              <Button type="submit" disabled={!form.certify || submitMutation.isPending}>
+                {submitMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <CheckCircle2 className="h-4 w-4 mr-2" />}
+                Certify and save
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -1,6 +1,7 @@
 import { createContext, useContext, ReactNode } from 'react';
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import type { Compensation } from '@shared/schema';
 
 // Define the form state interface
 interface ProWizardState {
@@ -47,6 +48,7 @@ interface ProWizardState {
       description: string;
       deliverables: string;
       compensation: string;
+      compensation_terms?: Compensation;
       timeline: string;
     } | null;
     selectedBundle: {
@@ -54,6 +56,7 @@ interface ProWizardState {
       description: string;
       deliverables: string;
       compensation: string;
+      compensation_terms?: Compensation;
       timeline: string;
     } | null;
   };
@@ -36,6 +36,8 @@ export async function apiRequest(
     '/api/session/new',
     '/api/auth/register',
     '/api/auth/login',
+    '/api/contracts/guardian/',
+    '/api/guardian/view/',
   ];
   const isPublic = PUBLIC_ENDPOINTS.some(ep => url.startsWith(ep));
 
@@ -1,98 +1,102 @@
 import { useEffect, useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { useLocation } from "wouter";
+import type { AdminKpis, AdminPartnership, AdminUserSummary } from "@shared/schema";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
-import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
-import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
+import Tax1099ReportCard from "@/components/Tax1099ReportCard";
+import AdminUserDialog from "@/components/AdminUserDialog";
+import AdminAuditLogCard from "@/components/AdminAuditLogCard";
+import AdminFeedbackTriage from "@/components/AdminFeedbackTriage";
+import AdminRatingAppealsCard from "@/components/AdminRatingAppealsCard";
 import { 
   BarChart3, 
   Users, 
   Building2, 
   ShieldCheck, 
-  MessagesSquare, 
   Bell, 
-  Settings, 
   Zap, 
   Handshake, 
-  AlertCircle,
-  FileText,
-  ChevronUp,
-  ChevronDown,
-  Maximize2,
-  BarChart2,
-  Calendar
+  Calendar,
+  Search
 } from "lucide-react";
 
-// Initial default values that will be replaced with real data
-const defaultSystemMetrics = {
-  userCount: 0,
-  activePartnerships: 0,
-  pendingPartnerships: 0,
-  matchSuccess: 0,
-  totalRevenue: "$0"
-};
+const OFFER_STATUSES = ["pending", "countered", "accepted", "active", "declined", "canceled", "expired", "frozen"];
+
+// "in-progress" -> "In progress"
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1).replace(/[-_]/g, " ");
+
+const formatMoney = (amount: number) =>
+  `$${amount.toLocaleString("en-US", { minimumFractionDigits: 0, maximumFractionDigits: 2 })}`;
+
+// Query string for an admin list endpoint, leaving out "all" filters
+function adminUrl(path: string, params: Record<string, string | number>) {
+  const query = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== "" && value !== "all") {
+      query.set(key, String(value));
+    }
+  });
+  const text = query.toString();
+  return text ? `${path}?${text}` : path;
+}
 
 const AdminDashboard = () => {
   const [, navigate] = useLocation();
   const { user, logout } = useAuth();
   const { toast } = useToast();
-  const [systemMetrics, setSystemMetrics] = useState(defaultSystemMetrics);
-  
+  const isAdmin = !!user && user.role === "admin";
+
+  const [searchInput, setSearchInput] = useState("");
+  const [search, setSearch] = useState("");
+  const [roleFilter, setRoleFilter] = useState("all");
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [partnershipStatus, setPartnershipStatus] = useState("all");
+
+  // Search as the admin types, once they pause
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(searchInput.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
   // Fetch users from API
-  const { data: users = [], isLoading: isLoadingUsers } = useQuery<any[]>({
-    queryKey: ['/api/admin/users'],
-    enabled: !!user && user.userType === 'admin',
+  const { data: usersResponse, isLoading: isLoadingUsers } = useQuery<{ users: AdminUserSummary[]; total: number }>({
+    queryKey: [adminUrl("/api/admin/users", { q: search, role: roleFilter, status: statusFilter, limit: 50 })],
+    enabled: isAdmin,
   });
-  
-  // Fetch partnerships data
-  const { data: matches = [], isLoading: isLoadingMatches } = useQuery<any[]>({
-    queryKey: ['/api/matches'],
-    enabled: !!user && user.role === 'admin',
+  const users = usersResponse?.users || [];
+
+  // Fetch platform KPIs
+  const { data: kpisResponse } = useQuery<{ kpis: AdminKpis }>({
+    queryKey: ["/api/admin/kpis"],
+    enabled: isAdmin,
   });
-  
-  // Fetch partnership offers data
-  const { data: offers = [], isLoading: isLoadingOffers } = useQuery<any[]>({
-    queryKey: ['/api/partnership-offers'],
-    enabled: !!user && user.userType === 'admin',
+  const kpis = kpisResponse?.kpis;
+
+  // Fetch partnerships data
+  const { data: partnershipsResponse, isLoading: isLoadingPartnerships } = useQuery<{
+    partnerships: AdminPartnership[];
+    total: number;
+  }>({
+    queryKey: [adminUrl("/api/admin/partnerships", { status: partnershipStatus, limit: 50 })],
+    enabled: isAdmin,
   });
-  
-  // Fetch feedback data
-  const { data: feedbackResponse, isLoading: isLoadingFeedback } = useQuery({
-    queryKey: ['/api/feedback/public'],
-    enabled: !!user && user.userType === 'admin',
+  const partnerships = partnershipsResponse?.partnerships || [];
+
+  // Offers still waiting on the athlete
+  const { data: pendingResponse, isLoading: isLoadingPending } = useQuery<{ partnerships: AdminPartnership[] }>({
+    queryKey: ["/api/admin/partnerships?status=pending&limit=3"],
+    enabled: isAdmin,
   });
-  
-  // Process feedback data to ensure it's an array
-  const feedback = Array.isArray(feedbackResponse) ? feedbackResponse : [];
-  
-  // Process data to generate system metrics
-  useEffect(() => {
-    if (users.length && matches.length) {
-      // Calculate metrics based on real data
-      const activePartnerships = matches.filter(m => m.status === 'active').length;
-      const pendingPartnerships = Array.isArray(offers) ? offers.filter(o => o.status === 'pending').length : 0;
-      const successfulMatches = matches.filter(m => m.status === 'completed' || m.status === 'active').length;
-      const matchSuccess = users.length > 0 ? Math.floor((successfulMatches / matches.length) * 100) : 0;
-      
-      // Update system metrics
-      setSystemMetrics({
-        userCount: users.length,
-        activePartnerships,
-        pendingPartnerships,
-        matchSuccess,
-        totalRevenue: `$${(activePartnerships * 2500).toLocaleString()}` // Estimate based on active partnerships
-      });
-    }
-  }, [users, matches, offers]);
+  const pendingPartnerships = pendingResponse?.partnerships || [];
 
   // Check if user is admin, redirect if not
   useEffect(() => {
@@ -118,10 +122,32 @@ const AdminDashboard = () => {
 
   // Stats cards data
   const statsCards = [
-    { title: "Total Users", value: systemMetrics.userCount, icon: <Users className="h-8 w-8 text-white" />, change: "Real-time data" },
-    { title: "Active Partnerships", value: systemMetrics.activePartnerships, icon: <Handshake className="h-8 w-8 text-white" />, change: "Real-time data" },
-    { title: "Match Success Rate", value: `${systemMetrics.matchSuccess}%`, icon: <Zap className="h-8 w-8 text-white" />, change: "Based on completed matches" },
-    { title: "Platform Revenue", value: systemMetrics.totalRevenue, icon: <BarChart3 className="h-8 w-8 text-white" />, change: "Estimated value" },
+    {
+      title: "Total Users",
+      value: kpis?.users.total ?? 0,
+      icon: <Users className="h-8 w-8 text-white" />,
+      change: kpis ? `${kpis.users.newLast30Days} new in the last 30 days` : "Loading...",
+    },
+    {
+      title: "Active Partnerships",
+      value: kpis?.partnerships.byStatus.active ?? 0,
+      icon: <Handshake className="h-8 w-8 text-white" />,
+      change: kpis ? `${kpis.partnerships.byStatus.pending ?? 0} offers pending` : "Loading...",
+    },
+    {
+      title: "Offer Acceptance Rate",
+      value: kpis?.partnerships.acceptanceRate === null || kpis?.partnerships.acceptanceRate === undefined
+        ? "-"
+        : `${kpis.partnerships.acceptanceRate}%`,
+      icon: <Zap className="h-8 w-8 text-white" />,
+      change: "Of accepted and declined offers",
+    },
+    {
+      title: "Paid to Athletes",
+      value: formatMoney(kpis?.payments.paidOut ?? 0),
+      icon: <BarChart3 className="h-8 w-8 text-white" />,
+      change: kpis ? `${formatMoney(kpis.payments.paidOutLast30Days)} in the last 30 days` : "Loading...",
+    },
   ];
 
   return (
@@ -217,99 +243,62 @@ const AdminDashboard = () => {
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
             <Card className="lg:col-span-2">
               <CardHeader>
-                <CardTitle className="flex justify-between">
-                  <span>Performance Metrics</span>
-                  <Button variant="ghost" size="sm">
-                    <Maximize2 className="h-4 w-4 mr-1" /> Expand
-                  </Button>
-                </CardTitle>
-                <CardDescription>Partnership and user growth over time</CardDescription>
+                <CardTitle>Partnership Pipeline</CardTitle>
+                <CardDescription>Every partnership offer on the platform, by status</CardDescription>
               </CardHeader>
               <CardContent>
-                <div className="h-[300px] flex items-center justify-center border rounded-md p-4">
-                  <div className="text-center">
-                    <BarChart2 className="h-16 w-16 text-gray-600 mx-auto mb-4" />
-                    <p className="text-sm text-gray-500">Interactive chart would display here</p>
-                    <p className="text-xs text-gray-600">Showing metrics over the past 6 months</p>
+                {!kpis ? (
+                  <p className="text-sm text-gray-500">Loading metrics...</p>
+                ) : (
+                  <div className="space-y-4">
+                    {OFFER_STATUSES.map((status) => {
+                      const count = kpis.partnerships.byStatus[status] ?? 0;
+                      return (
+                        <div key={status}>
+                          <div className="flex justify-between mb-1">
+                            <span className="text-sm font-medium">{capitalize(status)}</span>
+                            <span className="text-sm text-gray-500">{count}</span>
+                          </div>
+                          <Progress
+                            value={kpis.partnerships.total > 0 ? (count / kpis.partnerships.total) * 100 : 0}
+                            className="h-2"
+                          />
+                        </div>
+                      );
+                    })}
                   </div>
-                </div>
+                )}
               </CardContent>
             </Card>
 
-            <Card>
-              <CardHeader>
-                <CardTitle>Recent Activity</CardTitle>
-                <CardDescription>Latest platform updates</CardDescription>
-              </CardHeader>
-              <CardContent>
-                <div className="space-y-4">
-                  <div className="flex items-start gap-3">
-                    <div className="bg-green-100 p-2 rounded-full">
-                      <Users className="h-4 w-4 text-green-600" />
-                    </div>
-                    <div>
-                      <p className="text-sm font-medium">New User Registration</p>
-                      <p className="text-xs text-gray-500">Marcus Johnson joined as an athlete</p>
-                      <p className="text-xs text-gray-600">Today, 10:23 AM</p>
-                    </div>
-                  </div>
-                  <div className="flex items-start gap-3">
-                    <div className="bg-blue-100 p-2 rounded-full">
-                      <Handshake className="h-4 w-4 text-blue-600" />
-                    </div>
-                    <div>
-                      <p className="text-sm font-medium">New Partnership</p>
-                      <p className="text-xs text-gray-500">Jordan Mitchell & Emma's Sportswear</p>
-                      <p className="text-xs text-gray-600">Yesterday, 4:45 PM</p>
-                    </div>
-                  </div>
-                  <div className="flex items-start gap-3">
-                    <div className="bg-amber-100 p-2 rounded-full">
-                      <AlertCircle className="h-4 w-4 text-amber-600" />
-                    </div>
-                    <div>
-                      <p className="text-sm font-medium">Compliance Alert</p>
-                      <p className="text-xs text-gray-500">Partnership #103 requires review</p>
-                      <p className="text-xs text-gray-600">Mar 27, 2:15 PM</p>
-                    </div>
-                  </div>
-                  <div className="flex items-start gap-3">
-                    <div className="bg-purple-100 p-2 rounded-full">
-                      <FileText className="h-4 w-4 text-purple-600" />
-                    </div>
-                    <div>
-                      <p className="text-sm font-medium">System Update</p>
-                      <p className="text-xs text-gray-500">New matching algorithm deployed</p>
-                      <p className="text-xs text-gray-600">Mar 25, 11:10 AM</p>
-                    </div>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
+            <AdminAuditLogCard limit={5} />
           </div>
 
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mt-6">
             <Card>
               <CardHeader>
-                <CardTitle className="flex justify-between">
-                  <span>Upcoming Partnerships</span>
-                  <span className="text-sm font-normal text-gray-500">View All</span>
-                </CardTitle>
-                <CardDescription>Partnerships scheduled to start soon</CardDescription>
+                <CardTitle>Pending Partnerships</CardTitle>
+                <CardDescription>Latest offers waiting on an athlete</CardDescription>
               </CardHeader>
               <CardContent>
                 <div className="space-y-4">
-                  {isLoadingOffers ? (
+                  {isLoadingPending ? (
                     <div className="text-center p-4">
-                      <p className="text-sm text-gray-500">Loading upcoming partnerships...</p>
+                      <p className="text-sm text-gray-500">Loading pending partnerships...</p>
                     </div>
-                  ) : (Array.isArray(offers) ? offers.filter(o => o.status === "pending").slice(0, 3) : []).map((offer) => (
+                  ) : pendingPartnerships.length === 0 ? (
+                    <div className="text-center p-4">
+                      <p className="text-sm text-gray-500">No pending partnerships found</p>
+                    </div>
+                  ) : pendingPartnerships.map((offer) => (
                     <div key={offer.id} className="flex items-center justify-between border-b pb-3">
                       <div className="flex items-center gap-3">
                         <Calendar className="h-5 w-5 text-gray-600" />
                         <div>
-                          <p className="text-sm font-medium">Athlete #{offer.athleteId} + Business #{offer.businessId}</p>
-                          <p className="text-xs text-gray-500">Campaign #{offer.campaignId} • {offer.compensation ? `$${offer.compensation}` : 'Varies'}</p>
+                          <p className="text-sm font-medium">{offer.athlete_name} + {offer.business_name}</p>
+                          <p className="text-xs text-gray-500">
+                            {offer.campaign_title || "No campaign"} • {offer.offer_amount !== null ? formatMoney(offer.offer_amount) : 'Varies'}
+                          </p>
                         </div>
                       </div>
                       <Badge variant="outline" className="bg-amber-50 text-amber-700 border-amber-200">
@@ -317,59 +306,40 @@ const AdminDashboard = () => {
                       </Badge>
                     </div>
                   ))}
-                  {Array.isArray(offers) && offers.filter(o => o.status === "pending").length === 0 && (
-                    <div className="text-center p-4">
-                      <p className="text-sm text-gray-500">No pending partnerships found</p>
-                    </div>
-                  )}
                 </div>
               </CardContent>
             </Card>
 
             <Card>
               <CardHeader>
-                <CardTitle className="flex justify-between">
-                  <span>Platform Health</span>
-                  <Button variant="ghost" size="sm">
-                    <Settings className="h-4 w-4 mr-1" /> Configure
-                  </Button>
-                </CardTitle>
-                <CardDescription>Status of system components</CardDescription>
+                <CardTitle>Platform Numbers</CardTitle>
+                <CardDescription>Users, campaigns and money moving through the platform</CardDescription>
               </CardHeader>
               <CardContent>
-                <div className="space-y-4">
-                  <div>
-                    <div className="flex justify-between mb-1">
-                      <span className="text-sm font-medium">API Response Time</span>
-                      <span className="text-sm text-green-600">Excellent</span>
-                    </div>
-                    <Progress value={92} className="h-2" />
-                  </div>
-                  
-                  <div>
-                    <div className="flex justify-between mb-1">
-                      <span className="text-sm font-medium">Database Performance</span>
-                      <span className="text-sm text-green-600">Good</span>
+                {!kpis ? (
+                  <p className="text-sm text-gray-500">Loading metrics...</p>
+                ) : (
+                  <div className="space-y-3 text-sm">
+                    {Object.entries(kpis.users.byRole).map(([role, count]) => (
+                      <div key={role} className="flex justify-between">
+                        <span>{role === "user" ? "Regular users" : `${capitalize(role)} accounts`}</span>
+                        <span className="font-medium">{count}</span>
+                      </div>
+                    ))}
+                    <div className="flex justify-between">
+                      <span>Suspended accounts</span>
+                      <span className="font-medium">{kpis.users.suspended}</span>
                     </div>
-                    <Progress value={85} className="h-2" />
-                  </div>
-                  
-                  <div>
-                    <div className="flex justify-between mb-1">
-                      <span className="text-sm font-medium">Matching Algorithm</span>
-                      <span className="text-sm text-green-600">Excellent</span>
+                    <div className="flex justify-between border-t pt-3">
+                      <span>Active campaigns</span>
+                      <span className="font-medium">{kpis.campaigns.active}</span>
                     </div>
-                    <Progress value={95} className="h-2" />
-                  </div>
-                  
-                  <div>
-                    <div className="flex justify-between mb-1">
-                      <span className="text-sm font-medium">Storage Capacity</span>
-                      <span className="text-sm text-amber-600">Moderate</span>
+                    <div className="flex justify-between">
+                      <span>Held in escrow</span>
+                      <span className="font-medium">{formatMoney(kpis.payments.heldInEscrow)}</span>
                     </div>
-                    <Progress value={68} className="h-2" />
                   </div>
-                </div>
+                )}
               </CardContent>
             </Card>
           </div>
@@ -379,13 +349,46 @@ const AdminDashboard = () => {
         <TabsContent value="users">
           <Card>
             <CardHeader>
-              <CardTitle className="flex justify-between">
-                <span>User Management</span>
-                <Button size="sm">Add New User</Button>
-              </CardTitle>
-              <CardDescription>Complete list of platform users</CardDescription>
+              <CardTitle>User Management</CardTitle>
+              <CardDescription>
+                {usersResponse ? `${usersResponse.total} matching users` : "Search platform users"}
+              </CardDescription>
             </CardHeader>
             <CardContent>
+              <div className="flex flex-wrap gap-2 mb-4">
+                <div className="relative flex-1 min-w-[200px]">
+                  <Search className="absolute left-2 top-2.5 h-4 w-4 text-gray-500" />
+                  <Input
+                    className="pl-8"
+                    placeholder="Search by email or name"
+                    value={searchInput}
+                    onChange={(event) => setSearchInput(event.target.value)}
+                  />
+                </div>
+                <Select value={roleFilter} onValueChange={setRoleFilter}>
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All roles</SelectItem>
+                    <SelectItem value="athlete">Athlete</SelectItem>
+                    <SelectItem value="business">Business</SelectItem>
+                    <SelectItem value="compliance">Compliance</SelectItem>
+                    <SelectItem value="admin">Admin</SelectItem>
+                    <SelectItem value="user">Regular User</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Select value={statusFilter} onValueChange={setStatusFilter}>
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All statuses</SelectItem>
+                    <SelectItem value="active">Active</SelectItem>
+                    <SelectItem value="suspended">Suspended</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
               <div className="border rounded-md">
                 <div className="grid grid-cols-6 bg-gray-50 p-3 rounded-t-md">
                   <div className="col-span-2 font-medium text-sm">User</div>
@@ -399,99 +402,44 @@ const AdminDashboard = () => {
                     <div className="p-8 text-center">
                       <p className="text-gray-500">Loading users...</p>
                     </div>
-                  ) : !Array.isArray(users) || users.length === 0 ? (
+                  ) : users.length === 0 ? (
                     <div className="p-8 text-center">
                       <p className="text-gray-500">No users found</p>
                     </div>
-                  ) : users.map((user) => (
-                    <div key={user.id} className="grid grid-cols-6 p-3 items-center">
+                  ) : users.map((account) => (
+                    <div key={account.id} className="grid grid-cols-6 p-3 items-center">
                       <div className="col-span-2 flex items-center gap-3">
                         <Avatar className="h-9 w-9">
-                          <AvatarFallback>{user.username ? user.username.charAt(0).toUpperCase() : 'U'}</AvatarFallback>
+                          <AvatarFallback>{(account.full_name || account.email).charAt(0).toUpperCase()}</AvatarFallback>
                         </Avatar>
                         <div>
-                          <p className="text-sm font-medium">{user.username || 'Unnamed User'}</p>
-                          <p className="text-xs text-gray-500">Last active: {formatDate(user.updatedAt)}</p>
+                          <p className="text-sm font-medium">{account.full_name || account.email}</p>
+                          <p className="text-xs text-gray-500">
+                            {account.full_name ? `${account.email} • ` : ""}Last login: {formatDate(account.last_login)}
+                          </p>
                         </div>
                       </div>
                       <div>
                         <Badge variant="outline" className={
-                          user.userType === "athlete" ? "bg-blue-50 text-blue-700 border-blue-200" : 
-                          user.userType === "business" ? "bg-purple-50 text-purple-700 border-purple-200" :
-                          user.userType === "admin" ? "bg-red-50 text-red-700 border-red-200" :
+                          account.role === "athlete" ? "bg-blue-50 text-blue-700 border-blue-200" : 
+                          account.role === "business" ? "bg-purple-50 text-purple-700 border-purple-200" :
+                          account.role === "admin" ? "bg-red-50 text-red-700 border-red-200" :
                           "bg-gray-50 text-gray-700 border-gray-200"
                         }>
-                          {user.userType ? user.userType.charAt(0).toUpperCase() + user.userType.slice(1) : 'Unknown'}
+                          {capitalize(account.role)}
                         </Badge>
                       </div>
                       <div>
-                        <Badge variant={
-                          user.status === "active" ? "default" : 
-                          user.status === "pending" ? "outline" : 
-                          "secondary"
-                        }>
-                          {user.status ? user.status.charAt(0).toUpperCase() + user.status.slice(1) : 'Inactive'}
+                        <Badge
+                          variant={account.status === "suspended" ? "destructive" : "default"}
+                          title={account.suspension_reason || undefined}
+                        >
+                          {capitalize(account.status)}
                         </Badge>
                       </div>
-                      <div className="text-sm">{formatDate(user.createdAt)}</div>
+                      <div className="text-sm">{formatDate(account.created_at)}</div>
                       <div className="flex gap-2">
-                        <Button size="sm" variant="outline" onClick={() => navigate(`/admin/users/${user.id}`)}>View</Button>
-                        <Dialog>
-                          <DialogTrigger asChild>
-                            <Button size="sm" variant="outline">Edit</Button>
-                          </DialogTrigger>
-                          <DialogContent>
-                            <DialogHeader>
-                              <DialogTitle>Edit User</DialogTitle>
-                              <DialogDescription>
-                                Make changes to user information below.
-                              </DialogDescription>
-                            </DialogHeader>
-                            <div className="grid gap-4 py-4">
-                              <div className="grid grid-cols-4 items-center gap-4">
-                                <Label htmlFor="username" className="text-right">
-                                  Username
-                                </Label>
-                                <Input id="username" defaultValue={user.username || ''} className="col-span-3" />
-                              </div>
-                              <div className="grid grid-cols-4 items-center gap-4">
-                                <Label htmlFor="userType" className="text-right">
-                                  User Type
-                                </Label>
-                                <Select defaultValue={user.userType || 'user'}>
-                                  <SelectTrigger className="col-span-3">
-                                    <SelectValue placeholder="Select user type" />
-                                  </SelectTrigger>
-                                  <SelectContent>
-                                    <SelectItem value="athlete">Athlete</SelectItem>
-                                    <SelectItem value="business">Business</SelectItem>
-                                    <SelectItem value="admin">Admin</SelectItem>
-                                    <SelectItem value="user">Regular User</SelectItem>
-                                  </SelectContent>
-                                </Select>
-                              </div>
-                              <div className="grid grid-cols-4 items-center gap-4">
-                                <Label htmlFor="status" className="text-right">
-                                  Status
-                                </Label>
-                                <Select defaultValue={user.status || 'inactive'}>
-                                  <SelectTrigger className="col-span-3">
-                                    <SelectValue placeholder="Select status" />
-                                  </SelectTrigger>
-                                  <SelectContent>
-                                    <SelectItem value="active">Active</SelectItem>
-                                    <SelectItem value="pending">Pending</SelectItem>
-                                    <SelectItem value="inactive">Inactive</SelectItem>
-                                    <SelectItem value="suspended">Suspended</SelectItem>
-                                  </SelectContent>
-                                </Select>
-                              </div>
-                            </div>
-                            <DialogFooter>
-                              <Button type="submit">Save changes</Button>
-                            </DialogFooter>
-                          </DialogContent>
-                        </Dialog>
+                        <AdminUserDialog key={`${account.id}-${account.role}-${account.status}`} user={account} currentUserId={user?.id} />
                       </div>
                     </div>
                   ))}
@@ -502,100 +450,63 @@ const AdminDashboard = () => {
         </TabsContent>
 
         {/* Partnerships Tab */}
-        <TabsContent value="partnerships">
+        <TabsContent value="partnerships" className="space-y-6">
           <Card>
-            <CardHeader>
-              <CardTitle>Partnership Management</CardTitle>
-              <CardDescription>All business-athlete partnerships</CardDescription>
+            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+              <div>
+                <CardTitle>Partnership Management</CardTitle>
+                <CardDescription>
+                  {partnershipsResponse ? `${partnershipsResponse.total} business-athlete partnerships` : "All business-athlete partnerships"}
+                </CardDescription>
+              </div>
+              <Select value={partnershipStatus} onValueChange={setPartnershipStatus}>
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All statuses</SelectItem>
+                  {OFFER_STATUSES.map((status) => (
+                    <SelectItem key={status} value={status}>{capitalize(status)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </CardHeader>
             <CardContent>
               <div className="border rounded-md">
                 <div className="grid grid-cols-6 bg-gray-50 p-3 rounded-t-md">
-                  <div className="font-medium text-sm">ID</div>
+                  <div className="font-medium text-sm">Created</div>
                   <div className="font-medium text-sm">Athlete</div>
                   <div className="font-medium text-sm">Business</div>
+                  <div className="font-medium text-sm">Campaign</div>
                   <div className="font-medium text-sm">Status</div>
                   <div className="font-medium text-sm">Value</div>
-                  <div className="font-medium text-sm">Actions</div>
                 </div>
                 <div className="divide-y">
-                  {isLoadingOffers ? (
+                  {isLoadingPartnerships ? (
                     <div className="p-8 text-center">
                       <p className="text-gray-500">Loading partnerships...</p>
                     </div>
-                  ) : !Array.isArray(offers) || offers.length === 0 ? (
+                  ) : partnerships.length === 0 ? (
                     <div className="p-8 text-center">
                       <p className="text-gray-500">No partnership offers found</p>
                     </div>
-                  ) : (Array.isArray(offers) ? offers : []).map((offer) => (
+                  ) : partnerships.map((offer) => (
                     <div key={offer.id} className="grid grid-cols-6 p-3 items-center">
-                      <div className="text-sm font-medium">#{offer.id}</div>
-                      <div className="text-sm">Athlete ID: {offer.athleteId}</div>
-                      <div className="text-sm">Business ID: {offer.businessId}</div>
+                      <div className="text-sm">{formatDate(offer.created_at)}</div>
+                      <div className="text-sm font-medium">{offer.athlete_name}</div>
+                      <div className="text-sm">{offer.business_name}</div>
+                      <div className="text-sm">{offer.campaign_title || "—"}</div>
                       <div>
                         <Badge variant={
-                          offer.status === "accepted" ? "default" : 
-                          offer.status === "pending" ? "outline" : 
-                          offer.status === "declined" ? "secondary" :
-                          "outline"
+                          offer.status === "accepted" || offer.status === "active" ? "default" : 
+                          offer.status === "pending" || offer.status === "countered" ? "outline" : 
+                          "secondary"
                         }>
-                          {offer.status ? offer.status.charAt(0).toUpperCase() + offer.status.slice(1) : 'Unknown'}
+                          {capitalize(offer.status)}
                         </Badge>
                       </div>
                       <div className="text-sm font-medium">
-                        {offer.compensation ? `$${offer.compensation}` : 'Varies'}
-                      </div>
-                      <div className="flex gap-2">
-                        <Button size="sm" variant="outline" onClick={() => navigate(`/admin/partnerships/${offer.id}`)}>Details</Button>
-                        <Dialog>
-                          <DialogTrigger asChild>
-                            <Button size="sm" variant="outline">Edit</Button>
-                          </DialogTrigger>
-                          <DialogContent>
-                            <DialogHeader>
-                              <DialogTitle>Edit Partnership</DialogTitle>
-                              <DialogDescription>
-                                Update partnership status and details.
-                              </DialogDescription>
-                            </DialogHeader>
-                            <div className="grid gap-4 py-4">
-                              <div className="grid grid-cols-4 items-center gap-4">
-                                <Label htmlFor="status" className="text-right">
-                                  Status
-                                </Label>
-                                <Select defaultValue={offer.status || 'pending'}>
-                                  <SelectTrigger className="col-span-3">
-                                    <SelectValue placeholder="Select status" />
-                                  </SelectTrigger>
-                                  <SelectContent>
-                                    <SelectItem value="pending">Pending</SelectItem>
-                                    <SelectItem value="accepted">Accepted</SelectItem>
-                                    <SelectItem value="declined">Declined</SelectItem>
-                                    <SelectItem value="expired">Expired</SelectItem>
-                                  </SelectContent>
-                                </Select>
-                              </div>
-                              <div className="grid grid-cols-4 items-center gap-4">
-                                <Label htmlFor="complianceStatus" className="text-right">
-                                  Compliance
-                                </Label>
-                                <Select defaultValue={offer.complianceStatus || 'pending'}>
-                                  <SelectTrigger className="col-span-3">
-                                    <SelectValue placeholder="Select compliance status" />
-                                  </SelectTrigger>
-                                  <SelectContent>
-                                    <SelectItem value="pending">Pending Review</SelectItem>
-                                    <SelectItem value="approved">Approved</SelectItem>
-                                    <SelectItem value="rejected">Rejected</SelectItem>
-                                  </SelectContent>
-                                </Select>
-                              </div>
-                            </div>
-                            <DialogFooter>
-                              <Button type="submit">Save changes</Button>
-                            </DialogFooter>
-                          </DialogContent>
-                        </Dialog>
+                        {offer.offer_amount !== null ? formatMoney(offer.offer_amount) : 'Varies'}
                       </div>
                     </div>
                   ))}
@@ -603,61 +514,13 @@ const AdminDashboard = () => {
               </div>
             </CardContent>
           </Card>
+
+          <AdminRatingAppealsCard />
         </TabsContent>
 
         {/* Feedback Tab */}
         <TabsContent value="feedback">
-          <Card>
-            <CardHeader>
-              <CardTitle>User Feedback</CardTitle>
-              <CardDescription>User suggestions and issues</CardDescription>
-            </CardHeader>
-            <CardContent>
-              <div className="border rounded-md">
-                <div className="grid grid-cols-5 bg-gray-50 p-3 rounded-t-md">
-                  <div className="font-medium text-sm">User</div>
-                  <div className="font-medium text-sm">Type</div>
-                  <div className="col-span-2 font-medium text-sm">Feedback</div>
-                  <div className="font-medium text-sm">Status</div>
-                </div>
-                <div className="divide-y">
-                  {isLoadingFeedback ? (
-                    <div className="p-8 text-center">
-                      <p className="text-gray-500">Loading feedback...</p>
-                    </div>
-                  ) : feedback.length === 0 ? (
-                    <div className="p-8 text-center">
-                      <p className="text-gray-500">No feedback found</p>
-                    </div>
-                  ) : feedback.map((item) => (
-                    <div key={item.id} className="grid grid-cols-5 p-3 items-center">
-                      <div className="text-sm font-medium">User #{item.userId}</div>
-                      <div>
-                        <Badge variant="outline" className={
-                          item.feedbackType === "feature" ? "bg-green-50 text-green-700 border-green-200" : 
-                          item.feedbackType === "bug" ? "bg-red-50 text-red-700 border-red-200" :
-                          "bg-gray-50 text-gray-700 border-gray-200"
-                        }>
-                          {item.feedbackType.charAt(0).toUpperCase() + item.feedbackType.slice(1)}
-                        </Badge>
-                      </div>
-                      <div className="col-span-2 text-sm">{item.content}</div>
-                      <div>
-                        <Badge variant={
-                          item.status === "new" ? "default" : 
-                          item.status === "in-progress" ? "outline" : 
-                          "secondary"
-                        }>
-                          {item.status === "in-progress" ? "In Progress" : 
-                           item.status.charAt(0).toUpperCase() + item.status.slice(1)}
-                        </Badge>
-                      </div>
-                    </div>
-                  ))}
-                </div>
-              </div>
-            </CardContent>
-          </Card>
+          <AdminFeedbackTriage />
         </TabsContent>
 
         {/* System Tab */}
@@ -762,6 +625,14 @@ const AdminDashboard = () => {
               </CardContent>
             </Card>
           </div>
+
+          <div className="mt-6">
+            <AdminAuditLogCard />
+          </div>
+
+          <div className="mt-6">
+            <Tax1099ReportCard />
+          </div>
         </TabsContent>
       </Tabs>
     </div>
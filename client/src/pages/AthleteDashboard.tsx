@@ -27,15 +27,6 @@ import {
   DialogTrigger,
   DialogClose,
 } from "@/components/ui/dialog";
-import { 
-  Select,
-  SelectContent,
-  SelectGroup,
-  SelectItem,
-  SelectLabel,
-  SelectTrigger,
-  SelectValue,
-} from "@/components/ui/select";
 import { 
   AlertCircle,
   BarChart3, 
@@ -43,14 +34,12 @@ import {
   Users, 
   Trophy, 
   TrendingUp, 
-  Wallet, 
   ClipboardList, 
   CreditCard, 
   User, 
   Settings, 
   Bell, 
   MessageSquare,
-  FileText,
   BookOpen,
   Calendar,
   Clock,
@@ -58,23 +47,30 @@ import {
   Share2,
   Gift,
   ArrowRight,
-  Download,
   Target,
   Heart,
   Link,
   Shield,
-  Trash2
+  Trash2,
+  Building2
 } from "lucide-react";
 import { SiTiktok } from "react-icons/si";
 import { useToast } from "@/hooks/use-toast";
 import { useQuery } from "@tanstack/react-query";
 import ProfileLinkEditor from "@/components/ProfileLinkEditor";
+import DeliverableSubmissionDialog from "@/components/DeliverableSubmissionDialog";
+import NotificationPreferencesCard from "@/components/NotificationPreferencesCard";
+import ContractsCard from "@/components/ContractsCard";
+import PartnershipRatingsCard from "@/components/PartnershipRatingsCard";
+import GuardianConsentCard from "@/components/GuardianConsentCard";
+import TaxDocumentsCard from "@/components/TaxDocumentsCard";
+import SocialVerificationCard from "@/components/SocialVerificationCard";
+import EarningsPanel, { formatChange, type EarningsResponse } from "@/components/EarningsPanel";
 
 export default function AthleteDashboard() {
   const [, navigate] = useLocation();
   const { toast } = useToast();
   const [loading, setLoading] = useState(true);
-  const [selectedTimeFrame, setSelectedTimeFrame] = useState("thisMonth");
   const [notificationOpen, setNotificationOpen] = useState(false);
   const [messageOpen, setMessageOpen] = useState(false);
 
@@ -106,49 +102,20 @@ export default function AthleteDashboard() {
     }
   ];
 
-  // Mock messages data
-  const messages = [
-    {
-      id: "m1",
-      from: "SportTech Inc",
-      message: "Hi Jordan, just following up on our partnership offer. Let us know if you have any questions!",
-      time: "1h ago",
-      read: false,
-      avatar: ""
-    },
-    {
-      id: "m2",
-      from: "Athletic Wear Co",
-      message: "The photos from your last post look amazing! Could you share the raw files for our design team?",
-      time: "3h ago",
-      read: false,
-      avatar: ""
-    },
-    {
-      id: "m3",
-      from: "Energy Drinks Co",
-      message: "We'd like to discuss increasing the scope of our partnership. Are you available for a call next week?",
-      time: "6h ago",
-      read: false,
-      avatar: ""
-    },
-    {
-      id: "m4",
-      from: "Sports Nutrition",
-      message: "Your payment for the March deliverables has been processed. Thank you for the great content!",
-      time: "1d ago",
-      read: true,
-      avatar: ""
-    },
-    {
-      id: "m5",
-      from: "Fitness App Pro",
-      message: "We've added your suggested features to our app. Would you be interested in being featured in our launch campaign?",
-      time: "2d ago",
-      read: true,
-      avatar: ""
-    }
-  ];
+  // Latest message from each brand conversation
+  const { data: threadsData } = useQuery<{ threads: any[] }>({
+    queryKey: ['/api/messages/threads'],
+  });
+  const messageThreads = threadsData?.threads || [];
+  const unreadMessageCount = messageThreads.reduce((total, thread) => total + (thread.unread_count || 0), 0);
+  const messages = messageThreads.map((thread: any) => ({
+    id: thread.id,
+    from: thread.business_profile?.company || thread.business_profile?.name || "Brand Partner",
+    message: thread.last_message?.content || (thread.last_message ? "Sent an attachment" : thread.subject || "No messages yet"),
+    time: thread.last_message_at ? new Date(thread.last_message_at).toLocaleString() : "",
+    read: !thread.unread_count,
+    avatar: ""
+  }));
 
   // Set loading state to false - authentication is handled by the protected route
   useEffect(() => {
@@ -423,6 +390,20 @@ export default function AthleteDashboard() {
     }
   ];
 
+  // Deliverables owed under accepted offers
+  const { data: deliverablesData, isLoading: isLoadingDeliverables } = useQuery<{
+    deliverables: any[];
+    summary: { upcoming: number; dueSoon: number; overdue: number };
+    count: number;
+  }>({
+    queryKey: ['/api/deliverables'],
+  });
+  const deliverables = deliverablesData?.deliverables || [];
+  const deliverableSummary = deliverablesData?.summary;
+  const openDeliverables = deliverables.filter((d: any) => d.status !== "approved");
+  const approvedDeliverables = deliverables.filter((d: any) => d.status === "approved");
+  const [submittingDeliverable, setSubmittingDeliverable] = useState<any | null>(null);
+
   // Mock educational resources
   const educationalResources = [
     {
@@ -463,53 +444,10 @@ export default function AthleteDashboard() {
     }
   ];
 
-  // Mock earnings data
-  const getEarningsData = (timeFrame: string) => {
-    switch(timeFrame) {
-      case "thisWeek":
-        return {
-          total: 850,
-          pending: 350,
-          completed: 500,
-          campaigns: 2,
-          change: "+12%"
-        };
-      case "thisMonth":
-        return {
-          total: 2450,
-          pending: 1200,
-          completed: 1250,
-          campaigns: 4,
-          change: "+18%"
-        };
-      case "lastMonth":
-        return {
-          total: 2100,
-          pending: 0,
-          completed: 2100,
-          campaigns: 3,
-          change: "+5%"
-        };
-      case "thisYear":
-        return {
-          total: 12450,
-          pending: 1850,
-          completed: 10600,
-          campaigns: 14,
-          change: "+65%"
-        };
-      default:
-        return {
-          total: 2450,
-          pending: 1200,
-          completed: 1250,
-          campaigns: 4,
-          change: "+18%"
-        };
-    }
-  };
-
-  const earningsData = getEarningsData(selectedTimeFrame);
+  // This month's payouts for the header card; the Earnings tab loads its own period
+  const { data: monthEarnings } = useQuery<EarningsResponse>({
+    queryKey: ["/api/payouts/earnings?period=thisMonth"],
+  });
 
   // Calculate days remaining for deliverables
   const calculateDaysRemaining = (deadline: string) => {
@@ -597,7 +535,9 @@ export default function AthleteDashboard() {
               <DialogTrigger asChild>
                 <Button variant="outline" size="sm" className="flex items-center gap-2">
                   <MessageSquare className="h-4 w-4" />
-                  <Badge className="bg-blue-700 text-white hover:bg-blue-800">5</Badge>
+                  {unreadMessageCount > 0 && (
+                    <Badge className="bg-blue-700 text-white hover:bg-blue-800">{unreadMessageCount}</Badge>
+                  )}
                 </Button>
               </DialogTrigger>
               <DialogContent className="sm:max-w-md">
@@ -609,10 +549,14 @@ export default function AthleteDashboard() {
                 </DialogHeader>
                 <ScrollArea className="h-[400px] pr-4">
                   <div className="space-y-4 mt-2">
+                    {messages.length === 0 && (
+                      <div className="text-sm text-gray-600">No conversations yet</div>
+                    )}
                     {messages.map(message => (
                       <div 
                         key={message.id} 
-                        className={`p-3 rounded-lg border ${message.read ? 'bg-gray-50' : 'bg-blue-50 border-blue-200'}`}
+                        className={`p-3 rounded-lg border cursor-pointer ${message.read ? 'bg-gray-50' : 'bg-blue-50 border-blue-200'}`}
+                        onClick={() => navigate(`/messages?thread=${message.id}`)}
                       >
                         <div className="flex items-start gap-3">
                           <Avatar>
@@ -631,12 +575,7 @@ export default function AthleteDashboard() {
                   </div>
                 </ScrollArea>
                 <div className="flex justify-between mt-4">
-                  <Button variant="outline" onClick={() => {
-                    toast({
-                      title: "Messages feature coming soon",
-                      description: "Full messaging functionality will be available in the next update.",
-                    });
-                  }}>View All Messages</Button>
+                  <Button variant="outline" onClick={() => navigate('/messages')}>View All Messages</Button>
                   <Button variant="outline" onClick={() => setMessageOpen(false)}>Close</Button>
                 </div>
               </DialogContent>
@@ -655,6 +594,11 @@ export default function AthleteDashboard() {
               <Settings className="h-4 w-4" />
               Settings
             </Button>
+
+            <Button variant="outline" size="sm" className="flex items-center gap-2" onClick={() => navigate('/athlete/brands')}>
+              <Building2 className="h-4 w-4" />
+              Browse Brands
+            </Button>
           </div>
         </div>
 
@@ -687,8 +631,12 @@ export default function AthleteDashboard() {
             </CardHeader>
             <CardContent>
               <div className="flex items-end gap-2">
-                <div className="text-3xl font-bold text-[#ffebec]">5</div>
-                <Badge className="bg-amber-600 text-white hover:bg-amber-700">Due Soon</Badge>
+                <div className="text-3xl font-bold text-[#ffebec]">{deliverableSummary?.upcoming ?? 0}</div>
+                {(deliverableSummary?.overdue ?? 0) > 0 ? (
+                  <Badge className="bg-red-600 text-white hover:bg-red-700">{deliverableSummary?.overdue} Overdue</Badge>
+                ) : (deliverableSummary?.dueSoon ?? 0) > 0 ? (
+                  <Badge className="bg-amber-600 text-white hover:bg-amber-700">{deliverableSummary?.dueSoon} Due Soon</Badge>
+                ) : null}
               </div>
             </CardContent>
           </Card>
@@ -698,14 +646,16 @@ export default function AthleteDashboard() {
             </CardHeader>
             <CardContent>
               <div className="flex items-end gap-2">
-                <div className="text-3xl font-bold text-[#ffebec]">${earningsData.total}</div>
-                <Badge className="bg-indigo-600 text-white hover:bg-indigo-700">{earningsData.change}</Badge>
+                <div className="text-3xl font-bold text-[#ffebec]">${(monthEarnings?.summary.received ?? 0).toLocaleString()}</div>
+                {monthEarnings?.summary.change !== null && monthEarnings?.summary.change !== undefined && (
+                  <Badge className="bg-indigo-600 text-white hover:bg-indigo-700">{formatChange(monthEarnings.summary.change)}</Badge>
+                )}
               </div>
             </CardContent>
           </Card>
         </div>
 
-        <Tabs defaultValue="offers" className="w-full">
+        <Tabs defaultValue={new URLSearchParams(window.location.search).get("tab") || "offers"} className="w-full">
           <TabsList className="mb-6 w-full justify-start">
             <TabsTrigger value="offers">Partnership Offers</TabsTrigger>
             <TabsTrigger value="deliverables">Deliverables</TabsTrigger>
@@ -718,6 +668,8 @@ export default function AthleteDashboard() {
 
           {/* PARTNERSHIP OFFERS TAB */}
           <TabsContent value="offers" className="space-y-6">
+            <GuardianConsentCard />
+
             <Card className="border-blue-700/20 shadow-sm">
               <CardHeader>
                 <CardTitle className="flex items-center gap-2 font-heading">
@@ -778,6 +730,10 @@ export default function AthleteDashboard() {
                           </div>
                         </CardContent>
                         <CardFooter className="flex justify-end gap-2 pt-0">
+                          <Button variant="outline" onClick={() => navigate(`/messages?offer=${offer.id}`)}>
+                            <MessageSquare className="h-4 w-4 mr-2" />
+                            Message Brand
+                          </Button>
                           <Button variant="outline">View Details</Button>
                           <Button>Accept Offer</Button>
                         </CardFooter>
@@ -908,85 +864,108 @@ export default function AthleteDashboard() {
               </CardHeader>
               <CardContent>
                 <div className="space-y-4">
-                  {activePartnerships.flatMap(partnership => 
-                    partnership.deliverables
-                      .filter(d => d.status === "pending")
-                      .map((deliverable, idx) => {
-                        const daysRemaining = calculateDaysRemaining(deliverable.deadline);
-                        const isUrgent = daysRemaining <= 3;
+                  {openDeliverables.map((deliverable: any) => {
+                    const daysRemaining = calculateDaysRemaining(deliverable.due_date);
+                    const isOverdue = daysRemaining < 0;
+                    const isUrgent = daysRemaining <= 3;
+                    const brandLabel = deliverable.campaign?.title || "Partnership";
 
-                        return (
-                          <Card key={`${partnership.id}-${idx}`} className="bg-muted/50">
-                            <CardHeader className="pb-2">
-                              <div className="flex justify-between items-center">
-                                <div className="flex items-center gap-3">
-                                  <Avatar>
-                                    <AvatarFallback className="bg-primary/10">
-                                      {partnership.brand.substring(0, 2).toUpperCase()}
-                                    </AvatarFallback>
-                                  </Avatar>
-                                  <div>
-                                    <CardTitle className="text-lg font-heading">{deliverable.task}</CardTitle>
-                                    <CardDescription>{partnership.brand} - {partnership.campaign}</CardDescription>
-                                  </div>
+                    return (
+                      <Card key={deliverable.id} className="bg-muted/50">
+                        <CardHeader className="pb-2">
+                          <div className="flex justify-between items-center">
+                            <div className="flex items-center gap-3">
+                              <Avatar>
+                                <AvatarFallback className="bg-primary/10">
+                                  {brandLabel.substring(0, 2).toUpperCase()}
+                                </AvatarFallback>
+                              </Avatar>
+                              <div>
+                                <CardTitle className="text-lg font-heading capitalize">
+                                  {deliverable.platform ? `${deliverable.platform} ` : ""}{deliverable.type}
+                                  {deliverable.sequence > 1 ? ` #${deliverable.sequence}` : ""}
+                                </CardTitle>
+                                <CardDescription>{brandLabel}</CardDescription>
+                              </div>
+                            </div>
+                            {deliverable.status === "submitted" ? (
+                              <Badge className="bg-blue-100 text-blue-800">In Review</Badge>
+                            ) : deliverable.status === "changes_requested" ? (
+                              <Badge className="bg-orange-100 text-orange-800">Changes Requested</Badge>
+                            ) : isUrgent ? (
+                              <Badge className="bg-red-100 text-red-800">
+                                <AlertCircle className="h-3 w-3 mr-1" />
+                                {isOverdue ? "Overdue" : "Urgent"}
+                              </Badge>
+                            ) : (
+                              <Badge className="bg-yellow-100 text-yellow-800">
+                                Pending
+                              </Badge>
+                            )}
+                          </div>
+                        </CardHeader>
+                        <CardContent>
+                          <div className="flex flex-col gap-4">
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                              <div className="flex flex-col gap-1">
+                                <span className="text-sm text-blue-700">Due Date</span>
+                                <span className="font-semibold">{new Date(deliverable.due_date).toLocaleDateString()}</span>
+                              </div>
+                              <div className="flex flex-col gap-1">
+                                <span className="text-sm text-blue-700">Time Remaining</span>
+                                <div className="flex items-center gap-2">
+                                  <span className={`font-semibold ${isUrgent ? "text-red-600" : ""}`}>
+                                    {isOverdue ? `${Math.abs(daysRemaining)} days overdue` : `${daysRemaining} days`}
+                                  </span>
+                                  <Progress 
+                                    value={Math.max(0, (daysRemaining / 30) * 100)} 
+                                    className={`h-2 ${isUrgent ? "bg-red-200" : "bg-yellow-100"}`} 
+                                  />
                                 </div>
-                                {isUrgent ? (
-                                  <Badge className="bg-red-100 text-red-800">
-                                    <AlertCircle className="h-3 w-3 mr-1" />
-                                    Urgent
-                                  </Badge>
-                                ) : (
-                                  <Badge className="bg-yellow-100 text-yellow-800">
-                                    Pending
-                                  </Badge>
-                                )}                              </div>
-                            </CardHeader>
-                            <CardContent>
-                              <div className="flex flex-col gap-4">
-                                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                                  <div className="flex flex-col gap-1">
-                                    <span className="text-sm text-blue-700">Due Date</span>
-                                    <span className="font-semibold">{new Date(deliverable.deadline).toLocaleDateString()}</span>
-                                  </div>
-                                  <div className="flex flex-col gap-1">
-                                    <span className="text-sm text-blue-700">Time Remaining</span>
-                                    <div className="flex items-center gap-2">
-                                      <span className={`font-semibold ${isUrgent ? "text-red-600" : ""}`}>
-                                        {daysRemaining} days
-                                      </span>
-                                      <Progress 
-                                        value={Math.max(0, (daysRemaining / 30) * 100)} 
-                                        className={`h-2 ${isUrgent ? "bg-red-200" : "bg-yellow-100"}`} 
-                                      />
-                                    </div>
+                              </div>
+                            </div>
+                            {(deliverable.description || deliverable.hashtags?.length > 0) && (
+                              <div className="flex flex-col gap-1">
+                                <span className="text-sm text-blue-700">Deliverable Requirements</span>
+                                {deliverable.description && (
+                                  <p className="text-sm">{deliverable.description}</p>
+                                )}
+                                {deliverable.hashtags?.length > 0 && (
+                                  <div className="flex flex-wrap gap-1">
+                                    {deliverable.hashtags.map((tag: string) => (
+                                      <Badge key={tag} variant="outline">{tag.startsWith("#") ? tag : `#${tag}`}</Badge>
+                                    ))}
                                   </div>
-                                </div>
-                                <div className="flex flex-col gap-1">
-                                  <span className="text-sm text-blue-700">Deliverable Requirements</span>
-                                  <ul className="list-disc list-inside text-sm">
-                                    <li>Create content featuring the product in authentic use</li>
-                                    <li>Include required hashtags and brand mentions</li>
-                                    <li>Submit content for brand approval before posting</li>
-                                  </ul>
-                                </div>
+                                )}
                               </div>
-                            </CardContent>
-                            <CardFooter className="flex justify-end gap-2">
-                              <Button variant="outline">View Guidelines</Button>
-                              <Button>Mark as Completed</Button>
-                            </CardFooter>
-                          </Card>
-                        );
-                      })
-                  )}
+                            )}
+                          </div>
+                        </CardContent>
+                        <CardFooter className="flex justify-end gap-2">
+                          <Button
+                            disabled={deliverable.status === "submitted"}
+                            onClick={() => setSubmittingDeliverable(deliverable)}
+                          >
+                            {deliverable.status === "changes_requested" ? "Resubmit Proof" : "Submit Proof"}
+                          </Button>
+                        </CardFooter>
+                      </Card>
+                    );
+                  })}
 
-                  {activePartnerships.flatMap(p => p.deliverables).filter(d => d.status === "pending").length === 0 && (
+                  {openDeliverables.length === 0 && (
                     <div className="text-center py-10">
-                      <div className="text-blue-700 mb-2">No pending deliverables</div>
-                      <div className="text-sm text-blue-700 mb-4">
-                        You're all caught up! Look for new partnership opportunities.
+                      <div className="text-blue-700 mb-2">
+                        {isLoadingDeliverables ? "Loading deliverables..." : "No pending deliverables"}
                       </div>
-                      <Button variant="outline">Find New Partnerships</Button>
+                      {!isLoadingDeliverables && (
+                        <>
+                          <div className="text-sm text-blue-700 mb-4">
+                            You're all caught up! Look for new partnership opportunities.
+                          </div>
+                          <Button variant="outline" onClick={() => navigate('/athlete/brands')}>Find New Partnerships</Button>
+                        </>
+                      )}
                     </div>
                   )}
                 </div>
@@ -1005,40 +984,43 @@ export default function AthleteDashboard() {
               </CardHeader>
               <CardContent>
                 <div className="space-y-4">
-                  {activePartnerships.flatMap(partnership => 
-                    partnership.deliverables
-                      .filter(d => d.status === "completed")
-                      .map((deliverable, idx) => (
-                        <div key={`${partnership.id}-${idx}`} className="flex items-center justify-between p-3 rounded-md bg-blue-50">
-                          <div className="flex items-center gap-3">
-                            <CheckCircle2 className="h-5 w-5 text-green-600" />
-                            <div>
-                              <div className="font-medium">{deliverable.task}</div>
-                              <div className="text-sm text-blue-700">{partnership.brand} - {partnership.campaign}</div>
-                            </div>
-                          </div>
-                          <div className="flex items-center gap-3">
-                            <span className="text-sm text-blue-700">
-                              Completed on {new Date().toLocaleDateString()}
-                            </span>
-                            <Badge className="bg-green-100 text-green-800">Completed</Badge>
+                  {approvedDeliverables.map((deliverable: any) => (
+                    <div key={deliverable.id} className="flex items-center justify-between p-3 rounded-md bg-blue-50">
+                      <div className="flex items-center gap-3">
+                        <CheckCircle2 className="h-5 w-5 text-green-600" />
+                        <div>
+                          <div className="font-medium capitalize">
+                            {deliverable.platform ? `${deliverable.platform} ` : ""}{deliverable.type}
                           </div>
+                          <div className="text-sm text-blue-700">{deliverable.campaign?.title || "Partnership"}</div>
                         </div>
-                      ))
-                  )}
+                      </div>
+                      <div className="flex items-center gap-3">
+                        <span className="text-sm text-blue-700">
+                          Approved on {new Date(deliverable.approved_at || deliverable.updated_at).toLocaleDateString()}
+                        </span>
+                        <Badge className="bg-green-100 text-green-800">Completed</Badge>
+                      </div>
+                    </div>
+                  ))}
 
-                  {activePartnerships.flatMap(p => p.deliverables).filter(d => d.status === "completed").length === 0 && (
+                  {approvedDeliverables.length === 0 && (
                     <div className="text-center py-10">
                       <div className="text-blue-700 mb-2">No completed deliverables yet</div>
                       <div className="text-sm text-blue-700 mb-4">
                         Complete your pending tasks to see them here
                       </div>
-                      <Button variant="outline">View Pending Tasks</Button>
                     </div>
                   )}
                 </div>
               </CardContent>
             </Card>
+
+            <DeliverableSubmissionDialog
+              deliverable={submittingDeliverable}
+              open={!!submittingDeliverable}
+              onOpenChange={(open) => !open && setSubmittingDeliverable(null)}
+            />
           </TabsContent>
 
           {/* PERFORMANCE METRICS TAB */}
@@ -1178,154 +1160,7 @@ export default function AthleteDashboard() {
 
           {/* EARNINGS TAB */}
           <TabsContent value="earnings" className="space-y-6">
-            <Card className="border-primary/20">
-              <CardHeader>
-                <div className="flex flex-col md:flex-row justify-between md:items-center">
-                  <div>
-                    <CardTitle className="flex items-center gap-2 mb-2">
-                      <Wallet className="h-5 w-5 text-primary" />
-                      Earnings Summary
-                    </CardTitle>
-                    <CardDescription>
-                      View your earnings across all partnerships
-                    </CardDescription>
-                  </div>
-                  <div className="mt-4 md:mt-0">
-                    <Select value={selectedTimeFrame} onValueChange={setSelectedTimeFrame}>
-                      <SelectTrigger className="w-[180px]">
-                        <SelectValue placeholder="Select Time Period" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectGroup>
-                          <SelectLabel>Time Period</SelectLabel>
-                          <SelectItem value="thisWeek">This Week</SelectItem>
-                          <SelectItem value="thisMonth">This Month</SelectItem>
-                          <SelectItem value="lastMonth">Last Month</SelectItem>
-                          <SelectItem value="thisYear">This Year</SelectItem>
-                        </SelectGroup>
-                      </SelectContent>
-                    </Select>
-                  </div>
-                </div>
-              </CardHeader>
-              <CardContent>
-                <div className="h-[300px] flex items-center justify-center bg-gray-50 rounded-md mb-6">
-                  <BarChart3 className="h-16 w-16 text-gray-600" />
-                  <span className="ml-2 text-blue-700 font-medium">Earnings chart for selected period</span>
-                </div>
-                <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
-                  <Card className="bg-muted/50">
-                    <CardHeader className="pb-2">
-                      <CardTitle className="text-sm font-medium text-blue-700 font-heading">Total Earnings</CardTitle>
-                    </CardHeader>
-                    <CardContent>
-                      <div className="text-3xl font-bold">${earningsData.total}</div>
-                      <p className="text-sm text-blue-700">From {earningsData.campaigns} campaigns</p>
-                    </CardContent>
-                  </Card>
-                  <Card className="bg-muted/50">
-                    <CardHeader className="pb-2">
-                      <CardTitle className="text-sm font-medium text-blue-700 font-heading">Pending</CardTitle>
-                    </CardHeader>
-                    <CardContent>
-                      <div className="text-3xl font-bold">${earningsData.pending}</div>
-                      <p className="text-sm text-blue-700">To be received</p>
-                    </CardContent>
-                  </Card>
-                  <Card className="bg-muted/50">
-                    <CardHeader className="pb-2">
-                      <CardTitle className="text-sm font-medium text-blue-700 font-heading">Received</CardTitle>
-                    </CardHeader>
-                    <CardContent>
-                      <div className="text-3xl font-bold">${earningsData.completed}</div>
-                      <p className="text-sm text-blue-700">Payments received</p>
-                    </CardContent>
-                  </Card>
-                  <Card className="bg-muted/50">
-                    <CardHeader className="pb-2">
-                      <CardTitle className="text-sm font-medium text-blue-700 font-heading">Growth Rate</CardTitle>
-                    </CardHeader>
-                    <CardContent>
-                      <div className="text-3xl font-bold">{earningsData.change}</div>
-                      <p className="text-sm text-blue-700">From previous period</p>
-                    </CardContent>
-                  </Card>
-                </div>
-              </CardContent>
-            </Card>
-
-            <Card className="border-primary/20">
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2 font-heading">
-                  <FileText className="h-5 w-5 text-primary" />
-                  Recent Transactions
-                </CardTitle>
-                <CardDescription>
-                  Your recent payments from brand partnerships
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <div className="space-y-4">
-                  {[
-                    {
-                      brand: "SportTech Inc",
-                      campaign: "Summer Athletic Wear",
-                      amount: 850,
-                      date: "2025-03-15",
-                      status: "completed"
-                    },
-                    {
-                      brand: "Energy Drinks Co",
-                      campaign: "Pre-Game Boost",
-                      amount: 400,
-                      date: "2025-03-01",
-                      status: "completed"
-                    },
-                    {
-                      brand: "Local Fitness Club",
-                      campaign: "Membership Drive",
-                      amount: 400,
-                      date: "2025-02-20",
-                      status: "completed"
-                    },
-                    {
-                      brand: "Athletic Wear Co",
-                      campaign: "Spring Collection",
-                      amount: 1200,
-                      date: "2025-04-30",
-                      status: "pending"
-                    }
-                  ].map((transaction, idx) => (
-                    <div key={idx} className="flex items-center justify-between p-4 rounded-md bg-gray-50">
-                      <div>
-                        <div className="font-medium">{transaction.brand}</div>
-                        <div className="text-sm text-blue-700">{transaction.campaign}</div>
-                      </div>
-                      <div className="flex items-center gap-4">
-                        <div className="text-right">
-                          <div className="font-semibold">${transaction.amount}</div>
-                          <div className="text-sm text-blue-700">{new Date(transaction.date).toLocaleDateString()}</div>
-                        </div>
-                        <Badge 
-                          className={transaction.status === "completed" 
-                            ? "bg-green-100 text-green-800" 
-                            : "bg-yellow-100 text-yellow-800"
-                          }
-                        >
-                          {transaction.status === "completed" ? "Paid" : "Pending"}
-                        </Badge>
-                      </div>
-                    </div>
-                  ))}
-                </div>
-              </CardContent>
-              <CardFooter className="flex justify-center">
-                <Button variant="outline">
-                  View All Transactions
-                  <ArrowRight className="ml-2 h-4 w-4" />
-                </Button>
-              </CardFooter>
-            </Card>
+            <EarningsPanel />
           </TabsContent>
 
           {/* EDUCATION CENTER TAB */}
@@ -1456,85 +1291,11 @@ export default function AthleteDashboard() {
 
           {/* DOCUMENTS TAB */}
           <TabsContent value="documents" className="space-y-6">
-            <Card className="border-primary/20">
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2 font-heading">
-                  <FileText className="h-5 w-5 text-primary" />
-                  Partnership Contracts
-                </CardTitle>
-                <CardDescription>
-                  Access and manage your partnership agreements
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <div className="space-y-4">
-                  {activePartnerships.map((partnership) => (
-                    <div key={partnership.id} className="flex items-center justify-between p-4 rounded-md bg-gray-50">
-                      <div className="flex items-center gap-3">
-                        <FileText className="h-5 w-5 text-primary" />
-                        <div>
-                          <div className="font-medium">{partnership.brand} Contract</div>
-                          <div className="text-sm text-blue-700">{partnership.campaign}</div>
-                        </div>
-                      </div>
-                      <div className="flex items-center gap-2">
-                        <Button variant="outline" size="sm">
-                          <Download className="h-4 w-4 mr-2" />
-                          Download
-                        </Button>
-                        <Button size="sm">View</Button>
-                      </div>
-                    </div>
-                  ))}
+            <ContractsCard />
 
-                  {activePartnerships.length === 0 && (
-                    <div className="text-center py-10">
-                      <div className="text-blue-700 mb-2">No contracts available</div>
-                      <div className="text-sm text-blue-700 mb-4">
-                        Active partnerships will have contracts displayed here
-                      </div>
-                    </div>
-                  )}
-                </div>
-              </CardContent>
-            </Card>
+            <PartnershipRatingsCard />
 
-            <Card className="border-primary/20">
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2 font-heading">
-                  <FileText className="h-5 w-5 text-primary" />
-                  Tax Documents
-                </CardTitle>
-                <CardDescription>
-                  Access your 1099 forms and tax-related documents
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <div className="space-y-4">
-                  {[
-                    { year: "2024", type: "1099-MISC", date: "2025-01-31" },
-                    { year: "2023", type: "1099-MISC", date: "2024-01-31" }
-                  ].map((doc, idx) => (
-                    <div key={idx} className="flex items-center justify-between p-4 rounded-md bg-gray-50">
-                      <div className="flex items-center gap-3">
-                        <FileText className="h-5 w-5 text-primary" />
-                        <div>
-                          <div className="font-medium">{doc.type} - Tax Year {doc.year}</div>
-                          <div className="text-sm text-blue-700">Issued on: {new Date(doc.date).toLocaleDateString()}</div>
-                        </div>
-                      </div>
-                      <div className="flex items-center gap-2">
-                        <Button variant="outline" size="sm">
-                          <Download className="h-4 w-4 mr-2" />
-                          Download
-                        </Button>
-                        <Button size="sm">View</Button>
-                      </div>
-                    </div>
-                  ))}
-                </div>
-              </CardContent>
-            </Card>
+            <TaxDocumentsCard />
           </TabsContent>
 
           {/* ACCOUNT SETTINGS TAB */}
@@ -1645,45 +1406,9 @@ export default function AthleteDashboard() {
               </Card>
             </div>
 
-            <Card className="border-primary/20">
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2 font-heading">
-                  <Bell className="h-5 w-5 text-primary" />
-                  Notification Preferences
-                </CardTitle>
-                <CardDescription>
-                  Manage how and when you receive notifications
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <div className="space-y-4">
-                  {[
-                    { type: "New Partnership Offers", email: true, push: true },
-                    { type: "Deliverable Reminders", email: true, push: true },
-                    { type: "Payment Notifications", email: true, push: true },
-                    { type: "Educational Resources", email: true, push: false },
-                    { type: "Platform Updates", email: false, push: false }
-                  ].map((notification, idx) => (
-                    <div key={idx} className="flex items-center justify-between p-3 rounded-md bg-gray-50">
-                      <span className="font-medium">{notification.type}</span>
-                      <div className="flex items-center gap-4">
-                        <div className="flex items-center gap-2">
-                          <label className="text-sm text-blue-700">Email</label>
-                          <input type="checkbox" checked={notification.email} className="rounded-md" onChange={() => {}} />
-                        </div>
-                        <div className="flex items-center gap-2">
-                          <label className="text-sm text-blue-700">Push</label>
-                          <input type="checkbox" checked={notification.push} className="rounded-md" onChange={() => {}} />
-                        </div>
-                      </div>
-                    </div>
-                  ))}
-                </div>
-              </CardContent>
-              <CardFooter className="flex justify-end">
-                <Button>Save Preferences</Button>
-              </CardFooter>
-            </Card>
+            <NotificationPreferencesCard />
+
+            <SocialVerificationCard />
 
             {/* Shareable Profile Link */}
             <Card className="border-primary/20">
@@ -1697,10 +1422,7 @@ export default function AthleteDashboard() {
                 </CardDescription>
               </CardHeader>
               <CardContent>
-                <ProfileLinkEditor 
-                  athleteId={1} // This would come from the authenticated user's athlete profile
-                  initialData={profileData}
-                />
+                <ProfileLinkEditor initialData={profileData} />
               </CardContent>
             </Card>
           </TabsContent>
@@ -3,7 +3,7 @@ import { useParams } from "wouter";
 import { 
   ChevronLeft, ExternalLink, RefreshCw, Twitter, Trophy, Medal, LineChart, 
   Calendar, GraduationCap, Mail, AlertTriangle, Heart, Award, MapPin, Bolt, Users, Flame,
-  UserCircle, BookOpen
+  UserCircle, BookOpen, BadgeCheck
 } from "lucide-react";
 import { SiInstagram, SiTiktok, SiFacebook } from "react-icons/si";
 import { Button } from "@/components/ui/button";
@@ -13,6 +13,7 @@ import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
 import { apiRequest } from "@/lib/queryClient";
+import type { ProfileMetrics, SocialMetrics } from "@shared/schema";
 
 interface SocialHandle {
   instagram?: string;
@@ -29,31 +30,6 @@ interface ProfileButton {
   type?: string;
 }
 
-interface SocialMetrics {
-  followers: number;
-  engagement: number;
-  posts?: number;
-  tweets?: number;
-  videos?: number;
-  reachPerPost?: number;
-  impressions?: number;
-  views?: number;
-  likes?: number;
-  shares?: number;
-  savedPosts?: number;
-  retweets?: number;
-  weeklyGrowth: number;
-}
-
-interface ProfileMetrics {
-  followerCount: number;
-  engagement: number;
-  contentQuality: number;
-  instagramMetrics?: SocialMetrics;
-  twitterMetrics?: SocialMetrics;
-  tiktokMetrics?: SocialMetrics;
-}
-
 interface Highlight {
   id: string;
   title: string;
@@ -78,10 +54,10 @@ interface Sponsor {
 }
 
 interface AthleteProfile {
-  id: number;
+  id: string;
   name: string;
-  sport: string;
-  school: string;
+  sport?: string;
+  school?: string;
   profileLinkEnabled: boolean;
   profileLinkId: string;
   profileLinkBio: string;
@@ -110,11 +86,48 @@ interface AthleteProfile {
   coverPhotoUrl?: string;
 }
 
+function formatEngagement(engagement: number | null | undefined) {
+  return engagement === null || engagement === undefined ? "-" : `${engagement}%`;
+}
+
+// Follower change over the last week, once a week of history exists
+function WeeklyGrowth({ metrics }: { metrics: SocialMetrics }) {
+  if (metrics.weeklyGrowth === null) {
+    return null;
+  }
+
+  return (
+    <div className="mt-2 text-xs text-white">
+      <span className={`font-bold ${metrics.weeklyGrowth >= 0 ? "text-green-400" : "text-red-400"}`}>
+        {metrics.weeklyGrowth >= 0 ? "↑" : "↓"}{Math.abs(metrics.weeklyGrowth)}%
+      </span> weekly growth
+    </div>
+  );
+}
+
+// Ownership badge for a platform, with when it was verified
+function VerifiedBadge({ metrics }: { metrics: SocialMetrics }) {
+  if (!metrics.verified) {
+    return null;
+  }
+
+  return (
+    <span
+      className="ml-auto flex items-center gap-1 text-[10px] text-green-400"
+      title={metrics.verifiedAt ? `Verified ${new Date(metrics.verifiedAt).toLocaleDateString()}` : "Verified"}
+    >
+      <BadgeCheck size={12} />
+      Verified
+    </span>
+  );
+}
+
 export default function AthleteProfileLink() {
   const { linkId } = useParams();
   const [profile, setProfile] = useState<AthleteProfile | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
 
   useEffect(() => {
     async function fetchProfile() {
@@ -258,9 +271,9 @@ export default function AthleteProfileLink() {
         
         <div className="flex flex-col items-center -mt-3 mb-2">
           <div className="flex items-center gap-2">
-            <h2 className="text-lg font-semibold">{profile.sport}</h2>
-            <span className="text-zinc-400">•</span>
-            <h2 className="text-lg font-semibold">{profile.school}</h2>
+            {profile.sport && <h2 className="text-lg font-semibold">{profile.sport}</h2>}
+            {profile.sport && profile.school && <span className="text-zinc-400">•</span>}
+            {profile.school && <h2 className="text-lg font-semibold">{profile.school}</h2>}
           </div>
           
           {/* Additional info */}
@@ -331,7 +344,9 @@ export default function AthleteProfileLink() {
             <h3 className="uppercase text-xs font-semibold tracking-wider text-white">Live Performance Metrics</h3>
             <button
               className="text-xs text-zinc-400 hover:text-white flex items-center gap-1 transition-colors"
+              disabled={refreshing}
               onClick={async () => {
+                setRefreshing(true);
                 try {
                   const res = await apiRequest("GET", `/api/athlete-profile/${linkId}/refresh-metrics`);
                   const data = await res.json();
@@ -343,10 +358,12 @@ export default function AthleteProfileLink() {
                   }
                 } catch (err) {
                   console.error("Failed to refresh metrics", err);
+                } finally {
+                  setRefreshing(false);
                 }
               }}
             >
-              <RefreshCw size={12} className="animate-spin" />
+              <RefreshCw size={12} className={refreshing ? "animate-spin" : ""} />
               <span>Refresh</span>
             </button>
           </div>
@@ -364,13 +381,13 @@ export default function AthleteProfileLink() {
             </div>
             <div className="text-center">
               <div className="text-lg font-bold bg-clip-text text-transparent bg-gradient-to-r from-red-600 to-amber-500">
-                {profile.metrics?.engagement ? `${profile.metrics.engagement}%` : '0%'}
+                {formatEngagement(profile.metrics?.engagement)}
               </div>
               <div className="text-xs text-white">Engagement</div>
             </div>
             <div className="text-center">
               <div className="text-lg font-bold bg-clip-text text-transparent bg-gradient-to-r from-red-600 to-amber-500">
-                {profile.metrics?.contentQuality ? `${profile.metrics.contentQuality}/10` : '0/10'}
+                {profile.metrics?.contentQuality ? `${profile.metrics.contentQuality}/10` : '-'}
               </div>
               <div className="text-xs text-white">Content Score</div>
             </div>
@@ -383,6 +400,7 @@ export default function AthleteProfileLink() {
                 <div className="flex items-center gap-2 mb-2">
                   <SiInstagram className="text-pink-500" size={16} />
                   <span className="text-xs font-semibold text-white">Instagram</span>
+                  <VerifiedBadge metrics={profile.metrics.instagramMetrics} />
                 </div>
                 <div className="text-lg font-bold text-white">
                   {new Intl.NumberFormat('en-US', { 
@@ -391,12 +409,10 @@ export default function AthleteProfileLink() {
                   }).format(profile.metrics.instagramMetrics.followers)}
                 </div>
                 <div className="text-xs text-white mt-1 flex justify-between">
-                  <span><strong>Engagement:</strong> {profile.metrics.instagramMetrics.engagement}%</span>
+                  <span><strong>Engagement:</strong> {formatEngagement(profile.metrics.instagramMetrics.engagement)}</span>
                   <span><strong>Posts:</strong> {profile.metrics.instagramMetrics.posts}</span>
                 </div>
-                <div className="mt-2 text-xs text-white">
-                  <span className="text-green-400 font-bold">↑{profile.metrics.instagramMetrics.weeklyGrowth}%</span> weekly growth
-                </div>
+                <WeeklyGrowth metrics={profile.metrics.instagramMetrics} />
               </div>
             )}
             
@@ -405,6 +421,7 @@ export default function AthleteProfileLink() {
                 <div className="flex items-center gap-2 mb-2">
                   <Twitter className="text-sky-500" size={16} />
                   <span className="text-xs font-semibold text-white">Twitter</span>
+                  <VerifiedBadge metrics={profile.metrics.twitterMetrics} />
                 </div>
                 <div className="text-lg font-bold text-white">
                   {new Intl.NumberFormat('en-US', { 
@@ -413,12 +430,10 @@ export default function AthleteProfileLink() {
                   }).format(profile.metrics.twitterMetrics.followers)}
                 </div>
                 <div className="text-xs text-white mt-1 flex justify-between">
-                  <span><strong>Engagement:</strong> {profile.metrics.twitterMetrics.engagement}%</span>
+                  <span><strong>Engagement:</strong> {formatEngagement(profile.metrics.twitterMetrics.engagement)}</span>
                   <span><strong>Tweets:</strong> {profile.metrics.twitterMetrics.tweets}</span>
                 </div>
-                <div className="mt-2 text-xs text-white">
-                  <span className="text-green-400 font-bold">↑{profile.metrics.twitterMetrics.weeklyGrowth}%</span> weekly growth
-                </div>
+                <WeeklyGrowth metrics={profile.metrics.twitterMetrics} />
               </div>
             )}
             
@@ -427,6 +442,7 @@ export default function AthleteProfileLink() {
                 <div className="flex items-center gap-2 mb-2">
                   <SiTiktok className="text-white" size={16} />
                   <span className="text-xs font-semibold text-white">TikTok</span>
+                  <VerifiedBadge metrics={profile.metrics.tiktokMetrics} />
                 </div>
                 <div className="text-lg font-bold text-white">
                   {new Intl.NumberFormat('en-US', { 
@@ -435,12 +451,10 @@ export default function AthleteProfileLink() {
                   }).format(profile.metrics.tiktokMetrics.followers)}
                 </div>
                 <div className="text-xs text-white mt-1 flex justify-between">
-                  <span><strong>Engagement:</strong> {profile.metrics.tiktokMetrics.engagement}%</span>
+                  <span><strong>Engagement:</strong> {formatEngagement(profile.metrics.tiktokMetrics.engagement)}</span>
                   <span><strong>Videos:</strong> {profile.metrics.tiktokMetrics.videos}</span>
                 </div>
-                <div className="mt-2 text-xs text-white">
-                  <span className="text-green-400 font-bold">↑{profile.metrics.tiktokMetrics.weeklyGrowth}%</span> weekly growth
-                </div>
+                <WeeklyGrowth metrics={profile.metrics.tiktokMetrics} />
               </div>
             )}
           </div>
@@ -641,7 +655,7 @@ export default function AthleteProfileLink() {
           {profile.profileLinkButtons?.map((button) => (
             <a
               key={button.id}
-              href={button.url}
+              href={`/p/${profile.profileLinkId}/go/${encodeURIComponent(button.id)}`}
               target="_blank"
               rel="noopener noreferrer"
               className="flex items-center justify-between w-full p-3 rounded-md transition-transform hover:scale-105"
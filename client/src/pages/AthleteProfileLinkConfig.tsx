@@ -23,8 +23,9 @@ import {
 } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
 import { SiInstagram, SiTiktok, SiFacebook } from "react-icons/si";
-import { RefreshCw, Trash2, ExternalLink, PlusCircle, Save, Paintbrush, Globe, Link2, UserCircle, Share2, Smartphone, Eye } from "lucide-react";
+import { RefreshCw, Trash2, ExternalLink, PlusCircle, Save, Paintbrush, Globe, Link2, UserCircle, Share2, Smartphone, Eye, BarChart3 } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
+import ProfileLinkAnalyticsCard from "@/components/ProfileLinkAnalyticsCard";
 
 interface SocialHandle {
   instagram?: string;
@@ -54,6 +55,16 @@ interface ProfileFormData {
   profileLinkButtons: ProfileButton[];
 }
 
+// apiRequest errors read "<status>: <response body>"
+function errorBody(err: unknown): { error?: string; suggestions?: string[] } {
+  const message = err instanceof Error ? err.message : "";
+  try {
+    return JSON.parse(message.slice(message.indexOf(":") + 1));
+  } catch {
+    return {};
+  }
+}
+
 export default function AthleteProfileLinkConfig() {
   const { toast } = useToast();
   const [isLoading, setIsLoading] = useState(true);
@@ -89,13 +100,13 @@ export default function AthleteProfileLinkConfig() {
     async function loadProfileData() {
       try {
         setIsLoading(true);
-        const res = await apiRequest("GET", "/api/profile");
+        const res = await apiRequest("GET", "/api/athlete-profile/profile-link");
         const data = await res.json();
         
         if (data && !data.error) {
-          // Set form values from data
+          // Set form values from data; the server suggests a free profile ID until one is saved
           setValue("profileLinkEnabled", data.profileLinkEnabled || false);
-          setValue("profileLinkId", data.profileLinkId || generateProfileId(data.name));
+          setValue("profileLinkId", data.profileLinkId || "");
           setValue("profileLinkBio", data.profileLinkBio || "");
           setValue("profileLinkPhotoUrl", data.profileLinkPhotoUrl || "");
           setValue("profileLinkTheme", data.profileLinkTheme || "athletic");
@@ -106,7 +117,7 @@ export default function AthleteProfileLinkConfig() {
           setValue("profileLinkButtons", data.profileLinkButtons || []);
           
           // Set preview URL
-          if (data.profileLinkId) {
+          if (data.profileLinkEnabled && data.profileLinkId) {
             setPreviewUrl(`/p/${data.profileLinkId}`);
           }
         }
@@ -126,14 +137,6 @@ export default function AthleteProfileLinkConfig() {
     loadProfileData();
   }, [setValue, toast]);
   
-  // Generate a URL-friendly profile ID based on name
-  function generateProfileId(name: string) {
-    if (!name) return "";
-    const base = name.toLowerCase().replace(/[^a-z0-9]/g, "");
-    const randomSuffix = Math.floor(Math.random() * 10000).toString().padStart(4, '0');
-    return `${base}${randomSuffix}`;
-  }
-  
   // Save profile data
   const onSubmit = async (data: ProfileFormData) => {
     try {
@@ -150,17 +153,21 @@ export default function AthleteProfileLinkConfig() {
         description: "Your public profile has been updated successfully.",
       });
       
-      // Update preview URL if ID changed
-      if (data.profileLinkId) {
-        setPreviewUrl(`/p/${data.profileLinkId}`);
+      // The server may have normalized the profile ID; only published pages can be previewed
+      if (responseData.profileLinkId) {
+        setValue("profileLinkId", responseData.profileLinkId);
+        setPreviewUrl(responseData.profileLinkEnabled ? `/p/${responseData.profileLinkId}` : "");
       }
       
       setIsLoading(false);
     } catch (err) {
       console.error("Failed to save profile", err);
+      const body = errorBody(err);
       toast({
         title: "Error saving profile",
-        description: "Could not save your profile. Please try again later.",
+        description: body.suggestions?.length
+          ? `${body.error} Try ${body.suggestions.join(", ")}.`
+          : body.error || "Could not save your profile. Please try again later.",
         variant: "destructive"
       });
       setIsLoading(false);
@@ -289,6 +296,13 @@ export default function AthleteProfileLinkConfig() {
                     <Paintbrush className="mr-2 h-4 w-4" />
                     Appearance
                   </TabsTrigger>
+                  <TabsTrigger 
+                    value="analytics" 
+                    className="relative data-[state=active]:bg-transparent data-[state=active]:text-white data-[state=active]:shadow-none rounded-md data-[state=active]:after:absolute data-[state=active]:after:bottom-0 data-[state=active]:after:left-0 data-[state=active]:after:h-0.5 data-[state=active]:after:w-full data-[state=active]:after:bg-gradient-to-r data-[state=active]:after:from-red-600 data-[state=active]:after:to-amber-500"
+                  >
+                    <BarChart3 className="mr-2 h-4 w-4" />
+                    Analytics
+                  </TabsTrigger>
                 </TabsList>
                 
                 {/* GENERAL TAB */}
@@ -615,6 +629,11 @@ export default function AthleteProfileLinkConfig() {
                     </CardFooter>
                   </Card>
                 </TabsContent>
+
+                {/* ANALYTICS TAB */}
+                <TabsContent value="analytics" className="space-y-6">
+                  <ProfileLinkAnalyticsCard />
+                </TabsContent>
               </Tabs>
             </form>
           </div>
@@ -0,0 +1,442 @@
+import { useState } from "react";
+import { useInfiniteQuery, useMutation, useQuery } from "@tanstack/react-query";
+import { Bell, BookmarkPlus, Loader2, MapPin, Search, Trash2, Users, X } from "lucide-react";
+import type {
+  AthleteSearchFacets,
+  AthleteSearchFilters,
+  AthleteSearchPage,
+  AthleteSearchSort,
+  SavedAthleteSearch,
+} from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+const SORT_OPTIONS: { value: AthleteSearchSort; label: string }[] = [
+  { value: "followers", label: "Most followers" },
+  { value: "engagement", label: "Highest engagement" },
+  { value: "newest", label: "Newest" },
+  { value: "graduation_year", label: "Graduation year" },
+  { value: "name", label: "Name" },
+];
+
+type ListFilter = "sports" | "divisions" | "schools" | "graduationYears" | "contentTypes";
+
+const FACET_SECTIONS: { key: ListFilter; label: string }[] = [
+  { key: "sports", label: "Sport" },
+  { key: "divisions", label: "Division" },
+  { key: "schools", label: "School" },
+  { key: "graduationYears", label: "Graduation year" },
+  { key: "contentTypes", label: "Content types" },
+];
+
+function searchUrl(filters: AthleteSearchFilters, sort: AthleteSearchSort, cursor?: string) {
+  const query = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (Array.isArray(value)) {
+      if (value.length > 0) query.set(key, value.join(","));
+    } else if (value !== undefined && value !== "") {
+      query.set(key, String(value));
+    }
+  });
+  query.set("sort", sort);
+  if (cursor) query.set("cursor", cursor);
+  return `/api/athlete-search?${query.toString()}`;
+}
+
+function optionalNumber(value: string): number | undefined {
+  return value.trim() === "" || isNaN(Number(value)) ? undefined : Number(value);
+}
+
+function compact(value: number) {
+  return Intl.NumberFormat("en-US", { notation: "compact", maximumFractionDigits: 1 }).format(value);
+}
+
+function SaveSearchDialog({
+  open,
+  onOpenChange,
+  filters,
+  sort,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  filters: AthleteSearchFilters;
+  sort: AthleteSearchSort;
+}) {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [alertsEnabled, setAlertsEnabled] = useState(true);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/athlete-search/saved", { name, filters, sort, alertsEnabled });
+      return res.json();
+    },
+    onSuccess: (data) => {
+      toast({ title: data.message || "Search saved" });
+      queryClient.invalidateQueries({ queryKey: ["/api/athlete-search/saved"] });
+      setName("");
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't save search", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Save this search</DialogTitle>
+          <DialogDescription>Run it again any time, and hear about new athletes who match.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="saved-search-name">Name</Label>
+            <Input
+              id="saved-search-name"
+              value={name}
+              maxLength={100}
+              placeholder="e.g., D1 basketball near Austin"
+              onChange={(event) => setName(event.target.value)}
+            />
+          </div>
+          <label className="flex items-center gap-2 text-sm">
+            <Switch checked={alertsEnabled} onCheckedChange={setAlertsEnabled} />
+            Notify me when new athletes match
+          </label>
+        </div>
+        <DialogFooter>
+          <Button disabled={!name.trim() || saveMutation.isPending} onClick={() => saveMutation.mutate()}>
+            {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save search
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * Athlete discovery for businesses: free-text search with facet filters,
+ * sorting, "load more" pagination and saved searches with alerts
+ */
+export default function AthleteSearch() {
+  const { toast } = useToast();
+  const [text, setText] = useState("");
+  const [filters, setFilters] = useState<AthleteSearchFilters>({});
+  const [sort, setSort] = useState<AthleteSearchSort>("followers");
+  const [saveOpen, setSaveOpen] = useState(false);
+
+  // Range inputs are applied together with the "Apply" button
+  const [zip, setZip] = useState("");
+  const [radius, setRadius] = useState("25");
+  const [minFollowers, setMinFollowers] = useState("");
+  const [maxFollowers, setMaxFollowers] = useState("");
+  const [minEngagement, setMinEngagement] = useState("");
+  const [maxEngagement, setMaxEngagement] = useState("");
+
+  const results = useInfiniteQuery<AthleteSearchPage, Error>({
+    queryKey: ["/api/athlete-search", filters, sort],
+    initialPageParam: undefined as string | undefined,
+    queryFn: async ({ pageParam }) => {
+      const res = await apiRequest("GET", searchUrl(filters, sort, pageParam as string | undefined));
+      return res.json();
+    },
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+  });
+
+  const { data: savedData } = useQuery<{ searches: SavedAthleteSearch[] }>({
+    queryKey: ["/api/athlete-search/saved"],
+  });
+  const savedSearches = savedData?.searches || [];
+
+  const updateSavedMutation = useMutation({
+    mutationFn: async ({ id, alertsEnabled }: { id: string; alertsEnabled: boolean }) => {
+      const res = await apiRequest("PATCH", `/api/athlete-search/saved/${id}`, { alertsEnabled });
+      return res.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/athlete-search/saved"] }),
+    onError: (error: Error) => {
+      toast({ title: "Couldn't update saved search", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteSavedMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("DELETE", `/api/athlete-search/saved/${id}`);
+      return res.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/athlete-search/saved"] }),
+    onError: (error: Error) => {
+      toast({ title: "Couldn't delete saved search", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const firstPage = results.data?.pages[0];
+  const facets: AthleteSearchFacets | undefined = firstPage?.facets;
+  const athletes = results.data?.pages.flatMap((page) => page.athletes) || [];
+
+  const toggleValue = (key: ListFilter, value: string | number) => {
+    setFilters((current) => {
+      const values = (current[key] || []) as (string | number)[];
+      const next = values.includes(value) ? values.filter((entry) => entry !== value) : [...values, value];
+      return { ...current, [key]: next.length ? next : undefined };
+    });
+  };
+
+  const applyRanges = () => {
+    setFilters((current) => ({
+      ...current,
+      zip: /^\d{5}$/.test(zip.trim()) ? zip.trim() : undefined,
+      radiusMiles: /^\d{5}$/.test(zip.trim()) ? optionalNumber(radius) : undefined,
+      minFollowers: optionalNumber(minFollowers),
+      maxFollowers: optionalNumber(maxFollowers),
+      minEngagement: optionalNumber(minEngagement),
+      maxEngagement: optionalNumber(maxEngagement),
+    }));
+  };
+
+  const applySaved = (search: SavedAthleteSearch) => {
+    const saved = search.filters || {};
+    setFilters(saved);
+    setSort(search.sort);
+    setText(saved.q || "");
+    setZip(saved.zip || "");
+    setRadius(saved.radiusMiles ? String(saved.radiusMiles) : "25");
+    setMinFollowers(saved.minFollowers !== undefined ? String(saved.minFollowers) : "");
+    setMaxFollowers(saved.maxFollowers !== undefined ? String(saved.maxFollowers) : "");
+    setMinEngagement(saved.minEngagement !== undefined ? String(saved.minEngagement) : "");
+    setMaxEngagement(saved.maxEngagement !== undefined ? String(saved.maxEngagement) : "");
+  };
+
+  const clearAll = () => applySaved({ filters: {}, sort } as SavedAthleteSearch);
+
+  return (
+    <div className="container mx-auto py-8 space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Find Athletes</h1>
+          <p className="text-gray-500">Search every athlete on the platform, not just your campaign matches</p>
+        </div>
+        <Button variant="outline" onClick={() => setSaveOpen(true)}>
+          <BookmarkPlus className="h-4 w-4 mr-2" />
+          Save search
+        </Button>
+      </div>
+
+      <form
+        className="flex flex-wrap gap-3"
+        onSubmit={(event) => {
+          event.preventDefault();
+          setFilters((current) => ({ ...current, q: text.trim() || undefined }));
+        }}
+      >
+        <div className="relative flex-1 min-w-64">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <Input
+            className="pl-9"
+            value={text}
+            maxLength={200}
+            placeholder="Search bios, schools, sports and achievements"
+            onChange={(event) => setText(event.target.value)}
+          />
+        </div>
+        <Button type="submit">Search</Button>
+        <Select value={sort} onValueChange={(value) => setSort(value as AthleteSearchSort)}>
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SORT_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </form>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        <aside className="space-y-4">
+          {savedSearches.length > 0 && (
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base">Saved searches</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {savedSearches.map((search) => (
+                  <div key={search.id} className="flex items-center gap-2">
+                    <button type="button" className="flex-1 text-left text-sm hover:underline truncate" onClick={() => applySaved(search)}>
+                      {search.name}
+                    </button>
+                    <Switch
+                      aria-label="Alerts"
+                      checked={search.alerts_enabled}
+                      onCheckedChange={(checked) => updateSavedMutation.mutate({ id: search.id, alertsEnabled: checked })}
+                    />
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-7 w-7"
+                      aria-label="Delete saved search"
+                      onClick={() => deleteSavedMutation.mutate(search.id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <p className="flex items-center gap-1 text-xs text-gray-500">
+                  <Bell className="h-3 w-3" /> Switch on to be notified about new matches
+                </p>
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader className="pb-2 flex flex-row items-center justify-between space-y-0">
+              <CardTitle className="text-base">Filters</CardTitle>
+              <Button size="sm" variant="ghost" onClick={clearAll}>
+                <X className="h-4 w-4 mr-1" />
+                Clear
+              </Button>
+            </CardHeader>
+            <CardContent className="space-y-5">
+              <div className="space-y-2">
+                <Label>Near ZIP code</Label>
+                <div className="flex gap-2">
+                  <Input value={zip} maxLength={5} placeholder="ZIP" onChange={(event) => setZip(event.target.value)} />
+                  <Select value={radius} onValueChange={setRadius}>
+                    <SelectTrigger className="w-28">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {["10", "25", "50", "100", "250"].map((miles) => (
+                        <SelectItem key={miles} value={miles}>{miles} mi</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Followers</Label>
+                <div className="flex gap-2">
+                  <Input inputMode="numeric" placeholder="Min" value={minFollowers} onChange={(event) => setMinFollowers(event.target.value)} />
+                  <Input inputMode="numeric" placeholder="Max" value={maxFollowers} onChange={(event) => setMaxFollowers(event.target.value)} />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Engagement rate (%)</Label>
+                <div className="flex gap-2">
+                  <Input inputMode="decimal" placeholder="Min" value={minEngagement} onChange={(event) => setMinEngagement(event.target.value)} />
+                  <Input inputMode="decimal" placeholder="Max" value={maxEngagement} onChange={(event) => setMaxEngagement(event.target.value)} />
+                </div>
+              </div>
+              <Button className="w-full" variant="secondary" onClick={applyRanges}>Apply</Button>
+
+              {FACET_SECTIONS.map(({ key, label }) => {
+                const options = (facets?.[key] || []) as { value: string | number; count: number }[];
+                const selected = (filters[key] || []) as (string | number)[];
+                // Keep selected values visible even when the other filters leave no athletes with them
+                const values = [
+                  ...options,
+                  ...selected.filter((value) => !options.some((option) => option.value === value)).map((value) => ({ value, count: 0 })),
+                ];
+                if (values.length === 0) return null;
+
+                return (
+                  <div key={key} className="space-y-2">
+                    <Label>{label}</Label>
+                    {values.map((option) => (
+                      <label key={option.value} className="flex items-center gap-2 text-sm capitalize">
+                        <Checkbox
+                          checked={selected.includes(option.value)}
+                          onCheckedChange={() => toggleValue(key, option.value)}
+                        />
+                        <span className="flex-1 truncate">{option.value}</span>
+                        <span className="text-xs text-gray-500">{option.count}</span>
+                      </label>
+                    ))}
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+        </aside>
+
+        <section className="lg:col-span-3 space-y-4">
+          <p className="text-sm text-gray-500">
+            {firstPage ? `${firstPage.total.toLocaleString()} athlete${firstPage.total === 1 ? "" : "s"} found` : " "}
+          </p>
+
+          {results.isLoading ? (
+            <div className="flex justify-center py-16">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : results.isError ? (
+            <p className="py-16 text-center text-red-500">{results.error.message}</p>
+          ) : athletes.length === 0 && !results.hasNextPage ? (
+            <p className="py-16 text-center text-gray-500">No athletes match these filters.</p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+              {athletes.map((athlete) => (
+                <Card key={athlete.id}>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-lg">{athlete.name}</CardTitle>
+                    <CardDescription>
+                      {[athlete.sport, athlete.position, athlete.school].filter(Boolean).join(" • ")}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    <div className="flex flex-wrap gap-2 text-xs">
+                      {athlete.division && <Badge variant="outline">{athlete.division}</Badge>}
+                      {athlete.graduation_year && <Badge variant="outline">Class of {athlete.graduation_year}</Badge>}
+                      {athlete.distance_miles !== null && (
+                        <Badge variant="outline">
+                          <MapPin className="h-3 w-3 mr-1" />
+                          {athlete.distance_miles} mi
+                        </Badge>
+                      )}
+                    </div>
+                    <div className="flex gap-4 text-sm">
+                      <span className="flex items-center gap-1">
+                        <Users className="h-4 w-4 text-gray-400" />
+                        {compact(athlete.follower_count)}
+                      </span>
+                      {athlete.engagement_percent !== null && <span>{athlete.engagement_percent}% engagement</span>}
+                    </div>
+                    {athlete.bio && <p className="text-sm text-gray-600 line-clamp-3">{athlete.bio}</p>}
+                    {athlete.content_types.length > 0 && (
+                      <div className="flex flex-wrap gap-1">
+                        {athlete.content_types.map((type) => (
+                          <Badge key={type} variant="secondary" className="capitalize">{type}</Badge>
+                        ))}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+
+          {results.hasNextPage && (
+            <div className="flex justify-center">
+              <Button variant="outline" disabled={results.isFetchingNextPage} onClick={() => results.fetchNextPage()}>
+                {results.isFetchingNextPage && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Load more
+              </Button>
+            </div>
+          )}
+        </section>
+      </div>
+
+      <SaveSearchDialog open={saveOpen} onOpenChange={setSaveOpen} filters={filters} sort={sort} />
+    </div>
+  );
+}
@@ -0,0 +1,371 @@
+import { useState } from "react";
+import { useInfiniteQuery, useMutation } from "@tanstack/react-query";
+import { Building2, Check, DollarSign, Loader2, Megaphone, Search, Send, X } from "lucide-react";
+import type { BrandCompanyType, BrandDirectoryEntry, BrandDirectorySort } from "@shared/schema";
+import { industries } from "@shared/industries";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+const PAGE_SIZE = 24;
+
+const SORT_OPTIONS: { value: BrandDirectorySort; label: string }[] = [
+  { value: "name", label: "Name" },
+  { value: "budget", label: "Largest budget" },
+  { value: "newest", label: "Newest" },
+];
+
+const COMPANY_TYPES: { value: BrandCompanyType; label: string }[] = [
+  { value: "product", label: "Product" },
+  { value: "service", label: "Service" },
+  { value: "hybrid", label: "Product & service" },
+];
+
+// Same choices businesses pick from during onboarding
+const LOCATIONS = ["Neighborhood / Zip", "City", "Region", "Statewide", "National", "Remote / Online"];
+
+interface BrandFilters {
+  q?: string;
+  industries?: string[];
+  minBudget?: number;
+  maxBudget?: number;
+  locations?: string[];
+  companyTypes?: BrandCompanyType[];
+  activeCampaigns?: boolean;
+}
+
+type ListFilter = "industries" | "locations" | "companyTypes";
+
+interface BrandDirectoryPage {
+  brands: BrandDirectoryEntry[];
+  total: number;
+}
+
+function directoryUrl(filters: BrandFilters, sort: BrandDirectorySort, offset: number) {
+  const query = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (Array.isArray(value)) {
+      if (value.length > 0) query.set(key, value.join(","));
+    } else if (value !== undefined && value !== "" && value !== false) {
+      query.set(key, String(value));
+    }
+  });
+  query.set("sort", sort);
+  query.set("limit", String(PAGE_SIZE));
+  query.set("offset", String(offset));
+  return `/api/brands?${query.toString()}`;
+}
+
+function optionalNumber(value: string): number | undefined {
+  return value.trim() === "" || isNaN(Number(value)) ? undefined : Number(value);
+}
+
+function budgetRange(brand: BrandDirectoryEntry) {
+  const format = (value: number) => `$${value.toLocaleString()}`;
+  if (brand.budget_min !== null && brand.budget_max !== null) return `${format(brand.budget_min)} – ${format(brand.budget_max)}`;
+  if (brand.budget_max !== null) return `Up to ${format(brand.budget_max)}`;
+  if (brand.budget_min !== null) return `From ${format(brand.budget_min)}`;
+  return null;
+}
+
+function InterestDialog({
+  brand,
+  onOpenChange,
+}: {
+  brand: BrandDirectoryEntry | null;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [message, setMessage] = useState("");
+
+  const interestMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/brands/${brand!.id}/interest`, {
+        message: message.trim() || undefined,
+      });
+      return res.json();
+    },
+    onSuccess: (data) => {
+      toast({ title: data.message || "Interest sent" });
+      queryClient.invalidateQueries({ queryKey: ["/api/brands"] });
+      setMessage("");
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't send interest", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={!!brand} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Interested in {brand?.name}?</DialogTitle>
+          <DialogDescription>
+            The brand will see you as a lead on their dashboard and can reach out with an offer.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="brand-interest-message">Message (optional)</Label>
+          <Textarea
+            id="brand-interest-message"
+            value={message}
+            maxLength={1000}
+            rows={4}
+            placeholder="Tell them why you'd be a great fit"
+            onChange={(event) => setMessage(event.target.value)}
+          />
+        </div>
+        <DialogFooter>
+          <Button disabled={interestMutation.isPending} onClick={() => interestMutation.mutate()}>
+            {interestMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+            Send interest
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * Brand directory for athletes: browse discoverable businesses by industry,
+ * budget, location, company type and active campaigns, and express interest
+ */
+export default function BrandDirectory() {
+  const [text, setText] = useState("");
+  const [filters, setFilters] = useState<BrandFilters>({});
+  const [sort, setSort] = useState<BrandDirectorySort>("name");
+  const [interestBrand, setInterestBrand] = useState<BrandDirectoryEntry | null>(null);
+
+  // Budget inputs are applied together with the "Apply" button
+  const [minBudget, setMinBudget] = useState("");
+  const [maxBudget, setMaxBudget] = useState("");
+
+  const results = useInfiniteQuery<BrandDirectoryPage, Error>({
+    queryKey: ["/api/brands", filters, sort],
+    initialPageParam: 0,
+    queryFn: async ({ pageParam }) => {
+      const res = await apiRequest("GET", directoryUrl(filters, sort, pageParam as number));
+      return res.json();
+    },
+    getNextPageParam: (lastPage, pages) => {
+      const loaded = pages.reduce((sum, page) => sum + page.brands.length, 0);
+      return loaded < lastPage.total ? loaded : undefined;
+    },
+  });
+
+  const total = results.data?.pages[0]?.total;
+  const brands = results.data?.pages.flatMap((page) => page.brands) || [];
+
+  const toggleValue = (key: ListFilter, value: string) => {
+    setFilters((current) => {
+      const values = (current[key] || []) as string[];
+      const next = values.includes(value) ? values.filter((entry) => entry !== value) : [...values, value];
+      return { ...current, [key]: next.length ? next : undefined };
+    });
+  };
+
+  const applyBudget = () => {
+    setFilters((current) => ({
+      ...current,
+      minBudget: optionalNumber(minBudget),
+      maxBudget: optionalNumber(maxBudget),
+    }));
+  };
+
+  const clearAll = () => {
+    setFilters({});
+    setText("");
+    setMinBudget("");
+    setMaxBudget("");
+  };
+
+  const listSections: { key: ListFilter; label: string; options: { value: string; label: string }[] }[] = [
+    { key: "industries", label: "Industry", options: industries.map((industry) => ({ value: industry.id, label: industry.label })) },
+    { key: "companyTypes", label: "Company type", options: COMPANY_TYPES },
+    { key: "locations", label: "Operating location", options: LOCATIONS.map((location) => ({ value: location, label: location })) },
+  ];
+
+  return (
+    <div className="container mx-auto py-8 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Brand Directory</h1>
+        <p className="text-gray-500">Find brands you'd like to work with and let them know you're interested</p>
+      </div>
+
+      <form
+        className="flex flex-wrap gap-3"
+        onSubmit={(event) => {
+          event.preventDefault();
+          setFilters((current) => ({ ...current, q: text.trim() || undefined }));
+        }}
+      >
+        <div className="relative flex-1 min-w-64">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <Input
+            className="pl-9"
+            value={text}
+            maxLength={200}
+            placeholder="Search brand names and descriptions"
+            onChange={(event) => setText(event.target.value)}
+          />
+        </div>
+        <Button type="submit">Search</Button>
+        <Select value={sort} onValueChange={(value) => setSort(value as BrandDirectorySort)}>
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SORT_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </form>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        <aside>
+          <Card>
+            <CardHeader className="pb-2 flex flex-row items-center justify-between space-y-0">
+              <CardTitle className="text-base">Filters</CardTitle>
+              <Button size="sm" variant="ghost" onClick={clearAll}>
+                <X className="h-4 w-4 mr-1" />
+                Clear
+              </Button>
+            </CardHeader>
+            <CardContent className="space-y-5">
+              <label className="flex items-center gap-2 text-sm">
+                <Switch
+                  checked={!!filters.activeCampaigns}
+                  onCheckedChange={(checked) => setFilters((current) => ({ ...current, activeCampaigns: checked || undefined }))}
+                />
+                Running a campaign now
+              </label>
+              <div className="space-y-2">
+                <Label>Budget ($)</Label>
+                <div className="flex gap-2">
+                  <Input inputMode="numeric" placeholder="Min" value={minBudget} onChange={(event) => setMinBudget(event.target.value)} />
+                  <Input inputMode="numeric" placeholder="Max" value={maxBudget} onChange={(event) => setMaxBudget(event.target.value)} />
+                </div>
+              </div>
+              <Button className="w-full" variant="secondary" onClick={applyBudget}>Apply</Button>
+
+              {listSections.map(({ key, label, options }) => {
+                const selected = (filters[key] || []) as string[];
+                return (
+                  <div key={key} className="space-y-2">
+                    <Label>{label}</Label>
+                    {options.map((option) => (
+                      <label key={option.value} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={selected.includes(option.value)}
+                          onCheckedChange={() => toggleValue(key, option.value)}
+                        />
+                        <span className="flex-1 truncate">{option.label}</span>
+                      </label>
+                    ))}
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+        </aside>
+
+        <section className="lg:col-span-3 space-y-4">
+          <p className="text-sm text-gray-500">
+            {total !== undefined ? `${total.toLocaleString()} brand${total === 1 ? "" : "s"} found` : " "}
+          </p>
+
+          {results.isLoading ? (
+            <div className="flex justify-center py-16">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : results.isError ? (
+            <p className="py-16 text-center text-red-500">{results.error.message}</p>
+          ) : brands.length === 0 ? (
+            <p className="py-16 text-center text-gray-500">No brands match these filters.</p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+              {brands.map((brand) => {
+                const budget = budgetRange(brand);
+                return (
+                  <Card key={brand.id} className="flex flex-col">
+                    <CardHeader className="pb-2">
+                      <div className="flex items-center gap-3">
+                        {brand.profile_image ? (
+                          <img src={brand.profile_image} alt="" className="h-10 w-10 rounded-full object-cover" />
+                        ) : (
+                          <div className="h-10 w-10 rounded-full bg-gray-100 flex items-center justify-center">
+                            <Building2 className="h-5 w-5 text-gray-400" />
+                          </div>
+                        )}
+                        <div className="min-w-0">
+                          <CardTitle className="text-lg truncate">{brand.name}</CardTitle>
+                          <CardDescription>
+                            {[brand.industry_label, brand.company_type].filter(Boolean).join(" • ")}
+                          </CardDescription>
+                        </div>
+                      </div>
+                    </CardHeader>
+                    <CardContent className="flex-1 flex flex-col gap-3">
+                      <div className="flex flex-wrap gap-2 text-xs">
+                        {budget && (
+                          <Badge variant="outline">
+                            <DollarSign className="h-3 w-3 mr-1" />
+                            {budget}
+                          </Badge>
+                        )}
+                        {brand.active_campaigns > 0 && (
+                          <Badge variant="secondary">
+                            <Megaphone className="h-3 w-3 mr-1" />
+                            {brand.active_campaigns} active campaign{brand.active_campaigns === 1 ? "" : "s"}
+                          </Badge>
+                        )}
+                        {brand.operating_locations.map((location) => (
+                          <Badge key={location} variant="outline" className="capitalize">{location}</Badge>
+                        ))}
+                      </div>
+                      {brand.bio && <p className="text-sm text-gray-600 line-clamp-3">{brand.bio}</p>}
+                      <div className="mt-auto pt-2">
+                        {brand.interested ? (
+                          <Button className="w-full" variant="outline" disabled>
+                            <Check className="h-4 w-4 mr-2" />
+                            Interest sent
+                          </Button>
+                        ) : (
+                          <Button className="w-full" onClick={() => setInterestBrand(brand)}>
+                            Express interest
+                          </Button>
+                        )}
+                      </div>
+                    </CardContent>
+                  </Card>
+                );
+              })}
+            </div>
+          )}
+
+          {results.hasNextPage && (
+            <div className="flex justify-center">
+              <Button variant="outline" disabled={results.isFetchingNextPage} onClick={() => results.fetchNextPage()}>
+                {results.isFetchingNextPage && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Load more
+              </Button>
+            </div>
+          )}
+        </section>
+      </div>
+
+      <InterestDialog brand={interestBrand} onOpenChange={(open) => !open && setInterestBrand(null)} />
+    </div>
+  );
+}
@@ -1,6 +1,12 @@
 import { useEffect, useState } from "react";
 import { useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import type { CampaignBudgetSummary, CampaignBudgetTotals } from "@shared/schema";
 import { useAuth } from "@/hooks/use-auth";
+import PaymentMilestonesCard from "@/components/PaymentMilestonesCard";
+import ContractsCard from "@/components/ContractsCard";
+import PartnershipRatingsCard from "@/components/PartnershipRatingsCard";
+import BrandLeadsCard from "@/components/BrandLeadsCard";
 import { 
   Tabs, 
   TabsContent, 
@@ -47,9 +53,11 @@ import {
   ArrowUpRight,
   ShoppingBag,
   Eye,
-  ChevronRight
+  ChevronRight,
+  Search
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import NotificationPreferencesCard from "@/components/NotificationPreferencesCard";
 import {
   AreaChart,
   Area,
@@ -75,6 +83,10 @@ export default function BusinessDashboard() {
   const [notificationOpen, setNotificationOpen] = useState(false);
   const [messageOpen, setMessageOpen] = useState(false);
   const [settingsOpen, setSettingsOpen] = useState(false);
+
+  const { data: budgetSummary } = useQuery<{ totals: CampaignBudgetTotals; campaigns: CampaignBudgetSummary[] }>({
+    queryKey: ['/api/campaign/budget-summary'],
+  });
   
   // Define profile data type
   type ProfileData = {
@@ -540,14 +552,17 @@ export default function BusinessDashboard() {
     { age: '55+', male: 15, female: 20, other: 5 },
   ];
 
-  const spendingData = [
-    { name: 'Content Creation', value: 40 },
-    { name: 'Platform Fees', value: 15 },
-    { name: 'Athlete Payments', value: 35 },
-    { name: 'Analytics Tools', value: 10 },
-  ];
-
-  const COLORS = ['#FF8042', '#FFBB28', '#00C49F', '#0088FE'];
+  const budgetTotals = budgetSummary?.totals;
+  const spendingData = budgetTotals
+    ? [
+        { name: 'Paid', value: budgetTotals.paid, color: '#00C49F' },
+        { name: 'Committed (unpaid)', value: budgetTotals.outstanding, color: '#FF8042' },
+        { name: 'Pending Offers', value: budgetTotals.pending, color: '#FFBB28' },
+        { name: 'Remaining', value: Math.max(budgetTotals.remaining || 0, 0), color: '#0088FE' },
+      ].filter(entry => entry.value > 0)
+    : [];
+  const formatMoney = (value: number | null | undefined) =>
+    value === null || value === undefined ? '—' : `$${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
 
   if (loading || isLoadingProfile) {
     return (
@@ -584,6 +599,16 @@ export default function BusinessDashboard() {
                 New Campaign
               </Button>
               
+              <Button
+                variant="outline"
+                size="sm"
+                className="flex items-center gap-2 border border-zinc-700 bg-black/40 hover:bg-zinc-900/80 backdrop-blur-sm text-gray-300"
+                onClick={() => navigate('/business/athletes')}
+              >
+                <Search className="h-4 w-4" />
+                Find Athletes
+              </Button>
+
               <Dialog open={notificationOpen} onOpenChange={setNotificationOpen}>
                 <DialogTrigger asChild>
                   <Button variant="outline" size="sm" className="flex items-center gap-2 border border-zinc-700 bg-black/40 hover:bg-zinc-900/80 backdrop-blur-sm">
@@ -625,12 +650,12 @@ export default function BusinessDashboard() {
                     <span className="text-gray-300">Settings</span>
                   </Button>
                 </DialogTrigger>
-                <DialogContent className="bg-zinc-900/90 backdrop-blur-md border border-zinc-700 text-white">
+                <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto bg-zinc-900/90 backdrop-blur-md border border-zinc-700 text-white">
                   <DialogHeader>
                     <DialogTitle>Settings</DialogTitle>
                   </DialogHeader>
-                  <div className="py-4">
-                    <p>Settings content would go here</p>
+                  <div className="py-4 text-foreground">
+                    <NotificationPreferencesCard />
                   </div>
                 </DialogContent>
               </Dialog>
@@ -721,33 +746,89 @@ export default function BusinessDashboard() {
             <Card className="md:col-span-4 bg-zinc-900/40 backdrop-blur-sm border border-zinc-800 shadow-lg hover:shadow-amber-500/5 transition-all duration-300">
               <CardHeader>
                 <CardTitle className="text-white font-heading">Budget Allocation</CardTitle>
-                <CardDescription className="text-gray-400">Campaign spending breakdown</CardDescription>
+                <CardDescription className="text-gray-400">Committed, pending and remaining spend across your campaigns</CardDescription>
               </CardHeader>
-              <CardContent className="h-80">
-                <ResponsiveContainer width="100%" height="100%">
-                  <RechartsPieChart>
-                    <Pie
-                      data={spendingData}
-                      cx="50%"
-                      cy="50%"
-                      innerRadius={60}
-                      outerRadius={90}
-                      fill="#8884d8"
-                      paddingAngle={2}
-                      dataKey="value"
-                      label
-                    >
-                      {spendingData.map((entry, index) => (
-                        <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
-                      ))}
-                    </Pie>
-                    <Tooltip contentStyle={{ backgroundColor: '#222', borderColor: '#444', color: 'white' }} />
-                    <Legend />
-                  </RechartsPieChart>
-                </ResponsiveContainer>
+              <CardContent className="h-80 flex flex-col">
+                {!budgetTotals || (budgetTotals.budget_max === null && budgetTotals.committed === 0 && budgetTotals.pending === 0) ? (
+                  <div className="flex flex-1 items-center justify-center text-sm text-gray-400 text-center">
+                    Set a budget on your campaigns to track spend here
+                  </div>
+                ) : (
+                  <>
+                    <div className="grid grid-cols-2 gap-2 text-sm mb-2">
+                      <div>
+                        <div className="text-gray-400">Committed</div>
+                        <div className="text-white font-semibold">{formatMoney(budgetTotals.committed)}</div>
+                      </div>
+                      <div>
+                        <div className="text-gray-400">Remaining</div>
+                        <div className={budgetTotals.remaining !== null && budgetTotals.remaining < 0 ? "text-red-400 font-semibold" : "text-white font-semibold"}>
+                          {formatMoney(budgetTotals.remaining)}
+                        </div>
+                      </div>
+                      <div>
+                        <div className="text-gray-400">Pending</div>
+                        <div className="text-white">{formatMoney(budgetTotals.pending)}</div>
+                      </div>
+                      <div>
+                        <div className="text-gray-400">Paid</div>
+                        <div className="text-white">{formatMoney(budgetTotals.paid)}</div>
+                      </div>
+                    </div>
+                    <div className="flex-1 min-h-0">
+                      <ResponsiveContainer width="100%" height="100%">
+                        <RechartsPieChart>
+                          <Pie
+                            data={spendingData}
+                            cx="50%"
+                            cy="50%"
+                            innerRadius={40}
+                            outerRadius={65}
+                            fill="#8884d8"
+                            paddingAngle={2}
+                            dataKey="value"
+                          >
+                            {spendingData.map((entry) => (
+                              <Cell key={entry.name} fill={entry.color} />
+                            ))}
+                          </Pie>
+                          <Tooltip
+                            contentStyle={{ backgroundColor: '#222', borderColor: '#444', color: 'white' }}
+                            formatter={(value: number) => formatMoney(value)}
+                          />
+                          <Legend />
+                        </RechartsPieChart>
+                      </ResponsiveContainer>
+                    </div>
+                  </>
+                )}
               </CardContent>
             </Card>
             
+            {/* Escrowed payment milestones per campaign */}
+            <div className="md:col-span-12">
+              <PaymentMilestonesCard
+                role="business"
+                variant="dark"
+                campaigns={(budgetSummary?.campaigns || []).map(({ campaign_id, title }) => ({ campaign_id, title: title || "Untitled campaign" }))}
+              />
+            </div>
+
+            {/* Contracts awaiting signature and signed agreements */}
+            <div className="md:col-span-12">
+              <ContractsCard variant="dark" />
+            </div>
+
+            {/* Ratings of ended partnerships and the business's reputation */}
+            <div className="md:col-span-12">
+              <PartnershipRatingsCard variant="dark" />
+            </div>
+
+            {/* Athletes who expressed interest from the brand directory */}
+            <div className="md:col-span-12">
+              <BrandLeadsCard variant="dark" />
+            </div>
+
             {/* Audience Demographics Chart */}
             <Card className="md:col-span-6 bg-zinc-900/40 backdrop-blur-sm border border-zinc-800 shadow-lg hover:shadow-amber-500/5 transition-all duration-300">
               <CardHeader>
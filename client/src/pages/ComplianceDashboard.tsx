@@ -1,4 +1,9 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import type { Compensation, ComplianceDecision, ComplianceRuleReport } from '@shared/schema';
+import { describeCompensation } from '@shared/compensation';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useAuth } from '@/hooks/use-auth';
 import { Button } from '@/components/ui/button';
 import {
   Card,
@@ -62,6 +67,31 @@ interface Partnership {
   details: PartnershipDetails;
   status: string;
   messages: Message[];
+  claimedBy: string | null;
+  ruleReport?: ComplianceRuleReport;
+  decisionNotes?: string;
+}
+
+// Compliance queue entry as returned by /api/compliance/requests
+interface ComplianceQueueItem {
+  id: number;
+  status: string;
+  requested_at: string;
+  reviewed_at?: string | null;
+  notes?: string | null;
+  compliance_officer_id?: string | null;
+  rule_report?: ComplianceRuleReport;
+  offer?: {
+    offer_amount?: string | number;
+    compensation_type?: string;
+    compensation?: Compensation | null;
+    deliverables?: any;
+    term?: string;
+  } | null;
+  athlete?: { email?: string } | null;
+  business?: { email?: string } | null;
+  athlete_profile?: { name?: string; sport?: string; school?: string; location?: string } | null;
+  business_profile?: { name?: string; company?: string; industry?: string; business_type?: string } | null;
 }
 import {
   Table,
@@ -95,229 +125,135 @@ import {
 import { Textarea } from "@/components/ui/textarea";
 import { Input } from "@/components/ui/input";
 
-// Mock data for pending approvals
-const pendingPartnerships = [
-  {
-    id: 1,
-    athlete: {
-      name: 'Sarah Johnson',
-      sport: 'Basketball',
-      year: 'Junior',
-      email: 'sarahjohnson@university.edu',
-      phone: '(555) 123-4567',
-      socialMedia: {
-        instagram: '@sarahj_hoops',
-        twitter: '@sarah_johnson21'
-      },
-      stats: 'Averaging 18.5 points and 7.2 rebounds per game',
-      academicStatus: 'Good standing, 3.7 GPA'
-    },
-    business: {
-      name: 'Local Sports Shop',
-      type: 'Retail',
-      contact: 'Mark Davis',
-      email: 'mark@localsportsshop.com',
-      phone: '(555) 987-6543',
-      website: 'www.localsportsshop.com',
-      address: '123 Main Street, Collegetown, USA',
-      history: 'Family-owned business operating near campus since 2005'
-    },
-    details: {
-      compensation: '$500',
-      type: 'Social Media',
-      submittedDate: '2025-03-20',
-      deliverables: [
-        '2 Instagram posts per month featuring products',
-        '1 in-store appearance for autograph signing',
-        'Store logo to be included in personal social media profile'
-      ],
-      duration: '3 months',
-      additionalNotes: 'Athlete will receive 20% discount on all store merchandise during contract period'
-    },
-    status: 'pending',
-    messages: []
+const formatDeliverable = (deliverable: any): string => {
+  if (typeof deliverable === 'string') return deliverable;
+  return [
+    deliverable?.quantity ? `${deliverable.quantity}x` : null,
+    deliverable?.platform,
+    deliverable?.type,
+    deliverable?.description ? `- ${deliverable.description}` : null
+  ].filter(Boolean).join(' ');
+};
+
+const formatDate = (value?: string | null) => value ? value.split('T')[0] : '';
+
+// Map a queue entry onto the partnership shape the tables and dialogs render
+const toPartnership = (item: ComplianceQueueItem): Partnership => ({
+  id: item.id,
+  athlete: {
+    name: item.athlete_profile?.name || 'Unknown athlete',
+    sport: item.athlete_profile?.sport || '',
+    year: item.athlete_profile?.school || '',
+    email: item.athlete?.email || '',
+    phone: '',
+    socialMedia: {},
+    stats: '',
+    academicStatus: ''
   },
-  {
-    id: 2,
-    athlete: {
-      name: 'Michael Chen',
-      sport: 'Soccer',
-      year: 'Sophomore',
-      email: 'mchen@university.edu',
-      phone: '(555) 234-5678',
-      socialMedia: {
-        instagram: '@mikechen10',
-        tiktok: '@michaelchen_soccer'
-      },
-      stats: 'Led team with 12 goals last season',
-      academicStatus: 'Good standing, 3.5 GPA'
-    },
-    business: {
-      name: 'City Cafe',
-      type: 'Food & Beverage',
-      contact: 'Jennifer Wong',
-      email: 'jennifer@citycafe.com',
-      phone: '(555) 345-6789',
-      website: 'www.citycafe.com',
-      address: '456 University Ave, Collegetown, USA',
-      history: 'Popular local cafe frequented by students and faculty'
-    },
-    details: {
-      compensation: '$300',
-      type: 'In-person Appearance',
-      submittedDate: '2025-03-22',
-      deliverables: [
-        'Monthly meet-and-greet with customers',
-        'Autographed photos for cafe to display',
-        'Mention of cafe in post-game interviews when appropriate'
-      ],
-      duration: '6 months (spring semester)',
-      additionalNotes: 'Free meals provided during appearances'
-    },
-    status: 'pending',
-    messages: []
+  business: {
+    name: item.business_profile?.company || item.business_profile?.name || 'Unknown business',
+    type: item.business_profile?.industry || item.business_profile?.business_type || '',
+    contact: item.business_profile?.name || '',
+    email: item.business?.email || '',
+    phone: '',
+    website: '',
+    address: '',
+    history: ''
   },
-  {
-    id: 3,
-    athlete: {
-      name: 'Aisha Williams',
-      sport: 'Track & Field',
-      year: 'Senior',
-      email: 'awilliams@university.edu',
-      phone: '(555) 456-7890',
-      socialMedia: {
-        instagram: '@aisha_runs',
-        twitter: '@aishaW_track'
-      },
-      stats: 'School record holder in 400m hurdles',
-      academicStatus: 'Dean\'s List, 3.9 GPA'
-    },
-    business: {
-      name: 'Runner\'s World',
-      type: 'Retail',
-      contact: 'James Peterson',
-      email: 'james@runnersworld.com',
-      phone: '(555) 567-8901',
-      website: 'www.runnersworld.com',
-      address: '789 Athletic Drive, Collegetown, USA',
-      history: 'Specialty running store with locations across the state'
-    },
-    details: {
-      compensation: '$800',
-      type: 'Product Endorsement',
-      submittedDate: '2025-03-23',
-      deliverables: [
-        'Featured in store promotional materials',
-        'Social media content wearing/using sponsored products',
-        'Participation in store-sponsored community 5K race',
-        'Testimonial for website and print materials'
-      ],
-      duration: '1 year contract',
-      additionalNotes: 'Includes $300 product allowance per semester'
-    },
-    status: 'pending',
-    messages: []
+  details: {
+    compensation: item.offer?.compensation
+      ? describeCompensation(item.offer.compensation)
+      : item.offer?.offer_amount ? `$${item.offer.offer_amount}` : 'Not specified',
+    type: item.offer?.compensation_type || 'Partnership',
+    submittedDate: formatDate(item.requested_at),
+    approvedDate: formatDate(item.reviewed_at),
+    deliverables: Array.isArray(item.offer?.deliverables) ? item.offer!.deliverables.map(formatDeliverable) : [],
+    duration: item.offer?.term || 'Not specified'
   },
-];
+  status: item.status,
+  messages: [],
+  claimedBy: item.compliance_officer_id || null,
+  ruleReport: item.rule_report,
+  decisionNotes: item.notes || undefined
+});
 
-// Mock data for approved partnerships
-const approvedPartnerships = [
-  {
-    id: 4,
-    athlete: {
-      name: 'David Martinez',
-      sport: 'Football',
-      year: 'Senior',
-      email: 'dmartinez@university.edu',
-      phone: '(555) 678-9012',
-      socialMedia: {
-        instagram: '@dmartinez_QB',
-        twitter: '@david_martinez12'
-      },
-      stats: 'Starting quarterback, 28 touchdowns last season',
-      academicStatus: 'Good standing, 3.2 GPA'
-    },
-    business: {
-      name: 'Athlete Nutrition',
-      type: 'Health & Wellness',
-      contact: 'Sarah Thompson',
-      email: 'sarah@athletenutrition.com',
-      phone: '(555) 789-0123',
-      website: 'www.athletenutrition.com',
-      address: '101 Fitness Blvd, Collegetown, USA',
-      history: 'Nutrition supplement company founded by former collegiate athletes'
-    },
-    details: {
-      compensation: '$1,200',
-      type: 'Social Media Campaign',
-      submittedDate: '2025-03-15',
-      approvedDate: '2025-03-17',
-      deliverables: [
-        'Weekly social media posts featuring products',
-        'Brand ambassador at local fitness expos',
-        'Product reviews and testimonials',
-        'Behind-the-scenes training content'
-      ],
-      duration: '6 months with option to renew',
-      additionalNotes: 'Monthly supply of company products included'
-    },
-    status: 'approved',
-    messages: []
-  },
-  {
-    id: 5,
-    athlete: {
-      name: 'Emma Wilson',
-      sport: 'Swimming',
-      year: 'Junior',
-      email: 'ewilson@university.edu',
-      phone: '(555) 890-1234',
-      socialMedia: {
-        instagram: '@emma_swims',
-        tiktok: '@emmawilson_swim'
-      },
-      stats: 'NCAA qualifier in 100m and 200m freestyle',
-      academicStatus: 'Dean\'s List, 3.8 GPA'
-    },
-    business: {
-      name: 'AquaTech Gear',
-      type: 'Sporting Goods',
-      contact: 'Robert Chen',
-      email: 'robert@aquatechgear.com',
-      phone: '(555) 901-2345',
-      website: 'www.aquatechgear.com',
-      address: '202 Swim Lane, Collegetown, USA',
-      history: 'Innovative swimming equipment manufacturer with collegiate focus'
-    },
-    details: {
-      compensation: '$650',
-      type: 'Product Testing & Review',
-      submittedDate: '2025-03-10',
-      approvedDate: '2025-03-12',
-      deliverables: [
-        'Product testing and feedback for new swim gear',
-        'Video demonstrations for company website',
-        'Social media features of gear in training environment',
-        'Appearance at local swim clinic sponsored by company'
-      ],
-      duration: '4 months (competitive season)',
-      additionalNotes: 'Custom-branded equipment provided'
-    },
-    status: 'approved',
-    messages: []
-  }
-];
+const CHECK_STATUS_STYLES: Record<string, string> = {
+  pass: 'bg-green-500/10 text-green-400 border-green-500/20',
+  warn: 'bg-amber-500/10 text-amber-400 border-amber-500/20',
+  fail: 'bg-red-500/10 text-red-400 border-red-500/20'
+};
 
 export default function ComplianceDashboard() {
   const { toast } = useToast();
   const [, navigate] = useLocation();
   const [userData, setUserData] = useState<any>(null);
-  const [partnerships, setPartnerships] = useState<{
-    pending: Partnership[];
-    approved: Partnership[];
-  }>({
-    pending: pendingPartnerships as Partnership[],
-    approved: approvedPartnerships as Partnership[]
+  const { user } = useAuth();
+  const [messages, setMessages] = useState<Record<number, Message[]>>({});
+  const [decisionReason, setDecisionReason] = useState('');
+
+  // Open queue and approved history
+  const { data: pendingData } = useQuery<{ requests: ComplianceQueueItem[] }>({
+    queryKey: ['/api/compliance/requests'],
+  });
+  const { data: approvedData } = useQuery<{ requests: ComplianceQueueItem[] }>({
+    queryKey: ['/api/compliance/requests?status=approved'],
+  });
+
+  const partnerships = useMemo(() => {
+    const withMessages = (item: ComplianceQueueItem) => ({
+      ...toPartnership(item),
+      messages: messages[item.id] || []
+    });
+    return {
+      pending: (pendingData?.requests || []).map(withMessages),
+      approved: (approvedData?.requests || []).map(withMessages)
+    };
+  }, [pendingData, approvedData, messages]);
+
+  const refreshQueue = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/compliance/requests'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/compliance/requests?status=approved'] });
+  };
+
+  const claimMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest('POST', `/api/compliance/requests/${id}/claim`);
+      return res.json();
+    },
+    onSuccess: (data) => {
+      refreshQueue();
+      setSelectedPartnership(current => current && current.id === data.request?.id
+        ? { ...current, claimedBy: data.request.compliance_officer_id }
+        : current);
+      toast({ title: "Request Claimed", description: "This partnership is now assigned to you for review" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not claim request", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const decisionMutation = useMutation({
+    mutationFn: async ({ id, decision, reason }: { id: number; decision: ComplianceDecision; reason?: string }) => {
+      const res = await apiRequest('POST', `/api/compliance/requests/${id}/decision`, { decision, reason });
+      return res.json();
+    },
+    onSuccess: (_data, { decision }) => {
+      refreshQueue();
+      setDecisionReason('');
+      setSelectedPartnership(null);
+      toast({
+        title: decision === 'approved'
+          ? "Partnership Approved"
+          : decision === 'rejected'
+            ? "Partnership Rejected"
+            : "Changes Requested",
+        description: "Both parties have been notified of your decision",
+        variant: decision === 'rejected' ? "destructive" : undefined
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not record decision", description: error.message, variant: "destructive" });
+    }
   });
   const [selectedPartnership, setSelectedPartnership] = useState<Partnership | null>(null);
   const [message, setMessage] = useState('');
@@ -341,60 +277,31 @@ export default function ComplianceDashboard() {
     // For a real app, we would fetch partnerships from the API here
   }, [navigate]);
 
-  const handleApprove = (id: number) => {
-    // Move partnership from pending to approved
-    const partnership = partnerships.pending.find(p => p.id === id);
-    
-    if (partnership) {
-      const updatedPending = partnerships.pending.filter(p => p.id !== id);
-      const updatedPartnership = {
-        ...partnership,
-        status: 'approved',
-        details: {
-          ...partnership.details,
-          approvedDate: new Date().toISOString().split('T')[0]
-        }
-      };
-      
-      setPartnerships({
-        pending: updatedPending,
-        approved: [...partnerships.approved, updatedPartnership]
-      });
-      
-      toast({
-        title: "Partnership Approved",
-        description: `You have approved the partnership between ${partnership.athlete.name} and ${partnership.business.name}`,
-      });
-    }
+  const handleClaim = (id: number) => {
+    claimMutation.mutate(id);
   };
 
-  const handleReject = (id: number) => {
-    // Remove partnership from pending list
-    const partnership = partnerships.pending.find(p => p.id === id);
-    
-    if (partnership) {
-      setPartnerships({
-        ...partnerships,
-        pending: partnerships.pending.filter(p => p.id !== id)
-      });
-      
+  const handleDecision = (id: number, decision: ComplianceDecision) => {
+    if (decision !== 'approved' && !decisionReason.trim()) {
       toast({
-        title: "Partnership Rejected",
-        description: `You have rejected the partnership between ${partnership.athlete.name} and ${partnership.business.name}`,
+        title: "Reason required",
+        description: "Explain why you are rejecting or requesting changes",
         variant: "destructive"
       });
+      return;
     }
+
+    decisionMutation.mutate({ id, decision, reason: decisionReason.trim() || undefined });
   };
 
   const handleViewDetails = (partnership: Partnership) => {
     setSelectedPartnership(partnership);
+    setDecisionReason('');
   };
 
   const handleSendMessage = () => {
     if (!message.trim() || !selectedPartnership) return;
 
-    // Find the partnership in either pending or approved list
-    const isInPending = partnerships.pending.some(p => p.id === selectedPartnership.id);
     const updatedMessage = {
       id: Date.now(),
       text: message,
@@ -402,38 +309,11 @@ export default function ComplianceDashboard() {
       timestamp: new Date().toISOString()
     };
 
-    if (isInPending) {
-      const updatedPending = partnerships.pending.map(p => {
-        if (p.id === selectedPartnership.id) {
-          return {
-            ...p,
-            messages: [...p.messages, updatedMessage]
-          };
-        }
-        return p;
-      });
-      
-      setPartnerships({
-        ...partnerships,
-        pending: updatedPending
-      });
-    } else {
-      const updatedApproved = partnerships.approved.map(p => {
-        if (p.id === selectedPartnership.id) {
-          return {
-            ...p,
-            messages: [...p.messages, updatedMessage]
-          };
-        }
-        return p;
-      });
-      
-      setPartnerships({
-        ...partnerships,
-        approved: updatedApproved
-      });
-    }
-    
+    setMessages(current => ({
+      ...current,
+      [selectedPartnership.id]: [...(current[selectedPartnership.id] || []), updatedMessage]
+    }));
+
     // Update selected partnership with new message
     setSelectedPartnership({
       ...selectedPartnership,
@@ -565,7 +445,7 @@ export default function ComplianceDashboard() {
                           <TableCell>
                             <div>
                               <div className="font-medium">{partnership.athlete.name}</div>
-                              <div className="text-sm text-gray-600">{partnership.athlete.sport}, {partnership.athlete.year}</div>
+                              <div className="text-sm text-gray-600">{[partnership.athlete.sport, partnership.athlete.year].filter(Boolean).join(', ')}</div>
                             </div>
                           </TableCell>
                           <TableCell>
@@ -584,7 +464,10 @@ export default function ComplianceDashboard() {
                           </TableCell>
                           <TableCell>
                             <div className="flex space-x-2">
-                              <Dialog>
+                              <Dialog
+                                open={selectedPartnership?.id === partnership.id}
+                                onOpenChange={(open) => !open && setSelectedPartnership(null)}
+                              >
                                 <DialogTrigger asChild>
                                   <Button 
                                     size="sm" 
@@ -605,7 +488,52 @@ export default function ComplianceDashboard() {
                                   </DialogHeader>
                                   
                                   <div className="grid gap-6 py-4">
-                                    <Accordion type="single" collapsible className="w-full">
+                                    <Accordion type="single" collapsible defaultValue="rule-check" className="w-full">
+                                      <AccordionItem value="rule-check" className="border-[#333]">
+                                        <AccordionTrigger className="text-white hover:text-white hover:bg-[rgba(240,60,60,0.1)] px-4 py-2 rounded-md">
+                                          <div className="flex items-center">
+                                            <div className="mr-2 h-5 w-5 rounded-full bg-[rgba(240,60,60,0.15)] flex items-center justify-center">
+                                              <Shield className="h-3 w-3 text-[#f03c3c]" />
+                                            </div>
+                                            <span>Rule Check Report</span>
+                                            {partnership.ruleReport && (
+                                              <Badge className={`ml-2 ${CHECK_STATUS_STYLES[partnership.ruleReport.overall]}`}>
+                                                {partnership.ruleReport.overall.toUpperCase()}
+                                              </Badge>
+                                            )}
+                                          </div>
+                                        </AccordionTrigger>
+                                        <AccordionContent className="px-4 pt-2 pb-4 bg-[#222] rounded-md mb-2">
+                                          {partnership.ruleReport ? (
+                                            <div className="space-y-3">
+                                              <p className="text-sm text-gray-400">
+                                                {partnership.ruleReport.rule_set.name} (v{partnership.ruleReport.rule_set.version})
+                                                {partnership.ruleReport.rule_set.state ? ` - ${partnership.ruleReport.rule_set.state}` : ''}
+                                              </p>
+                                              {partnership.ruleReport.checks.map((check) => (
+                                                <div key={check.rule} className="flex items-start justify-between gap-4">
+                                                  <div>
+                                                    <p className="font-medium">{check.label}</p>
+                                                    <p className="text-sm text-gray-400">{check.message}</p>
+                                                  </div>
+                                                  <Badge className={CHECK_STATUS_STYLES[check.status]}>
+                                                    {check.status.toUpperCase()}
+                                                  </Badge>
+                                                </div>
+                                              ))}
+                                            </div>
+                                          ) : (
+                                            <p className="text-gray-400">No rule check has been run for this partnership</p>
+                                          )}
+                                          {partnership.decisionNotes && (
+                                            <div className="mt-3">
+                                              <p className="text-sm font-medium text-gray-600">Decision Notes:</p>
+                                              <p>{partnership.decisionNotes}</p>
+                                            </div>
+                                          )}
+                                        </AccordionContent>
+                                      </AccordionItem>
+
                                       <AccordionItem value="athlete" className="border-[#333]">
                                         <AccordionTrigger className="text-white hover:text-white hover:bg-[rgba(240,60,60,0.1)] px-4 py-2 rounded-md">
                                           <div className="flex items-center">
@@ -626,7 +554,7 @@ export default function ComplianceDashboard() {
                                               <p>{partnership.athlete.sport}</p>
                                             </div>
                                             <div>
-                                              <p className="text-sm font-medium text-gray-600">Year:</p>
+                                              <p className="text-sm font-medium text-gray-600">School:</p>
                                               <p>{partnership.athlete.year}</p>
                                             </div>
                                             <div>
@@ -803,24 +731,56 @@ export default function ComplianceDashboard() {
                                     </Accordion>
                                   </div>
 
+                                  {partnership.claimedBy === user?.id && (
+                                    <Textarea
+                                      placeholder="Reason for your decision (required to reject or request changes)"
+                                      className="bg-[#222] border-[#333] resize-none min-h-[80px]"
+                                      value={decisionReason}
+                                      onChange={(e) => setDecisionReason(e.target.value)}
+                                    />
+                                  )}
+
                                   <DialogFooter className="flex justify-between">
-                                    <div className="flex items-center">
+                                    {partnership.claimedBy === user?.id ? (
+                                      <div className="flex items-center">
+                                        <Button
+                                          variant="destructive"
+                                          onClick={() => handleDecision(partnership.id, 'rejected')}
+                                          disabled={decisionMutation.isPending}
+                                          className="mr-2"
+                                        >
+                                          <X className="h-4 w-4 mr-2" />
+                                          Reject
+                                        </Button>
+                                        <Button
+                                          variant="outline"
+                                          onClick={() => handleDecision(partnership.id, 'needs_revision')}
+                                          disabled={decisionMutation.isPending}
+                                          className="mr-2 bg-transparent border-amber-500/40 text-amber-400 hover:bg-amber-500/10 hover:text-amber-300"
+                                        >
+                                          <MessageSquare className="h-4 w-4 mr-2" />
+                                          Request Changes
+                                        </Button>
+                                        <Button
+                                          className="bg-gradient-to-r from-green-600 to-green-500 hover:from-green-700 hover:to-green-600"
+                                          onClick={() => handleDecision(partnership.id, 'approved')}
+                                          disabled={decisionMutation.isPending}
+                                        >
+                                          <Check className="h-4 w-4 mr-2" />
+                                          Approve
+                                        </Button>
+                                      </div>
+                                    ) : partnership.claimedBy ? (
+                                      <p className="text-sm text-gray-400">Claimed by another officer</p>
+                                    ) : (
                                       <Button
-                                        variant="destructive"
-                                        onClick={() => handleReject(partnership.id)}
-                                        className="mr-2"
+                                        onClick={() => handleClaim(partnership.id)}
+                                        disabled={claimMutation.isPending}
+                                        className="bg-gradient-to-r from-[#f03c3c] to-[#ff5c5c] hover:from-[#d42e2e] hover:to-[#e34c4c]"
                                       >
-                                        <X className="h-4 w-4 mr-2" />
-                                        Reject
+                                        Claim for Review
                                       </Button>
-                                      <Button
-                                        className="bg-gradient-to-r from-green-600 to-green-500 hover:from-green-700 hover:to-green-600"
-                                        onClick={() => handleApprove(partnership.id)}
-                                      >
-                                        <Check className="h-4 w-4 mr-2" />
-                                        Approve
-                                      </Button>
-                                    </div>
+                                    )}
                                     <DialogClose asChild>
                                       <Button variant="outline" className="bg-transparent border-[#333] text-white hover:bg-[#222] hover:text-white">
                                         Close
@@ -829,20 +789,20 @@ export default function ComplianceDashboard() {
                                   </DialogFooter>
                                 </DialogContent>
                               </Dialog>
-                              <Button 
-                                size="sm" 
-                                onClick={() => handleApprove(partnership.id)}
-                                className="bg-[rgba(0,180,0,0.2)] text-green-400 hover:bg-[rgba(0,180,0,0.3)]"
-                              >
-                                <Check className="h-4 w-4" />
-                              </Button>
-                              <Button 
-                                size="sm" 
-                                onClick={() => handleReject(partnership.id)}
-                                className="bg-[rgba(240,60,60,0.2)] text-[#f03c3c] hover:bg-[rgba(240,60,60,0.3)]"
-                              >
-                                <X className="h-4 w-4" />
-                              </Button>
+                              {partnership.claimedBy ? (
+                                <Badge className="bg-[rgba(240,60,60,0.2)] text-[#f03c3c] border-none self-center">
+                                  {partnership.claimedBy === user?.id ? 'Claimed by you' : 'Claimed'}
+                                </Badge>
+                              ) : (
+                                <Button 
+                                  size="sm" 
+                                  onClick={() => handleClaim(partnership.id)}
+                                  disabled={claimMutation.isPending}
+                                  className="bg-[rgba(0,180,0,0.2)] text-green-400 hover:bg-[rgba(0,180,0,0.3)]"
+                                >
+                                  Claim
+                                </Button>
+                              )}
                             </div>
                           </TableCell>
                         </TableRow>
@@ -888,7 +848,7 @@ export default function ComplianceDashboard() {
                           <TableCell>
                             <div>
                               <div className="font-medium">{partnership.athlete.name}</div>
-                              <div className="text-sm text-gray-600">{partnership.athlete.sport}, {partnership.athlete.year}</div>
+                              <div className="text-sm text-gray-600">{[partnership.athlete.sport, partnership.athlete.year].filter(Boolean).join(', ')}</div>
                             </div>
                           </TableCell>
                           <TableCell>
@@ -933,6 +893,51 @@ export default function ComplianceDashboard() {
                                 
                                 <div className="grid gap-6 py-4">
                                   <Accordion type="single" collapsible className="w-full">
+                                    <AccordionItem value="rule-check" className="border-[#333]">
+                                      <AccordionTrigger className="text-white hover:text-white hover:bg-[rgba(240,60,60,0.1)] px-4 py-2 rounded-md">
+                                        <div className="flex items-center">
+                                          <div className="mr-2 h-5 w-5 rounded-full bg-[rgba(240,60,60,0.15)] flex items-center justify-center">
+                                            <Shield className="h-3 w-3 text-[#f03c3c]" />
+                                          </div>
+                                          <span>Rule Check Report</span>
+                                          {partnership.ruleReport && (
+                                            <Badge className={`ml-2 ${CHECK_STATUS_STYLES[partnership.ruleReport.overall]}`}>
+                                              {partnership.ruleReport.overall.toUpperCase()}
+                                            </Badge>
+                                          )}
+                                        </div>
+                                      </AccordionTrigger>
+                                      <AccordionContent className="px-4 pt-2 pb-4 bg-[#222] rounded-md mb-2">
+                                        {partnership.ruleReport ? (
+                                          <div className="space-y-3">
+                                            <p className="text-sm text-gray-400">
+                                              {partnership.ruleReport.rule_set.name} (v{partnership.ruleReport.rule_set.version})
+                                              {partnership.ruleReport.rule_set.state ? ` - ${partnership.ruleReport.rule_set.state}` : ''}
+                                            </p>
+                                            {partnership.ruleReport.checks.map((check) => (
+                                              <div key={check.rule} className="flex items-start justify-between gap-4">
+                                                <div>
+                                                  <p className="font-medium">{check.label}</p>
+                                                  <p className="text-sm text-gray-400">{check.message}</p>
+                                                </div>
+                                                <Badge className={CHECK_STATUS_STYLES[check.status]}>
+                                                  {check.status.toUpperCase()}
+                                                </Badge>
+                                              </div>
+                                            ))}
+                                          </div>
+                                        ) : (
+                                          <p className="text-gray-400">No rule check has been run for this partnership</p>
+                                        )}
+                                        {partnership.decisionNotes && (
+                                          <div className="mt-3">
+                                            <p className="text-sm font-medium text-gray-600">Decision Notes:</p>
+                                            <p>{partnership.decisionNotes}</p>
+                                          </div>
+                                        )}
+                                      </AccordionContent>
+                                    </AccordionItem>
+
                                     <AccordionItem value="athlete" className="border-[#333]">
                                       <AccordionTrigger className="text-white hover:text-white hover:bg-[rgba(240,60,60,0.1)] px-4 py-2 rounded-md">
                                         <div className="flex items-center">
@@ -953,7 +958,7 @@ export default function ComplianceDashboard() {
                                             <p>{partnership.athlete.sport}</p>
                                           </div>
                                           <div>
-                                            <p className="text-sm font-medium text-gray-600">Year:</p>
+                                            <p className="text-sm font-medium text-gray-600">School:</p>
                                             <p>{partnership.athlete.year}</p>
                                           </div>
                                           <div>
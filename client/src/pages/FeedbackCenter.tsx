@@ -0,0 +1,239 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Loader2, MessageSquare, Quote, Star } from "lucide-react";
+import type { Feedback, FeedbackType, PublicTestimonial } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+const TYPE_OPTIONS: { value: FeedbackType; label: string }[] = [
+  { value: "general", label: "General feedback" },
+  { value: "feature", label: "Feature idea" },
+  { value: "bug", label: "Something isn't working" },
+  { value: "testimonial", label: "Share your experience" },
+];
+
+const STATUS_LABELS: Record<string, string> = {
+  pending: "Received",
+  in_review: "In review",
+  resolved: "Resolved",
+  dismissed: "Closed",
+};
+
+function Stars({ rating }: { rating: number }) {
+  return (
+    <div className="flex gap-0.5 text-amber-500">
+      {[1, 2, 3, 4, 5].map((value) => (
+        <Star key={value} className={`h-4 w-4 ${value <= rating ? "fill-current" : ""}`} />
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Feedback Center: testimonials from athletes and businesses, a form for
+ * signed-in users to send feedback, and the replies to what they've sent
+ */
+export default function FeedbackCenter() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [feedbackType, setFeedbackType] = useState<FeedbackType>("general");
+  const [title, setTitle] = useState("");
+  const [content, setContent] = useState("");
+  const [rating, setRating] = useState(0);
+  const [allowPublic, setAllowPublic] = useState(false);
+
+  const { data: testimonials = [], isLoading: isLoadingTestimonials } = useQuery<PublicTestimonial[]>({
+    queryKey: ["/api/feedback/public"],
+  });
+
+  const { data: mine } = useQuery<{ feedback: Feedback[] }>({
+    queryKey: ["/api/feedback/mine"],
+    enabled: !!user,
+  });
+
+  const submitMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/feedback", {
+        feedbackType,
+        title: title.trim() || undefined,
+        content,
+        rating: rating || undefined,
+        allowPublic,
+      });
+      return res.json();
+    },
+    onSuccess: (data) => {
+      toast({ title: data.message || "Thanks for your feedback" });
+      setTitle("");
+      setContent("");
+      setRating(0);
+      setAllowPublic(false);
+      queryClient.invalidateQueries({ queryKey: ["/api/feedback/mine"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't send feedback", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="container mx-auto py-12 space-y-12">
+      <div className="text-center max-w-2xl mx-auto">
+        <h1 className="text-4xl font-bold mb-4">Feedback Center</h1>
+        <p className="text-gray-400">
+          Tell us what's working and what isn't. Every message is read by our team, and you'll be notified when we reply.
+        </p>
+      </div>
+
+      <section>
+        <h2 className="text-2xl font-semibold mb-6">What our community says</h2>
+        {isLoadingTestimonials ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : testimonials.length === 0 ? (
+          <p className="text-gray-400">No testimonials yet.</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {testimonials.map((testimonial) => (
+              <Card key={testimonial.id}>
+                <CardContent className="pt-6 space-y-3">
+                  <Quote className="h-6 w-6 text-primary" />
+                  {testimonial.title && <p className="font-semibold">{testimonial.title}</p>}
+                  <p className="text-sm whitespace-pre-wrap">{testimonial.content}</p>
+                  <div className="flex items-center justify-between">
+                    <span className="text-xs text-gray-500 capitalize">
+                      {testimonial.userType === "business" ? "Business partner" : testimonial.userType}
+                    </span>
+                    {testimonial.rating ? <Stars rating={testimonial.rating} /> : null}
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </section>
+
+      <section className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <MessageSquare className="h-5 w-5" />
+              Send feedback
+            </CardTitle>
+            <CardDescription>Ideas, problems or a story about a partnership</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {!user ? (
+              <div className="space-y-3">
+                <p className="text-sm text-gray-500">Sign in to send feedback.</p>
+                <Button asChild>
+                  <Link href="/auth">Sign in</Link>
+                </Button>
+              </div>
+            ) : (
+              <form
+                className="space-y-4"
+                onSubmit={(event) => {
+                  event.preventDefault();
+                  submitMutation.mutate();
+                }}
+              >
+                <div className="space-y-2">
+                  <Label>Type</Label>
+                  <Select value={feedbackType} onValueChange={(value) => setFeedbackType(value as FeedbackType)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {TYPE_OPTIONS.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="feedback-title">Title (optional)</Label>
+                  <Input id="feedback-title" value={title} maxLength={120} onChange={(event) => setTitle(event.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="feedback-content">Your feedback</Label>
+                  <Textarea
+                    id="feedback-content"
+                    rows={5}
+                    value={content}
+                    maxLength={5000}
+                    onChange={(event) => setContent(event.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Rating (optional)</Label>
+                  <div className="flex gap-1">
+                    {[1, 2, 3, 4, 5].map((value) => (
+                      <button
+                        key={value}
+                        type="button"
+                        aria-label={`${value} star${value > 1 ? "s" : ""}`}
+                        onClick={() => setRating(value === rating ? 0 : value)}
+                      >
+                        <Star className={`h-5 w-5 text-amber-500 ${value <= rating ? "fill-current" : ""}`} />
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <label className="flex items-start gap-2 text-sm">
+                  <Checkbox checked={allowPublic} onCheckedChange={(checked) => setAllowPublic(checked === true)} />
+                  <span>You may publish this as a testimonial (shown without my name)</span>
+                </label>
+                <Button type="submit" disabled={content.trim().length < 10 || submitMutation.isPending}>
+                  {submitMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Send feedback
+                </Button>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+
+        {user && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Your feedback</CardTitle>
+              <CardDescription>What you've sent and our replies</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {!mine?.feedback.length ? (
+                <p className="text-sm text-gray-500">You haven't sent any feedback yet.</p>
+              ) : (
+                <div className="divide-y">
+                  {mine.feedback.map((item) => (
+                    <div key={item.id} className="py-3 space-y-1">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-sm font-medium">{item.title || item.content.slice(0, 60)}</span>
+                        <Badge variant="outline">{STATUS_LABELS[item.status] || item.status}</Badge>
+                      </div>
+                      <p className="text-xs text-gray-500">
+                        {item.created_at ? new Date(item.created_at).toLocaleDateString() : ""}
+                      </p>
+                      {item.adminResponse && (
+                        <p className="text-sm border-l-2 border-primary pl-2">{item.adminResponse}</p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </section>
+    </div>
+  );
+}
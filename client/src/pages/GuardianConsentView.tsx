@@ -0,0 +1,131 @@
+import { useParams } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Loader2, ShieldCheck, ShieldX } from "lucide-react";
+import type { GuardianConsentDecision, GuardianView } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+/**
+ * Public page a parent or guardian reaches from their emailed consent link
+ */
+export default function GuardianConsentView() {
+  const { token } = useParams();
+  const { toast } = useToast();
+  const viewKey = `/api/guardian/view/${token}`;
+
+  const { data: view, isLoading, error } = useQuery<GuardianView>({ queryKey: [viewKey] });
+
+  const respondMutation = useMutation({
+    mutationFn: async (decision: GuardianConsentDecision["decision"]) => {
+      const res = await apiRequest("POST", `${viewKey}/respond`, { decision });
+      return res.json();
+    },
+    onSuccess: (result: { message: string }) => {
+      toast({ title: "Decision saved", description: result.message });
+      queryClient.invalidateQueries({ queryKey: [viewKey] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't save your decision", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const status = view?.consent.status;
+
+  return (
+    <div className="container mx-auto max-w-2xl py-10 px-4 space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="font-heading">Parent/guardian approval</CardTitle>
+          <CardDescription>
+            A student-athlete under 18 has named you as their parent or guardian on Contested.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-10">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : error || !view ? (
+            <div className="py-6 text-center text-sm text-gray-600">
+              This link is invalid or has expired. Ask the athlete to send you a new one.
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div>
+                <div className="font-medium">{view.athlete.name}</div>
+                <div className="text-sm text-gray-600">
+                  {[view.athlete.sport, view.athlete.school].filter(Boolean).join(" · ")}
+                </div>
+              </div>
+
+              {status === "approved" ? (
+                <div className="flex items-start gap-2 rounded-md bg-green-50 p-3 text-sm text-green-800">
+                  <ShieldCheck className="h-5 w-5 min-w-5" />
+                  <span>You approved this account. You can withdraw your approval at any time.</span>
+                </div>
+              ) : status === "declined" || status === "revoked" ? (
+                <div className="flex items-start gap-2 rounded-md bg-red-50 p-3 text-sm text-red-800">
+                  <ShieldX className="h-5 w-5 min-w-5" />
+                  <span>You declined. The athlete can't accept offers or message businesses.</span>
+                </div>
+              ) : (
+                <p className="text-sm text-gray-600">
+                  Until you approve, {view.athlete.name} can't accept partnership offers or message businesses.
+                </p>
+              )}
+
+              <div className="flex gap-2">
+                {status !== "approved" && (
+                  <Button onClick={() => respondMutation.mutate("approve")} disabled={respondMutation.isPending}>
+                    Approve
+                  </Button>
+                )}
+                {status !== "declined" && status !== "revoked" && (
+                  <Button variant="outline" onClick={() => respondMutation.mutate("decline")} disabled={respondMutation.isPending}>
+                    {status === "approved" ? "Withdraw approval" : "Decline"}
+                  </Button>
+                )}
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {view && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="font-heading">Offers</CardTitle>
+            <CardDescription>Partnership offers {view.athlete.name} has received (read-only)</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {view.offers.length === 0 ? (
+              <div className="text-sm text-gray-600">No offers yet.</div>
+            ) : (
+              <div className="space-y-3">
+                {view.offers.map((offer) => (
+                  <div key={offer.id} className="rounded-md bg-gray-50 p-3">
+                    <div className="flex items-center justify-between">
+                      <div className="font-medium">{offer.brand || "Business"}</div>
+                      <Badge variant="outline" className="capitalize">{offer.status}</Badge>
+                    </div>
+                    <div className="text-sm text-gray-600">
+                      {[
+                        offer.campaign,
+                        offer.offer_amount ? `$${Number(offer.offer_amount).toLocaleString()}` : null,
+                        offer.term,
+                      ].filter(Boolean).join(" · ")}
+                    </div>
+                    <div className="text-xs text-gray-500">Received {new Date(offer.created_at).toLocaleDateString()}</div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+import { useParams } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { ExternalLink, Loader2, ShieldCheck } from "lucide-react";
+import type { ContractSignInput, ContractSigningStatus } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import ContractSignatureForm, { SignerList } from "@/components/ContractSignatureForm";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+/**
+ * Public page a parent or guardian reaches from their emailed signing link
+ */
+export default function GuardianSignContract() {
+  const { token } = useParams();
+  const { toast } = useToast();
+  const statusKey = `/api/contracts/guardian/${token}`;
+
+  const { data: status, isLoading, error } = useQuery<ContractSigningStatus>({ queryKey: [statusKey] });
+
+  const signMutation = useMutation({
+    mutationFn: async (input: ContractSignInput) => {
+      const res = await apiRequest("POST", `${statusKey}/sign`, input);
+      return res.json();
+    },
+    onSuccess: (result: ContractSigningStatus) => {
+      toast({ title: "Thank you for signing", description: "The athlete and business have been notified." });
+      // The link stops working once used, so keep the result instead of refetching
+      queryClient.setQueryData([statusKey], result);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Signature failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const guardian = status?.signers.find((signer) => signer.signer_role === "guardian");
+
+  return (
+    <div className="container mx-auto max-w-2xl py-10 px-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="font-heading">Co-sign a partnership contract</CardTitle>
+          <CardDescription>
+            A student-athlete under 18 has named you as their parent or guardian. Please read the contract before signing.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-10">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : error || !status ? (
+            <div className="py-6 text-center text-sm text-gray-600">
+              This signing link is invalid or has expired. Ask the athlete to send you a new one.
+            </div>
+          ) : (
+            <div className="space-y-6">
+              <Button variant="outline" asChild>
+                <a href={`${statusKey}/download?inline=true`} target="_blank" rel="noreferrer">
+                  <ExternalLink className="h-4 w-4 mr-2" />
+                  Read the contract (PDF)
+                </a>
+              </Button>
+
+              <SignerList signers={status.signers} />
+
+              {guardian?.status === "signed" ? (
+                <div className="flex items-start gap-2 rounded-md bg-green-50 p-3 text-sm text-green-800">
+                  <ShieldCheck className="h-5 w-5 min-w-5" />
+                  <span>
+                    You signed this contract{guardian.signed_at ? ` on ${new Date(guardian.signed_at).toLocaleString()}` : ""}.
+                    {status.contract.status === "signed" ? " All signatures are in and the partnership is active." : ""}
+                  </span>
+                </div>
+              ) : status.next_signer === "guardian" ? (
+                <ContractSignatureForm
+                  defaultName={guardian?.signer_name || ""}
+                  isPending={signMutation.isPending}
+                  onSubmit={(input) => signMutation.mutate(input)}
+                />
+              ) : (
+                <div className="text-sm text-gray-600">
+                  The other parties haven't finished signing yet. We'll email you again when it's your turn.
+                </div>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
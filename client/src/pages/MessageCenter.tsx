@@ -1,68 +1,257 @@
-
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { Send } from "lucide-react";
-import { useWebSocket } from "@/hooks/use-websocket";
+import { Send, Paperclip, X, CheckCheck, Check, FileText } from "lucide-react";
+import type { MessageAttachment, ThreadMessage } from "@shared/schema";
+import { useWebSocketContext } from "@/contexts/WebSocketProvider";
 import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 
-type Message = {
+type Thread = {
   id: string;
-  content: string;
-  sender: string;
-  timestamp: Date;
+  athlete_id: string;
+  business_id: string;
+  subject?: string | null;
+  last_message_at?: string | null;
+  last_message?: ThreadMessage | null;
+  unread_count?: number;
+  athlete_profile?: { name?: string; sport?: string; school?: string } | null;
+  business_profile?: { name?: string; company?: string } | null;
+};
+
+type MessagePage = {
+  messages: ThreadMessage[];
+  hasMore: boolean;
 };
 
-export default function MessageCenter() {
+// Stop showing a typing indicator if the other party goes quiet
+const TYPING_TIMEOUT_MS = 5000;
+// Minimum gap between outgoing typing events
+const TYPING_THROTTLE_MS = 3000;
+
+const THREADS_KEY = ["/api/messages/threads"];
+const messagesKey = (threadId: string) => [`/api/messages/threads/${threadId}/messages`];
+
+async function getAuthHeader(): Promise<string> {
+  try {
+    const { supabase } = await import("@/lib/supabase-client");
+    const { data: sessionData } = await supabase.auth.getSession();
+    if (sessionData?.session?.access_token) {
+      return `Bearer ${sessionData.session.access_token}`;
+    }
+  } catch (error) {
+    console.error("Error getting auth session:", error);
+  }
+  return "";
+}
+
+function counterpartName(thread: Thread, userId?: string) {
+  if (thread.athlete_id === userId) {
+    return thread.business_profile?.company || thread.business_profile?.name || "Business";
+  }
+  return thread.athlete_profile?.name || "Athlete";
+}
+
+function formatTime(value?: string | null) {
+  if (!value) return "";
+  return new Date(value).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" });
+}
+
+interface MessageCenterProps {
+  initialThreadId?: string | null;
+}
+
+export default function MessageCenter({ initialThreadId = null }: MessageCenterProps) {
   const [message, setMessage] = useState("");
-  const [messages, setMessages] = useState<Message[]>([]);
-  const [selectedChat, setSelectedChat] = useState<number | null>(null);
+  const [files, setFiles] = useState<File[]>([]);
+  const [selectedThreadId, setSelectedThreadId] = useState<string | null>(initialThreadId);
+  const [typingThreads, setTypingThreads] = useState<Record<string, boolean>>({});
   const { user } = useAuth();
-  const { sendMessage, lastMessage } = useWebSocket();
+  const { toast } = useToast();
+  const { sendMessage, lastMessage } = useWebSocketContext();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const lastTypingSentRef = useRef(0);
+  const typingTimersRef = useRef<Record<string, number>>({});
+
+  useEffect(() => {
+    if (initialThreadId) setSelectedThreadId(initialThreadId);
+  }, [initialThreadId]);
+
+  const { data: threadsData } = useQuery<{ threads: Thread[] }>({
+    queryKey: THREADS_KEY,
+    enabled: !!user,
+  });
+  const threads = threadsData?.threads || [];
+  const selectedThread = threads.find((thread) => thread.id === selectedThreadId) || null;
+
+  const { data: messagePage } = useQuery<MessagePage>({
+    queryKey: selectedThreadId ? messagesKey(selectedThreadId) : ["/api/messages/threads/none"],
+    enabled: !!selectedThreadId,
+  });
+  const messages = messagePage?.messages || [];
+
+  const markReadMutation = useMutation({
+    mutationFn: async (threadId: string) => {
+      const res = await apiRequest("POST", `/api/messages/threads/${threadId}/read`, {});
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: THREADS_KEY });
+      queryClient.invalidateQueries({ queryKey: ["/api/messages/unread-count"] });
+    },
+  });
+
+  // Multipart upload, so this can't go through apiRequest
+  const sendMutation = useMutation({
+    mutationFn: async ({ threadId, content, attachments }: { threadId: string; content: string; attachments: File[] }) => {
+      const formData = new FormData();
+      formData.append("content", content);
+      attachments.forEach((file) => formData.append("attachments", file));
+
+      const authHeader = await getAuthHeader();
+      const response = await fetch(`/api/messages/threads/${threadId}/messages`, {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+        headers: authHeader ? { Authorization: authHeader } : undefined,
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "Failed to send message");
+      }
+
+      return (await response.json()).message as ThreadMessage;
+    },
+    onSuccess: (sent) => {
+      appendMessage(sent.thread_id, sent);
+      setMessage("");
+      setFiles([]);
+      queryClient.invalidateQueries({ queryKey: THREADS_KEY });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Message not sent",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const loadEarlier = async () => {
+    if (!selectedThreadId || messages.length === 0) return;
+    const res = await apiRequest(
+      "GET",
+      `/api/messages/threads/${selectedThreadId}/messages?before=${encodeURIComponent(messages[0].created_at || "")}`
+    );
+    const older: MessagePage = await res.json();
+    queryClient.setQueryData<MessagePage>(messagesKey(selectedThreadId), (current) => ({
+      messages: [...older.messages, ...(current?.messages || [])],
+      hasMore: older.hasMore,
+    }));
+  };
+
+  function appendMessage(threadId: string, incoming: ThreadMessage) {
+    queryClient.setQueryData<MessagePage>(messagesKey(threadId), (current) => {
+      if (!current) return current;
+      if (current.messages.some((existing) => existing.id === incoming.id)) return current;
+      return { ...current, messages: [...current.messages, incoming] };
+    });
+  }
+
+  // Mark the open thread read whenever it has unread messages
+  useEffect(() => {
+    if (selectedThread && (selectedThread.unread_count || 0) > 0 && !markReadMutation.isPending) {
+      markReadMutation.mutate(selectedThread.id);
+    }
+  }, [selectedThread?.id, selectedThread?.unread_count]);
 
+  // Live thread events arrive on the user's channel
   useEffect(() => {
-    if (lastMessage) {
-      try {
-        const data = JSON.parse(lastMessage);
-        if (data.type === 'message') {
-          setMessages(prev => [...prev, {
-            id: Date.now().toString(),
-            content: data.content,
-            sender: data.sender,
-            timestamp: new Date()
-          }]);
+    if (!lastMessage) return;
+
+    switch (lastMessage.type) {
+      case "thread_message": {
+        const incoming = lastMessage.message as ThreadMessage;
+        appendMessage(lastMessage.threadId, incoming);
+        setTypingThreads((prev) => ({ ...prev, [lastMessage.threadId]: false }));
+        if (lastMessage.threadId === selectedThreadId && incoming.sender_id !== user?.id) {
+          markReadMutation.mutate(lastMessage.threadId);
+        } else {
+          queryClient.invalidateQueries({ queryKey: THREADS_KEY });
+        }
+        break;
+      }
+      case "messages_read": {
+        const readIds = new Set<string>(lastMessage.messageIds || []);
+        queryClient.setQueryData<MessagePage>(messagesKey(lastMessage.threadId), (current) =>
+          current && {
+            ...current,
+            messages: current.messages.map((existing) =>
+              readIds.has(existing.id) ? { ...existing, read_at: lastMessage.readAt } : existing
+            ),
+          }
+        );
+        break;
+      }
+      case "typing": {
+        const threadId = lastMessage.threadId as string;
+        setTypingThreads((prev) => ({ ...prev, [threadId]: !!lastMessage.isTyping }));
+        window.clearTimeout(typingTimersRef.current[threadId]);
+        if (lastMessage.isTyping) {
+          typingTimersRef.current[threadId] = window.setTimeout(() => {
+            setTypingThreads((prev) => ({ ...prev, [threadId]: false }));
+          }, TYPING_TIMEOUT_MS);
         }
-      } catch (e) {
-        console.error('Error parsing message:', e);
+        break;
       }
     }
   }, [lastMessage]);
 
+  useEffect(() => {
+    const timers = typingTimersRef.current;
+    return () => Object.values(timers).forEach((timer) => window.clearTimeout(timer));
+  }, []);
+
+  const handleInputChange = (value: string) => {
+    setMessage(value);
+    if (!selectedThreadId) return;
+
+    const now = Date.now();
+    if (value && now - lastTypingSentRef.current > TYPING_THROTTLE_MS) {
+      lastTypingSentRef.current = now;
+      sendMessage({ type: "typing", threadId: selectedThreadId, isTyping: true });
+    }
+  };
+
   const handleSendMessage = () => {
-    if (!message.trim() || selectedChat === null) return;
-
-    const recipientId = ['support', 'partnerships'][selectedChat];
-    
-    const newMessage = {
-      id: Date.now().toString(),
-      content: message,
-      sender: user?.username || 'You',
-      recipientId: recipientId,
-      timestamp: new Date()
-    };
-
-    sendMessage({
-      type: 'message',
-      content: message,
-      recipientId: recipientId,
-      sender: user?.username
-    });
+    if (!selectedThreadId || (!message.trim() && files.length === 0)) return;
+
+    lastTypingSentRef.current = 0;
+    sendMessage({ type: "typing", threadId: selectedThreadId, isTyping: false });
+    sendMutation.mutate({ threadId: selectedThreadId, content: message, attachments: files });
+  };
+
+  const openAttachment = async (msg: ThreadMessage, index: number) => {
+    const authHeader = await getAuthHeader();
+    const response = await fetch(
+      `/api/messages/threads/${msg.thread_id}/messages/${msg.id}/attachments/${index}`,
+      { credentials: "include", headers: authHeader ? { Authorization: authHeader } : undefined }
+    );
 
-    setMessages(prev => [...prev, newMessage]);
-    setMessage('');
+    if (!response.ok) {
+      toast({ title: "Attachment unavailable", variant: "destructive" });
+      return;
+    }
+
+    const url = URL.createObjectURL(await response.blob());
+    window.open(url, "_blank");
   };
 
   return (
@@ -75,23 +264,40 @@ export default function MessageCenter() {
           <CardContent>
             <ScrollArea className="h-[calc(100vh-12rem)]">
               <div className="space-y-4">
-                {['Support', 'Partnerships'].map((chat, i) => (
-                  <div 
-                    key={i} 
-                    className={`flex items-center gap-3 p-3 rounded-lg hover:bg-muted cursor-pointer ${
-                      selectedChat === i ? 'bg-muted' : ''
-                    }`}
-                    onClick={() => setSelectedChat(i)}
-                  >
-                    <Avatar>
-                      <AvatarFallback>{chat[0]}</AvatarFallback>
-                    </Avatar>
-                    <div>
-                      <div className="font-medium">{chat}</div>
-                      <div className="text-sm text-muted-foreground">Click to start chat</div>
-                    </div>
+                {threads.length === 0 && (
+                  <div className="text-sm text-muted-foreground p-3">
+                    No conversations yet. Start one from a match or an offer.
                   </div>
-                ))}
+                )}
+                {threads.map((thread) => {
+                  const name = counterpartName(thread, user?.id);
+                  return (
+                    <div
+                      key={thread.id}
+                      className={`flex items-center gap-3 p-3 rounded-lg hover:bg-muted cursor-pointer ${
+                        selectedThreadId === thread.id ? 'bg-muted' : ''
+                      }`}
+                      onClick={() => setSelectedThreadId(thread.id)}
+                    >
+                      <Avatar>
+                        <AvatarFallback>{name[0]}</AvatarFallback>
+                      </Avatar>
+                      <div className="flex-1 min-w-0">
+                        <div className="font-medium truncate">{name}</div>
+                        <div className="text-sm text-muted-foreground truncate">
+                          {typingThreads[thread.id]
+                            ? "Typing..."
+                            : thread.last_message
+                              ? thread.last_message.content || "Attachment"
+                              : thread.subject || "No messages yet"}
+                        </div>
+                      </div>
+                      {(thread.unread_count || 0) > 0 && (
+                        <Badge>{thread.unread_count}</Badge>
+                      )}
+                    </div>
+                  );
+                })}
               </div>
             </ScrollArea>
           </CardContent>
@@ -100,36 +306,100 @@ export default function MessageCenter() {
         <Card className="md:col-span-2">
           <CardHeader>
             <CardTitle>
-              {selectedChat !== null ? ['Support', 'Partnerships'][selectedChat] : 'Select a chat'}
+              {selectedThread ? counterpartName(selectedThread, user?.id) : 'Select a chat'}
             </CardTitle>
+            {selectedThread?.subject && (
+              <div className="text-sm text-muted-foreground">{selectedThread.subject}</div>
+            )}
           </CardHeader>
           <CardContent>
             <ScrollArea className="h-[calc(100vh-16rem)] mb-4">
               <div className="space-y-4">
-                {messages.map((msg) => (
-                  <div key={msg.id} className={`flex ${msg.sender === 'You' ? 'justify-end' : 'justify-start'}`}>
-                    <div className={`max-w-[70%] rounded-lg p-3 ${
-                      msg.sender === 'You' ? 'bg-primary text-primary-foreground' : 'bg-muted'
-                    }`}>
-                      <p className="text-sm font-medium mb-1">{msg.sender}</p>
-                      <p className="text-sm">{msg.content}</p>
-                    </div>
+                {messagePage?.hasMore && (
+                  <div className="flex justify-center">
+                    <Button variant="ghost" size="sm" onClick={loadEarlier}>
+                      Load earlier messages
+                    </Button>
                   </div>
-                ))}
+                )}
+                {messages.map((msg) => {
+                  const mine = msg.sender_id === user?.id;
+                  return (
+                    <div key={msg.id} className={`flex ${mine ? 'justify-end' : 'justify-start'}`}>
+                      <div className={`max-w-[70%] rounded-lg p-3 ${
+                        mine ? 'bg-primary text-primary-foreground' : 'bg-muted'
+                      }`}>
+                        {msg.content && <p className="text-sm whitespace-pre-wrap">{msg.content}</p>}
+                        {(msg.attachments || []).map((attachment: MessageAttachment, index: number) => (
+                          <button
+                            key={attachment.key}
+                            type="button"
+                            className="flex items-center gap-1 text-sm underline mt-1"
+                            onClick={() => openAttachment(msg, index)}
+                          >
+                            <FileText className="h-3 w-3" />
+                            {attachment.name}
+                          </button>
+                        ))}
+                        <div className="flex items-center justify-end gap-1 text-xs opacity-70 mt-1">
+                          {formatTime(msg.created_at)}
+                          {mine && (msg.read_at ? <CheckCheck className="h-3 w-3" /> : <Check className="h-3 w-3" />)}
+                        </div>
+                      </div>
+                    </div>
+                  );
+                })}
+                {selectedThreadId && typingThreads[selectedThreadId] && (
+                  <div className="text-sm text-muted-foreground italic">Typing...</div>
+                )}
               </div>
             </ScrollArea>
-            
+
+            {files.length > 0 && (
+              <div className="flex flex-wrap gap-2 mb-2">
+                {files.map((file, index) => (
+                  <Badge key={`${file.name}-${index}`} variant="secondary" className="gap-1">
+                    {file.name}
+                    <X
+                      className="h-3 w-3 cursor-pointer"
+                      onClick={() => setFiles((prev) => prev.filter((_, i) => i !== index))}
+                    />
+                  </Badge>
+                ))}
+              </div>
+            )}
+
             <div className="flex gap-2">
+              <input
+                ref={fileInputRef}
+                type="file"
+                multiple
+                accept="image/*,application/pdf"
+                className="hidden"
+                onChange={(e) => {
+                  const selected = Array.from(e.target.files || []);
+                  setFiles((prev) => [...prev, ...selected].slice(0, 5));
+                  e.target.value = "";
+                }}
+              />
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={selectedThreadId === null}
+              >
+                <Paperclip className="h-4 w-4" />
+              </Button>
               <Input
                 value={message}
-                onChange={(e) => setMessage(e.target.value)}
-                onKeyPress={(e) => e.key === 'Enter' && handleSendMessage()}
+                onChange={(e) => handleInputChange(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleSendMessage()}
                 placeholder="Type your message..."
-                disabled={selectedChat === null}
+                disabled={selectedThreadId === null}
               />
-              <Button 
+              <Button
                 onClick={handleSendMessage}
-                disabled={selectedChat === null || !message.trim()}
+                disabled={selectedThreadId === null || (!message.trim() && files.length === 0) || sendMutation.isPending}
               >
                 <Send className="h-4 w-4" />
               </Button>
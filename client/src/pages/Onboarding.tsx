@@ -182,6 +182,7 @@ import { Slider } from "@/components/ui/slider";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { industries, restrictedIndustries } from "@shared/industries";
+import { minimumFromText } from "@shared/compensation";
 
 // Step types
 type OnboardingStep = 
@@ -260,6 +261,11 @@ interface BusinessFormData {
   phone: string;
   birthdate: string;
   gender: string;
+  
+  // Parent or guardian (athletes under 18)
+  guardianName: string;
+  guardianEmail: string;
+  guardianRelationship: string;
   bio: string;
   
   // Academic Information
@@ -310,6 +316,15 @@ interface BusinessFormData {
   eligibilityMessage: string;
 }
 
+// Whether a YYYY-MM-DD date of birth is under 18 today (the server re-checks)
+function isUnder18(birthdate: string): boolean {
+  const [year, month, day] = birthdate.split("-").map(Number);
+  if (!year || !month || !day) return false;
+  const today = new Date();
+  const age = today.getFullYear() - year - (today.getMonth() + 1 < month || (today.getMonth() + 1 === month && today.getDate() < day) ? 1 : 0);
+  return age < 18;
+}
+
 // Initial form data
 const initialFormData: BusinessFormData = {
   userType: "",
@@ -337,6 +352,10 @@ const initialFormData: BusinessFormData = {
   phone: "",
   birthdate: "",
   gender: "",
+  
+  guardianName: "",
+  guardianEmail: "",
+  guardianRelationship: "",
   bio: "",
   
   school: "",
@@ -606,6 +625,13 @@ export default function Onboarding() {
         }
         if (!formData.birthdate) {
           newErrors.birthdate = "Please enter your date of birth";
+        } else if (isUnder18(formData.birthdate)) {
+          if (!formData.guardianName) {
+            newErrors.guardianName = "Please enter your parent or guardian's name";
+          }
+          if (!formData.guardianEmail || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(formData.guardianEmail)) {
+            newErrors.guardianEmail = "Please enter a valid email address for your parent or guardian";
+          }
         }
         break;
       
@@ -1022,6 +1048,11 @@ export default function Onboarding() {
                 phone: formData.phone,
                 birthdate: formData.birthdate,
                 gender: formData.gender,
+                ...(isUnder18(formData.birthdate) ? {
+                  guardian_name: formData.guardianName,
+                  guardian_email: formData.guardianEmail,
+                  guardian_relationship: formData.guardianRelationship || undefined,
+                } : {}),
                 bio: formData.bio,
                 school: formData.school,
                 division: formData.division,
@@ -1029,9 +1060,11 @@ export default function Onboarding() {
                 sport: formData.sport,
                 position: formData.position,
                 sport_achievements: formData.sportAchievements,
+                social_handles: formData.socialHandles,
                 follower_count: formData.followerCount,
                 content_style: formData.contentStyle,
                 compensation_goals: formData.compensationGoals,
+                minimum_compensation: minimumFromText(formData.minimumCompensation, formData.compensationGoals),
                 profile_image: null
               }
             : {
@@ -1393,6 +1426,46 @@ export default function Onboarding() {
                       />
                     </div>
                     
+                    {formData.birthdate && isUnder18(formData.birthdate) && (
+                      <div className="space-y-4 rounded-md border border-zinc-700 p-4">
+                        <p className="text-sm text-zinc-300">
+                          Because you're under 18, a parent or guardian needs to approve your account before you can accept offers or message businesses. We'll email them a link.
+                        </p>
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                          <FormField
+                            label="Parent/Guardian Name"
+                            name="guardianName"
+                            value={formData.guardianName}
+                            onChange={handleChange}
+                            placeholder="Their full name"
+                            required={true}
+                            errorMessage={errors.guardianName}
+                            isTouched={!!errors.guardianName}
+                          />
+                          
+                          <FormField
+                            label="Parent/Guardian Email"
+                            name="guardianEmail"
+                            type="email"
+                            value={formData.guardianEmail}
+                            onChange={handleChange}
+                            placeholder="parent@example.com"
+                            required={true}
+                            errorMessage={errors.guardianEmail}
+                            isTouched={!!errors.guardianEmail}
+                          />
+                        </div>
+                        
+                        <FormField
+                          label="Relationship"
+                          name="guardianRelationship"
+                          value={formData.guardianRelationship}
+                          onChange={handleChange}
+                          placeholder="e.g. Parent, Legal guardian"
+                        />
+                      </div>
+                    )}
+                    
                     <div>
                       <div className="mb-2">
                         <label className="block text-sm font-medium text-white">Gender</label>
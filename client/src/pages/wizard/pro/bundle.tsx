@@ -10,9 +10,66 @@ import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Textarea } from '@/components/ui/textarea';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Loader2, CheckCircle2, ShieldCheck, Users, Calendar, FileText, DollarSign } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/lib/supabase';
+import { compensationSchema, type Compensation } from '@shared/schema';
+import { describeCompensation } from '@shared/compensation';
+
+// Inputs behind a custom bundle's structured compensation
+interface CompensationDraft {
+  type: Compensation['type'];
+  currency: string;
+  payment_schedule: Compensation['payment_schedule'];
+  fixed_amount: string;
+  rate: string;
+  deliverable_type: string;
+  quantity: string;
+  percentage: string;
+  product_description: string;
+  product_value: string;
+}
+
+const COMPENSATION_TYPES: { value: Compensation['type']; label: string }[] = [
+  { value: 'fixed', label: 'Fixed cash' },
+  { value: 'per_deliverable', label: 'Per deliverable' },
+  { value: 'revenue_share', label: 'Revenue share / affiliate' },
+  { value: 'product', label: 'Product only' },
+  { value: 'hybrid', label: 'Hybrid' },
+];
+
+const PAYMENT_SCHEDULES: { value: Compensation['payment_schedule']; label: string }[] = [
+  { value: 'upfront', label: 'Upfront' },
+  { value: 'on_completion', label: 'On completion' },
+  { value: 'per_deliverable', label: 'Per deliverable' },
+  { value: 'milestones', label: 'Milestones' },
+  { value: 'monthly', label: 'Monthly' },
+];
+
+const CURRENCIES = ['USD', 'CAD', 'EUR', 'GBP'];
+
+// Turn the custom bundle inputs into structured compensation; hybrid takes every part filled in
+function buildCompensationTerms(draft: CompensationDraft) {
+  const uses = (part: Compensation['type']) => draft.type === part || draft.type === 'hybrid';
+  const number = (value: string) => (value.trim() === '' ? undefined : Number(value));
+
+  return compensationSchema.safeParse({
+    type: draft.type,
+    currency: draft.currency,
+    payment_schedule: draft.payment_schedule,
+    fixed_amount: uses('fixed') ? number(draft.fixed_amount) : undefined,
+    deliverable_rates: uses('per_deliverable') && draft.rate.trim() !== ''
+      ? [{ deliverable_type: draft.deliverable_type || 'post', rate: Number(draft.rate), quantity: Number(draft.quantity) || 1 }]
+      : undefined,
+    revenue_share: uses('revenue_share') && draft.percentage.trim() !== ''
+      ? { percentage: Number(draft.percentage), basis: 'affiliate_sales' }
+      : undefined,
+    product: uses('product') && draft.product_description.trim() !== ''
+      ? { description: draft.product_description, retail_value: Number(draft.product_value) || 0 }
+      : undefined,
+  });
+}
 
 export default function Bundle() {
   const { campaignId, form, updateForm, nextStep, prevStep } = useProWizard();
@@ -27,7 +84,22 @@ export default function Bundle() {
     compensation: '',
     timeline: '',
   });
+  const [compensationDraft, setCompensationDraft] = useState<CompensationDraft>({
+    type: 'fixed',
+    currency: 'USD',
+    payment_schedule: 'on_completion',
+    fixed_amount: '',
+    rate: '',
+    deliverable_type: 'post',
+    quantity: '1',
+    percentage: '',
+    product_description: '',
+    product_value: '',
+  });
   const [selectedAthletes] = useState<any[]>(form.selectedMatches || []);
+  const compensationTerms = buildCompensationTerms(compensationDraft);
+  const updateCompensationDraft = (change: Partial<CompensationDraft>) =>
+    setCompensationDraft((prev) => ({ ...prev, ...change }));
   
   // Form validation function
   const validateCustomBundle = () => {
@@ -52,10 +124,10 @@ export default function Bundle() {
       return false;
     }
     
-    if (!customBundle.compensation) {
+    if (!compensationTerms.success) {
       toast({
         title: "Missing compensation",
-        description: "Please specify the compensation terms for athletes",
+        description: compensationTerms.error.issues[0]?.message || "Please specify the compensation terms for athletes",
         variant: "destructive"
       });
       return false;
@@ -93,13 +165,22 @@ export default function Bundle() {
     }
     
     setIsLoading(true);
+
+    // Custom bundles carry structured terms; the text field stays as the description athletes see
+    const bundleDetails = bundleType === 'custom' && compensationTerms.success
+      ? {
+          ...customBundle,
+          compensation: customBundle.compensation || describeCompensation(compensationTerms.data),
+          compensation_terms: compensationTerms.data,
+        }
+      : customBundle;
     
     try {
       // Prepare bundle data with campaign and athlete info
       const bundleData = {
         campaign_id: campaignId,
         type: bundleType,
-        custom_details: bundleType === 'custom' ? customBundle : null,
+        custom_details: bundleType === 'custom' ? bundleDetails : null,
         athlete_ids: selectedAthletes.map(a => a.id),
         created_at: new Date().toISOString(),
         status: 'DRAFT'
@@ -111,7 +192,7 @@ export default function Bundle() {
         .insert([{
           campaign_id: campaignId,
           type: bundleType,
-          details: bundleType === 'custom' ? customBundle : getPresetBundleDetails(bundleType),
+          details: bundleType === 'custom' ? bundleDetails : getPresetBundleDetails(bundleType),
           created_at: new Date().toISOString(),
           status: 'DRAFT'
         }])
@@ -150,7 +231,7 @@ export default function Bundle() {
         .update({ 
           bundle_id: bundleRecord.id,
           bundle_type: bundleType,
-          bundle_details: bundleType === 'custom' ? customBundle : null,
+          bundle_details: bundleType === 'custom' ? bundleDetails : null,
           updated_at: new Date().toISOString()
         })
         .eq('id', campaignId);
@@ -167,12 +248,12 @@ export default function Bundle() {
       // Update the wizard state with bundle data
       updateForm({ 
         bundleType, 
-        customBundle: bundleType === 'custom' ? customBundle : null,
+        customBundle: bundleType === 'custom' ? bundleDetails : null,
         selectedBundle: {
           id: bundleRecord.id,
           type: bundleType,
           ...getPresetBundleDetails(bundleType),
-          ...(bundleType === 'custom' ? customBundle : {})
+          ...(bundleType === 'custom' ? bundleDetails : {})
         },
       });
       
@@ -209,6 +290,7 @@ export default function Bundle() {
           description: 'Our standard athlete partnership package with balanced deliverables',
           deliverables: '3 social media posts, 2 stories, 1 product showcase',
           compensation: '$500-$1,500 per athlete',
+          compensation_terms: { type: 'fixed', currency: 'USD', payment_schedule: 'on_completion', fixed_amount: 1500 } as Compensation,
           timeline: '30 days from acceptance',
         };
       case 'premium':
@@ -217,6 +299,7 @@ export default function Bundle() {
           description: 'Enhanced partnership package with premium content deliverables',
           deliverables: '5 social media posts, 4 stories, 2 video content pieces, 1 event appearance',
           compensation: '$1,500-$3,000 per athlete',
+          compensation_terms: { type: 'fixed', currency: 'USD', payment_schedule: 'on_completion', fixed_amount: 3000 } as Compensation,
           timeline: '45 days from acceptance',
         };
       case 'basic':
@@ -225,6 +308,7 @@ export default function Bundle() {
           description: 'Simple partnership package for quick campaigns',
           deliverables: '2 social media posts, 1 story',
           compensation: '$200-$500 per athlete',
+          compensation_terms: { type: 'fixed', currency: 'USD', payment_schedule: 'on_completion', fixed_amount: 500 } as Compensation,
           timeline: '15 days from acceptance',
         };
       default:
@@ -359,13 +443,160 @@ export default function Bundle() {
               />
             </div>
             
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label className="text-gray-300">Compensation Type</Label>
+                <Select
+                  value={compensationDraft.type}
+                  onValueChange={(value) => updateCompensationDraft({ type: value as Compensation['type'] })}
+                >
+                  <SelectTrigger className="bg-black/20 border-zinc-700">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {COMPENSATION_TYPES.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label className="text-gray-300">Currency</Label>
+                <Select
+                  value={compensationDraft.currency}
+                  onValueChange={(currency) => updateCompensationDraft({ currency })}
+                >
+                  <SelectTrigger className="bg-black/20 border-zinc-700">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CURRENCIES.map((currency) => (
+                      <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label className="text-gray-300">Payment Schedule</Label>
+                <Select
+                  value={compensationDraft.payment_schedule}
+                  onValueChange={(value) => updateCompensationDraft({ payment_schedule: value as Compensation['payment_schedule'] })}
+                >
+                  <SelectTrigger className="bg-black/20 border-zinc-700">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PAYMENT_SCHEDULES.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {(compensationDraft.type === 'fixed' || compensationDraft.type === 'hybrid') && (
+              <div className="space-y-2">
+                <Label htmlFor="fixed-amount" className="text-gray-300">Cash per Athlete</Label>
+                <Input
+                  id="fixed-amount"
+                  type="number"
+                  min="0"
+                  value={compensationDraft.fixed_amount}
+                  onChange={(e) => updateCompensationDraft({ fixed_amount: e.target.value })}
+                  placeholder="E.g., 1000"
+                  className="bg-black/20 border-zinc-700"
+                />
+              </div>
+            )}
+
+            {(compensationDraft.type === 'per_deliverable' || compensationDraft.type === 'hybrid') && (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="deliverable-rate" className="text-gray-300">Rate per Deliverable</Label>
+                  <Input
+                    id="deliverable-rate"
+                    type="number"
+                    min="0"
+                    value={compensationDraft.rate}
+                    onChange={(e) => updateCompensationDraft({ rate: e.target.value })}
+                    placeholder="E.g., 250"
+                    className="bg-black/20 border-zinc-700"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="deliverable-type" className="text-gray-300">Deliverable</Label>
+                  <Input
+                    id="deliverable-type"
+                    value={compensationDraft.deliverable_type}
+                    onChange={(e) => updateCompensationDraft({ deliverable_type: e.target.value })}
+                    placeholder="post, story, video"
+                    className="bg-black/20 border-zinc-700"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="deliverable-quantity" className="text-gray-300">Quantity</Label>
+                  <Input
+                    id="deliverable-quantity"
+                    type="number"
+                    min="1"
+                    value={compensationDraft.quantity}
+                    onChange={(e) => updateCompensationDraft({ quantity: e.target.value })}
+                    className="bg-black/20 border-zinc-700"
+                  />
+                </div>
+              </div>
+            )}
+
+            {(compensationDraft.type === 'revenue_share' || compensationDraft.type === 'hybrid') && (
+              <div className="space-y-2">
+                <Label htmlFor="revenue-share" className="text-gray-300">Commission (%)</Label>
+                <Input
+                  id="revenue-share"
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={compensationDraft.percentage}
+                  onChange={(e) => updateCompensationDraft({ percentage: e.target.value })}
+                  placeholder="E.g., 10"
+                  className="bg-black/20 border-zinc-700"
+                />
+              </div>
+            )}
+
+            {(compensationDraft.type === 'product' || compensationDraft.type === 'hybrid') && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="product-description" className="text-gray-300">Product</Label>
+                  <Input
+                    id="product-description"
+                    value={compensationDraft.product_description}
+                    onChange={(e) => updateCompensationDraft({ product_description: e.target.value })}
+                    placeholder="E.g., Summer apparel pack"
+                    className="bg-black/20 border-zinc-700"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="product-value" className="text-gray-300">Retail Value</Label>
+                  <Input
+                    id="product-value"
+                    type="number"
+                    min="0"
+                    value={compensationDraft.product_value}
+                    onChange={(e) => updateCompensationDraft({ product_value: e.target.value })}
+                    placeholder="E.g., 300"
+                    className="bg-black/20 border-zinc-700"
+                  />
+                </div>
+              </div>
+            )}
+
             <div className="space-y-2">
-              <Label htmlFor="compensation" className="text-gray-300">Compensation</Label>
+              <Label htmlFor="compensation" className="text-gray-300">Compensation Notes</Label>
               <Input 
                 id="compensation" 
                 value={customBundle.compensation} 
                 onChange={(e) => setCustomBundle({...customBundle, compensation: e.target.value})}
-                placeholder="E.g., $1,000-$2,000 per athlete based on follower count" 
+                placeholder={compensationTerms.success ? describeCompensation(compensationTerms.data) : "E.g., Paid within 14 days of approval"} 
                 className="bg-black/20 border-zinc-700" 
               />
             </div>
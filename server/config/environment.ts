@@ -76,6 +76,28 @@ interface Config {
   STRIPE_PUBLIC_KEY: string;
   STRIPE_WEBHOOK_SECRET: string;
 
+  // Email configuration
+  EMAIL_FROM: string;
+  EMAIL_CAPTURE_DIR: string; // Where the file transport writes captured messages
+  EMAIL_PROVIDER: string; // 'resend' or 'file'
+  RESEND_API_KEY: string;
+
+  // Tax reporting configuration
+  TAX_ENCRYPTION_KEY: string; // Encrypts taxpayer identification numbers at rest
+  TAX_PAYER_NAME: string; // Payer details printed on 1099-NEC forms
+  TAX_PAYER_TIN: string;
+  TAX_PAYER_ADDRESS: string;
+
+  // Social metrics configuration (platforms without credentials use the mock adapter)
+  SOCIAL_METRICS_PROVIDER: string; // 'live' or 'mock'
+  INSTAGRAM_ACCESS_TOKEN: string;
+  INSTAGRAM_BUSINESS_ACCOUNT_ID: string; // Account used for business discovery lookups
+  TWITTER_BEARER_TOKEN: string;
+  TIKTOK_CLIENT_KEY: string;
+  TIKTOK_CLIENT_SECRET: string;
+  YOUTUBE_API_KEY: string;
+  FACEBOOK_ACCESS_TOKEN: string;
+
   // Logging configuration
   LOG_LEVEL: string;
 
@@ -120,6 +142,28 @@ export const config: Config = {
   STRIPE_PUBLIC_KEY: process.env.STRIPE_PUBLIC_KEY || '',
   STRIPE_WEBHOOK_SECRET: process.env.STRIPE_WEBHOOK_SECRET || '',
 
+  // Email configuration
+  EMAIL_FROM: process.env.EMAIL_FROM || 'Contested <notifications@contested.local>',
+  EMAIL_CAPTURE_DIR: process.env.EMAIL_CAPTURE_DIR || path.join(rootDir, '.email-outbox'),
+  EMAIL_PROVIDER: process.env.EMAIL_PROVIDER || (process.env.RESEND_API_KEY ? 'resend' : 'file'),
+  RESEND_API_KEY: process.env.RESEND_API_KEY || '',
+
+  // Tax reporting configuration
+  TAX_ENCRYPTION_KEY: process.env.TAX_ENCRYPTION_KEY || '',
+  TAX_PAYER_NAME: process.env.TAX_PAYER_NAME || 'Contested',
+  TAX_PAYER_TIN: process.env.TAX_PAYER_TIN || '',
+  TAX_PAYER_ADDRESS: process.env.TAX_PAYER_ADDRESS || '',
+
+  // Social metrics configuration
+  SOCIAL_METRICS_PROVIDER: process.env.SOCIAL_METRICS_PROVIDER || 'live',
+  INSTAGRAM_ACCESS_TOKEN: process.env.INSTAGRAM_ACCESS_TOKEN || '',
+  INSTAGRAM_BUSINESS_ACCOUNT_ID: process.env.INSTAGRAM_BUSINESS_ACCOUNT_ID || '',
+  TWITTER_BEARER_TOKEN: process.env.TWITTER_BEARER_TOKEN || '',
+  TIKTOK_CLIENT_KEY: process.env.TIKTOK_CLIENT_KEY || '',
+  TIKTOK_CLIENT_SECRET: process.env.TIKTOK_CLIENT_SECRET || '',
+  YOUTUBE_API_KEY: process.env.YOUTUBE_API_KEY || '',
+  FACEBOOK_ACCESS_TOKEN: process.env.FACEBOOK_ACCESS_TOKEN || '',
+
   // Logging configuration
   LOG_LEVEL: process.env.LOG_LEVEL || 'info',
 
@@ -147,8 +191,20 @@ function validateConfig() {
     if (!config.SUPABASE_SERVICE_KEY) {
       warnings.push('SUPABASE_SERVICE_KEY is missing. Some admin operations will be limited.');
     }
+    // The in-memory payment provider only records charges and transfers locally
     if (!config.STRIPE_SECRET_KEY) {
-      warnings.push('STRIPE_SECRET_KEY is missing. Payment features will be disabled.');
+      errors.push('STRIPE_SECRET_KEY is required in production to hold escrow and pay athletes');
+    } else if (process.env.PAYMENT_PROVIDER === 'memory') {
+      errors.push('PAYMENT_PROVIDER=memory is not allowed in production; it does not move money');
+    }
+    // The file transport only captures mail locally, so nothing would reach users
+    if (config.EMAIL_PROVIDER !== 'resend') {
+      errors.push('EMAIL_PROVIDER must be "resend" in production; the file transport does not deliver email');
+    } else if (!config.RESEND_API_KEY) {
+      errors.push('RESEND_API_KEY is required in production to send email');
+    }
+    if (!config.TAX_ENCRYPTION_KEY) {
+      warnings.push('TAX_ENCRYPTION_KEY is missing. W-9 tax forms cannot be collected.');
     }
   }
 
@@ -0,0 +1,270 @@
+/**
+ * Admin Controller
+ *
+ * Handles HTTP requests for the admin console: user management,
+ * impersonation, the audit trail, the partnership overview and KPIs.
+ */
+
+import { Request, Response } from 'express';
+import { adminService, AdminRequestContext } from '../services/adminService';
+import {
+  adminAuditQuerySchema,
+  adminPartnershipQuerySchema,
+  adminReasonSchema,
+  adminRoleChangeSchema,
+  adminUserSearchSchema
+} from '../../shared/schema';
+
+// HTTP status codes for admin service error codes
+const ADMIN_ERROR_STATUS: Record<string, number> = {
+  INVALID_INPUT: 400,
+  INVALID_OPERATION: 400,
+  FORBIDDEN: 403,
+  NOT_FOUND: 404,
+  DATABASE_ERROR: 500,
+  SERVER_ERROR: 500,
+  SERVICE_UNAVAILABLE: 503
+};
+
+function requestContext(req: Request): AdminRequestContext {
+  return {
+    ip: req.ip || null,
+    userAgent: req.get('user-agent') || null
+  };
+}
+
+class AdminController {
+  /**
+   * Search users (?q=&role=&status=&limit=&offset=)
+   */
+  async searchUsers(req: Request, res: Response) {
+    try {
+      const parsed = adminUserSearchSchema.safeParse(req.query);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid search', details: parsed.error.issues });
+      }
+
+      const result = await adminService.searchUsers(parsed.data);
+
+      if (!result.success) {
+        return res.status(ADMIN_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({ users: result.users, total: result.total });
+    } catch (error: any) {
+      console.error('Search users error:', error);
+      return res.status(500).json({ error: error.message || 'Error searching users' });
+    }
+  }
+
+  /**
+   * Get one user
+   */
+  async getUser(req: Request, res: Response) {
+    try {
+      const result = await adminService.getUser(req.params.id);
+
+      if (!result.success) {
+        return res.status(ADMIN_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({ user: result.user });
+    } catch (error: any) {
+      console.error('Get user error:', error);
+      return res.status(500).json({ error: error.message || 'Error retrieving user' });
+    }
+  }
+
+  /**
+   * Change a user's role
+   */
+  async changeRole(req: Request, res: Response) {
+    try {
+      const adminId = req.user?.id;
+
+      if (!adminId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const parsed = adminRoleChangeSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid role change', details: parsed.error.issues });
+      }
+
+      const result = await adminService.changeRole(
+        adminId,
+        req.params.id,
+        parsed.data.role,
+        parsed.data.reason,
+        requestContext(req)
+      );
+
+      if (!result.success) {
+        return res.status(ADMIN_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({ user: result.user, message: result.message });
+    } catch (error: any) {
+      console.error('Change role error:', error);
+      return res.status(500).json({ error: error.message || 'Error changing role' });
+    }
+  }
+
+  /**
+   * Suspend a user
+   */
+  async suspendUser(req: Request, res: Response) {
+    try {
+      const adminId = req.user?.id;
+
+      if (!adminId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const parsed = adminReasonSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid suspension', details: parsed.error.issues });
+      }
+
+      const result = await adminService.suspendUser(adminId, req.params.id, parsed.data.reason, requestContext(req));
+
+      if (!result.success) {
+        return res.status(ADMIN_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({ user: result.user, message: result.message });
+    } catch (error: any) {
+      console.error('Suspend user error:', error);
+      return res.status(500).json({ error: error.message || 'Error suspending user' });
+    }
+  }
+
+  /**
+   * Lift a user's suspension
+   */
+  async reactivateUser(req: Request, res: Response) {
+    try {
+      const adminId = req.user?.id;
+
+      if (!adminId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const reason = typeof req.body?.reason === 'string' ? req.body.reason.trim().slice(0, 500) : undefined;
+      const result = await adminService.reactivateUser(adminId, req.params.id, reason || undefined, requestContext(req));
+
+      if (!result.success) {
+        return res.status(ADMIN_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({ user: result.user, message: result.message });
+    } catch (error: any) {
+      console.error('Reactivate user error:', error);
+      return res.status(500).json({ error: error.message || 'Error reactivating user' });
+    }
+  }
+
+  /**
+   * Create a one-time sign-in link as the user; the reason is recorded in the audit trail
+   */
+  async impersonate(req: Request, res: Response) {
+    try {
+      const adminId = req.user?.id;
+
+      if (!adminId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const parsed = adminReasonSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid impersonation request', details: parsed.error.issues });
+      }
+
+      const result = await adminService.impersonate(adminId, req.params.id, parsed.data.reason, requestContext(req));
+
+      if (!result.success) {
+        return res.status(ADMIN_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      res.setHeader('Cache-Control', 'no-store');
+      return res.status(200).json({ user: result.user, link: result.link, message: result.message });
+    } catch (error: any) {
+      console.error('Impersonate user error:', error);
+      return res.status(500).json({ error: error.message || 'Error impersonating user' });
+    }
+  }
+
+  /**
+   * Admin audit trail (?userId=&action=&limit=&offset=)
+   */
+  async getAuditEvents(req: Request, res: Response) {
+    try {
+      const parsed = adminAuditQuerySchema.safeParse(req.query);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid audit query', details: parsed.error.issues });
+      }
+
+      const result = await adminService.getAuditEvents(parsed.data);
+
+      if (!result.success) {
+        return res.status(ADMIN_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({ events: result.events, total: result.total });
+    } catch (error: any) {
+      console.error('Get audit events error:', error);
+      return res.status(500).json({ error: error.message || 'Error retrieving audit events' });
+    }
+  }
+
+  /**
+   * Partnership overview (?status=&limit=&offset=)
+   */
+  async getPartnerships(req: Request, res: Response) {
+    try {
+      const parsed = adminPartnershipQuerySchema.safeParse(req.query);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid partnership query', details: parsed.error.issues });
+      }
+
+      const result = await adminService.getPartnerships(parsed.data);
+
+      if (!result.success) {
+        return res.status(ADMIN_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({ partnerships: result.partnerships, byStatus: result.byStatus, total: result.total });
+    } catch (error: any) {
+      console.error('Get partnerships error:', error);
+      return res.status(500).json({ error: error.message || 'Error retrieving partnerships' });
+    }
+  }
+
+  /**
+   * Platform KPIs
+   */
+  async getKpis(req: Request, res: Response) {
+    try {
+      const result = await adminService.getKpis();
+
+      if (!result.success) {
+        return res.status(ADMIN_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({ kpis: result.kpis });
+    } catch (error: any) {
+      console.error('Get KPIs error:', error);
+      return res.status(500).json({ error: error.message || 'Error retrieving KPIs' });
+    }
+  }
+}
+
+// Create and export singleton instance
+export const adminController = new AdminController();
+export default adminController;
@@ -0,0 +1,212 @@
+/**
+ * Athlete Profile Controller
+ *
+ * Handles HTTP requests for athletes' public profile pages (the JSON data,
+ * the server-rendered page and the athlete's page settings) and the social
+ * metrics shown on them.
+ */
+
+import { Request, Response } from 'express';
+import { socialMetricsService } from '../services/socialMetricsService';
+import { profileLinkService } from '../services/profileLinkService';
+import { profileLinkAnalyticsService, TrafficContext } from '../services/profileLinkAnalyticsService';
+import { profileLinkAnalyticsQuerySchema, profileLinkInputSchema } from '../../shared/schema';
+
+// HTTP status codes for athlete profile error codes
+const PROFILE_ERROR_STATUS: Record<string, number> = {
+  INVALID_INPUT: 400,
+  INVALID_SLUG: 400,
+  FORBIDDEN: 403,
+  NOT_FOUND: 404,
+  SLUG_TAKEN: 409,
+  DATABASE_ERROR: 500,
+  SERVER_ERROR: 500
+};
+
+// Visitor details recorded with profile page traffic (the IP is only kept hashed)
+function trafficContext(req: Request): TrafficContext {
+  return {
+    ip: req.ip || null,
+    userAgent: req.get('user-agent') || null,
+    referrer: req.get('referer') || null,
+    host: req.get('host') || null
+  };
+}
+
+class AthleteProfileController {
+  /**
+   * Get a published profile page's public data (public)
+   */
+  async getPublicProfile(req: Request, res: Response) {
+    try {
+      const result = await profileLinkService.getPublicProfile(req.params.linkId);
+
+      if (!result.success) {
+        return res.status(PROFILE_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json(result.profile);
+    } catch (error: any) {
+      console.error('Get public profile error:', error);
+      return res.status(500).json({ error: error.message || 'Error retrieving profile' });
+    }
+  }
+
+  /**
+   * Render a published profile page as HTML, with Open Graph tags for link previews (public)
+   */
+  async renderProfilePage(req: Request, res: Response) {
+    try {
+      const page = await profileLinkService.renderProfilePage(req.params.slug, `${req.protocol}://${req.get('host')}`);
+
+      if (page.link) {
+        await profileLinkAnalyticsService.recordView(page.link, trafficContext(req));
+      }
+
+      // Not cached, so every view reaches the server and is counted
+      return res
+        .status(page.status)
+        .set({ 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store' })
+        .send(page.html);
+    } catch (error: any) {
+      console.error('Render profile page error:', error);
+      return res.status(500).send('Error rendering profile');
+    }
+  }
+
+  /**
+   * Count a click on a profile page's link button and send the visitor on (public)
+   */
+  async followProfileButton(req: Request, res: Response) {
+    try {
+      const result = await profileLinkService.getButtonTarget(req.params.slug, req.params.buttonId);
+
+      if (!result.success) {
+        return res.status(PROFILE_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      await profileLinkAnalyticsService.recordClick(result.link!, req.params.buttonId, trafficContext(req));
+
+      return res.set('Cache-Control', 'no-store').redirect(302, result.url!);
+    } catch (error: any) {
+      console.error('Follow profile button error:', error);
+      return res.status(500).json({ error: error.message || 'Error following link' });
+    }
+  }
+
+  /**
+   * Get daily traffic for the current athlete's profile page
+   */
+  async getProfileLinkAnalytics(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const parsed = profileLinkAnalyticsQuerySchema.safeParse(req.query);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid analytics query', details: parsed.error.issues });
+      }
+
+      const result = await profileLinkAnalyticsService.getAnalytics(userId, parsed.data.days);
+
+      if (!result.success) {
+        return res.status(PROFILE_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json(result.analytics);
+    } catch (error: any) {
+      console.error('Get profile link analytics error:', error);
+      return res.status(500).json({ error: error.message || 'Error retrieving analytics' });
+    }
+  }
+
+  /**
+   * Get the current athlete's profile page settings
+   */
+  async getProfileLink(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const result = await profileLinkService.getSettings(userId);
+
+      if (!result.success) {
+        return res.status(PROFILE_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json(result.settings);
+    } catch (error: any) {
+      console.error('Get profile link error:', error);
+      return res.status(500).json({ error: error.message || 'Error retrieving profile link' });
+    }
+  }
+
+  /**
+   * Save the current athlete's profile page settings
+   *
+   * Also reachable as /:id/profile-link, where the ID has to be the athlete's own.
+   */
+  async saveProfileLink(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      if (req.params.id && req.params.id !== userId) {
+        return res.status(403).json({ error: "You can only edit your own profile page" });
+      }
+
+      const parsed = profileLinkInputSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid profile page settings', details: parsed.error.issues });
+      }
+
+      const result = await profileLinkService.saveSettings(userId, parsed.data);
+
+      if (!result.success) {
+        return res.status(PROFILE_ERROR_STATUS[result.code || ''] || 400).json({
+          error: result.error,
+          code: result.code,
+          ...(result.suggestions ? { suggestions: result.suggestions } : {})
+        });
+      }
+
+      return res.status(200).json({ message: result.message, ...result.settings });
+    } catch (error: any) {
+      console.error('Save profile link error:', error);
+      return res.status(500).json({ error: error.message || 'Error saving profile link' });
+    }
+  }
+
+  /**
+   * Refresh and return a profile's social metrics (public; throttled per account)
+   */
+  async refreshMetrics(req: Request, res: Response) {
+    try {
+      const result = await socialMetricsService.refreshForProfile(req.params.id, req.user?.id);
+
+      if (!result.success) {
+        return res.status(PROFILE_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({ metrics: result.metrics, refreshed: result.refreshed || 0 });
+    } catch (error: any) {
+      console.error('Refresh metrics error:', error);
+      return res.status(500).json({ error: error.message || 'Error refreshing metrics' });
+    }
+  }
+}
+
+// Create and export singleton instance
+export const athleteProfileController = new AthleteProfileController();
+export default athleteProfileController;
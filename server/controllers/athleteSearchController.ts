@@ -0,0 +1,168 @@
+/**
+ * Athlete Search Controller
+ *
+ * Handles HTTP requests for athlete discovery search and saved searches.
+ */
+
+import { Request, Response } from 'express';
+import { athleteSearchService } from '../services/athleteSearchService';
+import {
+  athleteSearchQuerySchema,
+  savedAthleteSearchInputSchema,
+  savedAthleteSearchUpdateSchema
+} from '../../shared/schema';
+
+// HTTP status codes for athlete search service error codes
+const SEARCH_ERROR_STATUS: Record<string, number> = {
+  INVALID_INPUT: 400,
+  UNKNOWN_ZIP: 400,
+  NOT_FOUND: 404,
+  LIMIT_REACHED: 409,
+  DATABASE_ERROR: 500,
+  SERVER_ERROR: 500
+};
+
+class AthleteSearchController {
+  /**
+   * Search athletes (?q=&sports=&divisions=&schools=&graduationYears=&zip=&radiusMiles=
+   * &minFollowers=&maxFollowers=&minEngagement=&maxEngagement=&contentTypes=&sort=&cursor=&limit=)
+   */
+  async search(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const parsed = athleteSearchQuerySchema.safeParse(req.query);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid search', details: parsed.error.issues });
+      }
+
+      const result = await athleteSearchService.search(parsed.data);
+
+      if (!result.success) {
+        return res.status(SEARCH_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json(result.page);
+    } catch (error: any) {
+      console.error('Athlete search error:', error);
+      return res.status(500).json({ error: error.message || 'Error searching athletes' });
+    }
+  }
+
+  /**
+   * The current business's saved searches
+   */
+  async getSavedSearches(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const result = await athleteSearchService.getSavedSearches(userId);
+
+      if (!result.success) {
+        return res.status(SEARCH_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({ searches: result.searches });
+    } catch (error: any) {
+      console.error('Get saved searches error:', error);
+      return res.status(500).json({ error: error.message || 'Error retrieving saved searches' });
+    }
+  }
+
+  /**
+   * Save the current search
+   */
+  async saveSearch(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const parsed = savedAthleteSearchInputSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid saved search', details: parsed.error.issues });
+      }
+
+      const result = await athleteSearchService.saveSearch(userId, parsed.data);
+
+      if (!result.success) {
+        return res.status(SEARCH_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(201).json({ search: result.search, message: result.message });
+    } catch (error: any) {
+      console.error('Save search error:', error);
+      return res.status(500).json({ error: error.message || 'Error saving search' });
+    }
+  }
+
+  /**
+   * Rename a saved search or turn its alerts on or off
+   */
+  async updateSavedSearch(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const parsed = savedAthleteSearchUpdateSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid update', details: parsed.error.issues });
+      }
+
+      const result = await athleteSearchService.updateSavedSearch(userId, req.params.id, parsed.data);
+
+      if (!result.success) {
+        return res.status(SEARCH_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({ search: result.search });
+    } catch (error: any) {
+      console.error('Update saved search error:', error);
+      return res.status(500).json({ error: error.message || 'Error updating saved search' });
+    }
+  }
+
+  /**
+   * Delete a saved search
+   */
+  async deleteSavedSearch(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const result = await athleteSearchService.deleteSavedSearch(userId, req.params.id);
+
+      if (!result.success) {
+        return res.status(SEARCH_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({ message: result.message });
+    } catch (error: any) {
+      console.error('Delete saved search error:', error);
+      return res.status(500).json({ error: error.message || 'Error deleting saved search' });
+    }
+  }
+}
+
+// Create and export singleton instance
+export const athleteSearchController = new AthleteSearchController();
+export default athleteSearchController;
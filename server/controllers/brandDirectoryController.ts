@@ -0,0 +1,208 @@
+/**
+ * Brand Directory Controller
+ *
+ * Handles HTTP requests for the brand directory, athlete interest in
+ * brands and the leads it creates for businesses.
+ */
+
+import { Request, Response } from 'express';
+import { brandDirectoryService } from '../services/brandDirectoryService';
+import {
+  BrandLeadStatus,
+  brandDirectoryQuerySchema,
+  brandDirectorySettingsSchema,
+  brandInterestInputSchema,
+  brandLeadUpdateSchema
+} from '../../shared/schema';
+
+// HTTP status codes for brand directory service error codes
+const BRAND_ERROR_STATUS: Record<string, number> = {
+  INVALID_INPUT: 400,
+  GUARDIAN_CONSENT_REQUIRED: 403,
+  NOT_FOUND: 404,
+  ALREADY_INTERESTED: 409,
+  DATABASE_ERROR: 500,
+  SERVER_ERROR: 500
+};
+
+class BrandDirectoryController {
+  /**
+   * Browse discoverable brands (?q=&industries=&minBudget=&maxBudget=&locations=
+   * &companyTypes=&activeCampaigns=&sort=&limit=&offset=)
+   */
+  async search(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const parsed = brandDirectoryQuerySchema.safeParse(req.query);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid search', details: parsed.error.issues });
+      }
+
+      const athleteId = req.user!.role === 'athlete' ? userId : null;
+      const result = await brandDirectoryService.search(athleteId, parsed.data);
+
+      if (!result.success) {
+        return res.status(BRAND_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({ brands: result.brands, total: result.total });
+    } catch (error: any) {
+      console.error('Brand search error:', error);
+      return res.status(500).json({ error: error.message || 'Error searching brands' });
+    }
+  }
+
+  /**
+   * Express interest in a brand (athlete)
+   */
+  async expressInterest(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const parsed = brandInterestInputSchema.safeParse(req.body || {});
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid message', details: parsed.error.issues });
+      }
+
+      const result = await brandDirectoryService.expressInterest(userId, req.params.id, parsed.data.message);
+
+      if (!result.success) {
+        return res.status(BRAND_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(201).json({ lead: result.lead, message: result.message });
+    } catch (error: any) {
+      console.error('Express interest error:', error);
+      return res.status(500).json({ error: error.message || 'Error sending interest' });
+    }
+  }
+
+  /**
+   * Leads from athletes interested in the current business (?status=)
+   */
+  async getLeads(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const status = BrandLeadStatus.optional().safeParse(req.query.status || undefined);
+
+      if (!status.success) {
+        return res.status(400).json({ error: 'Invalid status', details: status.error.issues });
+      }
+
+      const result = await brandDirectoryService.getLeads(userId, status.data);
+
+      if (!result.success) {
+        return res.status(BRAND_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({ leads: result.leads });
+    } catch (error: any) {
+      console.error('Get brand leads error:', error);
+      return res.status(500).json({ error: error.message || 'Error retrieving leads' });
+    }
+  }
+
+  /**
+   * Mark a lead contacted or archive it (business)
+   */
+  async updateLead(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const parsed = brandLeadUpdateSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid status', details: parsed.error.issues });
+      }
+
+      const result = await brandDirectoryService.updateLead(userId, req.params.id, parsed.data.status);
+
+      if (!result.success) {
+        return res.status(BRAND_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({ lead: result.lead });
+    } catch (error: any) {
+      console.error('Update brand lead error:', error);
+      return res.status(500).json({ error: error.message || 'Error updating lead' });
+    }
+  }
+
+  /**
+   * The current business's directory settings
+   */
+  async getSettings(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const result = await brandDirectoryService.getSettings(userId);
+
+      if (!result.success) {
+        return res.status(BRAND_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({ discoverable: result.discoverable });
+    } catch (error: any) {
+      console.error('Get directory settings error:', error);
+      return res.status(500).json({ error: error.message || 'Error retrieving directory settings' });
+    }
+  }
+
+  /**
+   * Update the current business's directory settings
+   */
+  async updateSettings(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const parsed = brandDirectorySettingsSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid settings', details: parsed.error.issues });
+      }
+
+      const result = await brandDirectoryService.updateSettings(userId, parsed.data.discoverable);
+
+      if (!result.success) {
+        return res.status(BRAND_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({ discoverable: result.discoverable, message: result.message });
+    } catch (error: any) {
+      console.error('Update directory settings error:', error);
+      return res.status(500).json({ error: error.message || 'Error updating directory settings' });
+    }
+  }
+}
+
+// Create and export singleton instance
+export const brandDirectoryController = new BrandDirectoryController();
+export default brandDirectoryController;
@@ -0,0 +1,249 @@
+/**
+ * Compliance Controller
+ *
+ * Handles HTTP requests for the compliance review queue and rule sets.
+ */
+
+import { Request, Response } from 'express';
+import { complianceService } from '../services/complianceService';
+import {
+  complianceDecisionSchema,
+  createComplianceRuleSetSchema,
+  submitComplianceRequestSchema
+} from '../../shared/schema';
+
+// HTTP status codes for compliance service error codes
+const COMPLIANCE_ERROR_STATUS: Record<string, number> = {
+  INVALID_INPUT: 400,
+  INVALID_OPERATION: 400,
+  NOT_CLAIMED: 409,
+  ALREADY_CLAIMED: 409,
+  FORBIDDEN: 403,
+  NOT_FOUND: 404,
+  DATABASE_ERROR: 500,
+  SERVER_ERROR: 500
+};
+
+class ComplianceController {
+  /**
+   * Submit an offer for compliance review
+   */
+  async submitRequest(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const parsed = submitComplianceRequestSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid request', details: parsed.error.issues });
+      }
+
+      const result = await complianceService.submitForReview(parsed.data.offer_id, userId, parsed.data.state);
+
+      if (!result.success) {
+        return res.status(COMPLIANCE_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(201).json({ message: result.message, request: result.request });
+    } catch (error: any) {
+      console.error('Submit compliance request error:', error);
+      return res.status(500).json({ error: error.message || 'Error submitting compliance request' });
+    }
+  }
+
+  /**
+   * Get the review queue
+   */
+  async getQueue(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const assigned = req.query.assigned as string;
+
+      const result = await complianceService.getQueue(userId, {
+        status: req.query.status as string,
+        assigned: assigned === 'me' || assigned === 'unassigned' ? assigned : 'all'
+      });
+
+      if (!result.success) {
+        return res.status(COMPLIANCE_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({
+        requests: result.requests,
+        count: result.requests?.length || 0
+      });
+    } catch (error: any) {
+      console.error('Get compliance queue error:', error);
+      return res.status(500).json({ error: error.message || 'Error retrieving compliance queue' });
+    }
+  }
+
+  /**
+   * Get a request with its rule-check report
+   */
+  async getRequest(req: Request, res: Response) {
+    try {
+      const result = await complianceService.getRequest(parseInt(req.params.id));
+
+      if (!result.success) {
+        return res.status(COMPLIANCE_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({ request: result.request });
+    } catch (error: any) {
+      console.error('Get compliance request error:', error);
+      return res.status(500).json({ error: error.message || 'Error retrieving compliance request' });
+    }
+  }
+
+  /**
+   * Claim a request for review
+   */
+  async claimRequest(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const result = await complianceService.claimRequest(parseInt(req.params.id), userId);
+
+      if (!result.success) {
+        return res.status(COMPLIANCE_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({ message: result.message, request: result.request });
+    } catch (error: any) {
+      console.error('Claim compliance request error:', error);
+      return res.status(500).json({ error: error.message || 'Error claiming compliance request' });
+    }
+  }
+
+  /**
+   * Return a claimed request to the queue
+   */
+  async releaseRequest(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+      const userRole = req.user?.role;
+
+      if (!userId || !userRole) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const result = await complianceService.releaseRequest(parseInt(req.params.id), userId, userRole);
+
+      if (!result.success) {
+        return res.status(COMPLIANCE_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({ message: result.message, request: result.request });
+    } catch (error: any) {
+      console.error('Release compliance request error:', error);
+      return res.status(500).json({ error: error.message || 'Error releasing compliance request' });
+    }
+  }
+
+  /**
+   * Approve, reject or request changes on a claimed request
+   */
+  async decide(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+      const userRole = req.user?.role;
+
+      if (!userId || !userRole) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const parsed = complianceDecisionSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid decision', details: parsed.error.issues });
+      }
+
+      const result = await complianceService.decide(
+        parseInt(req.params.id),
+        userId,
+        userRole,
+        parsed.data.decision,
+        parsed.data.reason
+      );
+
+      if (!result.success) {
+        return res.status(COMPLIANCE_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({ message: result.message, request: result.request });
+    } catch (error: any) {
+      console.error('Compliance decision error:', error);
+      return res.status(500).json({ error: error.message || 'Error recording compliance decision' });
+    }
+  }
+
+  /**
+   * List rule sets
+   */
+  async getRuleSets(req: Request, res: Response) {
+    try {
+      const result = await complianceService.getRuleSets({
+        governingBodyId: req.query.governingBodyId ? parseInt(req.query.governingBodyId as string) : undefined,
+        state: req.query.state as string,
+        includeInactive: req.query.includeInactive === 'true'
+      });
+
+      if (!result.success) {
+        return res.status(COMPLIANCE_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({ ruleSets: result.ruleSets });
+    } catch (error: any) {
+      console.error('Get compliance rule sets error:', error);
+      return res.status(500).json({ error: error.message || 'Error retrieving rule sets' });
+    }
+  }
+
+  /**
+   * Publish a new rule set version
+   */
+  async createRuleSet(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const parsed = createComplianceRuleSetSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid rule set', details: parsed.error.issues });
+      }
+
+      const result = await complianceService.createRuleSetVersion(parsed.data, userId);
+
+      if (!result.success) {
+        return res.status(COMPLIANCE_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(201).json({ message: result.message, ruleSet: result.ruleSet });
+    } catch (error: any) {
+      console.error('Create compliance rule set error:', error);
+      return res.status(500).json({ error: error.message || 'Error creating rule set' });
+    }
+  }
+}
+
+// Create and export singleton instance
+export const complianceController = new ComplianceController();
+export default complianceController;
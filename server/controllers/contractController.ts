@@ -0,0 +1,401 @@
+/**
+ * Contract Controller
+ *
+ * Handles HTTP requests for generated partnership contracts and the
+ * admin-managed contract templates.
+ */
+
+import { Request, Response } from 'express';
+import { contractService } from '../services/contractService';
+import { contractSignatureService, RequestContext } from '../services/contractSignatureService';
+import {
+  contractGuardianInputSchema,
+  contractSignInputSchema,
+  contractTemplateInputSchema,
+  contractTemplatePreviewSchema
+} from '../../shared/schema';
+
+// HTTP status codes for contract service error codes
+const CONTRACT_ERROR_STATUS: Record<string, number> = {
+  INVALID_INPUT: 400,
+  INVALID_OPERATION: 400,
+  INVALID_TEMPLATE: 400,
+  FORBIDDEN: 403,
+  NOT_FOUND: 404,
+  OUT_OF_ORDER: 409,
+  INVALID_LINK: 410,
+  STORAGE_ERROR: 502,
+  DATABASE_ERROR: 500,
+  SERVER_ERROR: 500
+};
+
+function sendPdf(res: Response, file: Buffer, fileName: string, inline: boolean) {
+  res.type('application/pdf');
+  res.setHeader('Content-Disposition', `${inline ? 'inline' : 'attachment'}; filename="${fileName}"`);
+  return res.status(200).send(file);
+}
+
+// IP address and user agent recorded in the contract audit log
+function requestContext(req: Request): RequestContext {
+  return { ip: req.ip || null, userAgent: req.get('user-agent') || null };
+}
+
+class ContractController {
+  /**
+   * Get contracts for the current user
+   */
+  async getContracts(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+      const userRole = req.user?.role;
+
+      if (!userId || !userRole) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const result = await contractService.getContracts(userId, userRole);
+
+      if (!result.success) {
+        return res.status(CONTRACT_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({ contracts: result.contracts, count: result.contracts?.length || 0 });
+    } catch (error: any) {
+      console.error('Get contracts error:', error);
+      return res.status(500).json({ error: error.message || 'Error retrieving contracts' });
+    }
+  }
+
+  /**
+   * Get one contract's details
+   */
+  async getContract(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+      const userRole = req.user?.role;
+
+      if (!userId || !userRole) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const result = await contractService.getContract(req.params.id, userId, userRole);
+
+      if (!result.success) {
+        return res.status(CONTRACT_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({ contract: result.contract });
+    } catch (error: any) {
+      console.error('Get contract error:', error);
+      return res.status(500).json({ error: error.message || 'Error retrieving contract' });
+    }
+  }
+
+  /**
+   * Download a contract PDF; ?inline=true opens it in the browser instead
+   */
+  async downloadContract(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+      const userRole = req.user?.role;
+
+      if (!userId || !userRole) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const result = await contractService.downloadContract(req.params.id, userId, userRole);
+
+      if (!result.success || !result.file) {
+        return res.status(CONTRACT_ERROR_STATUS[result.code || ''] || 404).json({ error: result.error });
+      }
+
+      await contractSignatureService.recordView(result.contract, userId, userRole, requestContext(req));
+
+      return sendPdf(res, result.file, result.fileName || 'contract.pdf', req.query.inline === 'true');
+    } catch (error: any) {
+      console.error('Download contract error:', error);
+      return res.status(500).json({ error: error.message || 'Error downloading contract' });
+    }
+  }
+
+  /**
+   * Get the contract generated for an offer
+   */
+  async getOfferContract(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+      const userRole = req.user?.role;
+
+      if (!userId || !userRole) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const result = await contractService.getOfferContract(req.params.offerId, userId, userRole);
+
+      if (!result.success) {
+        return res.status(CONTRACT_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({ contract: result.contract });
+    } catch (error: any) {
+      console.error('Get offer contract error:', error);
+      return res.status(500).json({ error: error.message || 'Error retrieving contract' });
+    }
+  }
+
+  /**
+   * Regenerate an offer's contract from the active template (business or admin)
+   */
+  async regenerateOfferContract(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+      const userRole = req.user?.role;
+
+      if (!userId || !userRole) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const result = await contractService.regenerateForOffer(req.params.offerId, userId, userRole);
+
+      if (!result.success) {
+        return res.status(CONTRACT_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({ message: 'Contract generated', contract: result.contract });
+    } catch (error: any) {
+      console.error('Regenerate contract error:', error);
+      return res.status(500).json({ error: error.message || 'Error generating contract' });
+    }
+  }
+
+  /**
+   * Get signature progress and the audit trail for a contract
+   */
+  async getSigningStatus(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+      const userRole = req.user?.role;
+
+      if (!userId || !userRole) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const result = await contractSignatureService.getSigningStatus(req.params.id, userId, userRole);
+
+      if (!result.success) {
+        return res.status(CONTRACT_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json(result.status);
+    } catch (error: any) {
+      console.error('Get contract signatures error:', error);
+      return res.status(500).json({ error: error.message || 'Error retrieving contract signatures' });
+    }
+  }
+
+  /**
+   * Sign a contract as the business or athlete
+   */
+  async signContract(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+      const userRole = req.user?.role;
+
+      if (!userId || !userRole) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const parsed = contractSignInputSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid signature', details: parsed.error.issues });
+      }
+
+      const result = await contractSignatureService.sign(req.params.id, userId, userRole, parsed.data, requestContext(req));
+
+      if (!result.success) {
+        return res.status(CONTRACT_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error, code: result.code });
+      }
+
+      return res.status(200).json({ message: result.message, signature: result.signature, ...result.status });
+    } catch (error: any) {
+      console.error('Sign contract error:', error);
+      return res.status(500).json({ error: error.message || 'Error signing contract' });
+    }
+  }
+
+  /**
+   * Name the guardian who co-signs for a minor athlete (athlete)
+   */
+  async setGuardian(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const parsed = contractGuardianInputSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid guardian details', details: parsed.error.issues });
+      }
+
+      const result = await contractSignatureService.setGuardian(req.params.id, userId, parsed.data, requestContext(req));
+
+      if (!result.success) {
+        return res.status(CONTRACT_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({ message: 'Guardian invited to sign', ...result.status });
+    } catch (error: any) {
+      console.error('Set contract guardian error:', error);
+      return res.status(500).json({ error: error.message || 'Error inviting guardian' });
+    }
+  }
+
+  /**
+   * Get the contract behind a guardian signing link (public, token-authorized)
+   */
+  async getGuardianSigning(req: Request, res: Response) {
+    try {
+      const result = await contractSignatureService.getGuardianSigning(req.params.token, requestContext(req));
+
+      if (!result.success) {
+        return res.status(CONTRACT_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json(result.status);
+    } catch (error: any) {
+      console.error('Get guardian signing error:', error);
+      return res.status(500).json({ error: error.message || 'Error retrieving contract' });
+    }
+  }
+
+  /**
+   * Download the contract PDF through a guardian signing link (public, token-authorized)
+   */
+  async downloadGuardianContract(req: Request, res: Response) {
+    try {
+      const result = await contractSignatureService.downloadForGuardian(req.params.token);
+
+      if (!result.success || !result.file) {
+        return res.status(CONTRACT_ERROR_STATUS[result.code || ''] || 404).json({ error: result.error });
+      }
+
+      return sendPdf(res, result.file, result.fileName || 'contract.pdf', req.query.inline === 'true');
+    } catch (error: any) {
+      console.error('Download guardian contract error:', error);
+      return res.status(500).json({ error: error.message || 'Error downloading contract' });
+    }
+  }
+
+  /**
+   * Sign as the guardian through a signing link (public, token-authorized)
+   */
+  async signAsGuardian(req: Request, res: Response) {
+    try {
+      const parsed = contractSignInputSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid signature', details: parsed.error.issues });
+      }
+
+      const result = await contractSignatureService.signAsGuardian(req.params.token, parsed.data, requestContext(req));
+
+      if (!result.success) {
+        return res.status(CONTRACT_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error, code: result.code });
+      }
+
+      return res.status(200).json({ message: result.message, signature: result.signature, ...result.status, audit: [] });
+    } catch (error: any) {
+      console.error('Guardian sign contract error:', error);
+      return res.status(500).json({ error: error.message || 'Error signing contract' });
+    }
+  }
+
+  /**
+   * List every version of the contract template (admin)
+   */
+  async getTemplates(req: Request, res: Response) {
+    try {
+      if (!req.user?.id) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const result = await contractService.listTemplates();
+
+      if (!result.success) {
+        return res.status(CONTRACT_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({ active: result.template, templates: result.templates });
+    } catch (error: any) {
+      console.error('Get contract templates error:', error);
+      return res.status(500).json({ error: error.message || 'Error retrieving contract templates' });
+    }
+  }
+
+  /**
+   * Publish a new template version (admin)
+   */
+  async publishTemplate(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const parsed = contractTemplateInputSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid contract template', details: parsed.error.issues });
+      }
+
+      const result = await contractService.publishTemplate(parsed.data, userId);
+
+      if (!result.success) {
+        return res.status(CONTRACT_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(201).json({ message: result.message, template: result.template });
+    } catch (error: any) {
+      console.error('Publish contract template error:', error);
+      return res.status(500).json({ error: error.message || 'Error publishing contract template' });
+    }
+  }
+
+  /**
+   * Render a draft template against an offer as a PDF, without saving it (admin)
+   */
+  async previewTemplate(req: Request, res: Response) {
+    try {
+      if (!req.user?.id) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const parsed = contractTemplatePreviewSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid contract template', details: parsed.error.issues });
+      }
+
+      const { offer_id, ...template } = parsed.data;
+      const result = await contractService.previewTemplate(template, offer_id);
+
+      if (!result.success || !result.file) {
+        return res.status(CONTRACT_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return sendPdf(res, result.file, result.fileName || 'preview.pdf', true);
+    } catch (error: any) {
+      console.error('Preview contract template error:', error);
+      return res.status(500).json({ error: error.message || 'Error previewing contract template' });
+    }
+  }
+}
+
+// Create and export singleton instance
+export const contractController = new ContractController();
+export default contractController;
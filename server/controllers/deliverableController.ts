@@ -0,0 +1,210 @@
+/**
+ * Deliverable Controller
+ *
+ * Handles HTTP requests related to offer deliverables and proof-of-post.
+ */
+
+import { Request, Response } from 'express';
+import multer from 'multer';
+import path from 'path';
+import { deliverableService } from '../services/deliverableService';
+import { submitDeliverableSchema, reviewDeliverableSchema } from '../../shared/schema';
+
+// HTTP status codes for deliverable service error codes
+const DELIVERABLE_ERROR_STATUS: Record<string, number> = {
+  INVALID_INPUT: 400,
+  INVALID_OPERATION: 400,
+  FORBIDDEN: 403,
+  NOT_FOUND: 404,
+  STORAGE_ERROR: 502,
+  DATABASE_ERROR: 500,
+  SERVER_ERROR: 500
+};
+
+// Screenshots are kept in memory and streamed straight to object storage
+export const screenshotUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 5 * 1024 * 1024 }, // 5MB
+  fileFilter: (req, file, cb) => {
+    const allowedTypes = /jpeg|jpg|png|gif|webp/;
+    const ext = path.extname(file.originalname).toLowerCase();
+
+    if (allowedTypes.test(file.mimetype) && allowedTypes.test(ext)) {
+      return cb(null, true);
+    }
+
+    cb(new Error('Only image files are allowed!'));
+  }
+});
+
+class DeliverableController {
+  /**
+   * Get deliverables for the current user
+   */
+  async getUserDeliverables(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+      const userRole = req.user?.role;
+
+      if (!userId || !userRole) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const result = await deliverableService.getUserDeliverables(userId, userRole, {
+        status: req.query.status as string,
+        offerId: req.query.offerId as string,
+        campaignId: req.query.campaignId as string
+      });
+
+      if (!result.success) {
+        return res.status(DELIVERABLE_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({
+        deliverables: result.deliverables,
+        summary: result.summary,
+        count: result.deliverables?.length || 0
+      });
+    } catch (error: any) {
+      console.error('Get deliverables error:', error);
+      return res.status(500).json({ error: error.message || 'Error retrieving deliverables' });
+    }
+  }
+
+  /**
+   * Get a deliverable with its submissions
+   */
+  async getDeliverable(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+      const userRole = req.user?.role;
+
+      if (!userId || !userRole) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const result = await deliverableService.getDeliverable(req.params.id, userId, userRole);
+
+      if (!result.success) {
+        return res.status(DELIVERABLE_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({ deliverable: result.deliverable });
+    } catch (error: any) {
+      console.error('Get deliverable error:', error);
+      return res.status(500).json({ error: error.message || 'Error retrieving deliverable' });
+    }
+  }
+
+  /**
+   * Submit proof-of-post (URL plus optional screenshot) as an athlete
+   */
+  async submitProof(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const parsed = submitDeliverableSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid submission', details: parsed.error.issues });
+      }
+
+      const screenshot = req.file
+        ? { buffer: req.file.buffer, originalName: req.file.originalname }
+        : undefined;
+
+      const result = await deliverableService.submitProof(req.params.id, userId, parsed.data, screenshot);
+
+      if (!result.success) {
+        return res.status(DELIVERABLE_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(201).json({
+        message: result.message,
+        deliverable: result.deliverable,
+        submission: result.submission
+      });
+    } catch (error: any) {
+      console.error('Submit deliverable proof error:', error);
+      return res.status(500).json({ error: error.message || 'Error submitting proof' });
+    }
+  }
+
+  /**
+   * Approve a submission or request changes as the business
+   */
+  async reviewSubmission(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const parsed = reviewDeliverableSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid review', details: parsed.error.issues });
+      }
+
+      const result = await deliverableService.reviewSubmission(
+        req.params.id,
+        userId,
+        parsed.data.decision,
+        parsed.data.notes
+      );
+
+      if (!result.success) {
+        return res.status(DELIVERABLE_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({
+        message: result.message,
+        deliverable: result.deliverable,
+        submission: result.submission
+      });
+    } catch (error: any) {
+      console.error('Review deliverable error:', error);
+      return res.status(500).json({ error: error.message || 'Error reviewing submission' });
+    }
+  }
+
+  /**
+   * Download the screenshot attached to a submission
+   */
+  async getSubmissionScreenshot(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+      const userRole = req.user?.role;
+
+      if (!userId || !userRole) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const result = await deliverableService.getScreenshot(
+        req.params.id,
+        req.params.submissionId,
+        userId,
+        userRole
+      );
+
+      if (!result.success || !result.file) {
+        return res.status(DELIVERABLE_ERROR_STATUS[result.code || ''] || 404).json({ error: result.error });
+      }
+
+      res.type(path.extname(result.fileName || '.png'));
+      return res.status(200).send(result.file);
+    } catch (error: any) {
+      console.error('Get submission screenshot error:', error);
+      return res.status(500).json({ error: error.message || 'Error retrieving screenshot' });
+    }
+  }
+}
+
+// Create and export singleton instance
+export const deliverableController = new DeliverableController();
+export default deliverableController;
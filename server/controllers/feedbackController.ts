@@ -0,0 +1,252 @@
+/**
+ * Feedback Controller
+ *
+ * Handles HTTP requests for submitting feedback, the public testimonials
+ * feed and admin triage.
+ */
+
+import { Request, Response } from 'express';
+import { feedbackService } from '../services/feedbackService';
+import {
+  feedbackInputSchema,
+  feedbackPublishInputSchema,
+  feedbackQuerySchema,
+  feedbackResponseInputSchema,
+  feedbackStatusInputSchema
+} from '../../shared/schema';
+
+// HTTP status codes for feedback service error codes
+const FEEDBACK_ERROR_STATUS: Record<string, number> = {
+  INVALID_INPUT: 400,
+  INVALID_TRANSITION: 400,
+  FORBIDDEN: 403,
+  NOT_FOUND: 404,
+  CONSENT_REQUIRED: 409,
+  DATABASE_ERROR: 500,
+  SERVER_ERROR: 500
+};
+
+// Numeric id from a route parameter, or null
+function numericId(value: string): number | null {
+  const id = Number(value);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+class FeedbackController {
+  /**
+   * Public testimonials feed
+   */
+  async getTestimonials(req: Request, res: Response) {
+    try {
+      const result = await feedbackService.getTestimonials();
+
+      if (!result.success) {
+        return res.status(FEEDBACK_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      res.setHeader('Cache-Control', 'public, max-age=300');
+      return res.status(200).json(result.testimonials);
+    } catch (error: any) {
+      console.error('Get testimonials error:', error);
+      return res.status(500).json({ error: error.message || 'Error retrieving testimonials' });
+    }
+  }
+
+  /**
+   * Submit feedback, optionally about one of the user's matches
+   */
+  async submit(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const parsed = feedbackInputSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid feedback', details: parsed.error.issues });
+      }
+
+      const result = await feedbackService.submit({ id: userId, role: req.user!.role }, parsed.data);
+
+      if (!result.success) {
+        return res.status(FEEDBACK_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(201).json({ feedback: result.feedback, message: result.message });
+    } catch (error: any) {
+      console.error('Submit feedback error:', error);
+      return res.status(500).json({ error: error.message || 'Error sending feedback' });
+    }
+  }
+
+  /**
+   * The current user's feedback and any responses
+   */
+  async getMine(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const result = await feedbackService.getMine(userId);
+
+      if (!result.success) {
+        return res.status(FEEDBACK_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({ feedback: result.items });
+    } catch (error: any) {
+      console.error('Get own feedback error:', error);
+      return res.status(500).json({ error: error.message || 'Error retrieving feedback' });
+    }
+  }
+
+  /**
+   * Feedback left on a match
+   */
+  async getMatchFeedback(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const matchId = numericId(req.params.matchId);
+      if (matchId === null) {
+        return res.status(400).json({ error: 'Invalid match id' });
+      }
+
+      const result = await feedbackService.getMatchFeedback({ id: userId, role: req.user!.role }, matchId);
+
+      if (!result.success) {
+        return res.status(FEEDBACK_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({ feedback: result.items });
+    } catch (error: any) {
+      console.error('Get match feedback error:', error);
+      return res.status(500).json({ error: error.message || 'Error retrieving feedback' });
+    }
+  }
+
+  /**
+   * Feedback for triage (admin) (?type=&status=)
+   */
+  async getForTriage(req: Request, res: Response) {
+    try {
+      const parsed = feedbackQuerySchema.safeParse(req.query);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid feedback query', details: parsed.error.issues });
+      }
+
+      const result = await feedbackService.getForTriage(parsed.data);
+
+      if (!result.success) {
+        return res.status(FEEDBACK_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({ feedback: result.items, count: result.items?.length || 0 });
+    } catch (error: any) {
+      console.error('Get feedback for triage error:', error);
+      return res.status(500).json({ error: error.message || 'Error retrieving feedback' });
+    }
+  }
+
+  /**
+   * Move feedback to another status (admin)
+   */
+  async changeStatus(req: Request, res: Response) {
+    try {
+      const feedbackId = numericId(req.params.id);
+      if (feedbackId === null) {
+        return res.status(400).json({ error: 'Invalid feedback id' });
+      }
+
+      const parsed = feedbackStatusInputSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid status', details: parsed.error.issues });
+      }
+
+      const result = await feedbackService.changeStatus(feedbackId, parsed.data.status);
+
+      if (!result.success) {
+        return res.status(FEEDBACK_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({ feedback: result.feedback });
+    } catch (error: any) {
+      console.error('Change feedback status error:', error);
+      return res.status(500).json({ error: error.message || 'Error updating feedback' });
+    }
+  }
+
+  /**
+   * Answer feedback (admin); the author is notified
+   */
+  async respond(req: Request, res: Response) {
+    try {
+      const feedbackId = numericId(req.params.id);
+      if (feedbackId === null) {
+        return res.status(400).json({ error: 'Invalid feedback id' });
+      }
+
+      const parsed = feedbackResponseInputSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid response', details: parsed.error.issues });
+      }
+
+      const result = await feedbackService.respond(feedbackId, parsed.data.response, parsed.data.status);
+
+      if (!result.success) {
+        return res.status(FEEDBACK_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({ feedback: result.feedback, message: result.message });
+    } catch (error: any) {
+      console.error('Respond to feedback error:', error);
+      return res.status(500).json({ error: error.message || 'Error responding to feedback' });
+    }
+  }
+
+  /**
+   * Approve feedback as a public testimonial, or withdraw it (admin)
+   */
+  async setPublic(req: Request, res: Response) {
+    try {
+      const feedbackId = numericId(req.params.id);
+      if (feedbackId === null) {
+        return res.status(400).json({ error: 'Invalid feedback id' });
+      }
+
+      const parsed = feedbackPublishInputSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid request', details: parsed.error.issues });
+      }
+
+      const result = await feedbackService.setPublic(feedbackId, parsed.data.public);
+
+      if (!result.success) {
+        return res.status(FEEDBACK_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({ feedback: result.feedback, message: result.message });
+    } catch (error: any) {
+      console.error('Publish feedback error:', error);
+      return res.status(500).json({ error: error.message || 'Error updating feedback' });
+    }
+  }
+}
+
+// Create and export singleton instance
+export const feedbackController = new FeedbackController();
+export default feedbackController;
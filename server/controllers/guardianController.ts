@@ -0,0 +1,127 @@
+/**
+ * Guardian Controller
+ *
+ * Handles HTTP requests for guardian consent: the athlete's side (status and
+ * invites) and the guardian's emailed-link view and decision.
+ */
+
+import { Request, Response } from 'express';
+import { guardianConsentService } from '../services/guardianConsentService';
+import { guardianConsentDecisionSchema, guardianInviteSchema } from '../../shared/schema';
+
+// HTTP status codes for guardian consent service error codes
+const GUARDIAN_ERROR_STATUS: Record<string, number> = {
+  INVALID_INPUT: 400,
+  INVALID_OPERATION: 400,
+  FORBIDDEN: 403,
+  NOT_FOUND: 404,
+  INVALID_LINK: 410,
+  EMAIL_ERROR: 502,
+  DATABASE_ERROR: 500,
+  SERVER_ERROR: 500
+};
+
+class GuardianController {
+  /**
+   * Get the current athlete's age-based consent requirement and guardian
+   */
+  async getConsent(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const result = await guardianConsentService.getSummary(userId);
+
+      if (!result.success) {
+        return res.status(GUARDIAN_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json(result.summary);
+    } catch (error: any) {
+      console.error('Get guardian consent error:', error);
+      return res.status(500).json({ error: error.message || 'Error retrieving guardian consent' });
+    }
+  }
+
+  /**
+   * Name a guardian and send them a verification link (athlete)
+   */
+  async inviteGuardian(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const parsed = guardianInviteSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid guardian details', details: parsed.error.issues });
+      }
+
+      const result = await guardianConsentService.inviteGuardian(userId, parsed.data);
+
+      if (!result.success) {
+        return res.status(GUARDIAN_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({ message: result.message, consent: result.consent });
+    } catch (error: any) {
+      console.error('Invite guardian error:', error);
+      return res.status(500).json({ error: error.message || 'Error inviting guardian' });
+    }
+  }
+
+  /**
+   * Get the guardian's read-only view (public, token-authorized)
+   */
+  async getGuardianView(req: Request, res: Response) {
+    try {
+      const result = await guardianConsentService.getGuardianView(req.params.token);
+
+      if (!result.success) {
+        return res.status(GUARDIAN_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json(result.view);
+    } catch (error: any) {
+      console.error('Get guardian view error:', error);
+      return res.status(500).json({ error: error.message || 'Error retrieving guardian view' });
+    }
+  }
+
+  /**
+   * Approve or decline consent as the guardian (public, token-authorized)
+   */
+  async respond(req: Request, res: Response) {
+    try {
+      const parsed = guardianConsentDecisionSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid decision', details: parsed.error.issues });
+      }
+
+      const result = await guardianConsentService.respond(req.params.token, parsed.data, {
+        ip: req.ip || null,
+        userAgent: req.get('user-agent') || null
+      });
+
+      if (!result.success) {
+        return res.status(GUARDIAN_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({ message: result.message, consent: result.consent });
+    } catch (error: any) {
+      console.error('Guardian consent decision error:', error);
+      return res.status(500).json({ error: error.message || 'Error saving decision' });
+    }
+  }
+}
+
+// Create and export singleton instance
+export const guardianController = new GuardianController();
+export default guardianController;
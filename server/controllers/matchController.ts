@@ -7,7 +7,10 @@
 import { Request, Response } from 'express';
 import { supabase } from '../lib/supabase';
 import { AppError } from '../lib/error';
-import { wsHelpers } from '../services/websocketService';
+import { notificationService } from '../services/notificationService';
+import { budgetService } from '../services/budgetService';
+import { compensationService } from '../services/compensationService';
+import { describeCompensation } from '../../shared/compensation';
 
 class MatchController {
   /**
@@ -255,31 +258,14 @@ class MatchController {
       }
 
       // Create notification for business
-      await supabase
-        .from('notifications')
-        .insert({
-          user_id: match.business_id,
-          type: `MATCH_${response.toUpperCase()}`,
-          title: `Match ${response === 'accepted' ? 'Accepted' : 'Declined'}`,
-          content: `An athlete has ${response} your match request${message ? ': ' + message : ''}`,
-          reference_type: 'MATCH',
-          reference_id: matchId,
-          is_read: false,
-          created_at: new Date().toISOString()
-        });
-
-      // Send WebSocket notification if available
-      if (wsHelpers.broadcastToChannel) {
-        wsHelpers.broadcastToChannel(`user:${match.business_id}`, {
-          type: 'notification',
-          notification: {
-            type: `MATCH_${response.toUpperCase()}`,
-            title: `Match ${response === 'accepted' ? 'Accepted' : 'Declined'}`,
-            content: `An athlete has ${response} your match request`,
-            matchId: matchId
-          }
-        });
-      }
+      await notificationService.notify(match.business_id, {
+        type: `MATCH_${response.toUpperCase()}`,
+        title: `Match ${response === 'accepted' ? 'Accepted' : 'Declined'}`,
+        content: `An athlete has ${response} your match request${message ? ': ' + message : ''}`,
+        referenceType: 'MATCH',
+        referenceId: matchId,
+        data: { matchId }
+      });
 
       return res.status(200).json({
         message: `Match ${response} successfully`,
@@ -309,11 +295,19 @@ class MatchController {
       }
 
       // Validate required offer fields
-      if (!offerData.compensation_type || !offerData.offer_amount || 
-          !offerData.term || !offerData.usage_rights) {
+      if (!offerData.term || !offerData.usage_rights) {
         return res.status(400).json({ error: 'Missing required offer details' });
       }
 
+      // Structured compensation, or the legacy compensation_type / offer_amount pair
+      const compensationResult = compensationService.resolveOfferCompensation(offerData);
+
+      if (!compensationResult.success || !compensationResult.fields) {
+        return res.status(400).json({ error: compensationResult.error, code: compensationResult.code });
+      }
+
+      const compensationFields = compensationResult.fields;
+
       // Get the match to verify ownership and get related IDs
       const { data: match, error: matchError } = await supabase
         .from('match_scores')
@@ -346,6 +340,29 @@ class MatchController {
         return res.status(400).json({ error: 'An offer already exists for this match' });
       }
 
+      const minimumCheck = await compensationService.checkAthleteMinimum(
+        match.athlete_id,
+        compensationFields.compensation,
+        offerData.deliverables
+      );
+
+      if (!minimumCheck.success) {
+        return res.status(minimumCheck.code === 'BELOW_MINIMUM' ? 422 : 500).json({
+          error: minimumCheck.error,
+          code: minimumCheck.code
+        });
+      }
+
+      const budgetCheck = await budgetService.checkOffer(match.campaign_id, compensationFields.offer_amount);
+
+      if (!budgetCheck.allowed) {
+        return res.status(budgetCheck.code === 'BUDGET_EXCEEDED' ? 409 : 500).json({
+          error: budgetCheck.error,
+          code: budgetCheck.code,
+          budget: budgetCheck.budget?.totals
+        });
+      }
+
       // Calculate expiration date (default 7 days)
       const expiresAt = new Date();
       expiresAt.setDate(expiresAt.getDate() + (offerData.expires_in_days || 7));
@@ -358,9 +375,10 @@ class MatchController {
           business_id: match.business_id,
           athlete_id: match.athlete_id,
           campaign_id: match.campaign_id,
-          compensation_type: offerData.compensation_type,
-          offer_amount: offerData.offer_amount,
-          payment_schedule: offerData.payment_schedule,
+          compensation: compensationFields.compensation,
+          compensation_type: compensationFields.compensation_type,
+          offer_amount: compensationFields.offer_amount,
+          payment_schedule: compensationFields.payment_schedule,
           bonus_structure: offerData.bonus_structure,
           deliverables: offerData.deliverables || [],
           content_specifications: offerData.content_specifications,
@@ -383,36 +401,19 @@ class MatchController {
       }
 
       // Create notification for athlete
-      await supabase
-        .from('notifications')
-        .insert({
-          user_id: match.athlete_id,
-          type: 'NEW_PARTNERSHIP_OFFER',
-          title: 'New Partnership Offer',
-          content: `You have received a new partnership offer for ${offerData.offer_amount}`,
-          reference_type: 'OFFER',
-          reference_id: offer.id,
-          is_read: false,
-          created_at: new Date().toISOString()
-        });
-
-      // Send WebSocket notification if available
-      if (wsHelpers.broadcastToChannel) {
-        wsHelpers.broadcastToChannel(`user:${match.athlete_id}`, {
-          type: 'notification',
-          notification: {
-            type: 'NEW_PARTNERSHIP_OFFER',
-            title: 'New Partnership Offer',
-            content: `You have received a new partnership offer`,
-            offerId: offer.id,
-            matchId: matchId
-          }
-        });
-      }
+      await notificationService.notify(match.athlete_id, {
+        type: 'NEW_PARTNERSHIP_OFFER',
+        title: 'New Partnership Offer',
+        content: `You have received a new partnership offer for ${describeCompensation(compensationFields.compensation)}`,
+        referenceType: 'OFFER',
+        referenceId: offer.id,
+        data: { offerId: offer.id, matchId }
+      });
 
       return res.status(201).json({
         message: 'Partnership offer created successfully',
-        offer
+        offer,
+        budget_warnings: budgetCheck.warnings
       });
     } catch (error: any) {
       console.error('Create offer error:', error);
@@ -474,53 +475,23 @@ class MatchController {
       const notificationTitle = `Compliance ${status === 'approved' ? 'Approved' : status === 'rejected' ? 'Rejected' : 'Updated'}`;
       const notificationContent = `Your match has been ${status} by compliance${notes ? ': ' + notes : ''}`;
 
-      // Notify athlete
-      await supabase
-        .from('notifications')
-        .insert({
-          user_id: match.athlete_id,
-          type: notificationType,
-          title: notificationTitle,
-          content: notificationContent,
-          reference_type: 'MATCH',
-          reference_id: matchId,
-          is_read: false,
-          created_at: new Date().toISOString()
-        });
-
-      // Notify business
-      await supabase
-        .from('notifications')
-        .insert({
-          user_id: match.business_id,
-          type: notificationType,
-          title: notificationTitle,
-          content: notificationContent,
-          reference_type: 'MATCH',
-          reference_id: matchId,
-          is_read: false,
-          created_at: new Date().toISOString()
-        });
-
-      // Send WebSocket notifications
-      if (wsHelpers.broadcastToChannel) {
-        const notification = {
-          type: notificationType,
-          title: notificationTitle,
-          content: notificationContent,
-          matchId: matchId
-        };
-
-        wsHelpers.broadcastToChannel(`user:${match.athlete_id}`, {
-          type: 'notification',
-          notification
-        });
+      await notificationService.notify(match.athlete_id, {
+        type: notificationType,
+        title: notificationTitle,
+        content: notificationContent,
+        referenceType: 'MATCH',
+        referenceId: matchId,
+        data: { matchId }
+      });
 
-        wsHelpers.broadcastToChannel(`user:${match.business_id}`, {
-          type: 'notification',
-          notification
-        });
-      }
+      await notificationService.notify(match.business_id, {
+        type: notificationType,
+        title: notificationTitle,
+        content: notificationContent,
+        referenceType: 'MATCH',
+        referenceId: matchId,
+        data: { matchId }
+      });
 
       return res.status(200).json({
         message: `Compliance status updated to ${status}`,
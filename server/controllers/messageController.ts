@@ -0,0 +1,275 @@
+/**
+ * Message Controller
+ *
+ * Handles HTTP requests for athlete-business message threads.
+ */
+
+import { Request, Response } from 'express';
+import multer from 'multer';
+import path from 'path';
+import { messagingService } from '../services/messagingService';
+import {
+  createMessageThreadSchema,
+  markMessagesReadSchema,
+  sendThreadMessageSchema
+} from '../../shared/schema';
+
+// HTTP status codes for messaging service error codes
+const MESSAGE_ERROR_STATUS: Record<string, number> = {
+  INVALID_INPUT: 400,
+  FORBIDDEN: 403,
+  GUARDIAN_CONSENT_REQUIRED: 403,
+  NOT_FOUND: 404,
+  STORAGE_ERROR: 502,
+  DATABASE_ERROR: 500,
+  SERVER_ERROR: 500
+};
+
+// Attachments are kept in memory and streamed straight to object storage
+export const attachmentUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 10 * 1024 * 1024, files: 5 }, // 10MB each
+  fileFilter: (req, file, cb) => {
+    const allowedTypes = /jpeg|jpg|png|gif|webp|pdf/;
+    const ext = path.extname(file.originalname).toLowerCase();
+
+    if (allowedTypes.test(file.mimetype) && allowedTypes.test(ext)) {
+      return cb(null, true);
+    }
+
+    cb(new Error('Only image and PDF attachments are allowed!'));
+  }
+});
+
+class MessageController {
+  /**
+   * List the current user's threads
+   */
+  async getThreads(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const result = await messagingService.getThreads(userId);
+
+      if (!result.success) {
+        return res.status(MESSAGE_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({ threads: result.threads, count: result.threads?.length || 0 });
+    } catch (error: any) {
+      console.error('Get message threads error:', error);
+      return res.status(500).json({ error: error.message || 'Error retrieving threads' });
+    }
+  }
+
+  /**
+   * Open (or reuse) the thread for a match or offer
+   */
+  async openThread(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const parsed = createMessageThreadSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid thread', details: parsed.error.issues });
+      }
+
+      const result = await messagingService.openThread(userId, parsed.data);
+
+      if (!result.success) {
+        return res.status(MESSAGE_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({ thread: result.thread });
+    } catch (error: any) {
+      console.error('Open message thread error:', error);
+      return res.status(500).json({ error: error.message || 'Error opening thread' });
+    }
+  }
+
+  /**
+   * Get total unread messages for the current user
+   */
+  async getUnreadCount(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const result = await messagingService.getUnreadCount(userId);
+
+      if (!result.success) {
+        return res.status(MESSAGE_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({ unreadCount: result.unreadCount });
+    } catch (error: any) {
+      console.error('Get unread message count error:', error);
+      return res.status(500).json({ error: error.message || 'Error retrieving unread count' });
+    }
+  }
+
+  /**
+   * Get a thread by ID
+   */
+  async getThread(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const result = await messagingService.getThread(req.params.id, userId);
+
+      if (!result.success) {
+        return res.status(MESSAGE_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({ thread: result.thread });
+    } catch (error: any) {
+      console.error('Get message thread error:', error);
+      return res.status(500).json({ error: error.message || 'Error retrieving thread' });
+    }
+  }
+
+  /**
+   * Get a page of messages in a thread
+   */
+  async getMessages(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const result = await messagingService.getMessages(req.params.id, userId, {
+        before: req.query.before as string,
+        limit: req.query.limit ? parseInt(req.query.limit as string, 10) : undefined
+      });
+
+      if (!result.success) {
+        return res.status(MESSAGE_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({ messages: result.messages, hasMore: result.hasMore });
+    } catch (error: any) {
+      console.error('Get thread messages error:', error);
+      return res.status(500).json({ error: error.message || 'Error retrieving messages' });
+    }
+  }
+
+  /**
+   * Send a message with optional attachments
+   */
+  async sendMessage(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const parsed = sendThreadMessageSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid message', details: parsed.error.issues });
+      }
+
+      const files = (req.files as Express.Multer.File[] | undefined) || [];
+      const uploads = files.map(file => ({
+        buffer: file.buffer,
+        originalName: file.originalname,
+        mimeType: file.mimetype
+      }));
+
+      const result = await messagingService.sendMessage(req.params.id, userId, parsed.data.content, uploads);
+
+      if (!result.success) {
+        return res.status(MESSAGE_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(201).json({ message: result.message });
+    } catch (error: any) {
+      console.error('Send thread message error:', error);
+      return res.status(500).json({ error: error.message || 'Error sending message' });
+    }
+  }
+
+  /**
+   * Mark received messages in a thread as read
+   */
+  async markRead(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const parsed = markMessagesReadSchema.safeParse(req.body || {});
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid read receipt', details: parsed.error.issues });
+      }
+
+      const result = await messagingService.markMessagesRead(req.params.id, userId, parsed.data.message_ids);
+
+      if (!result.success) {
+        return res.status(MESSAGE_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({ messageIds: result.messageIds });
+    } catch (error: any) {
+      console.error('Mark messages read error:', error);
+      return res.status(500).json({ error: error.message || 'Error marking messages as read' });
+    }
+  }
+
+  /**
+   * Download a message attachment
+   */
+  async getAttachment(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const result = await messagingService.getAttachment(
+        req.params.id,
+        req.params.messageId,
+        parseInt(req.params.index, 10),
+        userId
+      );
+
+      if (!result.success || !result.file) {
+        return res.status(MESSAGE_ERROR_STATUS[result.code || ''] || 404).json({ error: result.error });
+      }
+
+      res.type(result.contentType || path.extname(result.fileName || '.bin'));
+      res.setHeader('Content-Disposition', `inline; filename="${encodeURIComponent(result.fileName || 'attachment')}"`);
+      return res.status(200).send(result.file);
+    } catch (error: any) {
+      console.error('Get message attachment error:', error);
+      return res.status(500).json({ error: error.message || 'Error retrieving attachment' });
+    }
+  }
+}
+
+// Create and export singleton instance
+export const messageController = new MessageController();
+export default messageController;
@@ -0,0 +1,231 @@
+/**
+ * Notification Controller
+ *
+ * Handles HTTP requests for the in-app notification center.
+ */
+
+import { Request, Response } from 'express';
+import { notificationService } from '../services/notificationService';
+import { markNotificationsReadSchema, updateNotificationPreferencesSchema } from '../../shared/schema';
+
+// HTTP status codes for notification service error codes
+const NOTIFICATION_ERROR_STATUS: Record<string, number> = {
+  INVALID_INPUT: 400,
+  NOT_FOUND: 404,
+  DATABASE_ERROR: 500,
+  SERVER_ERROR: 500
+};
+
+class NotificationController {
+  /**
+   * List the current user's notifications
+   */
+  async getNotifications(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const result = await notificationService.getNotifications(userId, {
+        page: req.query.page ? parseInt(req.query.page as string, 10) : undefined,
+        limit: req.query.limit ? parseInt(req.query.limit as string, 10) : undefined,
+        unreadOnly: req.query.unread === 'true'
+      });
+
+      if (!result.success) {
+        return res.status(NOTIFICATION_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({
+        notifications: result.notifications,
+        total: result.total,
+        page: result.page,
+        limit: result.limit,
+        unreadCount: result.unreadCount
+      });
+    } catch (error: any) {
+      console.error('Get notifications error:', error);
+      return res.status(500).json({ error: error.message || 'Error retrieving notifications' });
+    }
+  }
+
+  /**
+   * Get the current user's unread notification count
+   */
+  async getUnreadCount(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const result = await notificationService.getUnreadCount(userId);
+
+      if (!result.success) {
+        return res.status(NOTIFICATION_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({ unreadCount: result.unreadCount });
+    } catch (error: any) {
+      console.error('Get unread notification count error:', error);
+      return res.status(500).json({ error: error.message || 'Error retrieving unread count' });
+    }
+  }
+
+  /**
+   * Mark a single notification read
+   */
+  async markRead(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const result = await notificationService.markRead(userId, [req.params.id]);
+
+      if (!result.success) {
+        return res.status(NOTIFICATION_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({ updated: result.updated });
+    } catch (error: any) {
+      console.error('Mark notification read error:', error);
+      return res.status(500).json({ error: error.message || 'Error marking notification read' });
+    }
+  }
+
+  /**
+   * Mark the given notifications read, or all of them when no IDs are sent
+   */
+  async markAllRead(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const parsed = markNotificationsReadSchema.safeParse(req.body || {});
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid request', details: parsed.error.issues });
+      }
+
+      const result = await notificationService.markRead(userId, parsed.data.ids);
+
+      if (!result.success) {
+        return res.status(NOTIFICATION_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({ updated: result.updated });
+    } catch (error: any) {
+      console.error('Mark notifications read error:', error);
+      return res.status(500).json({ error: error.message || 'Error marking notifications read' });
+    }
+  }
+
+  /**
+   * Get the current user's notification preferences
+   */
+  async getPreferences(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const result = await notificationService.getPreferences(userId);
+
+      if (!result.success) {
+        return res.status(NOTIFICATION_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({ preferences: result.preferences });
+    } catch (error: any) {
+      console.error('Get notification preferences error:', error);
+      return res.status(500).json({ error: error.message || 'Error retrieving preferences' });
+    }
+  }
+
+  /**
+   * Update the current user's notification preferences
+   */
+  async updatePreferences(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const parsed = updateNotificationPreferencesSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid preferences', details: parsed.error.issues });
+      }
+
+      const result = await notificationService.updatePreferences(userId, parsed.data);
+
+      if (!result.success) {
+        return res.status(NOTIFICATION_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({ preferences: result.preferences });
+    } catch (error: any) {
+      console.error('Update notification preferences error:', error);
+      return res.status(500).json({ error: error.message || 'Error saving preferences' });
+    }
+  }
+
+  /**
+   * Send all pending digests now (admin)
+   */
+  async runDigest(req: Request, res: Response) {
+    try {
+      const result = await notificationService.runDigest({ force: true });
+
+      if (!result.success) {
+        return res.status(NOTIFICATION_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({ sent: result.sent });
+    } catch (error: any) {
+      console.error('Run digest error:', error);
+      return res.status(500).json({ error: error.message || 'Error running digest' });
+    }
+  }
+
+  /**
+   * Delete a notification
+   */
+  async deleteNotification(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const result = await notificationService.deleteNotification(userId, req.params.id);
+
+      if (!result.success) {
+        return res.status(NOTIFICATION_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({ message: 'Notification deleted' });
+    } catch (error: any) {
+      console.error('Delete notification error:', error);
+      return res.status(500).json({ error: error.message || 'Error deleting notification' });
+    }
+  }
+}
+
+// Create and export singleton instance
+export const notificationController = new NotificationController();
+export default notificationController;
@@ -6,7 +6,36 @@
 
 import { Request, Response } from 'express';
 import { supabase } from '../lib/supabase';
-import { wsHelpers } from '../services/websocketService';
+import { notificationService } from '../services/notificationService';
+import {
+  offerNegotiationService,
+  extractOfferTerms,
+  diffOfferTerms
+} from '../services/offerNegotiationService';
+import { deliverableService } from '../services/deliverableService';
+import { payoutService } from '../services/payoutService';
+import { contractService } from '../services/contractService';
+import { complianceService } from '../services/complianceService';
+import { budgetService } from '../services/budgetService';
+import { compensationService } from '../services/compensationService';
+import { guardianConsentService } from '../services/guardianConsentService';
+import { counterOfferSchema, offerUpdateSchema } from '../../shared/schema';
+import { describeCompensation } from '../../shared/compensation';
+
+// HTTP status codes for negotiation service error codes
+const NEGOTIATION_ERROR_STATUS: Record<string, number> = {
+  INVALID_INPUT: 400,
+  INVALID_OPERATION: 400,
+  FORBIDDEN: 403,
+  NOT_FOUND: 404,
+  INVALID_COMPENSATION: 400,
+  INVALID_MILESTONES: 400,
+  BELOW_MINIMUM: 422,
+  BUDGET_EXCEEDED: 409,
+  GUARDIAN_CONSENT_REQUIRED: 403,
+  DATABASE_ERROR: 500,
+  SERVER_ERROR: 500
+};
 
 class OfferController {
   /**
@@ -159,17 +188,78 @@ class OfferController {
         athlete_id, 
         campaign_id, 
         match_id, 
-        compensation_type, 
-        offer_amount,
+        compensation: _compensation,
+        compensation_type: _compensationType, 
+        offer_amount: _offerAmount,
         term,
         usage_rights,
         ...otherFields 
       } = req.body;
 
       // Validate required fields
-      if (!athlete_id || !compensation_type || !offer_amount || !term || !usage_rights) {
+      if (!athlete_id || !term || !usage_rights) {
         return res.status(400).json({ 
-          error: 'Missing required fields (athlete_id, compensation_type, offer_amount, term, usage_rights)' 
+          error: 'Missing required fields (athlete_id, compensation, term, usage_rights)' 
+        });
+      }
+
+      // Structured compensation, or the legacy compensation_type / offer_amount pair
+      const compensationResult = compensationService.resolveOfferCompensation(req.body);
+
+      if (!compensationResult.success || !compensationResult.fields) {
+        return res.status(400).json({ error: compensationResult.error, code: compensationResult.code });
+      }
+
+      const compensationFields = compensationResult.fields;
+
+      const minimumCheck = await compensationService.checkAthleteMinimum(
+        athlete_id,
+        compensationFields.compensation,
+        otherFields.deliverables
+      );
+
+      if (!minimumCheck.success) {
+        return res.status(NEGOTIATION_ERROR_STATUS[minimumCheck.code || ''] || 400).json({
+          error: minimumCheck.error,
+          code: minimumCheck.code
+        });
+      }
+
+      const milestoneResult = compensationService.resolveMilestones(
+        otherFields.payment_milestones,
+        compensationFields.offer_amount,
+        otherFields.deliverables
+      );
+
+      if (!milestoneResult.success) {
+        return res.status(400).json({ error: milestoneResult.error, code: milestoneResult.code });
+      }
+
+      otherFields.payment_milestones = milestoneResult.milestones;
+
+      // Offers can only go out on campaigns that are being prepared or running
+      if (campaign_id) {
+        const { data: campaign } = await supabase
+          .from('campaigns')
+          .select('status')
+          .eq('id', campaign_id)
+          .maybeSingle();
+
+        if (campaign && !['draft', 'scheduled', 'active'].includes(campaign.status)) {
+          return res.status(409).json({
+            error: `Cannot send offers on a ${campaign.status} campaign`,
+            code: 'CAMPAIGN_NOT_ACCEPTING_OFFERS'
+          });
+        }
+      }
+
+      const budgetCheck = await budgetService.checkOffer(campaign_id, compensationFields.offer_amount);
+
+      if (!budgetCheck.allowed) {
+        return res.status(budgetCheck.code === 'BUDGET_EXCEEDED' ? 409 : 500).json({
+          error: budgetCheck.error,
+          code: budgetCheck.code,
+          budget: budgetCheck.budget?.totals
         });
       }
 
@@ -185,15 +275,14 @@ class OfferController {
           business_id: userId,
           campaign_id,
           match_id,
-          compensation_type,
-          offer_amount,
           term,
           usage_rights,
           status: 'pending',
           created_at: new Date().toISOString(),
           updated_at: new Date().toISOString(),
           expires_at: expiresAt.toISOString(),
-          ...otherFields
+          ...otherFields,
+          ...compensationFields
         })
         .select()
         .single();
@@ -202,36 +291,32 @@ class OfferController {
         return res.status(400).json({ error: 'Failed to create offer' });
       }
 
-      // Create notification for athlete
-      await supabase
-        .from('notifications')
-        .insert({
-          user_id: athlete_id,
-          type: 'NEW_PARTNERSHIP_OFFER',
-          title: 'New Partnership Offer',
-          content: `You have received a new partnership offer for ${offer_amount}`,
-          reference_type: 'OFFER',
-          reference_id: offer.id,
-          is_read: false,
-          created_at: new Date().toISOString()
-        });
+      // Record the opening terms as revision 1 of the negotiation
+      const revisionResult = await offerNegotiationService.recordRevision(
+        offer,
+        userId,
+        'business',
+        extractOfferTerms(offer)
+      );
 
-      // Send WebSocket notification if available
-      if (wsHelpers.broadcastToChannel) {
-        wsHelpers.broadcastToChannel(`user:${athlete_id}`, {
-          type: 'notification',
-          notification: {
-            type: 'NEW_PARTNERSHIP_OFFER',
-            title: 'New Partnership Offer',
-            content: `You have received a new partnership offer`,
-            offerId: offer.id
-          }
-        });
+      if (!revisionResult.success) {
+        console.error('Failed to record initial offer revision:', revisionResult.error);
       }
 
+      // Create notification for athlete
+      await notificationService.notify(athlete_id, {
+        type: 'NEW_PARTNERSHIP_OFFER',
+        title: 'New Partnership Offer',
+        content: `You have received a new partnership offer for ${describeCompensation(compensationFields.compensation)}`,
+        referenceType: 'OFFER',
+        referenceId: offer.id,
+        data: { offerId: offer.id }
+      });
+
       return res.status(201).json({
         message: 'Offer created successfully',
-        offer
+        offer: revisionResult.offer || offer,
+        budget_warnings: budgetCheck.warnings
       });
     } catch (error: any) {
       console.error('Create offer error:', error);
@@ -258,7 +343,7 @@ class OfferController {
       // Check if offer exists and user has permission
       const { data: existingOffer, error: fetchError } = await supabase
         .from('partnership_offers')
-        .select('business_id, status')
+        .select('*')
         .eq('id', offerId)
         .single();
 
@@ -275,11 +360,89 @@ class OfferController {
         return res.status(400).json({ error: `Cannot update offer with status ${existingOffer.status}` });
       }
 
+      // Only the negotiable terms can be amended; parties, status and negotiation
+      // bookkeeping columns are dropped
+      const parsed = offerUpdateSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid offer update', details: parsed.error.issues });
+      }
+
+      const { message: amendmentMessage, ...terms } = parsed.data;
+      const updates: Record<string, any> = terms;
+
+      // Re-derive the structured compensation when any part of it changes
+      if (updates.compensation !== undefined || updates.compensation_type !== undefined || updates.offer_amount !== undefined) {
+        const compensationResult = compensationService.resolveOfferCompensation(
+          updates.compensation !== undefined
+            ? updates
+            : {
+                compensation_type: updates.compensation_type ?? existingOffer.compensation_type,
+                offer_amount: updates.offer_amount ?? existingOffer.offer_amount
+              }
+        );
+
+        if (!compensationResult.success || !compensationResult.fields) {
+          return res.status(400).json({ error: compensationResult.error, code: compensationResult.code });
+        }
+
+        const minimumCheck = await compensationService.checkAthleteMinimum(
+          existingOffer.athlete_id,
+          compensationResult.fields.compensation,
+          updates.deliverables ?? existingOffer.deliverables
+        );
+
+        if (!minimumCheck.success) {
+          return res.status(NEGOTIATION_ERROR_STATUS[minimumCheck.code || ''] || 400).json({
+            error: minimumCheck.error,
+            code: minimumCheck.code
+          });
+        }
+
+        Object.assign(updates, compensationResult.fields);
+      }
+
+      // Milestones have to keep adding up whenever they or the cash change
+      if (updates.payment_milestones !== undefined || updates.offer_amount !== undefined || updates.deliverables !== undefined) {
+        const milestoneResult = compensationService.resolveMilestones(
+          updates.payment_milestones !== undefined ? updates.payment_milestones : existingOffer.payment_milestones,
+          Number(updates.offer_amount ?? existingOffer.offer_amount) || 0,
+          updates.deliverables ?? existingOffer.deliverables
+        );
+
+        if (!milestoneResult.success) {
+          return res.status(400).json({ error: milestoneResult.error, code: milestoneResult.code });
+        }
+
+        updates.payment_milestones = milestoneResult.milestones;
+      }
+
+      // Work out which negotiable terms actually change
+      const changes = diffOfferTerms(extractOfferTerms(existingOffer), extractOfferTerms(updates));
+
+      // A new amount replaces the old one in the campaign budget
+      let budgetWarnings: string[] = [];
+      if (changes.some(change => change.field === 'offer_amount')) {
+        const budgetCheck = await budgetService.checkOffer(existingOffer.campaign_id, updates.offer_amount, {
+          excludeOfferId: offerId
+        });
+
+        if (!budgetCheck.allowed) {
+          return res.status(budgetCheck.code === 'BUDGET_EXCEEDED' ? 409 : 500).json({
+            error: budgetCheck.error,
+            code: budgetCheck.code,
+            budget: budgetCheck.budget?.totals
+          });
+        }
+
+        budgetWarnings = budgetCheck.warnings;
+      }
+
       // Update the offer
       const { data, error } = await supabase
         .from('partnership_offers')
         .update({
-          ...req.body,
+          ...updates,
           updated_at: new Date().toISOString()
         })
         .eq('id', offerId)
@@ -290,36 +453,58 @@ class OfferController {
         return res.status(400).json({ error: 'Failed to update offer' });
       }
 
-      // Notify athlete about the update
-      await supabase
-        .from('notifications')
-        .insert({
-          user_id: data.athlete_id,
-          type: 'OFFER_UPDATED',
-          title: 'Offer Updated',
-          content: 'A partnership offer has been updated',
-          reference_type: 'OFFER',
-          reference_id: offerId,
-          is_read: false,
-          created_at: new Date().toISOString()
-        });
-
-      // Send WebSocket notification if available
-      if (wsHelpers.broadcastToChannel) {
-        wsHelpers.broadcastToChannel(`user:${data.athlete_id}`, {
-          type: 'notification',
-          notification: {
-            type: 'OFFER_UPDATED',
-            title: 'Offer Updated',
-            content: 'A partnership offer has been updated',
-            offerId: offerId
-          }
-        });
+      // Amended terms become a new revision instead of silently replacing the old ones
+      let revision;
+      if (changes.length > 0) {
+        if (!existingOffer.revision_count) {
+          await offerNegotiationService.recordRevision(
+            existingOffer,
+            userId,
+            'business',
+            extractOfferTerms(existingOffer)
+          );
+        }
+
+        const revisionResult = await offerNegotiationService.recordRevision(
+          data,
+          userId,
+          'business',
+          extractOfferTerms(updates),
+          amendmentMessage
+        );
+
+        if (!revisionResult.success) {
+          console.error('Failed to record offer amendment revision:', revisionResult.error);
+        }
+        revision = revisionResult.revision;
+      }
+
+      // Revised terms go back to compliance if they asked for changes
+      if (changes.length > 0) {
+        const resubmitResult = await complianceService.resubmitAfterRevision(offerId, userId);
+        if (resubmitResult && !resubmitResult.success) {
+          console.error('Failed to resubmit offer for compliance review:', resubmitResult.error);
+        }
       }
 
+      // Notify athlete about the update
+      await notificationService.notify(data.athlete_id, {
+        type: 'OFFER_UPDATED',
+        title: 'Offer Updated',
+        content: changes.length > 0
+          ? `A partnership offer has been updated (${changes.map(change => change.field).join(', ')})`
+          : 'A partnership offer has been updated',
+        referenceType: 'OFFER',
+        referenceId: offerId,
+        data: { offerId, changes }
+      });
+
       return res.status(200).json({
         message: 'Offer updated successfully',
-        offer: data
+        offer: data,
+        revision,
+        changes,
+        budget_warnings: budgetWarnings
       });
     } catch (error: any) {
       console.error('Update offer error:', error);
@@ -348,6 +533,33 @@ class OfferController {
         return res.status(400).json({ error: 'Valid response (accepted/declined/countered) is required' });
       }
 
+      // Counter-offers carry new terms and go through the negotiation workflow
+      if (response === 'countered') {
+        const parsed = counterOfferSchema.safeParse({ terms: req.body.terms, message });
+
+        if (!parsed.success) {
+          return res.status(400).json({ error: 'Counter-offer terms are required', details: parsed.error.issues });
+        }
+
+        const result = await offerNegotiationService.counterOffer(
+          offerId,
+          userId,
+          'athlete',
+          parsed.data.terms,
+          parsed.data.message
+        );
+
+        if (!result.success) {
+          return res.status(NEGOTIATION_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+        }
+
+        return res.status(200).json({
+          message: 'Offer countered successfully',
+          offer: result.offer,
+          revision: result.revision
+        });
+      }
+
       // Get the offer to verify ownership
       const { data: offer, error: offerError } = await supabase
         .from('partnership_offers')
@@ -364,11 +576,26 @@ class OfferController {
         return res.status(403).json({ error: 'You do not have permission to respond to this offer' });
       }
 
+      if (offer.status === 'frozen') {
+        return res.status(409).json({ error: 'This offer is on hold while its campaign is paused', code: 'OFFER_FROZEN' });
+      }
+
       // Check if offer is already responded to
       if (offer.status !== 'pending') {
         return res.status(400).json({ error: `Offer has already been ${offer.status}` });
       }
 
+      // Athletes under 18 need a guardian's approval before accepting
+      if (response === 'accepted') {
+        const consentCheck = await guardianConsentService.checkConsent(offer.athlete_id);
+        if (!consentCheck.allowed) {
+          return res.status(NEGOTIATION_ERROR_STATUS[consentCheck.code || ''] || 400).json({
+            error: consentCheck.error,
+            code: consentCheck.code
+          });
+        }
+      }
+
       // Update offer status
       const { data: updatedOffer, error: updateError } = await supabase
         .from('partnership_offers')
@@ -386,36 +613,43 @@ class OfferController {
         return res.status(500).json({ error: 'Failed to update offer status' });
       }
 
-      // Create notification for business
-      await supabase
-        .from('notifications')
-        .insert({
-          user_id: offer.business_id,
-          type: `OFFER_${response.toUpperCase()}`,
-          title: `Offer ${response === 'accepted' ? 'Accepted' : response === 'declined' ? 'Declined' : 'Countered'}`,
-          content: `An athlete has ${response} your offer${message ? ': ' + message : ''}`,
-          reference_type: 'OFFER',
-          reference_id: offerId,
-          is_read: false,
-          created_at: new Date().toISOString()
-        });
+      // Break the accepted offer into dated deliverables, charge the business into escrow and draw up the contract
+      let escrow = null;
+      let contract = null;
+      if (response === 'accepted') {
+        const deliverablesResult = await deliverableService.createFromOffer(updatedOffer);
+        if (!deliverablesResult.success) {
+          console.error('Failed to create deliverables for offer:', deliverablesResult.error);
+        }
 
-      // Send WebSocket notification if available
-      if (wsHelpers.broadcastToChannel) {
-        wsHelpers.broadcastToChannel(`user:${offer.business_id}`, {
-          type: 'notification',
-          notification: {
-            type: `OFFER_${response.toUpperCase()}`,
-            title: `Offer ${response === 'accepted' ? 'Accepted' : response === 'declined' ? 'Declined' : 'Countered'}`,
-            content: `An athlete has ${response} your offer`,
-            offerId: offerId
-          }
-        });
+        const escrowResult = await payoutService.fundOffer(updatedOffer);
+        if (!escrowResult.success) {
+          console.error('Failed to fund escrow for offer:', escrowResult.error);
+        }
+        escrow = escrowResult.escrow || null;
+
+        const contractResult = await contractService.generateForOffer(updatedOffer);
+        if (!contractResult.success) {
+          console.error('Failed to generate contract for offer:', contractResult.error);
+        }
+        contract = contractResult.contract || null;
       }
 
+      // Create notification for business
+      await notificationService.notify(offer.business_id, {
+        type: `OFFER_${response.toUpperCase()}`,
+        title: `Offer ${response === 'accepted' ? 'Accepted' : 'Declined'}`,
+        content: `An athlete has ${response} your offer${message ? ': ' + message : ''}`,
+        referenceType: 'OFFER',
+        referenceId: offerId,
+        data: { offerId }
+      });
+
       return res.status(200).json({
         message: `Offer ${response} successfully`,
-        offer: updatedOffer
+        offer: updatedOffer,
+        escrow,
+        contract
       });
     } catch (error: any) {
       console.error('Respond to offer error:', error);
@@ -423,6 +657,115 @@ class OfferController {
     }
   }
 
+  /**
+   * Get the negotiation history (revisions with diffs) of an offer
+   */
+  async getOfferRevisions(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+      const userRole = req.user?.role;
+      const offerId = req.params.id;
+
+      if (!userId || !userRole) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const result = await offerNegotiationService.getRevisions(offerId, userId, userRole);
+
+      if (!result.success) {
+        return res.status(NEGOTIATION_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({
+        offerId,
+        currentRevisionId: result.offer?.current_revision_id || null,
+        revisions: result.revisions,
+        count: result.revisions?.length || 0
+      });
+    } catch (error: any) {
+      console.error('Get offer revisions error:', error);
+      return res.status(500).json({ error: error.message || 'Error retrieving offer revisions' });
+    }
+  }
+
+  /**
+   * Counter an offer with changed terms (athlete or business)
+   */
+  async counterOffer(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+      const userRole = req.user?.role;
+      const offerId = req.params.id;
+
+      if (!userId || !userRole) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const parsed = counterOfferSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid counter-offer', details: parsed.error.issues });
+      }
+
+      const result = await offerNegotiationService.counterOffer(
+        offerId,
+        userId,
+        userRole,
+        parsed.data.terms,
+        parsed.data.message
+      );
+
+      if (!result.success) {
+        return res.status(NEGOTIATION_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({
+        message: result.message,
+        offer: result.offer,
+        revision: result.revision
+      });
+    } catch (error: any) {
+      console.error('Counter offer error:', error);
+      return res.status(500).json({ error: error.message || 'Error submitting counter-offer' });
+    }
+  }
+
+  /**
+   * Accept or decline an athlete's counter-offer (business only)
+   */
+  async respondToCounter(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+      const offerId = req.params.id;
+      const { response, message } = req.body;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      if (!response || !['accepted', 'declined'].includes(response)) {
+        return res.status(400).json({ error: 'Valid response (accepted/declined) is required' });
+      }
+
+      const result = await offerNegotiationService.respondToCounter(offerId, userId, response, message);
+
+      if (!result.success) {
+        return res.status(NEGOTIATION_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({
+        message: result.message,
+        offer: result.offer,
+        escrow: result.escrow,
+        clientSecret: result.clientSecret,
+        contract: result.contract
+      });
+    } catch (error: any) {
+      console.error('Respond to counter-offer error:', error);
+      return res.status(500).json({ error: error.message || 'Error responding to counter-offer' });
+    }
+  }
+
   /**
    * Cancel an offer (business only)
    */
@@ -456,8 +799,8 @@ class OfferController {
         return res.status(403).json({ error: 'You do not have permission to cancel this offer' });
       }
 
-      // Only allow canceling pending offers
-      if (offer.status !== 'pending') {
+      // Only allow canceling offers that are still under negotiation
+      if (!['pending', 'countered'].includes(offer.status)) {
         return res.status(400).json({ error: `Cannot cancel offer with status ${offer.status}` });
       }
 
@@ -479,31 +822,14 @@ class OfferController {
       }
 
       // Create notification for athlete
-      await supabase
-        .from('notifications')
-        .insert({
-          user_id: offer.athlete_id,
-          type: 'OFFER_CANCELED',
-          title: 'Offer Canceled',
-          content: `An offer has been canceled${reason ? ': ' + reason : ''}`,
-          reference_type: 'OFFER',
-          reference_id: offerId,
-          is_read: false,
-          created_at: new Date().toISOString()
-        });
-
-      // Send WebSocket notification if available
-      if (wsHelpers.broadcastToChannel) {
-        wsHelpers.broadcastToChannel(`user:${offer.athlete_id}`, {
-          type: 'notification',
-          notification: {
-            type: 'OFFER_CANCELED',
-            title: 'Offer Canceled',
-            content: `An offer has been canceled`,
-            offerId: offerId
-          }
-        });
-      }
+      await notificationService.notify(offer.athlete_id, {
+        type: 'OFFER_CANCELED',
+        title: 'Offer Canceled',
+        content: `An offer has been canceled${reason ? ': ' + reason : ''}`,
+        referenceType: 'OFFER',
+        referenceId: offerId,
+        data: { offerId }
+      });
 
       return res.status(200).json({
         message: 'Offer canceled successfully',
@@ -0,0 +1,305 @@
+/**
+ * Payout Controller
+ *
+ * Handles HTTP requests for athlete payout accounts, offer escrow, payment
+ * milestones and payout history.
+ */
+
+import { Request, Response } from 'express';
+import { payoutService, EarningsPeriod } from '../services/payoutService';
+import { milestoneDisputeSchema, milestoneResolutionSchema } from '../../shared/schema';
+
+// HTTP status codes for payout service error codes
+const PAYOUT_ERROR_STATUS: Record<string, number> = {
+  INVALID_INPUT: 400,
+  INVALID_OPERATION: 400,
+  FORBIDDEN: 403,
+  NOT_FOUND: 404,
+  CONFLICT: 409,
+  PROVIDER_ERROR: 502,
+  DATABASE_ERROR: 500,
+  SERVER_ERROR: 500
+};
+
+const EARNINGS_PERIODS: EarningsPeriod[] = ['thisWeek', 'thisMonth', 'lastMonth', 'thisYear'];
+
+class PayoutController {
+  /**
+   * Get the current athlete's payout account
+   */
+  async getAccount(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const result = await payoutService.getAccount(userId);
+
+      if (!result.success) {
+        return res.status(PAYOUT_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({ account: result.account, provider: payoutService.getProviderName() });
+    } catch (error: any) {
+      console.error('Get payout account error:', error);
+      return res.status(500).json({ error: error.message || 'Error retrieving payout account' });
+    }
+  }
+
+  /**
+   * Start (or resume) connected-account onboarding and return the provider's link
+   */
+  async startOnboarding(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      // Return to the Earnings tab once the provider's onboarding flow is done
+      const dashboardUrl = `${req.protocol}://${req.get('host')}/athlete/dashboard?tab=earnings`;
+      const { returnUrl, refreshUrl } = req.body || {};
+
+      const result = await payoutService.startOnboarding(userId, {
+        returnUrl: returnUrl || dashboardUrl,
+        refreshUrl: refreshUrl || dashboardUrl
+      });
+
+      if (!result.success) {
+        return res.status(PAYOUT_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({ url: result.url, account: result.account });
+    } catch (error: any) {
+      console.error('Start payout onboarding error:', error);
+      return res.status(500).json({ error: error.message || 'Error starting payout onboarding' });
+    }
+  }
+
+  /**
+   * Earnings totals and payout history for a period
+   */
+  async getEarnings(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const period = (req.query.period as EarningsPeriod) || 'thisMonth';
+
+      if (!EARNINGS_PERIODS.includes(period)) {
+        return res.status(400).json({ error: `period must be one of ${EARNINGS_PERIODS.join(', ')}` });
+      }
+
+      const result = await payoutService.getEarnings(userId, period);
+
+      if (!result.success) {
+        return res.status(PAYOUT_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({ period, summary: result.summary, series: result.series, history: result.history });
+    } catch (error: any) {
+      console.error('Get earnings error:', error);
+      return res.status(500).json({ error: error.message || 'Error retrieving earnings' });
+    }
+  }
+
+  /**
+   * Payout history for the current user
+   */
+  async getPayoutHistory(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+      const userRole = req.user?.role;
+
+      if (!userId || !userRole) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const result = await payoutService.getPayoutHistory(userId, userRole);
+
+      if (!result.success) {
+        return res.status(PAYOUT_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({ payouts: result.history, count: result.history?.length || 0 });
+    } catch (error: any) {
+      console.error('Get payout history error:', error);
+      return res.status(500).json({ error: error.message || 'Error retrieving payouts' });
+    }
+  }
+
+  /**
+   * Get the escrow held for an offer with its payouts
+   */
+  async getOfferEscrow(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const result = await payoutService.getOfferEscrow(req.params.offerId, userId);
+
+      if (!result.success) {
+        return res.status(PAYOUT_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({ escrow: result.escrow, milestones: result.milestones, payouts: result.payouts });
+    } catch (error: any) {
+      console.error('Get offer escrow error:', error);
+      return res.status(500).json({ error: error.message || 'Error retrieving escrow' });
+    }
+  }
+
+  /**
+   * Retry charging an accepted offer into escrow (business)
+   */
+  async fundOfferEscrow(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const result = await payoutService.retryFunding(req.params.offerId, userId);
+
+      if (!result.success) {
+        return res.status(PAYOUT_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({
+        message: result.message,
+        escrow: result.escrow,
+        clientSecret: result.clientSecret
+      });
+    } catch (error: any) {
+      console.error('Fund offer escrow error:', error);
+      return res.status(500).json({ error: error.message || 'Error funding escrow' });
+    }
+  }
+
+  /**
+   * Escrows and their payment milestones for the current user
+   */
+  async getMilestones(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+      const userRole = req.user?.role;
+
+      if (!userId || !userRole) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const result = await payoutService.getMilestones(userId, userRole, {
+        campaignId: req.query.campaignId as string | undefined,
+        offerId: req.query.offerId as string | undefined
+      });
+
+      if (!result.success) {
+        return res.status(PAYOUT_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({ escrows: result.escrows });
+    } catch (error: any) {
+      console.error('Get milestones error:', error);
+      return res.status(500).json({ error: error.message || 'Error retrieving milestones' });
+    }
+  }
+
+  /**
+   * Release a funded milestone to the athlete (business)
+   */
+  async releaseMilestone(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const result = await payoutService.releaseMilestone(req.params.milestoneId, userId);
+
+      if (!result.success) {
+        return res.status(PAYOUT_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({ milestone: result.milestone, escrow: result.escrow, payout: result.payout });
+    } catch (error: any) {
+      console.error('Release milestone error:', error);
+      return res.status(500).json({ error: error.message || 'Error releasing milestone' });
+    }
+  }
+
+  /**
+   * Dispute a milestone, freezing its funds
+   */
+  async disputeMilestone(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const parsed = milestoneDisputeSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid dispute', details: parsed.error.issues });
+      }
+
+      const result = await payoutService.disputeMilestone(req.params.milestoneId, userId, parsed.data.reason);
+
+      if (!result.success) {
+        return res.status(PAYOUT_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({ milestone: result.milestone });
+    } catch (error: any) {
+      console.error('Dispute milestone error:', error);
+      return res.status(500).json({ error: error.message || 'Error disputing milestone' });
+    }
+  }
+
+  /**
+   * Resolve a disputed milestone by releasing, refunding or resuming it
+   */
+  async resolveMilestoneDispute(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+      const userRole = req.user?.role;
+
+      if (!userId || !userRole) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const parsed = milestoneResolutionSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid resolution', details: parsed.error.issues });
+      }
+
+      const result = await payoutService.resolveDispute(req.params.milestoneId, { id: userId, role: userRole }, parsed.data);
+
+      if (!result.success) {
+        return res.status(PAYOUT_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({ milestone: result.milestone, escrow: result.escrow, payout: result.payout });
+    } catch (error: any) {
+      console.error('Resolve milestone dispute error:', error);
+      return res.status(500).json({ error: error.message || 'Error resolving dispute' });
+    }
+  }
+}
+
+// Create and export singleton instance
+export const payoutController = new PayoutController();
+export default payoutController;
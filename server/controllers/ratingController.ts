@@ -0,0 +1,237 @@
+/**
+ * Rating Controller
+ *
+ * Handles HTTP requests for post-partnership ratings, reputation scores
+ * and rating appeals.
+ */
+
+import { Request, Response } from 'express';
+import { ratingService } from '../services/ratingService';
+import {
+  ratingAppealDecisionSchema,
+  ratingAppealInputSchema,
+  ratingInputSchema
+} from '../../shared/schema';
+
+// HTTP status codes for rating service error codes
+const RATING_ERROR_STATUS: Record<string, number> = {
+  INVALID_INPUT: 400,
+  INVALID_OPERATION: 400,
+  FORBIDDEN: 403,
+  NOT_FOUND: 404,
+  ALREADY_RATED: 409,
+  ALREADY_APPEALED: 409,
+  NOT_ENDED: 409,
+  DATABASE_ERROR: 500,
+  SERVER_ERROR: 500
+};
+
+class RatingController {
+  /**
+   * Ended partnerships the current user still has to rate
+   */
+  async getPending(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const result = await ratingService.getPending({ id: userId, role: req.user!.role });
+
+      if (!result.success) {
+        return res.status(RATING_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({ pending: result.pending });
+    } catch (error: any) {
+      console.error('Get pending ratings error:', error);
+      return res.status(500).json({ error: error.message || 'Error retrieving partnerships to rate' });
+    }
+  }
+
+  /**
+   * Rate the other party of an ended partnership
+   */
+  async submit(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const parsed = ratingInputSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid rating', details: parsed.error.issues });
+      }
+
+      const result = await ratingService.submit({ id: userId, role: req.user!.role }, parsed.data);
+
+      if (!result.success) {
+        return res.status(RATING_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(201).json({ rating: result.rating, message: result.message });
+    } catch (error: any) {
+      console.error('Submit rating error:', error);
+      return res.status(500).json({ error: error.message || 'Error saving rating' });
+    }
+  }
+
+  /**
+   * Ratings the current user has received
+   */
+  async getReceived(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const result = await ratingService.getReceived(userId);
+
+      if (!result.success) {
+        return res.status(RATING_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({ ratings: result.ratings });
+    } catch (error: any) {
+      console.error('Get received ratings error:', error);
+      return res.status(500).json({ error: error.message || 'Error retrieving ratings' });
+    }
+  }
+
+  /**
+   * Ratings the current user has given
+   */
+  async getGiven(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const result = await ratingService.getGiven(userId);
+
+      if (!result.success) {
+        return res.status(RATING_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({ ratings: result.ratings });
+    } catch (error: any) {
+      console.error('Get given ratings error:', error);
+      return res.status(500).json({ error: error.message || 'Error retrieving ratings' });
+    }
+  }
+
+  /**
+   * A user's reputation score (defaults to the current user)
+   */
+  async getReputation(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const result = await ratingService.getReputation(req.params.userId || userId);
+
+      if (!result.success) {
+        return res.status(RATING_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json(result.reputation);
+    } catch (error: any) {
+      console.error('Get reputation error:', error);
+      return res.status(500).json({ error: error.message || 'Error retrieving reputation' });
+    }
+  }
+
+  /**
+   * Appeal a rating the current user received
+   */
+  async appeal(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const parsed = ratingAppealInputSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid appeal', details: parsed.error.issues });
+      }
+
+      const result = await ratingService.appeal(userId, req.params.id, parsed.data.reason);
+
+      if (!result.success) {
+        return res.status(RATING_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({ rating: result.rating, message: result.message });
+    } catch (error: any) {
+      console.error('Appeal rating error:', error);
+      return res.status(500).json({ error: error.message || 'Error appealing rating' });
+    }
+  }
+
+  /**
+   * Ratings with an open appeal (admin)
+   */
+  async getAppeals(req: Request, res: Response) {
+    try {
+      const result = await ratingService.getAppeals();
+
+      if (!result.success) {
+        return res.status(RATING_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({ ratings: result.ratings });
+    } catch (error: any) {
+      console.error('Get rating appeals error:', error);
+      return res.status(500).json({ error: error.message || 'Error retrieving appeals' });
+    }
+  }
+
+  /**
+   * Uphold or remove an appealed rating (admin)
+   */
+  async resolveAppeal(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const parsed = ratingAppealDecisionSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid decision', details: parsed.error.issues });
+      }
+
+      const result = await ratingService.resolveAppeal(userId, req.params.id, parsed.data);
+
+      if (!result.success) {
+        return res.status(RATING_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({ rating: result.rating, message: result.message });
+    } catch (error: any) {
+      console.error('Resolve rating appeal error:', error);
+      return res.status(500).json({ error: error.message || 'Error resolving appeal' });
+    }
+  }
+}
+
+// Create and export singleton instance
+export const ratingController = new RatingController();
+export default ratingController;
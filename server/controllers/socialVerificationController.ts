@@ -0,0 +1,101 @@
+/**
+ * Social Verification Controller
+ *
+ * Handles HTTP requests for verifying ownership of an athlete's social
+ * accounts with one-time codes.
+ */
+
+import { Request, Response } from 'express';
+import { socialVerificationService } from '../services/socialVerificationService';
+
+// HTTP status codes for social verification service error codes
+const VERIFICATION_ERROR_STATUS: Record<string, number> = {
+  INVALID_OPERATION: 400,
+  UNSUPPORTED_PLATFORM: 400,
+  NOT_FOUND: 404,
+  ACCOUNT_NOT_FOUND: 404,
+  CODE_EXPIRED: 410,
+  CODE_NOT_FOUND: 422,
+  RATE_LIMITED: 429,
+  PROVIDER_ERROR: 502,
+  DATABASE_ERROR: 500,
+  SERVER_ERROR: 500
+};
+
+class SocialVerificationController {
+  /**
+   * Get the current athlete's social accounts and their verification state
+   */
+  async getAccounts(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const result = await socialVerificationService.getAccounts(userId);
+
+      if (!result.success) {
+        return res.status(VERIFICATION_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json(result.accounts);
+    } catch (error: any) {
+      console.error('Get social verification error:', error);
+      return res.status(500).json({ error: error.message || 'Error retrieving social accounts' });
+    }
+  }
+
+  /**
+   * Issue a one-time code for an account
+   */
+  async startVerification(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const result = await socialVerificationService.startVerification(userId, req.params.accountId);
+
+      if (!result.success) {
+        return res.status(VERIFICATION_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({ message: result.message, account: result.account });
+    } catch (error: any) {
+      console.error('Start social verification error:', error);
+      return res.status(500).json({ error: error.message || 'Error starting verification' });
+    }
+  }
+
+  /**
+   * Check the platform for the account's code
+   */
+  async checkVerification(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const result = await socialVerificationService.checkVerification(userId, req.params.accountId);
+
+      if (!result.success) {
+        return res.status(VERIFICATION_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error, code: result.code });
+      }
+
+      return res.status(200).json({ message: result.message, account: result.account });
+    } catch (error: any) {
+      console.error('Check social verification error:', error);
+      return res.status(500).json({ error: error.message || 'Error checking verification' });
+    }
+  }
+}
+
+// Create and export singleton instance
+export const socialVerificationController = new SocialVerificationController();
+export default socialVerificationController;
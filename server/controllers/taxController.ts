@@ -0,0 +1,201 @@
+/**
+ * Tax Controller
+ *
+ * Handles HTTP requests for athletes' W-9 forms, yearly earnings and the
+ * admin 1099-NEC reports.
+ */
+
+import { Request, Response } from 'express';
+import { taxService } from '../services/taxService';
+import { w9InputSchema } from '../../shared/schema';
+
+// HTTP status codes for tax service error codes
+const TAX_ERROR_STATUS: Record<string, number> = {
+  INVALID_INPUT: 400,
+  INVALID_OPERATION: 400,
+  FORBIDDEN: 403,
+  NOT_FOUND: 404,
+  W9_REQUIRED: 409,
+  DATABASE_ERROR: 500,
+  SERVER_ERROR: 500
+};
+
+// Tax year from ?year=, defaulting to the last completed year
+function taxYear(req: Request): number | null {
+  if (req.query.year === undefined) {
+    return new Date().getUTCFullYear() - 1;
+  }
+
+  const year = Number(req.query.year);
+  return Number.isInteger(year) && year >= 2000 && year <= 9999 ? year : null;
+}
+
+class TaxController {
+  /**
+   * Get the current athlete's W-9 (TIN masked)
+   */
+  async getW9(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const result = await taxService.getW9(userId);
+
+      if (!result.success) {
+        return res.status(TAX_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({ form: result.form });
+    } catch (error: any) {
+      console.error('Get W-9 error:', error);
+      return res.status(500).json({ error: error.message || 'Error retrieving tax form' });
+    }
+  }
+
+  /**
+   * Submit or replace the current athlete's W-9
+   */
+  async submitW9(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const parsed = w9InputSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        // Never echo the submitted TIN back in validation details
+        const details = parsed.error.issues.map(({ path, message, code }) => ({ path, message, code }));
+        return res.status(400).json({ error: 'Invalid W-9', details });
+      }
+
+      const result = await taxService.submitW9(userId, parsed.data, {
+        ip: req.ip || null,
+        userAgent: req.get('user-agent') || null
+      });
+
+      if (!result.success) {
+        return res.status(TAX_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({ message: result.message, form: result.form });
+    } catch (error: any) {
+      console.error('Submit W-9 error:', error);
+      return res.status(500).json({ error: error.message || 'Error saving tax form' });
+    }
+  }
+
+  /**
+   * Get the current athlete's paid earnings per tax year
+   */
+  async getYearlyEarnings(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const result = await taxService.getYearlyEarnings(userId);
+
+      if (!result.success) {
+        return res.status(TAX_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({ earnings: result.earnings });
+    } catch (error: any) {
+      console.error('Get tax year earnings error:', error);
+      return res.status(500).json({ error: error.message || 'Error retrieving earnings' });
+    }
+  }
+
+  /**
+   * Download a 1099-NEC PDF: the athlete's own (/1099/:year) or any athlete's for admins
+   */
+  async download1099(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+      const userRole = req.user?.role;
+
+      if (!userId || !userRole) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const year = Number(req.params.year);
+      if (!Number.isInteger(year)) {
+        return res.status(400).json({ error: 'Invalid tax year' });
+      }
+
+      const athleteId = req.params.athleteId || userId;
+      const result = await taxService.render1099Pdf(athleteId, year, { id: userId, role: userRole });
+
+      if (!result.success || !result.file) {
+        return res.status(TAX_ERROR_STATUS[result.code || ''] || 404).json({ error: result.error });
+      }
+
+      res.type('application/pdf');
+      res.setHeader('Content-Disposition', `${req.query.inline === 'true' ? 'inline' : 'attachment'}; filename="${result.fileName}"`);
+      return res.status(200).send(result.file);
+    } catch (error: any) {
+      console.error('Download 1099 error:', error);
+      return res.status(500).json({ error: error.message || 'Error creating 1099-NEC' });
+    }
+  }
+
+  /**
+   * List athletes who need a 1099-NEC for a year (admin)
+   */
+  async get1099Report(req: Request, res: Response) {
+    try {
+      const year = taxYear(req);
+      if (year === null) {
+        return res.status(400).json({ error: 'Invalid tax year' });
+      }
+
+      const result = await taxService.get1099Rows(year);
+
+      if (!result.success) {
+        return res.status(TAX_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      return res.status(200).json({ year, rows: result.rows, count: result.rows?.length || 0 });
+    } catch (error: any) {
+      console.error('Get 1099 report error:', error);
+      return res.status(500).json({ error: error.message || 'Error retrieving 1099 report' });
+    }
+  }
+
+  /**
+   * Download the 1099-NEC data for a year as CSV (admin)
+   */
+  async export1099Csv(req: Request, res: Response) {
+    try {
+      const year = taxYear(req);
+      if (year === null) {
+        return res.status(400).json({ error: 'Invalid tax year' });
+      }
+
+      const result = await taxService.export1099Csv(year);
+
+      if (!result.success || result.csv === undefined) {
+        return res.status(TAX_ERROR_STATUS[result.code || ''] || 400).json({ error: result.error });
+      }
+
+      res.type('text/csv');
+      res.setHeader('Content-Disposition', `attachment; filename="${result.fileName}"`);
+      return res.status(200).send(result.csv);
+    } catch (error: any) {
+      console.error('Export 1099 error:', error);
+      return res.status(500).json({ error: error.message || 'Error exporting 1099 data' });
+    }
+  }
+}
+
+// Create and export singleton instance
+export const taxController = new TaxController();
+export default taxController;
@@ -0,0 +1,33 @@
+-- Account status for admin suspension
+ALTER TABLE public.users
+ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'suspended')),
+ADD COLUMN IF NOT EXISTS suspended_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS suspension_reason TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_users_status ON public.users(status) WHERE status <> 'active';
+
+-- Audit trail of admin actions on user accounts (role changes, suspensions, impersonation)
+CREATE TABLE IF NOT EXISTS public.admin_audit_events (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  admin_id UUID NOT NULL REFERENCES public.users(id) ON DELETE RESTRICT,
+  target_user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  action TEXT NOT NULL CHECK (action IN ('role_change', 'suspend', 'reactivate', 'impersonate')),
+  reason TEXT,
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  ip_address TEXT,
+  user_agent TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_audit_events_target ON public.admin_audit_events(target_user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_admin_audit_events_created_at ON public.admin_audit_events(created_at DESC);
+
+-- Add RLS policies for admin_audit_events table
+ALTER TABLE public.admin_audit_events ENABLE ROW LEVEL SECURITY;
+
+-- Audit events are read through the admin API only
+
+-- Allow backend services to append audit events; there is no update policy, so events can't be edited
+CREATE POLICY "Backend can insert admin audit events" ON public.admin_audit_events
+FOR INSERT
+WITH CHECK (true);
@@ -0,0 +1,157 @@
+-- Athlete discovery search: full-text, facet and radius columns on athlete_profiles, and saved searches
+
+-- ZIP code centroids for radius search, loaded from the Census ZCTA gazetteer with
+-- `npm run db:load-zip-codes -- <gazetteer file>` (server/scripts/load-zip-codes.ts)
+CREATE TABLE IF NOT EXISTS public.zip_codes (
+  zip TEXT PRIMARY KEY,
+  latitude DOUBLE PRECISION NOT NULL,
+  longitude DOUBLE PRECISION NOT NULL,
+  city TEXT,
+  state TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_zip_codes_location ON public.zip_codes(latitude, longitude);
+
+-- Normalize content_types (an array, an object of flags or a comma-separated string) into tags
+CREATE OR REPLACE FUNCTION public.athlete_content_type_tags(content JSONB)
+RETURNS TEXT[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(array_agg(DISTINCT lower(trim(tag))), '{}')
+  FROM (
+    SELECT jsonb_array_elements_text(CASE WHEN jsonb_typeof(content) = 'array' THEN content ELSE '[]'::jsonb END) AS tag
+    UNION ALL
+    SELECT key FROM jsonb_each(CASE WHEN jsonb_typeof(content) = 'object' THEN content ELSE '{}'::jsonb END)
+    WHERE value NOT IN ('false'::jsonb, 'null'::jsonb)
+    UNION ALL
+    SELECT regexp_split_to_table(CASE WHEN jsonb_typeof(content) = 'string' THEN content #>> '{}' ELSE '' END, ',')
+  ) tags
+  WHERE trim(tag) <> ''
+$$;
+
+ALTER TABLE public.athlete_profiles
+ADD COLUMN IF NOT EXISTS zip_code TEXT,
+ADD COLUMN IF NOT EXISTS latitude DOUBLE PRECISION,
+ADD COLUMN IF NOT EXISTS longitude DOUBLE PRECISION,
+ADD COLUMN IF NOT EXISTS search_vector TSVECTOR GENERATED ALWAYS AS (
+  setweight(to_tsvector('english'::regconfig, COALESCE(name, '') || ' ' || COALESCE(full_name, '')), 'A') ||
+  setweight(to_tsvector('english'::regconfig, COALESCE(sport, '') || ' ' || COALESCE(school, '')), 'B') ||
+  setweight(to_tsvector('english'::regconfig, COALESCE(sport_achievements, '')), 'C') ||
+  setweight(to_tsvector('english'::regconfig, COALESCE(bio, '')), 'D')
+) STORED,
+-- Some profiles store the engagement rate as a fraction, others as a percentage
+ADD COLUMN IF NOT EXISTS engagement_percent NUMERIC GENERATED ALWAYS AS (
+  CASE WHEN average_engagement_rate > 1 THEN average_engagement_rate ELSE average_engagement_rate * 100 END
+) STORED,
+ADD COLUMN IF NOT EXISTS content_type_tags TEXT[] GENERATED ALWAYS AS (
+  public.athlete_content_type_tags(content_types)
+) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_athlete_profiles_search_vector ON public.athlete_profiles USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_athlete_profiles_content_type_tags ON public.athlete_profiles USING GIN (content_type_tags);
+CREATE INDEX IF NOT EXISTS idx_athlete_profiles_location ON public.athlete_profiles(latitude, longitude) WHERE latitude IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_athlete_profiles_follower_count ON public.athlete_profiles(follower_count DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_athlete_profiles_engagement ON public.athlete_profiles(engagement_percent DESC NULLS LAST, id DESC);
+CREATE INDEX IF NOT EXISTS idx_athlete_profiles_created_at ON public.athlete_profiles(created_at DESC, id DESC);
+
+-- Look up the coordinates of an athlete profile's ZIP code
+CREATE OR REPLACE FUNCTION public.set_athlete_profile_coordinates()
+RETURNS TRIGGER AS $$
+BEGIN
+  SELECT latitude, longitude INTO NEW.latitude, NEW.longitude
+  FROM public.zip_codes
+  WHERE zip = left(NEW.zip_code, 5);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS athlete_profile_coordinates ON public.athlete_profiles;
+CREATE TRIGGER athlete_profile_coordinates
+BEFORE INSERT OR UPDATE OF zip_code ON public.athlete_profiles
+FOR EACH ROW EXECUTE FUNCTION public.set_athlete_profile_coordinates();
+
+-- Recompute coordinates for every profile with a ZIP code, e.g. after (re)loading
+-- zip_codes; the trigger above only runs when a profile's ZIP code changes
+CREATE OR REPLACE FUNCTION public.refresh_athlete_profile_coordinates()
+RETURNS INTEGER AS $$
+DECLARE
+  updated INTEGER;
+BEGIN
+  UPDATE public.athlete_profiles
+  SET latitude = zip_codes.latitude,
+      longitude = zip_codes.longitude
+  FROM public.zip_codes
+  WHERE zip_codes.zip = left(athlete_profiles.zip_code, 5)
+    AND (athlete_profiles.latitude IS DISTINCT FROM zip_codes.latitude
+      OR athlete_profiles.longitude IS DISTINCT FROM zip_codes.longitude);
+
+  GET DIAGNOSTICS updated = ROW_COUNT;
+  RETURN updated;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Keep athlete_profiles.zip_code in step with the ZIP code on the athlete record
+CREATE OR REPLACE FUNCTION public.sync_athlete_profile_zip_code()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.athlete_profiles
+  SET zip_code = NEW.zip_code
+  WHERE id = NEW.id AND zip_code IS DISTINCT FROM NEW.zip_code;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS athlete_zip_code_sync ON public.athletes;
+CREATE TRIGGER athlete_zip_code_sync
+AFTER INSERT OR UPDATE OF zip_code ON public.athletes
+FOR EACH ROW EXECUTE FUNCTION public.sync_athlete_profile_zip_code();
+
+-- Backfill ZIP codes for existing profiles
+UPDATE public.athlete_profiles
+SET zip_code = athletes.zip_code
+FROM public.athletes
+WHERE athletes.id = athlete_profiles.id
+  AND athletes.zip_code IS NOT NULL
+  AND athlete_profiles.zip_code IS DISTINCT FROM athletes.zip_code;
+
+-- Coordinates for profiles whose ZIP code was set before zip_codes was loaded;
+-- the ZIP code loader runs this again once the table is filled
+SELECT public.refresh_athlete_profile_coordinates();
+
+-- Searches businesses save, optionally with alerts for newly matching athletes
+CREATE TABLE IF NOT EXISTS public.saved_athlete_searches (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  business_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  filters JSONB NOT NULL DEFAULT '{}'::jsonb,
+  sort TEXT NOT NULL DEFAULT 'followers',
+  alerts_enabled BOOLEAN NOT NULL DEFAULT true,
+  last_checked_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_alerted_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_athlete_searches_business_id ON public.saved_athlete_searches(business_id);
+CREATE INDEX IF NOT EXISTS idx_saved_athlete_searches_alerts ON public.saved_athlete_searches(last_checked_at) WHERE alerts_enabled;
+
+-- Add RLS policies for saved_athlete_searches table
+ALTER TABLE public.saved_athlete_searches ENABLE ROW LEVEL SECURITY;
+
+-- Allow businesses to read their own saved searches
+CREATE POLICY "Users can view their own saved searches" ON public.saved_athlete_searches
+FOR SELECT
+USING (auth.uid() = business_id);
+
+-- Allow backend services to manage saved searches
+CREATE POLICY "Backend can insert saved searches" ON public.saved_athlete_searches
+FOR INSERT
+WITH CHECK (true);
+
+CREATE POLICY "Backend can update saved searches" ON public.saved_athlete_searches
+FOR UPDATE
+USING (true);
+
+CREATE POLICY "Backend can delete saved searches" ON public.saved_athlete_searches
+FOR DELETE
+USING (true);
@@ -0,0 +1,38 @@
+-- Budget enforcement for campaigns: 'block' rejects offers past budget_max, 'warn' allows them with a warning
+ALTER TABLE public.campaigns
+ADD COLUMN IF NOT EXISTS budget_enforcement TEXT NOT NULL DEFAULT 'block'
+CHECK (budget_enforcement IN ('warn', 'block'));
+
+-- The budget ledger sums a campaign's offers
+CREATE INDEX IF NOT EXISTS idx_partnership_offers_campaign_id ON public.partnership_offers(campaign_id);
+
+-- Create payouts table - money sent to athletes against accepted offers
+CREATE TABLE IF NOT EXISTS public.payouts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  offer_id UUID NOT NULL REFERENCES public.partnership_offers(id) ON DELETE CASCADE,
+  campaign_id UUID REFERENCES public.campaigns(id) ON DELETE SET NULL,
+  athlete_id UUID NOT NULL REFERENCES public.users(id),
+  business_id UUID NOT NULL REFERENCES public.users(id),
+  amount NUMERIC(12, 2) NOT NULL CHECK (amount >= 0),
+  currency TEXT NOT NULL DEFAULT 'USD',
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'paid', 'failed')),
+  paid_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payouts_campaign_id ON public.payouts(campaign_id);
+CREATE INDEX IF NOT EXISTS idx_payouts_offer_id ON public.payouts(offer_id);
+CREATE INDEX IF NOT EXISTS idx_payouts_athlete_id ON public.payouts(athlete_id);
+
+-- Add RLS policies for payouts table
+ALTER TABLE public.payouts ENABLE ROW LEVEL SECURITY;
+
+-- Allow athletes and businesses to view their own payouts
+CREATE POLICY "Users can view own payouts" ON public.payouts
+FOR SELECT
+USING (auth.uid() = athlete_id OR auth.uid() = business_id);
+
+-- Allow backend services to insert payouts
+CREATE POLICY "Backend can insert payouts" ON public.payouts
+FOR INSERT
+WITH CHECK (true);
@@ -0,0 +1,50 @@
+-- Campaign lifecycle: draft -> scheduled -> active -> paused -> completed -> archived
+ALTER TABLE public.campaigns
+ADD COLUMN IF NOT EXISTS status_changed_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS paused_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS completed_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS archived_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.campaigns DROP CONSTRAINT IF EXISTS campaigns_status_check;
+ALTER TABLE public.campaigns
+ADD CONSTRAINT campaigns_status_check
+CHECK (status IN ('draft', 'scheduled', 'active', 'paused', 'completed', 'archived'));
+
+-- The lifecycle job looks up scheduled campaigns by start date and running ones by end date
+CREATE INDEX IF NOT EXISTS idx_campaigns_status_start_date ON public.campaigns(status, start_date);
+CREATE INDEX IF NOT EXISTS idx_campaigns_status_end_date ON public.campaigns(status, end_date);
+
+-- Audit trail of launches and status changes
+CREATE TABLE IF NOT EXISTS public.campaign_activities (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  campaign_id UUID NOT NULL REFERENCES public.campaigns(id) ON DELETE CASCADE,
+  activity_type TEXT NOT NULL,
+  actor_id UUID REFERENCES public.users(id),
+  details JSONB DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_campaign_activities_campaign_id ON public.campaign_activities(campaign_id, created_at);
+
+-- Offers on a paused campaign are frozen; remember what to restore on resume
+ALTER TABLE public.partnership_offers
+ADD COLUMN IF NOT EXISTS frozen_from_status TEXT;
+
+-- Add RLS policies for campaign_activities table
+ALTER TABLE public.campaign_activities ENABLE ROW LEVEL SECURITY;
+
+-- Allow campaign owners to view their campaign's activity
+CREATE POLICY "Campaign owners can view activity" ON public.campaign_activities
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.campaigns
+    WHERE campaigns.id = campaign_activities.campaign_id
+    AND (campaigns.business_id = auth.uid() OR campaigns.created_by = auth.uid())
+  )
+);
+
+-- Allow backend services to insert activity
+CREATE POLICY "Backend can insert campaign activity" ON public.campaign_activities
+FOR INSERT
+WITH CHECK (true);
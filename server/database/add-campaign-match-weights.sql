@@ -0,0 +1,8 @@
+-- Per-campaign overrides for the match scoring engine's factor weights
+-- e.g. {"sport": 0.3, "location": 0} - a weight of 0 disables a factor
+ALTER TABLE public.campaigns
+ADD COLUMN IF NOT EXISTS match_weights JSONB DEFAULT '{}'::jsonb;
+
+-- match_scores.explanation holds the per-factor score breakdown
+COMMENT ON COLUMN public.match_scores.explanation IS
+  'Per-factor match score breakdown: {score, factors: [{factor, label, weight, score, contribution, reason}], weights_source, manual_score, computed_at}';
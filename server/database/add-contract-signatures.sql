@@ -0,0 +1,109 @@
+-- Track the signed copy of each contract
+ALTER TABLE public.contracts
+ADD COLUMN IF NOT EXISTS signed_storage_key TEXT,
+ADD COLUMN IF NOT EXISTS signed_hash TEXT,
+ADD COLUMN IF NOT EXISTS signed_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.contracts DROP CONSTRAINT IF EXISTS contracts_status_check;
+ALTER TABLE public.contracts
+ADD CONSTRAINT contracts_status_check CHECK (status IN ('generated', 'signed', 'void'));
+
+-- One row per signer a contract needs, in signing order
+CREATE TABLE IF NOT EXISTS public.contract_signatures (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  contract_id UUID NOT NULL REFERENCES public.contracts(id) ON DELETE CASCADE,
+  signer_role TEXT NOT NULL CHECK (signer_role IN ('business', 'athlete', 'guardian')),
+  signing_order INTEGER NOT NULL,
+  signer_user_id UUID REFERENCES public.users(id),
+  signer_name TEXT,
+  signer_email TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'signed')),
+  method TEXT CHECK (method IN ('typed', 'drawn')),
+  typed_name TEXT,
+  signature_image TEXT,
+  signature_hash TEXT,
+  document_hash TEXT,
+  ip_address TEXT,
+  user_agent TEXT,
+  signed_at TIMESTAMP WITH TIME ZONE,
+  -- Guardians sign through an emailed link; only a hash of its token is kept
+  access_token_hash TEXT,
+  token_expires_at TIMESTAMP WITH TIME ZONE,
+  invited_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+
+  CONSTRAINT contract_signatures_contract_role_key UNIQUE (contract_id, signer_role)
+);
+
+CREATE INDEX IF NOT EXISTS idx_contract_signatures_contract_id ON public.contract_signatures(contract_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_contract_signatures_token ON public.contract_signatures(access_token_hash) WHERE access_token_hash IS NOT NULL;
+
+-- Append-only log of everything that happens to a contract
+CREATE TABLE IF NOT EXISTS public.contract_audit_events (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  contract_id UUID NOT NULL REFERENCES public.contracts(id),
+  signature_id UUID REFERENCES public.contract_signatures(id),
+  action TEXT NOT NULL CHECK (action IN ('signatures_requested', 'guardian_invited', 'viewed', 'signed', 'signatures_reset', 'completed')),
+  actor_user_id UUID REFERENCES public.users(id),
+  actor_role TEXT,
+  actor_name TEXT,
+  ip_address TEXT,
+  user_agent TEXT,
+  document_hash TEXT,
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_contract_audit_events_contract_id ON public.contract_audit_events(contract_id, created_at);
+
+-- Reject any change to an audit event once written, including from the service role
+CREATE OR REPLACE FUNCTION public.prevent_contract_audit_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'contract_audit_events is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS contract_audit_events_immutable ON public.contract_audit_events;
+CREATE TRIGGER contract_audit_events_immutable
+BEFORE UPDATE OR DELETE ON public.contract_audit_events
+FOR EACH ROW EXECUTE FUNCTION public.prevent_contract_audit_changes();
+
+-- Add RLS policies for contract_signatures and contract_audit_events tables
+ALTER TABLE public.contract_signatures ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.contract_audit_events ENABLE ROW LEVEL SECURITY;
+
+-- Allow both parties of a contract to view its signatures and audit log
+CREATE POLICY "Contract parties can view signatures" ON public.contract_signatures
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.contracts
+    WHERE contracts.id = contract_signatures.contract_id
+    AND (contracts.athlete_id = auth.uid() OR contracts.business_id = auth.uid())
+  )
+);
+
+CREATE POLICY "Contract parties can view audit events" ON public.contract_audit_events
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.contracts
+    WHERE contracts.id = contract_audit_events.contract_id
+    AND (contracts.athlete_id = auth.uid() OR contracts.business_id = auth.uid())
+  )
+);
+
+-- Allow backend services to record signatures and audit events
+CREATE POLICY "Backend can insert contract signatures" ON public.contract_signatures
+FOR INSERT
+WITH CHECK (true);
+
+CREATE POLICY "Backend can update contract signatures" ON public.contract_signatures
+FOR UPDATE
+USING (true);
+
+CREATE POLICY "Backend can insert contract audit events" ON public.contract_audit_events
+FOR INSERT
+WITH CHECK (true);
@@ -0,0 +1,67 @@
+-- Payment milestones an offer defines, validated to add up to its guaranteed cash
+ALTER TABLE public.partnership_offers
+ADD COLUMN IF NOT EXISTS payment_milestones JSONB;
+
+-- Disputed milestones can be refunded to the business
+ALTER TABLE public.escrows
+ADD COLUMN IF NOT EXISTS refunded_amount NUMERIC(12, 2) NOT NULL DEFAULT 0 CHECK (refunded_amount >= 0);
+
+-- An escrow split into parts released separately
+CREATE TABLE IF NOT EXISTS public.escrow_milestones (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  escrow_id UUID NOT NULL REFERENCES public.escrows(id) ON DELETE CASCADE,
+  offer_id UUID NOT NULL REFERENCES public.partnership_offers(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  title TEXT NOT NULL,
+  amount NUMERIC(12, 2) NOT NULL CHECK (amount >= 0),
+  currency TEXT NOT NULL DEFAULT 'USD',
+  trigger TEXT NOT NULL CHECK (trigger IN ('on_acceptance', 'deliverable', 'all_deliverables', 'manual')),
+  deliverable_sequence INTEGER,
+  deliverable_id UUID REFERENCES public.deliverables(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'funded', 'released', 'disputed', 'refunded')),
+  dispute_reason TEXT,
+  disputed_by UUID REFERENCES public.users(id),
+  disputed_at TIMESTAMP WITH TIME ZONE,
+  resolution_note TEXT,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  released_by UUID REFERENCES public.users(id),
+  released_at TIMESTAMP WITH TIME ZONE,
+  payout_id UUID REFERENCES public.payouts(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  UNIQUE (escrow_id, position)
+);
+
+CREATE INDEX IF NOT EXISTS idx_escrow_milestones_offer_id ON public.escrow_milestones(offer_id);
+CREATE INDEX IF NOT EXISTS idx_escrow_milestones_status ON public.escrow_milestones(escrow_id, status);
+
+-- Payouts are now one per milestone; a deliverable can complete more than one milestone
+ALTER TABLE public.payouts
+ADD COLUMN IF NOT EXISTS milestone_id UUID REFERENCES public.escrow_milestones(id) ON DELETE SET NULL;
+
+DROP INDEX IF EXISTS public.idx_payouts_deliverable_id;
+CREATE INDEX IF NOT EXISTS idx_payouts_deliverable_id ON public.payouts(deliverable_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payouts_milestone_id ON public.payouts(milestone_id) WHERE milestone_id IS NOT NULL;
+
+-- Add RLS policies for escrow_milestones table
+ALTER TABLE public.escrow_milestones ENABLE ROW LEVEL SECURITY;
+
+-- Allow both parties to view the milestones of their escrows
+CREATE POLICY "Users can view own escrow milestones" ON public.escrow_milestones
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.escrows
+    WHERE escrows.id = escrow_milestones.escrow_id
+    AND (auth.uid() = escrows.athlete_id OR auth.uid() = escrows.business_id)
+  )
+);
+
+-- Allow backend services to insert and update escrow milestones
+CREATE POLICY "Backend can insert escrow milestones" ON public.escrow_milestones
+FOR INSERT
+WITH CHECK (true);
+
+CREATE POLICY "Backend can update escrow milestones" ON public.escrow_milestones
+FOR UPDATE
+USING (true);
@@ -0,0 +1,40 @@
+-- Track when each social account was last looked up with its platform
+ALTER TABLE public.athlete_social_accounts
+ADD COLUMN IF NOT EXISTS posts_count INTEGER,
+ADD COLUMN IF NOT EXISTS last_synced_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS last_attempted_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS sync_error TEXT;
+
+-- One account per platform per athlete, kept in step with athlete_profiles.social_handles
+CREATE UNIQUE INDEX IF NOT EXISTS idx_athlete_social_accounts_athlete_platform ON public.athlete_social_accounts(athlete_id, platform);
+CREATE INDEX IF NOT EXISTS idx_athlete_social_accounts_last_attempted_at ON public.athlete_social_accounts(last_attempted_at NULLS FIRST);
+
+-- Time series of fetched metrics, one row per lookup
+CREATE TABLE IF NOT EXISTS public.athlete_social_account_history (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  social_account_id UUID NOT NULL REFERENCES public.athlete_social_accounts(id) ON DELETE CASCADE,
+  athlete_id UUID NOT NULL,
+  platform TEXT NOT NULL,
+  handle TEXT NOT NULL,
+  followers_count INTEGER NOT NULL CHECK (followers_count >= 0),
+  engagement_rate NUMERIC(6, 2),
+  posts_count INTEGER,
+  source TEXT NOT NULL,
+  captured_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_athlete_social_account_history_account ON public.athlete_social_account_history(social_account_id, captured_at);
+CREATE INDEX IF NOT EXISTS idx_athlete_social_account_history_athlete ON public.athlete_social_account_history(athlete_id, captured_at);
+
+-- Add RLS policies for athlete_social_account_history table
+ALTER TABLE public.athlete_social_account_history ENABLE ROW LEVEL SECURITY;
+
+-- Allow athletes to view their own metrics history
+CREATE POLICY "Athletes can view own social metrics history" ON public.athlete_social_account_history
+FOR SELECT
+USING (auth.uid() = athlete_id);
+
+-- Allow backend services to record lookups
+CREATE POLICY "Backend can insert social metrics history" ON public.athlete_social_account_history
+FOR INSERT
+WITH CHECK (true);
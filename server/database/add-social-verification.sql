@@ -0,0 +1,12 @@
+-- Ownership verification for athlete social accounts
+ALTER TABLE public.athlete_social_accounts
+ADD COLUMN IF NOT EXISTS verification_code TEXT,
+ADD COLUMN IF NOT EXISTS verification_code_expires_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS verified_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS verified_handle TEXT,
+ADD COLUMN IF NOT EXISTS verification_method TEXT CHECK (verification_method IN ('bio', 'post')),
+ADD COLUMN IF NOT EXISTS verification_expires_at TIMESTAMP WITH TIME ZONE;
+
+-- The expiry job looks for verifications that have lapsed
+CREATE INDEX IF NOT EXISTS idx_athlete_social_accounts_verification_expires_at ON public.athlete_social_accounts(verification_expires_at)
+WHERE verified_at IS NOT NULL;
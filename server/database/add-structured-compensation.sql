@@ -0,0 +1,36 @@
+-- Structured compensation on offers: fixed, per-deliverable, revenue share, product or hybrid.
+-- compensation_type and offer_amount stay as the type label and guaranteed cash.
+ALTER TABLE public.partnership_offers
+ADD COLUMN IF NOT EXISTS compensation JSONB,
+ADD COLUMN IF NOT EXISTS payment_schedule TEXT;
+
+-- Athlete minimums move from free text ("$300 per post") to
+-- { amount, currency, per, accepts_product_only, accepts_revenue_share_only, note }
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public'
+    AND table_name = 'athlete_profiles'
+    AND column_name = 'minimum_compensation'
+    AND data_type IN ('text', 'character varying')
+  ) THEN
+    ALTER TABLE public.athlete_profiles
+    ALTER COLUMN minimum_compensation TYPE JSONB
+    USING CASE
+      WHEN minimum_compensation IS NULL
+        OR substring(replace(minimum_compensation, ',', '') FROM '[0-9]+(?:\.[0-9]+)?') IS NULL THEN NULL
+      ELSE jsonb_build_object(
+        'amount', substring(replace(minimum_compensation, ',', '') FROM '[0-9]+(?:\.[0-9]+)?')::numeric,
+        'currency', 'USD',
+        'per', CASE WHEN minimum_compensation ~* 'per\s+(post|story|video|deliverable|piece)' THEN 'deliverable' ELSE 'deal' END,
+        'accepts_product_only', false,
+        'accepts_revenue_share_only', false,
+        'note', minimum_compensation
+      )
+    END;
+  ELSE
+    ALTER TABLE public.athlete_profiles
+    ADD COLUMN IF NOT EXISTS minimum_compensation JSONB;
+  END IF;
+END $$;
@@ -0,0 +1,42 @@
+-- Athletes' public link-in-bio pages, served at /p/<slug>
+CREATE TABLE IF NOT EXISTS public.athlete_profile_links (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  athlete_id UUID NOT NULL UNIQUE REFERENCES public.users(id) ON DELETE CASCADE,
+  -- Vanity path, lowercase letters, numbers and dashes
+  slug TEXT NOT NULL UNIQUE CHECK (slug ~ '^[a-z0-9][a-z0-9-]{1,28}[a-z0-9]$'),
+  enabled BOOLEAN NOT NULL DEFAULT false,
+  bio TEXT,
+  photo_url TEXT,
+  cover_photo_url TEXT,
+  theme TEXT NOT NULL DEFAULT 'default' CHECK (theme IN ('default', 'athletic', 'modern', 'vibrant')),
+  background_color TEXT NOT NULL DEFAULT '#111111',
+  text_color TEXT NOT NULL DEFAULT '#ffffff',
+  accent_color TEXT NOT NULL DEFAULT '#ff4500',
+  buttons JSONB NOT NULL DEFAULT '[]'::jsonb,
+  highlights JSONB NOT NULL DEFAULT '[]'::jsonb,
+  achievements JSONB NOT NULL DEFAULT '[]'::jsonb,
+  sponsors JSONB NOT NULL DEFAULT '[]'::jsonb,
+  -- Which athlete profile fields the page shows
+  public_fields JSONB NOT NULL DEFAULT '["sport", "school", "position", "summary", "socialHandles", "metrics"]'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+-- Add RLS policies for athlete_profile_links table
+ALTER TABLE public.athlete_profile_links ENABLE ROW LEVEL SECURITY;
+
+-- Allow athletes to view their own page settings
+CREATE POLICY "Athletes can view own profile link" ON public.athlete_profile_links
+FOR SELECT
+USING (auth.uid() = athlete_id);
+
+-- Public pages are read through the backend, which strips private fields
+
+-- Allow backend services to insert and update profile links
+CREATE POLICY "Backend can insert profile links" ON public.athlete_profile_links
+FOR INSERT
+WITH CHECK (true);
+
+CREATE POLICY "Backend can update profile links" ON public.athlete_profile_links
+FOR UPDATE
+USING (true);
@@ -0,0 +1,73 @@
+-- Brand directory: a discoverable setting and normalized operating locations on business_profiles, and athlete leads
+
+-- Businesses are listed unless they opt out
+ALTER TABLE public.business_profiles
+ADD COLUMN IF NOT EXISTS discoverable BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN IF NOT EXISTS operating_location_tags TEXT[] NOT NULL DEFAULT '{}';
+
+-- operatingLocation arrives as a list from onboarding but older rows hold text;
+-- keep a lowercase tag array alongside it for filtering
+CREATE OR REPLACE FUNCTION public.set_business_operating_location_tags()
+RETURNS TRIGGER AS $$
+DECLARE
+  raw JSONB := to_jsonb(NEW) -> 'operatingLocation';
+BEGIN
+  NEW.operating_location_tags := COALESCE((
+    SELECT array_agg(DISTINCT lower(trim(tag)))
+    FROM (
+      SELECT jsonb_array_elements_text(CASE WHEN jsonb_typeof(raw) = 'array' THEN raw ELSE '[]'::jsonb END) AS tag
+      UNION ALL
+      SELECT regexp_split_to_table(
+        CASE WHEN jsonb_typeof(raw) = 'string' THEN translate(raw #>> '{}', '{}[]"', '') ELSE '' END,
+        ','
+      )
+    ) tags
+    WHERE trim(tag) <> ''
+  ), '{}');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS business_operating_location_tags ON public.business_profiles;
+CREATE TRIGGER business_operating_location_tags
+BEFORE INSERT OR UPDATE ON public.business_profiles
+FOR EACH ROW EXECUTE FUNCTION public.set_business_operating_location_tags();
+
+-- Fill the tags for existing profiles through the trigger
+UPDATE public.business_profiles SET discoverable = discoverable;
+
+CREATE INDEX IF NOT EXISTS idx_business_profiles_discoverable ON public.business_profiles(industry) WHERE discoverable;
+CREATE INDEX IF NOT EXISTS idx_business_profiles_operating_locations ON public.business_profiles USING GIN (operating_location_tags);
+
+-- Athletes expressing interest in a brand; one lead per athlete and brand
+CREATE TABLE IF NOT EXISTS public.brand_leads (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  business_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  athlete_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  message TEXT,
+  status TEXT NOT NULL DEFAULT 'new' CHECK (status IN ('new', 'contacted', 'archived')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+
+  CONSTRAINT brand_leads_business_athlete_key UNIQUE (business_id, athlete_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_brand_leads_business_id ON public.brand_leads(business_id, status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_brand_leads_athlete_id ON public.brand_leads(athlete_id);
+
+-- Add RLS policies for brand_leads table
+ALTER TABLE public.brand_leads ENABLE ROW LEVEL SECURITY;
+
+-- Allow both sides to view their leads
+CREATE POLICY "Parties can view own brand leads" ON public.brand_leads
+FOR SELECT
+USING (auth.uid() = business_id OR auth.uid() = athlete_id);
+
+-- Allow backend services to insert and update leads
+CREATE POLICY "Backend can insert brand leads" ON public.brand_leads
+FOR INSERT
+WITH CHECK (true);
+
+CREATE POLICY "Backend can update brand leads" ON public.brand_leads
+FOR UPDATE
+USING (true);
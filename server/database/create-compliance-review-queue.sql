@@ -0,0 +1,83 @@
+-- Versioned compliance rule sets per governing body and state
+-- A NULL governing_body_id or state means the rule set applies to any
+CREATE TABLE IF NOT EXISTS public.compliance_rule_sets (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  governing_body_id INTEGER REFERENCES public.governing_bodies(id),
+  state CHAR(2),
+  version INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  rules JSONB NOT NULL DEFAULT '{}'::jsonb,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES public.users(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_compliance_rule_sets_scope_version
+ON public.compliance_rule_sets(COALESCE(governing_body_id, 0), COALESCE(state, '--'), version);
+
+-- Baseline rules used when no governing body or state specific set exists
+INSERT INTO public.compliance_rule_sets (governing_body_id, state, version, name, rules)
+SELECT NULL, NULL, 1, 'Baseline NIL rules', '{
+  "prohibited_categories": ["alcohol", "gambling", "tobacco", "cannabis", "adult_entertainment"],
+  "school_marks_allowed": false,
+  "disclosure_deadline_days": 7,
+  "max_compensation": null
+}'::jsonb
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.compliance_rule_sets WHERE governing_body_id IS NULL AND state IS NULL
+);
+
+-- Turn compliance_requests into a review queue tied to offers
+ALTER TABLE public.compliance_requests
+ADD COLUMN IF NOT EXISTS offer_id UUID REFERENCES public.partnership_offers(id) ON DELETE CASCADE,
+ADD COLUMN IF NOT EXISTS athlete_id UUID REFERENCES public.users(id),
+ADD COLUMN IF NOT EXISTS business_id UUID REFERENCES public.users(id),
+ADD COLUMN IF NOT EXISTS requested_by UUID REFERENCES public.users(id),
+ADD COLUMN IF NOT EXISTS claimed_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS governing_body_id INTEGER REFERENCES public.governing_bodies(id),
+ADD COLUMN IF NOT EXISTS state CHAR(2),
+ADD COLUMN IF NOT EXISTS rule_set_id UUID REFERENCES public.compliance_rule_sets(id),
+ADD COLUMN IF NOT EXISTS rule_set_version INTEGER,
+ADD COLUMN IF NOT EXISTS rule_report JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_compliance_requests_status ON public.compliance_requests(status, requested_at);
+CREATE INDEX IF NOT EXISTS idx_compliance_requests_offer_id ON public.compliance_requests(offer_id);
+
+-- Add RLS policies
+ALTER TABLE public.compliance_rule_sets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.compliance_requests ENABLE ROW LEVEL SECURITY;
+
+-- Allow compliance officers and admins to view rule sets and the queue
+CREATE POLICY "Compliance officers can view rule sets" ON public.compliance_rule_sets
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.users
+    WHERE users.id = auth.uid()
+    AND users.role::text IN ('compliance', 'compliance_officer', 'admin')
+  )
+);
+
+CREATE POLICY "Compliance officers can view requests" ON public.compliance_requests
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.users
+    WHERE users.id = auth.uid()
+    AND users.role::text IN ('compliance', 'compliance_officer', 'admin')
+  )
+);
+
+-- Allow both parties to see the review status of their own deals
+CREATE POLICY "Parties can view own compliance requests" ON public.compliance_requests
+FOR SELECT
+USING (auth.uid() = athlete_id OR auth.uid() = business_id);
+
+-- Allow backend services to write rule sets and requests
+CREATE POLICY "Backend can insert compliance rule sets" ON public.compliance_rule_sets
+FOR INSERT
+WITH CHECK (true);
+
+CREATE POLICY "Backend can insert compliance requests" ON public.compliance_requests
+FOR INSERT
+WITH CHECK (true);
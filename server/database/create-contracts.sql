@@ -0,0 +1,65 @@
+-- Contract templates; each published edit is a new row with the next version number
+CREATE TABLE IF NOT EXISTS public.contract_templates (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  key TEXT NOT NULL DEFAULT 'partnership_agreement',
+  version INTEGER NOT NULL CHECK (version >= 1),
+  title TEXT NOT NULL,
+  body TEXT NOT NULL,
+  nil_clauses JSONB NOT NULL DEFAULT '[]'::jsonb,
+  is_active BOOLEAN NOT NULL DEFAULT false,
+  change_note TEXT,
+  created_by UUID REFERENCES public.users(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  UNIQUE (key, version)
+);
+
+-- Only one version of a template is used for new contracts
+CREATE UNIQUE INDEX IF NOT EXISTS idx_contract_templates_active ON public.contract_templates(key) WHERE is_active;
+
+-- The contract PDF generated for an accepted offer
+CREATE TABLE IF NOT EXISTS public.contracts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  offer_id UUID NOT NULL UNIQUE REFERENCES public.partnership_offers(id) ON DELETE CASCADE,
+  campaign_id UUID REFERENCES public.campaigns(id) ON DELETE SET NULL,
+  athlete_id UUID NOT NULL REFERENCES public.users(id),
+  business_id UUID NOT NULL REFERENCES public.users(id),
+  template_id UUID NOT NULL REFERENCES public.contract_templates(id),
+  template_version INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'generated' CHECK (status IN ('generated', 'void')),
+  storage_key TEXT NOT NULL,
+  file_name TEXT NOT NULL,
+  content_hash TEXT NOT NULL,
+  generated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_contracts_athlete_id ON public.contracts(athlete_id);
+CREATE INDEX IF NOT EXISTS idx_contracts_business_id ON public.contracts(business_id);
+
+-- Add RLS policies for contract_templates and contracts tables
+ALTER TABLE public.contract_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.contracts ENABLE ROW LEVEL SECURITY;
+
+-- Templates are only read through the API; allow backend services to publish templates and switch the active version
+CREATE POLICY "Backend can insert contract templates" ON public.contract_templates
+FOR INSERT
+WITH CHECK (true);
+
+CREATE POLICY "Backend can update contract templates" ON public.contract_templates
+FOR UPDATE
+USING (true);
+
+-- Allow both parties to view their contracts
+CREATE POLICY "Users can view own contracts" ON public.contracts
+FOR SELECT
+USING (auth.uid() = athlete_id OR auth.uid() = business_id);
+
+-- Allow backend services to insert and update contracts
+CREATE POLICY "Backend can insert contracts" ON public.contracts
+FOR INSERT
+WITH CHECK (true);
+
+CREATE POLICY "Backend can update contracts" ON public.contracts
+FOR UPDATE
+USING (true);
@@ -0,0 +1,72 @@
+-- Create deliverables table: one row per piece of content owed under an accepted offer
+CREATE TABLE IF NOT EXISTS public.deliverables (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  offer_id UUID NOT NULL REFERENCES public.partnership_offers(id) ON DELETE CASCADE,
+  campaign_id UUID,
+  athlete_id UUID NOT NULL REFERENCES public.users(id),
+  business_id UUID NOT NULL REFERENCES public.users(id),
+  type TEXT NOT NULL,
+  platform TEXT,
+  description TEXT,
+  hashtags TEXT[] DEFAULT '{}',
+  sequence INTEGER NOT NULL,
+  due_date TIMESTAMP WITH TIME ZONE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'submitted', 'changes_requested', 'approved')),
+  submitted_at TIMESTAMP WITH TIME ZONE,
+  approved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+
+  CONSTRAINT deliverables_offer_sequence_key UNIQUE (offer_id, sequence)
+);
+
+CREATE INDEX IF NOT EXISTS idx_deliverables_athlete_id ON public.deliverables(athlete_id, due_date);
+CREATE INDEX IF NOT EXISTS idx_deliverables_business_id ON public.deliverables(business_id, status);
+
+-- Create deliverable_submissions table for proof-of-post
+CREATE TABLE IF NOT EXISTS public.deliverable_submissions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  deliverable_id UUID NOT NULL REFERENCES public.deliverables(id) ON DELETE CASCADE,
+  submitted_by UUID NOT NULL REFERENCES public.users(id),
+  proof_url TEXT NOT NULL,
+  screenshot_key TEXT,
+  notes TEXT,
+  review_status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (review_status IN ('pending', 'approved', 'changes_requested')),
+  reviewer_id UUID REFERENCES public.users(id),
+  review_notes TEXT,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_deliverable_submissions_deliverable_id ON public.deliverable_submissions(deliverable_id);
+
+-- Add RLS policies
+ALTER TABLE public.deliverables ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.deliverable_submissions ENABLE ROW LEVEL SECURITY;
+
+-- Allow both parties to view their deliverables
+CREATE POLICY "Parties can view own deliverables" ON public.deliverables
+FOR SELECT
+USING (auth.uid() = athlete_id OR auth.uid() = business_id);
+
+-- Allow both parties to view submissions for their deliverables
+CREATE POLICY "Parties can view own deliverable submissions" ON public.deliverable_submissions
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.deliverables
+    WHERE deliverables.id = deliverable_submissions.deliverable_id
+    AND (deliverables.athlete_id = auth.uid() OR deliverables.business_id = auth.uid())
+  )
+);
+
+-- Allow backend services to write deliverables and submissions
+CREATE POLICY "Backend can insert deliverables" ON public.deliverables
+FOR INSERT
+WITH CHECK (true);
+
+CREATE POLICY "Backend can insert deliverable submissions" ON public.deliverable_submissions
+FOR INSERT
+WITH CHECK (true);
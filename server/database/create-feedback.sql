@@ -0,0 +1,61 @@
+-- User feedback, admin responses and testimonials
+CREATE TABLE IF NOT EXISTS public.feedback (
+  id SERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  user_type TEXT NOT NULL,
+  match_id INTEGER REFERENCES public.match_scores(id) ON DELETE SET NULL,
+  feedback_type TEXT NOT NULL DEFAULT 'general',
+  title TEXT,
+  content TEXT NOT NULL,
+  rating INTEGER CHECK (rating BETWEEN 1 AND 5),
+  category TEXT,
+  status TEXT NOT NULL DEFAULT 'pending',
+  public BOOLEAN NOT NULL DEFAULT false,
+  admin_response TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+-- Columns added for triage and testimonials, for tables created before them
+ALTER TABLE public.feedback
+ADD COLUMN IF NOT EXISTS allow_public BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS responded_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.feedback DROP CONSTRAINT IF EXISTS feedback_status_check;
+ALTER TABLE public.feedback
+ADD CONSTRAINT feedback_status_check CHECK (status IN ('pending', 'in_review', 'resolved', 'dismissed'));
+
+ALTER TABLE public.feedback DROP CONSTRAINT IF EXISTS feedback_type_check;
+ALTER TABLE public.feedback
+ADD CONSTRAINT feedback_type_check CHECK (feedback_type IN ('general', 'bug', 'feature', 'partnership', 'testimonial'));
+
+-- Testimonials can only be published with the author's agreement
+ALTER TABLE public.feedback DROP CONSTRAINT IF EXISTS feedback_public_consent_check;
+ALTER TABLE public.feedback
+ADD CONSTRAINT feedback_public_consent_check CHECK (NOT public OR allow_public);
+
+CREATE INDEX IF NOT EXISTS idx_feedback_user_id ON public.feedback(user_id);
+CREATE INDEX IF NOT EXISTS idx_feedback_match_id ON public.feedback(match_id) WHERE match_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_feedback_type ON public.feedback(feedback_type);
+CREATE INDEX IF NOT EXISTS idx_feedback_public ON public.feedback(created_at DESC) WHERE public;
+
+-- Add RLS policies for feedback table
+ALTER TABLE public.feedback ENABLE ROW LEVEL SECURITY;
+
+-- Allow users to read their own feedback
+CREATE POLICY "Users can view their own feedback" ON public.feedback
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Allow anyone to read published testimonials
+CREATE POLICY "Anyone can view published testimonials" ON public.feedback
+FOR SELECT
+USING (public AND allow_public);
+
+-- Allow backend services to insert and update feedback
+CREATE POLICY "Backend can insert feedback" ON public.feedback
+FOR INSERT
+WITH CHECK (true);
+
+CREATE POLICY "Backend can update feedback" ON public.feedback
+FOR UPDATE
+USING (true);
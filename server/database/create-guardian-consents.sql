@@ -0,0 +1,65 @@
+-- Ages are computed from the stored date of birth
+ALTER TABLE public.athlete_profiles
+ADD COLUMN IF NOT EXISTS date_of_birth DATE,
+-- Set once the stored date of birth makes the athlete a minor, and never cleared,
+-- so a later date of birth can't quietly lift the guardian consent requirement
+ADD COLUMN IF NOT EXISTS was_minor BOOLEAN NOT NULL DEFAULT false;
+
+CREATE OR REPLACE FUNCTION public.set_athlete_was_minor()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    NEW.was_minor := OLD.was_minor OR NEW.was_minor;
+  END IF;
+  NEW.was_minor := NEW.was_minor OR COALESCE(NEW.date_of_birth > current_date - INTERVAL '18 years', false);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS athlete_was_minor ON public.athlete_profiles;
+CREATE TRIGGER athlete_was_minor
+BEFORE INSERT OR UPDATE ON public.athlete_profiles
+FOR EACH ROW EXECUTE FUNCTION public.set_athlete_was_minor();
+
+UPDATE public.athlete_profiles
+SET was_minor = true
+WHERE date_of_birth > current_date - INTERVAL '18 years';
+
+-- Parent or guardian consent for athletes under 18, one current record per athlete
+CREATE TABLE IF NOT EXISTS public.guardian_consents (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  athlete_id UUID NOT NULL UNIQUE REFERENCES public.users(id) ON DELETE CASCADE,
+  guardian_name TEXT NOT NULL,
+  guardian_email TEXT NOT NULL,
+  relationship TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'declined', 'revoked')),
+  -- Guardians act through an emailed link; only a hash of its token is kept
+  access_token_hash TEXT,
+  token_expires_at TIMESTAMP WITH TIME ZONE,
+  invited_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  verified_at TIMESTAMP WITH TIME ZONE,
+  responded_at TIMESTAMP WITH TIME ZONE,
+  ip_address TEXT,
+  user_agent TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_guardian_consents_token ON public.guardian_consents(access_token_hash) WHERE access_token_hash IS NOT NULL;
+
+-- Add RLS policies for guardian_consents table
+ALTER TABLE public.guardian_consents ENABLE ROW LEVEL SECURITY;
+
+-- Allow athletes to view their own guardian consent
+CREATE POLICY "Athletes can view their guardian consent" ON public.guardian_consents
+FOR SELECT
+USING (athlete_id = auth.uid());
+
+-- Allow backend services to record invites and decisions
+CREATE POLICY "Backend can insert guardian consents" ON public.guardian_consents
+FOR INSERT
+WITH CHECK (true);
+
+CREATE POLICY "Backend can update guardian consents" ON public.guardian_consents
+FOR UPDATE
+USING (true);
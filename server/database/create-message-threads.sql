@@ -0,0 +1,58 @@
+-- Create message_threads table: one athlete-business conversation per match or offer
+CREATE TABLE IF NOT EXISTS public.message_threads (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  athlete_id UUID NOT NULL REFERENCES public.users(id),
+  business_id UUID NOT NULL REFERENCES public.users(id),
+  match_id UUID REFERENCES public.match_scores(id) ON DELETE SET NULL,
+  offer_id UUID REFERENCES public.partnership_offers(id) ON DELETE SET NULL,
+  subject TEXT,
+  last_message_at TIMESTAMP WITH TIME ZONE,
+  created_by UUID NOT NULL REFERENCES public.users(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+
+  CONSTRAINT message_threads_context_check CHECK (match_id IS NOT NULL OR offer_id IS NOT NULL)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_message_threads_match_id ON public.message_threads(match_id) WHERE match_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_message_threads_offer_id ON public.message_threads(offer_id) WHERE offer_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_message_threads_athlete_id ON public.message_threads(athlete_id, last_message_at DESC);
+CREATE INDEX IF NOT EXISTS idx_message_threads_business_id ON public.message_threads(business_id, last_message_at DESC);
+
+-- Create thread_messages table. The onboarding chat keeps using public.messages (keyed by session_id).
+CREATE TABLE IF NOT EXISTS public.thread_messages (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  thread_id UUID NOT NULL REFERENCES public.message_threads(id) ON DELETE CASCADE,
+  sender_id UUID NOT NULL REFERENCES public.users(id),
+  recipient_id UUID NOT NULL REFERENCES public.users(id),
+  content TEXT NOT NULL DEFAULT '',
+  attachments JSONB NOT NULL DEFAULT '[]'::jsonb,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_thread_messages_thread_id ON public.thread_messages(thread_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_thread_messages_unread ON public.thread_messages(recipient_id, thread_id) WHERE read_at IS NULL;
+
+-- Add RLS policies
+ALTER TABLE public.message_threads ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.thread_messages ENABLE ROW LEVEL SECURITY;
+
+-- Allow both parties to view their threads
+CREATE POLICY "Parties can view own message threads" ON public.message_threads
+FOR SELECT
+USING (auth.uid() = athlete_id OR auth.uid() = business_id);
+
+-- Allow both parties to view messages in their threads
+CREATE POLICY "Parties can view own thread messages" ON public.thread_messages
+FOR SELECT
+USING (auth.uid() = sender_id OR auth.uid() = recipient_id);
+
+-- Allow backend services to write threads and messages
+CREATE POLICY "Backend can insert message threads" ON public.message_threads
+FOR INSERT
+WITH CHECK (true);
+
+CREATE POLICY "Backend can insert thread messages" ON public.thread_messages
+FOR INSERT
+WITH CHECK (true);
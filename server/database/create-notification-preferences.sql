@@ -0,0 +1,46 @@
+-- Create notification_preferences table: per-user channels for each notification category
+CREATE TABLE IF NOT EXISTS public.notification_preferences (
+  user_id UUID PRIMARY KEY REFERENCES public.users(id) ON DELETE CASCADE,
+  channels JSONB NOT NULL DEFAULT '{}'::jsonb,
+  quiet_hours JSONB NOT NULL DEFAULT '{"enabled": false, "start": "22:00", "end": "07:00"}'::jsonb,
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  digest_hour INTEGER NOT NULL DEFAULT 8 CHECK (digest_hour BETWEEN 0 AND 23),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+-- Track per-notification delivery across channels
+ALTER TABLE public.notifications ADD COLUMN IF NOT EXISTS in_app BOOLEAN NOT NULL DEFAULT true;
+ALTER TABLE public.notifications ADD COLUMN IF NOT EXISTS emailed_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.notifications ADD COLUMN IF NOT EXISTS digest_pending BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE public.notifications ADD COLUMN IF NOT EXISTS digested_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_notifications_digest_pending ON public.notifications(user_id) WHERE digest_pending = true;
+
+-- Users with pending digest notifications whose local time is at their digest hour
+-- (all of them when include_all is set); users without preferences get 08:00 UTC
+CREATE OR REPLACE FUNCTION public.due_digest_users(at TIMESTAMP WITH TIME ZONE, include_all BOOLEAN DEFAULT false)
+RETURNS TABLE (user_id UUID)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT DISTINCT pending.user_id
+  FROM public.notifications AS pending
+  LEFT JOIN public.notification_preferences AS preferences ON preferences.user_id = pending.user_id
+  LEFT JOIN pg_timezone_names AS zone ON zone.name = preferences.timezone
+  WHERE pending.digest_pending = true
+    AND (include_all OR extract(hour FROM at AT TIME ZONE COALESCE(zone.name, 'UTC')) = COALESCE(preferences.digest_hour, 8))
+$$;
+
+-- Add RLS policies
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+
+-- Allow users to view their own preferences
+CREATE POLICY "Users can view own notification preferences" ON public.notification_preferences
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Allow backend services to create preferences
+CREATE POLICY "Backend can insert notification preferences" ON public.notification_preferences
+FOR INSERT
+WITH CHECK (true);
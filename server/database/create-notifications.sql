@@ -0,0 +1,31 @@
+-- Create notifications table. Services insert rows here and push the same payload over WebSocket.
+CREATE TABLE IF NOT EXISTS public.notifications (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  type TEXT NOT NULL,
+  title TEXT NOT NULL,
+  content TEXT NOT NULL,
+  reference_type TEXT,
+  reference_id TEXT,
+  is_read BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+-- Track when a notification was read
+ALTER TABLE public.notifications ADD COLUMN IF NOT EXISTS read_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_id ON public.notifications(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_unread ON public.notifications(user_id) WHERE is_read = false;
+
+-- Add RLS policies
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+-- Allow users to view their own notifications
+CREATE POLICY "Users can view own notifications" ON public.notifications
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Allow backend services to create notifications
+CREATE POLICY "Backend can insert notifications" ON public.notifications
+FOR INSERT
+WITH CHECK (true);
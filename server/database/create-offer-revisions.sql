@@ -0,0 +1,43 @@
+-- Create offer_revisions table to store every round of an offer negotiation
+CREATE TABLE IF NOT EXISTS public.offer_revisions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  offer_id UUID NOT NULL REFERENCES public.partnership_offers(id) ON DELETE CASCADE,
+  revision_number INTEGER NOT NULL,
+  author_id UUID NOT NULL REFERENCES public.users(id),
+  author_role TEXT NOT NULL CHECK (author_role IN ('athlete', 'business')),
+  terms JSONB NOT NULL DEFAULT '{}'::jsonb,
+  changes JSONB NOT NULL DEFAULT '[]'::jsonb,
+  message TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+
+  CONSTRAINT offer_revisions_offer_revision_key UNIQUE (offer_id, revision_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_offer_revisions_offer_id ON public.offer_revisions(offer_id);
+
+-- Point each offer at its current revision
+ALTER TABLE public.partnership_offers
+ADD COLUMN IF NOT EXISTS current_revision_id UUID REFERENCES public.offer_revisions(id),
+ADD COLUMN IF NOT EXISTS revision_count INTEGER DEFAULT 0,
+ADD COLUMN IF NOT EXISTS last_countered_by TEXT,
+ADD COLUMN IF NOT EXISTS start_date DATE,
+ADD COLUMN IF NOT EXISTS end_date DATE;
+
+-- Add RLS policies for offer_revisions table
+ALTER TABLE public.offer_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Allow both parties of an offer to view its revisions
+CREATE POLICY "Offer parties can view revisions" ON public.offer_revisions
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.partnership_offers
+    WHERE partnership_offers.id = offer_revisions.offer_id
+    AND (partnership_offers.athlete_id = auth.uid() OR partnership_offers.business_id = auth.uid())
+  )
+);
+
+-- Allow backend services to insert revisions
+CREATE POLICY "Backend can insert offer revisions" ON public.offer_revisions
+FOR INSERT
+WITH CHECK (true);
@@ -0,0 +1,70 @@
+-- Two-way ratings left by each party once a partnership has ended
+CREATE TABLE IF NOT EXISTS public.partnership_ratings (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  offer_id UUID NOT NULL REFERENCES public.partnership_offers(id) ON DELETE CASCADE,
+  rater_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  ratee_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  rater_role TEXT NOT NULL CHECK (rater_role IN ('athlete', 'business')),
+  scores JSONB NOT NULL,
+  overall NUMERIC(3, 2) NOT NULL CHECK (overall BETWEEN 1 AND 5),
+  comment TEXT,
+  status TEXT NOT NULL DEFAULT 'published' CHECK (status IN ('published', 'appealed', 'removed')),
+  appeal_reason TEXT,
+  appealed_at TIMESTAMP WITH TIME ZONE,
+  appeal_decision TEXT CHECK (appeal_decision IN ('uphold', 'remove')),
+  resolution_note TEXT,
+  resolved_by UUID REFERENCES public.users(id),
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+
+  -- Each party rates a partnership once
+  CONSTRAINT partnership_ratings_offer_rater_key UNIQUE (offer_id, rater_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_partnership_ratings_ratee_id ON public.partnership_ratings(ratee_id, status);
+CREATE INDEX IF NOT EXISTS idx_partnership_ratings_appealed ON public.partnership_ratings(appealed_at) WHERE status = 'appealed';
+
+-- Aggregated reputation per user, recomputed whenever their ratings change
+CREATE TABLE IF NOT EXISTS public.reputation_scores (
+  user_id UUID PRIMARY KEY REFERENCES public.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('athlete', 'business')),
+  rating_count INTEGER NOT NULL DEFAULT 0,
+  average NUMERIC(3, 2),
+  score NUMERIC(3, 2),
+  criteria JSONB NOT NULL DEFAULT '{}'::jsonb,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+-- Add RLS policies for partnership_ratings table
+ALTER TABLE public.partnership_ratings ENABLE ROW LEVEL SECURITY;
+
+-- Allow users to read ratings they gave or received
+CREATE POLICY "Users can view their own ratings" ON public.partnership_ratings
+FOR SELECT
+USING (auth.uid() = rater_id OR auth.uid() = ratee_id);
+
+-- Allow backend services to insert and update ratings
+CREATE POLICY "Backend can insert ratings" ON public.partnership_ratings
+FOR INSERT
+WITH CHECK (true);
+
+CREATE POLICY "Backend can update ratings" ON public.partnership_ratings
+FOR UPDATE
+USING (true);
+
+-- Add RLS policies for reputation_scores table
+ALTER TABLE public.reputation_scores ENABLE ROW LEVEL SECURITY;
+
+-- Reputation is shown on public profiles
+CREATE POLICY "Anyone can view reputation scores" ON public.reputation_scores
+FOR SELECT
+USING (true);
+
+-- Allow backend services to maintain reputation scores
+CREATE POLICY "Backend can insert reputation scores" ON public.reputation_scores
+FOR INSERT
+WITH CHECK (true);
+
+CREATE POLICY "Backend can update reputation scores" ON public.reputation_scores
+FOR UPDATE
+USING (true);
@@ -0,0 +1,86 @@
+-- Athlete connected accounts with the payment provider (Stripe Connect, or the local stand-in)
+CREATE TABLE IF NOT EXISTS public.payout_accounts (
+  user_id UUID PRIMARY KEY REFERENCES public.users(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL,
+  provider_account_id TEXT NOT NULL UNIQUE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'active', 'restricted')),
+  details_submitted BOOLEAN NOT NULL DEFAULT false,
+  payouts_enabled BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+-- Funds charged to the business when an offer is accepted, released as deliverables are approved
+CREATE TABLE IF NOT EXISTS public.escrows (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  offer_id UUID NOT NULL UNIQUE REFERENCES public.partnership_offers(id) ON DELETE CASCADE,
+  campaign_id UUID REFERENCES public.campaigns(id) ON DELETE SET NULL,
+  athlete_id UUID NOT NULL REFERENCES public.users(id),
+  business_id UUID NOT NULL REFERENCES public.users(id),
+  amount NUMERIC(12, 2) NOT NULL CHECK (amount >= 0),
+  released_amount NUMERIC(12, 2) NOT NULL DEFAULT 0 CHECK (released_amount >= 0),
+  currency TEXT NOT NULL DEFAULT 'USD',
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'funded', 'released', 'refunded', 'failed')),
+  provider TEXT NOT NULL,
+  provider_charge_id TEXT,
+  failure_reason TEXT,
+  funded_at TIMESTAMP WITH TIME ZONE,
+  released_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_escrows_athlete_id ON public.escrows(athlete_id, status);
+CREATE INDEX IF NOT EXISTS idx_escrows_business_id ON public.escrows(business_id);
+CREATE INDEX IF NOT EXISTS idx_escrows_provider_charge_id ON public.escrows(provider_charge_id);
+
+-- Payouts now come out of an escrow, one per approved deliverable
+ALTER TABLE public.payouts
+ADD COLUMN IF NOT EXISTS escrow_id UUID REFERENCES public.escrows(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS deliverable_id UUID REFERENCES public.deliverables(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS provider_transfer_id TEXT,
+ADD COLUMN IF NOT EXISTS failure_reason TEXT;
+
+-- 'processing' marks a payout claimed for a transfer, so it is only sent once
+ALTER TABLE public.payouts DROP CONSTRAINT IF EXISTS payouts_status_check;
+ALTER TABLE public.payouts
+ADD CONSTRAINT payouts_status_check CHECK (status IN ('pending', 'processing', 'paid', 'failed'));
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payouts_deliverable_id ON public.payouts(deliverable_id) WHERE deliverable_id IS NOT NULL;
+
+-- Add RLS policies for payout_accounts and escrows tables
+ALTER TABLE public.payout_accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.escrows ENABLE ROW LEVEL SECURITY;
+
+-- Allow athletes to view their own payout account
+CREATE POLICY "Users can view own payout account" ON public.payout_accounts
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Allow backend services to insert and update payout accounts
+CREATE POLICY "Backend can insert payout accounts" ON public.payout_accounts
+FOR INSERT
+WITH CHECK (true);
+
+CREATE POLICY "Backend can update payout accounts" ON public.payout_accounts
+FOR UPDATE
+USING (true);
+
+-- Allow both parties to view an offer's escrow
+CREATE POLICY "Users can view own escrows" ON public.escrows
+FOR SELECT
+USING (auth.uid() = athlete_id OR auth.uid() = business_id);
+
+-- Allow backend services to insert and update escrows
+CREATE POLICY "Backend can insert escrows" ON public.escrows
+FOR INSERT
+WITH CHECK (true);
+
+CREATE POLICY "Backend can update escrows" ON public.escrows
+FOR UPDATE
+USING (true);
+
+-- Allow backend services to update payouts as transfers go out
+CREATE POLICY "Backend can update payouts" ON public.payouts
+FOR UPDATE
+USING (true);
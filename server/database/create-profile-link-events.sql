@@ -0,0 +1,29 @@
+-- Traffic on athletes' public profile pages; bots aren't recorded
+CREATE TABLE IF NOT EXISTS public.profile_link_events (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  link_id UUID NOT NULL REFERENCES public.athlete_profile_links(id) ON DELETE CASCADE,
+  athlete_id UUID NOT NULL,
+  event_type TEXT NOT NULL CHECK (event_type IN ('view', 'click')),
+  -- The link button followed, for clicks
+  button_id TEXT,
+  -- Keyed hash of the visitor's IP address; raw addresses are never stored
+  visitor_hash TEXT NOT NULL,
+  -- Referring site host, or 'direct'
+  referrer_source TEXT NOT NULL DEFAULT 'direct',
+  occurred_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_profile_link_events_link ON public.profile_link_events(link_id, occurred_at);
+
+-- Add RLS policies for profile_link_events table
+ALTER TABLE public.profile_link_events ENABLE ROW LEVEL SECURITY;
+
+-- Allow athletes to view traffic on their own page
+CREATE POLICY "Athletes can view own profile link events" ON public.profile_link_events
+FOR SELECT
+USING (auth.uid() = athlete_id);
+
+-- Allow backend services to record traffic
+CREATE POLICY "Backend can insert profile link events" ON public.profile_link_events
+FOR INSERT
+WITH CHECK (true);
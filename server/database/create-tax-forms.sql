@@ -0,0 +1,40 @@
+-- Athletes' W-9 tax forms, one current form per athlete
+CREATE TABLE IF NOT EXISTS public.tax_forms (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  athlete_id UUID NOT NULL UNIQUE REFERENCES public.users(id) ON DELETE CASCADE,
+  form_type TEXT NOT NULL DEFAULT 'W-9' CHECK (form_type IN ('W-9')),
+  legal_name TEXT NOT NULL,
+  business_name TEXT,
+  tax_classification TEXT NOT NULL CHECK (tax_classification IN ('individual', 'c_corporation', 's_corporation', 'partnership', 'trust_estate', 'llc')),
+  tin_type TEXT NOT NULL CHECK (tin_type IN ('ssn', 'ein')),
+  -- The TIN is encrypted by the backend (AES-256-GCM) and never stored in plain text
+  tin_encrypted TEXT NOT NULL,
+  address_line1 TEXT NOT NULL,
+  address_line2 TEXT,
+  city TEXT NOT NULL,
+  state TEXT NOT NULL,
+  zip TEXT NOT NULL,
+  signature_name TEXT NOT NULL,
+  certified_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  ip_address TEXT,
+  user_agent TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+-- Yearly earnings are summed from paid payouts
+CREATE INDEX IF NOT EXISTS idx_payouts_paid_at ON public.payouts(paid_at) WHERE status = 'paid';
+
+-- Add RLS policies for tax_forms table
+ALTER TABLE public.tax_forms ENABLE ROW LEVEL SECURITY;
+
+-- Tax forms are read through the backend only, which masks the TIN
+
+-- Allow backend services to insert and update tax forms
+CREATE POLICY "Backend can insert tax forms" ON public.tax_forms
+FOR INSERT
+WITH CHECK (true);
+
+CREATE POLICY "Backend can update tax forms" ON public.tax_forms
+FOR UPDATE
+USING (true);
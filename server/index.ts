@@ -19,6 +19,11 @@ import { setupVite, serveStatic } from './vite';
 import config from './config/environment';
 import { closeConnections } from './lib/supabase';
 import { profileService } from './services/profileService';
+import { notificationService } from './services/notificationService';
+import { campaignService } from './services/campaignService';
+import { socialMetricsService } from './services/socialMetricsService';
+import { socialVerificationService } from './services/socialVerificationService';
+import { athleteSearchService } from './services/athleteSearchService';
 
 import * as netType from 'net';
 
@@ -108,6 +113,18 @@ async function startServer() {
     // Register profile endpoints
     console.log('Setting up profile endpoints');
     profileService.setupProfileEndpoints(app);
+
+    // Start background jobs
+    console.log('Starting notification digest scheduler');
+    notificationService.startDigestScheduler();
+    console.log('Starting campaign lifecycle scheduler');
+    campaignService.startLifecycleScheduler();
+    console.log('Starting social metrics refresh scheduler');
+    socialMetricsService.startRefreshScheduler();
+    console.log('Starting social verification expiry scheduler');
+    socialVerificationService.startExpiryScheduler();
+    console.log('Starting saved athlete search alert scheduler');
+    athleteSearchService.startAlertScheduler();
     
     // Set up frontend depending on environment
     // This must be done AFTER API routes to ensure Vite handles frontend routes properly
@@ -0,0 +1,310 @@
+/**
+ * PDF Utilities
+ *
+ * A small text-only PDF writer for generated documents (contracts, tax
+ * forms). Documents are described as a list of blocks and laid out on US
+ * Letter pages in the standard Helvetica fonts, so no font files or native
+ * dependencies are needed. Output is deterministic for the same blocks and
+ * options, which keeps document hashes stable.
+ */
+
+// One piece of document content, laid out top to bottom
+export type PdfBlock =
+  | { type: 'title' | 'heading' | 'paragraph' | 'bullet' | 'small'; text: string }
+  | { type: 'field'; label: string; value: string }
+  | { type: 'spacer'; size?: number }
+  | { type: 'rule' }
+  | { type: 'pageBreak' };
+
+export interface PdfOptions {
+  title: string;
+  author?: string;
+  createdAt?: Date;
+  // Printed at the bottom of every page next to the page number
+  footer?: string;
+}
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 72;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FOOTER_Y = 40;
+const BULLET_INDENT = 14;
+
+// Font size and line height per block type
+const STYLES = {
+  title: { font: 'F2', size: 18, leading: 26 },
+  heading: { font: 'F2', size: 12.5, leading: 19 },
+  paragraph: { font: 'F1', size: 10.5, leading: 14.5 },
+  bullet: { font: 'F1', size: 10.5, leading: 14.5 },
+  small: { font: 'F1', size: 8.5, leading: 12 },
+  field: { font: 'F1', size: 10.5, leading: 14.5 }
+} as const;
+
+// Helvetica advance widths (1/1000 em) for ASCII 32-126
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+
+/**
+ * Replace characters the standard fonts can't show with close equivalents
+ */
+export function toPdfText(text: string): string {
+  return text
+    .replace(/[\u2018\u2019\u201A\u2032]/g, "'")
+    .replace(/[\u201C\u201D\u201E\u2033]/g, '"')
+    .replace(/[\u2013\u2014\u2212]/g, '-')
+    .replace(/\u2026/g, '...')
+    .replace(/\u2022/g, '-')
+    .replace(/\u00A0/g, ' ')
+    .replace(/[\t\r]/g, ' ')
+    .replace(/[^\x20-\x7E\n\u00A1-\u00FF]/g, '?');
+}
+
+function textWidth(text: string, size: number, bold = false): number {
+  let units = 0;
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    units += code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556;
+  }
+  // Bold glyphs run roughly 5% wider than regular ones
+  return (units * size * (bold ? 1.05 : 1)) / 1000;
+}
+
+function wrap(text: string, size: number, width: number, bold = false): string[] {
+  const lines: string[] = [];
+
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(/ +/)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (!line || textWidth(candidate, size, bold) <= width) {
+        line = candidate;
+        continue;
+      }
+      lines.push(line);
+      line = word;
+    }
+    lines.push(line);
+  }
+
+  return lines;
+}
+
+function escapeText(text: string): string {
+  let escaped = '';
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    if (char === '\\' || char === '(' || char === ')') {
+      escaped += `\\${char}`;
+    } else if (code > 126) {
+      escaped += `\\${code.toString(8).padStart(3, '0')}`;
+    } else {
+      escaped += char;
+    }
+  }
+  return escaped;
+}
+
+function pdfDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `D:${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+    `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+}
+
+function textOp(font: string, size: number, x: number, y: number, text: string): string {
+  return `BT /${font} ${size} Tf ${x.toFixed(2)} ${y.toFixed(2)} Td (${escapeText(text)}) Tj ET`;
+}
+
+/**
+ * Lay out blocks into page content streams
+ */
+function layout(blocks: PdfBlock[]): string[][] {
+  const pages: string[][] = [[]];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const newPage = () => {
+    pages.push([]);
+    y = PAGE_HEIGHT - MARGIN;
+  };
+
+  const ensureSpace = (height: number) => {
+    if (y - height < MARGIN) {
+      newPage();
+    }
+  };
+
+  for (const block of blocks) {
+    const page = () => pages[pages.length - 1];
+
+    switch (block.type) {
+      case 'pageBreak':
+        if (page().length > 0) newPage();
+        break;
+
+      case 'spacer':
+        y -= block.size ?? 10;
+        break;
+
+      case 'rule':
+        ensureSpace(12);
+        y -= 6;
+        page().push(`0.6 w ${MARGIN} ${y.toFixed(2)} m ${PAGE_WIDTH - MARGIN} ${y.toFixed(2)} l S`);
+        y -= 6;
+        break;
+
+      case 'field': {
+        const style = STYLES.field;
+        const label = `${toPdfText(block.label)}: `;
+        const labelWidth = textWidth(label, style.size, true);
+        const lines = wrap(toPdfText(block.value), style.size, CONTENT_WIDTH - labelWidth);
+        lines.forEach((line, index) => {
+          ensureSpace(style.leading);
+          y -= style.leading;
+          if (index === 0) {
+            page().push(textOp('F2', style.size, MARGIN, y, label));
+          }
+          page().push(textOp(style.font, style.size, MARGIN + labelWidth, y, line));
+        });
+        break;
+      }
+
+      default: {
+        const style = STYLES[block.type];
+        const bold = style.font === 'F2';
+        const indent = block.type === 'bullet' ? BULLET_INDENT : 0;
+        const lines = wrap(toPdfText(block.text), style.size, CONTENT_WIDTH - indent, bold);
+
+        // Keep a heading with at least the first lines of what follows it
+        if (block.type === 'heading' || block.type === 'title') {
+          ensureSpace(style.leading * 3);
+          y -= style.leading * 0.4;
+        }
+
+        lines.forEach((line, index) => {
+          ensureSpace(style.leading);
+          y -= style.leading;
+          if (block.type === 'bullet' && index === 0) {
+            page().push(textOp(style.font, style.size, MARGIN + 2, y, '-'));
+          }
+          page().push(textOp(style.font, style.size, MARGIN + indent, y, line));
+        });
+
+        if (block.type === 'paragraph' || block.type === 'small') {
+          y -= style.leading * 0.4;
+        }
+      }
+    }
+  }
+
+  return pages;
+}
+
+/**
+ * A page object and its content stream, using the fonts at objects 3 and 4
+ */
+function pageObjects(operations: string[], footerText: string, pageId: number): [string, string] {
+  const footer = textOp('F1', 8, PAGE_WIDTH - MARGIN - textWidth(footerText, 8), FOOTER_Y, footerText);
+  const stream = [...operations, footer].join('\n');
+
+  return [
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`,
+    `<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream`
+  ];
+}
+
+/**
+ * Render blocks to a PDF file
+ */
+export function renderPdf(blocks: PdfBlock[], options: PdfOptions): Buffer {
+  const pages = layout(blocks);
+  const objects: string[] = [];
+
+  // 1: catalog, 2: page tree, 3-4: fonts, 5: info; then a page and its content stream per page
+  const pageIds = pages.map((_, index) => 6 + index * 2);
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+  objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+
+  const info = [`/Title (${escapeText(toPdfText(options.title))})`, '/Producer (Contested)'];
+  if (options.author) info.push(`/Author (${escapeText(toPdfText(options.author))})`);
+  if (options.createdAt) info.push(`/CreationDate (${pdfDate(options.createdAt)})`);
+  objects[5] = `<< ${info.join(' ')} >>`;
+
+  pages.forEach((operations, index) => {
+    const footerText = `${options.footer ? `${toPdfText(options.footer)}    ` : ''}Page ${index + 1} of ${pages.length}`;
+    [objects[pageIds[index]], objects[pageIds[index] + 1]] = pageObjects(operations, footerText, pageIds[index]);
+  });
+
+  let output = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = Buffer.byteLength(output, 'latin1');
+    output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = Buffer.byteLength(output, 'latin1');
+  output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  output += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(output, 'latin1');
+}
+
+/**
+ * Append pages to a PDF produced by renderPdf
+ *
+ * Written as an incremental update, so the original bytes are kept intact at
+ * the start of the file and its hash can still be checked against them.
+ */
+export function appendPages(pdf: Buffer, blocks: PdfBlock[], options: { footer?: string } = {}): Buffer {
+  const source = pdf.toString('latin1');
+  const size = Number(Array.from(source.matchAll(/\/Size (\d+)/g)).pop()?.[1]);
+  const previousXref = Number(Array.from(source.matchAll(/startxref\n(\d+)/g)).pop()?.[1]);
+  const pageTree = Array.from(source.matchAll(/2 0 obj\n<< \/Type \/Pages \/Kids \[([^\]]*)\] \/Count (\d+) >>/g)).pop();
+
+  if (!size || Number.isNaN(previousXref) || !pageTree) {
+    throw new Error('Unsupported PDF: only documents from renderPdf can be extended');
+  }
+
+  const pages = layout(blocks);
+  const pageIds = pages.map((_, index) => size + index * 2);
+  const kids = [pageTree[1].trim(), ...pageIds.map(id => `${id} 0 R`)].filter(Boolean).join(' ');
+  const objects = new Map<number, string>();
+
+  objects.set(2, `<< /Type /Pages /Kids [${kids}] /Count ${Number(pageTree[2]) + pages.length} >>`);
+  pages.forEach((operations, index) => {
+    const footerText = `${options.footer ? `${toPdfText(options.footer)}    ` : ''}Page ${index + 1} of ${pages.length}`;
+    const [page, content] = pageObjects(operations, footerText, pageIds[index]);
+    objects.set(pageIds[index], page);
+    objects.set(pageIds[index] + 1, content);
+  });
+
+  let output = source.endsWith('\n') ? '' : '\n';
+  const offsets = new Map<number, number>();
+  for (const [id, body] of objects) {
+    offsets.set(id, pdf.length + Buffer.byteLength(output, 'latin1'));
+    output += `${id} 0 obj\n${body}\nendobj\n`;
+  }
+
+  // One xref subsection for the page tree, one for the new pages
+  const xrefOffset = pdf.length + Buffer.byteLength(output, 'latin1');
+  const entry = (id: number) => `${String(offsets.get(id)).padStart(10, '0')} 00000 n \n`;
+  output += `xref\n2 1\n${entry(2)}${size} ${pages.length * 2}\n`;
+  for (let id = size; id < size + pages.length * 2; id++) {
+    output += entry(id);
+  }
+  output += `trailer\n<< /Size ${size + pages.length * 2} /Root 1 0 R /Info 5 0 R /Prev ${previousXref} >>\n` +
+    `startxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.concat([pdf, Buffer.from(output, 'latin1')]);
+}
@@ -60,7 +60,7 @@ export const requireAuth = async (req: Request, res: Response, next: NextFunctio
     // Get additional user data from the database
     const { data: userData, error: userError } = await supabase
       .from('users')
-      .select('id, email, role')
+      .select('id, email, role, status')
       .eq('id', user.id)
       .single();
 
@@ -69,6 +69,11 @@ export const requireAuth = async (req: Request, res: Response, next: NextFunctio
       // We can still proceed with basic auth user data
     }
 
+    // Suspended accounts keep valid tokens until they expire, so refuse them here
+    if (userData?.status === 'suspended') {
+      throw new AppError('This account has been suspended', 403, 'ACCOUNT_SUSPENDED');
+    }
+
     // Determine effective role
     const effectiveRole = userData?.role || 
       user.user_metadata?.role || 
@@ -155,13 +160,19 @@ export const optionalAuth = async (req: Request, res: Response, next: NextFuncti
     try {
       const { data: userData } = await supabase
         .from('users')
-        .select('id, email, role')
+        .select('id, email, role, status')
         .eq('id', user.id)
         .single();
       
       if (userData) {
         console.log('[Auth Middleware] Additional user data found');
       }
+
+      // Suspended accounts are treated as anonymous
+      if (userData?.status === 'suspended') {
+        console.log('[Auth Middleware] Account suspended, continuing without auth');
+        return next();
+      }
       
       // Determine effective role
       const effectiveRole = userData?.role || 
@@ -0,0 +1,34 @@
+/**
+ * Admin Routes
+ *
+ * Defines all routes for the admin console.
+ */
+
+import { Router } from 'express';
+import { adminController } from '../controllers/adminController';
+import { requireAuth, requireRole } from '../middleware/auth';
+
+const router = Router();
+
+// All admin routes require authentication
+router.use(requireAuth);
+
+// And every one of them is admin only
+router.use(requireRole(['admin']));
+
+// Users
+router.get('/users', adminController.searchUsers);
+router.get('/users/:id', adminController.getUser);
+router.post('/users/:id/role', adminController.changeRole);
+router.post('/users/:id/suspend', adminController.suspendUser);
+router.post('/users/:id/reactivate', adminController.reactivateUser);
+router.post('/users/:id/impersonate', adminController.impersonate);
+
+// Audit trail
+router.get('/audit', adminController.getAuditEvents);
+
+// Partnerships and platform numbers
+router.get('/partnerships', adminController.getPartnerships);
+router.get('/kpis', adminController.getKpis);
+
+export default router;
@@ -0,0 +1,23 @@
+/**
+ * Athlete Profile Routes
+ *
+ * Defines all routes related to athletes' public profile pages.
+ */
+
+import { Router } from 'express';
+import { athleteProfileController } from '../controllers/athleteProfileController';
+import { optionalAuth, requireAuth, requireRole } from '../middleware/auth';
+
+const router = Router();
+
+// Athlete routes - the signed-in athlete's own page settings
+router.get('/profile-link', requireAuth, requireRole(['athlete']), athleteProfileController.getProfileLink);
+router.get('/profile-link/analytics', requireAuth, requireRole(['athlete']), athleteProfileController.getProfileLinkAnalytics);
+router.post('/profile-link', requireAuth, requireRole(['athlete']), athleteProfileController.saveProfileLink);
+router.post('/:id/profile-link', requireAuth, requireRole(['athlete']), athleteProfileController.saveProfileLink);
+
+// Public routes - the athlete's own requests are recognized when signed in
+router.get('/:linkId', athleteProfileController.getPublicProfile);
+router.get('/:id/refresh-metrics', optionalAuth, athleteProfileController.refreshMetrics);
+
+export default router;
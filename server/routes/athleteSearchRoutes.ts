@@ -0,0 +1,23 @@
+/**
+ * Athlete Search Routes
+ *
+ * Defines all routes related to athlete discovery search and saved searches.
+ */
+
+import { Router } from 'express';
+import { athleteSearchController } from '../controllers/athleteSearchController';
+import { requireAuth, requireRole } from '../middleware/auth';
+
+const router = Router();
+
+// All routes require an authenticated business (or admin)
+router.use(requireAuth);
+router.use(requireRole(['business', 'admin']));
+
+router.get('/', athleteSearchController.search);
+router.get('/saved', athleteSearchController.getSavedSearches);
+router.post('/saved', athleteSearchController.saveSearch);
+router.patch('/saved/:id', athleteSearchController.updateSavedSearch);
+router.delete('/saved/:id', athleteSearchController.deleteSavedSearch);
+
+export default router;
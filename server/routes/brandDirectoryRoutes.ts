@@ -0,0 +1,26 @@
+/**
+ * Brand Directory Routes
+ *
+ * Defines all routes related to the brand directory and athlete leads.
+ */
+
+import { Router } from 'express';
+import { brandDirectoryController } from '../controllers/brandDirectoryController';
+import { requireAuth, requireRole } from '../middleware/auth';
+
+const router = Router();
+
+// All routes require authentication
+router.use(requireAuth);
+
+// Leads and directory settings - business only
+router.get('/leads', requireRole(['business']), brandDirectoryController.getLeads);
+router.patch('/leads/:id', requireRole(['business']), brandDirectoryController.updateLead);
+router.get('/settings', requireRole(['business']), brandDirectoryController.getSettings);
+router.put('/settings', requireRole(['business']), brandDirectoryController.updateSettings);
+
+// Directory - athletes (and admins)
+router.get('/', requireRole(['athlete', 'admin']), brandDirectoryController.search);
+router.post('/:id/interest', requireRole(['athlete']), brandDirectoryController.expressInterest);
+
+export default router;
@@ -7,10 +7,27 @@
 import { Router, Request, Response } from 'express';
 import { requireAuth, requireRole } from '../middleware/auth';
 import { campaignService } from '../services/campaignService';
+import { matchScoringService } from '../services/matchScoringService';
+import { budgetService } from '../services/budgetService';
 import { AppError } from '../middleware/error';
+import { BudgetEnforcement, campaignTransitionSchema, CampaignStatus, matchWeightsSchema } from '../../shared/schema';
 
 const router = Router();
 
+// HTTP status codes for campaign service error codes
+const CAMPAIGN_ERROR_STATUS: Record<string, number> = {
+  INVALID_INPUT: 400,
+  START_DATE_REQUIRED: 400,
+  CAMPAIGN_ENDED: 400,
+  INVALID_COMPENSATION: 400,
+  FORBIDDEN: 403,
+  NOT_FOUND: 404,
+  INVALID_TRANSITION: 409,
+  BUDGET_EXCEEDED: 409,
+  DATABASE_ERROR: 500,
+  SERVER_ERROR: 500
+};
+
 /**
  * GET /api/campaign
  * Get campaigns for the current business user
@@ -30,6 +47,7 @@ router.get('/', requireAuth, requireRole(['business', 'admin']), async (req: Req
 
     const filters: any = {};
     if (status) filters.status = status;
+    if (req.query.includeArchived === 'true') filters.includeArchived = true;
     if (startDate || endDate) {
       filters.dateRange = {};
       if (startDate) filters.dateRange.start = startDate;
@@ -66,6 +84,52 @@ router.get('/', requireAuth, requireRole(['business', 'admin']), async (req: Req
   }
 });
 
+/**
+ * GET /api/campaign/budget-summary
+ * Get committed, pending and paid totals across the business's campaigns
+ */
+router.get('/budget-summary', requireAuth, requireRole(['business']), async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      throw new AppError('User ID not found', 401, 'UNAUTHORIZED');
+    }
+
+    const result = await budgetService.getBusinessBudget(userId);
+
+    if (!result.success) {
+      throw new AppError(
+        result.error || 'Failed to get budget summary',
+        CAMPAIGN_ERROR_STATUS[result.code || ''] || 400,
+        result.code || 'CAMPAIGN_ERROR'
+      );
+    }
+
+    res.status(200).json({
+      totals: result.totals,
+      campaigns: result.campaigns
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({
+        error: {
+          code: error.code,
+          message: error.message
+        }
+      });
+    }
+
+    console.error('Error in GET /campaign/budget-summary:', error);
+    res.status(500).json({
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'An unexpected error occurred'
+      }
+    });
+  }
+});
+
 /**
  * GET /api/campaign/:id
  * Get a specific campaign by ID
@@ -207,6 +271,10 @@ router.put('/:id', requireAuth, requireRole(['business']), async (req: Request,
       delete req.body.status;
     }
 
+    if (req.body.budget_enforcement !== undefined && !BudgetEnforcement.safeParse(req.body.budget_enforcement).success) {
+      throw new AppError('budget_enforcement must be "warn" or "block"', 400, 'INVALID_INPUT');
+    }
+
     const updateResult = await campaignService.updateCampaign(campaignId, req.body);
 
     if (!updateResult.success) {
@@ -276,7 +344,11 @@ router.delete('/:id', requireAuth, requireRole(['business']), async (req: Reques
     const deleteResult = await campaignService.deleteCampaign(campaignId);
 
     if (!deleteResult.success) {
-      throw new AppError(deleteResult.error || 'Failed to delete campaign', 400, 'CAMPAIGN_ERROR');
+      throw new AppError(
+        deleteResult.error || 'Failed to delete campaign',
+        CAMPAIGN_ERROR_STATUS[deleteResult.code || ''] || 400,
+        deleteResult.code || 'CAMPAIGN_ERROR'
+      );
     }
 
     res.status(200).json({
@@ -332,12 +404,17 @@ router.post('/:id/launch', requireAuth, requireRole(['business']), async (req: R
     const result = await campaignService.launchCampaign(userId, launchData);
 
     if (!result.success) {
-      throw new AppError(result.error || 'Failed to launch campaign', 400, 'CAMPAIGN_ERROR');
+      throw new AppError(
+        result.error || 'Failed to launch campaign',
+        CAMPAIGN_ERROR_STATUS[result.code || ''] || 400,
+        result.code || 'CAMPAIGN_ERROR'
+      );
     }
 
     res.status(200).json({
       message: result.message || 'Campaign launched successfully',
-      campaign: result.campaign
+      campaign: result.campaign,
+      budget_warnings: result.warnings || []
     });
   } catch (error) {
     if (error instanceof AppError) {
@@ -359,6 +436,197 @@ router.post('/:id/launch', requireAuth, requireRole(['business']), async (req: R
   }
 });
 
+/**
+ * Build a handler that moves a campaign to the given lifecycle status
+ */
+function transitionHandler(target: CampaignStatus) {
+  return async (req: Request, res: Response) => {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        throw new AppError('User ID not found', 401, 'UNAUTHORIZED');
+      }
+
+      const parsed = campaignTransitionSchema.safeParse(req.body || {});
+
+      if (!parsed.success) {
+        throw new AppError(
+          parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; '),
+          400,
+          'INVALID_INPUT'
+        );
+      }
+
+      const result = await campaignService.transitionCampaign(req.params.id, userId, target, {
+        reason: parsed.data.reason
+      });
+
+      if (!result.success) {
+        throw new AppError(
+          result.error || 'Failed to change campaign status',
+          CAMPAIGN_ERROR_STATUS[result.code || ''] || 400,
+          result.code || 'CAMPAIGN_ERROR'
+        );
+      }
+
+      res.status(200).json({
+        message: result.message,
+        campaign: result.campaign
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+      }
+
+      console.error(`Error moving campaign to ${target}:`, error);
+      res.status(500).json({
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'An unexpected error occurred'
+        }
+      });
+    }
+  };
+}
+
+/**
+ * POST /api/campaign/:id/schedule   draft -> scheduled (needs a future start_date)
+ * POST /api/campaign/:id/unschedule scheduled -> draft
+ * POST /api/campaign/:id/activate   draft/scheduled -> active
+ * POST /api/campaign/:id/pause      active -> paused (freezes open offers)
+ * POST /api/campaign/:id/resume     paused -> active (restores frozen offers)
+ * POST /api/campaign/:id/complete   active/paused -> completed (expires open offers)
+ * POST /api/campaign/:id/archive    completed -> archived
+ *
+ * Invalid moves are rejected with 409 INVALID_TRANSITION.
+ */
+router.post('/:id/schedule', requireAuth, requireRole(['business']), transitionHandler('scheduled'));
+router.post('/:id/unschedule', requireAuth, requireRole(['business']), transitionHandler('draft'));
+router.post('/:id/activate', requireAuth, requireRole(['business']), transitionHandler('active'));
+router.post('/:id/pause', requireAuth, requireRole(['business']), transitionHandler('paused'));
+router.post('/:id/resume', requireAuth, requireRole(['business']), transitionHandler('active'));
+router.post('/:id/complete', requireAuth, requireRole(['business']), transitionHandler('completed'));
+router.post('/:id/archive', requireAuth, requireRole(['business']), transitionHandler('archived'));
+
+/**
+ * GET /api/campaign/:id/activity
+ * Get a campaign's launch and status change history
+ */
+router.get('/:id/activity', requireAuth, requireRole(['business', 'admin']), async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id;
+    const campaignId = req.params.id;
+
+    if (!userId) {
+      throw new AppError('User ID not found', 401, 'UNAUTHORIZED');
+    }
+
+    const checkResult = await campaignService.getCampaign(campaignId);
+
+    if (!checkResult.success || !checkResult.campaign) {
+      throw new AppError(checkResult.error || 'Campaign not found', 404, 'NOT_FOUND');
+    }
+
+    const campaign = checkResult.campaign;
+
+    if (req.user?.role !== 'admin' && campaign.business_id !== userId && campaign.created_by !== userId) {
+      throw new AppError('You do not have permission to view this campaign', 403, 'FORBIDDEN');
+    }
+
+    const result = await campaignService.getCampaignActivity(campaignId);
+
+    if (!result.success) {
+      throw new AppError(result.error || 'Failed to get campaign activity', 500, result.code || 'CAMPAIGN_ERROR');
+    }
+
+    res.status(200).json({
+      status: campaign.status,
+      activities: result.activities
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({
+        error: {
+          code: error.code,
+          message: error.message
+        }
+      });
+    }
+
+    console.error('Error in GET /campaign/:id/activity:', error);
+    res.status(500).json({
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'An unexpected error occurred'
+      }
+    });
+  }
+});
+
+/**
+ * GET /api/campaign/:id/budget
+ * Get a campaign's budget ledger
+ */
+router.get('/:id/budget', requireAuth, requireRole(['business', 'admin']), async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id;
+    const campaignId = req.params.id;
+
+    if (!userId) {
+      throw new AppError('User ID not found', 401, 'UNAUTHORIZED');
+    }
+
+    const checkResult = await campaignService.getCampaign(campaignId);
+
+    if (!checkResult.success || !checkResult.campaign) {
+      throw new AppError(checkResult.error || 'Campaign not found', 404, 'NOT_FOUND');
+    }
+
+    const campaign = checkResult.campaign;
+
+    if (req.user?.role !== 'admin' && campaign.business_id !== userId && campaign.created_by !== userId) {
+      throw new AppError('You do not have permission to view this campaign', 403, 'FORBIDDEN');
+    }
+
+    const result = await budgetService.getCampaignBudget(campaignId);
+
+    if (!result.success) {
+      throw new AppError(
+        result.error || 'Failed to get campaign budget',
+        CAMPAIGN_ERROR_STATUS[result.code || ''] || 400,
+        result.code || 'CAMPAIGN_ERROR'
+      );
+    }
+
+    res.status(200).json({
+      budget: result.budget
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({
+        error: {
+          code: error.code,
+          message: error.message
+        }
+      });
+    }
+
+    console.error('Error in GET /campaign/:id/budget:', error);
+    res.status(500).json({
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'An unexpected error occurred'
+      }
+    });
+  }
+});
+
 /**
  * GET /api/campaign/:id/matches
  * Get athlete matches for a campaign
@@ -466,4 +734,127 @@ router.post('/:id/match/:athleteId', requireAuth, requireRole(['business']), asy
   }
 });
 
+/**
+ * GET /api/campaign/:id/match-weights
+ * Get the match scoring weights used for a campaign
+ */
+router.get('/:id/match-weights', requireAuth, requireRole(['business']), async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id;
+    const campaignId = req.params.id;
+
+    if (!userId) {
+      throw new AppError('User ID not found', 401, 'UNAUTHORIZED');
+    }
+
+    const checkResult = await campaignService.getCampaign(campaignId);
+
+    if (!checkResult.success || !checkResult.campaign) {
+      throw new AppError(checkResult.error || 'Campaign not found', 404, 'NOT_FOUND');
+    }
+
+    const campaign = checkResult.campaign;
+
+    if (campaign.business_id !== userId && campaign.created_by !== userId) {
+      throw new AppError('You do not have permission to view this campaign', 403, 'FORBIDDEN');
+    }
+
+    const { weights, source } = matchScoringService.resolveWeights(campaign);
+
+    res.status(200).json({
+      weights,
+      source,
+      overrides: campaign.match_weights || {},
+      defaults: matchScoringService.getDefaultWeights(),
+      factors: matchScoringService.getFactors().map(factor => ({
+        key: factor.key,
+        label: factor.label,
+        default_weight: factor.defaultWeight
+      }))
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({
+        error: {
+          code: error.code,
+          message: error.message
+        }
+      });
+    }
+
+    console.error('Error in GET /campaign/:id/match-weights:', error);
+    res.status(500).json({
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'An unexpected error occurred'
+      }
+    });
+  }
+});
+
+/**
+ * PUT /api/campaign/:id/match-weights
+ * Override the match scoring weights for a campaign (an empty object restores the defaults)
+ */
+router.put('/:id/match-weights', requireAuth, requireRole(['business']), async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id;
+    const campaignId = req.params.id;
+
+    if (!userId) {
+      throw new AppError('User ID not found', 401, 'UNAUTHORIZED');
+    }
+
+    const parsed = matchWeightsSchema.safeParse(req.body?.weights);
+
+    if (!parsed.success) {
+      throw new AppError(
+        parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; '),
+        400,
+        'INVALID_WEIGHTS'
+      );
+    }
+
+    const checkResult = await campaignService.getCampaign(campaignId);
+
+    if (!checkResult.success || !checkResult.campaign) {
+      throw new AppError(checkResult.error || 'Campaign not found', 404, 'NOT_FOUND');
+    }
+
+    const campaign = checkResult.campaign;
+
+    if (campaign.business_id !== userId && campaign.created_by !== userId) {
+      throw new AppError('You do not have permission to update this campaign', 403, 'FORBIDDEN');
+    }
+
+    const updateResult = await campaignService.updateMatchWeights(campaignId, parsed.data);
+
+    if (!updateResult.success) {
+      throw new AppError(updateResult.error || 'Failed to update match weights', 400, 'CAMPAIGN_ERROR');
+    }
+
+    res.status(200).json({
+      message: updateResult.message,
+      ...matchScoringService.resolveWeights(updateResult.campaign || {})
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({
+        error: {
+          code: error.code,
+          message: error.message
+        }
+      });
+    }
+
+    console.error('Error in PUT /campaign/:id/match-weights:', error);
+    res.status(500).json({
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'An unexpected error occurred'
+      }
+    });
+  }
+});
+
 export default router;
\ No newline at end of file
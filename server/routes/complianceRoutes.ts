@@ -0,0 +1,30 @@
+/**
+ * Compliance Routes
+ *
+ * Defines all routes related to the compliance review queue and rule sets.
+ */
+
+import { Router } from 'express';
+import { complianceController } from '../controllers/complianceController';
+import { requireAuth, requireRole } from '../middleware/auth';
+
+const router = Router();
+
+// Protected routes - require authentication
+router.use(requireAuth);
+
+// Athletes and businesses submit their offers for review
+router.post('/requests', requireRole(['athlete', 'business']), complianceController.submitRequest);
+
+// Routes that require compliance officer role
+router.get('/requests', requireRole(['compliance', 'admin']), complianceController.getQueue);
+router.get('/requests/:id', requireRole(['compliance', 'admin']), complianceController.getRequest);
+router.post('/requests/:id/claim', requireRole(['compliance', 'admin']), complianceController.claimRequest);
+router.post('/requests/:id/release', requireRole(['compliance', 'admin']), complianceController.releaseRequest);
+router.post('/requests/:id/decision', requireRole(['compliance', 'admin']), complianceController.decide);
+
+// Rule set management
+router.get('/rule-sets', requireRole(['compliance', 'admin']), complianceController.getRuleSets);
+router.post('/rule-sets', requireRole(['compliance', 'admin']), complianceController.createRuleSet);
+
+export default router;
@@ -0,0 +1,37 @@
+/**
+ * Contract Routes
+ *
+ * Defines all routes related to generated partnership contracts and
+ * contract templates.
+ */
+
+import { Router } from 'express';
+import { contractController } from '../controllers/contractController';
+import { requireAuth, requireRole } from '../middleware/auth';
+
+const router = Router();
+
+// Guardian signing links - authorized by the emailed token
+router.get('/guardian/:token', contractController.getGuardianSigning);
+router.get('/guardian/:token/download', contractController.downloadGuardianContract);
+router.post('/guardian/:token/sign', contractController.signAsGuardian);
+
+// Protected routes - require authentication
+router.use(requireAuth);
+
+// Template management - admin only
+router.get('/templates', requireRole(['admin']), contractController.getTemplates);
+router.post('/templates', requireRole(['admin']), contractController.publishTemplate);
+router.post('/templates/preview', requireRole(['admin']), contractController.previewTemplate);
+
+// Contracts for either party
+router.get('/', contractController.getContracts);
+router.get('/offers/:offerId', contractController.getOfferContract);
+router.post('/offers/:offerId/generate', requireRole(['business', 'admin']), contractController.regenerateOfferContract);
+router.get('/:id', contractController.getContract);
+router.get('/:id/download', contractController.downloadContract);
+router.get('/:id/signatures', contractController.getSigningStatus);
+router.post('/:id/sign', requireRole(['athlete', 'business']), contractController.signContract);
+router.post('/:id/guardian', requireRole(['athlete']), contractController.setGuardian);
+
+export default router;
@@ -0,0 +1,34 @@
+/**
+ * Deliverable Routes
+ *
+ * Defines all routes related to offer deliverables and proof-of-post.
+ */
+
+import { Router } from 'express';
+import { deliverableController, screenshotUpload } from '../controllers/deliverableController';
+import { requireAuth, requireRole } from '../middleware/auth';
+
+const router = Router();
+
+// Protected routes - require authentication
+router.use(requireAuth);
+
+// Get deliverables for the current user
+router.get('/', deliverableController.getUserDeliverables);
+
+// Get deliverable by ID with its submissions
+router.get('/:id', deliverableController.getDeliverable);
+router.get('/:id/submissions/:submissionId/screenshot', deliverableController.getSubmissionScreenshot);
+
+// Routes that require athlete role
+router.post(
+  '/:id/submissions',
+  requireRole(['athlete']),
+  screenshotUpload.single('screenshot'),
+  deliverableController.submitProof
+);
+
+// Routes that require business role
+router.post('/:id/review', requireRole(['business']), deliverableController.reviewSubmission);
+
+export default router;
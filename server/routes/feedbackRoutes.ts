@@ -0,0 +1,29 @@
+/**
+ * Feedback Routes
+ *
+ * Defines all routes related to user feedback and testimonials.
+ */
+
+import { Router } from 'express';
+import { feedbackController } from '../controllers/feedbackController';
+import { requireAuth, requireRole } from '../middleware/auth';
+
+const router = Router();
+
+// Public testimonials feed - no authentication
+router.get('/public', feedbackController.getTestimonials);
+
+// Everything else requires authentication
+router.use(requireAuth);
+
+router.post('/', feedbackController.submit);
+router.get('/mine', feedbackController.getMine);
+router.get('/match/:matchId', feedbackController.getMatchFeedback);
+
+// Triage - admin only
+router.get('/', requireRole(['admin']), feedbackController.getForTriage);
+router.post('/:id/status', requireRole(['admin']), feedbackController.changeStatus);
+router.post('/:id/respond', requireRole(['admin']), feedbackController.respond);
+router.post('/:id/publish', requireRole(['admin']), feedbackController.setPublic);
+
+export default router;
@@ -0,0 +1,21 @@
+/**
+ * Guardian Routes
+ *
+ * Defines all routes related to guardian consent for athletes under 18.
+ */
+
+import { Router } from 'express';
+import { guardianController } from '../controllers/guardianController';
+import { requireAuth, requireRole } from '../middleware/auth';
+
+const router = Router();
+
+// Guardian links - authorized by the emailed token
+router.get('/view/:token', guardianController.getGuardianView);
+router.post('/view/:token/respond', guardianController.respond);
+
+// Athlete routes - require authentication
+router.get('/consent', requireAuth, requireRole(['athlete']), guardianController.getConsent);
+router.post('/consent', requireAuth, requireRole(['athlete']), guardianController.inviteGuardian);
+
+export default router;
@@ -23,6 +23,22 @@ import webhookRoutes from './webhookRoutes';
 import configRoutes from './configRoutes';
 import offerRoutes from './offerRoutes';
 import bundleRoutes from './bundleRoutes';
+import deliverableRoutes from './deliverableRoutes';
+import complianceRoutes from './complianceRoutes';
+import messageRoutes from './messageRoutes';
+import notificationRoutes from './notificationRoutes';
+import payoutRoutes from './payoutRoutes';
+import contractRoutes from './contractRoutes';
+import guardianRoutes from './guardianRoutes';
+import taxRoutes from './taxRoutes';
+import athleteProfileRoutes from './athleteProfileRoutes';
+import socialVerificationRoutes from './socialVerificationRoutes';
+import profilePageRoutes from './profilePageRoutes';
+import adminRoutes from './adminRoutes';
+import feedbackRoutes from './feedbackRoutes';
+import ratingRoutes from './ratingRoutes';
+import athleteSearchRoutes from './athleteSearchRoutes';
+import brandDirectoryRoutes from './brandDirectoryRoutes';
 // Supabase profile routes are handled in supabaseProfile.ts
 // Import routes for serving static files
 import publicRoutes from './publicRoutes';
@@ -53,6 +69,24 @@ export function registerRoutes(app: Express): Express {
   app.use('/api/config', configRoutes);
   app.use('/api/offer', offerRoutes);
   app.use('/api/bundle', bundleRoutes);
+  app.use('/api/deliverables', deliverableRoutes);
+  app.use('/api/compliance', complianceRoutes);
+  app.use('/api/messages', messageRoutes);
+  app.use('/api/notifications', notificationRoutes);
+  app.use('/api/payouts', payoutRoutes);
+  app.use('/api/contracts', contractRoutes);
+  app.use('/api/guardian', guardianRoutes);
+  app.use('/api/tax', taxRoutes);
+  app.use('/api/athlete-profile', athleteProfileRoutes);
+  app.use('/api/social-verification', socialVerificationRoutes);
+  app.use('/api/admin', adminRoutes);
+  app.use('/api/feedback', feedbackRoutes);
+  app.use('/api/ratings', ratingRoutes);
+  app.use('/api/athlete-search', athleteSearchRoutes);
+  app.use('/api/brands', brandDirectoryRoutes);
+
+  // Server-rendered public profile pages
+  app.use('/p', profilePageRoutes);
   
   // Register test routes with explicit paths
   app.use('/api/ws-test', wsTestRoutes);
@@ -165,6 +199,22 @@ export function registerRoutes(app: Express): Express {
         { path: '/api/config/*', description: 'Application configuration' },
         { path: '/api/offer/*', description: 'Offer management' },
         { path: '/api/bundle/*', description: 'Bundle management' },
+        { path: '/api/deliverables/*', description: 'Offer deliverables and proof-of-post' },
+        { path: '/api/compliance/*', description: 'Compliance review queue and rule sets' },
+        { path: '/api/messages/*', description: 'Athlete-business message threads' },
+        { path: '/api/notifications/*', description: 'In-app notification center' },
+        { path: '/api/payouts/*', description: 'Athlete payouts and offer escrow' },
+        { path: '/api/contracts/*', description: 'Partnership contracts and e-signatures' },
+        { path: '/api/guardian/*', description: 'Guardian consent for minor athletes' },
+        { path: '/api/tax/*', description: 'W-9 collection and 1099-NEC reporting' },
+        { path: '/api/athlete-profile/*', description: 'Public athlete profile pages and social metrics' },
+        { path: '/api/social-verification/*', description: 'Social account ownership verification' },
+        { path: '/api/admin/*', description: 'Admin console: users, audit trail, partnerships and KPIs' },
+        { path: '/api/feedback/*', description: 'User feedback, admin triage and public testimonials' },
+        { path: '/api/ratings/*', description: 'Post-partnership ratings, reputation scores and appeals' },
+        { path: '/api/athlete-search/*', description: 'Athlete discovery search and saved searches with alerts' },
+        { path: '/api/brands/*', description: 'Brand directory, athlete interest and business leads' },
+        { path: '/p/:slug', description: 'Server-rendered public athlete profile pages' },
         { path: '/api/status', description: 'API health check' },
         { path: '/api/route-check', description: 'This endpoint - route configuration' },
         { path: '/api/protected', description: 'Protected test endpoint' },
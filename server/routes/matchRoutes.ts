@@ -8,7 +8,12 @@ import { Router, Request, Response } from 'express';
 import { requireAuth, requireRole } from '../middleware/auth';
 import { supabase } from '../lib/supabase';
 import { AppError } from '../middleware/error';
-import { wsHelpers } from '../services/websocketService';
+import { notificationService } from '../services/notificationService';
+import { offerNegotiationService, extractOfferTerms } from '../services/offerNegotiationService';
+import { complianceService } from '../services/complianceService';
+import { budgetService } from '../services/budgetService';
+import { compensationService } from '../services/compensationService';
+import { describeCompensation } from '../../shared/compensation';
 
 const router = Router();
 
@@ -279,31 +284,14 @@ router.post('/:id/respond', requireAuth, requireRole(['athlete']), async (req: R
     }
 
     // Create notification for business
-    await supabase
-      .from('notifications')
-      .insert({
-        user_id: match.business_id,
-        type: `MATCH_${response.toUpperCase()}`,
-        title: `Match ${response === 'accepted' ? 'Accepted' : 'Declined'}`,
-        content: `An athlete has ${response} your match request${message ? ': ' + message : ''}`,
-        reference_type: 'MATCH',
-        reference_id: matchId,
-        is_read: false,
-        created_at: new Date().toISOString()
-      });
-
-    // Send WebSocket notification if available
-    if (wsHelpers.broadcastToChannel) {
-      wsHelpers.broadcastToChannel(`user:${match.business_id}`, {
-        type: 'notification',
-        notification: {
-          type: `MATCH_${response.toUpperCase()}`,
-          title: `Match ${response === 'accepted' ? 'Accepted' : 'Declined'}`,
-          content: `An athlete has ${response} your match request`,
-          matchId: matchId
-        }
-      });
-    }
+    await notificationService.notify(match.business_id, {
+      type: `MATCH_${response.toUpperCase()}`,
+      title: `Match ${response === 'accepted' ? 'Accepted' : 'Declined'}`,
+      content: `An athlete has ${response} your match request${message ? ': ' + message : ''}`,
+      referenceType: 'MATCH',
+      referenceId: matchId,
+      data: { matchId }
+    });
 
     res.status(200).json({
       message: `Match ${response} successfully`,
@@ -348,11 +336,29 @@ router.post('/:id/offer', requireAuth, requireRole(['business']), async (req: Re
     }
 
     // Validate required offer fields
-    if (!offerData.compensation_type || !offerData.offer_amount || 
-        !offerData.term || !offerData.usage_rights) {
+    if (!offerData.term || !offerData.usage_rights) {
       throw new AppError('Missing required offer details', 400, 'INVALID_INPUT');
     }
 
+    // Structured compensation, or the legacy compensation_type / offer_amount pair
+    const compensationResult = compensationService.resolveOfferCompensation(offerData);
+
+    if (!compensationResult.success || !compensationResult.fields) {
+      throw new AppError(compensationResult.error || 'Invalid compensation', 400, compensationResult.code || 'INVALID_COMPENSATION');
+    }
+
+    const compensationFields = compensationResult.fields;
+
+    const milestoneResult = compensationService.resolveMilestones(
+      offerData.payment_milestones,
+      compensationFields.offer_amount,
+      offerData.deliverables
+    );
+
+    if (!milestoneResult.success) {
+      throw new AppError(milestoneResult.error || 'Invalid payment milestones', 400, milestoneResult.code || 'INVALID_MILESTONES');
+    }
+
     // Get the match to verify ownership and get related IDs
     const { data: match, error: matchError } = await supabase
       .from('match_scores')
@@ -385,6 +391,30 @@ router.post('/:id/offer', requireAuth, requireRole(['business']), async (req: Re
       throw new AppError('An offer already exists for this match', 400, 'DUPLICATE_OFFER');
     }
 
+    const minimumCheck = await compensationService.checkAthleteMinimum(
+      match.athlete_id,
+      compensationFields.compensation,
+      offerData.deliverables
+    );
+
+    if (!minimumCheck.success) {
+      throw new AppError(
+        minimumCheck.error || 'Offer is below the athlete minimum',
+        minimumCheck.code === 'BELOW_MINIMUM' ? 422 : 500,
+        minimumCheck.code || 'SERVER_ERROR'
+      );
+    }
+
+    const budgetCheck = await budgetService.checkOffer(match.campaign_id, compensationFields.offer_amount);
+
+    if (!budgetCheck.allowed) {
+      throw new AppError(
+        budgetCheck.error || 'Campaign budget could not be checked',
+        budgetCheck.code === 'BUDGET_EXCEEDED' ? 409 : 500,
+        budgetCheck.code || 'BUDGET_ERROR'
+      );
+    }
+
     // Calculate expiration date (default 7 days)
     const expiresAt = new Date();
     expiresAt.setDate(expiresAt.getDate() + (offerData.expires_in_days || 7));
@@ -397,9 +427,11 @@ router.post('/:id/offer', requireAuth, requireRole(['business']), async (req: Re
         business_id: match.business_id,
         athlete_id: match.athlete_id,
         campaign_id: match.campaign_id,
-        compensation_type: offerData.compensation_type,
-        offer_amount: offerData.offer_amount,
-        payment_schedule: offerData.payment_schedule,
+        compensation: compensationFields.compensation,
+        compensation_type: compensationFields.compensation_type,
+        offer_amount: compensationFields.offer_amount,
+        payment_schedule: compensationFields.payment_schedule,
+        payment_milestones: milestoneResult.milestones,
         bonus_structure: offerData.bonus_structure,
         deliverables: offerData.deliverables || [],
         content_specifications: offerData.content_specifications,
@@ -421,77 +453,41 @@ router.post('/:id/offer', requireAuth, requireRole(['business']), async (req: Re
       throw new AppError('Failed to create offer', 500, 'DATABASE_ERROR');
     }
 
-    // Create notification for athlete
-    await supabase
-      .from('notifications')
-      .insert({
-        user_id: match.athlete_id,
-        type: 'NEW_PARTNERSHIP_OFFER',
-        title: 'New Partnership Offer',
-        content: `You have received a new partnership offer for ${offerData.offer_amount}`,
-        reference_type: 'OFFER',
-        reference_id: offer.id,
-        is_read: false,
-        created_at: new Date().toISOString()
-      });
+    // Record the opening terms as revision 1 of the negotiation
+    const revisionResult = await offerNegotiationService.recordRevision(
+      offer,
+      userId,
+      'business',
+      extractOfferTerms(offer)
+    );
 
-    // Send WebSocket notification if available
-    if (wsHelpers.broadcastToChannel) {
-      wsHelpers.broadcastToChannel(`user:${match.athlete_id}`, {
-        type: 'notification',
-        notification: {
-          type: 'NEW_PARTNERSHIP_OFFER',
-          title: 'New Partnership Offer',
-          content: `You have received a new partnership offer`,
-          offerId: offer.id,
-          matchId: matchId
-        }
-      });
+    if (!revisionResult.success) {
+      console.error('Failed to record initial offer revision:', revisionResult.error);
     }
 
-    // If compliance is required, create compliance notification
+    // Create notification for athlete
+    await notificationService.notify(match.athlete_id, {
+      type: 'NEW_PARTNERSHIP_OFFER',
+      title: 'New Partnership Offer',
+      content: `You have received a new partnership offer for ${describeCompensation(compensationFields.compensation)}`,
+      referenceType: 'OFFER',
+      referenceId: offer.id,
+      data: { offerId: offer.id, matchId }
+    });
+
+    // If compliance is required, add the offer to the compliance review queue
     if (offerData.needs_compliance === true) {
-      // Find compliance officers
-      const { data: complianceOfficers } = await supabase
-        .from('users')
-        .select('id')
-        .eq('role', 'compliance');
-
-      if (complianceOfficers && complianceOfficers.length > 0) {
-        // Notify all compliance officers
-        for (const officer of complianceOfficers) {
-          await supabase
-            .from('notifications')
-            .insert({
-              user_id: officer.id,
-              type: 'COMPLIANCE_REVIEW_NEEDED',
-              title: 'Compliance Review Needed',
-              content: 'A new partnership offer requires compliance review',
-              reference_type: 'OFFER',
-              reference_id: offer.id,
-              is_read: false,
-              created_at: new Date().toISOString()
-            });
-
-          // Send WebSocket notification
-          if (wsHelpers.broadcastToChannel) {
-            wsHelpers.broadcastToChannel(`user:${officer.id}`, {
-              type: 'notification',
-              notification: {
-                type: 'COMPLIANCE_REVIEW_NEEDED',
-                title: 'Compliance Review Needed',
-                content: 'A new partnership offer requires compliance review',
-                offerId: offer.id
-              }
-            });
-          }
-        }
+      const complianceResult = await complianceService.submitForReview(offer.id, userId);
+
+      if (!complianceResult.success) {
+        console.error('Failed to submit offer for compliance review:', complianceResult.error);
       }
     }
 
     res.status(201).json({
       message: 'Partnership offer created successfully',
-      offer
+      offer: revisionResult.offer || offer,
+      budget_warnings: budgetCheck.warnings
     });
   } catch (error) {
     if (error instanceof AppError) {
@@ -568,53 +564,23 @@ router.put('/:id/compliance', requireAuth, requireRole(['compliance', 'admin']),
     const notificationTitle = `Compliance ${status === 'approved' ? 'Approved' : status === 'rejected' ? 'Rejected' : 'Updated'}`;
     const notificationContent = `Your match has been ${status} by compliance${notes ? ': ' + notes : ''}`;
 
-    // Notify athlete
-    await supabase
-      .from('notifications')
-      .insert({
-        user_id: match.athlete_id,
-        type: notificationType,
-        title: notificationTitle,
-        content: notificationContent,
-        reference_type: 'MATCH',
-        reference_id: matchId,
-        is_read: false,
-        created_at: new Date().toISOString()
-      });
-
-    // Notify business
-    await supabase
-      .from('notifications')
-      .insert({
-        user_id: match.business_id,
-        type: notificationType,
-        title: notificationTitle,
-        content: notificationContent,
-        reference_type: 'MATCH',
-        reference_id: matchId,
-        is_read: false,
-        created_at: new Date().toISOString()
-      });
-
-    // Send WebSocket notifications
-    if (wsHelpers.broadcastToChannel) {
-      const notification = {
-        type: notificationType,
-        title: notificationTitle,
-        content: notificationContent,
-        matchId: matchId
-      };
-
-      wsHelpers.broadcastToChannel(`user:${match.athlete_id}`, {
-        type: 'notification',
-        notification
-      });
+    await notificationService.notify(match.athlete_id, {
+      type: notificationType,
+      title: notificationTitle,
+      content: notificationContent,
+      referenceType: 'MATCH',
+      referenceId: matchId,
+      data: { matchId }
+    });
 
-      wsHelpers.broadcastToChannel(`user:${match.business_id}`, {
-        type: 'notification',
-        notification
-      });
-    }
+    await notificationService.notify(match.business_id, {
+      type: notificationType,
+      title: notificationTitle,
+      content: notificationContent,
+      referenceType: 'MATCH',
+      referenceId: matchId,
+      data: { matchId }
+    });
 
     res.status(200).json({
       message: `Compliance status updated to ${status}`,
@@ -0,0 +1,30 @@
+/**
+ * Message Routes
+ *
+ * Defines all routes related to athlete-business message threads.
+ * Typing indicators are sent over the WebSocket connection instead.
+ */
+
+import { Router } from 'express';
+import { messageController, attachmentUpload } from '../controllers/messageController';
+import { requireAuth, requireRole } from '../middleware/auth';
+
+const router = Router();
+
+// Protected routes - require authentication
+router.use(requireAuth);
+
+// Threads are only between athletes and businesses
+router.use(requireRole(['athlete', 'business']));
+
+router.get('/threads', messageController.getThreads);
+router.post('/threads', messageController.openThread);
+router.get('/unread-count', messageController.getUnreadCount);
+
+router.get('/threads/:id', messageController.getThread);
+router.get('/threads/:id/messages', messageController.getMessages);
+router.post('/threads/:id/messages', attachmentUpload.array('attachments', 5), messageController.sendMessage);
+router.post('/threads/:id/read', messageController.markRead);
+router.get('/threads/:id/messages/:messageId/attachments/:index', messageController.getAttachment);
+
+export default router;
@@ -0,0 +1,25 @@
+/**
+ * Notification Routes
+ *
+ * Defines all routes related to the in-app notification center.
+ */
+
+import { Router } from 'express';
+import { notificationController } from '../controllers/notificationController';
+import { requireAuth, requireRole } from '../middleware/auth';
+
+const router = Router();
+
+// Protected routes - require authentication
+router.use(requireAuth);
+
+router.get('/', notificationController.getNotifications);
+router.get('/unread-count', notificationController.getUnreadCount);
+router.get('/preferences', notificationController.getPreferences);
+router.put('/preferences', notificationController.updatePreferences);
+router.post('/digest/run', requireRole(['admin']), notificationController.runDigest);
+router.post('/read-all', notificationController.markAllRead);
+router.post('/:id/read', notificationController.markRead);
+router.delete('/:id', notificationController.deleteNotification);
+
+export default router;
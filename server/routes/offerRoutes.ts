@@ -19,10 +19,15 @@ router.get('/', offerController.getUserOffers);
 // Get offer by ID
 router.get('/:id', offerController.getOffer);
 
+// Negotiation history and counter-offers (either party)
+router.get('/:id/revisions', offerController.getOfferRevisions);
+router.post('/:id/counter', requireRole(['athlete', 'business']), offerController.counterOffer);
+
 // Routes that require business role
 router.post('/', requireRole(['business']), offerController.createOffer);
 router.put('/:id', requireRole(['business']), offerController.updateOffer);
 router.post('/:id/cancel', requireRole(['business']), offerController.cancelOffer);
+router.post('/:id/counter/respond', requireRole(['business']), offerController.respondToCounter);
 
 // Routes that require athlete role
 router.post('/:id/respond', requireRole(['athlete']), offerController.respondToOffer);
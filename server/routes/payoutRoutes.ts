@@ -0,0 +1,32 @@
+/**
+ * Payout Routes
+ *
+ * Defines all routes related to athlete payouts, offer escrow and payment milestones.
+ */
+
+import { Router } from 'express';
+import { payoutController } from '../controllers/payoutController';
+import { requireAuth, requireRole } from '../middleware/auth';
+
+const router = Router();
+
+// Protected routes - require authentication
+router.use(requireAuth);
+
+// Payout history and escrow for either party
+router.get('/', payoutController.getPayoutHistory);
+router.get('/offers/:offerId/escrow', payoutController.getOfferEscrow);
+router.get('/milestones', payoutController.getMilestones);
+router.post('/milestones/:milestoneId/dispute', requireRole(['athlete', 'business']), payoutController.disputeMilestone);
+router.post('/milestones/:milestoneId/resolve', requireRole(['athlete', 'business', 'admin']), payoutController.resolveMilestoneDispute);
+
+// Routes that require athlete role
+router.get('/account', requireRole(['athlete']), payoutController.getAccount);
+router.post('/account/onboarding', requireRole(['athlete']), payoutController.startOnboarding);
+router.get('/earnings', requireRole(['athlete']), payoutController.getEarnings);
+
+// Routes that require business role
+router.post('/offers/:offerId/escrow/fund', requireRole(['business']), payoutController.fundOfferEscrow);
+router.post('/milestones/:milestoneId/release', requireRole(['business']), payoutController.releaseMilestone);
+
+export default router;
@@ -0,0 +1,18 @@
+/**
+ * Profile Page Routes
+ *
+ * Serves athletes' public profile pages as server-rendered HTML, so link
+ * previews can read their Open Graph tags, and the redirects that count
+ * clicks on their link buttons.
+ */
+
+import { Router } from 'express';
+import { athleteProfileController } from '../controllers/athleteProfileController';
+
+const router = Router();
+
+// Public routes
+router.get('/:slug', athleteProfileController.renderProfilePage);
+router.get('/:slug/go/:buttonId', athleteProfileController.followProfileButton);
+
+export default router;
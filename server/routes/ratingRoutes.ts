@@ -0,0 +1,28 @@
+/**
+ * Rating Routes
+ *
+ * Defines all routes related to partnership ratings, reputation and appeals.
+ */
+
+import { Router } from 'express';
+import { ratingController } from '../controllers/ratingController';
+import { requireAuth, requireRole } from '../middleware/auth';
+
+const router = Router();
+
+// All routes require authentication
+router.use(requireAuth);
+
+router.get('/pending', requireRole(['athlete', 'business']), ratingController.getPending);
+router.post('/', requireRole(['athlete', 'business']), ratingController.submit);
+router.get('/received', ratingController.getReceived);
+router.get('/given', ratingController.getGiven);
+router.get('/reputation', ratingController.getReputation);
+router.get('/reputation/:userId', ratingController.getReputation);
+router.post('/:id/appeal', ratingController.appeal);
+
+// Appeals - admin only
+router.get('/appeals', requireRole(['admin']), ratingController.getAppeals);
+router.post('/:id/resolve', requireRole(['admin']), ratingController.resolveAppeal);
+
+export default router;
@@ -0,0 +1,23 @@
+/**
+ * Social Verification Routes
+ *
+ * Defines all routes related to verifying ownership of athlete social accounts.
+ */
+
+import { Router } from 'express';
+import { socialVerificationController } from '../controllers/socialVerificationController';
+import { requireAuth, requireRole } from '../middleware/auth';
+
+const router = Router();
+
+// All social verification routes require authentication
+router.use(requireAuth);
+
+// Only athletes have social accounts to verify
+router.use(requireRole(['athlete']));
+
+router.get('/', socialVerificationController.getAccounts);
+router.post('/:accountId/start', socialVerificationController.startVerification);
+router.post('/:accountId/check', socialVerificationController.checkVerification);
+
+export default router;
@@ -0,0 +1,27 @@
+/**
+ * Tax Routes
+ *
+ * Defines all routes related to W-9 collection and 1099-NEC reporting.
+ */
+
+import { Router } from 'express';
+import { taxController } from '../controllers/taxController';
+import { requireAuth, requireRole } from '../middleware/auth';
+
+const router = Router();
+
+// Protected routes - require authentication
+router.use(requireAuth);
+
+// Routes that require athlete role
+router.get('/w9', requireRole(['athlete']), taxController.getW9);
+router.post('/w9', requireRole(['athlete']), taxController.submitW9);
+router.get('/earnings', requireRole(['athlete']), taxController.getYearlyEarnings);
+router.get('/1099/:year', requireRole(['athlete']), taxController.download1099);
+
+// 1099-NEC reporting - admin only
+router.get('/admin/1099', requireRole(['admin']), taxController.get1099Report);
+router.get('/admin/1099/export', requireRole(['admin']), taxController.export1099Csv);
+router.get('/admin/1099/:athleteId/:year', requireRole(['admin']), taxController.download1099);
+
+export default router;
@@ -3,6 +3,7 @@ import Stripe from "stripe";
 import { buffer } from "../utils/buffer";
 import * as stripeService from "../services/stripeService";
 import { storage } from "../storage";
+import { payoutService } from "../services/payoutService";
 
 if (!process.env.STRIPE_SECRET_KEY) {
   throw new Error("Missing required Stripe secret: STRIPE_SECRET_KEY");
@@ -135,6 +136,29 @@ webhooksRouter.post("/webhook", async (req: Request, res: Response) => {
         break;
       }
 
+      case "account.updated": {
+        const account = event.data.object as Stripe.Account;
+
+        // Athlete connected-account onboarding progress
+        await payoutService.syncAccount(account.id);
+        break;
+      }
+
+      case "payment_intent.succeeded":
+      case "payment_intent.payment_failed": {
+        const paymentIntent = event.data.object as Stripe.PaymentIntent;
+
+        // Escrow charges confirmed or declined after the offer was accepted
+        if (paymentIntent.metadata?.escrow_id) {
+          await payoutService.handleChargeUpdate(
+            paymentIntent.id,
+            event.type === "payment_intent.succeeded" ? "succeeded" : "failed",
+            paymentIntent.last_payment_error?.message,
+          );
+        }
+        break;
+      }
+
       // Handle other event types as needed
       default:
         // Unexpected event type
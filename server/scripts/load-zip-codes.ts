@@ -0,0 +1,141 @@
+/**
+ * Load ZIP Codes
+ *
+ * Fills public.zip_codes, which athlete search uses for ZIP code radius
+ * filters, then recomputes the coordinates of every athlete profile.
+ *
+ * Usage: npm run db:load-zip-codes -- <file>
+ *
+ * The file is the Census ZCTA gazetteer (tab-separated, with GEOID, INTPTLAT
+ * and INTPTLONG columns, e.g. 2023_Gaz_zcta_national.txt from
+ * https://www.census.gov/geographies/reference-files/time-series/geo/gazetteer-files.html)
+ * or any CSV with zip, latitude and longitude columns (city and state are
+ * kept when present). Rows are upserted, so the script can be re-run after
+ * a newer gazetteer comes out.
+ */
+
+import { readFile } from 'fs/promises';
+import { getSupabaseAdmin } from '../lib/supabase';
+
+// Rows sent per upsert
+const BATCH_SIZE = 1000;
+
+// Header names accepted for each column, lowercase
+const COLUMN_NAMES = {
+  zip: ['geoid', 'zip', 'zipcode', 'zip_code'],
+  latitude: ['intptlat', 'latitude', 'lat'],
+  longitude: ['intptlong', 'longitude', 'lng', 'lon'],
+  city: ['city'],
+  state: ['state', 'state_id', 'usps']
+};
+
+interface ZipCodeRow {
+  zip: string;
+  latitude: number;
+  longitude: number;
+  city: string | null;
+  state: string | null;
+}
+
+function splitLine(line: string, delimiter: string): string[] {
+  return line.split(delimiter).map(cell => cell.trim().replace(/^"|"$/g, ''));
+}
+
+/**
+ * Parse a gazetteer or CSV file into zip_codes rows, skipping malformed lines
+ */
+function parseZipCodes(contents: string): ZipCodeRow[] {
+  const lines = contents.split(/\r?\n/).filter(line => line.trim() !== '');
+  if (lines.length === 0) {
+    return [];
+  }
+
+  const delimiter = lines[0].includes('\t') ? '\t' : ',';
+  const header = splitLine(lines[0], delimiter).map(name => name.toLowerCase());
+  const column = (names: string[]) => header.findIndex(name => names.includes(name));
+
+  const zipIndex = column(COLUMN_NAMES.zip);
+  const latitudeIndex = column(COLUMN_NAMES.latitude);
+  const longitudeIndex = column(COLUMN_NAMES.longitude);
+  const cityIndex = column(COLUMN_NAMES.city);
+  const stateIndex = column(COLUMN_NAMES.state);
+
+  if (zipIndex === -1 || latitudeIndex === -1 || longitudeIndex === -1) {
+    throw new Error('Expected ZIP code, latitude and longitude columns in the header');
+  }
+
+  const rows = new Map<string, ZipCodeRow>();
+  for (const line of lines.slice(1)) {
+    const cells = splitLine(line, delimiter);
+    const zip = (cells[zipIndex] || '').padStart(5, '0');
+    const latitude = Number(cells[latitudeIndex]);
+    const longitude = Number(cells[longitudeIndex]);
+
+    if (!/^\d{5}$/.test(zip) || !cells[latitudeIndex] || !cells[longitudeIndex]
+      || !Number.isFinite(latitude) || !Number.isFinite(longitude)) {
+      continue;
+    }
+
+    rows.set(zip, {
+      zip,
+      latitude,
+      longitude,
+      city: cityIndex === -1 ? null : cells[cityIndex] || null,
+      state: stateIndex === -1 ? null : cells[stateIndex] || null
+    });
+  }
+
+  return Array.from(rows.values());
+}
+
+async function loadZipCodes(file: string | undefined): Promise<boolean> {
+  if (!file) {
+    console.error('Usage: npm run db:load-zip-codes -- <gazetteer or CSV file>');
+    return false;
+  }
+
+  try {
+    const supabaseAdmin = getSupabaseAdmin();
+    const rows = parseZipCodes(await readFile(file, 'utf8'));
+
+    if (rows.length === 0) {
+      console.error(`No ZIP codes found in ${file}`);
+      return false;
+    }
+
+    console.log(`Loading ${rows.length} ZIP codes from ${file}...`);
+
+    for (let start = 0; start < rows.length; start += BATCH_SIZE) {
+      const { error } = await supabaseAdmin
+        .from('zip_codes')
+        .upsert(rows.slice(start, start + BATCH_SIZE), { onConflict: 'zip' });
+
+      if (error) {
+        console.error(`Error loading ZIP codes ${start + 1}-${start + BATCH_SIZE}:`, error);
+        return false;
+      }
+    }
+
+    // Profiles saved before their ZIP code was in the table have no coordinates yet
+    const { data: updated, error } = await supabaseAdmin.rpc('refresh_athlete_profile_coordinates');
+
+    if (error) {
+      console.error('Error recomputing athlete profile coordinates:', error);
+      return false;
+    }
+
+    console.log(`Loaded ${rows.length} ZIP codes; updated coordinates for ${updated ?? 0} athlete profiles`);
+    return true;
+  } catch (error) {
+    console.error('Error loading ZIP codes:', error);
+    return false;
+  }
+}
+
+// Execute the function
+loadZipCodes(process.argv[2])
+  .then(success => process.exit(success ? 0 : 1))
+  .catch(error => {
+    console.error('Unhandled error:', error);
+    process.exit(1);
+  });
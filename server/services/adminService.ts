@@ -0,0 +1,585 @@
+/**
+ * Admin Service
+ *
+ * Backs the admin console: user search, role changes, suspension and
+ * reactivation, impersonation, a partnership overview and platform KPIs.
+ * Every action on a user account is written to the append-only
+ * admin_audit_events table with the acting admin and their reason.
+ * Impersonation issues a one-time sign-in link for the user and is refused
+ * if its audit record can't be written.
+ */
+
+import { supabase, supabaseAdmin } from '../lib/supabase';
+import config from '../config/environment';
+import {
+  AdminAuditAction,
+  AdminAuditEvent,
+  AdminKpis,
+  AdminPartnership,
+  AdminUserSearch,
+  AdminUserSummary,
+  OfferStatus,
+  UserRole
+} from '../../shared/schema';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Rows read per request when summing a whole table
+const SUM_PAGE_SIZE = 1000;
+// Supabase Auth ban long enough to outlast any suspension (100 years)
+const SUSPENSION_BAN_DURATION = '876000h';
+
+const USER_COLUMNS = 'id, email, role, full_name, first_name, last_name, status, suspended_at, suspension_reason, created_at, last_login';
+
+// Who performed an admin action, and from where
+export interface AdminRequestContext {
+  ip?: string | null;
+  userAgent?: string | null;
+}
+
+// Interface for admin service results
+export interface AdminResult {
+  success: boolean;
+  user?: AdminUserSummary;
+  users?: AdminUserSummary[];
+  partnerships?: AdminPartnership[];
+  byStatus?: Record<string, number>;
+  events?: AdminAuditEvent[];
+  kpis?: AdminKpis;
+  link?: string;
+  total?: number;
+  error?: string;
+  code?: string;
+  message?: string;
+}
+
+function toSummary(row: any): AdminUserSummary {
+  const name = row.full_name || [row.first_name, row.last_name].filter(Boolean).join(' ');
+  return {
+    id: row.id,
+    email: row.email,
+    role: row.role,
+    full_name: name || null,
+    status: row.status || 'active',
+    suspended_at: row.suspended_at || null,
+    suspension_reason: row.suspension_reason || null,
+    created_at: row.created_at || null,
+    last_login: row.last_login || null
+  };
+}
+
+// Drop characters that carry meaning in PostgREST filter strings
+function searchTerm(q: string): string {
+  return q.replace(/[,()*%\\]/g, ' ').trim();
+}
+
+function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+// Main admin service class
+class AdminService {
+  /**
+   * Search users by email or name, optionally filtered by role and status
+   */
+  async searchUsers(search: AdminUserSearch): Promise<AdminResult> {
+    try {
+      let query = supabase
+        .from('users')
+        .select(USER_COLUMNS, { count: 'exact' })
+        .order('created_at', { ascending: false })
+        .range(search.offset, search.offset + search.limit - 1);
+
+      const term = search.q ? searchTerm(search.q) : '';
+      if (term) {
+        query = query.or(`email.ilike.%${term}%,full_name.ilike.%${term}%,first_name.ilike.%${term}%,last_name.ilike.%${term}%`);
+      }
+      if (search.role) {
+        query = query.eq('role', search.role);
+      }
+      if (search.status) {
+        query = query.eq('status', search.status);
+      }
+
+      const { data, error, count } = await query;
+
+      if (error) {
+        console.error('Error searching users:', error);
+        return { success: false, error: 'Failed to search users', code: 'DATABASE_ERROR' };
+      }
+
+      return { success: true, users: (data || []).map(toSummary), total: count || 0 };
+    } catch (error: any) {
+      console.error('Search users exception:', error);
+      return { success: false, error: error.message || 'Failed to search users', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Get one user
+   */
+  async getUser(userId: string): Promise<AdminResult> {
+    try {
+      const user = await this.loadUser(userId);
+
+      if (!user) {
+        return { success: false, error: 'User not found', code: 'NOT_FOUND' };
+      }
+
+      return { success: true, user };
+    } catch (error: any) {
+      console.error('Get user exception:', error);
+      return { success: false, error: error.message || 'Failed to load user', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Change a user's role; admins can't change their own
+   */
+  async changeRole(
+    adminId: string,
+    userId: string,
+    role: UserRole,
+    reason: string | undefined,
+    context: AdminRequestContext
+  ): Promise<AdminResult> {
+    try {
+      if (adminId === userId) {
+        return { success: false, error: "You can't change your own role", code: 'INVALID_OPERATION' };
+      }
+
+      const user = await this.loadUser(userId);
+      if (!user) {
+        return { success: false, error: 'User not found', code: 'NOT_FOUND' };
+      }
+
+      if (user.role === role) {
+        return { success: true, user, message: 'Role unchanged' };
+      }
+
+      const { data, error } = await supabase
+        .from('users')
+        .update({ role })
+        .eq('id', userId)
+        .select(USER_COLUMNS)
+        .single();
+
+      if (error || !data) {
+        console.error('Error changing user role:', error);
+        return { success: false, error: 'Failed to change role', code: 'DATABASE_ERROR' };
+      }
+
+      // Auth metadata is the fallback role source, so keep it in step
+      await this.updateAuthUser(userId, async () => {
+        const { data: authUser } = await supabaseAdmin!.auth.admin.getUserById(userId);
+        const metadata = authUser?.user?.user_metadata || {};
+        return { user_metadata: { ...metadata, role, userType: role } };
+      });
+
+      await this.audit(adminId, userId, 'role_change', reason || null, { from: user.role, to: role }, context);
+
+      return { success: true, user: toSummary(data), message: `Role changed to ${role}` };
+    } catch (error: any) {
+      console.error('Change role exception:', error);
+      return { success: false, error: error.message || 'Failed to change role', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Suspend a user: their API requests are refused and they can't sign in
+   */
+  async suspendUser(adminId: string, userId: string, reason: string, context: AdminRequestContext): Promise<AdminResult> {
+    try {
+      if (adminId === userId) {
+        return { success: false, error: "You can't suspend your own account", code: 'INVALID_OPERATION' };
+      }
+
+      const user = await this.loadUser(userId);
+      if (!user) {
+        return { success: false, error: 'User not found', code: 'NOT_FOUND' };
+      }
+
+      if (user.status === 'suspended') {
+        return { success: false, error: 'User is already suspended', code: 'INVALID_OPERATION' };
+      }
+
+      const { data, error } = await supabase
+        .from('users')
+        .update({ status: 'suspended', suspended_at: new Date().toISOString(), suspension_reason: reason })
+        .eq('id', userId)
+        .select(USER_COLUMNS)
+        .single();
+
+      if (error || !data) {
+        console.error('Error suspending user:', error);
+        return { success: false, error: 'Failed to suspend user', code: 'DATABASE_ERROR' };
+      }
+
+      // Banning in Supabase Auth also stops new sign-ins and token refreshes
+      await this.updateAuthUser(userId, async () => ({ ban_duration: SUSPENSION_BAN_DURATION }));
+      await this.audit(adminId, userId, 'suspend', reason, {}, context);
+
+      return { success: true, user: toSummary(data), message: 'User suspended' };
+    } catch (error: any) {
+      console.error('Suspend user exception:', error);
+      return { success: false, error: error.message || 'Failed to suspend user', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Lift a user's suspension
+   */
+  async reactivateUser(
+    adminId: string,
+    userId: string,
+    reason: string | undefined,
+    context: AdminRequestContext
+  ): Promise<AdminResult> {
+    try {
+      const user = await this.loadUser(userId);
+      if (!user) {
+        return { success: false, error: 'User not found', code: 'NOT_FOUND' };
+      }
+
+      if (user.status !== 'suspended') {
+        return { success: false, error: 'User is not suspended', code: 'INVALID_OPERATION' };
+      }
+
+      const { data, error } = await supabase
+        .from('users')
+        .update({ status: 'active', suspended_at: null, suspension_reason: null })
+        .eq('id', userId)
+        .select(USER_COLUMNS)
+        .single();
+
+      if (error || !data) {
+        console.error('Error reactivating user:', error);
+        return { success: false, error: 'Failed to reactivate user', code: 'DATABASE_ERROR' };
+      }
+
+      await this.updateAuthUser(userId, async () => ({ ban_duration: 'none' }));
+      await this.audit(adminId, userId, 'reactivate', reason || null, { suspended_at: user.suspended_at }, context);
+
+      return { success: true, user: toSummary(data), message: 'User reactivated' };
+    } catch (error: any) {
+      console.error('Reactivate user exception:', error);
+      return { success: false, error: error.message || 'Failed to reactivate user', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * One-time sign-in link that opens a session as the user; the audit record is written first
+   */
+  async impersonate(adminId: string, userId: string, reason: string, context: AdminRequestContext): Promise<AdminResult> {
+    try {
+      if (!supabaseAdmin) {
+        return { success: false, error: 'Impersonation is not configured', code: 'SERVICE_UNAVAILABLE' };
+      }
+
+      if (adminId === userId) {
+        return { success: false, error: "You can't impersonate yourself", code: 'INVALID_OPERATION' };
+      }
+
+      const user = await this.loadUser(userId);
+      if (!user) {
+        return { success: false, error: 'User not found', code: 'NOT_FOUND' };
+      }
+
+      if (user.role === 'admin') {
+        return { success: false, error: "Admin accounts can't be impersonated", code: 'FORBIDDEN' };
+      }
+
+      if (user.status === 'suspended') {
+        return { success: false, error: "Suspended users can't be impersonated", code: 'INVALID_OPERATION' };
+      }
+
+      const audited = await this.audit(adminId, userId, 'impersonate', reason, { email: user.email }, context);
+      if (!audited) {
+        return { success: false, error: 'Could not record the impersonation audit event', code: 'DATABASE_ERROR' };
+      }
+
+      const { data, error } = await supabaseAdmin.auth.admin.generateLink({
+        type: 'magiclink',
+        email: user.email,
+        options: config.SERVER_URL ? { redirectTo: config.SERVER_URL } : undefined
+      });
+
+      if (error || !data?.properties?.action_link) {
+        console.error('Error generating impersonation link:', error);
+        return { success: false, error: 'Failed to create sign-in link', code: 'SERVER_ERROR' };
+      }
+
+      return {
+        success: true,
+        user,
+        link: data.properties.action_link,
+        message: 'Open the link in a private window; it signs in as the user once'
+      };
+    } catch (error: any) {
+      console.error('Impersonate user exception:', error);
+      return { success: false, error: error.message || 'Failed to impersonate user', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Audit trail of admin actions, newest first
+   */
+  async getAuditEvents(filter: {
+    userId?: string;
+    action?: AdminAuditAction;
+    limit: number;
+    offset: number;
+  }): Promise<AdminResult> {
+    try {
+      let query = supabase
+        .from('admin_audit_events')
+        .select('*', { count: 'exact' })
+        .order('created_at', { ascending: false })
+        .range(filter.offset, filter.offset + filter.limit - 1);
+
+      if (filter.userId) {
+        query = query.eq('target_user_id', filter.userId);
+      }
+      if (filter.action) {
+        query = query.eq('action', filter.action);
+      }
+
+      const { data, error, count } = await query;
+
+      if (error) {
+        console.error('Error loading admin audit events:', error);
+        return { success: false, error: 'Failed to load audit events', code: 'DATABASE_ERROR' };
+      }
+
+      return { success: true, events: data || [], total: count || 0 };
+    } catch (error: any) {
+      console.error('Get audit events exception:', error);
+      return { success: false, error: error.message || 'Failed to load audit events', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Partnership offers with athlete, business and campaign names, plus counts by status
+   */
+  async getPartnerships(filter: { status?: OfferStatus; limit: number; offset: number }): Promise<AdminResult> {
+    try {
+      let query = supabase
+        .from('partnership_offers')
+        .select('id, status, athlete_id, business_id, campaign_id, offer_amount, created_at', { count: 'exact' })
+        .order('created_at', { ascending: false })
+        .range(filter.offset, filter.offset + filter.limit - 1);
+
+      if (filter.status) {
+        query = query.eq('status', filter.status);
+      }
+
+      const [{ data: offers, error, count }, byStatus] = await Promise.all([query, this.countOffersByStatus()]);
+
+      if (error) {
+        console.error('Error loading partnerships:', error);
+        return { success: false, error: 'Failed to load partnerships', code: 'DATABASE_ERROR' };
+      }
+
+      const athleteIds = Array.from(new Set((offers || []).map(offer => offer.athlete_id).filter(Boolean)));
+      const businessIds = Array.from(new Set((offers || []).map(offer => offer.business_id).filter(Boolean)));
+      const campaignIds = Array.from(new Set((offers || []).map(offer => offer.campaign_id).filter(Boolean)));
+
+      const [{ data: athletes }, { data: businesses }, { data: campaigns }] = await Promise.all([
+        athleteIds.length
+          ? supabase.from('athlete_profiles').select('id, name, full_name').in('id', athleteIds)
+          : Promise.resolve({ data: [] as any[] }),
+        businessIds.length
+          ? supabase.from('business_profiles').select('id, name, company').in('id', businessIds)
+          : Promise.resolve({ data: [] as any[] }),
+        campaignIds.length
+          ? supabase.from('campaigns').select('id, title').in('id', campaignIds)
+          : Promise.resolve({ data: [] as any[] })
+      ]);
+
+      const partnerships: AdminPartnership[] = (offers || []).map(offer => {
+        const athlete = athletes?.find(candidate => candidate.id === offer.athlete_id);
+        const business = businesses?.find(candidate => candidate.id === offer.business_id);
+        const campaign = campaigns?.find(candidate => candidate.id === offer.campaign_id);
+        return {
+          id: offer.id,
+          status: offer.status,
+          athlete_id: offer.athlete_id,
+          athlete_name: athlete?.full_name || athlete?.name || 'Unknown athlete',
+          business_id: offer.business_id,
+          business_name: business?.company || business?.name || 'Unknown business',
+          campaign_id: offer.campaign_id || null,
+          campaign_title: campaign?.title || null,
+          offer_amount: offer.offer_amount === null || offer.offer_amount === undefined ? null : Number(offer.offer_amount),
+          created_at: offer.created_at || null
+        };
+      });
+
+      return { success: true, partnerships, byStatus, total: count || 0 };
+    } catch (error: any) {
+      console.error('Get partnerships exception:', error);
+      return { success: false, error: error.message || 'Failed to load partnerships', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Platform-wide user, partnership, campaign and payment numbers
+   */
+  async getKpis(now = new Date()): Promise<AdminResult> {
+    try {
+      const since = new Date(now.getTime() - 30 * DAY_MS).toISOString();
+
+      const [roleCounts, newUsers, suspended, byStatus, activeCampaigns, payouts, escrows] = await Promise.all([
+        Promise.all(UserRole.options.map(role => this.count('users', query => query.eq('role', role)))),
+        this.count('users', query => query.gte('created_at', since)),
+        this.count('users', query => query.eq('status', 'suspended')),
+        this.countOffersByStatus(),
+        this.count('campaigns', query => query.eq('status', 'active')),
+        this.loadAll('payouts', 'amount, paid_at', query => query.eq('status', 'paid')),
+        this.loadAll('escrows', 'amount, released_amount, refunded_amount', query => query.eq('status', 'funded'))
+      ]);
+
+      const byRole: Record<string, number> = {};
+      UserRole.options.forEach((role, index) => {
+        byRole[role] = roleCounts[index];
+      });
+
+      const accepted = (byStatus.accepted || 0) + (byStatus.active || 0);
+      const decided = accepted + (byStatus.declined || 0);
+
+      return {
+        success: true,
+        kpis: {
+          users: {
+            total: Object.values(byRole).reduce((sum, value) => sum + value, 0),
+            byRole,
+            newLast30Days: newUsers,
+            suspended
+          },
+          partnerships: {
+            total: Object.values(byStatus).reduce((sum, value) => sum + value, 0),
+            byStatus,
+            acceptanceRate: decided > 0 ? Math.round((accepted / decided) * 1000) / 10 : null
+          },
+          campaigns: {
+            active: activeCampaigns
+          },
+          payments: {
+            paidOut: roundMoney(payouts.reduce((sum, payout) => sum + Number(payout.amount), 0)),
+            paidOutLast30Days: roundMoney(payouts
+              .filter(payout => payout.paid_at && payout.paid_at >= since)
+              .reduce((sum, payout) => sum + Number(payout.amount), 0)),
+            heldInEscrow: roundMoney(escrows.reduce((sum, escrow) =>
+              sum + Number(escrow.amount) - Number(escrow.released_amount || 0) - Number(escrow.refunded_amount || 0), 0)),
+            currency: 'USD'
+          }
+        }
+      };
+    } catch (error: any) {
+      console.error('Get KPIs exception:', error);
+      return { success: false, error: error.message || 'Failed to load KPIs', code: 'SERVER_ERROR' };
+    }
+  }
+
+  private async loadUser(userId: string): Promise<AdminUserSummary | null> {
+    const { data, error } = await supabase
+      .from('users')
+      .select(USER_COLUMNS)
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading user:', error);
+      return null;
+    }
+
+    return data ? toSummary(data) : null;
+  }
+
+  // Apply a change to the user's Supabase Auth record; the users table stays the source of truth
+  private async updateAuthUser(userId: string, attributes: () => Promise<Record<string, any>>): Promise<void> {
+    if (!supabaseAdmin) {
+      return;
+    }
+
+    try {
+      const { error } = await supabaseAdmin.auth.admin.updateUserById(userId, await attributes());
+      if (error) {
+        console.warn('Error updating auth user:', error);
+      }
+    } catch (error) {
+      console.warn('Update auth user exception:', error);
+    }
+  }
+
+  // Append an audit event; false if it couldn't be written
+  private async audit(
+    adminId: string,
+    userId: string,
+    action: AdminAuditAction,
+    reason: string | null,
+    details: Record<string, any>,
+    context: AdminRequestContext
+  ): Promise<boolean> {
+    const { error } = await supabase.from('admin_audit_events').insert({
+      admin_id: adminId,
+      target_user_id: userId,
+      action,
+      reason,
+      details,
+      ip_address: context.ip || null,
+      user_agent: context.userAgent || null
+    });
+
+    if (error) {
+      console.error(`Error recording admin ${action} audit event:`, error);
+      return false;
+    }
+
+    return true;
+  }
+
+  private async countOffersByStatus(): Promise<Record<string, number>> {
+    const counts = await Promise.all(
+      OfferStatus.options.map(status => this.count('partnership_offers', query => query.eq('status', status)))
+    );
+
+    const byStatus: Record<string, number> = {};
+    OfferStatus.options.forEach((status, index) => {
+      byStatus[status] = counts[index];
+    });
+    return byStatus;
+  }
+
+  private async count(table: string, filter: (query: any) => any): Promise<number> {
+    const { count, error } = await filter(supabase.from(table).select('id', { count: 'exact', head: true }));
+
+    if (error) {
+      throw new Error(`Failed to count ${table}: ${error.message}`);
+    }
+
+    return count || 0;
+  }
+
+  // Every matching row, read a page at a time
+  private async loadAll(table: string, columns: string, filter: (query: any) => any): Promise<any[]> {
+    const rows: any[] = [];
+
+    while (true) {
+      const { data, error } = await filter(supabase.from(table).select(columns))
+        .order('id', { ascending: true })
+        .range(rows.length, rows.length + SUM_PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Failed to load ${table}: ${error.message}`);
+      }
+
+      rows.push(...(data || []));
+      if (!data || data.length < SUM_PAGE_SIZE) {
+        return rows;
+      }
+    }
+  }
+}
+
+// Create and export singleton instance
+export const adminService = new AdminService();
+export default adminService;
@@ -0,0 +1,570 @@
+/**
+ * Athlete Search Service
+ *
+ * Lets businesses discover athletes outside of campaign matching: free-text
+ * search over name, bio, school, sport and achievements, filters on sport,
+ * division, school, graduation year, distance from a ZIP code, follower and
+ * engagement ranges and content types, with value counts for the filters,
+ * sorting and cursor pagination. Businesses can save searches; an hourly job
+ * notifies them when athletes who joined since the last check match one.
+ */
+
+import { supabase } from '../lib/supabase';
+import { notificationService } from './notificationService';
+import {
+  AthleteSearchFacets,
+  AthleteSearchFilters,
+  AthleteSearchPage,
+  AthleteSearchQuery,
+  AthleteSearchResult,
+  AthleteSearchSort,
+  athleteSearchFiltersSchema,
+  SavedAthleteSearch,
+  SavedAthleteSearchInput
+} from '../../shared/schema';
+
+// Radius used when a ZIP code is given without one
+const DEFAULT_RADIUS_MILES = 25;
+
+const EARTH_RADIUS_MILES = 3958.8;
+
+// Facet counts are computed over at most this many matching athletes
+const FACET_SAMPLE_LIMIT = 1000;
+
+// Values listed per facet, most common first
+const FACET_SIZE = 15;
+
+// Saved searches per business
+const MAX_SAVED_SEARCHES = 25;
+
+// How often saved searches are checked for new athletes
+const ALERT_CHECK_INTERVAL = 60 * 60 * 1000; // 1 hour
+
+// Most new athletes an alert looks at per saved search
+const ALERT_SAMPLE_LIMIT = 100;
+
+// Column and direction for each sort; ties are broken by id in the same direction
+const SORT_COLUMNS: Record<AthleteSearchSort, { column: string; ascending: boolean }> = {
+  followers: { column: 'follower_count', ascending: false },
+  engagement: { column: 'engagement_percent', ascending: false },
+  newest: { column: 'created_at', ascending: false },
+  graduation_year: { column: 'graduation_year', ascending: true },
+  name: { column: 'name', ascending: true }
+};
+
+const RESULT_COLUMNS = [
+  'id', 'name', 'full_name', 'profile_image', 'bio', 'school', 'division', 'sport', 'position',
+  'graduation_year', 'location', 'follower_count', 'engagement_percent', 'content_type_tags',
+  'latitude', 'longitude', 'created_at'
+].join(', ');
+
+const FACET_COLUMNS = 'sport, division, school, graduation_year, content_type_tags, latitude, longitude';
+
+// Center of a radius search
+interface SearchOrigin {
+  latitude: number;
+  longitude: number;
+  radiusMiles: number;
+}
+
+// Position in a result list: the sort value and id of the last athlete on the previous page
+export interface SearchCursor {
+  v: string | number | null;
+  id: string;
+}
+
+// Interface for athlete search results
+export interface AthleteSearchServiceResult {
+  success: boolean;
+  page?: AthleteSearchPage;
+  search?: SavedAthleteSearch;
+  searches?: SavedAthleteSearch[];
+  error?: string;
+  code?: string;
+  message?: string;
+}
+
+/**
+ * Great-circle distance between two points in miles
+ */
+export function distanceMiles(
+  from: { latitude: number; longitude: number },
+  to: { latitude: number; longitude: number }
+): number {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const a = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+export function encodeCursor(cursor: SearchCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+export function decodeCursor(value: string): SearchCursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    const validValue = cursor?.v === null || ['string', 'number'].includes(typeof cursor?.v);
+    return validValue && typeof cursor?.id === 'string' && /^[0-9a-f-]{36}$/i.test(cursor.id) ? cursor : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Quote a value for a PostgREST logical filter so commas, dots and
+ * parentheses in it aren't read as syntax
+ */
+function filterValue(value: string | number): string {
+  return `"${String(value).replace(/["\\]/g, '\\$&')}"`;
+}
+
+/**
+ * Keyset condition for the rows after the cursor, with nulls sorted last
+ */
+function afterCursor(sort: AthleteSearchSort, cursor: SearchCursor): string {
+  const { column, ascending } = SORT_COLUMNS[sort];
+  const op = ascending ? 'gt' : 'lt';
+
+  if (cursor.v === null) {
+    return `and(${column}.is.null,id.${op}.${cursor.id})`;
+  }
+
+  const value = filterValue(cursor.v);
+  return `${column}.${op}.${value},and(${column}.eq.${value},id.${op}.${cursor.id}),${column}.is.null`;
+}
+
+function withinRadius(row: any, origin: SearchOrigin | null): boolean {
+  if (!origin) return true;
+  if (row.latitude === null || row.longitude === null) return false;
+  return distanceMiles(origin, row) <= origin.radiusMiles;
+}
+
+function countValues<T extends string | number>(values: T[], size = FACET_SIZE): { value: T; count: number }[] {
+  const counts = new Map<T, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+  return Array.from(counts.entries())
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || String(a.value).localeCompare(String(b.value)))
+    .slice(0, size);
+}
+
+function toResult(row: any, origin: SearchOrigin | null): AthleteSearchResult {
+  return {
+    id: row.id,
+    name: row.full_name || row.name,
+    profile_image: row.profile_image || null,
+    bio: row.bio || null,
+    school: row.school || null,
+    division: row.division || null,
+    sport: row.sport || null,
+    position: row.position || null,
+    graduation_year: row.graduation_year ?? null,
+    location: row.location || null,
+    follower_count: row.follower_count || 0,
+    engagement_percent: row.engagement_percent === null ? null : Math.round(Number(row.engagement_percent) * 100) / 100,
+    content_types: row.content_type_tags || [],
+    distance_miles: origin && row.latitude !== null ? Math.round(distanceMiles(origin, row) * 10) / 10 : null,
+    created_at: row.created_at || null
+  };
+}
+
+// Main athlete search service class
+class AthleteSearchService {
+  private alertTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * One page of athletes matching the filters, with facet counts
+   *
+   * Radius searches narrow the database query to a bounding box and drop the
+   * corners afterwards, so a page can hold fewer athletes than the limit
+   * even when there are more to come; follow nextCursor until it is null.
+   */
+  async search(query: AthleteSearchQuery): Promise<AthleteSearchServiceResult> {
+    try {
+      const cursor = query.cursor ? decodeCursor(query.cursor) : null;
+      if (query.cursor && !cursor) {
+        return { success: false, error: 'Invalid cursor', code: 'INVALID_INPUT' };
+      }
+
+      const resolved = await this.resolveOrigin(query);
+      if (!resolved.success) {
+        return resolved;
+      }
+      const origin = resolved.origin;
+
+      const { column, ascending } = SORT_COLUMNS[query.sort];
+      let pageQuery = this.applyFilters(supabase.from('athlete_profiles').select(RESULT_COLUMNS), query, origin);
+      if (cursor) {
+        pageQuery = pageQuery.or(afterCursor(query.sort, cursor));
+      }
+
+      const [pageResponse, facetResponse] = await Promise.all([
+        pageQuery
+          .order(column, { ascending, nullsFirst: false })
+          .order('id', { ascending })
+          .limit(query.limit + 1),
+        this.applyFilters(supabase.from('athlete_profiles').select(FACET_COLUMNS, { count: 'exact' }), query, origin)
+          .limit(FACET_SAMPLE_LIMIT)
+      ]);
+
+      if (pageResponse.error || facetResponse.error) {
+        console.error('Error searching athletes:', pageResponse.error || facetResponse.error);
+        return { success: false, error: 'Failed to search athletes', code: 'DATABASE_ERROR' };
+      }
+
+      const rows: any[] = pageResponse.data || [];
+      const pageRows = rows.slice(0, query.limit);
+      const last = pageRows[pageRows.length - 1];
+      const nextCursor = rows.length > query.limit && last
+        ? encodeCursor({ v: last[column] ?? null, id: last.id })
+        : null;
+
+      const facetRows = (facetResponse.data || []).filter((row: any) => withinRadius(row, origin));
+
+      return {
+        success: true,
+        page: {
+          athletes: pageRows.filter(row => withinRadius(row, origin)).map(row => toResult(row, origin)),
+          nextCursor,
+          total: origin ? facetRows.length : facetResponse.count ?? facetRows.length,
+          facets: this.facets(facetRows)
+        }
+      };
+    } catch (error: any) {
+      console.error('Athlete search exception:', error);
+      return { success: false, error: error.message || 'Failed to search athletes', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * A business's saved searches, newest first
+   */
+  async getSavedSearches(businessId: string): Promise<AthleteSearchServiceResult> {
+    try {
+      const { data, error } = await supabase
+        .from('saved_athlete_searches')
+        .select('*')
+        .eq('business_id', businessId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error loading saved searches:', error);
+        return { success: false, error: 'Failed to load saved searches', code: 'DATABASE_ERROR' };
+      }
+
+      return { success: true, searches: data || [] };
+    } catch (error: any) {
+      console.error('Get saved searches exception:', error);
+      return { success: false, error: error.message || 'Failed to load saved searches', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Save a search; alerts cover athletes who join from now on
+   */
+  async saveSearch(businessId: string, input: SavedAthleteSearchInput): Promise<AthleteSearchServiceResult> {
+    try {
+      const { count, error: countError } = await supabase
+        .from('saved_athlete_searches')
+        .select('id', { count: 'exact', head: true })
+        .eq('business_id', businessId);
+
+      if (countError) {
+        console.error('Error counting saved searches:', countError);
+        return { success: false, error: 'Failed to save search', code: 'DATABASE_ERROR' };
+      }
+
+      if ((count || 0) >= MAX_SAVED_SEARCHES) {
+        return {
+          success: false,
+          error: `You can save up to ${MAX_SAVED_SEARCHES} searches. Delete one to save another.`,
+          code: 'LIMIT_REACHED'
+        };
+      }
+
+      if (input.filters.zip) {
+        const resolved = await this.resolveOrigin(input.filters);
+        if (!resolved.success) {
+          return resolved;
+        }
+      }
+
+      const { data: search, error } = await supabase
+        .from('saved_athlete_searches')
+        .insert({
+          business_id: businessId,
+          name: input.name,
+          filters: input.filters,
+          sort: input.sort,
+          alerts_enabled: input.alertsEnabled,
+          last_checked_at: new Date().toISOString()
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error saving search:', error);
+        return { success: false, error: 'Failed to save search', code: 'DATABASE_ERROR' };
+      }
+
+      return {
+        success: true,
+        search,
+        message: input.alertsEnabled ? "Search saved. We'll let you know when new athletes match." : 'Search saved'
+      };
+    } catch (error: any) {
+      console.error('Save search exception:', error);
+      return { success: false, error: error.message || 'Failed to save search', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Rename a saved search or turn its alerts on or off
+   */
+  async updateSavedSearch(
+    businessId: string,
+    searchId: string,
+    changes: { name?: string; alertsEnabled?: boolean }
+  ): Promise<AthleteSearchServiceResult> {
+    try {
+      const update: Record<string, any> = {};
+      if (changes.name !== undefined) update.name = changes.name;
+      if (changes.alertsEnabled !== undefined) {
+        update.alerts_enabled = changes.alertsEnabled;
+        // Turning alerts back on shouldn't report everyone who joined while they were off
+        if (changes.alertsEnabled) update.last_checked_at = new Date().toISOString();
+      }
+
+      if (Object.keys(update).length === 0) {
+        return { success: false, error: 'Nothing to update', code: 'INVALID_INPUT' };
+      }
+
+      const { data: search, error } = await supabase
+        .from('saved_athlete_searches')
+        .update(update)
+        .eq('id', searchId)
+        .eq('business_id', businessId)
+        .select()
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error updating saved search:', error);
+        return { success: false, error: 'Failed to update saved search', code: 'DATABASE_ERROR' };
+      }
+
+      if (!search) {
+        return { success: false, error: 'Saved search not found', code: 'NOT_FOUND' };
+      }
+
+      return { success: true, search };
+    } catch (error: any) {
+      console.error('Update saved search exception:', error);
+      return { success: false, error: error.message || 'Failed to update saved search', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Delete a saved search
+   */
+  async deleteSavedSearch(businessId: string, searchId: string): Promise<AthleteSearchServiceResult> {
+    try {
+      const { data, error } = await supabase
+        .from('saved_athlete_searches')
+        .delete()
+        .eq('id', searchId)
+        .eq('business_id', businessId)
+        .select('id');
+
+      if (error) {
+        console.error('Error deleting saved search:', error);
+        return { success: false, error: 'Failed to delete saved search', code: 'DATABASE_ERROR' };
+      }
+
+      if (!data || data.length === 0) {
+        return { success: false, error: 'Saved search not found', code: 'NOT_FOUND' };
+      }
+
+      return { success: true, message: 'Saved search deleted' };
+    } catch (error: any) {
+      console.error('Delete saved search exception:', error);
+      return { success: false, error: error.message || 'Failed to delete saved search', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Notify businesses about athletes who joined since each saved search was last checked
+   */
+  async runSavedSearchAlerts(now = new Date()): Promise<{ alerted: number }> {
+    const { data: searches, error } = await supabase
+      .from('saved_athlete_searches')
+      .select('*')
+      .eq('alerts_enabled', true)
+      .lt('last_checked_at', now.toISOString());
+
+    if (error) {
+      console.error('Error loading saved searches for alerts:', error);
+      return { alerted: 0 };
+    }
+
+    let alerted = 0;
+
+    for (const search of searches || []) {
+      const parsed = athleteSearchFiltersSchema.safeParse(search.filters || {});
+      if (!parsed.success) {
+        console.warn(`Skipping saved search ${search.id} with invalid filters`);
+        continue;
+      }
+
+      const resolved = await this.resolveOrigin(parsed.data);
+      if (!resolved.success) {
+        continue;
+      }
+
+      const { data: athletes, error: searchError } = await this.applyFilters(
+        supabase.from('athlete_profiles').select('id, latitude, longitude'),
+        parsed.data,
+        resolved.origin
+      )
+        .gt('created_at', search.last_checked_at)
+        .lte('created_at', now.toISOString())
+        .limit(ALERT_SAMPLE_LIMIT);
+
+      if (searchError) {
+        console.error('Error checking saved search:', searchError);
+        continue;
+      }
+
+      const matches = (athletes || []).filter((athlete: any) => withinRadius(athlete, resolved.origin));
+      const update: Record<string, any> = { last_checked_at: now.toISOString() };
+
+      if (matches.length > 0) {
+        const count = matches.length >= ALERT_SAMPLE_LIMIT ? `${ALERT_SAMPLE_LIMIT}+` : String(matches.length);
+        await notificationService.notify(search.business_id, {
+          type: 'MATCH_SAVED_SEARCH',
+          title: 'New athletes match your search',
+          content: `${count} new athlete${matches.length === 1 ? '' : 's'} match "${search.name}".`,
+          referenceType: 'SAVED_SEARCH',
+          referenceId: search.id,
+          data: { searchId: search.id, athleteIds: matches.map((athlete: any) => athlete.id) }
+        });
+        update.last_alerted_at = now.toISOString();
+        alerted++;
+      }
+
+      const { error: updateError } = await supabase
+        .from('saved_athlete_searches')
+        .update(update)
+        .eq('id', search.id);
+
+      if (updateError) {
+        console.error('Error updating saved search checkpoint:', updateError);
+      }
+    }
+
+    return { alerted };
+  }
+
+  /**
+   * Run the saved search alert job on an interval
+   */
+  startAlertScheduler(): void {
+    if (this.alertTimer) {
+      return;
+    }
+
+    const run = () => {
+      this.runSavedSearchAlerts().catch(error => console.error('Saved search alert job error:', error));
+    };
+
+    run();
+    this.alertTimer = setInterval(run, ALERT_CHECK_INTERVAL);
+
+    // Don't keep the process alive just for the alert job
+    this.alertTimer.unref();
+  }
+
+  /**
+   * Add the filters (and a bounding box around the radius) to a query
+   */
+  private applyFilters(query: any, filters: AthleteSearchFilters, origin: SearchOrigin | null): any {
+    if (filters.q) {
+      query = query.textSearch('search_vector', filters.q, { type: 'websearch', config: 'english' });
+    }
+    if (filters.sports?.length) query = query.in('sport', filters.sports);
+    if (filters.divisions?.length) query = query.in('division', filters.divisions);
+    if (filters.schools?.length) query = query.in('school', filters.schools);
+    if (filters.graduationYears?.length) query = query.in('graduation_year', filters.graduationYears);
+    if (filters.minFollowers !== undefined) query = query.gte('follower_count', filters.minFollowers);
+    if (filters.maxFollowers !== undefined) query = query.lte('follower_count', filters.maxFollowers);
+    if (filters.minEngagement !== undefined) query = query.gte('engagement_percent', filters.minEngagement);
+    if (filters.maxEngagement !== undefined) query = query.lte('engagement_percent', filters.maxEngagement);
+    if (filters.contentTypes?.length) {
+      query = query.overlaps('content_type_tags', filters.contentTypes.map(type => type.toLowerCase()));
+    }
+
+    if (origin) {
+      const latDelta = origin.radiusMiles / 69;
+      const lngDelta = origin.radiusMiles / (69 * Math.max(0.01, Math.cos(origin.latitude * Math.PI / 180)));
+      query = query
+        .gte('latitude', origin.latitude - latDelta)
+        .lte('latitude', origin.latitude + latDelta)
+        .gte('longitude', origin.longitude - lngDelta)
+        .lte('longitude', origin.longitude + lngDelta);
+    }
+
+    return query;
+  }
+
+  /**
+   * Coordinates of the search ZIP code, if the filters have one
+   */
+  private async resolveOrigin(filters: AthleteSearchFilters): Promise<
+    { success: true; origin: SearchOrigin | null } | { success: false; error: string; code: string }
+  > {
+    if (!filters.zip) {
+      return { success: true, origin: null };
+    }
+
+    const { data: zip, error } = await supabase
+      .from('zip_codes')
+      .select('latitude, longitude')
+      .eq('zip', filters.zip)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error looking up ZIP code:', error);
+      return { success: false, error: 'Failed to look up ZIP code', code: 'DATABASE_ERROR' };
+    }
+
+    if (!zip) {
+      return { success: false, error: `Unknown ZIP code ${filters.zip}`, code: 'UNKNOWN_ZIP' };
+    }
+
+    return {
+      success: true,
+      origin: {
+        latitude: zip.latitude,
+        longitude: zip.longitude,
+        radiusMiles: filters.radiusMiles ?? DEFAULT_RADIUS_MILES
+      }
+    };
+  }
+
+  private facets(rows: any[]): AthleteSearchFacets {
+    return {
+      sports: countValues(rows.map(row => row.sport).filter(Boolean)),
+      divisions: countValues(rows.map(row => row.division).filter(Boolean)),
+      schools: countValues(rows.map(row => row.school).filter(Boolean)),
+      graduationYears: countValues<number>(rows.map(row => row.graduation_year).filter(Boolean))
+        .sort((a, b) => a.value - b.value),
+      contentTypes: countValues(rows.flatMap(row => row.content_type_tags || []))
+    };
+  }
+}
+
+// Create and export singleton instance
+export const athleteSearchService = new AthleteSearchService();
+export default athleteSearchService;
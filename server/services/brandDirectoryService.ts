@@ -0,0 +1,390 @@
+/**
+ * Brand Directory Service
+ *
+ * Lets athletes browse businesses instead of only reacting to offers. The
+ * directory lists discoverable business profiles, filterable by industry,
+ * budget range, operating location, company type and whether the brand is
+ * running a campaign. Athletes can express interest in a brand, which
+ * creates a lead the business follows up from its dashboard. Businesses
+ * can leave the directory with their discoverable setting.
+ */
+
+import { supabase } from '../lib/supabase';
+import { notificationService } from './notificationService';
+import { guardianConsentService } from './guardianConsentService';
+import { getIndustryLabel, industries } from '../../shared/industries';
+import {
+  BrandDirectoryEntry,
+  BrandDirectoryQuery,
+  BrandLead,
+  BrandLeadStatus
+} from '../../shared/schema';
+
+const DIRECTORY_COLUMNS = [
+  'id', 'name', 'company', 'profile_image', 'bio', 'industry', 'business_type',
+  'operating_location_tags', 'budgetmin', 'budgetmax', 'created_at'
+].join(', ');
+
+// Interface for brand directory results
+export interface BrandDirectoryResult {
+  success: boolean;
+  brands?: BrandDirectoryEntry[];
+  total?: number;
+  lead?: BrandLead;
+  leads?: BrandLead[];
+  discoverable?: boolean;
+  error?: string;
+  code?: string;
+  message?: string;
+}
+
+// Drop characters that carry meaning in PostgREST filter strings
+function searchTerm(q: string): string {
+  return q.replace(/[,()*%\\]/g, ' ').trim();
+}
+
+function toEntry(row: any, activeCampaigns: number, interested: boolean): BrandDirectoryEntry {
+  return {
+    id: row.id,
+    name: row.company || row.name,
+    profile_image: row.profile_image || null,
+    bio: row.bio || null,
+    industry: row.industry || null,
+    industry_label: row.industry ? getIndustryLabel(row.industry) || null : null,
+    company_type: row.business_type || null,
+    operating_locations: row.operating_location_tags || [],
+    budget_min: row.budgetmin ?? null,
+    budget_max: row.budgetmax ?? null,
+    active_campaigns: activeCampaigns,
+    interested
+  };
+}
+
+// Main brand directory service class
+class BrandDirectoryService {
+  /**
+   * One page of discoverable brands matching the filters
+   */
+  async search(athleteId: string | null, query: BrandDirectoryQuery): Promise<BrandDirectoryResult> {
+    try {
+      const unknownIndustry = (query.industries || []).find(id => !industries.some(industry => industry.id === id));
+      if (unknownIndustry) {
+        return { success: false, error: `Unknown industry "${unknownIndustry}"`, code: 'INVALID_INPUT' };
+      }
+
+      let brandsQuery = supabase
+        .from('business_profiles')
+        .select(DIRECTORY_COLUMNS, { count: 'exact' })
+        .eq('discoverable', true);
+
+      if (query.activeCampaigns) {
+        const running = await this.activeCampaignCounts();
+        if (running.size === 0) {
+          return { success: true, brands: [], total: 0 };
+        }
+        brandsQuery = brandsQuery.in('id', Array.from(running.keys()));
+      }
+
+      const term = query.q ? searchTerm(query.q) : '';
+      if (term) {
+        brandsQuery = brandsQuery.or(`company.ilike.%${term}%,name.ilike.%${term}%,bio.ilike.%${term}%`);
+      }
+      if (query.industries?.length) brandsQuery = brandsQuery.in('industry', query.industries);
+      if (query.companyTypes?.length) brandsQuery = brandsQuery.in('business_type', query.companyTypes);
+      if (query.locations?.length) {
+        brandsQuery = brandsQuery.overlaps('operating_location_tags', query.locations.map(location => location.toLowerCase()));
+      }
+      // Budget ranges that overlap the requested range
+      if (query.minBudget !== undefined) brandsQuery = brandsQuery.gte('budgetmax', query.minBudget);
+      if (query.maxBudget !== undefined) brandsQuery = brandsQuery.lte('budgetmin', query.maxBudget);
+
+      if (query.sort === 'budget') {
+        brandsQuery = brandsQuery.order('budgetmax', { ascending: false, nullsFirst: false });
+      } else if (query.sort === 'newest') {
+        brandsQuery = brandsQuery.order('created_at', { ascending: false });
+      } else {
+        brandsQuery = brandsQuery.order('company', { ascending: true }).order('name', { ascending: true });
+      }
+
+      const { data, error, count } = await brandsQuery
+        .order('id', { ascending: true })
+        .range(query.offset, query.offset + query.limit - 1);
+
+      if (error) {
+        console.error('Error searching brands:', error);
+        return { success: false, error: 'Failed to search brands', code: 'DATABASE_ERROR' };
+      }
+
+      const rows: any[] = data || [];
+      const ids = rows.map(row => row.id);
+
+      const [campaignCounts, { data: leads }] = await Promise.all([
+        this.activeCampaignCounts(ids),
+        athleteId && ids.length
+          ? supabase.from('brand_leads').select('business_id').eq('athlete_id', athleteId).in('business_id', ids)
+          : Promise.resolve({ data: [] as any[] })
+      ]);
+
+      const interested = new Set((leads || []).map(lead => lead.business_id));
+
+      return {
+        success: true,
+        brands: rows.map(row => toEntry(row, campaignCounts.get(row.id) || 0, interested.has(row.id))),
+        total: count || 0
+      };
+    } catch (error: any) {
+      console.error('Brand search exception:', error);
+      return { success: false, error: error.message || 'Failed to search brands', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Record an athlete's interest in a brand as a lead and let the business know
+   */
+  async expressInterest(athleteId: string, businessId: string, message?: string): Promise<BrandDirectoryResult> {
+    try {
+      const { data: business, error: businessError } = await supabase
+        .from('business_profiles')
+        .select('id, discoverable')
+        .eq('id', businessId)
+        .maybeSingle();
+
+      if (businessError) {
+        console.error('Error loading brand:', businessError);
+        return { success: false, error: 'Failed to load brand', code: 'DATABASE_ERROR' };
+      }
+
+      // Brands that left the directory are treated as unknown
+      if (!business || !business.discoverable) {
+        return { success: false, error: 'Brand not found', code: 'NOT_FOUND' };
+      }
+
+      // The lead's message reaches the business, so minors need a guardian's approval first
+      const consentCheck = await guardianConsentService.checkConsent(athleteId);
+      if (!consentCheck.allowed) {
+        return { success: false, error: consentCheck.error, code: consentCheck.code || 'SERVER_ERROR' };
+      }
+
+      const { data: lead, error } = await supabase
+        .from('brand_leads')
+        .insert({
+          business_id: businessId,
+          athlete_id: athleteId,
+          message: message || null,
+          status: 'new'
+        })
+        .select()
+        .single();
+
+      if (error) {
+        if (error.code === '23505') {
+          return { success: false, error: "You've already shown interest in this brand", code: 'ALREADY_INTERESTED' };
+        }
+        console.error('Error creating brand lead:', error);
+        return { success: false, error: 'Failed to send interest', code: 'DATABASE_ERROR' };
+      }
+
+      const { data: athlete } = await supabase
+        .from('athlete_profiles')
+        .select('name, full_name, sport, school')
+        .eq('id', athleteId)
+        .maybeSingle();
+
+      const athleteName = athlete?.full_name || athlete?.name || 'An athlete';
+      const details = [athlete?.sport, athlete?.school].filter(Boolean).join(', ');
+
+      await notificationService.notify(businessId, {
+        type: 'BRAND_LEAD',
+        title: 'An athlete is interested in your brand',
+        content: `${athleteName}${details ? ` (${details})` : ''} would like to work with you.`,
+        referenceType: 'BRAND_LEAD',
+        referenceId: lead.id,
+        data: { leadId: lead.id, athleteId }
+      });
+
+      return { success: true, lead, message: "Interest sent. The brand has been notified." };
+    } catch (error: any) {
+      console.error('Express interest exception:', error);
+      return { success: false, error: error.message || 'Failed to send interest', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Leads for a business, newest first, with the athletes' details
+   */
+  async getLeads(businessId: string, status?: BrandLeadStatus): Promise<BrandDirectoryResult> {
+    try {
+      let query = supabase
+        .from('brand_leads')
+        .select('*')
+        .eq('business_id', businessId)
+        .order('created_at', { ascending: false });
+
+      if (status) {
+        query = query.eq('status', status);
+      }
+
+      const { data: leads, error } = await query;
+
+      if (error) {
+        console.error('Error loading brand leads:', error);
+        return { success: false, error: 'Failed to load leads', code: 'DATABASE_ERROR' };
+      }
+
+      const athleteIds = Array.from(new Set((leads || []).map(lead => lead.athlete_id)));
+      const { data: athletes } = athleteIds.length
+        ? await supabase
+            .from('athlete_profiles')
+            .select('id, name, full_name, sport, school, division, follower_count, profile_image')
+            .in('id', athleteIds)
+        : { data: [] as any[] };
+
+      return {
+        success: true,
+        leads: (leads || []).map(lead => {
+          const athlete = athletes?.find(candidate => candidate.id === lead.athlete_id);
+          return {
+            ...lead,
+            athlete: athlete
+              ? {
+                  name: athlete.full_name || athlete.name,
+                  sport: athlete.sport || null,
+                  school: athlete.school || null,
+                  division: athlete.division || null,
+                  follower_count: athlete.follower_count ?? null,
+                  profile_image: athlete.profile_image || null
+                }
+              : null
+          };
+        })
+      };
+    } catch (error: any) {
+      console.error('Get brand leads exception:', error);
+      return { success: false, error: error.message || 'Failed to load leads', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Move one of the business's leads to another status
+   */
+  async updateLead(businessId: string, leadId: string, status: BrandLeadStatus): Promise<BrandDirectoryResult> {
+    try {
+      const { data: lead, error } = await supabase
+        .from('brand_leads')
+        .update({ status, updated_at: new Date().toISOString() })
+        .eq('id', leadId)
+        .eq('business_id', businessId)
+        .select()
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error updating brand lead:', error);
+        return { success: false, error: 'Failed to update lead', code: 'DATABASE_ERROR' };
+      }
+
+      if (!lead) {
+        return { success: false, error: 'Lead not found', code: 'NOT_FOUND' };
+      }
+
+      return { success: true, lead };
+    } catch (error: any) {
+      console.error('Update brand lead exception:', error);
+      return { success: false, error: error.message || 'Failed to update lead', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Whether the business is listed in the directory
+   */
+  async getSettings(businessId: string): Promise<BrandDirectoryResult> {
+    try {
+      const { data: profile, error } = await supabase
+        .from('business_profiles')
+        .select('discoverable')
+        .eq('id', businessId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error loading directory settings:', error);
+        return { success: false, error: 'Failed to load directory settings', code: 'DATABASE_ERROR' };
+      }
+
+      if (!profile) {
+        return { success: false, error: 'Business profile not found', code: 'NOT_FOUND' };
+      }
+
+      return { success: true, discoverable: profile.discoverable };
+    } catch (error: any) {
+      console.error('Get directory settings exception:', error);
+      return { success: false, error: error.message || 'Failed to load directory settings', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * List the business in the directory, or take it out
+   */
+  async updateSettings(businessId: string, discoverable: boolean): Promise<BrandDirectoryResult> {
+    try {
+      const { data: profile, error } = await supabase
+        .from('business_profiles')
+        .update({ discoverable })
+        .eq('id', businessId)
+        .select('discoverable')
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error updating directory settings:', error);
+        return { success: false, error: 'Failed to update directory settings', code: 'DATABASE_ERROR' };
+      }
+
+      if (!profile) {
+        return { success: false, error: 'Business profile not found', code: 'NOT_FOUND' };
+      }
+
+      return {
+        success: true,
+        discoverable: profile.discoverable,
+        message: profile.discoverable
+          ? 'Your brand is listed in the directory'
+          : 'Your brand is hidden from the directory'
+      };
+    } catch (error: any) {
+      console.error('Update directory settings exception:', error);
+      return { success: false, error: error.message || 'Failed to update directory settings', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Number of active campaigns per business, for the given businesses or all of them
+   */
+  private async activeCampaignCounts(businessIds?: string[]): Promise<Map<string, number>> {
+    const counts = new Map<string, number>();
+    if (businessIds && businessIds.length === 0) {
+      return counts;
+    }
+
+    let query = supabase
+      .from('campaigns')
+      .select('business_id')
+      .eq('status', 'active');
+
+    if (businessIds) {
+      query = query.in('business_id', businessIds);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error('Failed to load active campaigns');
+    }
+
+    (data || []).forEach(campaign => {
+      counts.set(campaign.business_id, (counts.get(campaign.business_id) || 0) + 1);
+    });
+    return counts;
+  }
+}
+
+// Create and export singleton instance
+export const brandDirectoryService = new BrandDirectoryService();
+export default brandDirectoryService;
@@ -0,0 +1,266 @@
+/**
+ * Budget Service
+ *
+ * Per-campaign budget ledger. Open offers count as pending, accepted offers
+ * as committed and completed payouts as paid, all measured against the
+ * campaign's budget_min / budget_max. Offer creation asks checkOffer()
+ * whether a new amount fits before anything is written.
+ */
+
+import { supabase } from '../lib/supabase';
+import {
+  BudgetEnforcement,
+  CampaignBudgetLine,
+  CampaignBudgetSummary,
+  CampaignBudgetTotals,
+  compensationSchema,
+  OfferStatus
+} from '../../shared/schema';
+import { guaranteedCash } from '../../shared/compensation';
+
+// Offer statuses counted against each part of the budget
+const PENDING_OFFER_STATUSES: OfferStatus[] = ['pending', 'countered', 'frozen'];
+const COMMITTED_OFFER_STATUSES: OfferStatus[] = ['accepted', 'active'];
+
+/**
+ * Read a money amount from a number or free text such as "$1,500" or
+ * "$200-$500 per athlete". Ranges resolve to their upper bound so budget
+ * checks stay conservative.
+ */
+export function parseAmount(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null;
+  }
+
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  const amounts = (value.replace(/,/g, '').match(/\d+(\.\d+)?\s*[kK]?/g) || [])
+    .map(match => {
+      const number = parseFloat(match);
+      return /k$/i.test(match.trim()) ? number * 1000 : number;
+    });
+
+  return amounts.length > 0 ? Math.max(...amounts) : null;
+}
+
+// Guaranteed cash on an offer, from its structured compensation when it has one
+export function offerCash(offer: { compensation?: unknown; offer_amount?: unknown }): number {
+  const parsed = compensationSchema.safeParse(offer.compensation);
+  return parsed.success ? guaranteedCash(parsed.data) : parseAmount(offer.offer_amount) || 0;
+}
+
+function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+// Interface for budget results
+export interface BudgetResult {
+  success: boolean;
+  budget?: CampaignBudgetSummary;
+  campaigns?: CampaignBudgetSummary[];
+  totals?: CampaignBudgetTotals;
+  error?: string;
+  code?: string;
+}
+
+// Outcome of checking an offer amount against a campaign budget
+export interface BudgetCheckResult {
+  success: boolean;
+  allowed: boolean;
+  warnings: string[];
+  budget?: CampaignBudgetSummary;
+  error?: string;
+  code?: string;
+}
+
+// Main budget service class
+class BudgetService {
+  /**
+   * Build the ledger for one campaign
+   */
+  async getCampaignBudget(campaignId: string): Promise<BudgetResult> {
+    try {
+      const { data: campaign, error } = await supabase
+        .from('campaigns')
+        .select('id, title, status, budget_min, budget_max, budget_enforcement')
+        .eq('id', campaignId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error loading campaign budget:', error);
+        return { success: false, error: 'Failed to load campaign', code: 'DATABASE_ERROR' };
+      }
+
+      if (!campaign) {
+        return { success: false, error: 'Campaign not found', code: 'NOT_FOUND' };
+      }
+
+      const [budget] = await this.buildSummaries([campaign], true);
+      return { success: true, budget };
+    } catch (error: any) {
+      console.error('Get campaign budget exception:', error);
+      return { success: false, error: error.message || 'Failed to get campaign budget', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Summarise the budgets of every non-archived campaign a business owns
+   */
+  async getBusinessBudget(businessId: string): Promise<BudgetResult> {
+    try {
+      const { data: campaigns, error } = await supabase
+        .from('campaigns')
+        .select('id, title, status, budget_min, budget_max, budget_enforcement')
+        .eq('business_id', businessId)
+        .neq('status', 'archived');
+
+      if (error) {
+        console.error('Error loading business campaigns for budget:', error);
+        return { success: false, error: 'Failed to load campaigns', code: 'DATABASE_ERROR' };
+      }
+
+      const summaries = await this.buildSummaries(campaigns || [], false);
+
+      const totals = summaries.reduce<CampaignBudgetTotals>((sum, summary) => ({
+        budget_min: summary.totals.budget_min !== null ? (sum.budget_min || 0) + summary.totals.budget_min : sum.budget_min,
+        budget_max: summary.totals.budget_max !== null ? (sum.budget_max || 0) + summary.totals.budget_max : sum.budget_max,
+        pending: sum.pending + summary.totals.pending,
+        committed: sum.committed + summary.totals.committed,
+        paid: sum.paid + summary.totals.paid,
+        outstanding: sum.outstanding + summary.totals.outstanding,
+        remaining: summary.totals.remaining !== null ? (sum.remaining || 0) + summary.totals.remaining : sum.remaining
+      }), { budget_min: null, budget_max: null, pending: 0, committed: 0, paid: 0, outstanding: 0, remaining: null });
+
+      return { success: true, campaigns: summaries, totals };
+    } catch (error: any) {
+      console.error('Get business budget exception:', error);
+      return { success: false, error: error.message || 'Failed to get budget', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Check whether an offer amount fits in a campaign's budget
+   *
+   * Going past budget_min only warns. Going past budget_max is blocked
+   * unless the campaign's budget_enforcement is 'warn'. Pass excludeOfferId
+   * when re-pricing an existing offer so its old amount isn't counted twice.
+   */
+  async checkOffer(
+    campaignId: string | null | undefined,
+    amount: unknown,
+    options: { excludeOfferId?: string } = {}
+  ): Promise<BudgetCheckResult> {
+    if (!campaignId) {
+      return { success: true, allowed: true, warnings: [] };
+    }
+
+    const value = parseAmount(amount);
+    if (value === null) {
+      return { success: true, allowed: true, warnings: ['Offer amount could not be read; it is not counted against the campaign budget'] };
+    }
+
+    const result = await this.getCampaignBudget(campaignId);
+    if (!result.success || !result.budget) {
+      // Unknown campaigns are left to the offer validation itself
+      return result.code === 'NOT_FOUND'
+        ? { success: true, allowed: true, warnings: [] }
+        : { success: false, allowed: false, warnings: [], error: result.error, code: result.code };
+    }
+
+    const budget = result.budget;
+    const excluded = options.excludeOfferId
+      ? budget.lines?.find(line => line.offer_id === options.excludeOfferId)?.amount || 0
+      : 0;
+    const projected = roundMoney(budget.totals.committed + budget.totals.pending - excluded + value);
+    const { budget_min, budget_max } = budget.totals;
+    const warnings: string[] = [];
+
+    if (budget_max !== null && projected > budget_max) {
+      const message = `This offer brings committed and pending spend to $${projected.toLocaleString()}, over the campaign maximum of $${budget_max.toLocaleString()}`;
+
+      if (budget.enforcement === 'block') {
+        return { success: false, allowed: false, warnings: [], budget, error: message, code: 'BUDGET_EXCEEDED' };
+      }
+
+      warnings.push(message);
+    } else if (budget_min !== null && projected > budget_min) {
+      warnings.push(`This offer brings committed and pending spend to $${projected.toLocaleString()}, over the campaign's planned $${budget_min.toLocaleString()}`);
+    }
+
+    return { success: true, allowed: true, warnings, budget };
+  }
+
+  /**
+   * Total up offers and payouts for a set of campaigns
+   */
+  private async buildSummaries(campaigns: any[], includeLines: boolean): Promise<CampaignBudgetSummary[]> {
+    if (campaigns.length === 0) {
+      return [];
+    }
+
+    const campaignIds = campaigns.map(campaign => campaign.id);
+
+    const [{ data: offers }, { data: payouts }] = await Promise.all([
+      supabase
+        .from('partnership_offers')
+        .select('id, campaign_id, athlete_id, status, offer_amount, compensation')
+        .in('campaign_id', campaignIds)
+        .in('status', [...PENDING_OFFER_STATUSES, ...COMMITTED_OFFER_STATUSES]),
+      supabase
+        .from('payouts')
+        .select('offer_id, campaign_id, amount')
+        .in('campaign_id', campaignIds)
+        .eq('status', 'paid')
+    ]);
+
+    const paidByOffer = new Map<string, number>();
+    const paidByCampaign = new Map<string, number>();
+    for (const payout of payouts || []) {
+      const amount = Number(payout.amount) || 0;
+      paidByOffer.set(payout.offer_id, (paidByOffer.get(payout.offer_id) || 0) + amount);
+      paidByCampaign.set(payout.campaign_id, (paidByCampaign.get(payout.campaign_id) || 0) + amount);
+    }
+
+    return campaigns.map(campaign => {
+      const lines: CampaignBudgetLine[] = (offers || [])
+        .filter(offer => offer.campaign_id === campaign.id)
+        .map(offer => ({
+          offer_id: offer.id,
+          athlete_id: offer.athlete_id,
+          status: offer.status,
+          bucket: COMMITTED_OFFER_STATUSES.includes(offer.status) ? 'committed' : 'pending',
+          amount: offerCash(offer),
+          paid: roundMoney(paidByOffer.get(offer.id) || 0)
+        }));
+
+      const pending = roundMoney(lines.filter(line => line.bucket === 'pending').reduce((sum, line) => sum + line.amount, 0));
+      const committed = roundMoney(lines.filter(line => line.bucket === 'committed').reduce((sum, line) => sum + line.amount, 0));
+      const paid = roundMoney(paidByCampaign.get(campaign.id) || 0);
+      const budgetMin = campaign.budget_min !== null && campaign.budget_min !== undefined ? Number(campaign.budget_min) : null;
+      const budgetMax = campaign.budget_max !== null && campaign.budget_max !== undefined ? Number(campaign.budget_max) : null;
+
+      return {
+        campaign_id: campaign.id,
+        title: campaign.title,
+        status: campaign.status,
+        enforcement: (campaign.budget_enforcement || 'block') as BudgetEnforcement,
+        totals: {
+          budget_min: budgetMin,
+          budget_max: budgetMax,
+          pending,
+          committed,
+          paid,
+          outstanding: roundMoney(Math.max(committed - paid, 0)),
+          remaining: budgetMax !== null ? roundMoney(budgetMax - committed - pending) : null
+        },
+        ...(includeLines ? { lines } : {})
+      };
+    });
+  }
+}
+
+// Create and export singleton instance
+export const budgetService = new BudgetService();
+export default budgetService;
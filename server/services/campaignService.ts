@@ -7,15 +7,28 @@
 
 import { supabase } from '../lib/supabase';
 import { v4 as uuidv4 } from 'uuid';
-import { wsHelpers } from './websocketService';
+import { notificationService } from './notificationService';
+import { matchScoringService } from './matchScoringService';
+import { ratingService } from './ratingService';
+import { budgetService, parseAmount } from './budgetService';
+import { compensationService, CompensationResult } from './compensationService';
+import { CAMPAIGN_TRANSITIONS } from '../../shared/schema';
+import type { CampaignStatus, MatchScoreExplanation, MatchWeights, OfferStatus } from '../../shared/schema';
+
+// How often the lifecycle job checks start and end dates
+const LIFECYCLE_CHECK_INTERVAL = 15 * 60 * 1000; // 15 minutes
+
+// Offer statuses that are still being negotiated
+const OPEN_OFFER_STATUSES: OfferStatus[] = ['pending', 'countered'];
 
 // Interface for campaign data
 interface Campaign {
   id: string;
   business_id: string;
+  created_by?: string;
   title: string;
   description: string;
-  status: string;
+  status: CampaignStatus;
   deliverables: any[];
   budget?: string;
   budget_min?: number;
@@ -24,6 +37,7 @@ interface Campaign {
   end_date?: string;
   target_audience?: any;
   target_sports?: string[];
+  match_weights?: MatchWeights;
   created_at?: string;
   updated_at?: string;
 }
@@ -47,7 +61,10 @@ interface CampaignInput {
 interface CampaignResult {
   success: boolean;
   campaign?: Campaign;
+  activities?: any[];
+  warnings?: string[];
   error?: string;
+  code?: string;
   message?: string;
 }
 
@@ -62,6 +79,8 @@ interface LaunchCampaignInput {
 
 // Main campaign service class
 class CampaignService {
+  private lifecycleTimer: NodeJS.Timeout | null = null;
+
   /**
    * Create a new campaign
    */
@@ -220,6 +239,11 @@ class CampaignService {
         `)
         .eq('business_id', businessId);
 
+      // Archived campaigns are hidden unless asked for
+      if (!filters?.status && !filters?.includeArchived) {
+        query = query.neq('status', 'archived');
+      }
+
       // Apply filters if provided
       if (filters) {
         if (filters.status) {
@@ -328,10 +352,11 @@ class CampaignService {
         .eq('id', campaignId)
         .single();
 
-      if (campaignData?.status === 'active') {
+      if (campaignData && campaignData.status !== 'draft') {
         return { 
           success: false, 
-          error: 'Cannot delete an active campaign' 
+          error: 'Only draft campaigns can be deleted; archive it instead',
+          code: 'INVALID_TRANSITION'
         };
       }
 
@@ -398,20 +423,86 @@ class CampaignService {
         };
       }
 
-      // Check if campaign is already launched
-      if (campaign.status === 'active') {
+      // Only drafts can be launched
+      if ((campaign.status || 'draft') !== 'draft') {
         return { 
           success: false, 
-          error: 'Campaign is already launched' 
+          error: 'Campaign is already launched',
+          code: 'INVALID_TRANSITION'
+        };
+      }
+
+      // Bundles carry structured compensation_terms; older ones only a display string
+      const legacyAmount = bundleDetails?.amount ?? bundleDetails?.compensation;
+      let compensationFields: CompensationResult['fields'] | null = null;
+
+      if (bundleDetails?.compensation_terms || parseAmount(legacyAmount) !== null) {
+        const compensationResult = compensationService.resolveOfferCompensation({
+          compensation: bundleDetails?.compensation_terms,
+          compensation_type: 'fixed',
+          offer_amount: legacyAmount
+        });
+
+        if (!compensationResult.success || !compensationResult.fields) {
+          return {
+            success: false,
+            error: compensationResult.error,
+            code: compensationResult.code
+          };
+        }
+
+        compensationFields = compensationResult.fields;
+      }
+
+      const offerDeliverables = bundleDetails?.deliverables ? [bundleDetails.deliverables] : [];
+      const launchWarnings: string[] = [];
+
+      // Athletes whose minimum the bundle doesn't meet are left out rather than sent an offer
+      const eligibleAthletes: any[] = [];
+      for (const athlete of selectedAthletes || []) {
+        if (compensationFields) {
+          const minimumCheck = await compensationService.checkAthleteMinimum(
+            athlete.user_id || athlete.id,
+            compensationFields.compensation,
+            offerDeliverables
+          );
+
+          if (!minimumCheck.success && minimumCheck.code === 'BELOW_MINIMUM') {
+            launchWarnings.push(`${athlete.name || 'An athlete'} was not sent an offer: ${minimumCheck.error}`);
+            continue;
+          }
+        }
+
+        eligibleAthletes.push(athlete);
+      }
+
+      // Every eligible athlete gets the bundle's compensation; make sure the campaign can cover it
+      const amountPerAthlete = compensationFields ? compensationFields.offer_amount : null;
+      const athleteCount = eligibleAthletes.length;
+      const budgetCheck = athleteCount > 0 && amountPerAthlete !== null
+        ? await budgetService.checkOffer(campaignId, amountPerAthlete * athleteCount)
+        : { success: true, allowed: true, warnings: [] as string[] };
+
+      if (!budgetCheck.allowed) {
+        return {
+          success: false,
+          error: budgetCheck.error || 'Campaign budget could not be checked',
+          code: budgetCheck.code
         };
       }
 
+      // A future start date schedules the campaign; the lifecycle job activates it later
+      const launchStatus: CampaignStatus = campaign.start_date && new Date(campaign.start_date) > new Date()
+        ? 'scheduled'
+        : 'active';
+
       // Update campaign status
       const { data: updatedCampaign, error: updateError } = await supabase
         .from('campaigns')
         .update({
-          status: 'active',
-          launched_at: new Date().toISOString(),
+          status: launchStatus,
+          status_changed_at: new Date().toISOString(),
+          launched_at: launchStatus === 'active' ? new Date().toISOString() : null,
           updated_at: new Date().toISOString(),
           terms_accepted: true,
           terms_accepted_at: launchDetails?.terms_accepted_at || new Date().toISOString(),
@@ -432,33 +523,35 @@ class CampaignService {
       }
 
       // Log campaign launch activity
-      await supabase
-        .from('campaign_activities')
-        .insert({
-          campaign_id: campaignId,
-          activity_type: 'LAUNCH',
-          actor_id: userId,
-          details: {
-            bundle_type: bundleType,
-            athlete_count: selectedAthletes?.length || 0
-          },
-          created_at: new Date().toISOString()
-        });
+      await this.logActivity(campaignId, userId, 'LAUNCH', {
+        from: 'draft',
+        to: launchStatus,
+        bundle_type: bundleType,
+        athlete_count: eligibleAthletes.length
+      });
 
       // Create offer records for selected athletes
-      if (selectedAthletes && selectedAthletes.length > 0) {
-        const offers = selectedAthletes.map(athlete => ({
+      if (eligibleAthletes.length > 0) {
+        const expiresAt = new Date();
+        expiresAt.setDate(expiresAt.getDate() + 7);
+
+        const offers = eligibleAthletes.map(athlete => ({
           campaign_id: campaignId,
-          athlete_id: athlete.id,
+          business_id: campaign.business_id,
+          athlete_id: athlete.user_id || athlete.id,
           status: 'pending',
-          bundle_type: bundleType || 'standard',
-          compensation: bundleDetails?.compensation || 'Not specified',
+          compensation_type: 'fixed',
+          offer_amount: amountPerAthlete,
+          ...(compensationFields || {}),
+          deliverables: offerDeliverables,
+          term: bundleDetails?.timeline,
           created_at: new Date().toISOString(),
-          created_by: userId
+          updated_at: new Date().toISOString(),
+          expires_at: expiresAt.toISOString()
         }));
 
         const { error: offersError } = await supabase
-          .from('offers')
+          .from('partnership_offers')
           .insert(offers);
 
         if (offersError) {
@@ -467,32 +560,15 @@ class CampaignService {
         }
 
         // Send notifications to athletes
-        for (const athlete of selectedAthletes) {
-          await supabase
-            .from('notifications')
-            .insert({
-              user_id: athlete.user_id || athlete.id,
-              type: 'NEW_OFFER',
-              title: 'New Campaign Offer',
-              content: `You have received a new offer for "${campaign.title}"`,
-              reference_type: 'CAMPAIGN',
-              reference_id: campaignId,
-              is_read: false,
-              created_at: new Date().toISOString()
-            });
-
-          // Try to send WebSocket notification if available
-          if (wsHelpers.broadcastToChannel) {
-            wsHelpers.broadcastToChannel(`user:${athlete.user_id || athlete.id}`, {
-              type: 'notification',
-              notification: {
-                type: 'NEW_OFFER',
-                title: 'New Campaign Offer',
-                content: `You have received a new offer for "${campaign.title}"`,
-                campaignId
-              }
-            });
-          }
+        for (const athlete of eligibleAthletes) {
+          await notificationService.notify(athlete.user_id || athlete.id, {
+            type: 'NEW_OFFER',
+            title: 'New Campaign Offer',
+            content: `You have received a new offer for "${campaign.title}"`,
+            referenceType: 'CAMPAIGN',
+            referenceId: campaignId,
+            data: { campaignId }
+          });
         }
       }
 
@@ -501,14 +577,17 @@ class CampaignService {
         .from('campaign_stats')
         .upsert({
           campaign_id: campaignId,
-          athlete_count: selectedAthletes?.length || 0,
+          athlete_count: eligibleAthletes.length,
           updated_at: new Date().toISOString()
         }, { onConflict: 'campaign_id' });
 
       return {
         success: true,
         campaign: updatedCampaign,
-        message: 'Campaign launched successfully'
+        message: launchStatus === 'scheduled'
+          ? 'Campaign scheduled successfully'
+          : 'Campaign launched successfully',
+        warnings: [...launchWarnings, ...budgetCheck.warnings]
       };
     } catch (error: any) {
       console.error('Launch campaign exception:', error);
@@ -519,6 +598,212 @@ class CampaignService {
     }
   }
 
+  /**
+   * Move a campaign to a new lifecycle status
+   *
+   * Validates the move against CAMPAIGN_TRANSITIONS and records it in
+   * campaign_activities. Pausing freezes the campaign's open offers and
+   * resuming restores them; completing expires any still left open.
+   * Pass a null actorId for changes made by the lifecycle job.
+   */
+  async transitionCampaign(
+    campaignId: string,
+    actorId: string | null,
+    target: CampaignStatus,
+    options: { reason?: string; now?: Date } = {}
+  ): Promise<CampaignResult> {
+    try {
+      const now = options.now || new Date();
+
+      const { data: campaign, error: campaignError } = await supabase
+        .from('campaigns')
+        .select('*')
+        .eq('id', campaignId)
+        .maybeSingle();
+
+      if (campaignError) {
+        console.error('Error loading campaign for transition:', campaignError);
+        return { success: false, error: 'Failed to load campaign', code: 'DATABASE_ERROR' };
+      }
+
+      if (!campaign) {
+        return { success: false, error: 'Campaign not found', code: 'NOT_FOUND' };
+      }
+
+      if (actorId && campaign.business_id !== actorId && campaign.created_by !== actorId) {
+        return { success: false, error: 'You do not have permission to change this campaign', code: 'FORBIDDEN' };
+      }
+
+      const from = (campaign.status || 'draft') as CampaignStatus;
+
+      if (!CAMPAIGN_TRANSITIONS[from]?.includes(target)) {
+        return {
+          success: false,
+          error: `Cannot move a ${from} campaign to ${target}`,
+          code: 'INVALID_TRANSITION'
+        };
+      }
+
+      if (target === 'scheduled' && !(campaign.start_date && new Date(campaign.start_date) > now)) {
+        return {
+          success: false,
+          error: 'Scheduling requires a start date in the future',
+          code: 'START_DATE_REQUIRED'
+        };
+      }
+
+      // The lifecycle job may still activate a lapsed campaign on its way to completed
+      if (target === 'active' && actorId && campaign.end_date && new Date(campaign.end_date) <= now) {
+        return {
+          success: false,
+          error: 'The campaign end date has passed; complete it instead',
+          code: 'CAMPAIGN_ENDED'
+        };
+      }
+
+      const timestamp = now.toISOString();
+      const update: Record<string, any> = {
+        status: target,
+        status_changed_at: timestamp,
+        updated_at: timestamp
+      };
+
+      if (target === 'active' && !campaign.launched_at) update.launched_at = timestamp;
+      if (target === 'paused') update.paused_at = timestamp;
+      if (target === 'active' && from === 'paused') update.paused_at = null;
+      if (target === 'completed') update.completed_at = timestamp;
+      if (target === 'archived') update.archived_at = timestamp;
+
+      // Guard on the old status so a concurrent transition can't be overwritten
+      const { data: updatedCampaign, error: updateError } = await supabase
+        .from('campaigns')
+        .update(update)
+        .eq('id', campaignId)
+        .eq('status', from)
+        .select()
+        .maybeSingle();
+
+      if (updateError) {
+        console.error('Error updating campaign status:', updateError);
+        return { success: false, error: 'Failed to update campaign status', code: 'DATABASE_ERROR' };
+      }
+
+      if (!updatedCampaign) {
+        return { success: false, error: 'Campaign status changed; reload and try again', code: 'INVALID_TRANSITION' };
+      }
+
+      let offersAffected = 0;
+      if (target === 'paused') {
+        offersAffected = await this.freezeOffers(campaignId);
+      } else if (from === 'paused' && target === 'active') {
+        offersAffected = await this.unfreezeOffers(campaignId);
+      } else if (target === 'completed') {
+        offersAffected = await this.expireOpenOffers(campaignId, timestamp);
+      }
+
+      await this.logActivity(campaignId, actorId, 'STATUS_CHANGE', {
+        from,
+        to: target,
+        reason: options.reason || null,
+        automatic: actorId === null,
+        offers_affected: offersAffected
+      });
+
+      return {
+        success: true,
+        campaign: updatedCampaign,
+        message: `Campaign moved to ${target}`
+      };
+    } catch (error: any) {
+      console.error('Campaign transition exception:', error);
+      return { success: false, error: error.message || 'Failed to change campaign status', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Get a campaign's activity log, newest first
+   */
+  async getCampaignActivity(campaignId: string): Promise<CampaignResult> {
+    try {
+      const { data, error } = await supabase
+        .from('campaign_activities')
+        .select('*')
+        .eq('campaign_id', campaignId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error getting campaign activity:', error);
+        return { success: false, error: 'Failed to get campaign activity', code: 'DATABASE_ERROR' };
+      }
+
+      return { success: true, activities: data || [] };
+    } catch (error: any) {
+      console.error('Get campaign activity exception:', error);
+      return { success: false, error: error.message || 'Failed to get campaign activity', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Activate scheduled campaigns whose start date has arrived and complete
+   * running campaigns whose end date has passed
+   */
+  async runLifecycle(now = new Date()): Promise<{ activated: number; completed: number }> {
+    const timestamp = now.toISOString();
+    let activated = 0;
+    let completed = 0;
+
+    const { data: due } = await supabase
+      .from('campaigns')
+      .select('id')
+      .eq('status', 'scheduled')
+      .lte('start_date', timestamp);
+
+    for (const campaign of due || []) {
+      const result = await this.transitionCampaign(campaign.id, null, 'active', {
+        reason: 'Start date reached',
+        now
+      });
+      if (result.success) activated++;
+    }
+
+    // Runs after activation so a campaign whose whole window has passed ends up completed
+
+    const { data: ended } = await supabase
+      .from('campaigns')
+      .select('id')
+      .in('status', ['active', 'paused'])
+      .lte('end_date', timestamp);
+
+    for (const campaign of ended || []) {
+      const result = await this.transitionCampaign(campaign.id, null, 'completed', {
+        reason: 'End date reached',
+        now
+      });
+      if (result.success) completed++;
+    }
+
+    return { activated, completed };
+  }
+
+  /**
+   * Run the lifecycle job on an interval
+   */
+  startLifecycleScheduler(): void {
+    if (this.lifecycleTimer) {
+      return;
+    }
+
+    const run = () => {
+      this.runLifecycle().catch(error => console.error('Campaign lifecycle job error:', error));
+    };
+
+    run();
+    this.lifecycleTimer = setInterval(run, LIFECYCLE_CHECK_INTERVAL);
+
+    // Don't keep the process alive just for the lifecycle job
+    this.lifecycleTimer.unref();
+  }
+
   /**
    * Get campaign matching suggestions
    */
@@ -541,14 +826,14 @@ class CampaignService {
       // Get existing match scores
       const { data: existingMatches, error: matchError } = await supabase
         .from('match_scores')
-        .select('athlete_id, score')
+        .select('athlete_id, score, explanation')
         .eq('campaign_id', campaignId);
 
       // Create a map of existing matches for quick lookup
       const matchMap = new Map();
       if (!matchError && existingMatches) {
         existingMatches.forEach(match => {
-          matchMap.set(match.athlete_id, match.score);
+          matchMap.set(match.athlete_id, match);
         });
       }
 
@@ -589,18 +874,28 @@ class CampaignService {
         };
       }
 
+      // Partnership reputation feeds the reputation factor
+      const reputations = await ratingService.getReputations(athletes.map(athlete => athlete.id));
+
       // Calculate match scores for each athlete
       const matches = athletes.map(athlete => {
-        // Use existing score if available, otherwise calculate
-        const score = matchMap.has(athlete.id) 
-          ? matchMap.get(athlete.id) 
-          : this.calculateMatchScore(campaign, athlete);
+        athlete.reputation = reputations.get(athlete.id) || null;
+        // Always score with the campaign's current weights; a stored score only
+        // wins when it is the business's manual override
+        const existing = matchMap.get(athlete.id);
+        const explanation: MatchScoreExplanation = matchScoringService.scoreMatch(campaign, athlete);
+        const manualScore = existing?.explanation?.manual_score;
+        if (manualScore !== undefined && manualScore !== null) {
+          explanation.manual_score = manualScore;
+        }
+        const score = explanation.manual_score ?? explanation.score;
 
         return {
           athlete,
           score,
+          explanation,
           campaign_id: campaignId,
-          existing: matchMap.has(athlete.id)
+          existing: !!existing
         };
       });
 
@@ -626,6 +921,13 @@ class CampaignService {
    */
   async saveMatchScore(campaignId: string, athleteId: string, score: number, businessId: string): Promise<any> {
     try {
+      const explanation = await this.explainMatch(campaignId, athleteId);
+
+      // Record the business's override alongside the engine's breakdown
+      if (explanation && Math.abs(explanation.score - score) >= 0.001) {
+        explanation.manual_score = score;
+      }
+
       // Check if match already exists
       const { data: existingMatch, error: matchError } = await supabase
         .from('match_scores')
@@ -640,6 +942,7 @@ class CampaignService {
           .from('match_scores')
           .update({
             score,
+            explanation,
             updated_at: new Date().toISOString()
           })
           .eq('id', existingMatch.id)
@@ -668,6 +971,7 @@ class CampaignService {
             athlete_id: athleteId,
             business_id: businessId,
             score,
+            explanation,
             status: 'pending',
             created_at: new Date().toISOString()
           })
@@ -698,40 +1002,174 @@ class CampaignService {
   }
 
   /**
-   * Calculate a match score between campaign and athlete
-   * This is a simplified version - a real implementation would be more complex
+   * Update a campaign's match scoring weight overrides
+   */
+  async updateMatchWeights(campaignId: string, weights: MatchWeights): Promise<CampaignResult> {
+    const result = await this.updateCampaign(campaignId, { match_weights: weights });
+
+    if (result.success) {
+      await this.rescoreStoredMatches(campaignId);
+      result.message = 'Match weights updated successfully';
+    }
+
+    return result;
+  }
+
+  /**
+   * Recompute stored match scores with the campaign's current weights,
+   * keeping any manual override the business recorded
+   */
+  private async rescoreStoredMatches(campaignId: string): Promise<void> {
+    const [{ data: campaign }, { data: stored, error }] = await Promise.all([
+      supabase.from('campaigns').select('*').eq('id', campaignId).maybeSingle(),
+      supabase.from('match_scores').select('id, athlete_id, explanation').eq('campaign_id', campaignId)
+    ]);
+
+    if (error || !campaign || !stored || stored.length === 0) {
+      if (error) console.error('Error loading stored matches to rescore:', error);
+      return;
+    }
+
+    const athleteIds = stored.map(match => match.athlete_id);
+    const [{ data: athletes }, reputations] = await Promise.all([
+      supabase.from('athlete_profiles').select('*, social_accounts:athlete_social_accounts(*)').in('id', athleteIds),
+      ratingService.getReputations(athleteIds)
+    ]);
+
+    for (const match of stored) {
+      const athlete = athletes?.find(candidate => candidate.id === match.athlete_id);
+      if (!athlete) {
+        continue;
+      }
+
+      athlete.reputation = reputations.get(athlete.id) || null;
+      const explanation = matchScoringService.scoreMatch(campaign, athlete);
+      const manualScore = match.explanation?.manual_score;
+      if (manualScore !== undefined && manualScore !== null) {
+        explanation.manual_score = manualScore;
+      }
+
+      const { error: updateError } = await supabase
+        .from('match_scores')
+        .update({
+          score: explanation.manual_score ?? explanation.score,
+          explanation,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', match.id);
+
+      if (updateError) {
+        console.error('Error rescoring stored match:', updateError);
+      }
+    }
+  }
+
+  /**
+   * Compute the engine's score breakdown for a campaign and athlete
    */
-  private calculateMatchScore(campaign: any, athlete: any): number {
-    let score = 0.5; // Start with neutral score
+  private async explainMatch(campaignId: string, athleteId: string): Promise<MatchScoreExplanation | null> {
+    const [{ data: campaign }, { data: athlete }, reputations] = await Promise.all([
+      supabase.from('campaigns').select('*').eq('id', campaignId).maybeSingle(),
+      supabase.from('athlete_profiles').select('*, social_accounts:athlete_social_accounts(*)').eq('id', athleteId).maybeSingle(),
+      ratingService.getReputations([athleteId])
+    ]);
+
+    if (!campaign || !athlete) {
+      return null;
+    }
 
-    // Sport match (high importance)
-    if (campaign.target_sports && campaign.target_sports.includes(athlete.sport)) {
-      score += 0.2;
+    athlete.reputation = reputations.get(athleteId) || null;
+
+    return matchScoringService.scoreMatch(campaign, athlete);
+  }
+
+  /**
+   * Record an entry in the campaign's activity log
+   */
+  private async logActivity(
+    campaignId: string,
+    actorId: string | null,
+    activityType: string,
+    details: Record<string, any>
+  ): Promise<void> {
+    const { error } = await supabase
+      .from('campaign_activities')
+      .insert({
+        campaign_id: campaignId,
+        activity_type: activityType,
+        actor_id: actorId,
+        details,
+        created_at: new Date().toISOString()
+      });
+
+    if (error) {
+      console.error('Error logging campaign activity:', error);
     }
+  }
+
+  /**
+   * Freeze a paused campaign's open offers so they can't be accepted or countered
+   */
+  private async freezeOffers(campaignId: string): Promise<number> {
+    let frozen = 0;
+
+    for (const status of OPEN_OFFER_STATUSES) {
+      const { data, error } = await supabase
+        .from('partnership_offers')
+        .update({ status: 'frozen', frozen_from_status: status, updated_at: new Date().toISOString() })
+        .eq('campaign_id', campaignId)
+        .eq('status', status)
+        .select('id');
 
-    // Division match (medium importance)
-    if (campaign.target_divisions && campaign.target_divisions.includes(athlete.division)) {
-      score += 0.1;
+      if (error) {
+        console.error('Error freezing campaign offers:', error);
+      }
+      frozen += data?.length || 0;
     }
 
-    // Follower count optimization (sliding scale)
-    if (campaign.target_follower_counts?.ideal && athlete.follower_count) {
-      const ideal = campaign.target_follower_counts.ideal;
-      const actual = athlete.follower_count;
+    return frozen;
+  }
 
-      // Score inversely proportional to distance from ideal
-      const distance = Math.abs(actual - ideal) / ideal;
-      const followerScore = Math.max(0, 0.15 * (1 - distance));
-      score += followerScore;
+  /**
+   * Return frozen offers to the status they had before the pause
+   */
+  private async unfreezeOffers(campaignId: string): Promise<number> {
+    let restored = 0;
+
+    for (const status of OPEN_OFFER_STATUSES) {
+      const { data, error } = await supabase
+        .from('partnership_offers')
+        .update({ status, frozen_from_status: null, updated_at: new Date().toISOString() })
+        .eq('campaign_id', campaignId)
+        .eq('status', 'frozen')
+        .eq('frozen_from_status', status)
+        .select('id');
+
+      if (error) {
+        console.error('Error unfreezing campaign offers:', error);
+      }
+      restored += data?.length || 0;
     }
 
-    // Engagement rate bonus
-    if (athlete.average_engagement_rate && athlete.average_engagement_rate > 0.05) {
-      score += 0.1;
+    return restored;
+  }
+
+  /**
+   * Expire offers still open or frozen when a campaign completes
+   */
+  private async expireOpenOffers(campaignId: string, timestamp: string): Promise<number> {
+    const { data, error } = await supabase
+      .from('partnership_offers')
+      .update({ status: 'expired', frozen_from_status: null, updated_at: timestamp })
+      .eq('campaign_id', campaignId)
+      .in('status', [...OPEN_OFFER_STATUSES, 'frozen'])
+      .select('id');
+
+    if (error) {
+      console.error('Error expiring campaign offers:', error);
     }
 
-    // Cap score at 0.95 (not 1.0, to leave room for manual adjustments)
-    return Math.min(0.95, score);
+    return data?.length || 0;
   }
 
   /**
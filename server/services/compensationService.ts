@@ -0,0 +1,188 @@
+/**
+ * Compensation Service
+ *
+ * Normalizes offer compensation into the structured model and checks it
+ * against the athlete's minimum. Offers may send a `compensation` object or
+ * the legacy compensation_type / offer_amount pair; either way the offer row
+ * stores both, with offer_amount holding the guaranteed cash.
+ */
+
+import { supabase } from '../lib/supabase';
+import {
+  Compensation,
+  compensationMinimumSchema,
+  compensationSchema,
+  PaymentMilestone,
+  paymentMilestonesSchema
+} from '../../shared/schema';
+import { checkMinimum, compensationFromLegacy, guaranteedCash, minimumFromText } from '../../shared/compensation';
+
+/**
+ * Number of scheduled deliverable instances in an offer's deliverables, or null
+ * when there are none. Each line is repeated `quantity` times, as in
+ * deliverableService.scheduleDeliverables.
+ */
+export function countDeliverables(deliverables: unknown): number | null {
+  if (!Array.isArray(deliverables) || deliverables.length === 0) {
+    return null;
+  }
+
+  return deliverables.reduce(
+    (sum: number, item: any) => sum + Math.max(1, Math.floor(Number(item?.quantity) || 1)),
+    0
+  );
+}
+
+// Interface for compensation results
+export interface CompensationResult {
+  success: boolean;
+  compensation?: Compensation;
+  fields?: {
+    compensation: Compensation;
+    compensation_type: string;
+    offer_amount: number;
+    payment_schedule: string;
+  };
+  milestones?: PaymentMilestone[] | null;
+  error?: string;
+  code?: string;
+}
+
+// Main compensation service class
+class CompensationService {
+  /**
+   * Work out the structured compensation for an offer request body
+   */
+  resolveOfferCompensation(body: Record<string, any>): CompensationResult {
+    let compensation: Compensation | null;
+
+    if (body.compensation !== undefined && body.compensation !== null) {
+      const parsed = compensationSchema.safeParse(body.compensation);
+
+      if (!parsed.success) {
+        return {
+          success: false,
+          error: parsed.error.issues.map(issue => `${issue.path.join('.') || 'compensation'}: ${issue.message}`).join('; '),
+          code: 'INVALID_COMPENSATION'
+        };
+      }
+
+      compensation = parsed.data;
+    } else {
+      compensation = compensationFromLegacy(body.compensation_type, body.offer_amount);
+    }
+
+    if (!compensation) {
+      return { success: false, error: 'Compensation terms are required', code: 'INVALID_COMPENSATION' };
+    }
+
+    return {
+      success: true,
+      compensation,
+      fields: {
+        compensation,
+        compensation_type: compensation.type,
+        offer_amount: guaranteedCash(compensation),
+        payment_schedule: compensation.payment_schedule
+      }
+    };
+  }
+
+  /**
+   * Validate an offer's payment milestones against its guaranteed cash
+   *
+   * Milestones must add up to the cash exactly, and each deliverable
+   * milestone must point at a deliverable instance the offer will have. No
+   * milestones (null/undefined) is valid: funds are then released one
+   * equal part per approved deliverable.
+   */
+  resolveMilestones(milestones: unknown, cash: number, deliverables?: unknown): CompensationResult {
+    if (milestones === undefined || milestones === null) {
+      return { success: true, milestones: null };
+    }
+
+    const parsed = paymentMilestonesSchema.safeParse(milestones);
+    if (!parsed.success) {
+      return {
+        success: false,
+        error: parsed.error.issues.map(issue => `payment_milestones.${issue.path.join('.')}: ${issue.message}`).join('; '),
+        code: 'INVALID_MILESTONES'
+      };
+    }
+
+    const total = Math.round(parsed.data.reduce((sum, milestone) => sum + milestone.amount, 0) * 100) / 100;
+    if (Math.abs(total - cash) > 0.005) {
+      return {
+        success: false,
+        error: `Payment milestones add up to $${total.toLocaleString()} but the offer pays $${cash.toLocaleString()}`,
+        code: 'INVALID_MILESTONES'
+      };
+    }
+
+    const deliverableCount = countDeliverables(deliverables);
+    const outOfRange = parsed.data.find(milestone =>
+      milestone.trigger === 'deliverable' && deliverableCount !== null && (milestone.deliverable_sequence || 0) > deliverableCount
+    );
+    if (outOfRange) {
+      return {
+        success: false,
+        error: `Milestone "${outOfRange.title}" is linked to deliverable ${outOfRange.deliverable_sequence}, but the offer has ${deliverableCount}`,
+        code: 'INVALID_MILESTONES'
+      };
+    }
+
+    return { success: true, milestones: parsed.data };
+  }
+
+  /**
+   * Reject compensation below the athlete's stated minimum
+   *
+   * athleteId is the athlete's user ID (athlete_profiles.id).
+   */
+  async checkAthleteMinimum(
+    athleteId: string,
+    compensation: Compensation,
+    deliverables?: unknown
+  ): Promise<CompensationResult> {
+    try {
+      const { data: profile, error } = await supabase
+        .from('athlete_profiles')
+        .select('minimum_compensation, compensation_goals')
+        .eq('id', athleteId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error loading athlete minimum:', error);
+        return { success: false, error: 'Failed to check athlete minimum', code: 'DATABASE_ERROR' };
+      }
+
+      const minimum = this.readMinimum(profile?.minimum_compensation, profile?.compensation_goals);
+      const check = checkMinimum(compensation, minimum, countDeliverables(deliverables) ?? undefined);
+
+      if (!check.meets) {
+        return { success: false, error: check.reason, code: 'BELOW_MINIMUM' };
+      }
+
+      return { success: true, compensation };
+    } catch (error: any) {
+      console.error('Check athlete minimum exception:', error);
+      return { success: false, error: error.message || 'Failed to check athlete minimum', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Read a stored minimum, accepting rows saved before it was structured
+   */
+  readMinimum(value: unknown, compensationGoals?: string | null) {
+    if (typeof value === 'string') {
+      return minimumFromText(value, compensationGoals);
+    }
+
+    const parsed = compensationMinimumSchema.safeParse(value);
+    return parsed.success ? parsed.data : null;
+  }
+}
+
+// Create and export singleton instance
+export const compensationService = new CompensationService();
+export default compensationService;
@@ -0,0 +1,833 @@
+/**
+ * Compliance Service
+ *
+ * Manages the compliance review queue: offers submitted for review are
+ * checked against the rule set for the athlete's governing body and state,
+ * claimed by a compliance officer and then approved, rejected or sent back
+ * for changes.
+ */
+
+import { supabase } from '../lib/supabase';
+import { notificationService } from './notificationService';
+import {
+  complianceRulesSchema,
+  type ComplianceCheckStatus,
+  type ComplianceDecision,
+  type ComplianceRuleCheck,
+  type ComplianceRuleReport,
+  type ComplianceRules,
+  type CreateComplianceRuleSet
+} from '../../shared/schema';
+
+// Statuses that keep a request in the open queue
+const OPEN_STATUSES = ['pending'];
+
+// Rules used when no rule set has been configured at all
+export const DEFAULT_COMPLIANCE_RULES: ComplianceRules = {
+  prohibited_categories: ['alcohol', 'gambling', 'tobacco', 'cannabis', 'adult_entertainment'],
+  school_marks_allowed: false,
+  disclosure_deadline_days: 7,
+  max_compensation: null
+};
+
+// Keywords that place a deal in a prohibited category
+const CATEGORY_KEYWORDS: Record<string, string[]> = {
+  alcohol: ['alcohol', 'beer', 'wine', 'liquor', 'spirits', 'brewery', 'brewing', 'vodka', 'whiskey', 'tequila', 'seltzer'],
+  gambling: ['gambling', 'betting', 'sportsbook', 'casino', 'wager', 'parlay', 'fantasy sports'],
+  tobacco: ['tobacco', 'cigarette', 'cigar', 'vape', 'vaping', 'nicotine', 'e-cig'],
+  cannabis: ['cannabis', 'marijuana', 'cbd', 'thc', 'dispensary', 'hemp'],
+  adult_entertainment: ['adult entertainment', 'strip club', 'onlyfans', 'explicit'],
+  firearms: ['firearm', 'gun shop', 'ammunition', 'rifle', 'handgun'],
+  prescription_drugs: ['prescription', 'pharmaceutical', 'steroid', 'peptide']
+};
+
+// Terms that indicate use of school names, logos or uniforms
+const SCHOOL_MARK_TERMS = ['logo', 'uniform', 'jersey', 'mascot', 'school colors', 'school marks', 'trademark', 'team gear'];
+
+// Everything the rule checks look at for one deal
+export interface ComplianceContext {
+  text: string; // Lowercased offer, campaign and business text
+  schoolName?: string;
+  compensation?: number;
+  requestedAt: Date;
+}
+
+// Interface for compliance results
+export interface ComplianceResult {
+  success: boolean;
+  request?: any;
+  requests?: any[];
+  ruleSet?: any;
+  ruleSets?: any[];
+  error?: string;
+  code?: string;
+  message?: string;
+}
+
+/**
+ * Pull a two-letter state code out of a location such as "Austin, TX"
+ */
+export function parseState(location?: string | null): string | null {
+  if (!location) return null;
+  const match = location.trim().match(/(?:^|[,\s])([A-Za-z]{2})(?:\s+\d{5}(?:-\d{4})?)?$/);
+  return match ? match[1].toUpperCase() : null;
+}
+
+function findTerms(text: string, terms: string[]): string[] {
+  return terms.filter(term => new RegExp(`\\b${term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`, 'i').test(text));
+}
+
+/**
+ * Run every rule in a rule set against a deal
+ */
+export function runRuleChecks(rules: ComplianceRules, context: ComplianceContext): ComplianceRuleCheck[] {
+  const checks: ComplianceRuleCheck[] = [];
+
+  // Prohibited categories
+  const categoryHits = rules.prohibited_categories.flatMap(category => {
+    const keywords = [
+      category.replace(/_/g, ' '),
+      ...(CATEGORY_KEYWORDS[category] || []),
+      ...(rules.category_keywords?.[category] || [])
+    ];
+    const found = findTerms(context.text, keywords);
+    return found.length > 0 ? [`${category} (${found.join(', ')})`] : [];
+  });
+
+  checks.push(categoryHits.length > 0
+    ? {
+        rule: 'prohibited_categories',
+        label: 'Prohibited categories',
+        status: 'fail',
+        message: `Deal appears to involve prohibited categories: ${categoryHits.join('; ')}`,
+        matches: categoryHits
+      }
+    : {
+        rule: 'prohibited_categories',
+        label: 'Prohibited categories',
+        status: 'pass',
+        message: `No prohibited categories found (checked ${rules.prohibited_categories.join(', ') || 'none'})`
+      });
+
+  // School marks
+  if (!rules.school_marks_allowed) {
+    const terms = [...SCHOOL_MARK_TERMS, ...(rules.school_mark_terms || [])];
+    if (context.schoolName) terms.push(context.schoolName.toLowerCase());
+    const found = findTerms(context.text, terms);
+
+    checks.push(found.length > 0
+      ? {
+          rule: 'school_marks',
+          label: 'School marks',
+          status: 'warn',
+          message: `Deal may use school names, logos or uniforms, which this rule set does not allow without licensing`,
+          matches: found
+        }
+      : { rule: 'school_marks', label: 'School marks', status: 'pass', message: 'No school-mark usage found' });
+  }
+
+  // Disclosure deadline
+  if (rules.disclosure_deadline_days !== null && rules.disclosure_deadline_days !== undefined) {
+    const deadline = new Date(context.requestedAt);
+    deadline.setDate(deadline.getDate() + rules.disclosure_deadline_days);
+    const overdue = Date.now() > deadline.getTime();
+
+    checks.push({
+      rule: 'disclosure_deadline',
+      label: 'Disclosure deadline',
+      status: overdue ? 'warn' : 'pass',
+      message: overdue
+        ? `Disclosure deadline of ${deadline.toISOString().split('T')[0]} has passed`
+        : `Must be disclosed by ${deadline.toISOString().split('T')[0]} (${rules.disclosure_deadline_days} days)`
+    });
+  }
+
+  // Compensation cap
+  if (rules.max_compensation !== null && rules.max_compensation !== undefined) {
+    const overCap = context.compensation !== undefined && context.compensation > rules.max_compensation;
+    checks.push({
+      rule: 'max_compensation',
+      label: 'Compensation limit',
+      status: overCap ? 'warn' : 'pass',
+      message: overCap
+        ? `Compensation of $${context.compensation} exceeds the $${rules.max_compensation} review threshold`
+        : `Compensation is within the $${rules.max_compensation} review threshold`
+    });
+  }
+
+  return checks;
+}
+
+/**
+ * Worst status across a set of checks
+ */
+export function overallStatus(checks: ComplianceRuleCheck[]): ComplianceCheckStatus {
+  if (checks.some(check => check.status === 'fail')) return 'fail';
+  if (checks.some(check => check.status === 'warn')) return 'warn';
+  return 'pass';
+}
+
+// Main compliance service class
+class ComplianceService {
+  /**
+   * Add an offer to the review queue
+   *
+   * Re-submitting an offer that is still open refreshes its rule-check report
+   * instead of creating a duplicate.
+   */
+  async submitForReview(offerId: string, requestedBy: string, state?: string): Promise<ComplianceResult> {
+    try {
+      const { data: offer, error: offerError } = await supabase
+        .from('partnership_offers')
+        .select('*')
+        .eq('id', offerId)
+        .single();
+
+      if (offerError || !offer) {
+        return { success: false, error: 'Offer not found', code: 'NOT_FOUND' };
+      }
+
+      if (requestedBy !== offer.athlete_id && requestedBy !== offer.business_id) {
+        return { success: false, error: 'You are not a party to this offer', code: 'FORBIDDEN' };
+      }
+
+      const { data: existing } = await supabase
+        .from('compliance_requests')
+        .select('*')
+        .eq('offer_id', offerId)
+        .in('status', [...OPEN_STATUSES, 'needs_revision'])
+        .order('requested_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      const requestedAt = existing?.requested_at ? new Date(existing.requested_at) : new Date();
+      const { report, ruleSet, governingBodyId, resolvedState } = await this.buildReport(offer, requestedAt, state);
+
+      const fields = {
+        offer_id: offer.id,
+        match_id: offer.match_id || null,
+        athlete_id: offer.athlete_id,
+        business_id: offer.business_id,
+        governing_body_id: governingBodyId,
+        state: resolvedState,
+        rule_set_id: ruleSet?.id || null,
+        rule_set_version: report.rule_set.version,
+        rule_report: report
+      };
+
+      if (existing) {
+        const { data: request, error } = await supabase
+          .from('compliance_requests')
+          .update({ ...fields, status: 'pending', reviewed_at: null })
+          .eq('id', existing.id)
+          .select()
+          .single();
+
+        if (error) {
+          console.error('Error resubmitting compliance request:', error);
+          return { success: false, error: 'Failed to resubmit compliance request', code: 'DATABASE_ERROR' };
+        }
+
+        if (existing.status === 'needs_revision' && existing.compliance_officer_id) {
+          await this.notify(existing.compliance_officer_id, {
+            type: 'COMPLIANCE_RESUBMITTED',
+            title: 'Compliance Review Resubmitted',
+            content: 'A partnership you requested changes on has been updated and is ready for review',
+            requestId: request.id
+          });
+        }
+
+        return { success: true, request, message: 'Compliance request resubmitted' };
+      }
+
+      const { data: request, error } = await supabase
+        .from('compliance_requests')
+        .insert({
+          ...fields,
+          requested_by: requestedBy,
+          status: 'pending',
+          requested_at: requestedAt.toISOString()
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error creating compliance request:', error);
+        return { success: false, error: 'Failed to create compliance request', code: 'DATABASE_ERROR' };
+      }
+
+      // Let every compliance officer know there is work in the queue
+      const { data: officers } = await supabase
+        .from('users')
+        .select('id')
+        .in('role', ['compliance', 'compliance_officer']);
+
+      for (const officer of officers || []) {
+        await this.notify(officer.id, {
+          type: 'COMPLIANCE_REVIEW_NEEDED',
+          title: 'Compliance Review Needed',
+          content: `A new partnership offer requires compliance review (rule check: ${report.overall})`,
+          requestId: request.id
+        });
+      }
+
+      return { success: true, request, message: 'Offer submitted for compliance review' };
+    } catch (error: any) {
+      console.error('Submit compliance request exception:', error);
+      return { success: false, error: error.message || 'Failed to submit for review', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Resubmit an offer after the business revised it, if compliance asked for changes
+   */
+  async resubmitAfterRevision(offerId: string, userId: string): Promise<ComplianceResult | null> {
+    const { data: existing } = await supabase
+      .from('compliance_requests')
+      .select('id')
+      .eq('offer_id', offerId)
+      .eq('status', 'needs_revision')
+      .limit(1)
+      .maybeSingle();
+
+    return existing ? this.submitForReview(offerId, userId) : null;
+  }
+
+  /**
+   * Get the review queue
+   */
+  async getQueue(
+    officerId: string,
+    filters: { status?: string; assigned?: 'me' | 'unassigned' | 'all' } = {}
+  ): Promise<ComplianceResult> {
+    try {
+      let query = supabase
+        .from('compliance_requests')
+        .select(`
+          *,
+          offer:offer_id(id, status, offer_amount, compensation_type, compensation, deliverables, term, campaign_id),
+          athlete:athlete_id(id, email),
+          business:business_id(id, email)
+        `)
+        .order('requested_at', { ascending: true });
+
+      query = query.in('status', filters.status ? filters.status.split(',') : OPEN_STATUSES);
+
+      if (filters.assigned === 'me') {
+        query = query.eq('compliance_officer_id', officerId);
+      } else if (filters.assigned === 'unassigned') {
+        query = query.is('compliance_officer_id', null);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        console.error('Error getting compliance queue:', error);
+        return { success: false, error: 'Failed to get compliance queue', code: 'DATABASE_ERROR' };
+      }
+
+      return { success: true, requests: await this.attachProfiles(data || []) };
+    } catch (error: any) {
+      console.error('Get compliance queue exception:', error);
+      return { success: false, error: error.message || 'Failed to get compliance queue', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Get a single request with a fresh rule-check report while it is still open
+   */
+  async getRequest(requestId: number): Promise<ComplianceResult> {
+    try {
+      const result = await this.loadRequest(requestId);
+      if (!result.success) {
+        return result;
+      }
+
+      let request = result.request;
+
+      if (OPEN_STATUSES.includes(request.status) && request.offer) {
+        const { report, ruleSet } = await this.buildReport(
+          request.offer,
+          new Date(request.requested_at),
+          request.state
+        );
+
+        const { data: refreshed } = await supabase
+          .from('compliance_requests')
+          .update({ rule_report: report, rule_set_id: ruleSet?.id || null, rule_set_version: report.rule_set.version })
+          .eq('id', requestId)
+          .select()
+          .single();
+
+        request = { ...request, ...(refreshed || { rule_report: report }) };
+      }
+
+      const [withProfiles] = await this.attachProfiles([request]);
+      return { success: true, request: withProfiles };
+    } catch (error: any) {
+      console.error('Get compliance request exception:', error);
+      return { success: false, error: error.message || 'Failed to get compliance request', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Claim an open request for review
+   */
+  async claimRequest(requestId: number, officerId: string): Promise<ComplianceResult> {
+    try {
+      const result = await this.loadRequest(requestId);
+      if (!result.success) {
+        return result;
+      }
+
+      const request = result.request;
+
+      if (!OPEN_STATUSES.includes(request.status)) {
+        return { success: false, error: `Request is already ${request.status}`, code: 'INVALID_OPERATION' };
+      }
+
+      if (request.compliance_officer_id && request.compliance_officer_id !== officerId) {
+        return { success: false, error: 'Request is already claimed by another officer', code: 'ALREADY_CLAIMED' };
+      }
+
+      // compliance_requests.compliance_officer_id references compliance_officers
+      await supabase
+        .from('compliance_officers')
+        .upsert({ id: officerId }, { onConflict: 'id', ignoreDuplicates: true });
+
+      // Only claim if nobody else got there first
+      let claim = supabase
+        .from('compliance_requests')
+        .update({ compliance_officer_id: officerId, claimed_at: new Date().toISOString() })
+        .eq('id', requestId);
+
+      claim = request.compliance_officer_id
+        ? claim.eq('compliance_officer_id', officerId)
+        : claim.is('compliance_officer_id', null);
+
+      const { data: claimed, error } = await claim.select().maybeSingle();
+
+      if (error) {
+        console.error('Error claiming compliance request:', error);
+        return { success: false, error: 'Failed to claim request', code: 'DATABASE_ERROR' };
+      }
+
+      if (!claimed) {
+        return { success: false, error: 'Request is already claimed by another officer', code: 'ALREADY_CLAIMED' };
+      }
+
+      return { success: true, request: claimed, message: 'Request claimed' };
+    } catch (error: any) {
+      console.error('Claim compliance request exception:', error);
+      return { success: false, error: error.message || 'Failed to claim request', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Return a claimed request to the queue
+   */
+  async releaseRequest(requestId: number, officerId: string, userRole: string): Promise<ComplianceResult> {
+    try {
+      const result = await this.loadRequest(requestId);
+      if (!result.success) {
+        return result;
+      }
+
+      const request = result.request;
+
+      if (!OPEN_STATUSES.includes(request.status)) {
+        return { success: false, error: `Request is already ${request.status}`, code: 'INVALID_OPERATION' };
+      }
+
+      if (request.compliance_officer_id !== officerId && userRole !== 'admin') {
+        return { success: false, error: 'You have not claimed this request', code: 'FORBIDDEN' };
+      }
+
+      const { data: released, error } = await supabase
+        .from('compliance_requests')
+        .update({ compliance_officer_id: null, claimed_at: null })
+        .eq('id', requestId)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error releasing compliance request:', error);
+        return { success: false, error: 'Failed to release request', code: 'DATABASE_ERROR' };
+      }
+
+      return { success: true, request: released, message: 'Request returned to the queue' };
+    } catch (error: any) {
+      console.error('Release compliance request exception:', error);
+      return { success: false, error: error.message || 'Failed to release request', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Record an officer's decision on a claimed request
+   */
+  async decide(
+    requestId: number,
+    officerId: string,
+    userRole: string,
+    decision: ComplianceDecision,
+    reason?: string
+  ): Promise<ComplianceResult> {
+    try {
+      const result = await this.loadRequest(requestId);
+      if (!result.success) {
+        return result;
+      }
+
+      const request = result.request;
+
+      if (!OPEN_STATUSES.includes(request.status)) {
+        return { success: false, error: `Request is already ${request.status}`, code: 'INVALID_OPERATION' };
+      }
+
+      if (!request.compliance_officer_id) {
+        return { success: false, error: 'Claim the request before recording a decision', code: 'NOT_CLAIMED' };
+      }
+
+      if (request.compliance_officer_id !== officerId && userRole !== 'admin') {
+        return { success: false, error: 'Request is claimed by another officer', code: 'ALREADY_CLAIMED' };
+      }
+
+      const reviewedAt = new Date().toISOString();
+
+      const { data: decided, error } = await supabase
+        .from('compliance_requests')
+        .update({
+          status: decision,
+          notes: reason || null,
+          reviewed_at: reviewedAt
+        })
+        .eq('id', requestId)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error recording compliance decision:', error);
+        return { success: false, error: 'Failed to record decision', code: 'DATABASE_ERROR' };
+      }
+
+      // Keep the match's compliance status in sync
+      if (request.match_id) {
+        await supabase
+          .from('match_scores')
+          .update({
+            compliance_status: decision,
+            compliance_officer_id: request.compliance_officer_id,
+            compliance_notes: reason || null,
+            approved_at: decision === 'approved' ? reviewedAt : null
+          })
+          .eq('id', request.match_id);
+      }
+
+      const titles: Record<ComplianceDecision, string> = {
+        approved: 'Compliance Approved',
+        rejected: 'Compliance Rejected',
+        needs_revision: 'Compliance Changes Requested'
+      };
+      const verbs: Record<ComplianceDecision, string> = {
+        approved: 'approved',
+        rejected: 'rejected',
+        needs_revision: 'sent back for changes'
+      };
+
+      const notification = {
+        type: `COMPLIANCE_${decision.toUpperCase()}`,
+        title: titles[decision],
+        content: `Your partnership has been ${verbs[decision]} by compliance${reason ? ': ' + reason : ''}`,
+        requestId
+      };
+
+      await Promise.all(
+        [request.athlete_id, request.business_id]
+          .filter(Boolean)
+          .map((userId: string) => this.notify(userId, notification))
+      );
+
+      return { success: true, request: decided, message: `Request ${verbs[decision]}` };
+    } catch (error: any) {
+      console.error('Compliance decision exception:', error);
+      return { success: false, error: error.message || 'Failed to record decision', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Find the active rule set for a governing body and state
+   *
+   * Most specific wins: body + state, then body only, then state only,
+   * then the baseline set.
+   */
+  async resolveRuleSet(governingBodyId: number | null, state: string | null): Promise<any | null> {
+    const { data: ruleSets, error } = await supabase
+      .from('compliance_rule_sets')
+      .select('*')
+      .eq('is_active', true)
+      .order('version', { ascending: false });
+
+    if (error || !ruleSets) {
+      console.error('Error loading compliance rule sets:', error);
+      return null;
+    }
+
+    const candidates: Array<[number | null, string | null]> = [
+      [governingBodyId, state],
+      [governingBodyId, null],
+      [null, state],
+      [null, null]
+    ];
+
+    for (const [bodyId, stateCode] of candidates) {
+      const match = ruleSets.find(ruleSet =>
+        (ruleSet.governing_body_id ?? null) === bodyId &&
+        (ruleSet.state ?? null) === stateCode
+      );
+      if (match) return match;
+    }
+
+    return null;
+  }
+
+  /**
+   * List rule sets, newest version first
+   */
+  async getRuleSets(filters: { governingBodyId?: number; state?: string; includeInactive?: boolean } = {}): Promise<ComplianceResult> {
+    try {
+      let query = supabase
+        .from('compliance_rule_sets')
+        .select('*')
+        .order('governing_body_id', { ascending: true, nullsFirst: true })
+        .order('state', { ascending: true, nullsFirst: true })
+        .order('version', { ascending: false });
+
+      if (!filters.includeInactive) {
+        query = query.eq('is_active', true);
+      }
+      if (filters.governingBodyId !== undefined) {
+        query = query.eq('governing_body_id', filters.governingBodyId);
+      }
+      if (filters.state) {
+        query = query.eq('state', filters.state.toUpperCase());
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        console.error('Error getting compliance rule sets:', error);
+        return { success: false, error: 'Failed to get rule sets', code: 'DATABASE_ERROR' };
+      }
+
+      return { success: true, ruleSets: data || [] };
+    } catch (error: any) {
+      console.error('Get compliance rule sets exception:', error);
+      return { success: false, error: error.message || 'Failed to get rule sets', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Publish a new version of the rule set for a governing body/state pair
+   *
+   * Earlier versions are kept (requests record the version they were checked
+   * against) but deactivated.
+   */
+  async createRuleSetVersion(input: CreateComplianceRuleSet, userId: string): Promise<ComplianceResult> {
+    try {
+      let latestQuery = supabase
+        .from('compliance_rule_sets')
+        .select('version')
+        .order('version', { ascending: false })
+        .limit(1);
+
+      latestQuery = input.governing_body_id === null
+        ? latestQuery.is('governing_body_id', null)
+        : latestQuery.eq('governing_body_id', input.governing_body_id);
+      latestQuery = input.state === null
+        ? latestQuery.is('state', null)
+        : latestQuery.eq('state', input.state);
+
+      const { data: latest } = await latestQuery.maybeSingle();
+      const version = (latest?.version || 0) + 1;
+
+      const { data: ruleSet, error } = await supabase
+        .from('compliance_rule_sets')
+        .insert({
+          governing_body_id: input.governing_body_id,
+          state: input.state,
+          version,
+          name: input.name,
+          rules: input.rules,
+          is_active: true,
+          created_by: userId,
+          created_at: new Date().toISOString()
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error creating compliance rule set:', error);
+        return { success: false, error: 'Failed to create rule set', code: 'DATABASE_ERROR' };
+      }
+
+      // Deactivate earlier versions for the same scope
+      let deactivate = supabase
+        .from('compliance_rule_sets')
+        .update({ is_active: false })
+        .lt('version', version);
+
+      deactivate = input.governing_body_id === null
+        ? deactivate.is('governing_body_id', null)
+        : deactivate.eq('governing_body_id', input.governing_body_id);
+      deactivate = input.state === null
+        ? deactivate.is('state', null)
+        : deactivate.eq('state', input.state);
+
+      await deactivate;
+
+      return { success: true, ruleSet, message: `Rule set version ${version} published` };
+    } catch (error: any) {
+      console.error('Create compliance rule set exception:', error);
+      return { success: false, error: error.message || 'Failed to create rule set', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Run the rule checks for an offer
+   */
+  private async buildReport(offer: any, requestedAt: Date, stateOverride?: string | null) {
+    const [{ data: athlete }, { data: athleteProfile }, { data: business }, { data: campaign }] = await Promise.all([
+      supabase.from('athletes').select('governing_body_id, school, zip_code').eq('id', offer.athlete_id).maybeSingle(),
+      supabase.from('athlete_profiles').select('school, location').eq('id', offer.athlete_id).maybeSingle(),
+      supabase
+        .from('business_profiles')
+        .select('name, company, industry, product_type, business_type, bio')
+        .eq('id', offer.business_id)
+        .maybeSingle(),
+      offer.campaign_id
+        ? supabase.from('campaigns').select('title, description').eq('id', offer.campaign_id).maybeSingle()
+        : Promise.resolve({ data: null })
+    ]);
+
+    const governingBodyId: number | null = athlete?.governing_body_id ?? null;
+    const resolvedState = stateOverride?.toUpperCase() || parseState(athleteProfile?.location) || null;
+    const ruleSet = await this.resolveRuleSet(governingBodyId, resolvedState);
+
+    const parsedRules = complianceRulesSchema.safeParse(ruleSet?.rules ?? DEFAULT_COMPLIANCE_RULES);
+    if (!parsedRules.success) {
+      console.error(`Compliance rule set ${ruleSet?.id} is invalid, using defaults`);
+    }
+    const rules = parsedRules.success ? parsedRules.data : DEFAULT_COMPLIANCE_RULES;
+
+    const text = [
+      JSON.stringify(offer.deliverables || ''),
+      offer.content_specifications,
+      offer.usage_rights,
+      offer.compensation_type,
+      business?.name,
+      business?.company,
+      business?.industry,
+      business?.product_type,
+      business?.business_type,
+      business?.bio,
+      campaign?.title,
+      campaign?.description
+    ]
+      .filter(Boolean)
+      .join(' \n ')
+      .toLowerCase();
+
+    const compensation = Number(String(offer.offer_amount ?? '').replace(/[^0-9.]/g, ''));
+    const checks = runRuleChecks(rules, {
+      text,
+      schoolName: athlete?.school || athleteProfile?.school,
+      compensation: Number.isFinite(compensation) && compensation > 0 ? compensation : undefined,
+      requestedAt
+    });
+
+    const report: ComplianceRuleReport = {
+      overall: overallStatus(checks),
+      checks,
+      rule_set: {
+        id: ruleSet?.id ?? null,
+        name: ruleSet?.name ?? 'Built-in defaults',
+        version: ruleSet?.version ?? 0,
+        governing_body_id: ruleSet?.governing_body_id ?? null,
+        state: ruleSet?.state ?? null
+      },
+      generated_at: new Date().toISOString()
+    };
+
+    return { report, ruleSet, governingBodyId, resolvedState };
+  }
+
+  /**
+   * Load a request with its offer
+   */
+  private async loadRequest(requestId: number): Promise<ComplianceResult> {
+    if (!Number.isInteger(requestId)) {
+      return { success: false, error: 'Valid request ID is required', code: 'INVALID_INPUT' };
+    }
+
+    const { data: request, error } = await supabase
+      .from('compliance_requests')
+      .select(`
+        *,
+        offer:offer_id(*)
+      `)
+      .eq('id', requestId)
+      .single();
+
+    if (error || !request) {
+      return { success: false, error: 'Compliance request not found', code: 'NOT_FOUND' };
+    }
+
+    return { success: true, request };
+  }
+
+  /**
+   * Attach athlete and business display details for the dashboard
+   */
+  private async attachProfiles(requests: any[]): Promise<any[]> {
+    const athleteIds = Array.from(new Set(requests.map(r => r.athlete_id).filter(Boolean)));
+    const businessIds = Array.from(new Set(requests.map(r => r.business_id).filter(Boolean)));
+
+    const [{ data: athletes }, { data: businesses }] = await Promise.all([
+      athleteIds.length
+        ? supabase.from('athlete_profiles').select('id, name, sport, school, location').in('id', athleteIds)
+        : Promise.resolve({ data: [] as any[] }),
+      businessIds.length
+        ? supabase.from('business_profiles').select('id, name, company, industry, business_type').in('id', businessIds)
+        : Promise.resolve({ data: [] as any[] })
+    ]);
+
+    return requests.map(request => ({
+      ...request,
+      athlete_profile: athletes?.find(a => a.id === request.athlete_id) || null,
+      business_profile: businesses?.find(b => b.id === request.business_id) || null
+    }));
+  }
+
+  /**
+   * Notify a user, subject to their notification preferences
+   */
+  private async notify(
+    userId: string,
+    notification: { type: string; title: string; content: string; requestId: number }
+  ): Promise<void> {
+    const { type, title, content, requestId } = notification;
+
+    await notificationService.notify(userId, {
+      type,
+      title,
+      content,
+      referenceType: 'COMPLIANCE_REQUEST',
+      referenceId: requestId,
+      data: { requestId }
+    });
+  }
+}
+
+// Create and export singleton instance
+export const complianceService = new ComplianceService();
+export default complianceService;
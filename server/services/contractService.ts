@@ -0,0 +1,665 @@
+/**
+ * Contract Service
+ *
+ * Generates the contract PDF for an accepted offer from the active version
+ * of an admin-editable template. Templates are plain text with "# Heading"
+ * lines, "- " bullets and {{placeholders}} for the offer terms; the NIL
+ * disclosure clauses are stored with the template and always printed.
+ * Publishing a template creates a new version, and each contract records
+ * the version that produced it. Signing is handled by the contract
+ * signature service once a contract is generated.
+ */
+
+import { createHash } from 'crypto';
+import { supabase } from '../lib/supabase';
+import { objectStorage } from '../objectStorage';
+import { renderPdf, PdfBlock } from '../lib/pdf';
+import { notificationService } from './notificationService';
+import { contractSignatureService } from './contractSignatureService';
+import {
+  compensationSchema,
+  ContractListItem,
+  ContractTemplate,
+  ContractTemplateInput,
+  paymentMilestonesSchema
+} from '../../shared/schema';
+import { compensationFromLegacy, describeCompensation, guaranteedCash } from '../../shared/compensation';
+
+export const DEFAULT_TEMPLATE_KEY = 'partnership_agreement';
+
+// Placeholders replaced inline, e.g. "between {{business.name}} and {{athlete.name}}"
+export const INLINE_PLACEHOLDERS = [
+  'contract.date',
+  'athlete.name',
+  'athlete.school',
+  'athlete.sport',
+  'athlete.division',
+  'business.name',
+  'business.industry',
+  'business.location',
+  'campaign.title',
+  'offer.id',
+  'offer.term',
+  'offer.usage_rights',
+  'offer.exclusivity',
+  'offer.geographic_restrictions',
+  'offer.start_date',
+  'offer.end_date',
+  'compensation.summary',
+  'compensation.cash',
+  'compensation.schedule',
+  'compensation.bonus'
+] as const;
+
+// Placeholders that expand to a bulleted list and must sit on their own line
+export const BLOCK_PLACEHOLDERS = ['deliverables', 'payment_milestones'] as const;
+
+const NOT_SPECIFIED = 'Not specified';
+
+// First version of the template, published automatically if none exists yet
+const DEFAULT_TEMPLATE: ContractTemplateInput = {
+  title: 'NIL Partnership Agreement',
+  body: [
+    'This Name, Image and Likeness ("NIL") Partnership Agreement (the "Agreement") is made on {{contract.date}} between {{business.name}} (the "Business") and {{athlete.name}} (the "Athlete"), a {{athlete.sport}} student-athlete at {{athlete.school}}.',
+    '',
+    '# 1. Campaign',
+    'The Athlete will promote the Business as part of the campaign "{{campaign.title}}", under partnership offer {{offer.id}}.',
+    '',
+    '# 2. Deliverables',
+    'The Athlete will create and publish the following content:',
+    '{{deliverables}}',
+    'Each deliverable is submitted through the platform, with proof of posting, for the Business to approve or return with requested changes.',
+    '',
+    '# 3. Compensation',
+    'The Business will compensate the Athlete with {{compensation.summary}}. Guaranteed cash of {{compensation.cash}} is charged to the Business when this Agreement is accepted, held in escrow by the platform, and released to the Athlete ({{compensation.schedule}}) as follows:',
+    '{{payment_milestones}}',
+    'Bonus terms: {{compensation.bonus}}.',
+    '',
+    '# 4. Term',
+    'This Agreement runs for {{offer.term}}, from {{offer.start_date}} until {{offer.end_date}}, unless ended earlier under section 7.',
+    '',
+    '# 5. Usage Rights',
+    '{{offer.usage_rights}}',
+    '',
+    '# 6. Exclusivity',
+    'Exclusivity: {{offer.exclusivity}}. Geographic restrictions: {{offer.geographic_restrictions}}.',
+    '',
+    '# 7. Termination',
+    'Either party may end this Agreement with written notice through the platform if the other party materially breaches it and does not cure the breach within ten (10) days. Funds held in escrow for deliverables already approved remain payable to the Athlete.',
+    '',
+    '# 8. General',
+    'This Agreement, together with the accepted offer on the platform, is the entire agreement between the parties about the campaign. Changes must be agreed in writing through the platform.'
+  ].join('\n'),
+  nil_clauses: [
+    'Compensation under this Agreement is paid solely for the use of the Athlete\'s name, image and likeness and the deliverables described above. It is not contingent on athletic participation or performance, enrollment at a particular institution, or recruitment.',
+    'The Athlete is responsible for disclosing this Agreement to their institution as required by institutional, conference and state NIL rules, and confirms it does not conflict with any existing team or institutional agreement.',
+    'Sponsored content must clearly disclose the paid relationship with the Business (for example #ad or #sponsored), consistent with the FTC Endorsement Guides.',
+    'The Athlete may not use institutional names, marks, logos or uniforms in content for the Business without the institution\'s written permission.',
+    'The Athlete is an independent contractor, not an employee of the Business or the platform, and is responsible for any taxes on compensation received.'
+  ],
+  change_note: 'Initial version'
+};
+
+// Interface for contract results
+export interface ContractResult {
+  success: boolean;
+  contract?: any;
+  contracts?: ContractListItem[];
+  template?: ContractTemplate;
+  templates?: ContractTemplate[];
+  file?: Buffer;
+  fileName?: string;
+  error?: string;
+  code?: string;
+  message?: string;
+}
+
+function formatMoney(amount: number, currency = 'USD'): string {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency, maximumFractionDigits: 2 }).format(amount);
+}
+
+function formatDate(value: string | null | undefined): string {
+  if (!value) return NOT_SPECIFIED;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime())
+    ? value
+    : date.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC' });
+}
+
+function text(value: unknown): string {
+  if (value === null || value === undefined || value === '') return NOT_SPECIFIED;
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * List the placeholders in a template body that the renderer doesn't know
+ */
+export function unknownPlaceholders(body: string): string[] {
+  const known = new Set<string>([...INLINE_PLACEHOLDERS, ...BLOCK_PLACEHOLDERS]);
+  const found = Array.from(body.matchAll(/\{\{\s*([\w.]+)\s*\}\}/g), match => match[1]);
+  return Array.from(new Set(found.filter(name => !known.has(name))));
+}
+
+/**
+ * Turn a template body into PDF blocks, filling in placeholders
+ *
+ * Consecutive lines form one paragraph; a blank line ends it.
+ */
+export function renderTemplate(
+  body: string,
+  inline: Record<string, string>,
+  lists: Record<string, string[]>
+): PdfBlock[] {
+  const blocks: PdfBlock[] = [];
+  let paragraph: string[] = [];
+
+  const fill = (line: string) => line.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_, name: string) =>
+    inline[name] ?? lists[name]?.join('; ') ?? NOT_SPECIFIED
+  );
+  const flush = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', text: paragraph.join(' ') });
+      paragraph = [];
+    }
+  };
+
+  for (const raw of body.split('\n')) {
+    const line = raw.trim();
+    const listName = line.match(/^\{\{\s*([\w.]+)\s*\}\}$/)?.[1];
+
+    if (!line) {
+      flush();
+    } else if (listName && listName in lists) {
+      flush();
+      const items = lists[listName].length > 0 ? lists[listName] : [NOT_SPECIFIED];
+      items.forEach(item => blocks.push({ type: 'bullet', text: item }));
+    } else if (line.startsWith('#')) {
+      flush();
+      blocks.push({ type: 'heading', text: fill(line.replace(/^#+\s*/, '')) });
+    } else if (line.startsWith('- ')) {
+      flush();
+      blocks.push({ type: 'bullet', text: fill(line.slice(2)) });
+    } else {
+      paragraph.push(fill(line));
+    }
+  }
+
+  flush();
+  return blocks;
+}
+
+// Main contract service class
+class ContractService {
+  /**
+   * The template version new contracts are generated from
+   *
+   * Publishes the built-in default as version 1 the first time it's needed.
+   */
+  async getActiveTemplate(key: string = DEFAULT_TEMPLATE_KEY): Promise<ContractResult> {
+    try {
+      const { data: templates, error } = await supabase
+        .from('contract_templates')
+        .select('*')
+        .eq('key', key)
+        .order('version', { ascending: false });
+
+      if (error) {
+        console.error('Error loading contract templates:', error);
+        return { success: false, error: 'Failed to load contract template', code: 'DATABASE_ERROR' };
+      }
+
+      if (!templates || templates.length === 0) {
+        return this.publishTemplate(DEFAULT_TEMPLATE, null, key);
+      }
+
+      return { success: true, template: templates.find(template => template.is_active) || templates[0] };
+    } catch (error: any) {
+      console.error('Get active contract template exception:', error);
+      return { success: false, error: error.message || 'Failed to get contract template', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Every version of a template, newest first (admin)
+   */
+  async listTemplates(key: string = DEFAULT_TEMPLATE_KEY): Promise<ContractResult> {
+    const active = await this.getActiveTemplate(key);
+    if (!active.success) {
+      return active;
+    }
+
+    const { data: templates, error } = await supabase
+      .from('contract_templates')
+      .select('*')
+      .eq('key', key)
+      .order('version', { ascending: false });
+
+    if (error) {
+      console.error('Error listing contract templates:', error);
+      return { success: false, error: 'Failed to load contract templates', code: 'DATABASE_ERROR' };
+    }
+
+    return { success: true, template: active.template, templates: templates || [] };
+  }
+
+  /**
+   * Publish a new template version and make it the active one (admin)
+   *
+   * Existing versions are never edited, so contracts can always be traced
+   * back to the exact text that produced them.
+   */
+  async publishTemplate(
+    input: ContractTemplateInput,
+    adminId: string | null,
+    key: string = DEFAULT_TEMPLATE_KEY
+  ): Promise<ContractResult> {
+    try {
+      const unknown = unknownPlaceholders(input.body);
+      if (unknown.length > 0) {
+        return {
+          success: false,
+          error: `Unknown placeholders: ${unknown.map(name => `{{${name}}}`).join(', ')}. ` +
+            `Available: ${[...INLINE_PLACEHOLDERS, ...BLOCK_PLACEHOLDERS].map(name => `{{${name}}}`).join(', ')}`,
+          code: 'INVALID_TEMPLATE'
+        };
+      }
+
+      const { data: latest } = await supabase
+        .from('contract_templates')
+        .select('version')
+        .eq('key', key)
+        .order('version', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      const { error: deactivateError } = await supabase
+        .from('contract_templates')
+        .update({ is_active: false })
+        .eq('key', key)
+        .eq('is_active', true);
+
+      if (deactivateError) {
+        console.error('Error deactivating contract template:', deactivateError);
+        return { success: false, error: 'Failed to publish contract template', code: 'DATABASE_ERROR' };
+      }
+
+      const { data: template, error } = await supabase
+        .from('contract_templates')
+        .insert({
+          key,
+          version: (latest?.version || 0) + 1,
+          title: input.title,
+          body: input.body,
+          nil_clauses: input.nil_clauses,
+          change_note: input.change_note || null,
+          is_active: true,
+          created_by: adminId,
+          created_at: new Date().toISOString()
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error publishing contract template:', error);
+        return { success: false, error: 'Failed to publish contract template', code: 'DATABASE_ERROR' };
+      }
+
+      return { success: true, template, message: `Published version ${template.version}` };
+    } catch (error: any) {
+      console.error('Publish contract template exception:', error);
+      return { success: false, error: error.message || 'Failed to publish contract template', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Render a template against an offer without storing anything (admin preview)
+   */
+  async previewTemplate(input: ContractTemplateInput, offerId: string): Promise<ContractResult> {
+    const unknown = unknownPlaceholders(input.body);
+    if (unknown.length > 0) {
+      return { success: false, error: `Unknown placeholders: ${unknown.join(', ')}`, code: 'INVALID_TEMPLATE' };
+    }
+
+    const { data: offer } = await supabase
+      .from('partnership_offers')
+      .select('*')
+      .eq('id', offerId)
+      .maybeSingle();
+
+    if (!offer) {
+      return { success: false, error: 'Offer not found', code: 'NOT_FOUND' };
+    }
+
+    const file = await this.buildDocument(offer, { ...input, version: 0 } as ContractTemplate, new Date());
+    return { success: true, file, fileName: `preview-${offer.id}.pdf` };
+  }
+
+  /**
+   * Generate and store the contract for an accepted offer
+   *
+   * Returns the existing contract unless regenerate is set.
+   */
+  async generateForOffer(offer: any, options: { regenerate?: boolean } = {}): Promise<ContractResult> {
+    try {
+      const { data: existing } = await supabase
+        .from('contracts')
+        .select('*')
+        .eq('offer_id', offer.id)
+        .maybeSingle();
+
+      if (existing && !options.regenerate) {
+        return { success: true, contract: existing, message: 'Contract already generated' };
+      }
+
+      if (existing?.status === 'signed') {
+        return { success: false, error: 'A signed contract cannot be regenerated', code: 'INVALID_OPERATION' };
+      }
+
+      const templateResult = await this.getActiveTemplate();
+      if (!templateResult.success || !templateResult.template) {
+        return templateResult;
+      }
+
+      const template = templateResult.template;
+      const generatedAt = new Date();
+      const file = await this.buildDocument(offer, template, generatedAt);
+      const contentHash = createHash('sha256').update(file).digest('hex');
+      const storageKey = `contracts/${offer.id}/v${template.version}-${contentHash.slice(0, 12)}.pdf`;
+
+      const uploaded = await objectStorage.uploadBuffer(storageKey, file);
+      if (!uploaded) {
+        return { success: false, error: 'Failed to store contract', code: 'STORAGE_ERROR' };
+      }
+
+      const { data: contract, error } = await supabase
+        .from('contracts')
+        .upsert({
+          ...(existing ? { id: existing.id } : {}),
+          offer_id: offer.id,
+          campaign_id: offer.campaign_id || null,
+          athlete_id: offer.athlete_id,
+          business_id: offer.business_id,
+          template_id: template.id,
+          template_version: template.version,
+          status: 'generated',
+          storage_key: storageKey,
+          file_name: `contract-${offer.id.slice(0, 8)}.pdf`,
+          content_hash: contentHash,
+          generated_at: generatedAt.toISOString(),
+          updated_at: generatedAt.toISOString()
+        }, { onConflict: 'offer_id' })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error saving contract:', error);
+        return { success: false, error: 'Failed to save contract', code: 'DATABASE_ERROR' };
+      }
+
+      for (const partyId of [offer.athlete_id, offer.business_id]) {
+        await notificationService.notify(partyId, {
+          type: 'CONTRACT_READY',
+          title: existing ? 'Contract Updated' : 'Contract Ready',
+          content: 'The contract for your partnership is ready to review and sign',
+          referenceType: 'CONTRACT',
+          referenceId: contract.id,
+          data: { contractId: contract.id, offerId: offer.id }
+        });
+      }
+
+      // Signing problems are reported on the contract's signature status, not here
+      const signatures = await contractSignatureService.requestSignatures(contract);
+      if (!signatures.success) {
+        console.error('Failed to request contract signatures:', signatures.error);
+      }
+
+      return { success: true, contract };
+    } catch (error: any) {
+      console.error('Generate contract exception:', error);
+      return { success: false, error: error.message || 'Failed to generate contract', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Regenerate an offer's contract from the current template (business or admin)
+   */
+  async regenerateForOffer(offerId: string, userId: string, userRole: string): Promise<ContractResult> {
+    const { data: offer, error } = await supabase
+      .from('partnership_offers')
+      .select('*')
+      .eq('id', offerId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading offer for contract:', error);
+      return { success: false, error: 'Failed to load offer', code: 'DATABASE_ERROR' };
+    }
+
+    if (!offer) {
+      return { success: false, error: 'Offer not found', code: 'NOT_FOUND' };
+    }
+
+    if (userRole !== 'admin' && offer.business_id !== userId) {
+      return { success: false, error: 'You do not have permission to generate this contract', code: 'FORBIDDEN' };
+    }
+
+    if (!['accepted', 'active'].includes(offer.status)) {
+      return { success: false, error: 'Contracts are only generated for accepted offers', code: 'INVALID_OPERATION' };
+    }
+
+    return this.generateForOffer(offer, { regenerate: true });
+  }
+
+  /**
+   * Contracts for the current user (both parties; admins see all)
+   */
+  async getContracts(userId: string, userRole: string): Promise<ContractResult> {
+    let query = supabase
+      .from('contracts')
+      .select('*')
+      .order('generated_at', { ascending: false });
+
+    if (userRole !== 'admin') {
+      query = query.eq(userRole === 'business' ? 'business_id' : 'athlete_id', userId);
+    }
+
+    const { data: contracts, error } = await query;
+
+    if (error) {
+      console.error('Error loading contracts:', error);
+      return { success: false, error: 'Failed to load contracts', code: 'DATABASE_ERROR' };
+    }
+
+    return { success: true, contracts: await this.withNames(contracts || []) };
+  }
+
+  /**
+   * One contract, visible to both parties and admins
+   */
+  async getContract(contractId: string, userId: string, userRole: string): Promise<ContractResult> {
+    const { data: contract, error } = await supabase
+      .from('contracts')
+      .select('*')
+      .eq('id', contractId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading contract:', error);
+      return { success: false, error: 'Failed to load contract', code: 'DATABASE_ERROR' };
+    }
+
+    if (!contract) {
+      return { success: false, error: 'Contract not found', code: 'NOT_FOUND' };
+    }
+
+    if (userRole !== 'admin' && contract.athlete_id !== userId && contract.business_id !== userId) {
+      return { success: false, error: 'You do not have permission to view this contract', code: 'FORBIDDEN' };
+    }
+
+    const [named] = await this.withNames([contract]);
+    return { success: true, contract: named };
+  }
+
+  /**
+   * The contract for an offer, visible to both parties and admins
+   */
+  async getOfferContract(offerId: string, userId: string, userRole: string): Promise<ContractResult> {
+    const { data: contract, error } = await supabase
+      .from('contracts')
+      .select('id')
+      .eq('offer_id', offerId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading offer contract:', error);
+      return { success: false, error: 'Failed to load contract', code: 'DATABASE_ERROR' };
+    }
+
+    if (!contract) {
+      return { success: false, error: 'Contract not found', code: 'NOT_FOUND' };
+    }
+
+    return this.getContract(contract.id, userId, userRole);
+  }
+
+  /**
+   * Download a contract PDF from object storage
+   *
+   * Returns the signed copy, with its signature certificate, once there is one.
+   */
+  async downloadContract(contractId: string, userId: string, userRole: string): Promise<ContractResult> {
+    const result = await this.getContract(contractId, userId, userRole);
+    if (!result.success) {
+      return result;
+    }
+
+    const contract = result.contract;
+    const file = await objectStorage.downloadBuffer(contract.signed_storage_key || contract.storage_key);
+    if (!file) {
+      return { success: false, error: 'Failed to download contract', code: 'STORAGE_ERROR' };
+    }
+
+    const fileName = contract.signed_storage_key ? contract.file_name.replace(/\.pdf$/, '-signed.pdf') : contract.file_name;
+    return { success: true, contract, file, fileName };
+  }
+
+  /**
+   * Gather the offer, parties and deliverables and render the PDF
+   */
+  private async buildDocument(offer: any, template: ContractTemplate, generatedAt: Date): Promise<Buffer> {
+    const [{ data: athlete }, { data: business }, { data: campaign }, { data: deliverables }] = await Promise.all([
+      supabase.from('athlete_profiles').select('name, full_name, school, sport, division').eq('id', offer.athlete_id).maybeSingle(),
+      supabase.from('business_profiles').select('name, company, industry, operatingLocation').eq('id', offer.business_id).maybeSingle(),
+      offer.campaign_id
+        ? supabase.from('campaigns').select('title').eq('id', offer.campaign_id).maybeSingle()
+        : Promise.resolve({ data: null as any }),
+      supabase.from('deliverables').select('type, platform, description, due_date, sequence').eq('offer_id', offer.id).order('sequence', { ascending: true })
+    ]);
+
+    const parsed = compensationSchema.safeParse(offer.compensation);
+    const compensation = parsed.success ? parsed.data : compensationFromLegacy(offer.compensation_type, offer.offer_amount);
+    const currency = compensation?.currency || 'USD';
+    const milestones = paymentMilestonesSchema.safeParse(offer.payment_milestones);
+    const athleteName = athlete?.full_name || athlete?.name || 'the Athlete';
+    const businessName = business?.company || business?.name || 'the Business';
+
+    const inline: Record<string, string> = {
+      'contract.date': formatDate(generatedAt.toISOString()),
+      'athlete.name': athleteName,
+      'athlete.school': text(athlete?.school),
+      'athlete.sport': text(athlete?.sport),
+      'athlete.division': text(athlete?.division),
+      'business.name': businessName,
+      'business.industry': text(business?.industry),
+      'business.location': text(business?.operatingLocation),
+      'campaign.title': campaign?.title || 'Direct partnership',
+      'offer.id': offer.id,
+      'offer.term': text(offer.term),
+      'offer.usage_rights': text(offer.usage_rights),
+      'offer.exclusivity': text(offer.exclusivity),
+      'offer.geographic_restrictions': text(offer.geographic_restrictions),
+      'offer.start_date': formatDate(offer.start_date || offer.responded_at),
+      'offer.end_date': formatDate(offer.end_date),
+      'compensation.summary': compensation ? describeCompensation(compensation) : text(offer.offer_amount),
+      'compensation.cash': formatMoney(compensation ? guaranteedCash(compensation) : Number(offer.offer_amount) || 0, currency),
+      'compensation.schedule': text((compensation?.payment_schedule || offer.payment_schedule || '').replace(/_/g, ' ')),
+      'compensation.bonus': text(offer.bonus_structure)
+    };
+
+    const lists: Record<string, string[]> = {
+      deliverables: (deliverables && deliverables.length > 0 ? deliverables : Array.isArray(offer.deliverables) ? offer.deliverables : [])
+        .map((item: any) => typeof item === 'string'
+          ? item
+          : [
+              `${item.type || 'Post'}${item.platform ? ` on ${item.platform}` : ''}`,
+              item.description,
+              item.due_date ? `due ${formatDate(item.due_date)}` : null
+            ].filter(Boolean).join(' - ')),
+      payment_milestones: milestones.success
+        ? milestones.data.map(milestone => `${milestone.title}: ${formatMoney(milestone.amount, currency)} ${
+            milestone.trigger === 'on_acceptance' ? 'on acceptance'
+              : milestone.trigger === 'deliverable' ? `when deliverable ${milestone.deliverable_sequence} is approved`
+                : milestone.trigger === 'all_deliverables' ? 'when all deliverables are approved'
+                  : 'on approval by the Business'
+          }`)
+        : ['In equal parts as each deliverable is approved']
+    };
+
+    const blocks: PdfBlock[] = [
+      { type: 'title', text: template.title },
+      { type: 'small', text: `Contract for offer ${offer.id} - template version ${template.version}` },
+      { type: 'rule' },
+      ...renderTemplate(template.body, inline, lists),
+      { type: 'heading', text: 'NIL Disclosures' },
+      ...template.nil_clauses.map(clause => ({ type: 'bullet' as const, text: clause })),
+      { type: 'spacer', size: 16 },
+      { type: 'heading', text: 'Parties' },
+      { type: 'field', label: 'Business', value: businessName },
+      { type: 'field', label: 'Athlete', value: athleteName }
+    ];
+
+    return renderPdf(blocks, {
+      title: `${template.title} - ${businessName} and ${athleteName}`,
+      author: businessName,
+      createdAt: generatedAt,
+      footer: `Offer ${offer.id.slice(0, 8)} - template v${template.version}`
+    });
+  }
+
+  /**
+   * Attach brand, athlete and campaign names to contract rows
+   */
+  private async withNames(contracts: any[]): Promise<ContractListItem[]> {
+    const campaignIds = Array.from(new Set(contracts.map(contract => contract.campaign_id).filter(Boolean)));
+    const athleteIds = Array.from(new Set(contracts.map(contract => contract.athlete_id)));
+    const businessIds = Array.from(new Set(contracts.map(contract => contract.business_id)));
+
+    const [{ data: campaigns }, { data: athletes }, { data: businesses }] = await Promise.all([
+      campaignIds.length > 0
+        ? supabase.from('campaigns').select('id, title').in('id', campaignIds)
+        : Promise.resolve({ data: [] as any[] }),
+      athleteIds.length > 0
+        ? supabase.from('athlete_profiles').select('id, name').in('id', athleteIds)
+        : Promise.resolve({ data: [] as any[] }),
+      businessIds.length > 0
+        ? supabase.from('business_profiles').select('id, name, company').in('id', businessIds)
+        : Promise.resolve({ data: [] as any[] })
+    ]);
+
+    return contracts.map(contract => {
+      const business = businesses?.find(candidate => candidate.id === contract.business_id);
+      return {
+        ...contract,
+        brand: business?.company || business?.name || null,
+        athlete: athletes?.find(candidate => candidate.id === contract.athlete_id)?.name || null,
+        campaign: campaigns?.find(candidate => candidate.id === contract.campaign_id)?.title || null
+      };
+    });
+  }
+}
+
+// Create and export singleton instance
+export const contractService = new ContractService();
+export default contractService;
@@ -0,0 +1,801 @@
+/**
+ * Contract Signature Service
+ *
+ * Collects in-app signatures on generated contracts. The business signs
+ * first, then the athlete, then a parent or guardian when the athlete is a
+ * minor; guardians sign through an emailed link instead of an account. Every
+ * action is written to an append-only audit log with the signer's IP address
+ * and user agent. Once every required signature is in, a signature
+ * certificate is appended to the PDF and the offer becomes active.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { supabase } from '../lib/supabase';
+import { objectStorage } from '../objectStorage';
+import { appendPages, PdfBlock } from '../lib/pdf';
+import config from '../config/environment';
+import { emailService } from './emailService';
+import { notificationService } from './notificationService';
+import { guardianConsentService } from './guardianConsentService';
+import {
+  ContractAuditAction,
+  ContractGuardianInput,
+  ContractSignature,
+  ContractSignInput,
+  ContractSigningStatus,
+  SignerRole
+} from '../../shared/schema';
+
+// Order in which parties sign
+const SIGNING_ORDER: Record<SignerRole, number> = {
+  business: 1,
+  athlete: 2,
+  guardian: 3
+};
+
+// How long an emailed guardian signing link stays valid
+const GUARDIAN_LINK_TTL_MS = 14 * 24 * 60 * 60 * 1000;
+
+// Signature columns never sent to clients
+const PRIVATE_SIGNATURE_FIELDS = ['access_token_hash', 'token_expires_at'] as const;
+
+// Where a request came from, recorded with every audit event
+export interface RequestContext {
+  ip?: string | null;
+  userAgent?: string | null;
+}
+
+// Who is acting on a contract
+interface Actor {
+  userId: string | null;
+  role: string;
+  name?: string | null;
+}
+
+// Interface for signature results
+export interface SignatureResult {
+  success: boolean;
+  status?: ContractSigningStatus;
+  signature?: ContractSignature;
+  file?: Buffer;
+  fileName?: string;
+  error?: string;
+  code?: string;
+  message?: string;
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function publicSignature(signature: any): ContractSignature {
+  const copy = { ...signature };
+  PRIVATE_SIGNATURE_FIELDS.forEach(field => delete copy[field]);
+  return copy;
+}
+
+function describeSigner(signature: ContractSignature): string {
+  const role = signature.signer_role === 'guardian' ? 'Parent/Guardian' : signature.signer_role === 'business' ? 'Business' : 'Athlete';
+  return `${role}: ${signature.typed_name || signature.signer_name || 'Unknown'}`;
+}
+
+// Main contract signature service class
+class ContractSignatureService {
+  /**
+   * Set up the signers a contract needs and notify whoever signs first
+   *
+   * Safe to call repeatedly. When the contract has been regenerated since
+   * someone signed, their signature no longer covers the document, so every
+   * signature is cleared and signing starts over.
+   */
+  async requestSignatures(contract: any): Promise<SignatureResult> {
+    try {
+      if (contract.status !== 'generated') {
+        return this.buildStatus(contract);
+      }
+
+      let signatures = await this.loadSignatures(contract.id);
+
+      const stale = signatures.filter(signature => signature.status === 'signed' && signature.document_hash !== contract.content_hash);
+      if (stale.length > 0) {
+        const { error } = await supabase
+          .from('contract_signatures')
+          .update({
+            status: 'pending',
+            method: null,
+            typed_name: null,
+            signature_image: null,
+            signature_hash: null,
+            document_hash: null,
+            ip_address: null,
+            user_agent: null,
+            signed_at: null,
+            invited_at: null,
+            access_token_hash: null,
+            token_expires_at: null,
+            updated_at: new Date().toISOString()
+          })
+          .eq('contract_id', contract.id);
+
+        if (error) {
+          console.error('Error resetting contract signatures:', error);
+          return { success: false, error: 'Failed to reset signatures', code: 'DATABASE_ERROR' };
+        }
+
+        await this.recordEvent(contract, 'signatures_reset', { userId: null, role: 'system' }, {}, {
+          reason: 'Contract regenerated',
+          cleared: stale.map(signature => signature.signer_role)
+        });
+        signatures = await this.loadSignatures(contract.id);
+      }
+
+      const required = await this.requiredSigners(contract);
+      const missing = required.filter(signer => !signatures.some(signature => signature.signer_role === signer.signer_role));
+
+      if (missing.length > 0) {
+        const timestamp = new Date().toISOString();
+        const { error } = await supabase
+          .from('contract_signatures')
+          .insert(missing.map(signer => ({
+            ...signer,
+            contract_id: contract.id,
+            status: 'pending',
+            created_at: timestamp,
+            updated_at: timestamp
+          })));
+
+        if (error) {
+          console.error('Error creating contract signers:', error);
+          return { success: false, error: 'Failed to request signatures', code: 'DATABASE_ERROR' };
+        }
+
+        await this.recordEvent(contract, 'signatures_requested', { userId: null, role: 'system' }, {}, {
+          signers: missing.map(signer => signer.signer_role)
+        });
+        signatures = await this.loadSignatures(contract.id);
+      }
+
+      if (missing.length > 0 || stale.length > 0) {
+        await this.notifyNextSigner(contract, signatures);
+      }
+
+      return this.buildStatus(contract, signatures);
+    } catch (error: any) {
+      console.error('Request signatures exception:', error);
+      return { success: false, error: error.message || 'Failed to request signatures', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Signature progress and audit trail for a contract (parties and admins)
+   */
+  async getSigningStatus(contractId: string, userId: string, userRole: string): Promise<SignatureResult> {
+    const loaded = await this.loadContractForParty(contractId, userId, userRole);
+    if (!loaded.success) {
+      return loaded;
+    }
+
+    return this.requestSignatures(loaded.contract);
+  }
+
+  /**
+   * Sign as the business or athlete on the contract
+   */
+  async sign(
+    contractId: string,
+    userId: string,
+    userRole: string,
+    input: ContractSignInput,
+    context: RequestContext
+  ): Promise<SignatureResult> {
+    const loaded = await this.loadContractForParty(contractId, userId, userRole);
+    if (!loaded.success) {
+      return loaded;
+    }
+
+    const contract = loaded.contract;
+    const role: SignerRole | null = contract.business_id === userId ? 'business' : contract.athlete_id === userId ? 'athlete' : null;
+    if (!role) {
+      return { success: false, error: 'Only the parties to this contract can sign it', code: 'FORBIDDEN' };
+    }
+
+    const prepared = await this.requestSignatures(contract);
+    if (!prepared.success) {
+      return prepared;
+    }
+
+    const signature = prepared.status!.signers.find(signer => signer.signer_role === role);
+    if (!signature) {
+      return { success: false, error: 'No signature is required from you', code: 'INVALID_OPERATION' };
+    }
+
+    return this.applySignature(contract, signature, { userId, role }, input, context);
+  }
+
+  /**
+   * Name the parent or guardian who co-signs for a minor and email them a signing link (athlete)
+   *
+   * Once a guardian has approved the athlete's consent, only that guardian
+   * can co-sign; naming anyone else is refused.
+   */
+  async setGuardian(
+    contractId: string,
+    athleteId: string,
+    input: ContractGuardianInput,
+    context: RequestContext
+  ): Promise<SignatureResult> {
+    const loaded = await this.loadContractForParty(contractId, athleteId, 'athlete');
+    if (!loaded.success) {
+      return loaded;
+    }
+
+    const contract = loaded.contract;
+    if (contract.athlete_id !== athleteId) {
+      return { success: false, error: 'Only the athlete can name a guardian', code: 'FORBIDDEN' };
+    }
+
+    const prepared = await this.requestSignatures(contract);
+    if (!prepared.success) {
+      return prepared;
+    }
+
+    const guardian = prepared.status!.signers.find(signer => signer.signer_role === 'guardian');
+    if (!guardian) {
+      return { success: false, error: 'This contract does not need a guardian signature', code: 'INVALID_OPERATION' };
+    }
+
+    if (guardian.status === 'signed') {
+      return { success: false, error: 'The guardian has already signed', code: 'INVALID_OPERATION' };
+    }
+
+    // The verified guardian's details win over whatever the athlete typed
+    const approved = await guardianConsentService.getApprovedGuardian(athleteId);
+    if (approved && approved.email !== input.email.toLowerCase()) {
+      return {
+        success: false,
+        error: `${approved.name}, your approved guardian, must co-sign this contract. Change your guardian consent to name someone else.`,
+        code: 'INVALID_OPERATION'
+      };
+    }
+
+    const name = approved?.name || input.name;
+    const email = approved?.email || input.email.toLowerCase();
+
+    const { error } = await supabase
+      .from('contract_signatures')
+      .update({ signer_name: name, signer_email: email, updated_at: new Date().toISOString() })
+      .eq('id', guardian.id)
+      .eq('status', 'pending');
+
+    if (error) {
+      console.error('Error saving contract guardian:', error);
+      return { success: false, error: 'Failed to save guardian', code: 'DATABASE_ERROR' };
+    }
+
+    await this.recordEvent(contract, 'guardian_invited', { userId: athleteId, role: 'athlete' }, context, {
+      guardian_name: name,
+      guardian_email: email
+    }, guardian.id);
+
+    const signatures = await this.loadSignatures(contract.id);
+    await this.notifyNextSigner(contract, signatures);
+
+    return this.buildStatus(contract, signatures);
+  }
+
+  /**
+   * Contract and signers for a guardian signing link
+   */
+  async getGuardianSigning(token: string, context: RequestContext): Promise<SignatureResult> {
+    const loaded = await this.loadGuardianLink(token);
+    if (!loaded.success) {
+      return loaded;
+    }
+
+    await this.recordEvent(loaded.contract, 'viewed', { userId: null, role: 'guardian', name: loaded.signature.signer_name }, context, {}, loaded.signature.id);
+    const status = await this.buildStatus(loaded.contract);
+
+    // Guardians see who has signed, not the full audit trail
+    return status.success ? { ...status, status: { ...status.status!, audit: [] } } : status;
+  }
+
+  /**
+   * The contract PDF for a guardian signing link
+   */
+  async downloadForGuardian(token: string): Promise<SignatureResult> {
+    const loaded = await this.loadGuardianLink(token);
+    if (!loaded.success) {
+      return loaded;
+    }
+
+    const file = await objectStorage.downloadBuffer(loaded.contract.signed_storage_key || loaded.contract.storage_key);
+    if (!file) {
+      return { success: false, error: 'Failed to download contract', code: 'STORAGE_ERROR' };
+    }
+
+    return { success: true, file, fileName: loaded.contract.file_name };
+  }
+
+  /**
+   * Sign as the guardian through an emailed link
+   */
+  async signAsGuardian(token: string, input: ContractSignInput, context: RequestContext): Promise<SignatureResult> {
+    const loaded = await this.loadGuardianLink(token);
+    if (!loaded.success) {
+      return loaded;
+    }
+
+    return this.applySignature(loaded.contract, loaded.signature, {
+      userId: null,
+      role: 'guardian',
+      name: loaded.signature.signer_name
+    }, input, context);
+  }
+
+  /**
+   * Log that a party opened or downloaded the contract
+   */
+  async recordView(contract: any, userId: string, userRole: string, context: RequestContext): Promise<void> {
+    await this.recordEvent(contract, 'viewed', { userId, role: userRole }, context);
+  }
+
+  /**
+   * Record a signature after checking it's this signer's turn
+   */
+  private async applySignature(
+    contract: any,
+    signature: ContractSignature,
+    actor: Actor,
+    input: ContractSignInput,
+    context: RequestContext
+  ): Promise<SignatureResult> {
+    try {
+      if (contract.status !== 'generated') {
+        return { success: false, error: `This contract is already ${contract.status}`, code: 'INVALID_OPERATION' };
+      }
+
+      if (signature.status === 'signed') {
+        return { success: false, error: 'You have already signed this contract', code: 'INVALID_OPERATION' };
+      }
+
+      const signatures = await this.loadSignatures(contract.id);
+      const waitingOn = signatures.find(other => other.signing_order < signature.signing_order && other.status !== 'signed');
+      if (waitingOn) {
+        return {
+          success: false,
+          error: `The ${waitingOn.signer_role} must sign before you`,
+          code: 'OUT_OF_ORDER'
+        };
+      }
+
+      const signedAt = new Date().toISOString();
+      const signatureHash = createHash('sha256')
+        .update(JSON.stringify({
+          contract_id: contract.id,
+          document_hash: contract.content_hash,
+          signer_role: signature.signer_role,
+          method: input.method,
+          typed_name: input.typed_name,
+          image_hash: input.signature_image ? hashToken(input.signature_image) : null,
+          signed_at: signedAt
+        }))
+        .digest('hex');
+
+      const { data: signed, error } = await supabase
+        .from('contract_signatures')
+        .update({
+          status: 'signed',
+          method: input.method,
+          typed_name: input.typed_name,
+          signature_image: input.method === 'drawn' ? input.signature_image : null,
+          signature_hash: signatureHash,
+          document_hash: contract.content_hash,
+          ip_address: context.ip || null,
+          user_agent: context.userAgent || null,
+          signed_at: signedAt,
+          access_token_hash: null,
+          token_expires_at: null,
+          updated_at: signedAt
+        })
+        .eq('id', signature.id)
+        .eq('status', 'pending')
+        .select()
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error saving contract signature:', error);
+        return { success: false, error: 'Failed to save signature', code: 'DATABASE_ERROR' };
+      }
+
+      if (!signed) {
+        return { success: false, error: 'This signature was already recorded', code: 'INVALID_OPERATION' };
+      }
+
+      await this.recordEvent(contract, 'signed', { ...actor, name: input.typed_name }, context, {
+        method: input.method,
+        signature_hash: signatureHash
+      }, signature.id);
+
+      const updated = await this.loadSignatures(contract.id);
+      if (updated.every(other => other.status === 'signed')) {
+        const completed = await this.complete(contract, updated);
+        if (!completed.success) {
+          return completed;
+        }
+        return { ...completed, signature: publicSignature(signed), message: 'Contract fully signed' };
+      }
+
+      await this.notifyNextSigner(contract, updated);
+      const status = await this.buildStatus(contract, updated);
+      return { ...status, signature: publicSignature(signed), message: 'Signature recorded' };
+    } catch (error: any) {
+      console.error('Apply signature exception:', error);
+      return { success: false, error: error.message || 'Failed to sign contract', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Append the signature certificate, mark the contract signed and activate the offer
+   */
+  private async complete(contract: any, signatures: ContractSignature[]): Promise<SignatureResult> {
+    const original = await objectStorage.downloadBuffer(contract.storage_key);
+    if (!original) {
+      return { success: false, error: 'Failed to load contract for signing', code: 'STORAGE_ERROR' };
+    }
+
+    const completedAt = new Date();
+    const signedFile = appendPages(original, this.certificateBlocks(contract, signatures, completedAt), {
+      footer: `Signature certificate - contract ${contract.id.slice(0, 8)}`
+    });
+    const signedHash = createHash('sha256').update(signedFile).digest('hex');
+    const signedKey = `contracts/${contract.offer_id}/signed-${signedHash.slice(0, 12)}.pdf`;
+
+    const uploaded = await objectStorage.uploadBuffer(signedKey, signedFile);
+    if (!uploaded) {
+      return { success: false, error: 'Failed to store signed contract', code: 'STORAGE_ERROR' };
+    }
+
+    const { data: updated, error } = await supabase
+      .from('contracts')
+      .update({
+        status: 'signed',
+        signed_storage_key: signedKey,
+        signed_hash: signedHash,
+        signed_at: completedAt.toISOString(),
+        updated_at: completedAt.toISOString()
+      })
+      .eq('id', contract.id)
+      .eq('status', 'generated')
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error completing contract:', error);
+      return { success: false, error: 'Failed to complete contract', code: 'DATABASE_ERROR' };
+    }
+
+    if (!updated) {
+      // Another request completed it first
+      return this.buildStatus({ ...contract, status: 'signed' }, signatures);
+    }
+
+    const { error: offerError } = await supabase
+      .from('partnership_offers')
+      .update({ status: 'active', updated_at: completedAt.toISOString() })
+      .eq('id', contract.offer_id)
+      .eq('status', 'accepted');
+
+    if (offerError) {
+      console.error('Error activating offer after signing:', offerError);
+    }
+
+    await this.recordEvent(updated, 'completed', { userId: null, role: 'system' }, {}, {
+      signed_hash: signedHash,
+      signers: signatures.map(signature => signature.signer_role)
+    });
+
+    for (const partyId of [contract.athlete_id, contract.business_id]) {
+      await notificationService.notify(partyId, {
+        type: 'CONTRACT_SIGNED',
+        title: 'Contract Signed',
+        content: 'Everyone has signed the contract and your partnership is now active',
+        referenceType: 'CONTRACT',
+        referenceId: contract.id,
+        data: { contractId: contract.id, offerId: contract.offer_id }
+      });
+    }
+
+    const guardian = signatures.find(signature => signature.signer_role === 'guardian');
+    if (guardian?.signer_email) {
+      await emailService.send({
+        to: guardian.signer_email,
+        subject: 'The partnership contract has been signed',
+        text: `Everyone has signed the partnership contract you co-signed. The signed copy is available to the athlete in their Contested dashboard.\n\nDocument SHA-256: ${signedHash}`
+      });
+    }
+
+    return this.buildStatus(updated, signatures);
+  }
+
+  /**
+   * The certificate page listing each signature and the document hash it covers
+   */
+  private certificateBlocks(contract: any, signatures: ContractSignature[], completedAt: Date): PdfBlock[] {
+    const blocks: PdfBlock[] = [
+      { type: 'title', text: 'Signature Certificate' },
+      { type: 'small', text: 'This page was added after the last signature. Every signature below was applied to the document identified by the SHA-256 hash shown, which is the hash of the contract pages before this certificate.' },
+      { type: 'rule' },
+      { type: 'field', label: 'Contract ID', value: contract.id },
+      { type: 'field', label: 'Offer ID', value: contract.offer_id },
+      { type: 'field', label: 'Template version', value: String(contract.template_version) },
+      { type: 'field', label: 'Document SHA-256', value: contract.content_hash },
+      { type: 'field', label: 'Completed', value: completedAt.toISOString() }
+    ];
+
+    for (const signature of [...signatures].sort((a, b) => a.signing_order - b.signing_order)) {
+      blocks.push(
+        { type: 'spacer', size: 8 },
+        { type: 'heading', text: describeSigner(signature) },
+        { type: 'field', label: 'Signature', value: signature.method === 'drawn' ? `Drawn (typed name: ${signature.typed_name})` : `/${signature.typed_name}/` }
+      );
+      if (signature.signer_email) {
+        blocks.push({ type: 'field', label: 'Email', value: signature.signer_email });
+      }
+      blocks.push(
+        { type: 'field', label: 'Signed at', value: signature.signed_at || 'Unknown' },
+        { type: 'field', label: 'IP address', value: signature.ip_address || 'Unknown' },
+        { type: 'field', label: 'User agent', value: signature.user_agent || 'Unknown' },
+        { type: 'field', label: 'Document SHA-256', value: signature.document_hash || 'Unknown' },
+        { type: 'field', label: 'Signature SHA-256', value: signature.signature_hash || 'Unknown' }
+      );
+    }
+
+    return blocks;
+  }
+
+  /**
+   * Signers the contract needs: both parties, plus a guardian for minors
+   *
+   * A guardian who has already approved the athlete's account is asked to
+   * sign without the athlete having to name them again.
+   */
+  private async requiredSigners(contract: any): Promise<Array<Partial<ContractSignature> & { signer_role: SignerRole }>> {
+    const [{ data: athlete }, { data: business }, { data: users }, { isMinor }] = await Promise.all([
+      supabase.from('athlete_profiles').select('name, full_name').eq('id', contract.athlete_id).maybeSingle(),
+      supabase.from('business_profiles').select('name, company').eq('id', contract.business_id).maybeSingle(),
+      supabase.from('users').select('id, email').in('id', [contract.athlete_id, contract.business_id]),
+      guardianConsentService.getAthleteAge(contract.athlete_id)
+    ]);
+
+    const emailOf = (id: string) => users?.find(user => user.id === id)?.email || null;
+    const signers: Array<Partial<ContractSignature> & { signer_role: SignerRole }> = [
+      {
+        signer_role: 'business',
+        signing_order: SIGNING_ORDER.business,
+        signer_user_id: contract.business_id,
+        signer_name: business?.company || business?.name || null,
+        signer_email: emailOf(contract.business_id)
+      },
+      {
+        signer_role: 'athlete',
+        signing_order: SIGNING_ORDER.athlete,
+        signer_user_id: contract.athlete_id,
+        signer_name: athlete?.full_name || athlete?.name || null,
+        signer_email: emailOf(contract.athlete_id)
+      }
+    ];
+
+    if (isMinor) {
+      const guardian = await guardianConsentService.getApprovedGuardian(contract.athlete_id);
+      signers.push({
+        signer_role: 'guardian',
+        signing_order: SIGNING_ORDER.guardian,
+        signer_user_id: null,
+        signer_name: guardian?.name || null,
+        signer_email: guardian?.email || null
+      });
+    }
+
+    return signers;
+  }
+
+  /**
+   * Tell the next signer it's their turn
+   *
+   * Guardians get an email with a fresh signing link; earlier links stop working.
+   */
+  private async notifyNextSigner(contract: any, signatures: ContractSignature[]): Promise<void> {
+    const next = signatures.find(signature => signature.status !== 'signed');
+    if (!next) {
+      return;
+    }
+
+    if (next.signer_role !== 'guardian') {
+      await notificationService.notify(next.signer_user_id!, {
+        type: 'CONTRACT_SIGNATURE_REQUESTED',
+        title: 'Contract Ready to Sign',
+        content: 'It\'s your turn to sign the partnership contract',
+        referenceType: 'CONTRACT',
+        referenceId: contract.id,
+        data: { contractId: contract.id, offerId: contract.offer_id }
+      });
+      return;
+    }
+
+    if (!next.signer_email) {
+      await notificationService.notify(contract.athlete_id, {
+        type: 'CONTRACT_GUARDIAN_REQUIRED',
+        title: 'Guardian Signature Needed',
+        content: 'Because you are under 18, a parent or guardian must also sign your contract. Add their name and email to send them a signing link.',
+        referenceType: 'CONTRACT',
+        referenceId: contract.id,
+        data: { contractId: contract.id, offerId: contract.offer_id }
+      });
+      return;
+    }
+
+    const token = randomBytes(32).toString('hex');
+    const now = new Date();
+    const { error } = await supabase
+      .from('contract_signatures')
+      .update({
+        access_token_hash: hashToken(token),
+        token_expires_at: new Date(now.getTime() + GUARDIAN_LINK_TTL_MS).toISOString(),
+        invited_at: now.toISOString(),
+        updated_at: now.toISOString()
+      })
+      .eq('id', next.id);
+
+    if (error) {
+      console.error('Error creating guardian signing link:', error);
+      return;
+    }
+
+    const result = await emailService.send({
+      to: next.signer_email,
+      subject: 'Please co-sign a partnership contract on Contested',
+      text: [
+        `Hello ${next.signer_name || ''},`.trim(),
+        '',
+        'A student-athlete has named you as their parent or guardian on a name, image and likeness (NIL) partnership contract. Because they are under 18, the contract needs your signature before it takes effect.',
+        '',
+        `Review and sign it here: ${config.SERVER_URL || ''}/contracts/guardian/${token}`,
+        '',
+        'This link expires in 14 days. If you were not expecting this email you can ignore it.'
+      ].join('\n')
+    });
+
+    if (!result.success) {
+      console.error('Failed to email guardian signing link:', result.error);
+    }
+  }
+
+  /**
+   * Append an event to the contract's audit log
+   */
+  private async recordEvent(
+    contract: any,
+    action: ContractAuditAction,
+    actor: Actor,
+    context: RequestContext = {},
+    details: Record<string, any> = {},
+    signatureId: string | null = null
+  ): Promise<void> {
+    const { error } = await supabase
+      .from('contract_audit_events')
+      .insert({
+        contract_id: contract.id,
+        signature_id: signatureId,
+        action,
+        actor_user_id: actor.userId,
+        actor_role: actor.role,
+        actor_name: actor.name || null,
+        ip_address: context.ip || null,
+        user_agent: context.userAgent || null,
+        document_hash: contract.content_hash,
+        details,
+        created_at: new Date().toISOString()
+      });
+
+    if (error) {
+      console.error('Error recording contract audit event:', error);
+    }
+  }
+
+  private async loadSignatures(contractId: string): Promise<ContractSignature[]> {
+    const { data, error } = await supabase
+      .from('contract_signatures')
+      .select('*')
+      .eq('contract_id', contractId)
+      .order('signing_order', { ascending: true });
+
+    if (error) {
+      console.error('Error loading contract signatures:', error);
+      throw new Error('Failed to load contract signatures');
+    }
+
+    return data || [];
+  }
+
+  private async buildStatus(contract: any, signatures?: ContractSignature[]): Promise<SignatureResult> {
+    const signers = signatures || await this.loadSignatures(contract.id);
+    const { data: audit, error } = await supabase
+      .from('contract_audit_events')
+      .select('*')
+      .eq('contract_id', contract.id)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error loading contract audit log:', error);
+      return { success: false, error: 'Failed to load contract audit log', code: 'DATABASE_ERROR' };
+    }
+
+    return {
+      success: true,
+      status: {
+        contract,
+        signers: signers.map(publicSignature),
+        next_signer: contract.status === 'generated' ? signers.find(signature => signature.status !== 'signed')?.signer_role || null : null,
+        guardian_required: signers.some(signature => signature.signer_role === 'guardian'),
+        audit: audit || []
+      }
+    };
+  }
+
+  private async loadContractForParty(contractId: string, userId: string, userRole: string): Promise<SignatureResult & { contract?: any }> {
+    const { data: contract, error } = await supabase
+      .from('contracts')
+      .select('*')
+      .eq('id', contractId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading contract:', error);
+      return { success: false, error: 'Failed to load contract', code: 'DATABASE_ERROR' };
+    }
+
+    if (!contract) {
+      return { success: false, error: 'Contract not found', code: 'NOT_FOUND' };
+    }
+
+    if (userRole !== 'admin' && contract.athlete_id !== userId && contract.business_id !== userId) {
+      return { success: false, error: 'You do not have permission to view this contract', code: 'FORBIDDEN' };
+    }
+
+    return { success: true, contract };
+  }
+
+  private async loadGuardianLink(token: string): Promise<SignatureResult & { contract?: any; signature?: any }> {
+    const { data: signature, error } = await supabase
+      .from('contract_signatures')
+      .select('*')
+      .eq('access_token_hash', hashToken(token))
+      .eq('signer_role', 'guardian')
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading guardian signing link:', error);
+      return { success: false, error: 'Failed to load signing link', code: 'DATABASE_ERROR' };
+    }
+
+    if (!signature || !signature.token_expires_at || new Date(signature.token_expires_at) < new Date()) {
+      return { success: false, error: 'This signing link is invalid or has expired', code: 'INVALID_LINK' };
+    }
+
+    const { data: contract } = await supabase
+      .from('contracts')
+      .select('*')
+      .eq('id', signature.contract_id)
+      .maybeSingle();
+
+    if (!contract) {
+      return { success: false, error: 'Contract not found', code: 'NOT_FOUND' };
+    }
+
+    return { success: true, contract, signature };
+  }
+}
+
+// Create and export singleton instance
+export const contractSignatureService = new ContractSignatureService();
+export default contractSignatureService;
@@ -0,0 +1,614 @@
+/**
+ * Deliverable Service
+ *
+ * Breaks accepted partnership offers into individual deliverable instances
+ * with due dates, and manages proof-of-post submission and business review.
+ */
+
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { supabase } from '../lib/supabase';
+import { objectStorage } from '../objectStorage';
+import { notificationService } from './notificationService';
+import { payoutService } from './payoutService';
+import { Deliverable, DeliverableStatus } from '../../shared/schema';
+
+// Default length of a partnership when the offer has no end date
+const DEFAULT_TERM_DAYS = 30;
+
+// Deliverables due within this many days are flagged as due soon
+const DUE_SOON_DAYS = 3;
+
+// Deliverable template as stored on offers and campaigns by the pro wizard
+export interface DeliverableItem {
+  type: string;
+  platform?: string;
+  description?: string;
+  quantity?: number;
+  hashtags?: string[];
+  due_date?: string;
+}
+
+// Uploaded screenshot attached to a submission
+export interface ScreenshotUpload {
+  buffer: Buffer;
+  originalName: string;
+}
+
+// Interface for deliverable results
+export interface DeliverableResult {
+  success: boolean;
+  deliverable?: any;
+  deliverables?: any[];
+  submission?: any;
+  summary?: DeliverableSummary;
+  file?: Buffer;
+  fileName?: string;
+  error?: string;
+  code?: string;
+  message?: string;
+}
+
+// Counts shown on the dashboard cards
+export interface DeliverableSummary {
+  upcoming: number;
+  dueSoon: number;
+  overdue: number;
+  awaitingReview: number;
+  changesRequested: number;
+  approved: number;
+}
+
+/**
+ * Expand deliverable templates into dated instances
+ *
+ * Each template is repeated `quantity` times. Instances without an explicit
+ * due date are spread evenly across the partnership window.
+ */
+export function scheduleDeliverables(
+  items: DeliverableItem[],
+  startDate: Date,
+  endDate: Date
+): Array<Omit<DeliverableItem, 'quantity' | 'due_date'> & { sequence: number; due_date: string }> {
+  const expanded: Array<DeliverableItem & { due_date?: string }> = [];
+
+  for (const item of items) {
+    const quantity = Math.max(1, Math.floor(Number(item.quantity) || 1));
+    for (let i = 0; i < quantity; i++) {
+      expanded.push({ ...item });
+    }
+  }
+
+  const windowMs = Math.max(0, endDate.getTime() - startDate.getTime());
+  const step = expanded.length > 0 ? windowMs / expanded.length : 0;
+
+  return expanded.map((item, index) => {
+    const dueDate = item.due_date
+      ? new Date(item.due_date)
+      : new Date(startDate.getTime() + step * (index + 1));
+
+    return {
+      type: item.type,
+      platform: item.platform,
+      description: item.description,
+      hashtags: item.hashtags,
+      sequence: index + 1,
+      due_date: dueDate.toISOString()
+    };
+  });
+}
+
+/**
+ * Normalize offer/campaign deliverables into templates
+ *
+ * Offers created outside the wizard may store deliverables as plain strings.
+ */
+function toDeliverableItems(raw: unknown): DeliverableItem[] {
+  if (!Array.isArray(raw)) {
+    if (typeof raw === 'string' && raw.trim()) {
+      return raw.split(',').map(entry => ({ type: 'post', description: entry.trim() }));
+    }
+    return [];
+  }
+
+  return raw
+    .map((entry: any) => typeof entry === 'string'
+      ? { type: 'post', description: entry }
+      : { ...entry, type: entry?.type || 'post' })
+    .filter(entry => entry.description || entry.type);
+}
+
+// Main deliverable service class
+class DeliverableService {
+  /**
+   * Create deliverable instances for an accepted offer
+   *
+   * Safe to call more than once - existing instances are left untouched.
+   */
+  async createFromOffer(offer: any): Promise<DeliverableResult> {
+    try {
+      if (!offer?.id) {
+        return { success: false, error: 'Offer is required', code: 'INVALID_INPUT' };
+      }
+
+      const { data: existing } = await supabase
+        .from('deliverables')
+        .select('id')
+        .eq('offer_id', offer.id)
+        .limit(1);
+
+      if (existing && existing.length > 0) {
+        return { success: true, deliverables: [], message: 'Deliverables already created' };
+      }
+
+      let items = toDeliverableItems(offer.deliverables);
+      let hashtags: string[] = [];
+
+      // Fall back to the campaign's wizard deliverables and pick up its hashtag requirements
+      if (offer.campaign_id) {
+        const { data: campaign } = await supabase
+          .from('campaigns')
+          .select('deliverables, hashtag_requirements, end_date')
+          .eq('id', offer.campaign_id)
+          .maybeSingle();
+
+        if (campaign) {
+          if (items.length === 0) {
+            items = toDeliverableItems(campaign.deliverables);
+          }
+          hashtags = campaign.hashtag_requirements || [];
+          offer = { ...offer, end_date: offer.end_date || campaign.end_date };
+        }
+      }
+
+      if (items.length === 0) {
+        return { success: true, deliverables: [], message: 'Offer has no deliverables' };
+      }
+
+      const startDate = offer.start_date ? new Date(offer.start_date) : new Date();
+      const endDate = offer.end_date
+        ? new Date(offer.end_date)
+        : new Date(startDate.getTime() + DEFAULT_TERM_DAYS * 24 * 60 * 60 * 1000);
+
+      const rows = scheduleDeliverables(items, startDate, endDate).map(instance => ({
+        offer_id: offer.id,
+        campaign_id: offer.campaign_id || null,
+        athlete_id: offer.athlete_id,
+        business_id: offer.business_id,
+        type: instance.type,
+        platform: instance.platform || null,
+        description: instance.description || null,
+        hashtags: instance.hashtags && instance.hashtags.length > 0 ? instance.hashtags : hashtags,
+        sequence: instance.sequence,
+        due_date: instance.due_date,
+        status: 'pending',
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      }));
+
+      const { data, error } = await supabase
+        .from('deliverables')
+        .insert(rows)
+        .select();
+
+      if (error) {
+        console.error('Error creating deliverables:', error);
+        return { success: false, error: 'Failed to create deliverables', code: 'DATABASE_ERROR' };
+      }
+
+      return {
+        success: true,
+        deliverables: data || [],
+        message: `Created ${data?.length || 0} deliverables`
+      };
+    } catch (error: any) {
+      console.error('Create deliverables exception:', error);
+      return { success: false, error: error.message || 'Failed to create deliverables', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Get deliverables for the current user with dashboard summary counts
+   */
+  async getUserDeliverables(
+    userId: string,
+    userRole: string,
+    filters: { status?: string; offerId?: string; campaignId?: string } = {}
+  ): Promise<DeliverableResult> {
+    try {
+      const ownerColumn = userRole === 'business' ? 'business_id' : 'athlete_id';
+
+      let query = supabase
+        .from('deliverables')
+        .select(`
+          *,
+          offer:offer_id(id, status, offer_amount),
+          campaign:campaign_id(id, title)
+        `)
+        .eq(ownerColumn, userId);
+
+      if (filters.status) {
+        query = query.eq('status', filters.status);
+      }
+      if (filters.offerId) {
+        query = query.eq('offer_id', filters.offerId);
+      }
+      if (filters.campaignId) {
+        query = query.eq('campaign_id', filters.campaignId);
+      }
+
+      const { data, error } = await query.order('due_date', { ascending: true });
+
+      if (error) {
+        console.error('Error getting deliverables:', error);
+        return { success: false, error: 'Failed to get deliverables', code: 'DATABASE_ERROR' };
+      }
+
+      return {
+        success: true,
+        deliverables: data || [],
+        summary: this.summarize(data || [])
+      };
+    } catch (error: any) {
+      console.error('Get deliverables exception:', error);
+      return { success: false, error: error.message || 'Failed to get deliverables', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Get a single deliverable with its submission history
+   */
+  async getDeliverable(deliverableId: string, userId: string, userRole: string): Promise<DeliverableResult> {
+    try {
+      const result = await this.getDeliverableForParty(deliverableId, userId, userRole);
+      if (!result.success) {
+        return result;
+      }
+
+      const { data: submissions } = await supabase
+        .from('deliverable_submissions')
+        .select('*')
+        .eq('deliverable_id', deliverableId)
+        .order('created_at', { ascending: false });
+
+      return {
+        success: true,
+        deliverable: {
+          ...result.deliverable,
+          submissions: submissions || []
+        }
+      };
+    } catch (error: any) {
+      console.error('Get deliverable exception:', error);
+      return { success: false, error: error.message || 'Failed to get deliverable', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Submit proof-of-post for a deliverable (athlete)
+   */
+  async submitProof(
+    deliverableId: string,
+    athleteId: string,
+    proof: { proof_url: string; notes?: string },
+    screenshot?: ScreenshotUpload
+  ): Promise<DeliverableResult> {
+    try {
+      const result = await this.getDeliverableForParty(deliverableId, athleteId, 'athlete');
+      if (!result.success) {
+        return result;
+      }
+
+      const deliverable = result.deliverable;
+
+      if (!['pending', 'changes_requested'].includes(deliverable.status)) {
+        return {
+          success: false,
+          error: `Cannot submit proof for a deliverable that is ${deliverable.status}`,
+          code: 'INVALID_OPERATION'
+        };
+      }
+
+      // Store the screenshot in object storage before recording the submission
+      let screenshotKey: string | null = null;
+      if (screenshot) {
+        const ext = path.extname(screenshot.originalName).toLowerCase() || '.png';
+        screenshotKey = `deliverables/${deliverableId}/${uuidv4()}${ext}`;
+
+        const uploaded = await objectStorage.uploadBuffer(screenshotKey, screenshot.buffer);
+        if (!uploaded) {
+          return { success: false, error: 'Failed to upload screenshot', code: 'STORAGE_ERROR' };
+        }
+      }
+
+      const { data: submission, error } = await supabase
+        .from('deliverable_submissions')
+        .insert({
+          deliverable_id: deliverableId,
+          submitted_by: athleteId,
+          proof_url: proof.proof_url,
+          screenshot_key: screenshotKey,
+          notes: proof.notes || null,
+          review_status: 'pending',
+          created_at: new Date().toISOString()
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error storing deliverable submission:', error);
+        return { success: false, error: 'Failed to store submission', code: 'DATABASE_ERROR' };
+      }
+
+      const updated = await this.updateStatus(deliverableId, 'submitted', {
+        submitted_at: new Date().toISOString()
+      });
+
+      await this.notify(deliverable.business_id, {
+        type: 'DELIVERABLE_SUBMITTED',
+        title: 'Deliverable Submitted',
+        content: `An athlete has submitted proof for "${deliverable.description || deliverable.type}"`,
+        deliverableId
+      });
+
+      return {
+        success: true,
+        deliverable: updated,
+        submission,
+        message: 'Proof submitted successfully'
+      };
+    } catch (error: any) {
+      console.error('Submit deliverable proof exception:', error);
+      return { success: false, error: error.message || 'Failed to submit proof', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Approve the latest submission or request changes (business)
+   */
+  async reviewSubmission(
+    deliverableId: string,
+    businessId: string,
+    decision: 'approved' | 'changes_requested',
+    notes?: string
+  ): Promise<DeliverableResult> {
+    try {
+      const result = await this.getDeliverableForParty(deliverableId, businessId, 'business');
+      if (!result.success) {
+        return result;
+      }
+
+      const deliverable = result.deliverable;
+
+      if (deliverable.status !== 'submitted') {
+        return {
+          success: false,
+          error: 'There is no submission awaiting review',
+          code: 'INVALID_OPERATION'
+        };
+      }
+
+      const { data: latest } = await supabase
+        .from('deliverable_submissions')
+        .select('id')
+        .eq('deliverable_id', deliverableId)
+        .eq('review_status', 'pending')
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (!latest) {
+        return { success: false, error: 'Submission not found', code: 'NOT_FOUND' };
+      }
+
+      const { data: submission, error } = await supabase
+        .from('deliverable_submissions')
+        .update({
+          review_status: decision,
+          reviewer_id: businessId,
+          review_notes: notes || null,
+          reviewed_at: new Date().toISOString()
+        })
+        .eq('id', latest.id)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error reviewing deliverable submission:', error);
+        return { success: false, error: 'Failed to review submission', code: 'DATABASE_ERROR' };
+      }
+
+      const updated = await this.updateStatus(
+        deliverableId,
+        decision,
+        decision === 'approved' ? { approved_at: new Date().toISOString() } : {}
+      );
+
+      // Approved work releases its share of the offer's escrow to the athlete
+      if (decision === 'approved') {
+        const releaseResult = await payoutService.releaseForDeliverable(deliverable);
+        if (!releaseResult.success) {
+          console.error('Failed to release escrow for deliverable:', releaseResult.error);
+        }
+      }
+
+      await this.notify(deliverable.athlete_id, {
+        type: decision === 'approved' ? 'DELIVERABLE_APPROVED' : 'DELIVERABLE_CHANGES_REQUESTED',
+        title: decision === 'approved' ? 'Deliverable Approved' : 'Changes Requested',
+        content: decision === 'approved'
+          ? `Your submission for "${deliverable.description || deliverable.type}" was approved`
+          : `Changes were requested for "${deliverable.description || deliverable.type}"${notes ? ': ' + notes : ''}`,
+        deliverableId
+      });
+
+      return {
+        success: true,
+        deliverable: updated,
+        submission,
+        message: decision === 'approved' ? 'Deliverable approved' : 'Changes requested'
+      };
+    } catch (error: any) {
+      console.error('Review deliverable exception:', error);
+      return { success: false, error: error.message || 'Failed to review submission', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Download the screenshot attached to a submission
+   */
+  async getScreenshot(
+    deliverableId: string,
+    submissionId: string,
+    userId: string,
+    userRole: string
+  ): Promise<DeliverableResult> {
+    try {
+      const result = await this.getDeliverableForParty(deliverableId, userId, userRole);
+      if (!result.success) {
+        return result;
+      }
+
+      const { data: submission } = await supabase
+        .from('deliverable_submissions')
+        .select('screenshot_key')
+        .eq('id', submissionId)
+        .eq('deliverable_id', deliverableId)
+        .maybeSingle();
+
+      if (!submission?.screenshot_key) {
+        return { success: false, error: 'Screenshot not found', code: 'NOT_FOUND' };
+      }
+
+      const file = await objectStorage.downloadBuffer(submission.screenshot_key);
+      if (!file) {
+        return { success: false, error: 'Failed to download screenshot', code: 'STORAGE_ERROR' };
+      }
+
+      return {
+        success: true,
+        file,
+        fileName: path.basename(submission.screenshot_key)
+      };
+    } catch (error: any) {
+      console.error('Get deliverable screenshot exception:', error);
+      return { success: false, error: error.message || 'Failed to get screenshot', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Count deliverables by dashboard bucket
+   */
+  summarize(deliverables: Deliverable[]): DeliverableSummary {
+    const now = Date.now();
+    const dueSoonMs = DUE_SOON_DAYS * 24 * 60 * 60 * 1000;
+    const summary: DeliverableSummary = {
+      upcoming: 0,
+      dueSoon: 0,
+      overdue: 0,
+      awaitingReview: 0,
+      changesRequested: 0,
+      approved: 0
+    };
+
+    for (const deliverable of deliverables) {
+      const dueIn = new Date(deliverable.due_date).getTime() - now;
+
+      switch (deliverable.status) {
+        case 'pending':
+        case 'changes_requested':
+          summary.upcoming++;
+          if (deliverable.status === 'changes_requested') summary.changesRequested++;
+          if (dueIn < 0) summary.overdue++;
+          else if (dueIn <= dueSoonMs) summary.dueSoon++;
+          break;
+        case 'submitted':
+          summary.awaitingReview++;
+          break;
+        case 'approved':
+          summary.approved++;
+          break;
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Load a deliverable and verify the user is one of its parties
+   */
+  private async getDeliverableForParty(deliverableId: string, userId: string, userRole: string): Promise<DeliverableResult> {
+    if (!deliverableId) {
+      return { success: false, error: 'Deliverable ID is required', code: 'INVALID_INPUT' };
+    }
+
+    const { data: deliverable, error } = await supabase
+      .from('deliverables')
+      .select(`
+        *,
+        campaign:campaign_id(id, title)
+      `)
+      .eq('id', deliverableId)
+      .single();
+
+    if (error || !deliverable) {
+      return { success: false, error: 'Deliverable not found', code: 'NOT_FOUND' };
+    }
+
+    const isParty =
+      (userRole === 'athlete' && deliverable.athlete_id === userId) ||
+      (userRole === 'business' && deliverable.business_id === userId) ||
+      userRole === 'admin' ||
+      userRole === 'compliance';
+
+    if (!isParty) {
+      return { success: false, error: 'You do not have permission to access this deliverable', code: 'FORBIDDEN' };
+    }
+
+    return { success: true, deliverable };
+  }
+
+  /**
+   * Update a deliverable's status
+   */
+  private async updateStatus(deliverableId: string, status: DeliverableStatus, extra: Record<string, any>) {
+    const { data, error } = await supabase
+      .from('deliverables')
+      .update({
+        status,
+        ...extra,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', deliverableId)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating deliverable status:', error);
+    }
+
+    return data;
+  }
+
+  /**
+   * Notify a user, subject to their notification preferences
+   */
+  private async notify(
+    userId: string,
+    notification: { type: string; title: string; content: string; deliverableId: string }
+  ): Promise<void> {
+    const { type, title, content, deliverableId } = notification;
+
+    await notificationService.notify(userId, {
+      type,
+      title,
+      content,
+      referenceType: 'DELIVERABLE',
+      referenceId: deliverableId,
+      data: { deliverableId }
+    });
+  }
+}
+
+// Create and export singleton instance
+export const deliverableService = new DeliverableService();
+export default deliverableService;
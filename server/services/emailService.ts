@@ -0,0 +1,169 @@
+/**
+ * Email Service
+ *
+ * Outbound email behind a pluggable transport, chosen with EMAIL_PROVIDER.
+ * Production sends through Resend; development uses the file transport,
+ * which captures each message as an .eml file instead of sending it.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import config from '../config/environment';
+
+// Outbound message
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+// Result of handing a message to a transport
+export interface EmailSendResult {
+  success: boolean;
+  messageId?: string;
+  error?: string;
+}
+
+// Anything that can deliver an EmailMessage
+export interface EmailTransport {
+  name: string;
+  send(message: EmailMessage & { from: string }): Promise<EmailSendResult>;
+}
+
+/**
+ * Writes every message to a capture directory as an RFC 822 .eml file
+ */
+export class FileEmailTransport implements EmailTransport {
+  name = 'file';
+
+  constructor(private directory: string) {}
+
+  async send(message: EmailMessage & { from: string }): Promise<EmailSendResult> {
+    try {
+      const messageId = `${uuidv4()}@contested.local`;
+      const boundary = `contested-${uuidv4()}`;
+      const headers = [
+        `Message-ID: <${messageId}>`,
+        `Date: ${new Date().toUTCString()}`,
+        `From: ${message.from}`,
+        `To: ${message.to}`,
+        `Subject: ${message.subject}`,
+        'MIME-Version: 1.0'
+      ];
+
+      const body = message.html
+        ? [
+            `Content-Type: multipart/alternative; boundary="${boundary}"`,
+            '',
+            `--${boundary}`,
+            'Content-Type: text/plain; charset=utf-8',
+            '',
+            message.text,
+            `--${boundary}`,
+            'Content-Type: text/html; charset=utf-8',
+            '',
+            message.html,
+            `--${boundary}--`
+          ]
+        : ['Content-Type: text/plain; charset=utf-8', '', message.text];
+
+      await fs.mkdir(this.directory, { recursive: true });
+      const fileName = `${Date.now()}-${messageId.split('@')[0]}.eml`;
+      await fs.writeFile(path.join(this.directory, fileName), [...headers, ...body].join('\r\n'));
+
+      return { success: true, messageId };
+    } catch (error: any) {
+      console.error('File email transport error:', error);
+      return { success: false, error: error.message || 'Failed to write email' };
+    }
+  }
+}
+
+/**
+ * Sends through the Resend HTTP API
+ */
+export class ResendEmailTransport implements EmailTransport {
+  name = 'resend';
+
+  constructor(private apiKey: string) {}
+
+  async send(message: EmailMessage & { from: string }): Promise<EmailSendResult> {
+    try {
+      const response = await fetch('https://api.resend.com/emails', {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${this.apiKey}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          from: message.from,
+          to: [message.to],
+          subject: message.subject,
+          text: message.text,
+          ...(message.html ? { html: message.html } : {})
+        })
+      });
+
+      const body: any = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        console.error('Resend email transport error:', response.status, body);
+        return { success: false, error: body?.message || `Email provider returned ${response.status}` };
+      }
+
+      return { success: true, messageId: body?.id };
+    } catch (error: any) {
+      console.error('Resend email transport error:', error);
+      return { success: false, error: error.message || 'Failed to send email' };
+    }
+  }
+}
+
+/**
+ * Resend when configured, otherwise the file capture transport
+ */
+export function createEmailTransport(): EmailTransport {
+  if (config.EMAIL_PROVIDER === 'resend' && config.RESEND_API_KEY) {
+    return new ResendEmailTransport(config.RESEND_API_KEY);
+  }
+
+  if (config.isProduction) {
+    console.error('❌ Email is not configured; messages are only captured to disk and will not reach users.');
+  } else {
+    console.warn(`Email is captured to ${config.EMAIL_CAPTURE_DIR} instead of being sent.`);
+  }
+  return new FileEmailTransport(config.EMAIL_CAPTURE_DIR);
+}
+
+// Main email service class
+class EmailService {
+  private transport: EmailTransport = createEmailTransport();
+
+  /**
+   * Replace the outbound transport
+   */
+  setTransport(transport: EmailTransport): void {
+    this.transport = transport;
+  }
+
+  getTransportName(): string {
+    return this.transport.name;
+  }
+
+  /**
+   * Send a message through the current transport
+   */
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    if (!message.to) {
+      return { success: false, error: 'Recipient is required' };
+    }
+
+    return this.transport.send({ ...message, from: config.EMAIL_FROM });
+  }
+}
+
+// Create and export singleton instance
+export const emailService = new EmailService();
+export default emailService;
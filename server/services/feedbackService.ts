@@ -0,0 +1,280 @@
+/**
+ * Feedback Service
+ *
+ * Lets users send feedback about the platform, or about one of their
+ * matches, and lets admins triage it: move it through review, answer it
+ * (the author is notified) and approve it for the public testimonials
+ * feed. Testimonials are only published when the author agreed to it and
+ * are shown without their name. Reads and writes go through IStorage.
+ */
+
+import { storage } from '../storage';
+import { supabase } from '../lib/supabase';
+import { notificationService } from './notificationService';
+import {
+  FEEDBACK_TRANSITIONS,
+  Feedback,
+  FeedbackInput,
+  FeedbackStatus,
+  FeedbackType,
+  PublicTestimonial
+} from '../../shared/schema';
+
+// Most testimonials returned by the public feed
+const MAX_TESTIMONIALS = 50;
+
+// The user sending or reading feedback
+export interface FeedbackUser {
+  id: string;
+  role: string;
+}
+
+// Interface for feedback results
+export interface FeedbackResult {
+  success: boolean;
+  feedback?: Feedback;
+  items?: Feedback[];
+  testimonials?: PublicTestimonial[];
+  error?: string;
+  code?: string;
+  message?: string;
+}
+
+function newestFirst(a: Feedback, b: Feedback): number {
+  return (b.created_at || '').localeCompare(a.created_at || '');
+}
+
+function toTestimonial(feedback: Feedback): PublicTestimonial {
+  return {
+    id: feedback.id,
+    title: feedback.title,
+    content: feedback.content,
+    rating: feedback.rating || null,
+    userType: feedback.userType,
+    createdAt: feedback.created_at
+  };
+}
+
+// Main feedback service class
+class FeedbackService {
+  /**
+   * Store feedback from a user; feedback on a match is only accepted from its athlete or business
+   */
+  async submit(user: FeedbackUser, input: FeedbackInput): Promise<FeedbackResult> {
+    try {
+      if (input.feedbackType === 'partnership' && !input.matchId) {
+        return { success: false, error: 'Partnership feedback must name a match', code: 'INVALID_INPUT' };
+      }
+
+      if (input.matchId) {
+        const access = await this.checkMatchAccess(user, input.matchId);
+        if (access) {
+          return access;
+        }
+      }
+
+      const feedback = await storage.storeFeedback({ ...input, userId: user.id, userType: user.role });
+
+      return { success: true, feedback, message: 'Thanks for your feedback' };
+    } catch (error: any) {
+      console.error('Submit feedback exception:', error);
+      return { success: false, error: error.message || 'Failed to send feedback', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * The user's own feedback with any admin responses, newest first
+   */
+  async getMine(userId: string): Promise<FeedbackResult> {
+    try {
+      const items = await storage.getFeedbackByUser(userId);
+      return { success: true, items: items.sort(newestFirst) };
+    } catch (error: any) {
+      console.error('Get own feedback exception:', error);
+      return { success: false, error: error.message || 'Failed to load feedback', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Feedback left on a match, for its athlete and business or an admin
+   */
+  async getMatchFeedback(user: FeedbackUser, matchId: number): Promise<FeedbackResult> {
+    try {
+      const access = await this.checkMatchAccess(user, matchId);
+      if (access) {
+        return access;
+      }
+
+      const items = await storage.getFeedbackByMatch(matchId);
+      return { success: true, items: items.sort(newestFirst) };
+    } catch (error: any) {
+      console.error('Get match feedback exception:', error);
+      return { success: false, error: error.message || 'Failed to load feedback', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Approved feedback whose authors agreed to publication, without their identity
+   */
+  async getTestimonials(): Promise<FeedbackResult> {
+    try {
+      const items = await storage.getPublicFeedback();
+      const testimonials = items
+        .filter(feedback => feedback.allowPublic && feedback.status !== 'dismissed')
+        .sort(newestFirst)
+        .slice(0, MAX_TESTIMONIALS)
+        .map(toTestimonial);
+
+      return { success: true, testimonials };
+    } catch (error: any) {
+      console.error('Get testimonials exception:', error);
+      return { success: false, error: error.message || 'Failed to load testimonials', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Feedback for admin triage, optionally filtered by type and status; open items first, then newest
+   */
+  async getForTriage(filter: { type?: FeedbackType; status?: FeedbackStatus }): Promise<FeedbackResult> {
+    try {
+      const types = filter.type ? [filter.type] : FeedbackType.options;
+      const lists = await Promise.all(types.map(type => storage.getFeedbackByType(type)));
+      const open = (feedback: Feedback) => feedback.status === 'pending' || feedback.status === 'in_review';
+
+      const items = lists
+        .flat()
+        .filter(feedback => !filter.status || feedback.status === filter.status)
+        .sort((a, b) => Number(open(b)) - Number(open(a)) || newestFirst(a, b));
+
+      return { success: true, items };
+    } catch (error: any) {
+      console.error('Get feedback for triage exception:', error);
+      return { success: false, error: error.message || 'Failed to load feedback', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Move feedback to another status (admin)
+   */
+  async changeStatus(feedbackId: number, status: FeedbackStatus): Promise<FeedbackResult> {
+    try {
+      const feedback = await storage.getFeedback(feedbackId);
+      if (!feedback) {
+        return { success: false, error: 'Feedback not found', code: 'NOT_FOUND' };
+      }
+
+      const invalid = this.checkTransition(feedback, status);
+      if (invalid) {
+        return invalid;
+      }
+
+      const updated = await storage.updateFeedbackStatus(feedbackId, status);
+      return { success: true, feedback: updated };
+    } catch (error: any) {
+      console.error('Change feedback status exception:', error);
+      return { success: false, error: error.message || 'Failed to update feedback', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Answer feedback (admin), optionally moving its status, and notify the author
+   */
+  async respond(feedbackId: number, response: string, status?: FeedbackStatus): Promise<FeedbackResult> {
+    try {
+      const feedback = await storage.getFeedback(feedbackId);
+      if (!feedback) {
+        return { success: false, error: 'Feedback not found', code: 'NOT_FOUND' };
+      }
+
+      if (status && status !== feedback.status) {
+        const invalid = this.checkTransition(feedback, status);
+        if (invalid) {
+          return invalid;
+        }
+      }
+
+      let updated = await storage.addAdminResponse(feedbackId, response);
+      if (status && status !== feedback.status) {
+        updated = await storage.updateFeedbackStatus(feedbackId, status);
+      }
+
+      await notificationService.notify(feedback.userId, {
+        type: 'FEEDBACK_RESPONSE',
+        title: 'We replied to your feedback',
+        content: feedback.title
+          ? `The team responded to "${feedback.title}".`
+          : 'The team responded to feedback you sent.',
+        referenceType: 'FEEDBACK',
+        referenceId: feedbackId,
+        data: { feedbackId, status: updated.status }
+      });
+
+      return { success: true, feedback: updated, message: 'Response sent' };
+    } catch (error: any) {
+      console.error('Respond to feedback exception:', error);
+      return { success: false, error: error.message || 'Failed to respond to feedback', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Approve feedback for the testimonials feed, or withdraw it (admin)
+   */
+  async setPublic(feedbackId: number, isPublic: boolean): Promise<FeedbackResult> {
+    try {
+      const feedback = await storage.getFeedback(feedbackId);
+      if (!feedback) {
+        return { success: false, error: 'Feedback not found', code: 'NOT_FOUND' };
+      }
+
+      if (isPublic && !feedback.allowPublic) {
+        return { success: false, error: "The author didn't agree to publication", code: 'CONSENT_REQUIRED' };
+      }
+
+      const updated = await storage.setFeedbackPublic(feedbackId, isPublic);
+      return { success: true, feedback: updated, message: isPublic ? 'Published as a testimonial' : 'Removed from testimonials' };
+    } catch (error: any) {
+      console.error('Publish feedback exception:', error);
+      return { success: false, error: error.message || 'Failed to update feedback', code: 'SERVER_ERROR' };
+    }
+  }
+
+  private checkTransition(feedback: Feedback, status: FeedbackStatus): FeedbackResult | null {
+    const allowed = FEEDBACK_TRANSITIONS[feedback.status] || [];
+    if (!allowed.includes(status)) {
+      return {
+        success: false,
+        error: `Feedback can't move from ${feedback.status} to ${status}`,
+        code: 'INVALID_TRANSITION'
+      };
+    }
+    return null;
+  }
+
+  // Error result unless the user is a party to the match or an admin
+  private async checkMatchAccess(user: FeedbackUser, matchId: number): Promise<FeedbackResult | null> {
+    const { data: match, error } = await supabase
+      .from('match_scores')
+      .select('id, athlete_id, business_id')
+      .eq('id', matchId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading match for feedback:', error);
+      return { success: false, error: 'Failed to load match', code: 'DATABASE_ERROR' };
+    }
+
+    if (!match) {
+      return { success: false, error: 'Match not found', code: 'NOT_FOUND' };
+    }
+
+    if (user.role !== 'admin' && match.athlete_id !== user.id && match.business_id !== user.id) {
+      return { success: false, error: 'You are not part of this match', code: 'FORBIDDEN' };
+    }
+
+    return null;
+  }
+}
+
+// Create and export singleton instance
+export const feedbackService = new FeedbackService();
+export default feedbackService;
@@ -0,0 +1,438 @@
+/**
+ * Guardian Consent Service
+ *
+ * Athletes under 18 need a parent or guardian's approval before they can
+ * accept offers or message businesses. The athlete names their guardian,
+ * who gets an emailed link; opening it verifies the address, and from there
+ * the guardian approves or declines and can keep following the athlete's
+ * offers read-only. Ages always come from the date of birth stored on the
+ * server.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { supabase } from '../lib/supabase';
+import { calculateAge, isMinor, AGE_OF_MAJORITY } from '../utils/age';
+import config from '../config/environment';
+import { emailService } from './emailService';
+import { notificationService } from './notificationService';
+import {
+  GuardianConsent,
+  GuardianConsentDecision,
+  GuardianConsentSummary,
+  GuardianInvite,
+  GuardianView
+} from '../../shared/schema';
+
+// How long an invite link stays valid before the guardian first responds
+const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+// How long an approved guardian can keep using the read-only view link
+const VIEW_TTL_MS = 365 * 24 * 60 * 60 * 1000;
+
+// Consent columns never sent to clients
+const PRIVATE_CONSENT_FIELDS = ['access_token_hash', 'token_expires_at'] as const;
+
+// Where a request came from, recorded with the guardian's decision
+export interface ConsentRequestContext {
+  ip?: string | null;
+  userAgent?: string | null;
+}
+
+// Interface for guardian consent results
+export interface GuardianConsentResult {
+  success: boolean;
+  summary?: GuardianConsentSummary;
+  consent?: GuardianConsent;
+  view?: GuardianView;
+  error?: string;
+  code?: string;
+  message?: string;
+}
+
+// Outcome of a consent check before a gated action
+export interface ConsentCheck {
+  allowed: boolean;
+  error?: string;
+  code?: string;
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function publicConsent(consent: any): GuardianConsent {
+  const copy = { ...consent };
+  PRIVATE_CONSENT_FIELDS.forEach(field => delete copy[field]);
+  return copy;
+}
+
+// Main guardian consent service class
+class GuardianConsentService {
+  /**
+   * An athlete's age from the date of birth on their profile
+   */
+  async getAthleteAge(athleteId: string): Promise<{ age: number | null; isMinor: boolean }> {
+    const [{ data: profile }, { data: athlete }] = await Promise.all([
+      supabase.from('athlete_profiles').select('date_of_birth').eq('id', athleteId).maybeSingle(),
+      supabase.from('athletes').select('date_of_birth').eq('id', athleteId).maybeSingle()
+    ]);
+
+    const age = calculateAge(profile?.date_of_birth || athlete?.date_of_birth);
+    return { age, isMinor: age !== null && age < AGE_OF_MAJORITY };
+  }
+
+  /**
+   * Age, consent requirement and the current consent for an athlete
+   */
+  async getSummary(athleteId: string): Promise<GuardianConsentResult> {
+    try {
+      const { age, isMinor } = await this.getAthleteAge(athleteId);
+      const consent = await this.getCurrentConsent(athleteId);
+
+      return {
+        success: true,
+        summary: {
+          is_minor: isMinor,
+          age,
+          consent_required: age === null || (isMinor && consent?.status !== 'approved'),
+          consent: consent ? publicConsent(consent) : null
+        }
+      };
+    } catch (error: any) {
+      console.error('Get guardian consent summary exception:', error);
+      return { success: false, error: error.message || 'Failed to load guardian consent', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Whether an athlete may accept offers and message businesses
+   */
+  async checkConsent(athleteId: string): Promise<ConsentCheck> {
+    const result = await this.getSummary(athleteId);
+
+    if (!result.success) {
+      return { allowed: false, error: result.error, code: result.code };
+    }
+
+    // Without a date of birth there's no telling whether a guardian must approve
+    if (result.summary!.age === null) {
+      return {
+        allowed: false,
+        error: 'This athlete needs to add their date of birth before accepting offers or messaging businesses',
+        code: 'GUARDIAN_CONSENT_REQUIRED'
+      };
+    }
+
+    if (result.summary!.consent_required) {
+      return {
+        allowed: false,
+        error: 'This athlete is under 18 and needs a parent or guardian\'s approval first',
+        code: 'GUARDIAN_CONSENT_REQUIRED'
+      };
+    }
+
+    return { allowed: true };
+  }
+
+  /**
+   * Whether saving this date of birth would make an athlete who has been a
+   * minor on record an adult; those corrections need an admin's review
+   */
+  async wouldClearMinorStatus(athleteId: string, dateOfBirth: string | null): Promise<boolean> {
+    if (isMinor(dateOfBirth)) {
+      return false;
+    }
+
+    const [{ data: profile }, consent, { isMinor: currentlyMinor }] = await Promise.all([
+      supabase.from('athlete_profiles').select('date_of_birth, was_minor').eq('id', athleteId).maybeSingle(),
+      this.getCurrentConsent(athleteId),
+      this.getAthleteAge(athleteId)
+    ]);
+
+    // Saving the date already on record is not a change
+    if (profile?.date_of_birth && profile.date_of_birth === dateOfBirth) {
+      return false;
+    }
+
+    return Boolean(profile?.was_minor || consent || currentlyMinor);
+  }
+
+  /**
+   * The guardian on record once they've approved, for co-signing contracts
+   */
+  async getApprovedGuardian(athleteId: string): Promise<{ name: string; email: string } | null> {
+    const consent = await this.getCurrentConsent(athleteId);
+    return consent?.status === 'approved' ? { name: consent.guardian_name, email: consent.guardian_email } : null;
+  }
+
+  /**
+   * Name a guardian and email them a verification link (athlete)
+   *
+   * Naming a different guardian starts a new consent; sending the same
+   * guardian again just refreshes their link.
+   */
+  async inviteGuardian(athleteId: string, input: GuardianInvite): Promise<GuardianConsentResult> {
+    try {
+      const { isMinor } = await this.getAthleteAge(athleteId);
+      if (!isMinor) {
+        return {
+          success: false,
+          error: 'Guardian consent is only needed for athletes under 18. Check the date of birth on your profile.',
+          code: 'INVALID_OPERATION'
+        };
+      }
+
+      const email = input.email.toLowerCase();
+
+      // The guardian has to be someone other than an athlete, so nobody can approve their own consent
+      const { data: accounts, error: accountError } = await supabase
+        .from('users')
+        .select('id, role')
+        .ilike('email', email.replace(/[\\%_]/g, '\\$&'));
+
+      if (accountError) {
+        console.error('Error checking guardian email:', accountError);
+        return { success: false, error: 'Failed to invite guardian', code: 'DATABASE_ERROR' };
+      }
+
+      if ((accounts || []).some(account => account.id === athleteId)) {
+        return { success: false, error: "Your guardian's email must be different from your own", code: 'INVALID_OPERATION' };
+      }
+
+      if ((accounts || []).some(account => account.role === 'athlete')) {
+        return { success: false, error: "That email belongs to an athlete account. Enter your parent or guardian's email.", code: 'INVALID_OPERATION' };
+      }
+
+      const existing = await this.getCurrentConsent(athleteId);
+      const sameGuardian = existing && existing.guardian_email === email && ['pending', 'approved'].includes(existing.status);
+
+      const token = randomBytes(32).toString('hex');
+      const now = new Date();
+      const record = {
+        athlete_id: athleteId,
+        guardian_name: input.name,
+        guardian_email: email,
+        relationship: input.relationship || null,
+        access_token_hash: hashToken(token),
+        token_expires_at: new Date(now.getTime() + (sameGuardian && existing.status === 'approved' ? VIEW_TTL_MS : INVITE_TTL_MS)).toISOString(),
+        invited_at: now.toISOString(),
+        updated_at: now.toISOString(),
+        ...(sameGuardian
+          ? {}
+          : { status: 'pending', verified_at: null, responded_at: null, ip_address: null, user_agent: null })
+      };
+
+      const { data: consent, error } = await supabase
+        .from('guardian_consents')
+        .upsert(existing ? { id: existing.id, ...record } : { ...record, created_at: now.toISOString() }, { onConflict: 'athlete_id' })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error saving guardian consent:', error);
+        return { success: false, error: 'Failed to invite guardian', code: 'DATABASE_ERROR' };
+      }
+
+      const { data: athlete } = await supabase
+        .from('athlete_profiles')
+        .select('name, full_name')
+        .eq('id', athleteId)
+        .maybeSingle();
+      const athleteName = athlete?.full_name || athlete?.name || 'A student-athlete';
+
+      const sent = await emailService.send({
+        to: email,
+        subject: `${athleteName} needs your approval on Contested`,
+        text: [
+          `Hello ${input.name},`,
+          '',
+          `${athleteName} has named you as their ${(input.relationship || 'parent or guardian').toLowerCase()} on Contested, a marketplace where student-athletes partner with businesses on name, image and likeness (NIL) deals.`,
+          '',
+          'Because they are under 18, they can\'t accept offers or message businesses until you approve. Open the link below to confirm your email address, review the offers they have received and approve or decline:',
+          '',
+          `${config.SERVER_URL || ''}/guardian/${token}`,
+          '',
+          'After you approve, the same link lets you keep an eye on their offers. If you were not expecting this email you can ignore it.'
+        ].join('\n')
+      });
+
+      if (!sent.success) {
+        console.error('Failed to email guardian invite:', sent.error);
+        return { success: false, error: 'Failed to send the guardian email', code: 'EMAIL_ERROR' };
+      }
+
+      return { success: true, consent: publicConsent(consent), message: `Invite sent to ${email}` };
+    } catch (error: any) {
+      console.error('Invite guardian exception:', error);
+      return { success: false, error: error.message || 'Failed to invite guardian', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * The guardian's read-only view of their athlete and offers
+   *
+   * The first visit confirms the guardian controls the email address.
+   */
+  async getGuardianView(token: string): Promise<GuardianConsentResult> {
+    try {
+      const loaded = await this.loadByToken(token);
+      if (!loaded.success) {
+        return loaded;
+      }
+
+      let consent = loaded.consent!;
+      if (!consent.verified_at) {
+        const { data: verified } = await supabase
+          .from('guardian_consents')
+          .update({ verified_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+          .eq('id', consent.id)
+          .is('verified_at', null)
+          .select()
+          .maybeSingle();
+        consent = verified || consent;
+      }
+
+      const [{ data: athlete }, { data: offers, error }] = await Promise.all([
+        supabase.from('athlete_profiles').select('name, full_name, school, sport').eq('id', consent.athlete_id).maybeSingle(),
+        supabase
+          .from('partnership_offers')
+          .select('id, status, business_id, campaign_id, offer_amount, compensation_type, deliverables, term, usage_rights, exclusivity, created_at')
+          .eq('athlete_id', consent.athlete_id)
+          .order('created_at', { ascending: false })
+      ]);
+
+      if (error) {
+        console.error('Error loading offers for guardian:', error);
+        return { success: false, error: 'Failed to load offers', code: 'DATABASE_ERROR' };
+      }
+
+      const businessIds = Array.from(new Set((offers || []).map(offer => offer.business_id)));
+      const campaignIds = Array.from(new Set((offers || []).map(offer => offer.campaign_id).filter(Boolean)));
+      const [{ data: businesses }, { data: campaigns }] = await Promise.all([
+        businessIds.length > 0
+          ? supabase.from('business_profiles').select('id, name, company').in('id', businessIds)
+          : Promise.resolve({ data: [] as any[] }),
+        campaignIds.length > 0
+          ? supabase.from('campaigns').select('id, title').in('id', campaignIds)
+          : Promise.resolve({ data: [] as any[] })
+      ]);
+
+      return {
+        success: true,
+        view: {
+          athlete: {
+            name: athlete?.full_name || athlete?.name || 'Athlete',
+            school: athlete?.school || null,
+            sport: athlete?.sport || null
+          },
+          consent: publicConsent(consent),
+          offers: (offers || []).map(({ business_id, campaign_id, ...offer }) => {
+            const business = businesses?.find(candidate => candidate.id === business_id);
+            return {
+              ...offer,
+              brand: business?.company || business?.name || null,
+              campaign: campaigns?.find(candidate => candidate.id === campaign_id)?.title || null
+            };
+          })
+        }
+      };
+    } catch (error: any) {
+      console.error('Get guardian view exception:', error);
+      return { success: false, error: error.message || 'Failed to load guardian view', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Record the guardian's approval or refusal; declining later revokes an approval
+   */
+  async respond(token: string, input: GuardianConsentDecision, context: ConsentRequestContext): Promise<GuardianConsentResult> {
+    try {
+      const loaded = await this.loadByToken(token);
+      if (!loaded.success) {
+        return loaded;
+      }
+
+      const consent = loaded.consent!;
+      const status = input.decision === 'approve' ? 'approved' : consent.status === 'approved' ? 'revoked' : 'declined';
+
+      if (consent.status === status) {
+        return { success: true, consent: publicConsent(consent), message: `Consent already ${status}` };
+      }
+
+      const now = new Date();
+      const { data: updated, error } = await supabase
+        .from('guardian_consents')
+        .update({
+          status,
+          verified_at: consent.verified_at || now.toISOString(),
+          responded_at: now.toISOString(),
+          ip_address: context.ip || null,
+          user_agent: context.userAgent || null,
+          // Approved guardians keep their link for the read-only view
+          token_expires_at: new Date(now.getTime() + (status === 'approved' ? VIEW_TTL_MS : INVITE_TTL_MS)).toISOString(),
+          updated_at: now.toISOString()
+        })
+        .eq('id', consent.id)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error saving guardian decision:', error);
+        return { success: false, error: 'Failed to save your decision', code: 'DATABASE_ERROR' };
+      }
+
+      await notificationService.notify(consent.athlete_id, {
+        type: `GUARDIAN_CONSENT_${status.toUpperCase()}`,
+        title: status === 'approved' ? 'Guardian Approved' : 'Guardian Consent Not Given',
+        content: status === 'approved'
+          ? `${consent.guardian_name} approved your account. You can now accept offers and message businesses.`
+          : `${consent.guardian_name} ${status === 'revoked' ? 'withdrew their approval' : 'declined to approve your account'}. You can't accept offers or message businesses until a guardian approves.`,
+        referenceType: 'GUARDIAN_CONSENT',
+        referenceId: consent.id,
+        data: { consentId: consent.id, status }
+      });
+
+      return { success: true, consent: publicConsent(updated), message: `Consent ${status}` };
+    } catch (error: any) {
+      console.error('Guardian consent decision exception:', error);
+      return { success: false, error: error.message || 'Failed to save your decision', code: 'SERVER_ERROR' };
+    }
+  }
+
+  private async getCurrentConsent(athleteId: string): Promise<any | null> {
+    const { data, error } = await supabase
+      .from('guardian_consents')
+      .select('*')
+      .eq('athlete_id', athleteId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading guardian consent:', error);
+      throw new Error('Failed to load guardian consent');
+    }
+
+    return data;
+  }
+
+  private async loadByToken(token: string): Promise<GuardianConsentResult & { consent?: any }> {
+    const { data: consent, error } = await supabase
+      .from('guardian_consents')
+      .select('*')
+      .eq('access_token_hash', hashToken(token))
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading guardian link:', error);
+      return { success: false, error: 'Failed to load link', code: 'DATABASE_ERROR' };
+    }
+
+    if (!consent || !consent.token_expires_at || new Date(consent.token_expires_at) < new Date()) {
+      return { success: false, error: 'This link is invalid or has expired. Ask your athlete to send a new one.', code: 'INVALID_LINK' };
+    }
+
+    return { success: true, consent };
+  }
+}
+
+// Create and export singleton instance
+export const guardianConsentService = new GuardianConsentService();
+export default guardianConsentService;
@@ -0,0 +1,480 @@
+/**
+ * Match Scoring Service
+ *
+ * Scores how well an athlete fits a campaign. Each factor is an independent,
+ * pure evaluator returning a 0-1 score and a human-readable reason; the engine
+ * combines them with (optionally campaign-specific) weights and records the
+ * per-factor breakdown so businesses can see why an athlete scored the way
+ * they did.
+ */
+
+import {
+  compensationMinimumSchema,
+  matchWeightsSchema,
+  type MatchFactor,
+  type MatchFactorResult,
+  type MatchScoreExplanation,
+  type MatchWeights
+} from '../../shared/schema';
+import { minimumFromText } from '../../shared/compensation';
+import { UNVERIFIED_FOLLOWER_WEIGHT, verifiedFollowerShare } from '../../shared/socialVerification';
+
+// Input passed to every factor
+export interface MatchContext {
+  campaign: any;
+  athlete: any;
+}
+
+// Factor output; a null score means the factor doesn't apply to this pair
+// (e.g. the campaign has no location targeting) and is left out of the total
+export interface FactorEvaluation {
+  score: number | null;
+  reason: string;
+}
+
+// A pluggable scoring factor
+export interface MatchScoringFactor {
+  key: string;
+  label: string;
+  defaultWeight: number;
+  evaluate(context: MatchContext): FactorEvaluation;
+}
+
+// Score used when no factor applies to a campaign/athlete pair
+const NEUTRAL_SCORE = 0.5;
+
+// Engagement rate at which the engagement factor maxes out
+const TARGET_ENGAGEMENT_RATE = 0.08;
+
+/**
+ * Normalize a loosely-typed JSONB/text field into a list of lowercase terms.
+ * Accepts arrays, comma-separated strings and objects of flags
+ * (e.g. { sustainability: true, fitness: false }).
+ */
+export function toTerms(value: any): string[] {
+  if (value === null || value === undefined) return [];
+
+  if (Array.isArray(value)) {
+    return value.flatMap(item => toTerms(item));
+  }
+
+  if (typeof value === 'string') {
+    return value
+      .split(',')
+      .map(term => term.trim().toLowerCase())
+      .filter(Boolean);
+  }
+
+  if (typeof value === 'object') {
+    return Object.entries(value).flatMap(([key, flag]) => {
+      if (flag === true) return [key.trim().toLowerCase()];
+      if (typeof flag === 'string' || Array.isArray(flag)) return toTerms(flag);
+      return [];
+    });
+  }
+
+  return [String(value).toLowerCase()];
+}
+
+/**
+ * Read a targeting field from the campaign, falling back to target_audience
+ */
+function campaignTerms(campaign: any, ...keys: string[]): string[] {
+  for (const key of keys) {
+    const terms = toTerms(campaign?.[key] ?? campaign?.target_audience?.[key]);
+    if (terms.length > 0) return terms;
+  }
+  return [];
+}
+
+/**
+ * Parse the first number out of a free-text amount such as "$500 - $1,000"
+ */
+function parseAmount(value: any): number | null {
+  if (typeof value === 'number') return value;
+  if (typeof value !== 'string') return null;
+
+  const match = value.replace(/,/g, '').match(/\d+(\.\d+)?/);
+  return match ? parseFloat(match[0]) : null;
+}
+
+// Athlete's minimum in dollars, from the structured minimum or older free text
+function athleteMinimum(athlete: any): number | null {
+  const stored = athlete?.minimum_compensation;
+  const parsed = compensationMinimumSchema.safeParse(stored);
+  if (parsed.success) return parsed.data.amount;
+
+  const fromText = typeof stored === 'string' ? minimumFromText(stored) : null;
+  return fromText?.amount ?? parseAmount(athlete?.compensation_goals);
+}
+
+/**
+ * Score the overlap between what the campaign wants and what the athlete offers
+ */
+function overlapEvaluation(wanted: string[], offered: string[], noun: string): FactorEvaluation {
+  if (wanted.length === 0) {
+    return { score: null, reason: `Campaign has no ${noun} preferences` };
+  }
+  if (offered.length === 0) {
+    return { score: 0, reason: `Athlete has not listed any ${noun}` };
+  }
+
+  const matched = wanted.filter(term =>
+    offered.some(candidate => candidate.includes(term) || term.includes(candidate))
+  );
+
+  if (matched.length === 0) {
+    return { score: 0, reason: `No shared ${noun}` };
+  }
+
+  return {
+    score: matched.length / wanted.length,
+    reason: `Shares ${matched.length} of ${wanted.length} ${noun}: ${matched.join(', ')}`
+  };
+}
+
+export const sportFactor: MatchScoringFactor = {
+  key: 'sport',
+  label: 'Sport',
+  defaultWeight: 0.2,
+  evaluate({ campaign, athlete }) {
+    const sports = toTerms(campaign?.target_sports);
+    if (sports.length === 0) {
+      return { score: null, reason: 'Campaign is open to all sports' };
+    }
+    const sport = (athlete?.sport || '').toLowerCase();
+    return sports.includes(sport)
+      ? { score: 1, reason: `Plays a targeted sport (${athlete.sport})` }
+      : { score: 0, reason: `${athlete?.sport || 'Unknown sport'} is not a targeted sport` };
+  }
+};
+
+export const divisionFactor: MatchScoringFactor = {
+  key: 'division',
+  label: 'Division',
+  defaultWeight: 0.1,
+  evaluate({ campaign, athlete }) {
+    const divisions = toTerms(campaign?.target_divisions);
+    if (divisions.length === 0) {
+      return { score: null, reason: 'Campaign is open to all divisions' };
+    }
+    const division = (athlete?.division || '').toLowerCase();
+    return divisions.includes(division)
+      ? { score: 1, reason: `Competes in a targeted division (${athlete.division})` }
+      : { score: 0, reason: `${athlete?.division || 'Unknown division'} is not a targeted division` };
+  }
+};
+
+/**
+ * Scale an audience-based evaluation by how much of the athlete's following
+ * sits on verified accounts. Athletes whose social accounts haven't been
+ * loaded are scored as before.
+ */
+function discountUnverified(athlete: any, evaluation: FactorEvaluation): FactorEvaluation {
+  if (evaluation.score === null || !Array.isArray(athlete?.social_accounts)) {
+    return evaluation;
+  }
+
+  const share = verifiedFollowerShare(athlete.social_accounts);
+  if (share === null || share >= 1) {
+    return evaluation;
+  }
+
+  return {
+    score: evaluation.score * (UNVERIFIED_FOLLOWER_WEIGHT + (1 - UNVERIFIED_FOLLOWER_WEIGHT) * share),
+    reason: share === 0
+      ? `${evaluation.reason} (no verified accounts)`
+      : `${evaluation.reason} (${Math.round(share * 100)}% of followers on verified accounts)`
+  };
+}
+
+export const audienceSizeFactor: MatchScoringFactor = {
+  key: 'audience_size',
+  label: 'Audience size',
+  defaultWeight: 0.15,
+  evaluate({ campaign, athlete }) {
+    const target = campaign?.target_follower_counts;
+    const followers = athlete?.follower_count;
+
+    if (!target || (!target.ideal && !target.min && !target.max)) {
+      return { score: null, reason: 'Campaign has no audience size target' };
+    }
+    if (typeof followers !== 'number') {
+      return { score: 0, reason: 'Athlete follower count is unknown' };
+    }
+
+    if (target.ideal) {
+      // Score inversely proportional to distance from ideal
+      const distance = Math.abs(followers - target.ideal) / target.ideal;
+      return discountUnverified(athlete, {
+        score: Math.max(0, 1 - distance),
+        reason: `${followers.toLocaleString()} followers vs. ideal of ${Number(target.ideal).toLocaleString()}`
+      });
+    }
+
+    const aboveMin = !target.min || followers >= target.min;
+    const belowMax = !target.max || followers <= target.max;
+    return discountUnverified(athlete, aboveMin && belowMax
+      ? { score: 1, reason: `${followers.toLocaleString()} followers is within the target range` }
+      : { score: 0, reason: `${followers.toLocaleString()} followers is outside the target range` });
+  }
+};
+
+export const engagementFactor: MatchScoringFactor = {
+  key: 'engagement',
+  label: 'Engagement',
+  defaultWeight: 0.1,
+  evaluate({ athlete }) {
+    let rate = athlete?.average_engagement_rate;
+    if (typeof rate !== 'number') {
+      return { score: null, reason: 'Engagement rate is unknown' };
+    }
+    // Some profiles store the rate as a percentage
+    if (rate > 1) rate = rate / 100;
+
+    return discountUnverified(athlete, {
+      score: Math.min(1, rate / TARGET_ENGAGEMENT_RATE),
+      reason: `${(rate * 100).toFixed(1)}% average engagement rate`
+    });
+  }
+};
+
+export const personalValuesFactor: MatchScoringFactor = {
+  key: 'personal_values',
+  label: 'Personal values',
+  defaultWeight: 0.1,
+  evaluate({ campaign, athlete }) {
+    return overlapEvaluation(
+      campaignTerms(campaign, 'brand_values', 'values'),
+      toTerms(athlete?.personal_values),
+      'values'
+    );
+  }
+};
+
+export const causesFactor: MatchScoringFactor = {
+  key: 'causes',
+  label: 'Causes',
+  defaultWeight: 0.05,
+  evaluate({ campaign, athlete }) {
+    return overlapEvaluation(campaignTerms(campaign, 'causes'), toTerms(athlete?.causes), 'causes');
+  }
+};
+
+export const productCategoriesFactor: MatchScoringFactor = {
+  key: 'product_categories',
+  label: 'Product categories',
+  defaultWeight: 0.1,
+  evaluate({ campaign, athlete }) {
+    return overlapEvaluation(
+      campaignTerms(campaign, 'product_categories', 'product_category', 'industry'),
+      toTerms(athlete?.preferred_product_categories),
+      'product categories'
+    );
+  }
+};
+
+export const contentStyleFactor: MatchScoringFactor = {
+  key: 'content_style',
+  label: 'Content style',
+  defaultWeight: 0.05,
+  evaluate({ campaign, athlete }) {
+    return overlapEvaluation(
+      campaignTerms(campaign, 'content_style', 'content_styles'),
+      [...toTerms(athlete?.content_style), ...toTerms(athlete?.content_types)],
+      'content styles'
+    );
+  }
+};
+
+export const locationFactor: MatchScoringFactor = {
+  key: 'location',
+  label: 'Location',
+  defaultWeight: 0.05,
+  evaluate({ campaign, athlete }) {
+    const locations = campaignTerms(campaign, 'target_locations', 'locations', 'location');
+    if (locations.length === 0) {
+      return { score: null, reason: 'Campaign has no location targeting' };
+    }
+    const location = (athlete?.location || '').toLowerCase();
+    if (!location) {
+      return { score: 0, reason: 'Athlete location is unknown' };
+    }
+    const matched = locations.find(term => location.includes(term) || term.includes(location));
+    return matched
+      ? { score: 1, reason: `Based in a targeted location (${athlete.location})` }
+      : { score: 0, reason: `${athlete.location} is outside the targeted locations` };
+  }
+};
+
+export const compensationFactor: MatchScoringFactor = {
+  key: 'compensation',
+  label: 'Compensation fit',
+  defaultWeight: 0.1,
+  evaluate({ campaign, athlete }) {
+    const budget = campaign?.budget_max ?? campaign?.budget_min ?? parseAmount(campaign?.budget);
+    const minimum = athleteMinimum(athlete);
+
+    if (!budget) {
+      return { score: null, reason: 'Campaign budget is not set' };
+    }
+    if (!minimum) {
+      return { score: null, reason: 'Athlete has no stated compensation goal' };
+    }
+
+    return budget >= minimum
+      ? { score: 1, reason: `Budget of $${budget.toLocaleString()} meets the athlete's $${minimum.toLocaleString()} goal` }
+      : {
+          score: budget / minimum,
+          reason: `Budget of $${budget.toLocaleString()} is below the athlete's $${minimum.toLocaleString()} goal`
+        };
+  }
+};
+
+export const reputationFactor: MatchScoringFactor = {
+  key: 'reputation',
+  label: 'Reputation',
+  defaultWeight: 0.1,
+  evaluate({ athlete }) {
+    // Loaded from reputation_scores by the caller; unrated athletes aren't penalized
+    const reputation = athlete?.reputation;
+    if (!reputation || !reputation.rating_count || reputation.score === null) {
+      return { score: null, reason: 'Athlete has no partnership ratings yet' };
+    }
+
+    const ratings = reputation.rating_count === 1 ? '1 rating' : `${reputation.rating_count} ratings`;
+    return {
+      score: (Number(reputation.score) - 1) / 4,
+      reason: `Reputation of ${Number(reputation.score).toFixed(1)}/5 from ${ratings} by past partners`
+    };
+  }
+};
+
+// Built-in factors, in display order
+export const DEFAULT_FACTORS: MatchScoringFactor[] = [
+  sportFactor,
+  divisionFactor,
+  audienceSizeFactor,
+  engagementFactor,
+  personalValuesFactor,
+  causesFactor,
+  productCategoriesFactor,
+  contentStyleFactor,
+  locationFactor,
+  compensationFactor,
+  reputationFactor
+];
+
+export class MatchScoringService {
+  private factors = new Map<string, MatchScoringFactor>();
+
+  constructor(factors: MatchScoringFactor[] = DEFAULT_FACTORS) {
+    factors.forEach(factor => this.registerFactor(factor));
+  }
+
+  /**
+   * Add a factor, or replace the built-in factor with the same key
+   */
+  registerFactor(factor: MatchScoringFactor): void {
+    this.factors.set(factor.key, factor);
+  }
+
+  /**
+   * Get the registered factors
+   */
+  getFactors(): MatchScoringFactor[] {
+    return Array.from(this.factors.values());
+  }
+
+  /**
+   * Get the default weight of every registered factor
+   */
+  getDefaultWeights(): Record<string, number> {
+    const weights: Record<string, number> = {};
+    this.factors.forEach(factor => {
+      weights[factor.key] = factor.defaultWeight;
+    });
+    return weights;
+  }
+
+  /**
+   * Merge a campaign's weight overrides over the defaults.
+   * Invalid overrides are ignored rather than failing the whole match.
+   */
+  resolveWeights(campaign: any): { weights: Record<string, number>; source: 'default' | 'campaign' } {
+    const weights = this.getDefaultWeights();
+    const parsed = matchWeightsSchema.safeParse(campaign?.match_weights ?? {});
+
+    if (!parsed.success) {
+      console.warn(`Ignoring invalid match weights on campaign ${campaign?.id}`);
+      return { weights, source: 'default' };
+    }
+
+    const overrides = Object.entries(parsed.data) as [MatchFactor, number][];
+    overrides.forEach(([key, weight]) => {
+      if (key in weights) {
+        weights[key] = weight;
+      }
+    });
+
+    return { weights, source: overrides.length > 0 ? 'campaign' : 'default' };
+  }
+
+  /**
+   * Score an athlete against a campaign and explain the result
+   */
+  scoreMatch(campaign: any, athlete: any): MatchScoreExplanation {
+    const { weights, source } = this.resolveWeights(campaign);
+    const context: MatchContext = { campaign, athlete };
+
+    const evaluations = this.getFactors().map(factor => {
+      let evaluation: FactorEvaluation;
+      try {
+        evaluation = factor.evaluate(context);
+      } catch (error) {
+        console.error(`Match factor ${factor.key} failed:`, error);
+        evaluation = { score: null, reason: 'Could not be evaluated' };
+      }
+
+      const score = evaluation.score === null ? null : Math.min(1, Math.max(0, evaluation.score));
+      return { factor, score, reason: evaluation.reason, rawWeight: weights[factor.key] ?? 0 };
+    });
+
+    // Only factors that apply (and aren't disabled) share the weight
+    const totalWeight = evaluations
+      .filter(e => e.score !== null && e.rawWeight > 0)
+      .reduce((sum, e) => sum + e.rawWeight, 0);
+
+    const factors: MatchFactorResult[] = evaluations.map(e => {
+      const weight = e.score !== null && totalWeight > 0 ? e.rawWeight / totalWeight : 0;
+      return {
+        factor: e.factor.key,
+        label: e.factor.label,
+        weight: round(weight),
+        score: e.score === null ? null : round(e.score),
+        contribution: round(weight * (e.score ?? 0)),
+        reason: e.rawWeight > 0 ? e.reason : `${e.reason} (disabled for this campaign)`
+      };
+    });
+
+    const score = totalWeight > 0
+      ? factors.reduce((sum, f) => sum + f.contribution, 0)
+      : NEUTRAL_SCORE;
+
+    return {
+      score: round(Math.min(1, score)),
+      factors,
+      weights_source: source,
+      computed_at: new Date().toISOString()
+    };
+  }
+}
+
+// match_scores.score is numeric(4,3)
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+// Create and export singleton instance
+export const matchScoringService = new MatchScoringService();
+export default matchScoringService;
@@ -0,0 +1,566 @@
+/**
+ * Messaging Service
+ *
+ * Persistent athlete-business conversation threads tied to a match or offer,
+ * with read receipts, unread counts, typing indicators and attachments.
+ * Live delivery goes through the WebSocket user channels; recipients who are
+ * offline get a notification record instead.
+ */
+
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { supabase } from '../lib/supabase';
+import { objectStorage } from '../objectStorage';
+import { wsHelpers } from './websocketService';
+import { notificationService } from './notificationService';
+import { guardianConsentService } from './guardianConsentService';
+import { MessageAttachment } from '../../shared/schema';
+
+// Page size for thread history
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 100;
+
+// Uploaded file attached to a message
+export interface AttachmentUpload {
+  buffer: Buffer;
+  originalName: string;
+  mimeType?: string;
+}
+
+// Interface for messaging results
+export interface MessagingResult {
+  success: boolean;
+  thread?: any;
+  threads?: any[];
+  message?: any;
+  messages?: any[];
+  messageIds?: string[];
+  unreadCount?: number;
+  hasMore?: boolean;
+  file?: Buffer;
+  fileName?: string;
+  contentType?: string;
+  error?: string;
+  code?: string;
+}
+
+// Main messaging service class
+class MessagingService {
+  /**
+   * Open the thread for a match or offer, creating it on first use
+   */
+  async openThread(
+    userId: string,
+    context: { match_id?: string; offer_id?: string; subject?: string }
+  ): Promise<MessagingResult> {
+    try {
+      const contextColumn = context.offer_id ? 'offer_id' : 'match_id';
+      const contextId = context.offer_id || context.match_id;
+
+      if (!contextId) {
+        return { success: false, error: 'A match or offer is required', code: 'INVALID_INPUT' };
+      }
+
+      // Both tables carry the parties as user IDs
+      const { data: source } = await supabase
+        .from(context.offer_id ? 'partnership_offers' : 'match_scores')
+        .select('id, athlete_id, business_id')
+        .eq('id', contextId)
+        .maybeSingle();
+
+      if (!source) {
+        return {
+          success: false,
+          error: context.offer_id ? 'Offer not found' : 'Match not found',
+          code: 'NOT_FOUND'
+        };
+      }
+
+      if (source.athlete_id !== userId && source.business_id !== userId) {
+        return { success: false, error: 'You are not a party to this partnership', code: 'FORBIDDEN' };
+      }
+
+      // Athletes under 18 can't message businesses until a guardian approves
+      const consentCheck = await guardianConsentService.checkConsent(source.athlete_id);
+      if (!consentCheck.allowed) {
+        return { success: false, error: consentCheck.error, code: consentCheck.code || 'SERVER_ERROR' };
+      }
+
+      const { data: existing } = await supabase
+        .from('message_threads')
+        .select('*')
+        .eq(contextColumn, contextId)
+        .maybeSingle();
+
+      if (existing) {
+        const [thread] = await this.attachProfiles([existing]);
+        return { success: true, thread };
+      }
+
+      // An offer thread also records the match it came from, if any
+      let matchId = context.match_id || null;
+      if (context.offer_id) {
+        const { data: offer } = await supabase
+          .from('partnership_offers')
+          .select('match_id')
+          .eq('id', context.offer_id)
+          .maybeSingle();
+        matchId = offer?.match_id || null;
+      }
+
+      const now = new Date().toISOString();
+      const { data: created, error } = await supabase
+        .from('message_threads')
+        .insert({
+          athlete_id: source.athlete_id,
+          business_id: source.business_id,
+          match_id: context.offer_id ? null : matchId,
+          offer_id: context.offer_id || null,
+          subject: context.subject || null,
+          created_by: userId,
+          created_at: now,
+          updated_at: now
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error creating message thread:', error);
+        return { success: false, error: 'Failed to create thread', code: 'DATABASE_ERROR' };
+      }
+
+      const [thread] = await this.attachProfiles([created]);
+      return { success: true, thread };
+    } catch (error: any) {
+      console.error('Open thread exception:', error);
+      return { success: false, error: error.message || 'Failed to open thread', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * List the user's threads, most recent activity first, with unread counts
+   */
+  async getThreads(userId: string): Promise<MessagingResult> {
+    try {
+      const { data, error } = await supabase
+        .from('message_threads')
+        .select('*')
+        .or(`athlete_id.eq.${userId},business_id.eq.${userId}`)
+        .order('last_message_at', { ascending: false, nullsFirst: false });
+
+      if (error) {
+        console.error('Error getting message threads:', error);
+        return { success: false, error: 'Failed to get threads', code: 'DATABASE_ERROR' };
+      }
+
+      const threads = await this.attachProfiles(data || []);
+      const threadIds = threads.map(thread => thread.id);
+
+      const [{ data: unread }, lastMessages] = await Promise.all([
+        threadIds.length
+          ? supabase
+              .from('thread_messages')
+              .select('thread_id')
+              .eq('recipient_id', userId)
+              .is('read_at', null)
+              .in('thread_id', threadIds)
+          : Promise.resolve({ data: [] as any[] }),
+        Promise.all(threadIds.map(threadId =>
+          supabase
+            .from('thread_messages')
+            .select('*')
+            .eq('thread_id', threadId)
+            .order('created_at', { ascending: false })
+            .limit(1)
+            .maybeSingle()
+            .then(({ data: message }) => message)
+        ))
+      ]);
+
+      return {
+        success: true,
+        threads: threads.map((thread, index) => ({
+          ...thread,
+          last_message: lastMessages[index] || null,
+          unread_count: (unread || []).filter(message => message.thread_id === thread.id).length
+        }))
+      };
+    } catch (error: any) {
+      console.error('Get threads exception:', error);
+      return { success: false, error: error.message || 'Failed to get threads', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Get a single thread the user is a party to
+   */
+  async getThread(threadId: string, userId: string): Promise<MessagingResult> {
+    try {
+      const result = await this.getThreadForParty(threadId, userId);
+      if (!result.success) {
+        return result;
+      }
+
+      const [thread] = await this.attachProfiles([result.thread]);
+      return { success: true, thread };
+    } catch (error: any) {
+      console.error('Get thread exception:', error);
+      return { success: false, error: error.message || 'Failed to get thread', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Page backwards through a thread's history, returned oldest first
+   */
+  async getMessages(
+    threadId: string,
+    userId: string,
+    options: { before?: string; limit?: number } = {}
+  ): Promise<MessagingResult> {
+    try {
+      const result = await this.getThreadForParty(threadId, userId);
+      if (!result.success) {
+        return result;
+      }
+
+      const limit = Math.min(Math.max(1, options.limit || DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE);
+
+      let query = supabase
+        .from('thread_messages')
+        .select('*')
+        .eq('thread_id', threadId);
+
+      if (options.before) {
+        query = query.lt('created_at', options.before);
+      }
+
+      // Fetch one extra row to know whether there is an older page
+      const { data, error } = await query
+        .order('created_at', { ascending: false })
+        .limit(limit + 1);
+
+      if (error) {
+        console.error('Error getting thread messages:', error);
+        return { success: false, error: 'Failed to get messages', code: 'DATABASE_ERROR' };
+      }
+
+      const page = (data || []).slice(0, limit);
+
+      return {
+        success: true,
+        messages: page.reverse(),
+        hasMore: (data || []).length > limit
+      };
+    } catch (error: any) {
+      console.error('Get messages exception:', error);
+      return { success: false, error: error.message || 'Failed to get messages', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Send a message, storing any attachments in object storage first
+   */
+  async sendMessage(
+    threadId: string,
+    senderId: string,
+    content: string,
+    uploads: AttachmentUpload[] = []
+  ): Promise<MessagingResult> {
+    try {
+      const result = await this.getThreadForParty(threadId, senderId);
+      if (!result.success) {
+        return result;
+      }
+
+      const thread = result.thread;
+      const text = (content || '').trim();
+
+      const consentCheck = await guardianConsentService.checkConsent(thread.athlete_id);
+      if (!consentCheck.allowed) {
+        return { success: false, error: consentCheck.error, code: consentCheck.code || 'SERVER_ERROR' };
+      }
+
+      if (!text && uploads.length === 0) {
+        return { success: false, error: 'A message needs text or an attachment', code: 'INVALID_INPUT' };
+      }
+
+      const attachments: MessageAttachment[] = [];
+      for (const upload of uploads) {
+        const ext = path.extname(upload.originalName).toLowerCase();
+        const key = `messages/${threadId}/${uuidv4()}${ext}`;
+
+        const uploaded = await objectStorage.uploadBuffer(key, upload.buffer);
+        if (!uploaded) {
+          return { success: false, error: 'Failed to upload attachment', code: 'STORAGE_ERROR' };
+        }
+
+        attachments.push({
+          key,
+          name: upload.originalName,
+          content_type: upload.mimeType,
+          size: upload.buffer.length
+        });
+      }
+
+      const recipientId = thread.athlete_id === senderId ? thread.business_id : thread.athlete_id;
+      const now = new Date().toISOString();
+
+      const { data: message, error } = await supabase
+        .from('thread_messages')
+        .insert({
+          thread_id: threadId,
+          sender_id: senderId,
+          recipient_id: recipientId,
+          content: text,
+          attachments,
+          created_at: now
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error storing thread message:', error);
+        return { success: false, error: 'Failed to send message', code: 'DATABASE_ERROR' };
+      }
+
+      await supabase
+        .from('message_threads')
+        .update({ last_message_at: now, updated_at: now })
+        .eq('id', threadId);
+
+      const delivered = this.push(recipientId, { type: 'thread_message', threadId, message });
+
+      // Keep the sender's other tabs in sync
+      this.push(senderId, { type: 'thread_message', threadId, message });
+
+      if (delivered === 0) {
+        await this.notifyOffline(recipientId, threadId, text || 'Sent an attachment');
+      }
+
+      return { success: true, message };
+    } catch (error: any) {
+      console.error('Send message exception:', error);
+      return { success: false, error: error.message || 'Failed to send message', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Record read receipts for messages the user received in a thread
+   *
+   * Without message IDs every unread message in the thread is marked read.
+   */
+  async markMessagesRead(threadId: string, userId: string, messageIds?: string[]): Promise<MessagingResult> {
+    try {
+      const result = await this.getThreadForParty(threadId, userId);
+      if (!result.success) {
+        return result;
+      }
+
+      const readAt = new Date().toISOString();
+
+      let query = supabase
+        .from('thread_messages')
+        .update({ read_at: readAt })
+        .eq('thread_id', threadId)
+        .eq('recipient_id', userId)
+        .is('read_at', null);
+
+      if (messageIds && messageIds.length > 0) {
+        query = query.in('id', messageIds);
+      }
+
+      const { data, error } = await query.select('id, sender_id');
+
+      if (error) {
+        console.error('Error marking messages as read:', error);
+        return { success: false, error: 'Failed to mark messages as read', code: 'DATABASE_ERROR' };
+      }
+
+      const readIds = (data || []).map(message => message.id);
+
+      if (readIds.length > 0) {
+        const thread = result.thread;
+        const senderId = thread.athlete_id === userId ? thread.business_id : thread.athlete_id;
+
+        this.push(senderId, {
+          type: 'messages_read',
+          threadId,
+          messageIds: readIds,
+          readBy: userId,
+          readAt
+        });
+      }
+
+      return { success: true, messageIds: readIds };
+    } catch (error: any) {
+      console.error('Mark messages read exception:', error);
+      return { success: false, error: error.message || 'Failed to mark messages as read', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Total unread messages across all of the user's threads
+   */
+  async getUnreadCount(userId: string): Promise<MessagingResult> {
+    try {
+      const { count, error } = await supabase
+        .from('thread_messages')
+        .select('id', { count: 'exact', head: true })
+        .eq('recipient_id', userId)
+        .is('read_at', null);
+
+      if (error) {
+        console.error('Error getting unread message count:', error);
+        return { success: false, error: 'Failed to get unread count', code: 'DATABASE_ERROR' };
+      }
+
+      return { success: true, unreadCount: count || 0 };
+    } catch (error: any) {
+      console.error('Get unread count exception:', error);
+      return { success: false, error: error.message || 'Failed to get unread count', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Relay a typing indicator to the other party. Nothing is stored.
+   */
+  async sendTyping(threadId: string, userId: string, isTyping: boolean): Promise<MessagingResult> {
+    try {
+      const result = await this.getThreadForParty(threadId, userId);
+      if (!result.success) {
+        return result;
+      }
+
+      const thread = result.thread;
+      const otherId = thread.athlete_id === userId ? thread.business_id : thread.athlete_id;
+
+      this.push(otherId, { type: 'typing', threadId, userId, isTyping });
+
+      return { success: true };
+    } catch (error: any) {
+      console.error('Send typing exception:', error);
+      return { success: false, error: error.message || 'Failed to send typing indicator', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Download an attachment from a message in the user's thread
+   */
+  async getAttachment(
+    threadId: string,
+    messageId: string,
+    index: number,
+    userId: string
+  ): Promise<MessagingResult> {
+    try {
+      const result = await this.getThreadForParty(threadId, userId);
+      if (!result.success) {
+        return result;
+      }
+
+      const { data: message } = await supabase
+        .from('thread_messages')
+        .select('attachments')
+        .eq('id', messageId)
+        .eq('thread_id', threadId)
+        .maybeSingle();
+
+      const attachment: MessageAttachment | undefined = message?.attachments?.[index];
+      if (!attachment) {
+        return { success: false, error: 'Attachment not found', code: 'NOT_FOUND' };
+      }
+
+      const file = await objectStorage.downloadBuffer(attachment.key);
+      if (!file) {
+        return { success: false, error: 'Failed to download attachment', code: 'STORAGE_ERROR' };
+      }
+
+      return {
+        success: true,
+        file,
+        fileName: attachment.name,
+        contentType: attachment.content_type
+      };
+    } catch (error: any) {
+      console.error('Get attachment exception:', error);
+      return { success: false, error: error.message || 'Failed to get attachment', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Load a thread and verify the user is one of its parties
+   */
+  private async getThreadForParty(threadId: string, userId: string): Promise<MessagingResult> {
+    if (!threadId) {
+      return { success: false, error: 'Thread ID is required', code: 'INVALID_INPUT' };
+    }
+
+    const { data: thread, error } = await supabase
+      .from('message_threads')
+      .select('*')
+      .eq('id', threadId)
+      .single();
+
+    if (error || !thread) {
+      return { success: false, error: 'Thread not found', code: 'NOT_FOUND' };
+    }
+
+    if (thread.athlete_id !== userId && thread.business_id !== userId) {
+      return { success: false, error: 'You do not have permission to access this thread', code: 'FORBIDDEN' };
+    }
+
+    return { success: true, thread };
+  }
+
+  /**
+   * Attach athlete and business profile summaries for display
+   */
+  private async attachProfiles(threads: any[]): Promise<any[]> {
+    const athleteIds = Array.from(new Set(threads.map(t => t.athlete_id).filter(Boolean)));
+    const businessIds = Array.from(new Set(threads.map(t => t.business_id).filter(Boolean)));
+
+    const [{ data: athletes }, { data: businesses }] = await Promise.all([
+      athleteIds.length
+        ? supabase.from('athlete_profiles').select('id, name, sport, school, profile_image').in('id', athleteIds)
+        : Promise.resolve({ data: [] as any[] }),
+      businessIds.length
+        ? supabase.from('business_profiles').select('id, name, company, industry').in('id', businessIds)
+        : Promise.resolve({ data: [] as any[] })
+    ]);
+
+    return threads.map(thread => ({
+      ...thread,
+      athlete_profile: athletes?.find(a => a.id === thread.athlete_id) || null,
+      business_profile: businesses?.find(b => b.id === thread.business_id) || null
+    }));
+  }
+
+  /**
+   * Push an event to a user's WebSocket channel, returning the number of connections reached
+   */
+  private push(userId: string, event: Record<string, any>): number {
+    if (!wsHelpers.broadcastToChannel) {
+      return 0;
+    }
+
+    return wsHelpers.broadcastToChannel(`user:${userId}`, event);
+  }
+
+  /**
+   * Store a notification for a recipient who is not connected
+   */
+  private async notifyOffline(userId: string, threadId: string, preview: string): Promise<void> {
+    await notificationService.notify(userId, {
+      type: 'NEW_MESSAGE',
+      title: 'New Message',
+      content: preview.length > 140 ? `${preview.slice(0, 137)}...` : preview,
+      referenceType: 'MESSAGE_THREAD',
+      referenceId: threadId,
+      data: { threadId }
+    });
+  }
+}
+
+// Create and export singleton instance
+export const messagingService = new MessagingService();
+export default messagingService;
@@ -0,0 +1,562 @@
+/**
+ * Notification Service
+ *
+ * Single entry point for user notifications. notify() applies the user's
+ * preferences: it stores the notification for the in-app center, pushes it
+ * over WebSocket, emails it, or holds it for the daily digest. Users can also
+ * page through, read and delete their stored notifications.
+ */
+
+import { supabase } from '../lib/supabase';
+import config from '../config/environment';
+import { wsHelpers } from './websocketService';
+import { emailService } from './emailService';
+import {
+  NotificationCategory,
+  NotificationChannels,
+  NotificationPreferences,
+  QuietHours,
+  UpdateNotificationPreferences
+} from '../../shared/schema';
+
+// Page size for the notification list
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+// How often the digest job checks for users whose digest hour has arrived
+const DIGEST_CHECK_INTERVAL = 60 * 60 * 1000; // 1 hour
+
+// Channels used until a user saves their own preferences
+export const DEFAULT_CHANNELS: Record<NotificationCategory, NotificationChannels> = {
+  new_offer: { in_app: true, email: true, digest: false },
+  match_response: { in_app: true, email: false, digest: true },
+  compliance_decision: { in_app: true, email: true, digest: false },
+  message: { in_app: true, email: false, digest: true },
+  payment: { in_app: true, email: true, digest: false }
+};
+
+// Notification types outside the configurable categories are in-app only
+const UNCATEGORIZED_CHANNELS: NotificationChannels = { in_app: true, email: false, digest: false };
+
+export const DEFAULT_QUIET_HOURS: QuietHours = { enabled: false, start: '22:00', end: '07:00' };
+
+// Notification to deliver through notify()
+export interface OutgoingNotification {
+  type: string;
+  title: string;
+  content: string;
+  referenceType?: string;
+  referenceId?: string | number;
+  data?: Record<string, any>; // Extra fields included in the WebSocket payload
+}
+
+/**
+ * Map a notification type to the preference category that controls it
+ */
+export function categoryForType(type: string): NotificationCategory | null {
+  if (type === 'NEW_MESSAGE') return 'message';
+  if (type.includes('OFFER')) return 'new_offer';
+  if (type.startsWith('MATCH_')) return 'match_response';
+  if (type.startsWith('COMPLIANCE_')) return 'compliance_decision';
+  if (/^(PAYMENT|PAYOUT|ESCROW)_/.test(type)) return 'payment';
+  return null;
+}
+
+/**
+ * Wall-clock time for a date in the given IANA time zone
+ */
+export function localTime(date: Date, timeZone: string): { hour: number; minutes: number } {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat('en-US', { timeZone, hour: '2-digit', minute: '2-digit', hourCycle: 'h23' })
+      .formatToParts(date);
+  } catch {
+    parts = new Intl.DateTimeFormat('en-US', { timeZone: 'UTC', hour: '2-digit', minute: '2-digit', hourCycle: 'h23' })
+      .formatToParts(date);
+  }
+
+  const hour = parseInt(parts.find(part => part.type === 'hour')?.value || '0', 10) % 24;
+  const minute = parseInt(parts.find(part => part.type === 'minute')?.value || '0', 10);
+  return { hour, minutes: hour * 60 + minute };
+}
+
+/**
+ * Whether a moment falls inside quiet hours. Windows may wrap past midnight.
+ */
+export function isWithinQuietHours(quietHours: QuietHours, timeZone: string, now = new Date()): boolean {
+  if (!quietHours.enabled) {
+    return false;
+  }
+
+  const toMinutes = (value: string) => {
+    const [hours, minutes] = value.split(':').map(Number);
+    return hours * 60 + minutes;
+  };
+
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  const current = localTime(now, timeZone).minutes;
+
+  if (start === end) return false;
+  return start < end
+    ? current >= start && current < end
+    : current >= start || current < end;
+}
+
+// Interface for notification results
+export interface NotificationResult {
+  success: boolean;
+  notification?: any;
+  notifications?: any[];
+  total?: number;
+  page?: number;
+  limit?: number;
+  unreadCount?: number;
+  updated?: number;
+  preferences?: NotificationPreferences;
+  sent?: number;
+  error?: string;
+  code?: string;
+}
+
+// Main notification service class
+class NotificationService {
+  private digestTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Deliver a notification according to the recipient's preferences
+   *
+   * The row is stored whenever any channel is enabled so the digest and the
+   * in-app center share one history. Quiet hours hold back the live push and
+   * immediate email; held emails are folded into the next digest.
+   */
+  async notify(userId: string, notification: OutgoingNotification): Promise<NotificationResult> {
+    try {
+      const { preferences } = await this.getPreferences(userId);
+      const category = categoryForType(notification.type);
+      const channels = category && preferences
+        ? preferences.channels[category] ?? DEFAULT_CHANNELS[category]
+        : UNCATEGORIZED_CHANNELS;
+
+      if (!channels.in_app && !channels.email && !channels.digest) {
+        return { success: true };
+      }
+
+      const quiet = preferences
+        ? isWithinQuietHours(preferences.quiet_hours, preferences.timezone)
+        : false;
+
+      const { data: stored, error } = await supabase
+        .from('notifications')
+        .insert({
+          user_id: userId,
+          type: notification.type,
+          title: notification.title,
+          content: notification.content,
+          reference_type: notification.referenceType || null,
+          reference_id: notification.referenceId !== undefined ? String(notification.referenceId) : null,
+          is_read: false,
+          in_app: channels.in_app,
+          digest_pending: channels.digest || (channels.email && quiet),
+          created_at: new Date().toISOString()
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error storing notification:', error);
+        return { success: false, error: 'Failed to store notification', code: 'DATABASE_ERROR' };
+      }
+
+      if (channels.in_app && !quiet && wsHelpers.broadcastToChannel) {
+        wsHelpers.broadcastToChannel(`user:${userId}`, {
+          type: 'notification',
+          notification: {
+            id: stored.id,
+            type: notification.type,
+            title: notification.title,
+            content: notification.content,
+            ...(notification.data || {})
+          }
+        });
+      }
+
+      if (channels.email && !quiet) {
+        await this.emailNotification(userId, stored);
+      }
+
+      return { success: true, notification: stored };
+    } catch (error: any) {
+      console.error('Notify exception:', error);
+      return { success: false, error: error.message || 'Failed to send notification', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Get a user's preferences, filling in defaults for anything not saved
+   */
+  async getPreferences(userId: string): Promise<NotificationResult> {
+    try {
+      const { data } = await supabase
+        .from('notification_preferences')
+        .select('*')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      return { success: true, preferences: this.withDefaults(userId, data) };
+    } catch (error: any) {
+      console.error('Get notification preferences exception:', error);
+      return { success: false, error: error.message || 'Failed to get preferences', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Save preference changes, merging them over the current settings
+   */
+  async updatePreferences(userId: string, update: UpdateNotificationPreferences): Promise<NotificationResult> {
+    try {
+      const current = await this.getPreferences(userId);
+      if (!current.success || !current.preferences) {
+        return current;
+      }
+
+      const existing = current.preferences;
+      const channels = { ...existing.channels };
+      for (const [category, change] of Object.entries(update.channels || {})) {
+        const key = category as NotificationCategory;
+        channels[key] = { ...DEFAULT_CHANNELS[key], ...channels[key], ...change };
+      }
+
+      const { data, error } = await supabase
+        .from('notification_preferences')
+        .upsert({
+          user_id: userId,
+          channels,
+          quiet_hours: { ...existing.quiet_hours, ...(update.quiet_hours || {}) },
+          timezone: update.timezone ?? existing.timezone,
+          digest_hour: update.digest_hour ?? existing.digest_hour,
+          updated_at: new Date().toISOString()
+        }, { onConflict: 'user_id' })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error saving notification preferences:', error);
+        return { success: false, error: 'Failed to save preferences', code: 'DATABASE_ERROR' };
+      }
+
+      return { success: true, preferences: this.withDefaults(userId, data) };
+    } catch (error: any) {
+      console.error('Update notification preferences exception:', error);
+      return { success: false, error: error.message || 'Failed to save preferences', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Email each user their pending digest notifications
+   *
+   * Runs hourly; a user's digest goes out when their local time reaches their
+   * digest hour. Pass force to send every pending digest immediately.
+   */
+  async runDigest(options: { now?: Date; force?: boolean } = {}): Promise<NotificationResult> {
+    try {
+      const now = options.now || new Date();
+
+      // Only users whose digest hour has come, worked out in the database
+      const { data: dueUsers, error } = await supabase.rpc('due_digest_users', {
+        at: now.toISOString(),
+        include_all: !!options.force
+      });
+
+      if (error) {
+        console.error('Error finding users due a digest:', error);
+        return { success: false, error: 'Failed to load digest notifications', code: 'DATABASE_ERROR' };
+      }
+
+      let sent = 0;
+      for (const { user_id: userId } of (dueUsers || []) as { user_id: string }[]) {
+        const { data: notifications, error: pendingError } = await supabase
+          .from('notifications')
+          .select('*')
+          .eq('user_id', userId)
+          .eq('digest_pending', true)
+          .order('created_at', { ascending: true });
+
+        if (pendingError) {
+          console.error('Error loading pending digest notifications:', pendingError);
+          continue;
+        }
+
+        if (!notifications || notifications.length === 0) {
+          continue;
+        }
+
+        // Anything read in the meantime no longer needs a digest
+        const unread = notifications.filter(notification => !notification.is_read);
+
+        if (unread.length > 0) {
+          const delivered = await this.emailDigest(userId, unread);
+          if (!delivered) {
+            continue;
+          }
+          sent++;
+        }
+
+        await supabase
+          .from('notifications')
+          .update({ digest_pending: false, digested_at: now.toISOString() })
+          .in('id', notifications.map(notification => notification.id));
+      }
+
+      return { success: true, sent };
+    } catch (error: any) {
+      console.error('Run digest exception:', error);
+      return { success: false, error: error.message || 'Failed to run digest', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Start the hourly digest check
+   */
+  startDigestScheduler(): void {
+    if (this.digestTimer) {
+      return;
+    }
+
+    this.digestTimer = setInterval(() => {
+      this.runDigest().catch(error => console.error('Digest job error:', error));
+    }, DIGEST_CHECK_INTERVAL);
+
+    // Don't keep the process alive just for the digest
+    this.digestTimer.unref();
+  }
+
+  /**
+   * List a user's notifications, newest first
+   */
+  async getNotifications(
+    userId: string,
+    options: { page?: number; limit?: number; unreadOnly?: boolean } = {}
+  ): Promise<NotificationResult> {
+    try {
+      const page = Math.max(1, options.page || 1);
+      const limit = Math.min(Math.max(1, options.limit || DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE);
+      const offset = (page - 1) * limit;
+
+      let query = supabase
+        .from('notifications')
+        .select('*', { count: 'exact' })
+        .eq('user_id', userId)
+        .eq('in_app', true);
+
+      if (options.unreadOnly) {
+        query = query.eq('is_read', false);
+      }
+
+      const { data, error, count } = await query
+        .order('created_at', { ascending: false })
+        .range(offset, offset + limit - 1);
+
+      if (error) {
+        console.error('Error getting notifications:', error);
+        return { success: false, error: 'Failed to get notifications', code: 'DATABASE_ERROR' };
+      }
+
+      const unread = await this.getUnreadCount(userId);
+
+      return {
+        success: true,
+        notifications: data || [],
+        total: count || 0,
+        page,
+        limit,
+        unreadCount: unread.unreadCount || 0
+      };
+    } catch (error: any) {
+      console.error('Get notifications exception:', error);
+      return { success: false, error: error.message || 'Failed to get notifications', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Count a user's unread notifications
+   */
+  async getUnreadCount(userId: string): Promise<NotificationResult> {
+    try {
+      const { count, error } = await supabase
+        .from('notifications')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .eq('in_app', true)
+        .eq('is_read', false);
+
+      if (error) {
+        console.error('Error getting unread notification count:', error);
+        return { success: false, error: 'Failed to get unread count', code: 'DATABASE_ERROR' };
+      }
+
+      return { success: true, unreadCount: count || 0 };
+    } catch (error: any) {
+      console.error('Get unread notification count exception:', error);
+      return { success: false, error: error.message || 'Failed to get unread count', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Mark notifications read. Without IDs every unread notification is marked.
+   */
+  async markRead(userId: string, ids?: string[]): Promise<NotificationResult> {
+    try {
+      let query = supabase
+        .from('notifications')
+        .update({ is_read: true, read_at: new Date().toISOString() })
+        .eq('user_id', userId)
+        .eq('is_read', false);
+
+      if (ids && ids.length > 0) {
+        query = query.in('id', ids);
+      }
+
+      const { data, error } = await query.select('id');
+
+      if (error) {
+        console.error('Error marking notifications read:', error);
+        return { success: false, error: 'Failed to mark notifications read', code: 'DATABASE_ERROR' };
+      }
+
+      const updated = (data || []).map(notification => notification.id);
+
+      // Keep the user's other open tabs in sync
+      if (updated.length > 0 && wsHelpers.broadcastToChannel) {
+        wsHelpers.broadcastToChannel(`user:${userId}`, {
+          type: 'notifications_read',
+          ids: updated
+        });
+      }
+
+      return { success: true, updated: updated.length };
+    } catch (error: any) {
+      console.error('Mark notifications read exception:', error);
+      return { success: false, error: error.message || 'Failed to mark notifications read', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Delete one of the user's notifications
+   */
+  async deleteNotification(userId: string, notificationId: string): Promise<NotificationResult> {
+    try {
+      const { data, error } = await supabase
+        .from('notifications')
+        .delete()
+        .eq('id', notificationId)
+        .eq('user_id', userId)
+        .select('id');
+
+      if (error) {
+        console.error('Error deleting notification:', error);
+        return { success: false, error: 'Failed to delete notification', code: 'DATABASE_ERROR' };
+      }
+
+      if (!data || data.length === 0) {
+        return { success: false, error: 'Notification not found', code: 'NOT_FOUND' };
+      }
+
+      return { success: true };
+    } catch (error: any) {
+      console.error('Delete notification exception:', error);
+      return { success: false, error: error.message || 'Failed to delete notification', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Merge a stored preferences row over the defaults
+   */
+  private withDefaults(userId: string, row: any): NotificationPreferences {
+    const channels = {} as Record<NotificationCategory, NotificationChannels>;
+    for (const category of NotificationCategory.options) {
+      channels[category] = { ...DEFAULT_CHANNELS[category], ...(row?.channels?.[category] || {}) };
+    }
+
+    return {
+      user_id: userId,
+      channels,
+      quiet_hours: { ...DEFAULT_QUIET_HOURS, ...(row?.quiet_hours || {}) },
+      timezone: row?.timezone || 'UTC',
+      digest_hour: row?.digest_hour ?? 8,
+      updated_at: row?.updated_at
+    };
+  }
+
+  /**
+   * Look up the address notifications are emailed to
+   */
+  private async getEmail(userId: string): Promise<string | null> {
+    const { data: user } = await supabase
+      .from('users')
+      .select('email')
+      .eq('id', userId)
+      .maybeSingle();
+
+    return user?.email || null;
+  }
+
+  /**
+   * Email a single notification immediately
+   */
+  private async emailNotification(userId: string, notification: any): Promise<void> {
+    const email = await this.getEmail(userId);
+    if (!email) {
+      return;
+    }
+
+    const result = await emailService.send({
+      to: email,
+      subject: notification.title,
+      text: `${notification.content}\n\nView it on Contested: ${config.SERVER_URL || ''}/dashboard`
+    });
+
+    if (result.success) {
+      await supabase
+        .from('notifications')
+        .update({ emailed_at: new Date().toISOString() })
+        .eq('id', notification.id);
+    } else {
+      console.error('Failed to email notification:', result.error);
+    }
+  }
+
+  /**
+   * Email a batch of notifications as one digest
+   */
+  private async emailDigest(userId: string, notifications: any[]): Promise<boolean> {
+    const email = await this.getEmail(userId);
+    if (!email) {
+      // Nobody to send to - clear the batch rather than retrying forever
+      return true;
+    }
+
+    const lines = notifications.map(notification => `- ${notification.title}: ${notification.content}`);
+    const result = await emailService.send({
+      to: email,
+      subject: `Your Contested digest: ${notifications.length} update${notifications.length === 1 ? '' : 's'}`,
+      text: [
+        'Here is what happened since your last digest:',
+        '',
+        ...lines,
+        '',
+        `View everything on Contested: ${config.SERVER_URL || ''}/dashboard`
+      ].join('\n')
+    });
+
+    if (!result.success) {
+      console.error('Failed to email digest:', result.error);
+    }
+
+    return result.success;
+  }
+}
+
+// Create and export singleton instance
+export const notificationService = new NotificationService();
+export default notificationService;
@@ -0,0 +1,568 @@
+/**
+ * Offer Negotiation Service
+ *
+ * Manages the counter-offer workflow on partnership offers.
+ * Every round of negotiation is stored as a versioned revision in
+ * offer_revisions, and the offer row always mirrors the current revision.
+ */
+
+import { supabase } from '../lib/supabase';
+import { wsHelpers } from './websocketService';
+import { notificationService } from './notificationService';
+import { budgetService } from './budgetService';
+import { compensationService } from './compensationService';
+import { deliverableService } from './deliverableService';
+import { payoutService } from './payoutService';
+import { contractService } from './contractService';
+import { guardianConsentService } from './guardianConsentService';
+import { OfferTerms, OfferTermChange, OfferRevision } from '../../shared/schema';
+
+// Fields that either party may change during a negotiation
+export const NEGOTIABLE_FIELDS: (keyof OfferTerms)[] = [
+  'compensation',
+  'compensation_type',
+  'offer_amount',
+  'payment_schedule',
+  'payment_milestones',
+  'bonus_structure',
+  'deliverables',
+  'term',
+  'start_date',
+  'end_date',
+  'usage_rights',
+  'exclusivity'
+];
+
+// Number of days an offer stays open after each counter
+const COUNTER_EXPIRY_DAYS = 7;
+
+type NegotiationRole = 'athlete' | 'business';
+
+// Interface for negotiation results
+export interface NegotiationResult {
+  success: boolean;
+  offer?: any;
+  revision?: OfferRevision;
+  revisions?: OfferRevision[];
+  escrow?: any;
+  clientSecret?: string | null;
+  contract?: any;
+  error?: string;
+  code?: string;
+  message?: string;
+}
+
+/**
+ * Pull the negotiable terms out of an offer row or request body
+ */
+export function extractOfferTerms(source: Record<string, any>): OfferTerms {
+  const terms: Record<string, any> = {};
+
+  for (const field of NEGOTIABLE_FIELDS) {
+    if (source[field] !== undefined && source[field] !== null) {
+      terms[field] = source[field];
+    }
+  }
+
+  return terms as OfferTerms;
+}
+
+/**
+ * Compute the list of changed terms between two revisions
+ */
+export function diffOfferTerms(previous: OfferTerms, next: OfferTerms): OfferTermChange[] {
+  const changes: OfferTermChange[] = [];
+
+  for (const field of NEGOTIABLE_FIELDS) {
+    if (!(field in next)) continue;
+
+    const from = previous[field];
+    const to = next[field];
+
+    // Deliverables are arrays, so compare by value rather than by reference
+    if (JSON.stringify(from ?? null) !== JSON.stringify(to ?? null)) {
+      changes.push({ field, from: from ?? null, to });
+    }
+  }
+
+  return changes;
+}
+
+// Main offer negotiation service class
+class OfferNegotiationService {
+  /**
+   * Get the revision history of an offer
+   */
+  async getRevisions(offerId: string, userId: string, userRole: string): Promise<NegotiationResult> {
+    try {
+      const offerResult = await this.getOfferForParty(offerId, userId, userRole);
+      if (!offerResult.success) {
+        return offerResult;
+      }
+
+      const { data, error } = await supabase
+        .from('offer_revisions')
+        .select('*')
+        .eq('offer_id', offerId)
+        .order('revision_number', { ascending: true });
+
+      if (error) {
+        console.error('Error getting offer revisions:', error);
+        return {
+          success: false,
+          error: 'Failed to get offer revisions',
+          code: 'DATABASE_ERROR'
+        };
+      }
+
+      return {
+        success: true,
+        offer: offerResult.offer,
+        revisions: data || []
+      };
+    } catch (error: any) {
+      console.error('Get offer revisions exception:', error);
+      return {
+        success: false,
+        error: error.message || 'Failed to get offer revisions',
+        code: 'SERVER_ERROR'
+      };
+    }
+  }
+
+  /**
+   * Record a new revision for an offer and point the offer at it
+   *
+   * Used for the initial offer, business amendments and counter-offers.
+   */
+  async recordRevision(
+    offer: any,
+    authorId: string,
+    authorRole: NegotiationRole,
+    terms: OfferTerms,
+    message?: string
+  ): Promise<NegotiationResult> {
+    try {
+      // Get the latest revision to diff against
+      const { data: previous } = await supabase
+        .from('offer_revisions')
+        .select('revision_number, terms')
+        .eq('offer_id', offer.id)
+        .order('revision_number', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      const revisionNumber = (previous?.revision_number || 0) + 1;
+      const previousTerms: OfferTerms = previous?.terms || {};
+      const fullTerms: OfferTerms = { ...previousTerms, ...terms };
+      const changes = previous ? diffOfferTerms(previousTerms, terms) : [];
+
+      const { data: revision, error } = await supabase
+        .from('offer_revisions')
+        .insert({
+          offer_id: offer.id,
+          revision_number: revisionNumber,
+          author_id: authorId,
+          author_role: authorRole,
+          terms: fullTerms,
+          changes,
+          message: message || null,
+          created_at: new Date().toISOString()
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error creating offer revision:', error);
+        return {
+          success: false,
+          error: 'Failed to record offer revision',
+          code: 'DATABASE_ERROR'
+        };
+      }
+
+      const { data: updatedOffer, error: updateError } = await supabase
+        .from('partnership_offers')
+        .update({
+          current_revision_id: revision.id,
+          revision_count: revisionNumber,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', offer.id)
+        .select()
+        .single();
+
+      if (updateError) {
+        console.error('Error pointing offer at revision:', updateError);
+        return {
+          success: false,
+          error: 'Failed to update offer revision',
+          code: 'DATABASE_ERROR'
+        };
+      }
+
+      return {
+        success: true,
+        offer: updatedOffer,
+        revision
+      };
+    } catch (error: any) {
+      console.error('Record offer revision exception:', error);
+      return {
+        success: false,
+        error: error.message || 'Failed to record offer revision',
+        code: 'SERVER_ERROR'
+      };
+    }
+  }
+
+  /**
+   * Submit a counter-offer
+   *
+   * Athletes may counter a pending offer; businesses may counter back
+   * once the athlete has countered.
+   */
+  async counterOffer(
+    offerId: string,
+    userId: string,
+    userRole: string,
+    terms: OfferTerms,
+    message?: string
+  ): Promise<NegotiationResult> {
+    try {
+      const offerResult = await this.getOfferForParty(offerId, userId, userRole);
+      if (!offerResult.success) {
+        return offerResult;
+      }
+
+      const offer = offerResult.offer;
+      const role = userRole as NegotiationRole;
+      const expectedStatus = role === 'athlete' ? 'pending' : 'countered';
+
+      if (offer.status !== expectedStatus) {
+        return {
+          success: false,
+          error: role === 'athlete'
+            ? `Cannot counter an offer with status ${offer.status}`
+            : 'You can only counter after the athlete has countered',
+          code: 'INVALID_OPERATION'
+        };
+      }
+
+      const counterTerms = extractOfferTerms(terms);
+
+      // Keep the structured compensation and its cash mirror in step
+      if (counterTerms.compensation || counterTerms.compensation_type || counterTerms.offer_amount !== undefined) {
+        const compensationResult = compensationService.resolveOfferCompensation(
+          counterTerms.compensation
+            ? counterTerms
+            : {
+                compensation_type: counterTerms.compensation_type ?? offer.compensation_type,
+                offer_amount: counterTerms.offer_amount ?? offer.offer_amount
+              }
+        );
+
+        if (!compensationResult.success || !compensationResult.fields) {
+          return { success: false, error: compensationResult.error, code: compensationResult.code };
+        }
+
+        // The athlete sets their own ask, but a business can't counter below the athlete's floor
+        if (role === 'business') {
+          const minimumCheck = await compensationService.checkAthleteMinimum(
+            offer.athlete_id,
+            compensationResult.fields.compensation,
+            counterTerms.deliverables ?? offer.deliverables
+          );
+
+          if (!minimumCheck.success) {
+            return { success: false, error: minimumCheck.error, code: minimumCheck.code };
+          }
+        }
+
+        Object.assign(counterTerms, compensationResult.fields);
+      }
+
+      // Existing milestones must still add up to the countered cash
+      if (counterTerms.payment_milestones || counterTerms.offer_amount !== undefined || counterTerms.deliverables) {
+        const milestoneResult = compensationService.resolveMilestones(
+          counterTerms.payment_milestones ?? offer.payment_milestones,
+          Number(counterTerms.offer_amount ?? offer.offer_amount) || 0,
+          counterTerms.deliverables ?? offer.deliverables
+        );
+
+        if (!milestoneResult.success) {
+          return { success: false, error: milestoneResult.error, code: milestoneResult.code };
+        }
+
+        if (milestoneResult.milestones) {
+          counterTerms.payment_milestones = milestoneResult.milestones;
+        }
+      }
+
+      const changes = diffOfferTerms(extractOfferTerms(offer), counterTerms);
+
+      if (changes.length === 0) {
+        return {
+          success: false,
+          error: 'A counter-offer must change at least one term',
+          code: 'INVALID_INPUT'
+        };
+      }
+
+      // Offers created before revisions existed get their original terms backfilled
+      if (!offer.revision_count) {
+        const baseline = await this.recordRevision(offer, offer.business_id, 'business', extractOfferTerms(offer));
+        if (!baseline.success) {
+          return baseline;
+        }
+      }
+
+      const revisionResult = await this.recordRevision(offer, userId, role, counterTerms, message);
+      if (!revisionResult.success) {
+        return revisionResult;
+      }
+
+      const expiresAt = new Date();
+      expiresAt.setDate(expiresAt.getDate() + COUNTER_EXPIRY_DAYS);
+
+      // Apply the countered terms to the offer and hand the turn to the other party
+      const { data: updatedOffer, error: updateError } = await supabase
+        .from('partnership_offers')
+        .update({
+          ...counterTerms,
+          status: role === 'athlete' ? 'countered' : 'pending',
+          last_countered_by: role,
+          athlete_response: role === 'athlete' ? message || null : offer.athlete_response,
+          expires_at: expiresAt.toISOString(),
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', offerId)
+        .select()
+        .single();
+
+      if (updateError) {
+        console.error('Error applying counter-offer:', updateError);
+        return {
+          success: false,
+          error: 'Failed to apply counter-offer',
+          code: 'DATABASE_ERROR'
+        };
+      }
+
+      const recipientId = role === 'athlete' ? offer.business_id : offer.athlete_id;
+      const counterpartLabel = role === 'athlete' ? 'An athlete' : 'A business';
+
+      await this.notifyParties(updatedOffer, recipientId, {
+        type: 'OFFER_COUNTERED',
+        title: 'Counter-Offer Received',
+        content: `${counterpartLabel} has countered your offer${message ? ': ' + message : ''}`,
+        revisionNumber: revisionResult.revision?.revision_number
+      });
+
+      return {
+        success: true,
+        offer: updatedOffer,
+        revision: revisionResult.revision,
+        message: 'Counter-offer submitted successfully'
+      };
+    } catch (error: any) {
+      console.error('Counter offer exception:', error);
+      return {
+        success: false,
+        error: error.message || 'Failed to submit counter-offer',
+        code: 'SERVER_ERROR'
+      };
+    }
+  }
+
+  /**
+   * Accept or decline an athlete's counter-offer as the business
+   */
+  async respondToCounter(
+    offerId: string,
+    userId: string,
+    response: 'accepted' | 'declined',
+    message?: string
+  ): Promise<NegotiationResult> {
+    try {
+      const offerResult = await this.getOfferForParty(offerId, userId, 'business');
+      if (!offerResult.success) {
+        return offerResult;
+      }
+
+      const offer = offerResult.offer;
+
+      if (offer.status !== 'countered') {
+        return {
+          success: false,
+          error: 'There is no counter-offer awaiting your response',
+          code: 'INVALID_OPERATION'
+        };
+      }
+
+      if (response === 'accepted') {
+        // Athletes under 18 need a guardian's approval before a deal is struck
+        const consentCheck = await guardianConsentService.checkConsent(offer.athlete_id);
+        if (!consentCheck.allowed) {
+          return { success: false, error: consentCheck.error, code: consentCheck.code || 'SERVER_ERROR' };
+        }
+
+        // The athlete's asking amount may not fit what's left of the campaign budget
+        const budgetCheck = await budgetService.checkOffer(offer.campaign_id, offer.offer_amount, {
+          excludeOfferId: offerId
+        });
+
+        if (!budgetCheck.allowed) {
+          return {
+            success: false,
+            error: budgetCheck.error || 'Campaign budget could not be checked',
+            code: budgetCheck.code || 'SERVER_ERROR'
+          };
+        }
+      }
+
+      const { data: updatedOffer, error: updateError } = await supabase
+        .from('partnership_offers')
+        .update({
+          status: response,
+          business_response: message || null,
+          responded_at: new Date().toISOString(),
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', offerId)
+        .select()
+        .single();
+
+      if (updateError) {
+        console.error('Error responding to counter-offer:', updateError);
+        return {
+          success: false,
+          error: 'Failed to update offer status',
+          code: 'DATABASE_ERROR'
+        };
+      }
+
+      // Break the accepted offer into dated deliverables, charge the business into escrow and draw up the contract
+      let escrowResult = null;
+      let contractResult = null;
+      if (response === 'accepted') {
+        const deliverablesResult = await deliverableService.createFromOffer(updatedOffer);
+        if (!deliverablesResult.success) {
+          console.error('Failed to create deliverables for offer:', deliverablesResult.error);
+        }
+
+        escrowResult = await payoutService.fundOffer(updatedOffer);
+        if (!escrowResult.success) {
+          console.error('Failed to fund escrow for offer:', escrowResult.error);
+        }
+
+        contractResult = await contractService.generateForOffer(updatedOffer);
+        if (!contractResult.success) {
+          console.error('Failed to generate contract for offer:', contractResult.error);
+        }
+      }
+
+      await this.notifyParties(updatedOffer, offer.athlete_id, {
+        type: `COUNTER_OFFER_${response.toUpperCase()}`,
+        title: `Counter-Offer ${response === 'accepted' ? 'Accepted' : 'Declined'}`,
+        content: `A business has ${response} your counter-offer${message ? ': ' + message : ''}`
+      });
+
+      return {
+        success: true,
+        offer: updatedOffer,
+        escrow: escrowResult?.escrow || null,
+        clientSecret: escrowResult?.clientSecret || null,
+        contract: contractResult?.contract || null,
+        message: `Counter-offer ${response} successfully`
+      };
+    } catch (error: any) {
+      console.error('Respond to counter-offer exception:', error);
+      return {
+        success: false,
+        error: error.message || 'Failed to respond to counter-offer',
+        code: 'SERVER_ERROR'
+      };
+    }
+  }
+
+  /**
+   * Load an offer and verify the user is one of its parties
+   */
+  private async getOfferForParty(offerId: string, userId: string, userRole: string): Promise<NegotiationResult> {
+    if (!offerId) {
+      return {
+        success: false,
+        error: 'Offer ID is required',
+        code: 'INVALID_INPUT'
+      };
+    }
+
+    const { data: offer, error } = await supabase
+      .from('partnership_offers')
+      .select('*')
+      .eq('id', offerId)
+      .single();
+
+    if (error || !offer) {
+      return {
+        success: false,
+        error: 'Offer not found',
+        code: 'NOT_FOUND'
+      };
+    }
+
+    const isParty =
+      (userRole === 'athlete' && offer.athlete_id === userId) ||
+      (userRole === 'business' && offer.business_id === userId) ||
+      userRole === 'admin' ||
+      userRole === 'compliance';
+
+    if (!isParty) {
+      return {
+        success: false,
+        error: 'You do not have permission to access this offer',
+        code: 'FORBIDDEN'
+      };
+    }
+
+    return {
+      success: true,
+      offer
+    };
+  }
+
+  /**
+   * Notify the recipient and push a live update to the other party
+   */
+  private async notifyParties(
+    offer: any,
+    recipientId: string,
+    notification: { type: string; title: string; content: string; [key: string]: any }
+  ): Promise<void> {
+    const { type, title, content, ...extra } = notification;
+    const data = { offerId: offer.id, status: offer.status, ...extra };
+
+    await notificationService.notify(recipientId, {
+      type,
+      title,
+      content,
+      referenceType: 'OFFER',
+      referenceId: offer.id,
+      data
+    });
+
+    // The other party only needs the live update so their view refreshes
+    const otherPartyId = recipientId === offer.athlete_id ? offer.business_id : offer.athlete_id;
+    if (wsHelpers.broadcastToChannel) {
+      wsHelpers.broadcastToChannel(`user:${otherPartyId}`, {
+        type: 'notification',
+        notification: { type, title, content, ...data }
+      });
+    }
+  }
+}
+
+// Create and export singleton instance
+export const offerNegotiationService = new OfferNegotiationService();
+export default offerNegotiationService;
@@ -0,0 +1,278 @@
+/**
+ * Payment Provider
+ *
+ * The money-moving calls the payout service needs, behind one interface.
+ * StripeConnectProvider talks to Stripe Connect (separate charges and
+ * transfers); InMemoryPaymentProvider keeps everything in process so local
+ * development and tests never touch a live account. Amounts are in major
+ * currency units (dollars) at this boundary.
+ */
+
+import Stripe from 'stripe';
+import { v4 as uuidv4 } from 'uuid';
+import config from '../config/environment';
+
+// A connected account as the provider reports it
+export interface ProviderAccount {
+  id: string;
+  detailsSubmitted: boolean;
+  payoutsEnabled: boolean;
+}
+
+// Outcome of charging a business into escrow
+export interface ProviderCharge {
+  id: string;
+  status: 'succeeded' | 'processing' | 'requires_action' | 'failed';
+  clientSecret?: string | null;
+  failureReason?: string;
+}
+
+export interface EscrowChargeInput {
+  amount: number;
+  currency: string;
+  customerId?: string | null;
+  transferGroup: string;
+  description: string;
+  metadata: Record<string, string>;
+}
+
+export interface TransferInput {
+  amount: number;
+  currency: string;
+  accountId: string;
+  transferGroup: string;
+  idempotencyKey?: string; // Same key, same transfer: retries never pay twice
+  metadata: Record<string, string>;
+}
+
+// Anything that can onboard athletes, hold business funds and pay them out
+export interface PaymentProvider {
+  name: string;
+  createConnectedAccount(input: { userId: string; email?: string | null }): Promise<ProviderAccount>;
+  getConnectedAccount(accountId: string): Promise<ProviderAccount>;
+  createOnboardingLink(accountId: string, urls: { refreshUrl: string; returnUrl: string }): Promise<string>;
+  chargeForEscrow(input: EscrowChargeInput): Promise<ProviderCharge>;
+  transferToAccount(input: TransferInput): Promise<{ id: string }>;
+  refundCharge(chargeId: string, amount?: number): Promise<{ id: string }>;
+}
+
+function toMinorUnits(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+/**
+ * Stripe Connect with Express accounts
+ *
+ * The business is charged on the platform account with the offer as the
+ * transfer group; approved work is paid out with transfers from that balance.
+ */
+export class StripeConnectProvider implements PaymentProvider {
+  name = 'stripe';
+
+  private stripe: Stripe;
+
+  constructor(secretKey: string) {
+    this.stripe = new Stripe(secretKey, { apiVersion: '2025-02-24.acacia' });
+  }
+
+  async createConnectedAccount(input: { userId: string; email?: string | null }): Promise<ProviderAccount> {
+    const account = await this.stripe.accounts.create({
+      type: 'express',
+      email: input.email || undefined,
+      capabilities: { transfers: { requested: true } },
+      metadata: { user_id: input.userId }
+    });
+
+    return this.toAccount(account);
+  }
+
+  async getConnectedAccount(accountId: string): Promise<ProviderAccount> {
+    return this.toAccount(await this.stripe.accounts.retrieve(accountId));
+  }
+
+  async createOnboardingLink(accountId: string, urls: { refreshUrl: string; returnUrl: string }): Promise<string> {
+    const link = await this.stripe.accountLinks.create({
+      account: accountId,
+      refresh_url: urls.refreshUrl,
+      return_url: urls.returnUrl,
+      type: 'account_onboarding'
+    });
+
+    return link.url;
+  }
+
+  async chargeForEscrow(input: EscrowChargeInput): Promise<ProviderCharge> {
+    // Charge the saved default card when there is one; otherwise the business confirms in the browser
+    let paymentMethod: string | undefined;
+    if (input.customerId) {
+      const customer = await this.stripe.customers.retrieve(input.customerId);
+      const defaultMethod = !customer.deleted ? customer.invoice_settings?.default_payment_method : null;
+      paymentMethod = typeof defaultMethod === 'string' ? defaultMethod : defaultMethod?.id;
+    }
+
+    try {
+      const intent = await this.stripe.paymentIntents.create({
+        amount: toMinorUnits(input.amount),
+        currency: input.currency.toLowerCase(),
+        customer: input.customerId || undefined,
+        description: input.description,
+        transfer_group: input.transferGroup,
+        metadata: input.metadata,
+        ...(paymentMethod ? { payment_method: paymentMethod, confirm: true, off_session: true } : {})
+      });
+
+      return {
+        id: intent.id,
+        status: intent.status === 'succeeded'
+          ? 'succeeded'
+          : intent.status === 'processing'
+            ? 'processing'
+            : 'requires_action',
+        clientSecret: intent.client_secret
+      };
+    } catch (error: any) {
+      if (error instanceof Stripe.errors.StripeCardError) {
+        return {
+          id: error.payment_intent?.id || '',
+          status: 'failed',
+          failureReason: error.message
+        };
+      }
+      throw error;
+    }
+  }
+
+  async transferToAccount(input: TransferInput): Promise<{ id: string }> {
+    const transfer = await this.stripe.transfers.create({
+      amount: toMinorUnits(input.amount),
+      currency: input.currency.toLowerCase(),
+      destination: input.accountId,
+      transfer_group: input.transferGroup,
+      metadata: input.metadata
+    }, input.idempotencyKey ? { idempotencyKey: input.idempotencyKey } : undefined);
+
+    return { id: transfer.id };
+  }
+
+  async refundCharge(chargeId: string, amount?: number): Promise<{ id: string }> {
+    const refund = await this.stripe.refunds.create({
+      payment_intent: chargeId,
+      ...(amount !== undefined ? { amount: toMinorUnits(amount) } : {})
+    });
+
+    return { id: refund.id };
+  }
+
+  private toAccount(account: Stripe.Account): ProviderAccount {
+    return {
+      id: account.id,
+      detailsSubmitted: !!account.details_submitted,
+      payoutsEnabled: !!account.payouts_enabled
+    };
+  }
+}
+
+/**
+ * In-process stand-in for local development and tests
+ *
+ * Onboarding completes as soon as the link is requested, charges succeed
+ * unless failNextCharge() is called, and every call is kept for inspection.
+ */
+export class InMemoryPaymentProvider implements PaymentProvider {
+  name = 'memory';
+
+  readonly accounts = new Map<string, ProviderAccount & { userId: string }>();
+  readonly charges: Array<EscrowChargeInput & { id: string; refunded: number }> = [];
+  readonly transfers: Array<TransferInput & { id: string }> = [];
+
+  private nextChargeFailure: string | null = null;
+
+  async createConnectedAccount(input: { userId: string; email?: string | null }): Promise<ProviderAccount> {
+    const account = { id: `acct_mem_${uuidv4()}`, userId: input.userId, detailsSubmitted: false, payoutsEnabled: false };
+    this.accounts.set(account.id, account);
+    return { ...account };
+  }
+
+  async getConnectedAccount(accountId: string): Promise<ProviderAccount> {
+    const account = this.accounts.get(accountId);
+    if (!account) {
+      throw new Error(`No such account: ${accountId}`);
+    }
+    return { id: account.id, detailsSubmitted: account.detailsSubmitted, payoutsEnabled: account.payoutsEnabled };
+  }
+
+  async createOnboardingLink(accountId: string, urls: { refreshUrl: string; returnUrl: string }): Promise<string> {
+    this.completeOnboarding(accountId);
+    return urls.returnUrl;
+  }
+
+  async chargeForEscrow(input: EscrowChargeInput): Promise<ProviderCharge> {
+    const id = `pi_mem_${uuidv4()}`;
+
+    if (this.nextChargeFailure) {
+      const failureReason = this.nextChargeFailure;
+      this.nextChargeFailure = null;
+      return { id, status: 'failed', failureReason };
+    }
+
+    this.charges.push({ ...input, id, refunded: 0 });
+    return { id, status: 'succeeded' };
+  }
+
+  async transferToAccount(input: TransferInput): Promise<{ id: string }> {
+    const account = this.accounts.get(input.accountId);
+    if (!account?.payoutsEnabled) {
+      throw new Error(`Account ${input.accountId} cannot receive transfers`);
+    }
+
+    const previous = input.idempotencyKey
+      ? this.transfers.find(candidate => candidate.idempotencyKey === input.idempotencyKey)
+      : undefined;
+    if (previous) {
+      return { id: previous.id };
+    }
+
+    const transfer = { ...input, id: `tr_mem_${uuidv4()}` };
+    this.transfers.push(transfer);
+    return { id: transfer.id };
+  }
+
+  async refundCharge(chargeId: string, amount?: number): Promise<{ id: string }> {
+    const charge = this.charges.find(candidate => candidate.id === chargeId);
+    if (!charge) {
+      throw new Error(`No such charge: ${chargeId}`);
+    }
+
+    charge.refunded += amount ?? charge.amount - charge.refunded;
+    return { id: `re_mem_${uuidv4()}` };
+  }
+
+  completeOnboarding(accountId: string): void {
+    const account = this.accounts.get(accountId);
+    if (account) {
+      account.detailsSubmitted = true;
+      account.payoutsEnabled = true;
+    }
+  }
+
+  failNextCharge(reason = 'Your card was declined.'): void {
+    this.nextChargeFailure = reason;
+  }
+}
+
+/**
+ * Stripe when a secret key is configured, otherwise the in-memory stand-in
+ * (never in production, where it would accept money it cannot move)
+ */
+export function createPaymentProvider(): PaymentProvider {
+  if (config.STRIPE_SECRET_KEY && process.env.PAYMENT_PROVIDER !== 'memory') {
+    return new StripeConnectProvider(config.STRIPE_SECRET_KEY);
+  }
+
+  if (config.isProduction) {
+    throw new Error('The in-memory payment provider cannot be used in production; configure STRIPE_SECRET_KEY');
+  }
+
+  console.warn('Stripe is not configured; athlete payouts use the in-memory payment provider.');
+  return new InMemoryPaymentProvider();
+}
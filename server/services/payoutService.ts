@@ -0,0 +1,1316 @@
+/**
+ * Payout Service
+ *
+ * Pays athletes through the platform. Athletes onboard a connected account
+ * with the payment provider; accepting an offer charges the business into an
+ * escrow held against the offer. The escrow is split into milestones (the
+ * offer's payment_milestones, or one equal part per deliverable) and each
+ * milestone is released as a payout when its trigger is met or the business
+ * approves it. Either party can dispute a milestone, which freezes it until
+ * the dispute is withdrawn or an admin settles it. Payouts that can't be
+ * transferred yet (no active account) wait as pending and go out once
+ * onboarding finishes.
+ */
+
+import { supabase } from '../lib/supabase';
+import { notificationService } from './notificationService';
+import { offerCash } from './budgetService';
+import { createPaymentProvider, PaymentProvider, ProviderAccount } from './paymentProvider';
+import {
+  compensationSchema,
+  EarningsSummary,
+  EscrowWithMilestones,
+  MilestoneResolution,
+  MilestoneStatus,
+  PaymentMilestone,
+  paymentMilestonesSchema,
+  PayoutAccountStatus,
+  PayoutHistoryItem
+} from '../../shared/schema';
+
+// Periods the earnings tab can show
+export type EarningsPeriod = 'thisWeek' | 'thisMonth' | 'lastMonth' | 'thisYear';
+
+// Interface for payout results
+export interface PayoutResult {
+  success: boolean;
+  account?: any;
+  escrow?: any;
+  escrows?: EscrowWithMilestones[];
+  milestone?: any;
+  milestones?: any[];
+  payout?: any;
+  payouts?: any[];
+  summary?: EarningsSummary;
+  history?: PayoutHistoryItem[];
+  series?: Array<{ date: string; amount: number }>;
+  url?: string;
+  clientSecret?: string | null;
+  error?: string;
+  code?: string;
+  message?: string;
+}
+
+function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Start and end of an earnings period, plus the start of the period before
+ * it so the tab can show a change percentage
+ */
+export function periodRange(period: EarningsPeriod, now = new Date()): { start: Date; end: Date; previousStart: Date } {
+  const year = now.getFullYear();
+  const month = now.getMonth();
+
+  switch (period) {
+    case 'thisWeek': {
+      const start = new Date(year, month, now.getDate() - now.getDay());
+      return { start, end: now, previousStart: new Date(start.getTime() - 7 * 24 * 60 * 60 * 1000) };
+    }
+    case 'lastMonth':
+      return { start: new Date(year, month - 1, 1), end: new Date(year, month, 1), previousStart: new Date(year, month - 2, 1) };
+    case 'thisYear':
+      return { start: new Date(year, 0, 1), end: now, previousStart: new Date(year - 1, 0, 1) };
+    case 'thisMonth':
+    default:
+      return { start: new Date(year, month, 1), end: now, previousStart: new Date(year, month - 1, 1) };
+  }
+}
+
+/**
+ * Milestones for an offer that didn't define its own: one equal part per
+ * deliverable (the last takes the rounding remainder), or a single manual
+ * release when there are no deliverables to tie it to
+ */
+export function defaultMilestones(amount: number, deliverables: Array<{ sequence: number }>): PaymentMilestone[] {
+  if (deliverables.length === 0) {
+    return [{ title: 'Full payment', amount, trigger: 'manual' }];
+  }
+
+  const share = roundMoney(amount / deliverables.length);
+  return deliverables.map((deliverable, index) => ({
+    title: `Deliverable ${deliverable.sequence}`,
+    amount: index === deliverables.length - 1 ? roundMoney(amount - share * (deliverables.length - 1)) : share,
+    trigger: 'deliverable',
+    deliverable_sequence: deliverable.sequence
+  }));
+}
+
+function accountStatus(account: ProviderAccount): PayoutAccountStatus {
+  if (account.payoutsEnabled) return 'active';
+  return account.detailsSubmitted ? 'restricted' : 'pending';
+}
+
+// Main payout service class
+class PayoutService {
+  private provider: PaymentProvider = createPaymentProvider();
+
+  /**
+   * Replace the payment provider
+   */
+  setProvider(provider: PaymentProvider): void {
+    this.provider = provider;
+  }
+
+  getProviderName(): string {
+    return this.provider.name;
+  }
+
+  /**
+   * Get an athlete's payout account, refreshing it from the provider while onboarding is unfinished
+   */
+  async getAccount(userId: string): Promise<PayoutResult> {
+    try {
+      const { data: account, error } = await supabase
+        .from('payout_accounts')
+        .select('*')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error loading payout account:', error);
+        return { success: false, error: 'Failed to load payout account', code: 'DATABASE_ERROR' };
+      }
+
+      if (account && account.status !== 'active' && account.provider === this.provider.name) {
+        const synced = await this.syncAccount(account.provider_account_id);
+        // Fall back to the stored state if the provider can't be reached
+        return synced.success ? synced : { success: true, account };
+      }
+
+      return { success: true, account: account || null };
+    } catch (error: any) {
+      console.error('Get payout account exception:', error);
+      return { success: false, error: error.message || 'Failed to get payout account', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Create the athlete's connected account if needed and return an onboarding link
+   */
+  async startOnboarding(
+    userId: string,
+    urls: { refreshUrl: string; returnUrl: string }
+  ): Promise<PayoutResult> {
+    try {
+      let { data: account } = await supabase
+        .from('payout_accounts')
+        .select('*')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      // Accounts made with another provider (e.g. the local stand-in) can't be reused
+      if (!account || account.provider !== this.provider.name) {
+        const { data: user } = await supabase
+          .from('users')
+          .select('email')
+          .eq('id', userId)
+          .maybeSingle();
+
+        const created = await this.provider.createConnectedAccount({ userId, email: user?.email });
+
+        const { data: saved, error } = await supabase
+          .from('payout_accounts')
+          .upsert({
+            user_id: userId,
+            provider: this.provider.name,
+            provider_account_id: created.id,
+            status: accountStatus(created),
+            details_submitted: created.detailsSubmitted,
+            payouts_enabled: created.payoutsEnabled,
+            updated_at: new Date().toISOString()
+          }, { onConflict: 'user_id' })
+          .select()
+          .single();
+
+        if (error) {
+          console.error('Error saving payout account:', error);
+          return { success: false, error: 'Failed to save payout account', code: 'DATABASE_ERROR' };
+        }
+
+        account = saved;
+      }
+
+      const url = await this.provider.createOnboardingLink(account.provider_account_id, urls);
+
+      return { success: true, account, url };
+    } catch (error: any) {
+      console.error('Start payout onboarding exception:', error);
+      return { success: false, error: error.message || 'Failed to start payout onboarding', code: 'PROVIDER_ERROR' };
+    }
+  }
+
+  /**
+   * Pull a connected account's state from the provider; when it becomes
+   * active, send any payouts that were waiting on it
+   */
+  async syncAccount(providerAccountId: string): Promise<PayoutResult> {
+    try {
+      const { data: existing } = await supabase
+        .from('payout_accounts')
+        .select('*')
+        .eq('provider_account_id', providerAccountId)
+        .maybeSingle();
+
+      if (!existing) {
+        return { success: false, error: 'Payout account not found', code: 'NOT_FOUND' };
+      }
+
+      const remote = await this.provider.getConnectedAccount(providerAccountId);
+      const status = accountStatus(remote);
+
+      const { data: account, error } = await supabase
+        .from('payout_accounts')
+        .update({
+          status,
+          details_submitted: remote.detailsSubmitted,
+          payouts_enabled: remote.payoutsEnabled,
+          updated_at: new Date().toISOString()
+        })
+        .eq('user_id', existing.user_id)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error updating payout account:', error);
+        return { success: false, error: 'Failed to update payout account', code: 'DATABASE_ERROR' };
+      }
+
+      if (status === 'active' && existing.status !== 'active') {
+        await this.processPendingPayouts(existing.user_id);
+      }
+
+      return { success: true, account };
+    } catch (error: any) {
+      console.error('Sync payout account exception:', error);
+      return { success: false, error: error.message || 'Failed to sync payout account', code: 'PROVIDER_ERROR' };
+    }
+  }
+
+  /**
+   * Charge the business into escrow for an accepted offer
+   *
+   * Safe to call more than once; only a missing or failed escrow is charged
+   * again. Offers with no guaranteed cash (product-only, commission-only)
+   * have nothing to hold.
+   */
+  async fundOffer(offer: any): Promise<PayoutResult> {
+    try {
+      const amount = roundMoney(offerCash(offer));
+      if (amount <= 0) {
+        return { success: true, escrow: null, message: 'Offer has no cash to hold in escrow' };
+      }
+
+      const { data: existing } = await supabase
+        .from('escrows')
+        .select('*')
+        .eq('offer_id', offer.id)
+        .maybeSingle();
+
+      if (existing && existing.status !== 'failed') {
+        return { success: true, escrow: existing, message: 'Offer is already in escrow' };
+      }
+
+      const compensation = compensationSchema.safeParse(offer.compensation);
+      const currency = compensation.success ? compensation.data.currency : 'USD';
+
+      const { data: escrow, error } = await supabase
+        .from('escrows')
+        .upsert({
+          ...(existing ? { id: existing.id } : {}),
+          offer_id: offer.id,
+          campaign_id: offer.campaign_id || null,
+          athlete_id: offer.athlete_id,
+          business_id: offer.business_id,
+          amount,
+          released_amount: 0,
+          refunded_amount: 0,
+          currency,
+          status: 'pending',
+          provider: this.provider.name,
+          failure_reason: null,
+          updated_at: new Date().toISOString()
+        }, { onConflict: 'offer_id' })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error creating escrow:', error);
+        return { success: false, error: 'Failed to create escrow', code: 'DATABASE_ERROR' };
+      }
+
+      const milestonesResult = await this.createMilestones(escrow, offer);
+      if (!milestonesResult.success) {
+        return milestonesResult;
+      }
+
+      const { data: business } = await supabase
+        .from('users')
+        .select('stripe_customer_id')
+        .eq('id', offer.business_id)
+        .maybeSingle();
+
+      let charge;
+      try {
+        charge = await this.provider.chargeForEscrow({
+          amount,
+          currency,
+          customerId: business?.stripe_customer_id,
+          transferGroup: `offer_${offer.id}`,
+          description: `Escrow for partnership offer ${offer.id}`,
+          metadata: { escrow_id: escrow.id, offer_id: offer.id }
+        });
+      } catch (providerError: any) {
+        console.error('Escrow charge error:', providerError);
+        charge = { id: '', status: 'failed' as const, failureReason: providerError.message || 'Payment provider error' };
+      }
+
+      const updated = await this.applyChargeStatus(escrow, charge.id || null, charge.status, charge.failureReason);
+
+      return {
+        success: true,
+        escrow: updated,
+        clientSecret: charge.status === 'requires_action' ? charge.clientSecret : null,
+        message: charge.status === 'failed'
+          ? `Escrow funding failed: ${charge.failureReason || 'payment declined'}`
+          : charge.status === 'succeeded'
+            ? 'Offer funded into escrow'
+            : 'Escrow payment is awaiting confirmation'
+      };
+    } catch (error: any) {
+      console.error('Fund offer escrow exception:', error);
+      return { success: false, error: error.message || 'Failed to fund escrow', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Retry funding an accepted offer whose escrow charge failed (business)
+   */
+  async retryFunding(offerId: string, businessId: string): Promise<PayoutResult> {
+    const { data: offer, error } = await supabase
+      .from('partnership_offers')
+      .select('*')
+      .eq('id', offerId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading offer for escrow:', error);
+      return { success: false, error: 'Failed to load offer', code: 'DATABASE_ERROR' };
+    }
+
+    if (!offer) {
+      return { success: false, error: 'Offer not found', code: 'NOT_FOUND' };
+    }
+
+    if (offer.business_id !== businessId) {
+      return { success: false, error: 'You do not have permission to fund this offer', code: 'FORBIDDEN' };
+    }
+
+    if (!['accepted', 'active'].includes(offer.status)) {
+      return { success: false, error: 'Only accepted offers can be funded', code: 'INVALID_OPERATION' };
+    }
+
+    return this.fundOffer(offer);
+  }
+
+  /**
+   * Record a charge outcome the provider reported later (webhook)
+   */
+  async handleChargeUpdate(
+    chargeId: string,
+    status: 'succeeded' | 'failed',
+    failureReason?: string
+  ): Promise<PayoutResult> {
+    const { data: escrow } = await supabase
+      .from('escrows')
+      .select('*')
+      .eq('provider_charge_id', chargeId)
+      .maybeSingle();
+
+    if (!escrow) {
+      return { success: false, error: 'Escrow not found', code: 'NOT_FOUND' };
+    }
+
+    if (escrow.status !== 'pending') {
+      return { success: true, escrow };
+    }
+
+    return { success: true, escrow: await this.applyChargeStatus(escrow, chargeId, status, failureReason) };
+  }
+
+  /**
+   * Release the milestones an approved deliverable completes
+   *
+   * Called after the deliverable is marked approved, so milestones waiting
+   * on every deliverable are released with the last approval.
+   */
+  async releaseForDeliverable(deliverable: { id: string; offer_id: string }): Promise<PayoutResult> {
+    try {
+      const { data: escrow } = await supabase
+        .from('escrows')
+        .select('*')
+        .eq('offer_id', deliverable.offer_id)
+        .eq('status', 'funded')
+        .maybeSingle();
+
+      if (!escrow) {
+        return { success: true, message: 'No funded escrow for this offer' };
+      }
+
+      return this.releaseDueMilestones(escrow);
+    } catch (error: any) {
+      console.error('Release escrow exception:', error);
+      return { success: false, error: error.message || 'Failed to release escrow', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Release a funded milestone early (business)
+   */
+  async releaseMilestone(milestoneId: string, businessId: string): Promise<PayoutResult> {
+    try {
+      const loaded = await this.getMilestoneForParty(milestoneId, businessId);
+      if (!loaded.success) {
+        return loaded;
+      }
+
+      const { milestone, escrow } = loaded;
+
+      if (escrow.business_id !== businessId) {
+        return { success: false, error: 'Only the business can release a milestone', code: 'FORBIDDEN' };
+      }
+
+      if (milestone.status === 'disputed') {
+        return { success: false, error: 'This milestone is disputed; resolve the dispute before releasing it', code: 'INVALID_OPERATION' };
+      }
+
+      if (milestone.status !== 'funded') {
+        return {
+          success: false,
+          error: milestone.status === 'pending' ? 'This milestone is not funded yet' : `This milestone is already ${milestone.status}`,
+          code: 'INVALID_OPERATION'
+        };
+      }
+
+      return this.releaseMilestoneFunds(milestone, businessId, 'funded');
+    } catch (error: any) {
+      console.error('Release milestone exception:', error);
+      return { success: false, error: error.message || 'Failed to release milestone', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Dispute a milestone, freezing its funds until the dispute is resolved
+   */
+  async disputeMilestone(milestoneId: string, userId: string, reason: string): Promise<PayoutResult> {
+    try {
+      const loaded = await this.getMilestoneForParty(milestoneId, userId);
+      if (!loaded.success) {
+        return loaded;
+      }
+
+      const { milestone, escrow } = loaded;
+
+      if (!['pending', 'funded'].includes(milestone.status)) {
+        return { success: false, error: `Cannot dispute a ${milestone.status} milestone`, code: 'INVALID_OPERATION' };
+      }
+
+      const now = new Date().toISOString();
+      const { data: disputed, error } = await supabase
+        .from('escrow_milestones')
+        .update({
+          status: 'disputed',
+          dispute_reason: reason,
+          disputed_by: userId,
+          disputed_at: now,
+          resolution_note: null,
+          resolved_at: null,
+          updated_at: now
+        })
+        .eq('id', milestone.id)
+        .eq('status', milestone.status)
+        .select()
+        .maybeSingle();
+
+      if (error || !disputed) {
+        console.error('Error disputing milestone:', error);
+        return { success: false, error: 'Milestone changed while disputing; try again', code: 'CONFLICT' };
+      }
+
+      const otherParty = userId === escrow.athlete_id ? escrow.business_id : escrow.athlete_id;
+      await notificationService.notify(otherParty, {
+        type: 'ESCROW_DISPUTED',
+        title: 'Payment Milestone Disputed',
+        content: `"${milestone.title}" ($${Number(milestone.amount).toLocaleString()}) is on hold: ${reason}`,
+        referenceType: 'OFFER',
+        referenceId: escrow.offer_id,
+        data: { offerId: escrow.offer_id, escrowId: escrow.id, milestoneId: milestone.id }
+      });
+
+      return { success: true, milestone: disputed };
+    } catch (error: any) {
+      console.error('Dispute milestone exception:', error);
+      return { success: false, error: error.message || 'Failed to dispute milestone', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Settle a disputed milestone
+   *
+   * Whoever raised the dispute can withdraw it ('resume'), the business can
+   * concede by releasing and the athlete by refunding; admins can do any of
+   * the three.
+   */
+  async resolveDispute(
+    milestoneId: string,
+    user: { id: string; role: string },
+    resolution: MilestoneResolution
+  ): Promise<PayoutResult> {
+    try {
+      const isAdmin = user.role === 'admin';
+      const loaded = await this.getMilestoneForParty(milestoneId, user.id, isAdmin);
+      if (!loaded.success) {
+        return loaded;
+      }
+
+      const { milestone, escrow } = loaded;
+
+      if (milestone.status !== 'disputed') {
+        return { success: false, error: 'This milestone is not disputed', code: 'INVALID_OPERATION' };
+      }
+
+      const allowed = isAdmin || (
+        resolution.resolution === 'resume' ? milestone.disputed_by === user.id
+          : resolution.resolution === 'release' ? escrow.business_id === user.id
+            : escrow.athlete_id === user.id
+      );
+
+      if (!allowed) {
+        return {
+          success: false,
+          error: resolution.resolution === 'resume'
+            ? 'Only the party that raised the dispute can withdraw it'
+            : `Only the ${resolution.resolution === 'release' ? 'business' : 'athlete'} or an admin can ${resolution.resolution} a disputed milestone`,
+          code: 'FORBIDDEN'
+        };
+      }
+
+      if (resolution.resolution !== 'resume' && escrow.status !== 'funded') {
+        return { success: false, error: 'The escrow for this milestone is not funded', code: 'INVALID_OPERATION' };
+      }
+
+      const now = new Date().toISOString();
+      const resolutionFields = { resolution_note: resolution.note || null, resolved_at: now, updated_at: now };
+      let result: PayoutResult;
+
+      if (resolution.resolution === 'resume') {
+        const { data: resumed, error } = await supabase
+          .from('escrow_milestones')
+          .update({ status: escrow.status === 'funded' ? 'funded' : 'pending', ...resolutionFields })
+          .eq('id', milestone.id)
+          .eq('status', 'disputed')
+          .select()
+          .maybeSingle();
+
+        if (error || !resumed) {
+          console.error('Error resuming milestone:', error);
+          return { success: false, error: 'Milestone changed while resolving; try again', code: 'CONFLICT' };
+        }
+
+        // Anything that came due while the milestone was frozen goes out now
+        if (escrow.status === 'funded') {
+          await this.releaseDueMilestones(escrow);
+        }
+
+        result = { success: true, milestone: resumed };
+      } else if (resolution.resolution === 'release') {
+        await supabase.from('escrow_milestones').update(resolutionFields).eq('id', milestone.id);
+        result = await this.releaseMilestoneFunds(milestone, user.id, 'disputed');
+      } else {
+        result = await this.refundMilestone(milestone, escrow, resolutionFields);
+      }
+
+      if (!result.success) {
+        return result;
+      }
+
+      const outcome = resolution.resolution === 'resume'
+        ? 'is back on its normal schedule'
+        : resolution.resolution === 'release' ? 'has been released to the athlete' : 'has been refunded to the business';
+
+      for (const partyId of [escrow.athlete_id, escrow.business_id].filter(partyId => partyId !== user.id)) {
+        await notificationService.notify(partyId, {
+          type: 'ESCROW_DISPUTE_RESOLVED',
+          title: 'Milestone Dispute Resolved',
+          content: `"${milestone.title}" ${outcome}${resolution.note ? `: ${resolution.note}` : ''}`,
+          referenceType: 'OFFER',
+          referenceId: escrow.offer_id,
+          data: { offerId: escrow.offer_id, escrowId: escrow.id, milestoneId: milestone.id, resolution: resolution.resolution }
+        });
+      }
+
+      return result;
+    } catch (error: any) {
+      console.error('Resolve milestone dispute exception:', error);
+      return { success: false, error: error.message || 'Failed to resolve dispute', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Escrows with their milestones for either party, optionally for one campaign or offer
+   */
+  async getMilestones(
+    userId: string,
+    userRole: string,
+    filters: { campaignId?: string; offerId?: string } = {}
+  ): Promise<PayoutResult> {
+    try {
+      let query = supabase
+        .from('escrows')
+        .select('*')
+        .eq(userRole === 'business' ? 'business_id' : 'athlete_id', userId)
+        .order('created_at', { ascending: false });
+
+      if (filters.campaignId) {
+        query = query.eq('campaign_id', filters.campaignId);
+      }
+
+      if (filters.offerId) {
+        query = query.eq('offer_id', filters.offerId);
+      }
+
+      const { data: escrows, error } = await query;
+
+      if (error) {
+        console.error('Error loading escrows:', error);
+        return { success: false, error: 'Failed to load milestones', code: 'DATABASE_ERROR' };
+      }
+
+      if (!escrows || escrows.length === 0) {
+        return { success: true, escrows: [] };
+      }
+
+      const campaignIds = Array.from(new Set(escrows.map(escrow => escrow.campaign_id).filter(Boolean)));
+      const counterpartyIds = Array.from(new Set(escrows.map(escrow => userRole === 'business' ? escrow.athlete_id : escrow.business_id)));
+
+      const [{ data: milestones }, { data: campaigns }, { data: counterparties }] = await Promise.all([
+        supabase
+          .from('escrow_milestones')
+          .select('*')
+          .in('escrow_id', escrows.map(escrow => escrow.id))
+          .order('position', { ascending: true }),
+        campaignIds.length > 0
+          ? supabase.from('campaigns').select('id, title').in('id', campaignIds)
+          : Promise.resolve({ data: [] as any[] }),
+        userRole === 'business'
+          ? supabase.from('athlete_profiles').select('id, name').in('id', counterpartyIds)
+          : supabase.from('business_profiles').select('id, name, company').in('id', counterpartyIds)
+      ]);
+
+      return {
+        success: true,
+        escrows: escrows.map(escrow => {
+          const counterparty: any = counterparties?.find(candidate =>
+            candidate.id === (userRole === 'business' ? escrow.athlete_id : escrow.business_id)
+          );
+
+          return {
+            ...escrow,
+            milestones: (milestones || []).filter(milestone => milestone.escrow_id === escrow.id),
+            campaign: campaigns?.find(candidate => candidate.id === escrow.campaign_id)?.title || null,
+            counterparty: counterparty?.company || counterparty?.name || null
+          };
+        })
+      };
+    } catch (error: any) {
+      console.error('Get milestones exception:', error);
+      return { success: false, error: error.message || 'Failed to get milestones', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Send every pending or failed payout for an athlete
+   */
+  async processPendingPayouts(athleteId: string): Promise<PayoutResult> {
+    const { data: payouts, error } = await supabase
+      .from('payouts')
+      .select('*')
+      .eq('athlete_id', athleteId)
+      .in('status', ['pending', 'failed'])
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error loading pending payouts:', error);
+      return { success: false, error: 'Failed to load pending payouts', code: 'DATABASE_ERROR' };
+    }
+
+    const sent = [];
+    for (const payout of payouts || []) {
+      sent.push(await this.transferPayout(payout));
+    }
+
+    return { success: true, payouts: sent };
+  }
+
+  /**
+   * Earnings totals and payout history for the athlete's Earnings tab
+   */
+  async getEarnings(athleteId: string, period: EarningsPeriod = 'thisMonth', now = new Date()): Promise<PayoutResult> {
+    try {
+      const { start, end, previousStart } = periodRange(period, now);
+
+      const [{ data: payouts, error }, { data: escrows }] = await Promise.all([
+        supabase
+          .from('payouts')
+          .select('*')
+          .eq('athlete_id', athleteId)
+          .order('created_at', { ascending: false }),
+        supabase
+          .from('escrows')
+          .select('amount, released_amount, refunded_amount, currency')
+          .eq('athlete_id', athleteId)
+          .eq('status', 'funded')
+      ]);
+
+      if (error) {
+        console.error('Error loading payouts:', error);
+        return { success: false, error: 'Failed to load earnings', code: 'DATABASE_ERROR' };
+      }
+
+      const paidBetween = (from: Date, to: Date) => (payouts || []).filter(payout =>
+        payout.status === 'paid' && payout.paid_at &&
+        new Date(payout.paid_at) >= from && new Date(payout.paid_at) < to
+      );
+
+      const current = paidBetween(start, end);
+      const previous = paidBetween(previousStart, start);
+      const received = roundMoney(current.reduce((sum, payout) => sum + Number(payout.amount), 0));
+      const previousReceived = roundMoney(previous.reduce((sum, payout) => sum + Number(payout.amount), 0));
+
+      // Money the athlete has earned but not received: unreleased escrow plus payouts not yet transferred
+      const held = (escrows || []).reduce((sum, escrow) =>
+        sum + Number(escrow.amount) - Number(escrow.released_amount || 0) - Number(escrow.refunded_amount || 0), 0);
+      const untransferred = (payouts || [])
+        .filter(payout => payout.status !== 'paid')
+        .reduce((sum, payout) => sum + Number(payout.amount), 0);
+      const pending = roundMoney(held + untransferred);
+
+      const summary: EarningsSummary = {
+        total: roundMoney(received + pending),
+        pending,
+        received,
+        campaigns: new Set(current.map(payout => payout.campaign_id || payout.offer_id)).size,
+        change: previousReceived > 0 ? Math.round(((received - previousReceived) / previousReceived) * 100) : null,
+        currency: escrows?.[0]?.currency || payouts?.[0]?.currency || 'USD'
+      };
+
+      // Received per day, or per month for the year view, for the earnings chart
+      const buckets = new Map<string, number>();
+      for (const payout of current) {
+        const key = payout.paid_at.slice(0, period === 'thisYear' ? 7 : 10);
+        buckets.set(key, roundMoney((buckets.get(key) || 0) + Number(payout.amount)));
+      }
+      const series = Array.from(buckets.entries())
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([date, amount]) => ({ date, amount }));
+
+      return { success: true, summary, series, history: await this.withNames(payouts || []) };
+    } catch (error: any) {
+      console.error('Get earnings exception:', error);
+      return { success: false, error: error.message || 'Failed to get earnings', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Payout history for either party
+   */
+  async getPayoutHistory(userId: string, userRole: string): Promise<PayoutResult> {
+    const { data: payouts, error } = await supabase
+      .from('payouts')
+      .select('*')
+      .eq(userRole === 'business' ? 'business_id' : 'athlete_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error loading payout history:', error);
+      return { success: false, error: 'Failed to load payouts', code: 'DATABASE_ERROR' };
+    }
+
+    return { success: true, history: await this.withNames(payouts || []) };
+  }
+
+  /**
+   * Escrow for an offer, visible to both parties
+   */
+  async getOfferEscrow(offerId: string, userId: string): Promise<PayoutResult> {
+    const { data: escrow, error } = await supabase
+      .from('escrows')
+      .select('*')
+      .eq('offer_id', offerId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading escrow:', error);
+      return { success: false, error: 'Failed to load escrow', code: 'DATABASE_ERROR' };
+    }
+
+    if (!escrow) {
+      return { success: false, error: 'Escrow not found', code: 'NOT_FOUND' };
+    }
+
+    if (escrow.athlete_id !== userId && escrow.business_id !== userId) {
+      return { success: false, error: 'You do not have permission to view this escrow', code: 'FORBIDDEN' };
+    }
+
+    const [{ data: payouts }, { data: milestones }] = await Promise.all([
+      supabase
+        .from('payouts')
+        .select('*')
+        .eq('escrow_id', escrow.id)
+        .order('created_at', { ascending: true }),
+      supabase
+        .from('escrow_milestones')
+        .select('*')
+        .eq('escrow_id', escrow.id)
+        .order('position', { ascending: true })
+    ]);
+
+    return { success: true, escrow, payouts: payouts || [], milestones: milestones || [] };
+  }
+
+  /**
+   * Store a charge outcome on the escrow and tell both parties
+   */
+  private async applyChargeStatus(
+    escrow: any,
+    chargeId: string | null,
+    status: 'succeeded' | 'processing' | 'requires_action' | 'failed',
+    failureReason?: string
+  ) {
+    const { data: updated, error } = await supabase
+      .from('escrows')
+      .update({
+        status: status === 'succeeded' ? 'funded' : status === 'failed' ? 'failed' : 'pending',
+        provider_charge_id: chargeId,
+        failure_reason: status === 'failed' ? failureReason || 'Payment failed' : null,
+        funded_at: status === 'succeeded' ? new Date().toISOString() : null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', escrow.id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating escrow status:', error);
+    }
+
+    const amount = `$${Number(escrow.amount).toLocaleString()}`;
+
+    if (status === 'succeeded') {
+      await supabase
+        .from('escrow_milestones')
+        .update({ status: 'funded', updated_at: new Date().toISOString() })
+        .eq('escrow_id', escrow.id)
+        .eq('status', 'pending');
+
+      await notificationService.notify(escrow.athlete_id, {
+        type: 'ESCROW_FUNDED',
+        title: 'Partnership Funded',
+        content: `${amount} for your partnership is held in escrow and is paid out as each payment milestone is met`,
+        referenceType: 'OFFER',
+        referenceId: escrow.offer_id,
+        data: { offerId: escrow.offer_id, escrowId: escrow.id }
+      });
+
+      // Signing payments, and anything approved before the charge cleared, go out straight away
+      const released = await this.releaseDueMilestones(updated || escrow);
+      if (!released.success) {
+        console.error('Failed to release milestones after funding:', released.error);
+      }
+
+      return released.escrow || updated || escrow;
+    } else if (status === 'failed') {
+      await notificationService.notify(escrow.business_id, {
+        type: 'ESCROW_FAILED',
+        title: 'Escrow Payment Failed',
+        content: `We couldn't charge ${amount} into escrow${failureReason ? `: ${failureReason}` : ''}. Update your payment method and retry.`,
+        referenceType: 'OFFER',
+        referenceId: escrow.offer_id,
+        data: { offerId: escrow.offer_id, escrowId: escrow.id }
+      });
+    } else if (status === 'requires_action') {
+      await notificationService.notify(escrow.business_id, {
+        type: 'ESCROW_ACTION_REQUIRED',
+        title: 'Confirm Escrow Payment',
+        content: `Confirm the ${amount} escrow payment to fund your accepted offer`,
+        referenceType: 'OFFER',
+        referenceId: escrow.offer_id,
+        data: { offerId: escrow.offer_id, escrowId: escrow.id }
+      });
+    }
+
+    return updated || escrow;
+  }
+
+  /**
+   * Create an escrow's milestone rows from the offer, once per escrow
+   */
+  private async createMilestones(escrow: any, offer: any): Promise<PayoutResult> {
+    const { data: existing } = await supabase
+      .from('escrow_milestones')
+      .select('id')
+      .eq('escrow_id', escrow.id)
+      .limit(1);
+
+    if (existing && existing.length > 0) {
+      return { success: true };
+    }
+
+    const { data: deliverables } = await supabase
+      .from('deliverables')
+      .select('id, sequence')
+      .eq('offer_id', offer.id)
+      .order('sequence', { ascending: true });
+
+    // Milestones that no longer add up to the escrow (e.g. edited data) fall back to the default split
+    const parsed = paymentMilestonesSchema.safeParse(offer.payment_milestones);
+    const amount = Number(escrow.amount);
+    const plan = parsed.success && Math.abs(parsed.data.reduce((sum, milestone) => sum + milestone.amount, 0) - amount) < 0.005
+      ? parsed.data
+      : defaultMilestones(amount, deliverables || []);
+
+    const rows = plan.map((milestone, index) => ({
+      escrow_id: escrow.id,
+      offer_id: offer.id,
+      position: index + 1,
+      title: milestone.title,
+      amount: roundMoney(milestone.amount),
+      currency: escrow.currency,
+      trigger: milestone.trigger,
+      deliverable_sequence: milestone.deliverable_sequence ?? null,
+      deliverable_id: (deliverables || []).find(item => item.sequence === milestone.deliverable_sequence)?.id || null,
+      status: 'pending'
+    }));
+
+    const { error } = await supabase.from('escrow_milestones').insert(rows);
+
+    if (error) {
+      console.error('Error creating escrow milestones:', error);
+      return { success: false, error: 'Failed to create payment milestones', code: 'DATABASE_ERROR' };
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * Release every funded milestone of an escrow whose trigger has been met
+   */
+  private async releaseDueMilestones(escrow: any): Promise<PayoutResult> {
+    const [{ data: milestones }, { data: deliverables }] = await Promise.all([
+      supabase
+        .from('escrow_milestones')
+        .select('*')
+        .eq('escrow_id', escrow.id)
+        .eq('status', 'funded')
+        .order('position', { ascending: true }),
+      supabase
+        .from('deliverables')
+        .select('id, sequence, status')
+        .eq('offer_id', escrow.offer_id)
+    ]);
+
+    const approved = (deliverables || []).filter(item => item.status === 'approved');
+    const approvedSequences = new Set(approved.map(item => item.sequence));
+    const approvedIds = new Set(approved.map(item => item.id));
+    const allApproved = !!deliverables && deliverables.length > 0 && approved.length === deliverables.length;
+
+    const due = (milestones || []).filter(milestone =>
+      milestone.trigger === 'on_acceptance' ||
+      (milestone.trigger === 'deliverable' &&
+        (approvedIds.has(milestone.deliverable_id) || approvedSequences.has(milestone.deliverable_sequence))) ||
+      (milestone.trigger === 'all_deliverables' && allApproved)
+    );
+
+    if (due.length === 0) {
+      return { success: true, escrow, payouts: [], message: 'No milestones are due' };
+    }
+
+    let latestEscrow = escrow;
+    const payouts = [];
+    for (const milestone of due) {
+      const released = await this.releaseMilestoneFunds(milestone, null, 'funded');
+      if (!released.success) {
+        return released;
+      }
+      latestEscrow = released.escrow || latestEscrow;
+      payouts.push(released.payout);
+    }
+
+    return { success: true, escrow: latestEscrow, payouts, payout: payouts[payouts.length - 1] };
+  }
+
+  /**
+   * Move one milestone's funds out of escrow into a payout to the athlete
+   *
+   * The milestone is claimed with a status guard first, so two callers can
+   * never pay the same milestone twice. releasedBy is null for automatic
+   * releases.
+   */
+  private async releaseMilestoneFunds(
+    milestone: any,
+    releasedBy: string | null,
+    fromStatus: MilestoneStatus
+  ): Promise<PayoutResult> {
+    const now = new Date().toISOString();
+    const { data: claimed, error: claimError } = await supabase
+      .from('escrow_milestones')
+      .update({ status: 'released', released_by: releasedBy, released_at: now, updated_at: now })
+      .eq('id', milestone.id)
+      .eq('status', fromStatus)
+      .select()
+      .maybeSingle();
+
+    if (claimError || !claimed) {
+      console.error('Error claiming milestone:', claimError);
+      return { success: false, error: 'Milestone changed while releasing; try again', code: 'CONFLICT' };
+    }
+
+    const settled = await this.settleEscrow(milestone.escrow_id, Number(milestone.amount), 'released_amount');
+    if (!settled.success) {
+      await supabase
+        .from('escrow_milestones')
+        .update({ status: fromStatus, released_by: null, released_at: null })
+        .eq('id', milestone.id);
+      return settled;
+    }
+
+    const escrow = settled.escrow;
+    const { data: payout, error } = await supabase
+      .from('payouts')
+      .insert({
+        offer_id: escrow.offer_id,
+        campaign_id: escrow.campaign_id,
+        athlete_id: escrow.athlete_id,
+        business_id: escrow.business_id,
+        escrow_id: escrow.id,
+        milestone_id: milestone.id,
+        deliverable_id: milestone.deliverable_id || null,
+        amount: Number(milestone.amount),
+        currency: escrow.currency,
+        status: 'pending'
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating payout:', error);
+      return { success: false, error: 'Failed to create payout', code: 'DATABASE_ERROR' };
+    }
+
+    await supabase.from('escrow_milestones').update({ payout_id: payout.id }).eq('id', milestone.id);
+
+    return {
+      success: true,
+      escrow,
+      milestone: { ...claimed, payout_id: payout.id },
+      payout: await this.transferPayout(payout)
+    };
+  }
+
+  /**
+   * Refund a disputed milestone to the business
+   */
+  private async refundMilestone(milestone: any, escrow: any, fields: Record<string, any>): Promise<PayoutResult> {
+    const { data: claimed, error: claimError } = await supabase
+      .from('escrow_milestones')
+      .update({ status: 'refunded', ...fields })
+      .eq('id', milestone.id)
+      .eq('status', 'disputed')
+      .select()
+      .maybeSingle();
+
+    if (claimError || !claimed) {
+      console.error('Error claiming milestone for refund:', claimError);
+      return { success: false, error: 'Milestone changed while refunding; try again', code: 'CONFLICT' };
+    }
+
+    try {
+      await this.provider.refundCharge(escrow.provider_charge_id, Number(milestone.amount));
+    } catch (providerError: any) {
+      console.error('Milestone refund error:', providerError);
+      await supabase.from('escrow_milestones').update({ status: 'disputed' }).eq('id', milestone.id);
+      return { success: false, error: providerError.message || 'Refund failed', code: 'PROVIDER_ERROR' };
+    }
+
+    const settled = await this.settleEscrow(escrow.id, Number(milestone.amount), 'refunded_amount');
+    if (!settled.success) {
+      return settled;
+    }
+
+    return { success: true, escrow: settled.escrow, milestone: claimed };
+  }
+
+  /**
+   * Add a released or refunded amount to an escrow, closing it once every
+   * dollar has gone one way or the other
+   *
+   * Each write is guarded on the amount it read, retrying a few times if
+   * another milestone settled in between.
+   */
+  private async settleEscrow(
+    escrowId: string,
+    amount: number,
+    column: 'released_amount' | 'refunded_amount'
+  ): Promise<PayoutResult> {
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const { data: escrow } = await supabase
+        .from('escrows')
+        .select('*')
+        .eq('id', escrowId)
+        .maybeSingle();
+
+      if (!escrow) {
+        return { success: false, error: 'Escrow not found', code: 'NOT_FOUND' };
+      }
+
+      const released = roundMoney(Number(escrow.released_amount || 0) + (column === 'released_amount' ? amount : 0));
+      const refunded = roundMoney(Number(escrow.refunded_amount || 0) + (column === 'refunded_amount' ? amount : 0));
+      const closed = released + refunded >= Number(escrow.amount) - 0.005;
+      const now = new Date().toISOString();
+
+      const { data: updated } = await supabase
+        .from('escrows')
+        .update({
+          released_amount: released,
+          refunded_amount: refunded,
+          status: closed ? (released > 0 ? 'released' : 'refunded') : 'funded',
+          released_at: closed ? now : null,
+          updated_at: now
+        })
+        .eq('id', escrow.id)
+        .eq('released_amount', escrow.released_amount ?? 0)
+        .eq('refunded_amount', escrow.refunded_amount ?? 0)
+        .select()
+        .maybeSingle();
+
+      if (updated) {
+        return { success: true, escrow: updated };
+      }
+    }
+
+    return { success: false, error: 'Escrow changed while settling; try again', code: 'CONFLICT' };
+  }
+
+  /**
+   * Load a milestone and its escrow, checking the user is a party to it
+   */
+  private async getMilestoneForParty(
+    milestoneId: string,
+    userId: string,
+    allowAnyUser = false
+  ): Promise<PayoutResult & { milestone?: any; escrow?: any }> {
+    const { data: milestone, error } = await supabase
+      .from('escrow_milestones')
+      .select('*, escrow:escrows(*)')
+      .eq('id', milestoneId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading milestone:', error);
+      return { success: false, error: 'Failed to load milestone', code: 'DATABASE_ERROR' };
+    }
+
+    if (!milestone || !milestone.escrow) {
+      return { success: false, error: 'Milestone not found', code: 'NOT_FOUND' };
+    }
+
+    const { escrow, ...fields } = milestone;
+
+    if (!allowAnyUser && escrow.athlete_id !== userId && escrow.business_id !== userId) {
+      return { success: false, error: 'You do not have permission to manage this milestone', code: 'FORBIDDEN' };
+    }
+
+    return { success: true, milestone: fields, escrow };
+  }
+
+  /**
+   * Transfer one payout to the athlete's connected account if it can receive it
+   *
+   * The payout is claimed as 'processing' with a status guard first, so
+   * overlapping account syncs never send the same payout twice; the payout id
+   * is also the provider's idempotency key.
+   */
+  private async transferPayout(payout: any) {
+    const { data: account } = await supabase
+      .from('payout_accounts')
+      .select('*')
+      .eq('user_id', payout.athlete_id)
+      .maybeSingle();
+
+    const amount = `$${Number(payout.amount).toLocaleString()}`;
+
+    if (!account || account.status !== 'active' || account.provider !== this.provider.name) {
+      await notificationService.notify(payout.athlete_id, {
+        type: 'PAYOUT_ACTION_REQUIRED',
+        title: 'Set Up Payouts',
+        content: `${amount} is waiting for you. Finish payout setup on your Earnings tab to receive it.`,
+        referenceType: 'PAYOUT',
+        referenceId: payout.id,
+        data: { payoutId: payout.id }
+      });
+      return payout;
+    }
+
+    const { data: claimed, error: claimError } = await supabase
+      .from('payouts')
+      .update({ status: 'processing' })
+      .eq('id', payout.id)
+      .in('status', ['pending', 'failed'])
+      .select()
+      .maybeSingle();
+
+    if (claimError || !claimed) {
+      if (claimError) {
+        console.error('Error claiming payout:', claimError);
+      }
+      return payout;
+    }
+
+    let update: Record<string, any>;
+    try {
+      const transfer = await this.provider.transferToAccount({
+        amount: Number(payout.amount),
+        currency: payout.currency,
+        accountId: account.provider_account_id,
+        transferGroup: `offer_${payout.offer_id}`,
+        idempotencyKey: `payout_${payout.id}`,
+        metadata: { payout_id: payout.id, offer_id: payout.offer_id }
+      });
+
+      update = {
+        status: 'paid',
+        provider_transfer_id: transfer.id,
+        failure_reason: null,
+        paid_at: new Date().toISOString()
+      };
+    } catch (providerError: any) {
+      console.error('Payout transfer error:', providerError);
+      update = { status: 'failed', failure_reason: providerError.message || 'Transfer failed' };
+    }
+
+    const { data: updated, error } = await supabase
+      .from('payouts')
+      .update(update)
+      .eq('id', payout.id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating payout:', error);
+    }
+
+    if (update.status === 'paid') {
+      await notificationService.notify(payout.athlete_id, {
+        type: 'PAYOUT_SENT',
+        title: 'Payment Sent',
+        content: `${amount} has been sent to your payout account`,
+        referenceType: 'PAYOUT',
+        referenceId: payout.id,
+        data: { payoutId: payout.id, offerId: payout.offer_id }
+      });
+    }
+
+    return updated || { ...payout, ...update };
+  }
+
+  /**
+   * Attach brand and campaign names to payout rows
+   */
+  private async withNames(payouts: any[]): Promise<PayoutHistoryItem[]> {
+    const campaignIds = Array.from(new Set(payouts.map(payout => payout.campaign_id).filter(Boolean)));
+    const businessIds = Array.from(new Set(payouts.map(payout => payout.business_id)));
+
+    const [{ data: campaigns }, { data: businesses }] = await Promise.all([
+      campaignIds.length > 0
+        ? supabase.from('campaigns').select('id, title').in('id', campaignIds)
+        : Promise.resolve({ data: [] as any[] }),
+      businessIds.length > 0
+        ? supabase.from('business_profiles').select('id, name, company').in('id', businessIds)
+        : Promise.resolve({ data: [] as any[] })
+    ]);
+
+    return payouts.map(payout => {
+      const business = businesses?.find(candidate => candidate.id === payout.business_id);
+      return {
+        ...payout,
+        brand: business?.company || business?.name || null,
+        campaign: campaigns?.find(candidate => candidate.id === payout.campaign_id)?.title || null
+      };
+    });
+  }
+}
+
+// Create and export singleton instance
+export const payoutService = new PayoutService();
+export default payoutService;
@@ -0,0 +1,273 @@
+/**
+ * Profile Link Analytics Service
+ *
+ * Records traffic on athletes' public profile pages: a view each time the
+ * page is served and a click each time a visitor follows one of its link
+ * buttons (buttons go through a redirect so clicks are counted without
+ * client-side scripts). Visitors are identified only by a keyed hash of
+ * their IP address, and requests from crawlers, link-preview fetchers and
+ * other bots aren't recorded. Athletes see daily rollups of views, unique
+ * visitors and clicks, plus referrers and per-button clicks.
+ */
+
+import { createHmac } from 'crypto';
+import { supabase } from '../lib/supabase';
+import config from '../config/environment';
+import { ProfileLinkAnalytics, ProfileLinkDailyStats, ProfileLinkEventType } from '../../shared/schema';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Events are read in pages of this size when building a report
+const EVENT_PAGE_SIZE = 1000;
+// Most events read for one report
+const MAX_REPORT_EVENTS = 100_000;
+const MAX_REFERRERS = 10;
+
+// User agents that belong to crawlers, link-preview fetchers, monitors and scripts
+const BOT_PATTERN = /bot|crawl|spider|slurp|preview|facebookexternalhit|embedly|quora link|whatsapp|telegram|discord|skype|bitly|vkshare|pinterest|outbrain|nuzzel|headless|phantomjs|lighthouse|pingdom|uptime|monitor|curl|wget|python-requests|python-urllib|go-http-client|java\/|okhttp|axios|node-fetch|httpclient|libwww|scrapy/i;
+
+// Where a request came from
+export interface TrafficContext {
+  ip?: string | null;
+  userAgent?: string | null;
+  referrer?: string | null;
+  host?: string | null; // Our own host, so internal navigation isn't reported as a referrer
+}
+
+// A page the traffic belongs to
+export interface TrackedLink {
+  id: string;
+  athlete_id: string;
+}
+
+// Interface for analytics results
+export interface ProfileLinkAnalyticsResult {
+  success: boolean;
+  analytics?: ProfileLinkAnalytics;
+  error?: string;
+  code?: string;
+}
+
+// A recorded event, as read back for reports
+interface StoredEvent {
+  event_type: ProfileLinkEventType;
+  button_id: string | null;
+  visitor_hash: string;
+  referrer_source: string;
+  occurred_at: string;
+}
+
+/**
+ * Whether a user agent looks automated; requests without one count as bots
+ */
+export function isBot(userAgent: string | null | undefined): boolean {
+  return !userAgent || BOT_PATTERN.test(userAgent);
+}
+
+/**
+ * Keyed hash of a visitor's IP address; the address itself is never stored
+ */
+export function hashVisitor(ip: string | null | undefined): string {
+  return createHmac('sha256', config.SESSION_SECRET).update(ip || 'unknown').digest('hex');
+}
+
+/**
+ * Referring site host without "www.", or "direct" for none or our own site
+ */
+export function referrerSource(referrer: string | null | undefined, ownHost?: string | null): string {
+  if (!referrer) {
+    return 'direct';
+  }
+
+  try {
+    const host = new URL(referrer).hostname.toLowerCase().replace(/^www\./, '');
+    const own = (ownHost || '').toLowerCase().split(':')[0].replace(/^www\./, '');
+    return !host || host === own ? 'direct' : host;
+  } catch {
+    return 'direct';
+  }
+}
+
+function dayKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Daily views, unique visitors and clicks for each of `days` UTC days starting at `from`
+ */
+export function rollupDaily(events: StoredEvent[], from: Date, days: number): ProfileLinkDailyStats[] {
+  const buckets = new Map<string, { views: number; clicks: number; visitors: Set<string> }>();
+  for (let index = 0; index < days; index++) {
+    buckets.set(dayKey(new Date(from.getTime() + index * DAY_MS)), { views: 0, clicks: 0, visitors: new Set() });
+  }
+
+  for (const event of events) {
+    const bucket = buckets.get(event.occurred_at.slice(0, 10));
+    if (!bucket) {
+      continue;
+    }
+
+    if (event.event_type === 'view') {
+      bucket.views++;
+      bucket.visitors.add(event.visitor_hash);
+    } else {
+      bucket.clicks++;
+    }
+  }
+
+  return Array.from(buckets.entries()).map(([date, bucket]) => ({
+    date,
+    views: bucket.views,
+    uniqueVisitors: bucket.visitors.size,
+    clicks: bucket.clicks
+  }));
+}
+
+// Main profile link analytics service class
+class ProfileLinkAnalyticsService {
+  /**
+   * Record a page view; bots are ignored
+   */
+  async recordView(link: TrackedLink, context: TrafficContext): Promise<boolean> {
+    return this.record(link, 'view', null, context);
+  }
+
+  /**
+   * Record a click on one of the page's link buttons; bots are ignored
+   */
+  async recordClick(link: TrackedLink, buttonId: string, context: TrafficContext): Promise<boolean> {
+    return this.record(link, 'click', buttonId, context);
+  }
+
+  /**
+   * Daily rollups and breakdowns of the athlete's page traffic over the last `days` days, today included
+   */
+  async getAnalytics(athleteId: string, days: number, now = new Date()): Promise<ProfileLinkAnalyticsResult> {
+    try {
+      const { data: link, error: linkError } = await supabase
+        .from('athlete_profile_links')
+        .select('id, buttons')
+        .eq('athlete_id', athleteId)
+        .maybeSingle();
+
+      if (linkError) {
+        console.error('Error loading profile link:', linkError);
+        return { success: false, error: 'Failed to load analytics', code: 'DATABASE_ERROR' };
+      }
+
+      const today = new Date(`${dayKey(now)}T00:00:00.000Z`);
+      const from = new Date(today.getTime() - (days - 1) * DAY_MS);
+      const events = link ? await this.loadEvents(link.id, from) : [];
+      if (!events) {
+        return { success: false, error: 'Failed to load analytics', code: 'DATABASE_ERROR' };
+      }
+
+      const views = events.filter(event => event.event_type === 'view');
+      const clicks = events.filter(event => event.event_type === 'click');
+
+      const referrerCounts = new Map<string, number>();
+      for (const view of views) {
+        referrerCounts.set(view.referrer_source, (referrerCounts.get(view.referrer_source) || 0) + 1);
+      }
+
+      const clickCounts = new Map<string, number>();
+      for (const click of clicks) {
+        if (click.button_id) {
+          clickCounts.set(click.button_id, (clickCounts.get(click.button_id) || 0) + 1);
+        }
+      }
+
+      // Current buttons first, then any removed ones that were clicked in the period
+      const buttons = (link?.buttons || []).map((button: { id: string; label: string }) => ({
+        id: button.id,
+        label: button.label,
+        clicks: clickCounts.get(button.id) || 0
+      }));
+      Array.from(clickCounts.entries()).forEach(([id, count]) => {
+        if (!buttons.some((button: { id: string }) => button.id === id)) {
+          buttons.push({ id, label: 'Removed link', clicks: count });
+        }
+      });
+
+      return {
+        success: true,
+        analytics: {
+          from: dayKey(from),
+          to: dayKey(today),
+          totals: {
+            views: views.length,
+            uniqueVisitors: new Set(views.map(view => view.visitor_hash)).size,
+            clicks: clicks.length,
+            clickThroughRate: views.length > 0 ? Math.round((clicks.length / views.length) * 1000) / 10 : null
+          },
+          daily: rollupDaily(events, from, days),
+          referrers: Array.from(referrerCounts.entries())
+            .map(([source, count]) => ({ source, views: count }))
+            .sort((a, b) => b.views - a.views)
+            .slice(0, MAX_REFERRERS),
+          buttons
+        }
+      };
+    } catch (error: any) {
+      console.error('Get profile link analytics exception:', error);
+      return { success: false, error: error.message || 'Failed to load analytics', code: 'SERVER_ERROR' };
+    }
+  }
+
+  private async record(
+    link: TrackedLink,
+    eventType: ProfileLinkEventType,
+    buttonId: string | null,
+    context: TrafficContext
+  ): Promise<boolean> {
+    if (isBot(context.userAgent)) {
+      return false;
+    }
+
+    const { error } = await supabase.from('profile_link_events').insert({
+      link_id: link.id,
+      athlete_id: link.athlete_id,
+      event_type: eventType,
+      button_id: buttonId,
+      visitor_hash: hashVisitor(context.ip),
+      referrer_source: referrerSource(context.referrer, context.host)
+    });
+
+    if (error) {
+      console.error(`Error recording profile ${eventType}:`, error);
+      return false;
+    }
+
+    return true;
+  }
+
+  // A page's events since a date, read a page at a time; null if the read fails
+  private async loadEvents(linkId: string, from: Date): Promise<StoredEvent[] | null> {
+    const events: StoredEvent[] = [];
+
+    while (events.length < MAX_REPORT_EVENTS) {
+      const { data, error } = await supabase
+        .from('profile_link_events')
+        .select('event_type, button_id, visitor_hash, referrer_source, occurred_at')
+        .eq('link_id', linkId)
+        .gte('occurred_at', from.toISOString())
+        .order('occurred_at', { ascending: true })
+        .range(events.length, events.length + EVENT_PAGE_SIZE - 1);
+
+      if (error) {
+        console.error('Error loading profile link events:', error);
+        return null;
+      }
+
+      events.push(...(data || []));
+      if (!data || data.length < EVENT_PAGE_SIZE) {
+        break;
+      }
+    }
+
+    return events;
+  }
+}
+
+// Create and export singleton instance
+export const profileLinkAnalyticsService = new ProfileLinkAnalyticsService();
+export default profileLinkAnalyticsService;
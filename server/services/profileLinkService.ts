@@ -0,0 +1,678 @@
+/**
+ * Profile Link Service
+ *
+ * Athletes' public link-in-bio pages. Each athlete has one page at a vanity
+ * slug, with its own look (theme and colours), link buttons and highlight,
+ * achievement and sponsor lists. Profile fields only appear on the page
+ * when the athlete has marked them public. Pages are rendered to HTML on
+ * the server so link previews pick up their Open Graph tags, and the same
+ * data is available as JSON for the React page. Link buttons go through
+ * /p/<slug>/go/<button> so their clicks can be counted.
+ */
+
+import { supabase } from '../lib/supabase';
+import config from '../config/environment';
+import { socialMetricsService } from './socialMetricsService';
+import {
+  DEFAULT_PROFILE_LINK_PUBLIC_FIELDS,
+  ProfileLinkInput,
+  ProfileLinkPublicField,
+  ProfileLinkSettings,
+  ProfileLinkTheme,
+  PublicAthleteProfile
+} from '../../shared/schema';
+
+const SLUG_MIN_LENGTH = 3;
+const SLUG_MAX_LENGTH = 30;
+const SLUG_PATTERN = /^[a-z0-9][a-z0-9-]{1,28}[a-z0-9]$/;
+
+// Slugs that would be confusing or look official
+const RESERVED_SLUGS = new Set([
+  'about', 'admin', 'api', 'athlete', 'athletes', 'auth', 'business', 'businesses', 'contested',
+  'dashboard', 'edit', 'help', 'login', 'new', 'official', 'p', 'profile', 'settings', 'sign-in',
+  'signup', 'support'
+]);
+
+// Alternatives offered when a requested slug is taken
+const SLUG_SUGGESTION_COUNT = 3;
+
+const DEFAULT_COLORS = { background: '#111111', text: '#ffffff', accent: '#ff4500' };
+
+// Interface for profile link results
+export interface ProfileLinkResult {
+  success: boolean;
+  settings?: ProfileLinkSettings;
+  profile?: PublicAthleteProfile;
+  suggestions?: string[];
+  link?: { id: string; athlete_id: string }; // The page's record, for traffic tracking; never sent to clients
+  url?: string;
+  error?: string;
+  code?: string;
+  message?: string;
+}
+
+// A rendered profile page
+export interface ProfilePageResult {
+  status: number;
+  html: string;
+  link?: { id: string; athlete_id: string }; // Set when a published page was rendered
+}
+
+/**
+ * Turn a name or requested slug into slug form: lowercase letters, numbers and single dashes
+ */
+export function normalizeSlug(value: string): string {
+  return value
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[\s_.]+/g, '-')
+    .replace(/[^a-z0-9-]/g, '')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '')
+    .slice(0, SLUG_MAX_LENGTH)
+    .replace(/-$/, '');
+}
+
+function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Only http(s) links make it into the page
+function safeUrl(url: string | null | undefined): string | null {
+  return url && /^https?:\/\//i.test(url) ? url : null;
+}
+
+function socialUrl(platform: string, handle: string): string {
+  if (/^https?:\/\//i.test(handle)) {
+    return handle;
+  }
+
+  const username = handle.replace(/^@/, '');
+  switch (platform) {
+    case 'instagram': return `https://instagram.com/${encodeURIComponent(username)}`;
+    case 'facebook': return `https://facebook.com/${encodeURIComponent(username)}`;
+    case 'twitter': return `https://twitter.com/${encodeURIComponent(username)}`;
+    case 'tiktok': return `https://tiktok.com/@${encodeURIComponent(username)}`;
+    case 'youtube': return `https://youtube.com/@${encodeURIComponent(username)}`;
+    default: return `https://${username}`;
+  }
+}
+
+function compactNumber(value: number): string {
+  return new Intl.NumberFormat('en-US', { notation: 'compact', maximumFractionDigits: 1 }).format(value);
+}
+
+// String-valued entries of a JSONB object
+function stringRecord(value: unknown): Record<string, string> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return {};
+  }
+
+  return Object.fromEntries(
+    Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => (typeof entry === 'string' && entry.trim()) || typeof entry === 'number')
+      .map(([key, entry]) => [key, String(entry)])
+  );
+}
+
+// Main profile link service class
+class ProfileLinkService {
+  /**
+   * The athlete's page settings, or defaults with a suggested slug if they haven't set one up
+   */
+  async getSettings(athleteId: string): Promise<ProfileLinkResult> {
+    try {
+      const [{ data: profile, error: profileError }, { data: link, error: linkError }] = await Promise.all([
+        supabase.from('athlete_profiles').select('id, name, social_handles').eq('id', athleteId).maybeSingle(),
+        supabase.from('athlete_profile_links').select('*').eq('athlete_id', athleteId).maybeSingle()
+      ]);
+
+      if (profileError || linkError) {
+        console.error('Error loading profile link:', profileError || linkError);
+        return { success: false, error: 'Failed to load profile link', code: 'DATABASE_ERROR' };
+      }
+
+      if (!profile) {
+        return { success: false, error: 'Athlete profile not found', code: 'NOT_FOUND' };
+      }
+
+      const slug = link?.slug || await this.availableSlug(profile.name, athleteId);
+      return { success: true, settings: this.toSettings(link, slug, profile.social_handles) };
+    } catch (error: any) {
+      console.error('Get profile link exception:', error);
+      return { success: false, error: error.message || 'Failed to load profile link', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Save the athlete's page, claiming the requested slug if it's free
+   */
+  async saveSettings(athleteId: string, input: ProfileLinkInput): Promise<ProfileLinkResult> {
+    try {
+      const [{ data: profile, error: profileError }, { data: existing, error: linkError }] = await Promise.all([
+        supabase.from('athlete_profiles').select('id, name, social_handles').eq('id', athleteId).maybeSingle(),
+        supabase.from('athlete_profile_links').select('*').eq('athlete_id', athleteId).maybeSingle()
+      ]);
+
+      if (profileError || linkError) {
+        console.error('Error loading profile link:', profileError || linkError);
+        return { success: false, error: 'Failed to load profile link', code: 'DATABASE_ERROR' };
+      }
+
+      if (!profile) {
+        return { success: false, error: 'Athlete profile not found', code: 'NOT_FOUND' };
+      }
+
+      let slug: string;
+      if (input.profileLinkId) {
+        slug = normalizeSlug(input.profileLinkId);
+        if (!SLUG_PATTERN.test(slug) || RESERVED_SLUGS.has(slug)) {
+          return {
+            success: false,
+            error: `Profile URLs need ${SLUG_MIN_LENGTH}-${SLUG_MAX_LENGTH} letters, numbers or dashes and can't be a reserved word`,
+            code: 'INVALID_SLUG'
+          };
+        }
+        if (slug !== existing?.slug && await this.isSlugTaken(slug, athleteId)) {
+          return this.slugTaken(slug, athleteId);
+        }
+      } else {
+        slug = existing?.slug || await this.availableSlug(profile.name, athleteId);
+      }
+
+      const { data: saved, error } = await supabase
+        .from('athlete_profile_links')
+        .upsert({
+          athlete_id: athleteId,
+          slug,
+          enabled: input.profileLinkEnabled,
+          bio: input.profileLinkBio || null,
+          photo_url: input.profileLinkPhotoUrl || null,
+          cover_photo_url: input.coverPhotoUrl !== undefined ? input.coverPhotoUrl || null : existing?.cover_photo_url ?? null,
+          theme: input.profileLinkTheme,
+          background_color: input.profileLinkBackgroundColor,
+          text_color: input.profileLinkTextColor,
+          accent_color: input.profileLinkAccentColor,
+          buttons: input.profileLinkButtons,
+          highlights: input.highlights ?? existing?.highlights ?? [],
+          achievements: input.achievements ?? existing?.achievements ?? [],
+          sponsors: input.sponsors ?? existing?.sponsors ?? [],
+          public_fields: input.publicFields ?? existing?.public_fields ?? DEFAULT_PROFILE_LINK_PUBLIC_FIELDS,
+          updated_at: new Date().toISOString()
+        }, { onConflict: 'athlete_id' })
+        .select()
+        .single();
+
+      if (error) {
+        // Another athlete claimed the slug between the check and the save
+        if (error.code === '23505') {
+          return this.slugTaken(slug, athleteId);
+        }
+        console.error('Error saving profile link:', error);
+        return { success: false, error: 'Failed to save profile link', code: 'DATABASE_ERROR' };
+      }
+
+      let socialHandles = profile.social_handles;
+      if (input.socialHandles) {
+        socialHandles = { ...stringRecord(profile.social_handles) };
+        for (const [platform, handle] of Object.entries(input.socialHandles)) {
+          if (handle) {
+            socialHandles[platform] = handle;
+          } else {
+            delete socialHandles[platform];
+          }
+        }
+
+        const { error: handlesError } = await supabase
+          .from('athlete_profiles')
+          .update({ social_handles: socialHandles, updated_at: new Date().toISOString() })
+          .eq('id', athleteId);
+
+        if (handlesError) {
+          console.error('Error saving social handles:', handlesError);
+        } else {
+          await socialMetricsService.syncAccounts(athleteId);
+        }
+      }
+
+      return {
+        success: true,
+        settings: this.toSettings(saved, saved.slug, socialHandles),
+        message: saved.enabled ? 'Your profile page is live' : 'Profile page saved'
+      };
+    } catch (error: any) {
+      console.error('Save profile link exception:', error);
+      return { success: false, error: error.message || 'Failed to save profile link', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * A published page with only its public fields
+   */
+  async getPublicProfile(slug: string): Promise<ProfileLinkResult> {
+    try {
+      const normalized = normalizeSlug(slug);
+      if (!SLUG_PATTERN.test(normalized)) {
+        return { success: false, error: 'Profile not found', code: 'NOT_FOUND' };
+      }
+
+      const { data: link, error } = await supabase
+        .from('athlete_profile_links')
+        .select('*')
+        .eq('slug', normalized)
+        .eq('enabled', true)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error loading profile link:', error);
+        return { success: false, error: 'Failed to load profile', code: 'DATABASE_ERROR' };
+      }
+
+      if (!link) {
+        return { success: false, error: 'Profile not found', code: 'NOT_FOUND' };
+      }
+
+      const { data: athlete, error: athleteError } = await supabase
+        .from('athlete_profiles')
+        .select('*')
+        .eq('id', link.athlete_id)
+        .maybeSingle();
+
+      if (athleteError || !athlete) {
+        return { success: false, error: 'Profile not found', code: 'NOT_FOUND' };
+      }
+
+      const visible = new Set<ProfileLinkPublicField>(link.public_fields || DEFAULT_PROFILE_LINK_PUBLIC_FIELDS);
+      const profile: PublicAthleteProfile = {
+        id: link.slug,
+        name: athlete.name,
+        profileLinkEnabled: true,
+        profileLinkId: link.slug,
+        profileLinkBio: link.bio || '',
+        profileLinkPhotoUrl: link.photo_url || '',
+        ...(link.cover_photo_url ? { coverPhotoUrl: link.cover_photo_url } : {}),
+        profileLinkTheme: link.theme,
+        profileLinkBackgroundColor: link.background_color,
+        profileLinkTextColor: link.text_color,
+        profileLinkAccentColor: link.accent_color,
+        profileLinkButtons: link.buttons || [],
+        highlights: link.highlights || [],
+        achievements: link.achievements || [],
+        sponsors: link.sponsors || [],
+        socialHandles: visible.has('socialHandles') ? stringRecord(athlete.social_handles) : {}
+      };
+
+      if (visible.has('sport') && athlete.sport) profile.sport = athlete.sport;
+      if (visible.has('school') && athlete.school) profile.school = athlete.school;
+      if (visible.has('position') && athlete.position) profile.position = athlete.position;
+      if (visible.has('graduationYear') && athlete.graduation_year) profile.class = `Class of ${athlete.graduation_year}`;
+      if (visible.has('major') && athlete.major) profile.major = athlete.major;
+      if (visible.has('hometown') && athlete.location) profile.hometown = athlete.location;
+      if (visible.has('summary') && athlete.bio) profile.summary = athlete.bio;
+      if (visible.has('stats')) {
+        const stats = stringRecord(athlete.stats);
+        if (Object.keys(stats).length > 0) profile.stats = stats;
+      }
+      if (visible.has('metrics')) {
+        const metrics = await socialMetricsService.getProfileMetrics(link.athlete_id);
+        if (metrics.success) profile.metrics = metrics.metrics;
+      }
+
+      return { success: true, profile, link: { id: link.id, athlete_id: link.athlete_id } };
+    } catch (error: any) {
+      console.error('Get public profile exception:', error);
+      return { success: false, error: error.message || 'Failed to load profile', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Server-rendered HTML for a profile page, with Open Graph tags for link previews
+   */
+  async renderProfilePage(slug: string, origin: string): Promise<ProfilePageResult> {
+    const result = await this.getPublicProfile(slug);
+    const baseUrl = config.SERVER_URL || origin;
+
+    if (!result.success) {
+      return {
+        status: result.code === 'NOT_FOUND' ? 404 : 500,
+        html: this.renderMessagePage(
+          result.code === 'NOT_FOUND' ? 'Profile not found' : 'Something went wrong',
+          result.code === 'NOT_FOUND'
+            ? "This profile doesn't exist or isn't public. The link may be broken, or the profile may have been removed."
+            : 'We could not load this profile. Please try again later.',
+          baseUrl
+        )
+      };
+    }
+
+    return { status: 200, html: this.renderProfile(result.profile!, baseUrl), link: result.link };
+  }
+
+  /**
+   * Where one of a published page's link buttons goes
+   */
+  async getButtonTarget(slug: string, buttonId: string): Promise<ProfileLinkResult> {
+    const normalized = normalizeSlug(slug);
+    if (!SLUG_PATTERN.test(normalized)) {
+      return { success: false, error: 'Link not found', code: 'NOT_FOUND' };
+    }
+
+    const { data: link, error } = await supabase
+      .from('athlete_profile_links')
+      .select('id, athlete_id, buttons')
+      .eq('slug', normalized)
+      .eq('enabled', true)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading profile link:', error);
+      return { success: false, error: 'Failed to load link', code: 'DATABASE_ERROR' };
+    }
+
+    const button = (link?.buttons || []).find((candidate: { id: string }) => candidate.id === buttonId);
+    const url = safeUrl(button?.url);
+    if (!link || !url) {
+      return { success: false, error: 'Link not found', code: 'NOT_FOUND' };
+    }
+
+    return { success: true, url, link: { id: link.id, athlete_id: link.athlete_id } };
+  }
+
+  /**
+   * Whether a slug belongs to another athlete
+   */
+  private async isSlugTaken(slug: string, athleteId: string): Promise<boolean> {
+    const { data } = await supabase
+      .from('athlete_profile_links')
+      .select('athlete_id')
+      .eq('slug', slug)
+      .maybeSingle();
+
+    return !!data && data.athlete_id !== athleteId;
+  }
+
+  /**
+   * Free slugs based on a name, in order: the name itself, then name-2, name-3, ...
+   */
+  private async availableSlugs(name: string, athleteId: string, count: number): Promise<string[]> {
+    let base = normalizeSlug(name || '').slice(0, SLUG_MAX_LENGTH - 4).replace(/-$/, '');
+    if (base.length < SLUG_MIN_LENGTH) {
+      base = 'athlete';
+    }
+
+    const { data: existing } = await supabase
+      .from('athlete_profile_links')
+      .select('slug, athlete_id')
+      .like('slug', `${base}%`);
+
+    const taken = new Set(
+      (existing || []).filter(row => row.athlete_id !== athleteId).map(row => row.slug)
+    );
+    RESERVED_SLUGS.forEach(reserved => taken.add(reserved));
+
+    const free: string[] = [];
+    if (!taken.has(base)) {
+      free.push(base);
+    }
+    for (let suffix = 2; free.length < count; suffix++) {
+      const candidate = `${base}-${suffix}`;
+      if (!taken.has(candidate)) {
+        free.push(candidate);
+      }
+    }
+
+    return free.slice(0, count);
+  }
+
+  private async availableSlug(name: string, athleteId: string): Promise<string> {
+    const [slug] = await this.availableSlugs(name, athleteId, 1);
+    return slug;
+  }
+
+  private async slugTaken(slug: string, athleteId: string): Promise<ProfileLinkResult> {
+    const suggestions = await this.availableSlugs(slug, athleteId, SLUG_SUGGESTION_COUNT);
+    return {
+      success: false,
+      error: `The profile URL "${slug}" is already taken`,
+      code: 'SLUG_TAKEN',
+      suggestions
+    };
+  }
+
+  // Editor view of a page; defaults fill in for an athlete who hasn't saved one yet
+  private toSettings(link: any, slug: string, socialHandles: unknown): ProfileLinkSettings {
+    return {
+      profileLinkEnabled: !!link?.enabled,
+      profileLinkId: slug,
+      profileLinkUrl: `${config.SERVER_URL || ''}/p/${slug}`,
+      profileLinkBio: link?.bio || '',
+      profileLinkPhotoUrl: link?.photo_url || '',
+      coverPhotoUrl: link?.cover_photo_url || '',
+      profileLinkTheme: (link?.theme || 'default') as ProfileLinkTheme,
+      profileLinkBackgroundColor: link?.background_color || DEFAULT_COLORS.background,
+      profileLinkTextColor: link?.text_color || DEFAULT_COLORS.text,
+      profileLinkAccentColor: link?.accent_color || DEFAULT_COLORS.accent,
+      socialHandles: stringRecord(socialHandles),
+      profileLinkButtons: link?.buttons || [],
+      highlights: link?.highlights || [],
+      achievements: link?.achievements || [],
+      sponsors: link?.sponsors || [],
+      publicFields: link?.public_fields || DEFAULT_PROFILE_LINK_PUBLIC_FIELDS
+    };
+  }
+
+  // Full page for a public profile
+  private renderProfile(profile: PublicAthleteProfile, baseUrl: string): string {
+    const pageUrl = `${baseUrl}/p/${profile.profileLinkId}`;
+    const subtitle = [profile.sport, profile.school].filter(Boolean).join(' · ');
+    const details = [profile.position, profile.class, profile.major, profile.hometown].filter(Boolean);
+    const description = profile.profileLinkBio || profile.summary || subtitle || `${profile.name} on Contested`;
+    const image = safeUrl(profile.profileLinkPhotoUrl) || safeUrl(profile.coverPhotoUrl);
+    const accent = profile.profileLinkAccentColor;
+
+    const sections: string[] = [];
+
+    if (profile.summary && profile.summary !== profile.profileLinkBio) {
+      sections.push(`<section class="card"><p>${escapeHtml(profile.summary)}</p></section>`);
+    }
+
+    if (profile.stats) {
+      sections.push(`<section><h2>Stats &amp; Info</h2><div class="grid">${
+        Object.entries(profile.stats).map(([label, value]) =>
+          `<div class="stat"><span>${escapeHtml(label)}</span><strong>${escapeHtml(value)}</strong></div>`
+        ).join('')
+      }</div></section>`);
+    }
+
+    if (profile.metrics && profile.metrics.followerCount > 0) {
+      const engagement = profile.metrics.engagement;
+      sections.push(`<section><h2>Audience</h2><div class="grid">
+        <div class="stat"><span>Followers</span><strong>${compactNumber(profile.metrics.followerCount)}</strong></div>
+        <div class="stat"><span>Engagement</span><strong>${engagement === null ? '-' : `${escapeHtml(engagement)}%`}</strong></div>
+      </div></section>`);
+    }
+
+    const socials = Object.entries(profile.socialHandles);
+    if (socials.length > 0) {
+      sections.push(`<section><h2>Connect On Social</h2><div class="socials">${
+        socials.map(([platform, handle]) =>
+          `<a class="social" href="${escapeHtml(socialUrl(platform, handle))}" target="_blank" rel="noopener noreferrer">${escapeHtml(platform.charAt(0).toUpperCase() + platform.slice(1))}</a>`
+        ).join('')
+      }</div></section>`);
+    }
+
+    if (profile.profileLinkButtons.length > 0) {
+      sections.push(`<section><h2>Featured Content</h2>${
+        profile.profileLinkButtons.map(button => safeUrl(button.url)
+          ? `<a class="button" href="/p/${escapeHtml(profile.profileLinkId)}/go/${escapeHtml(encodeURIComponent(button.id))}" target="_blank" rel="noopener noreferrer nofollow">${escapeHtml(button.label)}</a>`
+          : ''
+        ).join('')
+      }</section>`);
+    }
+
+    if (profile.highlights.length > 0) {
+      sections.push(`<section><h2>Highlights</h2>${
+        profile.highlights.map(highlight => `<article class="card">
+          ${safeUrl(highlight.imageUrl) ? `<img src="${escapeHtml(highlight.imageUrl)}" alt="${escapeHtml(highlight.title)}" loading="lazy">` : ''}
+          <h3>${escapeHtml(highlight.title)} <small>${escapeHtml(highlight.date)}</small></h3>
+          ${highlight.description ? `<p>${escapeHtml(highlight.description)}</p>` : ''}
+          ${safeUrl(highlight.url) ? `<a href="${escapeHtml(highlight.url)}" target="_blank" rel="noopener noreferrer">Watch highlight</a>` : ''}
+        </article>`).join('')
+      }</section>`);
+    }
+
+    if (profile.achievements.length > 0) {
+      sections.push(`<section><h2>Achievements</h2><ul class="list">${
+        profile.achievements.map(achievement =>
+          `<li><strong>${escapeHtml(achievement.title)}</strong> <small>${escapeHtml(achievement.date)}</small></li>`
+        ).join('')
+      }</ul></section>`);
+    }
+
+    if (profile.sponsors.length > 0) {
+      sections.push(`<section><h2>Partners</h2><div class="grid">${
+        profile.sponsors.map(sponsor => {
+          const logo = safeUrl(sponsor.logoUrl)
+            ? `<img src="${escapeHtml(sponsor.logoUrl)}" alt="" loading="lazy">`
+            : '';
+          const body = `${logo}<span>${escapeHtml(sponsor.name)}</span>`;
+          return safeUrl(sponsor.websiteUrl)
+            ? `<a class="stat sponsor" href="${escapeHtml(sponsor.websiteUrl)}" target="_blank" rel="noopener noreferrer">${body}</a>`
+            : `<div class="stat sponsor">${body}</div>`;
+        }).join('')
+      }</div></section>`);
+    }
+
+    const head = `
+    <meta property="og:type" content="profile">
+    <meta property="og:site_name" content="Contested">
+    <meta property="og:title" content="${escapeHtml(profile.name)}${subtitle ? ` | ${escapeHtml(subtitle)}` : ''}">
+    <meta property="og:description" content="${escapeHtml(description)}">
+    <meta property="og:url" content="${escapeHtml(pageUrl)}">
+    ${image ? `<meta property="og:image" content="${escapeHtml(image)}">` : ''}
+    <meta name="twitter:card" content="${image ? 'summary_large_image' : 'summary'}">
+    <meta name="twitter:title" content="${escapeHtml(profile.name)}">
+    <meta name="twitter:description" content="${escapeHtml(description)}">
+    ${image ? `<meta name="twitter:image" content="${escapeHtml(image)}">` : ''}
+    <link rel="canonical" href="${escapeHtml(pageUrl)}">`;
+
+    const initials = profile.name.split(/\s+/).map(part => part.charAt(0)).join('').slice(0, 3);
+
+    return this.renderDocument({
+      title: `${profile.name} | Contested`,
+      description,
+      head,
+      theme: profile.profileLinkTheme,
+      colors: { background: profile.profileLinkBackgroundColor, text: profile.profileLinkTextColor, accent },
+      body: `
+    <div class="cover">${safeUrl(profile.coverPhotoUrl) ? `<img src="${escapeHtml(profile.coverPhotoUrl)}" alt="">` : ''}</div>
+    <header>
+      ${safeUrl(profile.profileLinkPhotoUrl)
+        ? `<img class="avatar" src="${escapeHtml(profile.profileLinkPhotoUrl)}" alt="${escapeHtml(profile.name)}">`
+        : `<div class="avatar">${escapeHtml(initials)}</div>`}
+      <h1>${escapeHtml(profile.name)}</h1>
+      ${subtitle ? `<p class="subtitle">${escapeHtml(subtitle)}</p>` : ''}
+      ${details.length > 0 ? `<p class="details">${details.map(escapeHtml).join(' · ')}</p>` : ''}
+      ${profile.profileLinkBio ? `<p class="bio">${escapeHtml(profile.profileLinkBio)}</p>` : ''}
+    </header>
+    ${sections.join('\n')}
+    <section class="card cta">
+      <h2>Interested in a Partnership?</h2>
+      <p>Connect through Contested for verified NIL opportunities</p>
+      <a class="button" href="${escapeHtml(baseUrl || '/')}">Contact via Contested</a>
+    </section>`
+    });
+  }
+
+  // Not-found and error pages
+  private renderMessagePage(title: string, message: string, baseUrl: string): string {
+    return this.renderDocument({
+      title: `${title} | Contested`,
+      description: message,
+      head: '<meta name="robots" content="noindex">',
+      theme: 'default',
+      colors: DEFAULT_COLORS,
+      body: `<header><h1>${escapeHtml(title)}</h1><p class="bio">${escapeHtml(message)}</p>
+      <a class="button" href="${escapeHtml(baseUrl || '/')}">Back to Contested</a></header>`
+    });
+  }
+
+  private renderDocument(page: {
+    title: string;
+    description: string;
+    head: string;
+    theme: ProfileLinkTheme;
+    colors: { background: string; text: string; accent: string };
+    body: string;
+  }): string {
+    // Colours are validated as hex on save, but the page never trusts them
+    const color = (value: string, fallback: string) => /^#[0-9a-f]{6}$/i.test(value) ? value : fallback;
+    const background = color(page.colors.background, DEFAULT_COLORS.background);
+    const text = color(page.colors.text, DEFAULT_COLORS.text);
+    const accent = color(page.colors.accent, DEFAULT_COLORS.accent);
+    const radius = page.theme === 'modern' ? '4px' : '12px';
+    const gradient = page.theme === 'vibrant'
+      ? `linear-gradient(140deg, ${accent} 0%, ${background} 60%)`
+      : page.theme === 'modern' ? background : `linear-gradient(140deg, ${background} 0%, #111 100%)`;
+
+    return `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${escapeHtml(page.title)}</title>
+    <meta name="description" content="${escapeHtml(page.description)}">
+    <link rel="icon" type="image/svg+xml" href="/favicon.svg">
+    ${page.head}
+    <style>
+      * { box-sizing: border-box; }
+      body { margin: 0; min-height: 100vh; background: ${gradient}; color: ${text}; font-family: system-ui, -apple-system, 'Segoe UI', Roboto, sans-serif; }
+      main { max-width: 32rem; margin: 0 auto; padding: 0 1rem 3rem; }
+      .cover { height: 10rem; margin: 0 -1rem; background: linear-gradient(135deg, ${accent}55, #000) center / cover; }
+      .cover img { display: block; width: 100%; height: 100%; object-fit: cover; }
+      header { text-align: center; padding-top: 1rem; }
+      .avatar { width: 7rem; height: 7rem; margin: -4.5rem auto 0.75rem; border-radius: 50%; border: 4px solid ${accent}; object-fit: cover; display: flex; align-items: center; justify-content: center; font-size: 2rem; font-weight: 700; background: linear-gradient(135deg, ${accent}, #111 150%); }
+      h1 { margin: 0; font-size: 2rem; }
+      h2 { font-size: 0.75rem; text-transform: uppercase; letter-spacing: 0.1em; margin: 2rem 0 0.75rem; }
+      h3 { margin: 0 0 0.5rem; font-size: 1.05rem; }
+      small, .details { opacity: 0.7; font-weight: normal; }
+      .subtitle { font-weight: 600; margin: 0.5rem 0 0; }
+      .bio { line-height: 1.5; opacity: 0.9; }
+      .card { background: rgba(0, 0, 0, 0.25); border: 1px solid rgba(255, 255, 255, 0.08); border-radius: ${radius}; padding: 1rem; margin-bottom: 0.75rem; }
+      .card img { width: 100%; border-radius: ${radius}; margin-bottom: 0.75rem; }
+      .grid { display: grid; grid-template-columns: repeat(auto-fill, minmax(7rem, 1fr)); gap: 0.5rem; }
+      .stat { background: rgba(0, 0, 0, 0.3); border-radius: ${radius}; padding: 0.75rem; text-align: center; display: flex; flex-direction: column; gap: 0.25rem; color: inherit; text-decoration: none; }
+      .stat span { font-size: 0.75rem; opacity: 0.7; }
+      .sponsor img { max-height: 2.5rem; max-width: 100%; margin: 0 auto; }
+      .sponsor span { opacity: 1; font-size: 0.85rem; }
+      .socials { display: flex; flex-wrap: wrap; gap: 0.5rem; }
+      .social { padding: 0.5rem 0.9rem; border-radius: 999px; background: ${accent}33; border: 1px solid ${accent}; color: inherit; text-decoration: none; font-size: 0.85rem; }
+      .button { display: block; padding: 0.85rem 1rem; margin-bottom: 0.6rem; border-radius: ${radius}; border-left: 3px solid ${accent}; background: linear-gradient(to right, rgba(0, 0, 0, 0.3), ${accent}22); color: inherit; text-decoration: none; font-weight: 600; }
+      .list { list-style: none; padding: 0; margin: 0; }
+      .list li { padding: 0.75rem; margin-bottom: 0.5rem; background: rgba(0, 0, 0, 0.2); border-radius: ${radius}; }
+      .cta { text-align: center; margin-top: 2rem; }
+      .cta h2 { margin-top: 0; }
+      a { color: ${accent}; }
+      footer { text-align: center; font-size: 0.85rem; opacity: 0.7; margin-top: 2rem; }
+      footer a { color: inherit; font-weight: 600; }
+    </style>
+  </head>
+  <body>
+    <main>
+    ${page.body}
+    <footer>Powered by <a href="/">Contested</a></footer>
+    </main>
+  </body>
+</html>`;
+  }
+}
+
+// Create and export singleton instance
+export const profileLinkService = new ProfileLinkService();
+export default profileLinkService;
@@ -9,6 +9,11 @@
 import { supabase, supabaseAdmin, getSupabaseAdmin, handleDatabaseError } from '../lib/supabase';
 import { v4 as uuidv4 } from 'uuid';
 import { Express, Request, Response } from 'express';
+import { compensationMinimumSchema, guardianInviteSchema, type CompensationMinimum } from '../../shared/schema';
+import { minimumFromText } from '../../shared/compensation';
+import { calculateAge } from '../utils/age';
+import { guardianConsentService } from './guardianConsentService';
+import { socialMetricsService } from './socialMetricsService';
 
 // Types for profile data
 export interface AthleteProfile {
@@ -30,6 +35,7 @@ export interface AthleteProfile {
   follower_count?: number;
   content_style?: string;
   compensation_goals?: string;
+  minimum_compensation?: CompensationMinimum | null;
   profile_image?: string;
   created_at?: string;
   updated_at: string;
@@ -259,11 +265,43 @@ class ProfileService {
       // Generate a session ID if not provided
       const sessionId = profileData.session_id || uuidv4();
 
+      // Ages are worked out from the stored date of birth, so drop any the client
+      // claims; guardian details go to guardian consent rather than the profile
+      const {
+        birthdate,
+        age: _age,
+        is_minor: _isMinor,
+        was_minor: _wasMinor,
+        guardian_name: guardianName,
+        guardian_email: guardianEmail,
+        guardian_relationship: guardianRelationship,
+        ...fields
+      } = profileData as Record<string, any>;
+
+      const dateOfBirth = fields.date_of_birth || birthdate;
+      if (dateOfBirth) {
+        if (calculateAge(dateOfBirth) === null) {
+          return { success: false, error: 'Invalid date of birth' };
+        }
+        fields.date_of_birth = String(dateOfBirth).slice(0, 10);
+      } else if ('date_of_birth' in fields) {
+        fields.date_of_birth = null;
+      }
+
+      // A minor can't lift the guardian consent requirement by editing or clearing their date of birth
+      if ('date_of_birth' in fields
+        && await guardianConsentService.wouldClearMinorStatus(userId, fields.date_of_birth)) {
+        return {
+          success: false,
+          error: 'Your date of birth is on record as under 18 and can only be corrected by our support team'
+        };
+      }
+
       // Format data for database insert
       const dbProfile: any = {
         id: userId,
         session_id: sessionId,
-        ...profileData,
+        ...fields,
         updated_at: new Date().toISOString()
       };
 
@@ -289,6 +327,30 @@ class ProfileService {
       // Update the user record to mark profile as completed
       await this.markProfileCompleted(userId);
 
+      // New or changed handles become social accounts for the metrics scheduler to look up
+      if (fields.social_handles) {
+        const synced = await socialMetricsService.syncAccounts(userId);
+        if (!synced.success) {
+          console.error('Error syncing social accounts from athlete profile:', synced.error);
+        }
+      }
+
+      // Minors who named a guardian during onboarding get the invite sent right away
+      const guardian = guardianInviteSchema.safeParse({
+        name: guardianName,
+        email: guardianEmail,
+        relationship: guardianRelationship || undefined
+      });
+      if (guardian.success) {
+        const { isMinor } = await guardianConsentService.getAthleteAge(userId);
+        if (isMinor) {
+          const invite = await guardianConsentService.inviteGuardian(userId, guardian.data);
+          if (!invite.success) {
+            console.error('Error inviting guardian from athlete profile:', invite.error);
+          }
+        }
+      }
+
       return {
         success: true,
         profile: this.formatAthleteProfile(data)
@@ -803,7 +865,18 @@ class ProfileService {
                           'sport', 'position', 'sport_achievements', 'content_style',
                           'compensation_goals'].includes(key))
           .reduce((obj, key) => ({ ...obj, [key]: req.body[key] }), {})
-      };
+      } as Record<string, any>;
+
+      // Store the minimum structured; older clients send it as free text
+      if (typeof athleteData.minimum_compensation === 'string') {
+        athleteData.minimum_compensation = minimumFromText(athleteData.minimum_compensation, compensation_goals);
+      } else if (athleteData.minimum_compensation) {
+        const parsed = compensationMinimumSchema.safeParse(athleteData.minimum_compensation);
+        if (!parsed.success) {
+          return res.status(400).json({ error: 'Invalid minimum compensation', details: parsed.error.issues });
+        }
+        athleteData.minimum_compensation = parsed.data;
+      }
 
       try {
         const result = await this.upsertAthleteProfile(session_id, athleteData);
@@ -0,0 +1,619 @@
+/**
+ * Rating Service
+ *
+ * Two-way ratings once a partnership has ended: the business rates the
+ * athlete on on-time delivery, content quality and communication, and the
+ * athlete rates the business on payment timeliness, clarity and respect.
+ * Ratings roll up into a reputation score per user that is shown on their
+ * profile and used by match scoring. The rated party can appeal a rating
+ * once; it keeps counting until an admin decides to remove it.
+ */
+
+import { supabase } from '../lib/supabase';
+import { notificationService } from './notificationService';
+import {
+  ATHLETE_RATING_CRITERIA,
+  BUSINESS_RATING_CRITERIA,
+  OfferStatus,
+  PartnershipRating,
+  PendingRating,
+  RatingAppealDecision,
+  RatingInput,
+  RatingRole,
+  ReputationScore
+} from '../../shared/schema';
+
+// Offer statuses a partnership can be rated from, once it has also ended. Offers
+// have no end state of their own ("active" is the last one, set when the contract
+// is signed), so whether the deal is over comes from its escrow and deliverables.
+const RATEABLE_OFFER_STATUSES: OfferStatus[] = ['accepted', 'active'];
+
+// Escrow states that mean the money side of the deal is closed
+const CLOSED_ESCROW_STATUSES = ['released', 'refunded'];
+
+// Reputation starts from this score and moves towards the user's own average
+// as ratings come in, so a single review can't make or break a profile
+const PRIOR_SCORE = 3.5;
+const PRIOR_WEIGHT = 3;
+
+// Ratings that count towards reputation; appealed ratings count until removed
+const COUNTED_STATUSES = ['published', 'appealed'];
+
+// The user giving, reading or appealing ratings
+export interface RatingUser {
+  id: string;
+  role: string;
+}
+
+// Interface for rating results
+export interface RatingResult {
+  success: boolean;
+  rating?: PartnershipRating;
+  ratings?: PartnershipRating[];
+  pending?: PendingRating[];
+  reputation?: ReputationScore;
+  error?: string;
+  code?: string;
+  message?: string;
+}
+
+/**
+ * Whether a partnership is over and can be rated: the offer was accepted and
+ * either the escrow has been released or refunded, or every deliverable has
+ * been approved
+ */
+export function hasEnded(offer: any, escrow: any | null, deliverables: any[]): boolean {
+  if (!RATEABLE_OFFER_STATUSES.includes(offer.status)) {
+    return false;
+  }
+  if (escrow && CLOSED_ESCROW_STATUSES.includes(escrow.status)) {
+    return true;
+  }
+  return deliverables.length > 0 && deliverables.every(deliverable => deliverable.status === 'approved');
+}
+
+/**
+ * Criteria the given side of a partnership is rated on
+ */
+export function criteriaFor(rateeRole: RatingRole): readonly string[] {
+  return rateeRole === 'athlete' ? ATHLETE_RATING_CRITERIA : BUSINESS_RATING_CRITERIA;
+}
+
+/**
+ * Aggregate the ratings a user has received into a reputation score
+ */
+export function aggregateReputation(userId: string, role: RatingRole, ratings: any[]): ReputationScore {
+  const counted = ratings.filter(rating => COUNTED_STATUSES.includes(rating.status));
+  const criteria: Record<string, number> = {};
+
+  criteriaFor(role).forEach(criterion => {
+    const values = counted
+      .map(rating => Number(rating.scores?.[criterion]))
+      .filter(value => Number.isFinite(value));
+    if (values.length > 0) {
+      criteria[criterion] = round(values.reduce((sum, value) => sum + value, 0) / values.length);
+    }
+  });
+
+  const total = counted.reduce((sum, rating) => sum + Number(rating.overall), 0);
+
+  return {
+    user_id: userId,
+    role,
+    rating_count: counted.length,
+    average: counted.length > 0 ? round(total / counted.length) : null,
+    score: counted.length > 0 ? round((PRIOR_SCORE * PRIOR_WEIGHT + total) / (PRIOR_WEIGHT + counted.length)) : null,
+    criteria,
+    updated_at: new Date().toISOString()
+  };
+}
+
+// Scores are stored as numeric(3,2)
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function toReputation(row: any): ReputationScore {
+  return {
+    user_id: row.user_id,
+    role: row.role,
+    rating_count: row.rating_count,
+    average: row.average === null ? null : Number(row.average),
+    score: row.score === null ? null : Number(row.score),
+    criteria: row.criteria || {},
+    updated_at: row.updated_at
+  };
+}
+
+// Main rating service class
+class RatingService {
+  /**
+   * Ended partnerships the user hasn't rated yet
+   */
+  async getPending(user: RatingUser): Promise<RatingResult> {
+    try {
+      if (user.role !== 'athlete' && user.role !== 'business') {
+        return { success: true, pending: [] };
+      }
+
+      const partyColumn = user.role === 'business' ? 'business_id' : 'athlete_id';
+      const { data: offers, error } = await supabase
+        .from('partnership_offers')
+        .select('id, status, athlete_id, business_id, campaign_id')
+        .eq(partyColumn, user.id)
+        .in('status', RATEABLE_OFFER_STATUSES);
+
+      if (error) {
+        console.error('Error loading offers to rate:', error);
+        return { success: false, error: 'Failed to load partnerships', code: 'DATABASE_ERROR' };
+      }
+
+      if (!offers || offers.length === 0) {
+        return { success: true, pending: [] };
+      }
+
+      const offerIds = offers.map(offer => offer.id);
+      const [{ data: escrows }, { data: deliverables }, { data: given }] = await Promise.all([
+        supabase.from('escrows').select('offer_id, status').in('offer_id', offerIds),
+        supabase.from('deliverables').select('offer_id, status').in('offer_id', offerIds),
+        supabase.from('partnership_ratings').select('offer_id').eq('rater_id', user.id).in('offer_id', offerIds)
+      ]);
+
+      const rated = new Set((given || []).map(rating => rating.offer_id));
+      const ended = offers.filter(offer => !rated.has(offer.id) && hasEnded(
+        offer,
+        escrows?.find(escrow => escrow.offer_id === offer.id) || null,
+        (deliverables || []).filter(deliverable => deliverable.offer_id === offer.id)
+      ));
+
+      if (ended.length === 0) {
+        return { success: true, pending: [] };
+      }
+
+      const rateeRole: RatingRole = user.role === 'business' ? 'athlete' : 'business';
+      const rateeIds = ended.map(offer => rateeRole === 'athlete' ? offer.athlete_id : offer.business_id);
+      const campaignIds = Array.from(new Set(ended.map(offer => offer.campaign_id).filter(Boolean)));
+
+      const [names, { data: campaigns }] = await Promise.all([
+        this.loadNames(rateeRole, rateeIds),
+        campaignIds.length
+          ? supabase.from('campaigns').select('id, title').in('id', campaignIds)
+          : Promise.resolve({ data: [] as any[] })
+      ]);
+
+      const pending: PendingRating[] = ended.map((offer, index) => ({
+        offer_id: offer.id,
+        ratee_id: rateeIds[index],
+        ratee_name: names.get(rateeIds[index]) || (rateeRole === 'athlete' ? 'Unknown athlete' : 'Unknown business'),
+        ratee_role: rateeRole,
+        campaign_title: campaigns?.find(campaign => campaign.id === offer.campaign_id)?.title || null,
+        criteria: [...criteriaFor(rateeRole)]
+      }));
+
+      return { success: true, pending };
+    } catch (error: any) {
+      console.error('Get pending ratings exception:', error);
+      return { success: false, error: error.message || 'Failed to load ratings', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Rate the other party of an ended partnership
+   */
+  async submit(user: RatingUser, input: RatingInput): Promise<RatingResult> {
+    try {
+      const { data: offer, error: offerError } = await supabase
+        .from('partnership_offers')
+        .select('id, status, athlete_id, business_id')
+        .eq('id', input.offerId)
+        .maybeSingle();
+
+      if (offerError) {
+        console.error('Error loading offer to rate:', offerError);
+        return { success: false, error: 'Failed to load partnership', code: 'DATABASE_ERROR' };
+      }
+
+      if (!offer) {
+        return { success: false, error: 'Partnership not found', code: 'NOT_FOUND' };
+      }
+
+      let raterRole: RatingRole;
+      if (offer.athlete_id === user.id) {
+        raterRole = 'athlete';
+      } else if (offer.business_id === user.id) {
+        raterRole = 'business';
+      } else {
+        return { success: false, error: 'You can only rate your own partnerships', code: 'FORBIDDEN' };
+      }
+
+      const [{ data: escrow }, { data: deliverables }] = await Promise.all([
+        supabase.from('escrows').select('status').eq('offer_id', offer.id).maybeSingle(),
+        supabase.from('deliverables').select('status').eq('offer_id', offer.id)
+      ]);
+
+      if (!hasEnded(offer, escrow, deliverables || [])) {
+        return { success: false, error: 'Partnerships can be rated once they have ended', code: 'NOT_ENDED' };
+      }
+
+      const rateeRole: RatingRole = raterRole === 'athlete' ? 'business' : 'athlete';
+      const criteria = criteriaFor(rateeRole);
+      const scores = input.scores as Record<string, number>;
+
+      if (!criteria.every(criterion => criterion in scores)) {
+        return {
+          success: false,
+          error: `Rate the ${rateeRole} on ${criteria.join(', ')}`,
+          code: 'INVALID_INPUT'
+        };
+      }
+
+      const rateeId = rateeRole === 'athlete' ? offer.athlete_id : offer.business_id;
+      const overall = criteria.reduce((sum, criterion) => sum + scores[criterion], 0) / criteria.length;
+
+      const { data: rating, error } = await supabase
+        .from('partnership_ratings')
+        .insert({
+          offer_id: offer.id,
+          rater_id: user.id,
+          ratee_id: rateeId,
+          rater_role: raterRole,
+          scores,
+          overall: round(overall),
+          comment: input.comment || null,
+          status: 'published'
+        })
+        .select()
+        .single();
+
+      if (error) {
+        if (error.code === '23505') {
+          return { success: false, error: 'You have already rated this partnership', code: 'ALREADY_RATED' };
+        }
+        console.error('Error saving rating:', error);
+        return { success: false, error: 'Failed to save rating', code: 'DATABASE_ERROR' };
+      }
+
+      await this.refreshReputation(rateeId, rateeRole);
+
+      await this.notify(rateeId, {
+        type: 'RATING_RECEIVED',
+        title: 'You received a new rating',
+        content: raterRole === 'business'
+          ? 'A business you worked with rated your partnership.'
+          : 'An athlete you worked with rated your partnership.',
+        ratingId: rating.id
+      });
+
+      return { success: true, rating, message: 'Thanks for rating this partnership' };
+    } catch (error: any) {
+      console.error('Submit rating exception:', error);
+      return { success: false, error: error.message || 'Failed to save rating', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Ratings the user has received, including removed ones so appeal outcomes are visible
+   */
+  async getReceived(userId: string): Promise<RatingResult> {
+    return this.listRatings('ratee_id', userId);
+  }
+
+  /**
+   * Ratings the user has given
+   */
+  async getGiven(userId: string): Promise<RatingResult> {
+    return this.listRatings('rater_id', userId);
+  }
+
+  /**
+   * A user's reputation; users without ratings get an empty score
+   */
+  async getReputation(userId: string): Promise<RatingResult> {
+    try {
+      const { data, error } = await supabase
+        .from('reputation_scores')
+        .select('*')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error loading reputation:', error);
+        return { success: false, error: 'Failed to load reputation', code: 'DATABASE_ERROR' };
+      }
+
+      if (data) {
+        return { success: true, reputation: toReputation(data) };
+      }
+
+      const { data: user } = await supabase.from('users').select('role').eq('id', userId).maybeSingle();
+      const role: RatingRole = user?.role === 'business' ? 'business' : 'athlete';
+      return { success: true, reputation: aggregateReputation(userId, role, []) };
+    } catch (error: any) {
+      console.error('Get reputation exception:', error);
+      return { success: false, error: error.message || 'Failed to load reputation', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Reputation scores for several users, keyed by user id (used by match scoring)
+   * Users without ratings are left out; failures are logged and yield an empty map
+   */
+  async getReputations(userIds: string[]): Promise<Map<string, ReputationScore>> {
+    const reputations = new Map<string, ReputationScore>();
+    if (userIds.length === 0) {
+      return reputations;
+    }
+
+    const { data, error } = await supabase
+      .from('reputation_scores')
+      .select('*')
+      .in('user_id', userIds);
+
+    if (error) {
+      console.error('Error loading reputations:', error);
+      return reputations;
+    }
+
+    (data || []).forEach(row => reputations.set(row.user_id, toReputation(row)));
+    return reputations;
+  }
+
+  /**
+   * Dispute a rating you received; each rating can be appealed once
+   */
+  async appeal(userId: string, ratingId: string, reason: string): Promise<RatingResult> {
+    try {
+      const rating = await this.loadRating(ratingId);
+      if (!rating) {
+        return { success: false, error: 'Rating not found', code: 'NOT_FOUND' };
+      }
+
+      if (rating.ratee_id !== userId) {
+        return { success: false, error: 'You can only appeal ratings you received', code: 'FORBIDDEN' };
+      }
+
+      if (rating.status !== 'published' || rating.appealed_at) {
+        return { success: false, error: 'This rating has already been appealed', code: 'ALREADY_APPEALED' };
+      }
+
+      const { data: updated, error } = await supabase
+        .from('partnership_ratings')
+        .update({ status: 'appealed', appeal_reason: reason, appealed_at: new Date().toISOString() })
+        .eq('id', ratingId)
+        .eq('status', 'published')
+        .select()
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error appealing rating:', error);
+        return { success: false, error: 'Failed to appeal rating', code: 'DATABASE_ERROR' };
+      }
+
+      if (!updated) {
+        return { success: false, error: 'This rating has already been appealed', code: 'ALREADY_APPEALED' };
+      }
+
+      return { success: true, rating: updated, message: 'Appeal sent. Our team will review it.' };
+    } catch (error: any) {
+      console.error('Appeal rating exception:', error);
+      return { success: false, error: error.message || 'Failed to appeal rating', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Ratings waiting for an appeal decision, oldest first (admin)
+   */
+  async getAppeals(): Promise<RatingResult> {
+    try {
+      const { data, error } = await supabase
+        .from('partnership_ratings')
+        .select('*')
+        .eq('status', 'appealed')
+        .order('appealed_at', { ascending: true });
+
+      if (error) {
+        console.error('Error loading rating appeals:', error);
+        return { success: false, error: 'Failed to load appeals', code: 'DATABASE_ERROR' };
+      }
+
+      return { success: true, ratings: await this.withNames(data || []) };
+    } catch (error: any) {
+      console.error('Get rating appeals exception:', error);
+      return { success: false, error: error.message || 'Failed to load appeals', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Decide an appeal (admin): uphold the rating or remove it from the reputation score
+   */
+  async resolveAppeal(adminId: string, ratingId: string, decision: RatingAppealDecision): Promise<RatingResult> {
+    try {
+      const rating = await this.loadRating(ratingId);
+      if (!rating) {
+        return { success: false, error: 'Rating not found', code: 'NOT_FOUND' };
+      }
+
+      if (rating.status !== 'appealed') {
+        return { success: false, error: 'This rating has no open appeal', code: 'INVALID_OPERATION' };
+      }
+
+      const { data: updated, error } = await supabase
+        .from('partnership_ratings')
+        .update({
+          status: decision.decision === 'remove' ? 'removed' : 'published',
+          appeal_decision: decision.decision,
+          resolution_note: decision.note || null,
+          resolved_by: adminId,
+          resolved_at: new Date().toISOString()
+        })
+        .eq('id', ratingId)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error resolving rating appeal:', error);
+        return { success: false, error: 'Failed to resolve appeal', code: 'DATABASE_ERROR' };
+      }
+
+      const rateeRole: RatingRole = rating.rater_role === 'athlete' ? 'business' : 'athlete';
+      await this.refreshReputation(rating.ratee_id, rateeRole);
+
+      const removed = decision.decision === 'remove';
+      await this.notify(rating.ratee_id, {
+        type: 'RATING_APPEAL_RESOLVED',
+        title: removed ? 'Your appeal was accepted' : 'Your appeal was reviewed',
+        content: removed
+          ? 'The rating you disputed has been removed from your reputation.'
+          : `The rating you disputed will stay on your profile.${decision.note ? ' ' + decision.note : ''}`,
+        ratingId
+      });
+
+      if (removed) {
+        await this.notify(rating.rater_id, {
+          type: 'RATING_REMOVED',
+          title: 'A rating you gave was removed',
+          content: `After review, one of your partnership ratings was removed.${decision.note ? ' ' + decision.note : ''}`,
+          ratingId
+        });
+      }
+
+      return {
+        success: true,
+        rating: updated,
+        message: removed ? 'Rating removed' : 'Rating upheld'
+      };
+    } catch (error: any) {
+      console.error('Resolve rating appeal exception:', error);
+      return { success: false, error: error.message || 'Failed to resolve appeal', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Recompute and store a user's reputation from their ratings
+   */
+  private async refreshReputation(userId: string, role: RatingRole): Promise<void> {
+    const { data: ratings, error } = await supabase
+      .from('partnership_ratings')
+      .select('scores, overall, status')
+      .eq('ratee_id', userId)
+      .in('status', COUNTED_STATUSES);
+
+    if (error) {
+      console.error('Error loading ratings for reputation:', error);
+      return;
+    }
+
+    const { error: upsertError } = await supabase
+      .from('reputation_scores')
+      .upsert(aggregateReputation(userId, role, ratings || []), { onConflict: 'user_id' });
+
+    if (upsertError) {
+      console.error('Error saving reputation:', upsertError);
+    }
+  }
+
+  private async listRatings(column: 'rater_id' | 'ratee_id', userId: string): Promise<RatingResult> {
+    try {
+      const { data, error } = await supabase
+        .from('partnership_ratings')
+        .select('*')
+        .eq(column, userId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error loading ratings:', error);
+        return { success: false, error: 'Failed to load ratings', code: 'DATABASE_ERROR' };
+      }
+
+      return { success: true, ratings: await this.withNames(data || []) };
+    } catch (error: any) {
+      console.error('List ratings exception:', error);
+      return { success: false, error: error.message || 'Failed to load ratings', code: 'SERVER_ERROR' };
+    }
+  }
+
+  private async loadRating(ratingId: string): Promise<any | null> {
+    const { data, error } = await supabase
+      .from('partnership_ratings')
+      .select('*')
+      .eq('id', ratingId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error('Failed to load rating');
+    }
+
+    return data;
+  }
+
+  /**
+   * Display names for athletes or businesses, keyed by id
+   */
+  private async loadNames(role: RatingRole, ids: string[]): Promise<Map<string, string>> {
+    const names = new Map<string, string>();
+    const unique = Array.from(new Set(ids.filter(Boolean)));
+    if (unique.length === 0) {
+      return names;
+    }
+
+    if (role === 'athlete') {
+      const { data } = await supabase.from('athlete_profiles').select('id, name, full_name').in('id', unique);
+      (data || []).forEach(athlete => names.set(athlete.id, athlete.full_name || athlete.name));
+    } else {
+      const { data } = await supabase.from('business_profiles').select('id, name, company').in('id', unique);
+      (data || []).forEach(business => names.set(business.id, business.company || business.name));
+    }
+
+    return names;
+  }
+
+  private async withNames(ratings: any[]): Promise<PartnershipRating[]> {
+    const athleteIds: string[] = [];
+    const businessIds: string[] = [];
+    ratings.forEach(rating => {
+      if (rating.rater_role === 'athlete') {
+        athleteIds.push(rating.rater_id);
+        businessIds.push(rating.ratee_id);
+      } else {
+        businessIds.push(rating.rater_id);
+        athleteIds.push(rating.ratee_id);
+      }
+    });
+
+    const [athletes, businesses] = await Promise.all([
+      this.loadNames('athlete', athleteIds),
+      this.loadNames('business', businessIds)
+    ]);
+
+    return ratings.map(rating => {
+      const raterNames = rating.rater_role === 'athlete' ? athletes : businesses;
+      const rateeNames = rating.rater_role === 'athlete' ? businesses : athletes;
+      return {
+        ...rating,
+        overall: Number(rating.overall),
+        rater_name: raterNames.get(rating.rater_id) || null,
+        ratee_name: rateeNames.get(rating.ratee_id) || null
+      };
+    });
+  }
+
+  private async notify(
+    userId: string,
+    notification: { type: string; title: string; content: string; ratingId: string }
+  ): Promise<void> {
+    const { type, title, content, ratingId } = notification;
+
+    await notificationService.notify(userId, {
+      type,
+      title,
+      content,
+      referenceType: 'RATING',
+      referenceId: ratingId,
+      data: { ratingId }
+    });
+  }
+}
+
+// Create and export singleton instance
+export const ratingService = new RatingService();
+export default ratingService;
@@ -0,0 +1,359 @@
+/**
+ * Social Metrics Provider
+ *
+ * One adapter per SocialPlatform that looks up an account's public numbers
+ * (followers, posts and, where the platform exposes recent posts, an
+ * engagement rate). Live adapters call each platform's API with the app
+ * credentials from the environment; MockSocialMetricsAdapter stands in for
+ * any platform without credentials, or for all of them when
+ * SOCIAL_METRICS_PROVIDER=mock, so the ingestion pipeline runs offline.
+ */
+
+import { createHash } from 'crypto';
+import config from '../config/environment';
+import { AppError } from '../lib/error';
+import { SocialPlatform } from '../../shared/schema';
+
+// The account to look up
+export interface SocialAccountRef {
+  handle: string;
+  url?: string | null;
+}
+
+// Numbers a platform reports for an account
+export interface PlatformMetrics {
+  followers: number;
+  posts: number | null; // Posts, tweets or videos
+  engagementRate: number | null; // Average interactions per recent post, as a percentage of followers
+  views?: number | null;
+  likes?: number | null;
+}
+
+export interface SocialMetricsAdapter {
+  platform: SocialPlatform;
+  name: string;
+  fetchMetrics(account: SocialAccountRef): Promise<PlatformMetrics>;
+}
+
+export const GRAPH_API = 'https://graph.facebook.com/v19.0';
+
+export function cleanHandle(handle: string): string {
+  return handle.trim().replace(/^@/, '');
+}
+
+function roundRate(rate: number): number {
+  return Math.round(rate * 100) / 100;
+}
+
+// Average interactions per post as a percentage of followers
+function engagementFrom(interactions: number[], followers: number): number | null {
+  if (interactions.length === 0 || followers <= 0) {
+    return null;
+  }
+
+  const average = interactions.reduce((sum, value) => sum + value, 0) / interactions.length;
+  return roundRate((average / followers) * 100);
+}
+
+/**
+ * GET or POST a platform API, mapping its error responses to AppErrors
+ */
+export async function getJson(url: string, init?: RequestInit): Promise<any> {
+  const response = await fetch(url, init);
+  const body = await response.json().catch(() => ({}));
+
+  if (response.status === 404) {
+    throw new AppError('Account not found on the platform', 404, 'ACCOUNT_NOT_FOUND');
+  }
+  if (response.status === 429) {
+    throw new AppError('Platform rate limit reached', 429, 'RATE_LIMITED');
+  }
+  if (!response.ok) {
+    throw new AppError(body?.error?.message || body?.detail || `Platform request failed (${response.status})`, 502, 'PROVIDER_ERROR');
+  }
+
+  return body;
+}
+
+/**
+ * Instagram Graph API business discovery (creator and business accounts)
+ */
+export class InstagramGraphAdapter implements SocialMetricsAdapter {
+  platform = 'instagram' as const;
+  name = 'instagram-graph';
+
+  constructor(private accessToken: string, private businessAccountId: string) {}
+
+  async fetchMetrics(account: SocialAccountRef): Promise<PlatformMetrics> {
+    const fields = `business_discovery.username(${cleanHandle(account.handle)}){followers_count,media_count,media.limit(12){like_count,comments_count}}`;
+    const body = await getJson(`${GRAPH_API}/${this.businessAccountId}?fields=${encodeURIComponent(fields)}&access_token=${this.accessToken}`);
+    const profile = body.business_discovery;
+    if (!profile) {
+      throw new AppError('Account not found on the platform', 404, 'ACCOUNT_NOT_FOUND');
+    }
+
+    const media: any[] = profile.media?.data || [];
+    return {
+      followers: Number(profile.followers_count) || 0,
+      posts: profile.media_count ?? null,
+      engagementRate: engagementFrom(media.map(item => (item.like_count || 0) + (item.comments_count || 0)), Number(profile.followers_count)),
+      likes: media.reduce((sum, item) => sum + (item.like_count || 0), 0)
+    };
+  }
+}
+
+/**
+ * X (Twitter) API v2 with an app bearer token
+ */
+export class TwitterApiAdapter implements SocialMetricsAdapter {
+  platform = 'twitter' as const;
+  name = 'twitter-v2';
+
+  constructor(private bearerToken: string) {}
+
+  async fetchMetrics(account: SocialAccountRef): Promise<PlatformMetrics> {
+    const headers = { Authorization: `Bearer ${this.bearerToken}` };
+    const user = await getJson(
+      `https://api.twitter.com/2/users/by/username/${encodeURIComponent(cleanHandle(account.handle))}?user.fields=public_metrics`,
+      { headers }
+    );
+    if (!user.data) {
+      throw new AppError('Account not found on the platform', 404, 'ACCOUNT_NOT_FOUND');
+    }
+
+    const metrics = user.data.public_metrics || {};
+    const tweets = await getJson(
+      `https://api.twitter.com/2/users/${user.data.id}/tweets?max_results=10&exclude=retweets,replies&tweet.fields=public_metrics`,
+      { headers }
+    );
+    const recent: any[] = tweets.data || [];
+
+    return {
+      followers: Number(metrics.followers_count) || 0,
+      posts: metrics.tweet_count ?? null,
+      engagementRate: engagementFrom(
+        recent.map(tweet => {
+          const counts = tweet.public_metrics || {};
+          return (counts.like_count || 0) + (counts.retweet_count || 0) + (counts.reply_count || 0) + (counts.quote_count || 0);
+        }),
+        Number(metrics.followers_count)
+      ),
+      likes: metrics.like_count ?? null
+    };
+  }
+}
+
+/**
+ * TikTok Research API with client credentials
+ */
+export class TikTokResearchAdapter implements SocialMetricsAdapter {
+  platform = 'tiktok' as const;
+  name = 'tiktok-research';
+
+  private token: { value: string; expiresAt: number } | null = null;
+
+  constructor(private clientKey: string, private clientSecret: string) {}
+
+  async fetchMetrics(account: SocialAccountRef): Promise<PlatformMetrics> {
+    const body = await getJson('https://open.tiktokapis.com/v2/research/user/info/?fields=follower_count,likes_count,video_count', {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${await this.accessToken()}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ username: cleanHandle(account.handle) })
+    });
+    const user = body.data;
+    if (!user) {
+      throw new AppError('Account not found on the platform', 404, 'ACCOUNT_NOT_FOUND');
+    }
+
+    const followers = Number(user.follower_count) || 0;
+    const videos = Number(user.video_count) || 0;
+    return {
+      followers,
+      posts: user.video_count ?? null,
+      // Lifetime likes per video is the closest engagement figure this endpoint offers
+      engagementRate: videos > 0 ? engagementFrom([Number(user.likes_count) / videos], followers) : null,
+      likes: user.likes_count ?? null
+    };
+  }
+
+  private async accessToken(): Promise<string> {
+    if (this.token && this.token.expiresAt > Date.now() + 60_000) {
+      return this.token.value;
+    }
+
+    const body = await getJson('https://open.tiktokapis.com/v2/oauth/token/', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        client_key: this.clientKey,
+        client_secret: this.clientSecret,
+        grant_type: 'client_credentials'
+      }).toString()
+    });
+
+    this.token = { value: body.access_token, expiresAt: Date.now() + Number(body.expires_in || 0) * 1000 };
+    return this.token.value;
+  }
+}
+
+/**
+ * YouTube Data API v3 channel statistics
+ */
+export class YouTubeDataAdapter implements SocialMetricsAdapter {
+  platform = 'youtube' as const;
+  name = 'youtube-data';
+
+  constructor(private apiKey: string) {}
+
+  async fetchMetrics(account: SocialAccountRef): Promise<PlatformMetrics> {
+    const body = await getJson(
+      `https://www.googleapis.com/youtube/v3/channels?part=statistics&forHandle=${encodeURIComponent(`@${cleanHandle(account.handle)}`)}&key=${this.apiKey}`
+    );
+    const statistics = body.items?.[0]?.statistics;
+    if (!statistics) {
+      throw new AppError('Account not found on the platform', 404, 'ACCOUNT_NOT_FOUND');
+    }
+
+    return {
+      followers: Number(statistics.subscriberCount) || 0,
+      posts: statistics.videoCount !== undefined ? Number(statistics.videoCount) : null,
+      engagementRate: null,
+      views: statistics.viewCount !== undefined ? Number(statistics.viewCount) : null
+    };
+  }
+}
+
+/**
+ * Facebook Graph API public page followers
+ */
+export class FacebookPageAdapter implements SocialMetricsAdapter {
+  platform = 'facebook' as const;
+  name = 'facebook-graph';
+
+  constructor(private accessToken: string) {}
+
+  async fetchMetrics(account: SocialAccountRef): Promise<PlatformMetrics> {
+    const body = await getJson(
+      `${GRAPH_API}/${encodeURIComponent(cleanHandle(account.handle))}?fields=followers_count,fan_count&access_token=${this.accessToken}`
+    );
+
+    return {
+      followers: Number(body.followers_count ?? body.fan_count) || 0,
+      posts: null,
+      engagementRate: null
+    };
+  }
+}
+
+/**
+ * Platforms we can't look up; their numbers stay self-reported
+ */
+export class UnsupportedPlatformAdapter implements SocialMetricsAdapter {
+  name = 'unsupported';
+
+  constructor(public platform: SocialPlatform) {}
+
+  async fetchMetrics(): Promise<PlatformMetrics> {
+    throw new AppError(`Metrics can't be fetched for ${this.platform} accounts`, 400, 'UNSUPPORTED_PLATFORM');
+  }
+}
+
+/**
+ * Offline stand-in for local development and tests
+ *
+ * Numbers are derived from the handle and grow slightly each day, so
+ * snapshots taken on different days show growth. setMetrics() pins an
+ * account's numbers, failNext() makes the next lookup throw, and every
+ * lookup is kept in calls for inspection.
+ */
+export class MockSocialMetricsAdapter implements SocialMetricsAdapter {
+  name = 'mock';
+
+  readonly calls: SocialAccountRef[] = [];
+
+  private pinned = new Map<string, PlatformMetrics>();
+  private nextFailure: AppError | null = null;
+
+  constructor(public platform: SocialPlatform, private now: () => Date = () => new Date()) {}
+
+  async fetchMetrics(account: SocialAccountRef): Promise<PlatformMetrics> {
+    this.calls.push(account);
+
+    if (this.nextFailure) {
+      const failure = this.nextFailure;
+      this.nextFailure = null;
+      throw failure;
+    }
+
+    const handle = cleanHandle(account.handle).toLowerCase();
+    const pinned = this.pinned.get(handle);
+    if (pinned) {
+      return { ...pinned };
+    }
+
+    const seed = createHash('sha256').update(`${this.platform}:${handle}`).digest();
+    const base = 500 + seed.readUInt32BE(0) % 50_000;
+    const days = Math.floor((this.now().getTime() - Date.UTC(2026, 0, 1)) / 86_400_000);
+    const dailyGrowth = (seed[4] % 20) / 10_000; // 0 - 0.19% a day
+
+    return {
+      followers: Math.round(base * Math.pow(1 + dailyGrowth, Math.max(days, 0))),
+      posts: 20 + seed[5] * 2,
+      engagementRate: roundRate(1 + (seed[6] % 80) / 10)
+    };
+  }
+
+  setMetrics(handle: string, metrics: PlatformMetrics): void {
+    this.pinned.set(cleanHandle(handle).toLowerCase(), metrics);
+  }
+
+  failNext(error = new AppError('Platform request failed', 502, 'PROVIDER_ERROR')): void {
+    this.nextFailure = error;
+  }
+}
+
+/**
+ * The live adapter for a platform when its credentials are configured
+ */
+function liveAdapter(platform: SocialPlatform): SocialMetricsAdapter | null {
+  switch (platform) {
+    case 'instagram':
+      return config.INSTAGRAM_ACCESS_TOKEN && config.INSTAGRAM_BUSINESS_ACCOUNT_ID
+        ? new InstagramGraphAdapter(config.INSTAGRAM_ACCESS_TOKEN, config.INSTAGRAM_BUSINESS_ACCOUNT_ID)
+        : null;
+    case 'twitter':
+      return config.TWITTER_BEARER_TOKEN ? new TwitterApiAdapter(config.TWITTER_BEARER_TOKEN) : null;
+    case 'tiktok':
+      return config.TIKTOK_CLIENT_KEY && config.TIKTOK_CLIENT_SECRET
+        ? new TikTokResearchAdapter(config.TIKTOK_CLIENT_KEY, config.TIKTOK_CLIENT_SECRET)
+        : null;
+    case 'youtube':
+      return config.YOUTUBE_API_KEY ? new YouTubeDataAdapter(config.YOUTUBE_API_KEY) : null;
+    case 'facebook':
+      return config.FACEBOOK_ACCESS_TOKEN ? new FacebookPageAdapter(config.FACEBOOK_ACCESS_TOKEN) : null;
+    default:
+      return new UnsupportedPlatformAdapter(platform);
+  }
+}
+
+/**
+ * An adapter for every platform: live where configured, otherwise the mock
+ */
+export function createSocialMetricsAdapters(): Record<SocialPlatform, SocialMetricsAdapter> {
+  const useMock = config.SOCIAL_METRICS_PROVIDER === 'mock';
+  const mocked: SocialPlatform[] = [];
+
+  const adapters = Object.fromEntries(SocialPlatform.options.map(platform => {
+    const live = useMock ? null : liveAdapter(platform);
+    if (!live) {
+      mocked.push(platform);
+    }
+    return [platform, live || new MockSocialMetricsAdapter(platform)];
+  })) as Record<SocialPlatform, SocialMetricsAdapter>;
+
+  if (mocked.length > 0) {
+    console.warn(`Social metrics for ${mocked.join(', ')} use the mock adapter.`);
+  }
+
+  return adapters;
+}
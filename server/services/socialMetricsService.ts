@@ -0,0 +1,437 @@
+/**
+ * Social Metrics Service
+ *
+ * Replaces self-reported follower counts with numbers fetched from each
+ * platform. An athlete's social handles become athlete_social_accounts
+ * rows; each lookup updates the account and appends a snapshot to its
+ * history, and the profile's follower_count and average_engagement_rate
+ * are recomputed from the accounts. A scheduler refreshes stale accounts in
+ * the background, and profile pages can ask for a refresh on demand.
+ * Weekly growth is the change against the snapshot from a week earlier, so
+ * it stays empty until that much history exists.
+ */
+
+import { supabase } from '../lib/supabase';
+import { createSocialMetricsAdapters, SocialMetricsAdapter } from './socialMetricsProvider';
+import { ProfileMetrics, SocialMetrics, SocialPlatform } from '../../shared/schema';
+import { isAccountVerified } from '../../shared/socialVerification';
+
+// How old an account's numbers can get before the scheduler refreshes them
+const REFRESH_INTERVAL = 6 * 60 * 60 * 1000; // 6 hours
+// How often the scheduler looks for stale accounts
+const REFRESH_CHECK_INTERVAL = 30 * 60 * 1000; // 30 minutes
+// Most accounts looked up per scheduler run, to stay inside platform rate limits
+const REFRESH_BATCH_SIZE = 100;
+// On-demand refreshes reuse numbers newer than this (the athlete's own, then anyone's)
+const OWNER_REFRESH_MIN_AGE = 60 * 1000;
+const PUBLIC_REFRESH_MIN_AGE = 15 * 60 * 1000;
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Interface for social metrics results
+export interface SocialMetricsResult {
+  success: boolean;
+  metrics?: ProfileMetrics;
+  accounts?: any[];
+  refreshed?: number;
+  error?: string;
+  code?: string;
+}
+
+/**
+ * A handle from a social_handles value, which may be "@name", "name" or a profile URL
+ */
+export function handleFromValue(value: unknown): string | null {
+  if (typeof value !== 'string' || !value.trim()) {
+    return null;
+  }
+
+  const trimmed = value.trim();
+  if (/^https?:\/\//i.test(trimmed)) {
+    try {
+      const segment = new URL(trimmed).pathname.split('/').filter(Boolean).pop();
+      return segment ? segment.replace(/^@/, '') : null;
+    } catch {
+      return null;
+    }
+  }
+
+  return trimmed.replace(/^@/, '');
+}
+
+/**
+ * Percentage change in followers against the newest snapshot at least a week older than the latest
+ */
+export function weeklyGrowth(snapshots: Array<{ followers_count: number; captured_at: string }>): number | null {
+  if (snapshots.length < 2) {
+    return null;
+  }
+
+  const sorted = [...snapshots].sort((a, b) => a.captured_at.localeCompare(b.captured_at));
+  const latest = sorted[sorted.length - 1];
+  const cutoff = new Date(latest.captured_at).getTime() - WEEK_MS;
+  const weekAgo = sorted.filter(snapshot => new Date(snapshot.captured_at).getTime() <= cutoff).pop();
+
+  if (!weekAgo || weekAgo.followers_count <= 0) {
+    return null;
+  }
+
+  return Math.round(((latest.followers_count - weekAgo.followers_count) / weekAgo.followers_count) * 1000) / 10;
+}
+
+// Key on ProfileMetrics for each platform's numbers, and what its post count is called there
+const PLATFORM_FIELDS: Partial<Record<SocialPlatform, { key: keyof ProfileMetrics; posts: 'posts' | 'tweets' | 'videos' }>> = {
+  instagram: { key: 'instagramMetrics', posts: 'posts' },
+  twitter: { key: 'twitterMetrics', posts: 'tweets' },
+  tiktok: { key: 'tiktokMetrics', posts: 'videos' },
+  youtube: { key: 'youtubeMetrics', posts: 'videos' },
+  facebook: { key: 'facebookMetrics', posts: 'posts' }
+};
+
+// Main social metrics service class
+class SocialMetricsService {
+  private adapters: Record<SocialPlatform, SocialMetricsAdapter> = createSocialMetricsAdapters();
+  private refreshTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Replace the adapter for a platform
+   */
+  setAdapter(adapter: SocialMetricsAdapter): void {
+    this.adapters[adapter.platform] = adapter;
+  }
+
+  /**
+   * Create or update an athlete's social accounts from the handles on their profile
+   *
+   * A changed handle keeps the account row but is looked up again on the
+   * next refresh; its earlier history is left out of growth figures and its
+   * ownership has to be verified again.
+   */
+  async syncAccounts(athleteId: string): Promise<SocialMetricsResult> {
+    const [{ data: profile, error: profileError }, { data: existing, error: accountsError }] = await Promise.all([
+      supabase.from('athlete_profiles').select('social_handles').eq('id', athleteId).maybeSingle(),
+      supabase.from('athlete_social_accounts').select('*').eq('athlete_id', athleteId)
+    ]);
+
+    if (profileError || accountsError) {
+      console.error('Error loading social accounts:', profileError || accountsError);
+      return { success: false, error: 'Failed to load social accounts', code: 'DATABASE_ERROR' };
+    }
+
+    if (!profile) {
+      return { success: false, error: 'Athlete profile not found', code: 'NOT_FOUND' };
+    }
+
+    const handles = profile.social_handles || {};
+    const accounts = [...(existing || [])];
+
+    for (const platform of SocialPlatform.options) {
+      const handle = handleFromValue(handles[platform]);
+      if (!handle) {
+        continue;
+      }
+
+      const account = accounts.find(candidate => candidate.platform === platform);
+      if (account && account.handle.toLowerCase() === handle.toLowerCase()) {
+        continue;
+      }
+
+      const { data: saved, error } = await supabase
+        .from('athlete_social_accounts')
+        .upsert({
+          ...(account ? { id: account.id } : {}),
+          athlete_id: athleteId,
+          platform,
+          handle,
+          url: typeof handles[platform] === 'string' && /^https?:\/\//i.test(handles[platform]) ? handles[platform] : null,
+          last_synced_at: null,
+          last_attempted_at: null,
+          sync_error: null,
+          verification_code: null,
+          verification_code_expires_at: null,
+          verified_at: null,
+          verified_handle: null,
+          verification_method: null,
+          verification_expires_at: null
+        }, { onConflict: 'athlete_id,platform' })
+        .select()
+        .single();
+
+      if (error) {
+        console.error(`Error saving ${platform} account:`, error);
+        continue;
+      }
+
+      const index = accounts.findIndex(candidate => candidate.platform === platform);
+      if (index >= 0) {
+        accounts[index] = saved;
+      } else {
+        accounts.push(saved);
+      }
+    }
+
+    return { success: true, accounts };
+  }
+
+  /**
+   * Look up an athlete's accounts whose numbers are older than maxAge, then rebuild their metrics
+   */
+  async refreshAthlete(athleteId: string, maxAge = 0, now = new Date()): Promise<SocialMetricsResult> {
+    try {
+      const synced = await this.syncAccounts(athleteId);
+      if (!synced.success) {
+        return synced;
+      }
+
+      const stale = synced.accounts!.filter(account =>
+        !account.last_attempted_at || now.getTime() - new Date(account.last_attempted_at).getTime() >= maxAge
+      );
+
+      for (const account of stale) {
+        await this.refreshAccount(account, now);
+      }
+
+      if (stale.length > 0) {
+        await this.updateProfileTotals(athleteId);
+      }
+
+      const result = await this.getProfileMetrics(athleteId, now);
+      return { ...result, refreshed: stale.length };
+    } catch (error: any) {
+      console.error('Refresh social metrics exception:', error);
+      return { success: false, error: error.message || 'Failed to refresh metrics', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * On-demand refresh from a profile page; the athlete's own requests bypass most of the throttle
+   */
+  async refreshForProfile(id: string, requesterId?: string | null): Promise<SocialMetricsResult> {
+    const athleteId = await this.resolveAthleteId(id, requesterId);
+    if (!athleteId) {
+      return { success: false, error: 'Profile not found', code: 'NOT_FOUND' };
+    }
+
+    return this.refreshAthlete(athleteId, requesterId === athleteId ? OWNER_REFRESH_MIN_AGE : PUBLIC_REFRESH_MIN_AGE);
+  }
+
+  /**
+   * Current metrics for an athlete's profile page, with weekly growth from the history
+   */
+  async getProfileMetrics(athleteId: string, now = new Date()): Promise<SocialMetricsResult> {
+    const [{ data: accounts, error }, { data: snapshots }] = await Promise.all([
+      supabase.from('athlete_social_accounts').select('*').eq('athlete_id', athleteId),
+      supabase
+        .from('athlete_social_account_history')
+        .select('social_account_id, handle, followers_count, captured_at')
+        .eq('athlete_id', athleteId)
+        .gte('captured_at', new Date(now.getTime() - 2 * WEEK_MS).toISOString())
+    ]);
+
+    if (error) {
+      console.error('Error loading social accounts:', error);
+      return { success: false, error: 'Failed to load metrics', code: 'DATABASE_ERROR' };
+    }
+
+    const synced = (accounts || []).filter(account => account.last_synced_at);
+    const followerCount = synced.reduce((sum, account) => sum + (account.followers_count || 0), 0);
+
+    const metrics: ProfileMetrics = {
+      followerCount,
+      engagement: this.weightedEngagement(synced),
+      contentQuality: null,
+      updatedAt: synced.map(account => account.last_synced_at).sort().pop() || null
+    };
+
+    for (const account of synced) {
+      const fields = PLATFORM_FIELDS[account.platform as SocialPlatform];
+      if (!fields) {
+        continue;
+      }
+
+      const history = (snapshots || []).filter(snapshot =>
+        snapshot.social_account_id === account.id && snapshot.handle === account.handle
+      );
+      const platformMetrics: SocialMetrics = {
+        followers: account.followers_count || 0,
+        engagement: account.engagement_rate ?? null,
+        [fields.posts]: account.posts_count ?? null,
+        weeklyGrowth: weeklyGrowth(history),
+        lastSyncedAt: account.last_synced_at,
+        verified: isAccountVerified(account, now),
+        verifiedAt: isAccountVerified(account, now) ? account.verified_at : null
+      };
+      (metrics as any)[fields.key] = platformMetrics;
+    }
+
+    return { success: true, metrics };
+  }
+
+  /**
+   * Refresh accounts whose numbers are older than the refresh interval
+   */
+  async runScheduledRefresh(now = new Date()): Promise<{ refreshed: number; failed: number }> {
+    const { data: accounts, error } = await supabase
+      .from('athlete_social_accounts')
+      .select('*')
+      .or(`last_attempted_at.is.null,last_attempted_at.lt.${new Date(now.getTime() - REFRESH_INTERVAL).toISOString()}`)
+      .order('last_attempted_at', { ascending: true, nullsFirst: true })
+      .limit(REFRESH_BATCH_SIZE);
+
+    if (error) {
+      console.error('Error loading social accounts to refresh:', error);
+      return { refreshed: 0, failed: 0 };
+    }
+
+    let refreshed = 0;
+    let failed = 0;
+    const athleteIds = new Set<string>();
+
+    for (const account of accounts || []) {
+      if (this.adapters[account.platform as SocialPlatform]?.name === 'unsupported') {
+        continue;
+      }
+
+      if (await this.refreshAccount(account, now)) {
+        refreshed++;
+        athleteIds.add(account.athlete_id);
+      } else {
+        failed++;
+      }
+    }
+
+    for (const athleteId of Array.from(athleteIds)) {
+      await this.updateProfileTotals(athleteId);
+    }
+
+    return { refreshed, failed };
+  }
+
+  /**
+   * Run the refresh job on an interval
+   */
+  startRefreshScheduler(): void {
+    if (this.refreshTimer) {
+      return;
+    }
+
+    const run = () => {
+      this.runScheduledRefresh().catch(error => console.error('Social metrics refresh job error:', error));
+    };
+
+    run();
+    this.refreshTimer = setInterval(run, REFRESH_CHECK_INTERVAL);
+
+    // Don't keep the process alive just for the refresh job
+    this.refreshTimer.unref();
+  }
+
+  /**
+   * Athlete ID for a profile page identifier: an athlete ID or a page's slug,
+   * which has to be published unless it's the requester's own
+   */
+  private async resolveAthleteId(id: string, requesterId?: string | null): Promise<string | null> {
+    if (!UUID_PATTERN.test(id)) {
+      const { data: link } = await supabase
+        .from('athlete_profile_links')
+        .select('athlete_id, enabled')
+        .eq('slug', id.toLowerCase())
+        .maybeSingle();
+      return link && (link.enabled || link.athlete_id === requesterId) ? link.athlete_id : null;
+    }
+
+    const { data } = await supabase.from('athlete_profiles').select('id').eq('id', id).maybeSingle();
+    return data?.id || null;
+  }
+
+  /**
+   * Look up one account and record the result; returns whether the lookup succeeded
+   */
+  private async refreshAccount(account: any, now: Date): Promise<boolean> {
+    const adapter = this.adapters[account.platform as SocialPlatform];
+    const attemptedAt = now.toISOString();
+
+    try {
+      const fetched = await adapter.fetchMetrics({ handle: account.handle, url: account.url });
+
+      const { error } = await supabase
+        .from('athlete_social_accounts')
+        .update({
+          followers_count: Math.round(fetched.followers),
+          engagement_rate: fetched.engagementRate,
+          posts_count: fetched.posts,
+          last_synced_at: attemptedAt,
+          last_attempted_at: attemptedAt,
+          sync_error: null
+        })
+        .eq('id', account.id);
+
+      if (error) {
+        console.error('Error saving social metrics:', error);
+        return false;
+      }
+
+      await supabase.from('athlete_social_account_history').insert({
+        social_account_id: account.id,
+        athlete_id: account.athlete_id,
+        platform: account.platform,
+        handle: account.handle,
+        followers_count: Math.round(fetched.followers),
+        engagement_rate: fetched.engagementRate,
+        posts_count: fetched.posts,
+        source: adapter.name,
+        captured_at: attemptedAt
+      });
+
+      return true;
+    } catch (error: any) {
+      await supabase
+        .from('athlete_social_accounts')
+        .update({ last_attempted_at: attemptedAt, sync_error: error.message || 'Lookup failed' })
+        .eq('id', account.id);
+      return false;
+    }
+  }
+
+  /**
+   * Replace the profile's self-reported totals with the fetched ones
+   */
+  private async updateProfileTotals(athleteId: string): Promise<void> {
+    const { data: accounts } = await supabase
+      .from('athlete_social_accounts')
+      .select('followers_count, engagement_rate, last_synced_at')
+      .eq('athlete_id', athleteId)
+      .not('last_synced_at', 'is', null);
+
+    if (!accounts || accounts.length === 0) {
+      return;
+    }
+
+    const engagement = this.weightedEngagement(accounts);
+    await supabase
+      .from('athlete_profiles')
+      .update({
+        follower_count: accounts.reduce((sum, account) => sum + (account.followers_count || 0), 0),
+        ...(engagement !== null ? { average_engagement_rate: engagement } : {}),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', athleteId);
+  }
+
+  // Engagement rate across accounts, weighted by followers
+  private weightedEngagement(accounts: Array<{ followers_count?: number | null; engagement_rate?: number | null }>): number | null {
+    const rated = accounts.filter(account => account.engagement_rate !== null && account.engagement_rate !== undefined);
+    const followers = rated.reduce((sum, account) => sum + (account.followers_count || 0), 0);
+    if (rated.length === 0 || followers <= 0) {
+      return null;
+    }
+
+    const weighted = rated.reduce((sum, account) => sum + Number(account.engagement_rate) * (account.followers_count || 0), 0);
+    return Math.round((weighted / followers) * 100) / 100;
+  }
+}
+
+// Create and export singleton instance
+export const socialMetricsService = new SocialMetricsService();
+export default socialMetricsService;
@@ -0,0 +1,239 @@
+/**
+ * Social Verification Provider
+ *
+ * Verifiers look for a one-time code in an account's public bio or recent
+ * posts, one per SocialPlatform behind a common interface. Live verifiers
+ * use the same platform credentials as the metrics adapters;
+ * MockSocialVerifier stands in when those aren't configured (or with
+ * SOCIAL_METRICS_PROVIDER=mock) and accepts every code outside production
+ * so the flow can be tried locally.
+ */
+
+import config from '../config/environment';
+import { AppError } from '../lib/error';
+import { cleanHandle, getJson, GRAPH_API, SocialAccountRef } from './socialMetricsProvider';
+import { SocialPlatform, SocialVerificationMethod } from '../../shared/schema';
+
+// Where the code turned up, if anywhere
+export interface VerificationCheck {
+  found: boolean;
+  method?: SocialVerificationMethod;
+}
+
+export interface SocialVerifier {
+  platform: SocialPlatform;
+  name: string;
+  findCode(account: SocialAccountRef, code: string): Promise<VerificationCheck>;
+}
+
+function contains(text: string | null | undefined, code: string): boolean {
+  return !!text && text.toUpperCase().includes(code.toUpperCase());
+}
+
+function check(code: string, bio: string | null | undefined, posts: Array<string | null | undefined> = []): VerificationCheck {
+  if (contains(bio, code)) {
+    return { found: true, method: 'bio' };
+  }
+  if (posts.some(post => contains(post, code))) {
+    return { found: true, method: 'post' };
+  }
+  return { found: false };
+}
+
+/**
+ * Instagram biography and recent captions via business discovery
+ */
+export class InstagramVerifier implements SocialVerifier {
+  platform = 'instagram' as const;
+  name = 'instagram-graph';
+
+  constructor(private accessToken: string, private businessAccountId: string) {}
+
+  async findCode(account: SocialAccountRef, code: string): Promise<VerificationCheck> {
+    const fields = `business_discovery.username(${cleanHandle(account.handle)}){biography,media.limit(10){caption}}`;
+    const body = await getJson(`${GRAPH_API}/${this.businessAccountId}?fields=${encodeURIComponent(fields)}&access_token=${this.accessToken}`);
+    const profile = body.business_discovery || {};
+    return check(code, profile.biography, (profile.media?.data || []).map((item: any) => item.caption));
+  }
+}
+
+/**
+ * X (Twitter) profile description and recent tweets
+ */
+export class TwitterVerifier implements SocialVerifier {
+  platform = 'twitter' as const;
+  name = 'twitter-v2';
+
+  constructor(private bearerToken: string) {}
+
+  async findCode(account: SocialAccountRef, code: string): Promise<VerificationCheck> {
+    const headers = { Authorization: `Bearer ${this.bearerToken}` };
+    const user = await getJson(
+      `https://api.twitter.com/2/users/by/username/${encodeURIComponent(cleanHandle(account.handle))}?user.fields=description`,
+      { headers }
+    );
+    if (!user.data) {
+      throw new AppError('Account not found on the platform', 404, 'ACCOUNT_NOT_FOUND');
+    }
+
+    if (contains(user.data.description, code)) {
+      return { found: true, method: 'bio' };
+    }
+
+    const tweets = await getJson(`https://api.twitter.com/2/users/${user.data.id}/tweets?max_results=10`, { headers });
+    return check(code, null, (tweets.data || []).map((tweet: any) => tweet.text));
+  }
+}
+
+/**
+ * TikTok bio via the Research API
+ */
+export class TikTokVerifier implements SocialVerifier {
+  platform = 'tiktok' as const;
+  name = 'tiktok-research';
+
+  private token: { value: string; expiresAt: number } | null = null;
+
+  constructor(private clientKey: string, private clientSecret: string) {}
+
+  async findCode(account: SocialAccountRef, code: string): Promise<VerificationCheck> {
+    if (!this.token || this.token.expiresAt <= Date.now() + 60_000) {
+      const auth = await getJson('https://open.tiktokapis.com/v2/oauth/token/', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({
+          client_key: this.clientKey,
+          client_secret: this.clientSecret,
+          grant_type: 'client_credentials'
+        }).toString()
+      });
+      this.token = { value: auth.access_token, expiresAt: Date.now() + Number(auth.expires_in || 0) * 1000 };
+    }
+
+    const body = await getJson('https://open.tiktokapis.com/v2/research/user/info/?fields=bio_description', {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${this.token.value}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ username: cleanHandle(account.handle) })
+    });
+    return check(code, body.data?.bio_description);
+  }
+}
+
+/**
+ * YouTube channel description
+ */
+export class YouTubeVerifier implements SocialVerifier {
+  platform = 'youtube' as const;
+  name = 'youtube-data';
+
+  constructor(private apiKey: string) {}
+
+  async findCode(account: SocialAccountRef, code: string): Promise<VerificationCheck> {
+    const body = await getJson(
+      `https://www.googleapis.com/youtube/v3/channels?part=snippet&forHandle=${encodeURIComponent(`@${cleanHandle(account.handle)}`)}&key=${this.apiKey}`
+    );
+    return check(code, body.items?.[0]?.snippet?.description);
+  }
+}
+
+/**
+ * Facebook page about text
+ */
+export class FacebookVerifier implements SocialVerifier {
+  platform = 'facebook' as const;
+  name = 'facebook-graph';
+
+  constructor(private accessToken: string) {}
+
+  async findCode(account: SocialAccountRef, code: string): Promise<VerificationCheck> {
+    const body = await getJson(
+      `${GRAPH_API}/${encodeURIComponent(cleanHandle(account.handle))}?fields=about,description&access_token=${this.accessToken}`
+    );
+    return check(code, [body.about, body.description].filter(Boolean).join('\n'));
+  }
+}
+
+/**
+ * Platforms that can't be checked automatically
+ */
+export class UnsupportedVerifier implements SocialVerifier {
+  name = 'unsupported';
+
+  constructor(public platform: SocialPlatform) {}
+
+  async findCode(): Promise<VerificationCheck> {
+    throw new AppError(`${this.platform} accounts can't be verified automatically`, 400, 'UNSUPPORTED_PLATFORM');
+  }
+}
+
+/**
+ * Offline stand-in for local development and tests
+ *
+ * publish() sets the public text of an account (bio or a post); with
+ * acceptAll every code is found in the bio.
+ */
+export class MockSocialVerifier implements SocialVerifier {
+  name = 'mock';
+
+  readonly calls: Array<{ account: SocialAccountRef; code: string }> = [];
+
+  private published = new Map<string, { bio: string; posts: string[] }>();
+
+  constructor(public platform: SocialPlatform, private options: { acceptAll?: boolean } = {}) {}
+
+  async findCode(account: SocialAccountRef, code: string): Promise<VerificationCheck> {
+    this.calls.push({ account, code });
+
+    if (this.options.acceptAll) {
+      return { found: true, method: 'bio' };
+    }
+
+    const text = this.published.get(cleanHandle(account.handle).toLowerCase());
+    return check(code, text?.bio, text?.posts);
+  }
+
+  publish(handle: string, text: { bio?: string; post?: string }): void {
+    const key = cleanHandle(handle).toLowerCase();
+    const current = this.published.get(key) || { bio: '', posts: [] };
+    this.published.set(key, {
+      bio: text.bio ?? current.bio,
+      posts: text.post ? [text.post, ...current.posts] : current.posts
+    });
+  }
+}
+
+/**
+ * The live verifier for a platform when its credentials are configured
+ */
+function liveVerifier(platform: SocialPlatform): SocialVerifier | null {
+  switch (platform) {
+    case 'instagram':
+      return config.INSTAGRAM_ACCESS_TOKEN && config.INSTAGRAM_BUSINESS_ACCOUNT_ID
+        ? new InstagramVerifier(config.INSTAGRAM_ACCESS_TOKEN, config.INSTAGRAM_BUSINESS_ACCOUNT_ID)
+        : null;
+    case 'twitter':
+      return config.TWITTER_BEARER_TOKEN ? new TwitterVerifier(config.TWITTER_BEARER_TOKEN) : null;
+    case 'tiktok':
+      return config.TIKTOK_CLIENT_KEY && config.TIKTOK_CLIENT_SECRET
+        ? new TikTokVerifier(config.TIKTOK_CLIENT_KEY, config.TIKTOK_CLIENT_SECRET)
+        : null;
+    case 'youtube':
+      return config.YOUTUBE_API_KEY ? new YouTubeVerifier(config.YOUTUBE_API_KEY) : null;
+    case 'facebook':
+      return config.FACEBOOK_ACCESS_TOKEN ? new FacebookVerifier(config.FACEBOOK_ACCESS_TOKEN) : null;
+    default:
+      return new UnsupportedVerifier(platform);
+  }
+}
+
+/**
+ * A verifier for every platform: live where configured, otherwise the mock
+ */
+export function createSocialVerifiers(): Record<SocialPlatform, SocialVerifier> {
+  const useMock = config.SOCIAL_METRICS_PROVIDER === 'mock';
+
+  return Object.fromEntries(SocialPlatform.options.map(platform => {
+    const live = useMock ? null : liveVerifier(platform);
+    return [platform, live || new MockSocialVerifier(platform, { acceptAll: !config.isProduction })];
+  })) as Record<SocialPlatform, SocialVerifier>;
+}
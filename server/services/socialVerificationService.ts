@@ -0,0 +1,309 @@
+/**
+ * Social Verification Service
+ *
+ * Lets athletes prove they own the social accounts on their profile. The
+ * server issues a one-time code, the athlete puts it in their bio or a post,
+ * and the platform's verifier looks for it. A verification holds for the
+ * handle it was made on and lapses after VERIFICATION_TTL_MS, so accounts
+ * are re-checked periodically; matching counts unverified followers for
+ * less (see shared/socialVerification.ts).
+ */
+
+import { randomBytes } from 'crypto';
+import { supabase } from '../lib/supabase';
+import { AppError } from '../lib/error';
+import { notificationService } from './notificationService';
+import { socialMetricsService } from './socialMetricsService';
+import { createSocialVerifiers, SocialVerifier } from './socialVerificationProvider';
+import { SocialAccountVerification, SocialPlatform } from '../../shared/schema';
+import { isAccountVerified } from '../../shared/socialVerification';
+
+// How long an issued code can be checked
+const CODE_TTL_MS = 48 * 60 * 60 * 1000;
+// How long a verification holds before the account has to be verified again
+const VERIFICATION_TTL_MS = 90 * 24 * 60 * 60 * 1000;
+// How often the expiry job runs
+const EXPIRY_CHECK_INTERVAL = 6 * 60 * 60 * 1000; // 6 hours
+
+// Unambiguous characters for codes people type into a bio
+const CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 6;
+const CODE_PREFIX = 'CONTESTED-';
+
+// Interface for social verification results
+export interface SocialVerificationResult {
+  success: boolean;
+  accounts?: SocialAccountVerification[];
+  account?: SocialAccountVerification;
+  error?: string;
+  code?: string;
+  message?: string;
+}
+
+function generateCode(): string {
+  const bytes = randomBytes(CODE_LENGTH);
+  let code = '';
+  for (const byte of Array.from(bytes)) {
+    code += CODE_ALPHABET[byte % CODE_ALPHABET.length];
+  }
+  return `${CODE_PREFIX}${code}`;
+}
+
+// Main social verification service class
+class SocialVerificationService {
+  private verifiers: Record<SocialPlatform, SocialVerifier> = createSocialVerifiers();
+  private expiryTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Replace the verifier for a platform
+   */
+  setVerifier(verifier: SocialVerifier): void {
+    this.verifiers[verifier.platform] = verifier;
+  }
+
+  /**
+   * The athlete's social accounts with their verification state
+   */
+  async getAccounts(athleteId: string, now = new Date()): Promise<SocialVerificationResult> {
+    try {
+      const synced = await socialMetricsService.syncAccounts(athleteId);
+      if (!synced.success) {
+        return { success: false, error: synced.error, code: synced.code };
+      }
+
+      return { success: true, accounts: synced.accounts!.map(account => this.toVerification(account, now)) };
+    } catch (error: any) {
+      console.error('Get social verification exception:', error);
+      return { success: false, error: error.message || 'Failed to load social accounts', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Issue a new one-time code for an account, replacing any outstanding one
+   */
+  async startVerification(athleteId: string, accountId: string, now = new Date()): Promise<SocialVerificationResult> {
+    try {
+      const account = await this.getOwnAccount(athleteId, accountId);
+      if (!account.success) {
+        return account;
+      }
+
+      const platform = account.raw.platform as SocialPlatform;
+      if (this.verifiers[platform]?.name === 'unsupported') {
+        return { success: false, error: `${platform} accounts can't be verified automatically`, code: 'UNSUPPORTED_PLATFORM' };
+      }
+
+      const { data: updated, error } = await supabase
+        .from('athlete_social_accounts')
+        .update({
+          verification_code: generateCode(),
+          verification_code_expires_at: new Date(now.getTime() + CODE_TTL_MS).toISOString()
+        })
+        .eq('id', accountId)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error issuing verification code:', error);
+        return { success: false, error: 'Failed to start verification', code: 'DATABASE_ERROR' };
+      }
+
+      return {
+        success: true,
+        account: this.toVerification(updated, now),
+        message: 'Add the code to your bio or a public post, then check verification'
+      };
+    } catch (error: any) {
+      console.error('Start social verification exception:', error);
+      return { success: false, error: error.message || 'Failed to start verification', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Look for the outstanding code on the platform and verify the account if it's there
+   */
+  async checkVerification(athleteId: string, accountId: string, now = new Date()): Promise<SocialVerificationResult> {
+    try {
+      const owned = await this.getOwnAccount(athleteId, accountId);
+      if (!owned.success) {
+        return owned;
+      }
+
+      const account = owned.raw;
+      if (!account.verification_code || !account.verification_code_expires_at) {
+        return { success: false, error: 'Start verification to get a code first', code: 'INVALID_OPERATION' };
+      }
+      if (new Date(account.verification_code_expires_at) <= now) {
+        return { success: false, error: 'This code has expired. Start verification again for a new one.', code: 'CODE_EXPIRED' };
+      }
+
+      const verifier = this.verifiers[account.platform as SocialPlatform];
+      let check;
+      try {
+        check = await verifier.findCode({ handle: account.handle, url: account.url }, account.verification_code);
+      } catch (error: any) {
+        if (error instanceof AppError) {
+          return { success: false, error: error.message, code: error.code };
+        }
+        throw error;
+      }
+
+      if (!check.found) {
+        return {
+          success: false,
+          error: `We couldn't find ${account.verification_code} on @${account.handle}. Make sure the bio or post is public and try again.`,
+          code: 'CODE_NOT_FOUND'
+        };
+      }
+
+      const { data: updated, error } = await supabase
+        .from('athlete_social_accounts')
+        .update({
+          verified_at: now.toISOString(),
+          verified_handle: account.handle,
+          verification_method: check.method || 'bio',
+          verification_expires_at: new Date(now.getTime() + VERIFICATION_TTL_MS).toISOString(),
+          verification_code: null,
+          verification_code_expires_at: null
+        })
+        .eq('id', accountId)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error saving social verification:', error);
+        return { success: false, error: 'Failed to save verification', code: 'DATABASE_ERROR' };
+      }
+
+      await notificationService.notify(athleteId, {
+        type: 'SOCIAL_ACCOUNT_VERIFIED',
+        title: 'Account Verified',
+        content: `Your ${account.platform} account @${account.handle} is verified. You can remove the code now.`,
+        referenceType: 'SOCIAL_ACCOUNT',
+        referenceId: account.id,
+        data: { accountId: account.id, platform: account.platform }
+      });
+
+      return { success: true, account: this.toVerification(updated, now), message: 'Account verified' };
+    } catch (error: any) {
+      console.error('Check social verification exception:', error);
+      return { success: false, error: error.message || 'Failed to check verification', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Clear verifications that have lapsed and tell their athletes
+   */
+  async runExpiryCheck(now = new Date()): Promise<{ expired: number }> {
+    const { data: accounts, error } = await supabase
+      .from('athlete_social_accounts')
+      .select('id, athlete_id, platform, handle')
+      .not('verified_at', 'is', null)
+      .lte('verification_expires_at', now.toISOString());
+
+    if (error) {
+      console.error('Error loading expired social verifications:', error);
+      return { expired: 0 };
+    }
+
+    let expired = 0;
+
+    for (const account of accounts || []) {
+      const { error: updateError } = await supabase
+        .from('athlete_social_accounts')
+        .update({
+          verified_at: null,
+          verified_handle: null,
+          verification_method: null,
+          verification_expires_at: null
+        })
+        .eq('id', account.id);
+
+      if (updateError) {
+        console.error('Error expiring social verification:', updateError);
+        continue;
+      }
+
+      expired++;
+      await notificationService.notify(account.athlete_id, {
+        type: 'SOCIAL_VERIFICATION_EXPIRED',
+        title: 'Verify Your Account Again',
+        content: `The verification on your ${account.platform} account @${account.handle} has expired. Verify it again to keep your badge.`,
+        referenceType: 'SOCIAL_ACCOUNT',
+        referenceId: account.id,
+        data: { accountId: account.id, platform: account.platform }
+      });
+    }
+
+    return { expired };
+  }
+
+  /**
+   * Run the expiry job on an interval
+   */
+  startExpiryScheduler(): void {
+    if (this.expiryTimer) {
+      return;
+    }
+
+    const run = () => {
+      this.runExpiryCheck().catch(error => console.error('Social verification expiry job error:', error));
+    };
+
+    run();
+    this.expiryTimer = setInterval(run, EXPIRY_CHECK_INTERVAL);
+
+    // Don't keep the process alive just for the expiry job
+    this.expiryTimer.unref();
+  }
+
+  /**
+   * Load an account, checking it belongs to the athlete
+   */
+  private async getOwnAccount(athleteId: string, accountId: string): Promise<
+    { success: true; raw: any } | { success: false; error: string; code: string }
+  > {
+    const { data: account, error } = await supabase
+      .from('athlete_social_accounts')
+      .select('*')
+      .eq('id', accountId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading social account:', error);
+      return { success: false, error: 'Failed to load social account', code: 'DATABASE_ERROR' };
+    }
+
+    if (!account || account.athlete_id !== athleteId) {
+      return { success: false, error: 'Social account not found', code: 'NOT_FOUND' };
+    }
+
+    return { success: true, raw: account };
+  }
+
+  // Client view of an account's verification; codes are shown only while they can still be checked
+  private toVerification(account: any, now: Date): SocialAccountVerification {
+    const verified = isAccountVerified(account, now);
+    const codeActive = !!account.verification_code
+      && !!account.verification_code_expires_at
+      && new Date(account.verification_code_expires_at) > now;
+
+    return {
+      id: account.id,
+      platform: account.platform,
+      handle: account.handle,
+      followers_count: account.followers_count ?? null,
+      verified,
+      verified_at: verified ? account.verified_at : null,
+      verification_method: verified ? account.verification_method : null,
+      verification_expires_at: verified ? account.verification_expires_at : null,
+      pending_code: codeActive ? account.verification_code : null,
+      code_expires_at: codeActive ? account.verification_code_expires_at : null,
+      supported: this.verifiers[account.platform as SocialPlatform]?.name !== 'unsupported'
+    };
+  }
+}
+
+// Create and export singleton instance
+export const socialVerificationService = new SocialVerificationService();
+export default socialVerificationService;
@@ -0,0 +1,370 @@
+/**
+ * Tax Service
+ *
+ * Collects athletes' W-9 forms and reports what the platform paid them.
+ * The taxpayer identification number is encrypted before it's stored and
+ * only ever leaves the service masked. Yearly earnings are summed from paid
+ * payouts by the date they were paid, and athletes at or over the 1099-NEC
+ * reporting threshold are listed for admins as a CSV export, with a
+ * recipient copy PDF per athlete.
+ */
+
+import { supabase } from '../lib/supabase';
+import { renderPdf, PdfBlock } from '../lib/pdf';
+import { decryptField, encryptField } from '../utils/encryption';
+import config from '../config/environment';
+import { Tax1099Row, TaxForm, TaxYearEarnings, W9Input } from '../../shared/schema';
+
+// Columns never sent to clients
+const PRIVATE_FORM_FIELDS = ['tin_encrypted', 'ip_address', 'user_agent', 'form_type'] as const;
+
+// Where a W-9 was certified from
+export interface TaxRequestContext {
+  ip?: string | null;
+  userAgent?: string | null;
+}
+
+// Interface for tax service results
+export interface TaxResult {
+  success: boolean;
+  form?: TaxForm | null;
+  earnings?: TaxYearEarnings[];
+  rows?: Tax1099Row[];
+  csv?: string;
+  file?: Buffer;
+  fileName?: string;
+  error?: string;
+  code?: string;
+  message?: string;
+}
+
+/**
+ * 1099-NEC reporting threshold for a tax year; payments made from 2026 on
+ * are reported at $2,000 instead of $600
+ */
+export function reportingThreshold(year: number): number {
+  return year >= 2026 ? 2000 : 600;
+}
+
+function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function formatMoney(amount: number): string {
+  return `$${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function maskTin(tinType: string, tin: string): string {
+  const last4 = tin.replace(/\D/g, '').slice(-4);
+  return tinType === 'ein' ? `**-***${last4}` : `***-**-${last4}`;
+}
+
+function publicForm(form: any): TaxForm {
+  let tinMasked = '***-**-****';
+  try {
+    tinMasked = maskTin(form.tin_type, decryptField(form.tin_encrypted));
+  } catch (error) {
+    console.error('Failed to decrypt TIN for tax form', form.id, error);
+  }
+
+  const copy = { ...form, tin_masked: tinMasked };
+  PRIVATE_FORM_FIELDS.forEach(field => delete copy[field]);
+  return copy;
+}
+
+function csvValue(value: unknown): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Main tax service class
+class TaxService {
+  /**
+   * The athlete's current W-9, with the TIN masked
+   */
+  async getW9(athleteId: string): Promise<TaxResult> {
+    const { data: form, error } = await supabase
+      .from('tax_forms')
+      .select('*')
+      .eq('athlete_id', athleteId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading W-9:', error);
+      return { success: false, error: 'Failed to load tax form', code: 'DATABASE_ERROR' };
+    }
+
+    return { success: true, form: form ? publicForm(form) : null };
+  }
+
+  /**
+   * Submit or replace the athlete's W-9
+   */
+  async submitW9(athleteId: string, input: W9Input, context: TaxRequestContext): Promise<TaxResult> {
+    try {
+      const now = new Date().toISOString();
+      const { data: form, error } = await supabase
+        .from('tax_forms')
+        .upsert({
+          athlete_id: athleteId,
+          form_type: 'W-9',
+          legal_name: input.legal_name,
+          business_name: input.business_name || null,
+          tax_classification: input.tax_classification,
+          tin_type: input.tin_type,
+          tin_encrypted: encryptField(input.tin.replace(/\D/g, '')),
+          address_line1: input.address_line1,
+          address_line2: input.address_line2 || null,
+          city: input.city,
+          state: input.state,
+          zip: input.zip,
+          signature_name: input.signature_name,
+          certified_at: now,
+          ip_address: context.ip || null,
+          user_agent: context.userAgent || null,
+          updated_at: now
+        }, { onConflict: 'athlete_id' })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error saving W-9:', error);
+        return { success: false, error: 'Failed to save tax form', code: 'DATABASE_ERROR' };
+      }
+
+      return { success: true, form: publicForm(form), message: 'W-9 saved' };
+    } catch (error: any) {
+      console.error('Submit W-9 exception:', error);
+      return { success: false, error: error.message || 'Failed to save tax form', code: 'SERVER_ERROR' };
+    }
+  }
+
+  /**
+   * Paid earnings per calendar year for an athlete, newest first
+   */
+  async getYearlyEarnings(athleteId: string): Promise<TaxResult> {
+    const { data: payouts, error } = await supabase
+      .from('payouts')
+      .select('amount, currency, paid_at')
+      .eq('athlete_id', athleteId)
+      .eq('status', 'paid')
+      .not('paid_at', 'is', null);
+
+    if (error) {
+      console.error('Error loading payouts for tax years:', error);
+      return { success: false, error: 'Failed to load earnings', code: 'DATABASE_ERROR' };
+    }
+
+    const years = new Map<number, { total: number; payouts: number; currency: string }>();
+    for (const payout of payouts || []) {
+      const year = new Date(payout.paid_at).getUTCFullYear();
+      const entry = years.get(year) || { total: 0, payouts: 0, currency: payout.currency || 'USD' };
+      entry.total += Number(payout.amount);
+      entry.payouts += 1;
+      years.set(year, entry);
+    }
+
+    const earnings = Array.from(years.entries())
+      .sort(([a], [b]) => b - a)
+      .map(([year, entry]) => {
+        const total = roundMoney(entry.total);
+        return {
+          year,
+          total,
+          payouts: entry.payouts,
+          currency: entry.currency,
+          threshold: reportingThreshold(year),
+          reportable: total >= reportingThreshold(year)
+        };
+      });
+
+    return { success: true, earnings };
+  }
+
+  /**
+   * Athletes paid at or over the reporting threshold in a year (admin)
+   */
+  async get1099Rows(year: number): Promise<TaxResult> {
+    const { data: payouts, error } = await supabase
+      .from('payouts')
+      .select('athlete_id, amount')
+      .eq('status', 'paid')
+      .gte('paid_at', new Date(Date.UTC(year, 0, 1)).toISOString())
+      .lt('paid_at', new Date(Date.UTC(year + 1, 0, 1)).toISOString());
+
+    if (error) {
+      console.error('Error loading payouts for 1099 report:', error);
+      return { success: false, error: 'Failed to load payouts', code: 'DATABASE_ERROR' };
+    }
+
+    const totals = new Map<string, number>();
+    for (const payout of payouts || []) {
+      totals.set(payout.athlete_id, (totals.get(payout.athlete_id) || 0) + Number(payout.amount));
+    }
+
+    const threshold = reportingThreshold(year);
+    const athleteIds = Array.from(totals.entries())
+      .filter(([, total]) => roundMoney(total) >= threshold)
+      .map(([athleteId]) => athleteId);
+
+    if (athleteIds.length === 0) {
+      return { success: true, rows: [] };
+    }
+
+    const [{ data: profiles }, { data: forms }] = await Promise.all([
+      supabase.from('athlete_profiles').select('id, name, full_name, email').in('id', athleteIds),
+      supabase.from('tax_forms').select('*').in('athlete_id', athleteIds)
+    ]);
+
+    const rows: Tax1099Row[] = athleteIds.map(athleteId => {
+      const profile = profiles?.find(candidate => candidate.id === athleteId);
+      const form = forms?.find(candidate => candidate.athlete_id === athleteId);
+      return {
+        athlete_id: athleteId,
+        athlete_name: form?.legal_name || profile?.full_name || profile?.name || 'Unknown athlete',
+        email: profile?.email || null,
+        year,
+        total: roundMoney(totals.get(athleteId) || 0),
+        w9_on_file: !!form,
+        form: form ? publicForm(form) : null
+      };
+    });
+
+    return { success: true, rows: rows.sort((a, b) => a.athlete_name.localeCompare(b.athlete_name)) };
+  }
+
+  /**
+   * 1099-NEC data for a year as CSV (admin); box 1 is nonemployee compensation
+   */
+  async export1099Csv(year: number): Promise<TaxResult> {
+    const result = await this.get1099Rows(year);
+    if (!result.success) {
+      return result;
+    }
+
+    const header = [
+      'tax_year', 'athlete_id', 'recipient_name', 'business_name', 'tin_type', 'recipient_tin',
+      'address_line1', 'address_line2', 'city', 'state', 'zip', 'email',
+      'box1_nonemployee_compensation', 'w9_on_file', 'w9_certified_at'
+    ];
+    const lines = result.rows!.map(row => [
+      year,
+      row.athlete_id,
+      row.athlete_name,
+      row.form?.business_name,
+      row.form?.tin_type,
+      row.form?.tin_masked,
+      row.form?.address_line1,
+      row.form?.address_line2,
+      row.form?.city,
+      row.form?.state,
+      row.form?.zip,
+      row.email,
+      row.total.toFixed(2),
+      row.w9_on_file ? 'yes' : 'no',
+      row.form?.certified_at
+    ].map(csvValue).join(','));
+
+    return {
+      success: true,
+      csv: [header.join(','), ...lines].join('\n') + '\n',
+      fileName: `1099-nec-${year}.csv`
+    };
+  }
+
+  /**
+   * Recipient copy of an athlete's 1099-NEC for a year
+   *
+   * Athletes can download their own once the year has ended; admins can
+   * download any athlete's at any time.
+   */
+  async render1099Pdf(athleteId: string, year: number, requester: { id: string; role: string }): Promise<TaxResult> {
+    try {
+      if (requester.role !== 'admin' && requester.id !== athleteId) {
+        return { success: false, error: 'You do not have access to this tax form', code: 'FORBIDDEN' };
+      }
+
+      if (requester.role !== 'admin' && year >= new Date().getUTCFullYear()) {
+        return { success: false, error: `Your ${year} 1099-NEC will be available after the year ends`, code: 'INVALID_OPERATION' };
+      }
+
+      const earnings = await this.getYearlyEarnings(athleteId);
+      if (!earnings.success) {
+        return earnings;
+      }
+
+      const yearEarnings = earnings.earnings!.find(entry => entry.year === year);
+      if (!yearEarnings?.reportable) {
+        return {
+          success: false,
+          error: `No 1099-NEC is issued for ${year}: earnings were under the ${formatMoney(reportingThreshold(year))} reporting threshold`,
+          code: 'NOT_FOUND'
+        };
+      }
+
+      const { data: stored } = await supabase
+        .from('tax_forms')
+        .select('*')
+        .eq('athlete_id', athleteId)
+        .maybeSingle();
+
+      if (!stored) {
+        return { success: false, error: 'A W-9 is needed before a 1099-NEC can be issued', code: 'W9_REQUIRED' };
+      }
+
+      const form = publicForm(stored);
+      const recipientAddress = [
+        form.address_line1,
+        form.address_line2,
+        `${form.city}, ${form.state} ${form.zip}`
+      ].filter(Boolean).join(', ');
+
+      const blocks: PdfBlock[] = [
+        { type: 'title', text: `Form 1099-NEC - Tax Year ${year}` },
+        { type: 'small', text: 'Nonemployee Compensation - Copy B, for recipient' },
+        { type: 'rule' },
+        { type: 'heading', text: 'Payer' },
+        { type: 'field', label: 'Name', value: config.TAX_PAYER_NAME },
+        { type: 'field', label: 'Address', value: config.TAX_PAYER_ADDRESS || '-' },
+        { type: 'field', label: 'TIN', value: config.TAX_PAYER_TIN || '-' },
+        { type: 'spacer', size: 12 },
+        { type: 'heading', text: 'Recipient' },
+        { type: 'field', label: 'Name', value: form.legal_name },
+        ...(form.business_name ? [{ type: 'field' as const, label: 'Business name', value: form.business_name }] : []),
+        { type: 'field', label: 'Address', value: recipientAddress },
+        { type: 'field', label: form.tin_type === 'ein' ? 'EIN' : 'SSN', value: form.tin_masked },
+        { type: 'field', label: 'Account number', value: athleteId },
+        { type: 'spacer', size: 12 },
+        { type: 'heading', text: 'Amounts' },
+        { type: 'field', label: 'Box 1 - Nonemployee compensation', value: formatMoney(yearEarnings.total) },
+        { type: 'field', label: 'Box 4 - Federal income tax withheld', value: formatMoney(0) },
+        { type: 'spacer', size: 16 },
+        {
+          type: 'small',
+          text: 'This is important tax information and is being furnished to the IRS. If you are required to file a return, a negligence penalty or other sanction may be imposed on you if this income is taxable and the IRS determines that it has not been reported.'
+        },
+        {
+          type: 'small',
+          text: `Box 1 is the total of payouts paid to you through ${config.TAX_PAYER_NAME} during ${year}, by the date each payout was paid.`
+        }
+      ];
+
+      return {
+        success: true,
+        file: renderPdf(blocks, {
+          title: `1099-NEC ${year} - ${form.legal_name}`,
+          author: config.TAX_PAYER_NAME,
+          footer: `1099-NEC ${year} - Copy B`
+        }),
+        fileName: `1099-nec-${year}.pdf`
+      };
+    } catch (error: any) {
+      console.error('Render 1099 exception:', error);
+      return { success: false, error: error.message || 'Failed to create 1099-NEC', code: 'SERVER_ERROR' };
+    }
+  }
+}
+
+// Create and export singleton instance
+export const taxService = new TaxService();
+export default taxService;
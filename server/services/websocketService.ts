@@ -300,6 +300,35 @@ export function configureWebSocket(server: Server): WebSocketServer {
             }
             break;
 
+          case 'typing':
+            // Relay a typing indicator to the other party of a message thread
+            if (!connection.authenticated || !connection.userId) {
+              sendMessage(ws, {
+                type: 'error',
+                error: 'Authentication required to send typing indicators'
+              });
+              break;
+            }
+
+            if (data.threadId && typeof data.threadId === 'string') {
+              // Loaded lazily - the messaging service depends on wsHelpers from this module
+              const { messagingService } = await import('./messagingService');
+              const result = await messagingService.sendTyping(data.threadId, connection.userId, data.isTyping !== false);
+
+              if (!result.success) {
+                sendMessage(ws, {
+                  type: 'error',
+                  error: result.error || 'Unable to send typing indicator'
+                });
+              }
+            } else {
+              sendMessage(ws, {
+                type: 'error',
+                error: 'Invalid typing indicator'
+              });
+            }
+            break;
+
           case 'ping':
             // Simple ping-pong for connection health checks
             sendMessage(ws, { type: 'pong' });
@@ -137,6 +137,7 @@ export interface IStorage {
   storeFeedback(feedback: InsertFeedback): Promise<Feedback>;
   updateFeedbackStatus(feedbackId: number, status: string): Promise<Feedback>;
   addAdminResponse(feedbackId: number, response: string): Promise<Feedback>;
+  setFeedbackPublic(feedbackId: number, isPublic: boolean): Promise<Feedback>;
 
   // Session Store for Express Session
   sessionStore: session.Store;
@@ -1517,7 +1518,7 @@ export class SupabaseStorage {
     try {
       const { data, error } = await supabase
         .from('feedback')
-        .update({ admin_response: response })
+        .update({ admin_response: response, responded_at: new Date().toISOString() })
         .eq('id', feedbackId)
         .select()
         .single();
@@ -1534,6 +1535,27 @@ export class SupabaseStorage {
     }
   }
 
+  async setFeedbackPublic(feedbackId: number, isPublic: boolean): Promise<Feedback> {
+    try {
+      const { data, error } = await supabase
+        .from('feedback')
+        .update({ public: isPublic })
+        .eq('id', feedbackId)
+        .select()
+        .single();
+        
+      if (error) {
+        console.error('Error updating feedback visibility:', error);
+        throw new Error(`Failed to update feedback visibility: ${error.message}`);
+      }
+      
+      return this.mapFeedbackFromDb(data);
+    } catch (error) {
+      console.error('Exception updating feedback visibility:', error);
+      throw new Error(`Failed to update feedback visibility for feedback ${feedbackId}`);
+    }
+  }
+
   // Helpers for mapping between app models and DB models
   private mapSessionFromDb(data: any): Session {
     return {
@@ -1798,11 +1820,16 @@ export class SupabaseStorage {
       rating: data.rating || 0,
       category: data.category || '',
       public: data.public || false,
+      allow_public: data.allow_public || false,
+      admin_response: data.admin_response || null,
+      responded_at: data.responded_at || null,
       // Include camelCase alternatives
       userId: data.user_id,
       userType: data.user_type,
       matchId: data.match_id,
       feedbackType: data.feedback_type,
+      allowPublic: data.allow_public || false,
+      adminResponse: data.admin_response || null,
       created_at: data.created_at,
       // DateFields format
       createdAt: data.created_at ? new Date(data.created_at) : undefined
@@ -1815,7 +1842,12 @@ export class SupabaseStorage {
       user_type: data.userType,
       match_id: data.matchId,
       feedback_type: data.feedbackType,
+      title: data.title,
       content: data.content,
+      rating: data.rating,
+      category: data.category,
+      allow_public: data.allowPublic,
+      public: false,
       status: 'pending',
       created_at: new Date()
     };
@@ -2024,6 +2056,7 @@ export class MemStorage implements IStorage {
   async storeFeedback(feedback: InsertFeedback): Promise<Feedback> { return { id: 1, ...feedback, status: 'pending' } as Feedback; }
   async updateFeedbackStatus(feedbackId: number, status: string): Promise<Feedback> { return { id: feedbackId, status } as Feedback; }
   async addAdminResponse(feedbackId: number, response: string): Promise<Feedback> { return { id: feedbackId } as Feedback; }
+  async setFeedbackPublic(feedbackId: number, isPublic: boolean): Promise<Feedback> { return { id: feedbackId, public: isPublic } as Feedback; }
 
   // Subscription operations
   async updateUserSubscription(userId: string, data: {
@@ -0,0 +1,39 @@
+/**
+ * Age Utilities
+ *
+ * Works out an athlete's age from their date of birth. Ages are always
+ * computed on the server so clients can't claim a different one.
+ */
+
+export const AGE_OF_MAJORITY = 18;
+
+/**
+ * Whole years between a YYYY-MM-DD date of birth and a date (UTC), or null if the date is invalid
+ */
+export function calculateAge(dateOfBirth: string | null | undefined, on: Date = new Date()): number | null {
+  const match = dateOfBirth?.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (!match) {
+    return null;
+  }
+
+  const [year, month, day] = match.slice(1).map(Number);
+  let age = on.getUTCFullYear() - year;
+  if (on.getUTCMonth() + 1 < month || (on.getUTCMonth() + 1 === month && on.getUTCDate() < day)) {
+    age -= 1;
+  }
+
+  return age >= 0 ? age : null;
+}
+
+/**
+ * Whether someone with this date of birth is under the age of majority
+ *
+ * Unknown dates of birth are treated as adults; callers that need a
+ * guarantee should require the date first.
+ */
+export function isMinor(dateOfBirth: string | null | undefined, on: Date = new Date()): boolean {
+  const age = calculateAge(dateOfBirth, on);
+  return age !== null && age < AGE_OF_MAJORITY;
+}
+
+export default { calculateAge, isMinor };
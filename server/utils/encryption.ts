@@ -0,0 +1,51 @@
+/**
+ * Encryption Utilities
+ *
+ * Field-level encryption for sensitive values stored in the database, such
+ * as taxpayer identification numbers. Values are sealed with AES-256-GCM
+ * under TAX_ENCRYPTION_KEY; outside production a key is derived from the
+ * session secret so local setups work without extra configuration.
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import config from '../config/environment';
+
+const ALGORITHM = 'aes-256-gcm';
+const VERSION = 'v1';
+
+function encryptionKey(): Buffer {
+  const secret = config.TAX_ENCRYPTION_KEY || (config.isProduction ? '' : config.SESSION_SECRET);
+  if (!secret) {
+    throw new Error('TAX_ENCRYPTION_KEY is not configured');
+  }
+
+  return createHash('sha256').update(secret).digest();
+}
+
+/**
+ * Encrypt a value as "v1:iv:tag:ciphertext" (base64 parts)
+ */
+export function encryptField(value: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(ALGORITHM, encryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+
+  return [VERSION, iv.toString('base64'), cipher.getAuthTag().toString('base64'), ciphertext.toString('base64')].join(':');
+}
+
+/**
+ * Decrypt a value produced by encryptField; throws if it was tampered with
+ */
+export function decryptField(sealed: string): string {
+  const [version, iv, tag, ciphertext] = sealed.split(':');
+  if (version !== VERSION || !iv || !tag || !ciphertext) {
+    throw new Error('Unrecognized encrypted value');
+  }
+
+  const decipher = createDecipheriv(ALGORITHM, encryptionKey(), Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8');
+}
+
+export default { encryptField, decryptField };
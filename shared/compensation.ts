@@ -0,0 +1,152 @@
+import type { Compensation, CompensationMinimum } from "./schema";
+
+// Read the largest number out of free text such as "$500-$1,500 per athlete"
+function largestAmount(text: string): number | null {
+  const amounts = (text.replace(/,/g, "").match(/\d+(\.\d+)?/g) || []).map(Number);
+  return amounts.length > 0 ? Math.max(...amounts) : null;
+}
+
+// Cash the athlete is guaranteed, before any revenue share
+export function guaranteedCash(compensation: Compensation): number {
+  const rates = (compensation.deliverable_rates || [])
+    .reduce((sum, rate) => sum + rate.rate * (rate.quantity || 1), 0);
+  return (compensation.fixed_amount || 0) + rates;
+}
+
+// Guaranteed cash plus the retail value of any product
+export function totalValue(compensation: Compensation): number {
+  return guaranteedCash(compensation) + (compensation.product?.retail_value || 0);
+}
+
+// Number of deliverables the compensation pays for, if it says
+export function deliverableCount(compensation: Compensation): number {
+  return (compensation.deliverable_rates || []).reduce((sum, rate) => sum + (rate.quantity || 1), 0);
+}
+
+/**
+ * Build structured compensation from the legacy compensation_type /
+ * offer_amount strings, e.g. ("Fixed Payment", "$650")
+ */
+export function compensationFromLegacy(type?: string | null, amount?: unknown): Compensation | null {
+  const value = typeof amount === "number" ? amount : typeof amount === "string" ? largestAmount(amount) : null;
+  const label = (type || "").toLowerCase();
+
+  if (/product|gift/.test(label) && !/money|cash|combination|hybrid/.test(label)) {
+    return {
+      type: "product",
+      currency: "USD",
+      payment_schedule: "upfront",
+      product: { description: type || "Product", retail_value: value || 0 }
+    };
+  }
+
+  if (value === null) {
+    return null;
+  }
+
+  return { type: "fixed", currency: "USD", payment_schedule: "on_completion", fixed_amount: value };
+}
+
+/**
+ * Turn an athlete's free-text minimum ("$300 per post") into a structured one
+ */
+export function minimumFromText(text?: string | null, compensationGoals?: string | null): CompensationMinimum | null {
+  if (!text) {
+    return null;
+  }
+
+  const amount = largestAmount(text);
+  if (amount === null) {
+    return null;
+  }
+
+  const goals = (compensationGoals || "").toLowerCase();
+
+  return {
+    amount,
+    currency: "USD",
+    per: /\bper\s+(post|story|video|deliverable|piece)\b/i.test(text) ? "deliverable" : "deal",
+    accepts_product_only: goals.includes("products/services only") || goals.includes("flexible"),
+    accepts_revenue_share_only: goals.includes("flexible"),
+    note: text
+  };
+}
+
+/**
+ * Short human-readable summary, e.g. "$500 + 10% affiliate commission"
+ */
+export function describeCompensation(compensation: Compensation): string {
+  const money = (amount: number) =>
+    new Intl.NumberFormat("en-US", { style: "currency", currency: compensation.currency || "USD", maximumFractionDigits: 2 }).format(amount);
+  const parts: string[] = [];
+
+  if (compensation.fixed_amount !== undefined) {
+    parts.push(money(compensation.fixed_amount));
+  }
+  for (const rate of compensation.deliverable_rates || []) {
+    parts.push(`${money(rate.rate)} per ${rate.deliverable_type}${rate.quantity > 1 ? ` x${rate.quantity}` : ""}`);
+  }
+  if (compensation.revenue_share) {
+    const basis = compensation.revenue_share.basis === "revenue" ? "revenue share" : "affiliate commission";
+    parts.push(`${compensation.revenue_share.percentage}% ${basis}`);
+  }
+  if (compensation.product) {
+    parts.push(`${compensation.product.description} (${money(compensation.product.retail_value)} value)`);
+  }
+
+  return parts.join(" + ") || "Not specified";
+}
+
+export interface MinimumCheck {
+  meets: boolean;
+  reason: string;
+}
+
+/**
+ * Compare compensation to an athlete's minimum
+ *
+ * Only guaranteed cash counts toward the floor. Product-only and
+ * commission-only deals pass only if the athlete said they accept them.
+ * A per-deliverable floor is checked against the average paid per piece;
+ * pass the offer's deliverable count when the compensation doesn't list rates.
+ */
+export function checkMinimum(
+  compensation: Compensation,
+  minimum: CompensationMinimum | null | undefined,
+  offerDeliverableCount?: number
+): MinimumCheck {
+  if (!minimum || minimum.amount <= 0) {
+    return { meets: true, reason: "Athlete has no minimum" };
+  }
+
+  if ((minimum.currency || "USD") !== (compensation.currency || "USD")) {
+    return { meets: true, reason: `Minimum is in ${minimum.currency}; not compared` };
+  }
+
+  const cash = guaranteedCash(compensation);
+  const product = compensation.product?.retail_value || 0;
+
+  if (cash === 0 && product > 0) {
+    return minimum.accepts_product_only
+      ? { meets: true, reason: "Athlete accepts product-only deals" }
+      : { meets: false, reason: "Athlete does not accept product-only deals" };
+  }
+
+  if (cash === 0 && compensation.revenue_share) {
+    return minimum.accepts_revenue_share_only
+      ? { meets: true, reason: "Athlete accepts commission-only deals" }
+      : { meets: false, reason: "Athlete does not accept commission-only deals" };
+  }
+
+  if (minimum.per === "deliverable") {
+    const pieces = deliverableCount(compensation) || offerDeliverableCount || 1;
+    const perPiece = cash / pieces;
+    return perPiece >= minimum.amount
+      ? { meets: true, reason: `Pays ${perPiece.toFixed(2)} per deliverable` }
+      : { meets: false, reason: `Pays ${perPiece.toFixed(2)} per deliverable; the athlete's minimum is ${minimum.amount.toFixed(2)}` };
+  }
+
+  return cash >= minimum.amount
+    ? { meets: true, reason: `Guaranteed ${cash.toFixed(2)} meets the minimum` }
+    : { meets: false, reason: `Guaranteed ${cash.toFixed(2)} is below the athlete's minimum of ${minimum.amount.toFixed(2)}` };
+}
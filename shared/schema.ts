@@ -21,7 +21,7 @@ export const CompanyType = z.enum(["brand", "agency", "other"]);
 export type CompanyType = z.infer<typeof CompanyType>;
 
 // Compliance status enum (matches USER-DEFINED type in database)
-export const ComplianceStatus = z.enum(["pending", "approved", "rejected"]);
+export const ComplianceStatus = z.enum(["pending", "approved", "rejected", "needs_revision"]);
 export type ComplianceStatus = z.infer<typeof ComplianceStatus>;
 
 // Onboarding flow type enum (matches USER-DEFINED type in database)
@@ -42,7 +42,10 @@ export const userSchema = z.object({
   subscription_current_period_end: z.string().datetime().optional(),
   first_name: z.string().optional(),
   last_name: z.string().optional(),
-  full_name: z.string().optional()
+  full_name: z.string().optional(),
+  status: z.enum(["active", "suspended"]).default("active"), // See UserAccountStatus
+  suspended_at: z.string().datetime().nullable().optional(),
+  suspension_reason: z.string().nullable().optional()
 });
 
 export type User = z.infer<typeof userSchema>;
@@ -85,6 +88,122 @@ export const insertAthleteSchema = athleteSchema.omit({
 
 export type InsertAthlete = z.infer<typeof insertAthleteSchema>;
 
+// Compensation structures for offers, bundles and athlete minimums
+export const CompensationType = z.enum(["fixed", "per_deliverable", "revenue_share", "product", "hybrid"]);
+export type CompensationType = z.infer<typeof CompensationType>;
+
+export const PaymentSchedule = z.enum(["upfront", "on_completion", "per_deliverable", "milestones", "monthly"]);
+export type PaymentSchedule = z.infer<typeof PaymentSchedule>;
+
+const currencyCode = z.string().regex(/^[A-Z]{3}$/, "Use a 3-letter ISO currency code");
+
+// Rate paid for each piece of a given deliverable type
+export const deliverableRateSchema = z.object({
+  deliverable_type: z.string().min(1), // post, story, video, appearance
+  rate: z.number().nonnegative(),
+  quantity: z.number().int().min(1).default(1)
+});
+
+export type DeliverableRate = z.infer<typeof deliverableRateSchema>;
+
+// Commission on sales the athlete drives
+export const revenueShareSchema = z.object({
+  percentage: z.number().gt(0).max(100),
+  basis: z.enum(["revenue", "affiliate_sales"]).default("affiliate_sales"),
+  tracking_code: z.string().optional(),
+  cap: z.number().positive().optional() // Maximum payable over the term
+});
+
+export type RevenueShare = z.infer<typeof revenueShareSchema>;
+
+// Free product or services given to the athlete
+export const productCompensationSchema = z.object({
+  description: z.string().min(1),
+  retail_value: z.number().nonnegative()
+});
+
+export type ProductCompensation = z.infer<typeof productCompensationSchema>;
+
+// Structured compensation (partnership_offers.compensation, bundle compensation_terms)
+// Each type needs its own component; hybrid combines two or more of them
+export const compensationSchema = z.object({
+  type: CompensationType,
+  currency: currencyCode.default("USD"),
+  payment_schedule: PaymentSchedule.default("on_completion"),
+  fixed_amount: z.number().nonnegative().optional(),
+  deliverable_rates: z.array(deliverableRateSchema).optional(),
+  revenue_share: revenueShareSchema.optional(),
+  product: productCompensationSchema.optional(),
+  notes: z.string().max(1000).optional()
+}).superRefine((compensation, ctx) => {
+  const components = [
+    compensation.fixed_amount !== undefined,
+    (compensation.deliverable_rates?.length || 0) > 0,
+    compensation.revenue_share !== undefined,
+    compensation.product !== undefined
+  ].filter(Boolean).length;
+
+  const require = (present: boolean, path: string, message: string) => {
+    if (!present) ctx.addIssue({ code: z.ZodIssueCode.custom, path: [path], message });
+  };
+
+  switch (compensation.type) {
+    case "fixed":
+      require(compensation.fixed_amount !== undefined, "fixed_amount", "Fixed compensation needs an amount");
+      break;
+    case "per_deliverable":
+      require((compensation.deliverable_rates?.length || 0) > 0, "deliverable_rates", "Add at least one deliverable rate");
+      break;
+    case "revenue_share":
+      require(compensation.revenue_share !== undefined, "revenue_share", "Revenue share needs a percentage");
+      break;
+    case "product":
+      require(compensation.product !== undefined, "product", "Describe the product and its retail value");
+      break;
+    case "hybrid":
+      require(components >= 2, "type", "Hybrid compensation combines at least two components");
+      break;
+  }
+});
+
+export type Compensation = z.infer<typeof compensationSchema>;
+
+// The least an athlete will accept (athlete_profiles.minimum_compensation)
+export const compensationMinimumSchema = z.object({
+  amount: z.number().nonnegative(), // Guaranteed cash
+  currency: currencyCode.default("USD"),
+  per: z.enum(["deal", "deliverable"]).default("deal"),
+  accepts_product_only: z.boolean().default(false),
+  accepts_revenue_share_only: z.boolean().default(false),
+  note: z.string().optional() // Original free-text answer, if any
+});
+
+export type CompensationMinimum = z.infer<typeof compensationMinimumSchema>;
+
+// What releases a payment milestone's funds to the athlete
+export const MilestoneTrigger = z.enum([
+  "on_acceptance", // released as soon as the escrow is funded (e.g. a signing payment)
+  "deliverable", // released when the linked deliverable is approved
+  "all_deliverables", // released when every deliverable is approved (campaign wrap)
+  "manual" // released only by the business
+]);
+export type MilestoneTrigger = z.infer<typeof MilestoneTrigger>;
+
+// One payment milestone as defined on an offer (partnership_offers.payment_milestones)
+export const paymentMilestoneSchema = z.object({
+  title: z.string().min(1).max(120),
+  amount: z.number().positive(),
+  trigger: MilestoneTrigger.default("deliverable"),
+  deliverable_sequence: z.number().int().min(1).optional() // deliverables.sequence the milestone pays for
+}).refine(
+  milestone => milestone.trigger !== "deliverable" || milestone.deliverable_sequence !== undefined,
+  { message: "Deliverable milestones need a deliverable_sequence", path: ["deliverable_sequence"] }
+);
+
+export type PaymentMilestone = z.infer<typeof paymentMilestoneSchema>;
+
+export const paymentMilestonesSchema = z.array(paymentMilestoneSchema).min(1).max(20);
+
 // Athlete Profiles table schema
 export const athleteProfileSchema = z.object({
   id: z.string().uuid(), // Primary key
@@ -96,6 +215,7 @@ export const athleteProfileSchema = z.object({
   gender: z.string().optional(),
   bio: z.string().optional(),
   location: z.string().optional(),
+  zip_code: z.string().optional(), // Kept in step with athletes.zip_code; drives radius search
   full_name: z.string().optional(),
   profile_image: z.string().optional(),
 
@@ -133,7 +253,7 @@ export const athleteProfileSchema = z.object({
 
   // Availability & Requirements
   availability_timeframe: z.string().optional(),
-  minimum_compensation: z.string().optional(),
+  minimum_compensation: compensationMinimumSchema.nullable().optional(), // JSONB field
 
   // Preferences
   preferences: z.record(z.any()).optional(), // JSONB field
@@ -152,6 +272,10 @@ export const insertAthleteProfileSchema = athleteProfileSchema.omit({
 
 export type InsertAthleteProfile = z.infer<typeof insertAthleteProfileSchema>;
 
+// Where a verification code was found on the platform
+export const SocialVerificationMethod = z.enum(["bio", "post"]);
+export type SocialVerificationMethod = z.infer<typeof SocialVerificationMethod>;
+
 // Athlete Social Accounts table schema
 export const athleteSocialAccountSchema = z.object({
   id: z.string().uuid(), // Primary key, auto-generated
@@ -160,7 +284,19 @@ export const athleteSocialAccountSchema = z.object({
   handle: z.string(),
   url: z.string().optional(),
   followers_count: z.number().int().optional(),
-  engagement_rate: z.number().optional() // numeric type in database
+  engagement_rate: z.number().optional(), // numeric type in database
+  posts_count: z.number().int().nullable().optional(),
+  last_synced_at: z.string().datetime().nullable().optional(), // Last successful lookup with the platform
+  last_attempted_at: z.string().datetime().nullable().optional(),
+  sync_error: z.string().nullable().optional(), // Why the last lookup failed, if it did
+
+  // Ownership verification: the athlete posts a one-time code where the platform shows it publicly
+  verification_code: z.string().nullable().optional(),
+  verification_code_expires_at: z.string().datetime().nullable().optional(),
+  verified_at: z.string().datetime().nullable().optional(),
+  verified_handle: z.string().nullable().optional(), // Handle that was verified; changing the handle drops verification
+  verification_method: SocialVerificationMethod.nullable().optional(),
+  verification_expires_at: z.string().datetime().nullable().optional()
 });
 
 export type AthleteSocialAccount = z.infer<typeof athleteSocialAccountSchema>;
@@ -171,6 +307,259 @@ export const insertAthleteSocialAccountSchema = athleteSocialAccountSchema.omit(
 
 export type InsertAthleteSocialAccount = z.infer<typeof insertAthleteSocialAccountSchema>;
 
+// Athlete social account history table schema - one row per metrics lookup
+export const socialMetricSnapshotSchema = z.object({
+  id: z.string().uuid(), // Primary key, auto-generated
+  social_account_id: z.string().uuid(), // Foreign key to athlete_social_accounts.id
+  athlete_id: z.string().uuid(),
+  platform: SocialPlatform,
+  handle: z.string(), // Handle at the time, so a changed handle starts a fresh history
+  followers_count: z.number().int(),
+  engagement_rate: z.number().nullable().optional(),
+  posts_count: z.number().int().nullable().optional(),
+  source: z.string(), // Adapter that produced the numbers, e.g. instagram-graph or mock
+  captured_at: z.string().datetime()
+});
+
+export type SocialMetricSnapshot = z.infer<typeof socialMetricSnapshotSchema>;
+
+// One platform's numbers on a profile page
+export interface SocialMetrics {
+  followers: number;
+  engagement: number | null;
+  posts?: number | null;
+  tweets?: number | null;
+  videos?: number | null;
+  weeklyGrowth: number | null; // Follower change against the snapshot from a week earlier, null until one exists
+  lastSyncedAt: string | null;
+  verified: boolean; // Ownership confirmed and not expired
+  verifiedAt: string | null;
+}
+
+// An athlete's social account with its verification state, as shown to the athlete
+export interface SocialAccountVerification {
+  id: string;
+  platform: SocialPlatform;
+  handle: string;
+  followers_count: number | null;
+  verified: boolean;
+  verified_at: string | null;
+  verification_method: SocialVerificationMethod | null;
+  verification_expires_at: string | null;
+  pending_code: string | null; // Code to place in the bio or a post, while one is outstanding
+  code_expires_at: string | null;
+  supported: boolean; // Whether this platform can be checked automatically
+}
+
+// Totals and per-platform numbers on a profile page
+export interface ProfileMetrics {
+  followerCount: number;
+  engagement: number | null; // Follower-weighted across platforms
+  contentQuality?: number | null;
+  instagramMetrics?: SocialMetrics;
+  twitterMetrics?: SocialMetrics;
+  tiktokMetrics?: SocialMetrics;
+  youtubeMetrics?: SocialMetrics;
+  facebookMetrics?: SocialMetrics;
+  updatedAt: string | null;
+}
+
+// Looks available for a public profile link page
+export const ProfileLinkTheme = z.enum(["default", "athletic", "modern", "vibrant"]);
+export type ProfileLinkTheme = z.infer<typeof ProfileLinkTheme>;
+
+// Profile fields an athlete can choose to show on their public page; the name always shows
+export const ProfileLinkPublicField = z.enum([
+  "sport",
+  "school",
+  "position",
+  "graduationYear",
+  "major",
+  "hometown",
+  "summary",
+  "stats",
+  "socialHandles",
+  "metrics"
+]);
+export type ProfileLinkPublicField = z.infer<typeof ProfileLinkPublicField>;
+
+// Shown until the athlete picks their own
+export const DEFAULT_PROFILE_LINK_PUBLIC_FIELDS: ProfileLinkPublicField[] = [
+  "sport",
+  "school",
+  "position",
+  "summary",
+  "socialHandles",
+  "metrics"
+];
+
+const hexColorSchema = z.string().regex(/^#[0-9A-F]{6}$/i, "Use a hex colour like #ff4500");
+const webUrlSchema = z.string().trim().max(500).url().refine(url => /^https?:\/\//i.test(url), "Links must start with http:// or https://");
+
+// A link button on the profile page
+export const profileLinkButtonSchema = z.object({
+  id: z.string().min(1).max(64),
+  label: z.string().trim().min(1).max(60),
+  url: webUrlSchema,
+  type: z.string().max(30).optional()
+});
+export type ProfileLinkButton = z.infer<typeof profileLinkButtonSchema>;
+
+// A game or video highlight on the profile page
+export const profileLinkHighlightSchema = z.object({
+  id: z.string().min(1).max(64),
+  title: z.string().trim().min(1).max(100),
+  description: z.string().trim().max(500).default(""),
+  date: z.string().trim().max(40).default(""),
+  url: webUrlSchema.optional(),
+  imageUrl: webUrlSchema.optional()
+});
+export type ProfileLinkHighlight = z.infer<typeof profileLinkHighlightSchema>;
+
+// An award or record on the profile page
+export const profileLinkAchievementSchema = z.object({
+  id: z.string().min(1).max(64),
+  title: z.string().trim().min(1).max(100),
+  date: z.string().trim().max(40).default(""),
+  iconType: z.enum(["trophy", "medal", "award"]).optional()
+});
+export type ProfileLinkAchievement = z.infer<typeof profileLinkAchievementSchema>;
+
+// A brand the athlete works with, shown on the profile page
+export const profileLinkSponsorSchema = z.object({
+  id: z.string().min(1).max(64),
+  name: z.string().trim().min(1).max(100),
+  logoUrl: webUrlSchema.optional(),
+  websiteUrl: webUrlSchema.optional()
+});
+export type ProfileLinkSponsor = z.infer<typeof profileLinkSponsorSchema>;
+
+// Athlete profile links table schema - an athlete's public link-in-bio page
+export const athleteProfileLinkSchema = z.object({
+  id: z.string().uuid(), // Primary key, auto-generated
+  athlete_id: z.string().uuid(), // Unique - one page per athlete
+  slug: z.string(), // Unique vanity path, stored lowercase
+  enabled: z.boolean().default(false),
+  bio: z.string().nullable().optional(),
+  photo_url: z.string().nullable().optional(),
+  cover_photo_url: z.string().nullable().optional(),
+  theme: ProfileLinkTheme.default("default"),
+  background_color: z.string(),
+  text_color: z.string(),
+  accent_color: z.string(),
+  buttons: z.array(profileLinkButtonSchema).default([]), // JSONB field
+  highlights: z.array(profileLinkHighlightSchema).default([]), // JSONB field
+  achievements: z.array(profileLinkAchievementSchema).default([]), // JSONB field
+  sponsors: z.array(profileLinkSponsorSchema).default([]), // JSONB field
+  public_fields: z.array(ProfileLinkPublicField), // JSONB field
+  created_at: z.string().datetime().optional(),
+  updated_at: z.string().datetime().optional()
+});
+
+export type AthleteProfileLinkRecord = z.infer<typeof athleteProfileLinkSchema>;
+
+// Request body for saving the profile link page (athlete); field names follow the profile link editors
+export const profileLinkInputSchema = z.object({
+  profileLinkEnabled: z.boolean().default(false),
+  profileLinkId: z.string().trim().max(60).optional(), // Requested slug; generated from the athlete's name when blank
+  profileLinkBio: z.string().trim().max(300).optional(),
+  profileLinkPhotoUrl: webUrlSchema.optional().or(z.literal("")),
+  coverPhotoUrl: webUrlSchema.optional().or(z.literal("")),
+  profileLinkTheme: ProfileLinkTheme.default("default"),
+  profileLinkBackgroundColor: hexColorSchema.default("#111111"),
+  profileLinkTextColor: hexColorSchema.default("#ffffff"),
+  profileLinkAccentColor: hexColorSchema.default("#ff4500"),
+  socialHandles: z.record(z.string().trim().max(200).optional()).optional(), // Saved to the athlete profile; blank removes a platform
+  profileLinkButtons: z.array(profileLinkButtonSchema).max(20).default([]),
+  highlights: z.array(profileLinkHighlightSchema).max(20).optional(),
+  achievements: z.array(profileLinkAchievementSchema).max(30).optional(),
+  sponsors: z.array(profileLinkSponsorSchema).max(20).optional(),
+  publicFields: z.array(ProfileLinkPublicField).optional()
+});
+
+export type ProfileLinkInput = z.infer<typeof profileLinkInputSchema>;
+
+// The athlete's own profile link settings, as loaded by the editors
+export interface ProfileLinkSettings {
+  profileLinkEnabled: boolean;
+  profileLinkId: string;
+  profileLinkUrl: string;
+  profileLinkBio: string;
+  profileLinkPhotoUrl: string;
+  coverPhotoUrl: string;
+  profileLinkTheme: ProfileLinkTheme;
+  profileLinkBackgroundColor: string;
+  profileLinkTextColor: string;
+  profileLinkAccentColor: string;
+  socialHandles: Record<string, string>;
+  profileLinkButtons: ProfileLinkButton[];
+  highlights: ProfileLinkHighlight[];
+  achievements: ProfileLinkAchievement[];
+  sponsors: ProfileLinkSponsor[];
+  publicFields: ProfileLinkPublicField[];
+}
+
+// A public profile page; fields the athlete hasn't made public are left out
+export interface PublicAthleteProfile {
+  id: string; // The page's slug
+  name: string;
+  profileLinkEnabled: true;
+  profileLinkId: string;
+  profileLinkBio: string;
+  profileLinkPhotoUrl: string;
+  coverPhotoUrl?: string;
+  profileLinkTheme: ProfileLinkTheme;
+  profileLinkBackgroundColor: string;
+  profileLinkTextColor: string;
+  profileLinkAccentColor: string;
+  profileLinkButtons: ProfileLinkButton[];
+  highlights: ProfileLinkHighlight[];
+  achievements: ProfileLinkAchievement[];
+  sponsors: ProfileLinkSponsor[];
+  socialHandles: Record<string, string>;
+  sport?: string;
+  school?: string;
+  position?: string;
+  class?: string; // e.g. "Class of 2027"
+  major?: string;
+  hometown?: string;
+  summary?: string;
+  stats?: Record<string, string>;
+  metrics?: ProfileMetrics;
+}
+
+// Kinds of traffic recorded on a public profile page
+export const ProfileLinkEventType = z.enum(["view", "click"]);
+export type ProfileLinkEventType = z.infer<typeof ProfileLinkEventType>;
+
+// Query parameters for profile page analytics
+export const profileLinkAnalyticsQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(90).default(30)
+});
+
+// One UTC day of profile page traffic
+export interface ProfileLinkDailyStats {
+  date: string; // YYYY-MM-DD
+  views: number;
+  uniqueVisitors: number;
+  clicks: number;
+}
+
+// Profile page traffic over a period, with bots left out
+export interface ProfileLinkAnalytics {
+  from: string; // First day included, YYYY-MM-DD
+  to: string; // Last day included
+  totals: {
+    views: number;
+    uniqueVisitors: number;
+    clicks: number;
+    clickThroughRate: number | null; // Clicks per 100 views
+  };
+  daily: ProfileLinkDailyStats[];
+  referrers: Array<{ source: string; views: number }>; // Referring site host, or "direct"
+  buttons: Array<{ id: string; label: string; clicks: number }>;
+}
+
 // Athlete Sports (junction table) schema
 export const athleteSportSchema = z.object({
   athlete_id: z.string().uuid(), // Part of composite primary key
@@ -311,26 +700,169 @@ export const complianceOfficerSchema = z.object({
 
 export type ComplianceOfficer = z.infer<typeof complianceOfficerSchema>;
 
+// Compliance decisions an officer can record (needs_revision = request changes)
+export const ComplianceDecision = z.enum(["approved", "rejected", "needs_revision"]);
+export type ComplianceDecision = z.infer<typeof ComplianceDecision>;
+
+// Rules enforced for a governing body and/or state
+export const complianceRulesSchema = z.object({
+  prohibited_categories: z.array(z.string()).default([]), // e.g. alcohol, gambling
+  category_keywords: z.record(z.array(z.string())).optional(), // Extra keywords per category
+  school_marks_allowed: z.boolean().default(false), // Logos, uniforms, mascots
+  school_mark_terms: z.array(z.string()).optional(), // Extra terms that indicate school-mark usage
+  disclosure_deadline_days: z.number().int().min(0).nullable().default(null), // Days to disclose after submission
+  max_compensation: z.number().min(0).nullable().default(null) // Deals above this need extra scrutiny
+});
+
+export type ComplianceRules = z.infer<typeof complianceRulesSchema>;
+
+// Compliance Rule Sets table schema - versioned per governing body and state
+export const complianceRuleSetSchema = z.object({
+  id: z.string().uuid(), // Primary key, auto-generated
+  governing_body_id: z.number().int().nullable(), // Foreign key to governing_bodies.id, null = any
+  state: z.string().length(2).nullable(), // Two-letter state code, null = any
+  version: z.number().int(), // Increments per governing body/state pair
+  name: z.string(),
+  rules: complianceRulesSchema, // JSONB field
+  is_active: z.boolean().default(true), // Only the latest version is active
+  created_by: z.string().uuid().optional(), // Foreign key to users.id
+  created_at: z.string().datetime().optional() // Defaults to now()
+});
+
+export type ComplianceRuleSet = z.infer<typeof complianceRuleSetSchema>;
+
+// Request body for publishing a new rule set version
+export const createComplianceRuleSetSchema = z.object({
+  governing_body_id: z.number().int().nullable().default(null),
+  state: z.string().length(2).transform(state => state.toUpperCase()).nullable().default(null),
+  name: z.string().min(1).max(200),
+  rules: complianceRulesSchema
+});
+
+export type CreateComplianceRuleSet = z.infer<typeof createComplianceRuleSetSchema>;
+
+// Outcome of a single rule check
+export const ComplianceCheckStatus = z.enum(["pass", "warn", "fail"]);
+export type ComplianceCheckStatus = z.infer<typeof ComplianceCheckStatus>;
+
+export const complianceRuleCheckSchema = z.object({
+  rule: z.string(), // prohibited_categories, school_marks, disclosure_deadline, max_compensation
+  label: z.string(),
+  status: ComplianceCheckStatus,
+  message: z.string(),
+  matches: z.array(z.string()).optional() // Terms that triggered the check
+});
+
+export type ComplianceRuleCheck = z.infer<typeof complianceRuleCheckSchema>;
+
+// Rule-check report stored in compliance_requests.rule_report
+export const complianceRuleReportSchema = z.object({
+  overall: ComplianceCheckStatus, // Worst status across checks
+  checks: z.array(complianceRuleCheckSchema),
+  rule_set: z.object({
+    id: z.string().uuid().nullable(), // null when the built-in defaults were used
+    name: z.string(),
+    version: z.number().int(),
+    governing_body_id: z.number().int().nullable(),
+    state: z.string().nullable()
+  }),
+  generated_at: z.string().datetime()
+});
+
+export type ComplianceRuleReport = z.infer<typeof complianceRuleReportSchema>;
+
+// Request body for an officer's decision
+export const complianceDecisionSchema = z.object({
+  decision: ComplianceDecision,
+  reason: z.string().max(2000).optional()
+}).refine(body => body.decision === "approved" || !!body.reason?.trim(), {
+  message: "A reason is required when rejecting or requesting changes",
+  path: ["reason"]
+});
+
+export type ComplianceDecisionInput = z.infer<typeof complianceDecisionSchema>;
+
+// Request body for submitting an offer for compliance review
+export const submitComplianceRequestSchema = z.object({
+  offer_id: z.string().uuid(),
+  state: z.string().length(2).optional()
+});
+
 // Compliance Requests table schema
 export const complianceRequestSchema = z.object({
   id: z.number().int(), // Primary key, auto-incremented
   match_id: z.number().int().optional(), // Foreign key to match_scores.id
-  compliance_officer_id: z.string().uuid().optional(), // Foreign key to compliance_officers.id
+  offer_id: z.string().uuid().optional(), // Foreign key to partnership_offers.id
+  athlete_id: z.string().uuid().optional(), // Foreign key to users.id
+  business_id: z.string().uuid().optional(), // Foreign key to users.id
+  requested_by: z.string().uuid().optional(), // Foreign key to users.id
+  compliance_officer_id: z.string().uuid().optional(), // Foreign key to compliance_officers.id, set when claimed
   status: ComplianceStatus.optional().default("pending"), // Enum type
   requested_at: z.string().datetime().optional(), // Defaults to now()
+  claimed_at: z.string().datetime().optional(),
   reviewed_at: z.string().datetime().optional(),
-  notes: z.string().optional()
+  notes: z.string().optional(), // Decision reason recorded by the officer
+  governing_body_id: z.number().int().optional(), // Foreign key to governing_bodies.id
+  state: z.string().length(2).optional(), // Two-letter state code used to pick the rule set
+  rule_set_id: z.string().uuid().optional(), // Foreign key to compliance_rule_sets.id
+  rule_set_version: z.number().int().optional(),
+  rule_report: complianceRuleReportSchema.optional() // JSONB field
 });
 
 export type ComplianceRequest = z.infer<typeof complianceRequestSchema>;
 
+// Match scoring factors (built-in factors of the match scoring engine)
+export const MatchFactor = z.enum([
+  "sport",
+  "division",
+  "audience_size",
+  "engagement",
+  "personal_values",
+  "causes",
+  "product_categories",
+  "content_style",
+  "location",
+  "compensation",
+  "reputation"
+]);
+export type MatchFactor = z.infer<typeof MatchFactor>;
+
+// Per-campaign factor weight overrides (campaigns.match_weights JSONB column)
+// Weights are relative; a weight of 0 disables the factor for the campaign
+export const matchWeightsSchema = z.record(MatchFactor, z.number().min(0).max(10));
+
+export type MatchWeights = z.infer<typeof matchWeightsSchema>;
+
+// One factor's share of a match score
+export const matchFactorResultSchema = z.object({
+  factor: z.string(), // MatchFactor value or the key of a registered custom factor
+  label: z.string(),
+  weight: z.number(), // Normalized weight; weights of applicable factors sum to 1
+  score: z.number().min(0).max(1).nullable(), // null when the factor could not be evaluated
+  contribution: z.number(), // weight * score, the points this factor added to the total
+  reason: z.string()
+});
+
+export type MatchFactorResult = z.infer<typeof matchFactorResultSchema>;
+
+// Per-factor breakdown stored in match_scores.explanation
+export const matchScoreExplanationSchema = z.object({
+  score: z.number().min(0).max(1), // Engine score (before any manual adjustment)
+  factors: z.array(matchFactorResultSchema),
+  weights_source: z.enum(["default", "campaign"]),
+  manual_score: z.number().min(0).max(1).optional(), // Set when a business overrides the engine score
+  computed_at: z.string().datetime()
+});
+
+export type MatchScoreExplanation = z.infer<typeof matchScoreExplanationSchema>;
+
 // Match Scores table schema
 export const matchScoreSchema = z.object({
   id: z.number().int(), // Primary key, auto-incremented
   athlete_id: z.string().uuid().optional(), // Foreign key to athletes.id
   business_id: z.string().uuid().optional(), // Foreign key to businesses.id
   score: z.number().optional(), // numeric type in database
-  explanation: z.record(z.any()).optional(), // JSONB field
+  explanation: matchScoreExplanationSchema.optional(), // JSONB field
   created_at: z.string().datetime().optional() // Defaults to now()
 });
 
@@ -385,6 +917,1276 @@ export const subscriptionHistorySchema = z.object({
 
 export type SubscriptionHistory = z.infer<typeof subscriptionHistorySchema>;
 
+// Campaign lifecycle status values for campaigns.status
+export const CampaignStatus = z.enum(["draft", "scheduled", "active", "paused", "completed", "archived"]);
+export type CampaignStatus = z.infer<typeof CampaignStatus>;
+
+// Allowed moves between campaign statuses
+export const CAMPAIGN_TRANSITIONS: Record<CampaignStatus, CampaignStatus[]> = {
+  draft: ["scheduled", "active"],
+  scheduled: ["active", "draft"],
+  active: ["paused", "completed"],
+  paused: ["active", "completed"],
+  completed: ["archived"],
+  archived: []
+};
+
+// Campaign Activities table schema - audit trail of launches and status changes
+export const campaignActivitySchema = z.object({
+  id: z.string().uuid(), // Primary key, auto-generated
+  campaign_id: z.string().uuid(), // Foreign key to campaigns.id
+  activity_type: z.string(), // LAUNCH, STATUS_CHANGE
+  actor_id: z.string().uuid().nullable().optional(), // Foreign key to users.id, null for scheduled changes
+  details: z.record(z.any()).optional(), // JSONB field - {from, to, reason, automatic}
+  created_at: z.string().datetime().optional() // Defaults to now()
+});
+
+export type CampaignActivity = z.infer<typeof campaignActivitySchema>;
+
+// Request body for a campaign status transition
+export const campaignTransitionSchema = z.object({
+  reason: z.string().max(1000).optional()
+});
+
+export type CampaignTransition = z.infer<typeof campaignTransitionSchema>;
+
+// Offer status values for partnership_offers.status ("frozen" while the offer's campaign is paused;
+// "accepted" offers become "active" once their contract is fully signed)
+export const OfferStatus = z.enum(["pending", "countered", "accepted", "active", "declined", "canceled", "expired", "frozen"]);
+export type OfferStatus = z.infer<typeof OfferStatus>;
+
+// Negotiable terms on a partnership offer (snapshotted on every revision)
+export const offerTermsSchema = z.object({
+  compensation: compensationSchema.optional(), // Structured terms; offer_amount mirrors its guaranteed cash
+  compensation_type: z.string().optional(),
+  offer_amount: z.union([z.string(), z.number()]).optional(),
+  payment_schedule: z.string().optional(),
+  payment_milestones: paymentMilestonesSchema.optional(), // Sums to the guaranteed cash
+  bonus_structure: z.string().optional(),
+  deliverables: z.array(z.any()).optional(),
+  term: z.string().optional(),
+  start_date: z.string().optional(),
+  end_date: z.string().optional(),
+  usage_rights: z.string().optional(),
+  exclusivity: z.string().optional()
+});
+
+export type OfferTerms = z.infer<typeof offerTermsSchema>;
+
+// A single changed field between two offer revisions
+export interface OfferTermChange {
+  field: keyof OfferTerms;
+  from: unknown;
+  to: unknown;
+}
+
+// Offer Revisions table schema
+export const offerRevisionSchema = z.object({
+  id: z.string().uuid(), // Primary key, auto-generated
+  offer_id: z.string().uuid(), // Foreign key to partnership_offers.id
+  revision_number: z.number().int(),
+  author_id: z.string().uuid(), // Foreign key to users.id
+  author_role: z.enum(["athlete", "business"]),
+  terms: offerTermsSchema, // JSONB field - full snapshot of the terms
+  changes: z.array(z.record(z.any())).optional(), // JSONB field - diff against the previous revision
+  message: z.string().optional(),
+  created_at: z.string().datetime().optional() // Defaults to now()
+});
+
+export type OfferRevision = z.infer<typeof offerRevisionSchema>;
+
+// Request body for a counter-offer
+export const counterOfferSchema = z.object({
+  terms: offerTermsSchema.refine(terms => Object.keys(terms).length > 0, {
+    message: "At least one term must be changed"
+  }),
+  message: z.string().max(2000).optional()
+});
+
+export type CounterOffer = z.infer<typeof counterOfferSchema>;
+
+// Request body for a business amending its pending offer; only negotiable terms can change
+export const offerUpdateSchema = offerTermsSchema.extend({
+  message: z.string().max(2000).optional() // Note attached to the new revision
+});
+
+export type OfferUpdate = z.infer<typeof offerUpdateSchema>;
+
+// Deliverable status enum (for deliverables.status column)
+export const DeliverableStatus = z.enum(["pending", "submitted", "changes_requested", "approved"]);
+export type DeliverableStatus = z.infer<typeof DeliverableStatus>;
+
+// Deliverables table schema - one row per piece of content owed under an accepted offer
+export const deliverableSchema = z.object({
+  id: z.string().uuid(), // Primary key, auto-generated
+  offer_id: z.string().uuid(), // Foreign key to partnership_offers.id
+  campaign_id: z.string().uuid().optional(), // Foreign key to campaigns.id
+  athlete_id: z.string().uuid(), // Foreign key to users.id
+  business_id: z.string().uuid(), // Foreign key to users.id
+  type: z.string(), // post, story, video, appearance
+  platform: z.string().optional(),
+  description: z.string().optional(),
+  hashtags: z.array(z.string()).optional(), // ARRAY type in database
+  sequence: z.number().int(), // 1-based instance number within the offer
+  due_date: z.string().datetime(),
+  status: DeliverableStatus.default("pending"),
+  submitted_at: z.string().datetime().optional(),
+  approved_at: z.string().datetime().optional(),
+  created_at: z.string().datetime().optional(), // Defaults to now()
+  updated_at: z.string().datetime().optional() // Defaults to now()
+});
+
+export type Deliverable = z.infer<typeof deliverableSchema>;
+
+// Proof links are shown to the other party, so only web addresses are allowed
+const proofUrlSchema = z.string()
+  .url("A valid proof URL is required")
+  .refine(url => /^https?:\/\//i.test(url), "Proof links must start with http:// or https://");
+
+// Deliverable Submissions table schema - proof-of-post uploaded by the athlete
+export const deliverableSubmissionSchema = z.object({
+  id: z.string().uuid(), // Primary key, auto-generated
+  deliverable_id: z.string().uuid(), // Foreign key to deliverables.id
+  submitted_by: z.string().uuid(), // Foreign key to users.id
+  proof_url: proofUrlSchema,
+  screenshot_key: z.string().optional(), // Object storage key
+  notes: z.string().optional(),
+  review_status: z.enum(["pending", "approved", "changes_requested"]).default("pending"),
+  reviewer_id: z.string().uuid().optional(),
+  review_notes: z.string().optional(),
+  reviewed_at: z.string().datetime().optional(),
+  created_at: z.string().datetime().optional() // Defaults to now()
+});
+
+export type DeliverableSubmission = z.infer<typeof deliverableSubmissionSchema>;
+
+// Request body for a proof-of-post submission
+export const submitDeliverableSchema = z.object({
+  proof_url: proofUrlSchema,
+  notes: z.string().max(2000).optional()
+});
+
+// Request body for a business review of a submission
+export const reviewDeliverableSchema = z.object({
+  decision: z.enum(["approved", "changes_requested"]),
+  notes: z.string().max(2000).optional()
+}).refine(review => review.decision === "approved" || !!review.notes, {
+  message: "Notes are required when requesting changes",
+  path: ["notes"]
+});
+
+// Message attachment as stored in thread_messages.attachments
+export const messageAttachmentSchema = z.object({
+  key: z.string(), // Object storage key
+  name: z.string(),
+  content_type: z.string().optional(),
+  size: z.number().int().optional()
+});
+
+export type MessageAttachment = z.infer<typeof messageAttachmentSchema>;
+
+// Message Threads table schema - one conversation per match or offer
+export const messageThreadSchema = z.object({
+  id: z.string().uuid(), // Primary key, auto-generated
+  athlete_id: z.string().uuid(), // Foreign key to users.id
+  business_id: z.string().uuid(), // Foreign key to users.id
+  match_id: z.string().uuid().optional(), // Foreign key to match_scores.id
+  offer_id: z.string().uuid().optional(), // Foreign key to partnership_offers.id
+  subject: z.string().optional(),
+  last_message_at: z.string().datetime().optional(),
+  created_by: z.string().uuid(), // Foreign key to users.id
+  created_at: z.string().datetime().optional(), // Defaults to now()
+  updated_at: z.string().datetime().optional() // Defaults to now()
+});
+
+export type MessageThread = z.infer<typeof messageThreadSchema>;
+
+// Thread Messages table schema
+export const threadMessageSchema = z.object({
+  id: z.string().uuid(), // Primary key, auto-generated
+  thread_id: z.string().uuid(), // Foreign key to message_threads.id
+  sender_id: z.string().uuid(), // Foreign key to users.id
+  recipient_id: z.string().uuid(), // Foreign key to users.id
+  content: z.string(),
+  attachments: z.array(messageAttachmentSchema).default([]), // JSONB field
+  read_at: z.string().datetime().nullable().optional(), // Read receipt
+  created_at: z.string().datetime().optional() // Defaults to now()
+});
+
+export type ThreadMessage = z.infer<typeof threadMessageSchema>;
+
+// Request body for opening a thread on a match or offer
+export const createMessageThreadSchema = z.object({
+  match_id: z.string().uuid().optional(),
+  offer_id: z.string().uuid().optional(),
+  subject: z.string().max(200).optional()
+}).refine(thread => !!thread.match_id !== !!thread.offer_id, {
+  message: "Provide either a match_id or an offer_id"
+});
+
+// Request body for a new message (attachments arrive as multipart files)
+export const sendThreadMessageSchema = z.object({
+  content: z.string().max(5000).default("")
+});
+
+// Request body for read receipts - omit message_ids to mark the whole thread read
+export const markMessagesReadSchema = z.object({
+  message_ids: z.array(z.string().uuid()).optional()
+});
+
+// Notifications table schema
+export const notificationSchema = z.object({
+  id: z.string().uuid(), // Primary key, auto-generated
+  user_id: z.string().uuid(), // Foreign key to users.id
+  type: z.string(), // NEW_OFFER, MATCH_RESPONSE, COMPLIANCE_DECISION, NEW_MESSAGE, ...
+  title: z.string(),
+  content: z.string(),
+  reference_type: z.string().optional(), // CAMPAIGN, OFFER, DELIVERABLE, COMPLIANCE_REQUEST, MESSAGE_THREAD, ...
+  reference_id: z.string().optional(),
+  is_read: z.boolean().default(false),
+  read_at: z.string().datetime().nullable().optional(),
+  in_app: z.boolean().default(true), // False when the user only wants this by email or digest
+  emailed_at: z.string().datetime().nullable().optional(),
+  digest_pending: z.boolean().default(false), // Waiting for the next daily digest
+  digested_at: z.string().datetime().nullable().optional(),
+  created_at: z.string().datetime().optional() // Defaults to now()
+});
+
+export type Notification = z.infer<typeof notificationSchema>;
+
+// Notification categories users can configure (each covers a family of notification types)
+export const NotificationCategory = z.enum([
+  "new_offer",
+  "match_response",
+  "compliance_decision",
+  "message",
+  "payment"
+]);
+export type NotificationCategory = z.infer<typeof NotificationCategory>;
+
+// Delivery channels for a notification category
+export const notificationChannelsSchema = z.object({
+  in_app: z.boolean().default(true), // Bell history and live WebSocket push
+  email: z.boolean().default(false), // Immediate email
+  digest: z.boolean().default(false) // Included in the daily digest email
+});
+
+export type NotificationChannels = z.infer<typeof notificationChannelsSchema>;
+
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:MM (24-hour)");
+
+// Quiet hours hold back live pushes and immediate emails; held emails go out in the next digest
+export const quietHoursSchema = z.object({
+  enabled: z.boolean().default(false),
+  start: timeOfDay.default("22:00"),
+  end: timeOfDay.default("07:00")
+});
+
+export type QuietHours = z.infer<typeof quietHoursSchema>;
+
+// Notification Preferences table schema - one row per user
+export const notificationPreferencesSchema = z.object({
+  user_id: z.string().uuid(), // Primary key, foreign key to users.id
+  channels: z.record(NotificationCategory, notificationChannelsSchema), // JSONB field
+  quiet_hours: quietHoursSchema, // JSONB field
+  timezone: z.string().default("UTC"), // IANA time zone used for quiet hours and the digest
+  digest_hour: z.number().int().min(0).max(23).default(8), // Local hour the daily digest is sent
+  updated_at: z.string().datetime().optional()
+});
+
+export type NotificationPreferences = z.infer<typeof notificationPreferencesSchema>;
+
+// Request body for updating preferences - only the supplied categories change
+export const updateNotificationPreferencesSchema = z.object({
+  channels: z.record(NotificationCategory, notificationChannelsSchema.partial()).optional(),
+  quiet_hours: quietHoursSchema.partial().optional(),
+  timezone: z.string().refine(zone => {
+    try {
+      new Intl.DateTimeFormat("en-US", { timeZone: zone });
+      return true;
+    } catch {
+      return false;
+    }
+  }, "Unknown time zone").optional(),
+  digest_hour: z.number().int().min(0).max(23).optional()
+});
+
+export type UpdateNotificationPreferences = z.infer<typeof updateNotificationPreferencesSchema>;
+
+// Request body for marking notifications read - omit ids to mark all read
+export const markNotificationsReadSchema = z.object({
+  ids: z.array(z.string().uuid()).optional()
+});
+
+// What happens when an offer would push a campaign past budget_max
+export const BudgetEnforcement = z.enum(["warn", "block"]);
+export type BudgetEnforcement = z.infer<typeof BudgetEnforcement>;
+
+// Payout status values for payouts.status
+export const PayoutStatus = z.enum(["pending", "processing", "paid", "failed"]);
+export type PayoutStatus = z.infer<typeof PayoutStatus>;
+
+// Payouts table schema - money sent to an athlete against an offer
+export const payoutSchema = z.object({
+  id: z.string().uuid(), // Primary key, auto-generated
+  offer_id: z.string().uuid(), // Foreign key to partnership_offers.id
+  campaign_id: z.string().uuid().nullable().optional(), // Foreign key to campaigns.id
+  athlete_id: z.string().uuid(), // Foreign key to users.id
+  business_id: z.string().uuid(), // Foreign key to users.id
+  escrow_id: z.string().uuid().nullable().optional(), // Foreign key to escrows.id
+  deliverable_id: z.string().uuid().nullable().optional(), // Approved deliverable that released it
+  milestone_id: z.string().uuid().nullable().optional(), // Escrow milestone it pays out
+  amount: z.number().nonnegative(),
+  currency: z.string().length(3).default("USD"),
+  status: PayoutStatus.default("pending"), // pending until transferred to the athlete's account
+  provider_transfer_id: z.string().nullable().optional(),
+  failure_reason: z.string().nullable().optional(),
+  paid_at: z.string().datetime().nullable().optional(),
+  created_at: z.string().datetime().optional() // Defaults to now()
+});
+
+export type Payout = z.infer<typeof payoutSchema>;
+
+// Athlete connected-account onboarding state
+export const PayoutAccountStatus = z.enum(["pending", "active", "restricted"]);
+export type PayoutAccountStatus = z.infer<typeof PayoutAccountStatus>;
+
+// Payout accounts table schema - an athlete's connected account with the payment provider
+export const payoutAccountSchema = z.object({
+  user_id: z.string().uuid(), // Primary key, foreign key to users.id
+  provider: z.string(), // stripe or memory
+  provider_account_id: z.string(),
+  status: PayoutAccountStatus.default("pending"),
+  details_submitted: z.boolean().default(false),
+  payouts_enabled: z.boolean().default(false),
+  created_at: z.string().datetime().optional(),
+  updated_at: z.string().datetime().optional()
+});
+
+export type PayoutAccount = z.infer<typeof payoutAccountSchema>;
+
+// Escrow lifecycle: charged to the business on acceptance, released to the athlete on approval
+export const EscrowStatus = z.enum(["pending", "funded", "released", "refunded", "failed"]);
+export type EscrowStatus = z.infer<typeof EscrowStatus>;
+
+// Escrows table schema - funds held against an accepted offer
+export const escrowSchema = z.object({
+  id: z.string().uuid(), // Primary key, auto-generated
+  offer_id: z.string().uuid(), // Foreign key to partnership_offers.id, one escrow per offer
+  campaign_id: z.string().uuid().nullable().optional(),
+  athlete_id: z.string().uuid(),
+  business_id: z.string().uuid(),
+  amount: z.number().nonnegative(),
+  released_amount: z.number().nonnegative().default(0),
+  refunded_amount: z.number().nonnegative().default(0), // Disputed milestones returned to the business
+  currency: z.string().length(3).default("USD"),
+  status: EscrowStatus.default("pending"),
+  provider: z.string(),
+  provider_charge_id: z.string().nullable().optional(),
+  failure_reason: z.string().nullable().optional(),
+  funded_at: z.string().datetime().nullable().optional(),
+  released_at: z.string().datetime().nullable().optional(),
+  created_at: z.string().datetime().optional(),
+  updated_at: z.string().datetime().optional()
+});
+
+export type Escrow = z.infer<typeof escrowSchema>;
+
+// Held funds for one milestone; disputed milestones are frozen until resolved
+export const MilestoneStatus = z.enum(["pending", "funded", "released", "disputed", "refunded"]);
+export type MilestoneStatus = z.infer<typeof MilestoneStatus>;
+
+// Escrow milestones table schema - an escrow split into separately released parts
+export const escrowMilestoneSchema = z.object({
+  id: z.string().uuid(), // Primary key, auto-generated
+  escrow_id: z.string().uuid(), // Foreign key to escrows.id
+  offer_id: z.string().uuid(), // Foreign key to partnership_offers.id
+  position: z.number().int().min(1),
+  title: z.string(),
+  amount: z.number().nonnegative(),
+  currency: z.string().length(3).default("USD"),
+  trigger: MilestoneTrigger,
+  deliverable_sequence: z.number().int().nullable().optional(),
+  deliverable_id: z.string().uuid().nullable().optional(), // Resolved from deliverable_sequence
+  status: MilestoneStatus.default("pending"),
+  dispute_reason: z.string().nullable().optional(),
+  disputed_by: z.string().uuid().nullable().optional(),
+  disputed_at: z.string().datetime().nullable().optional(),
+  resolution_note: z.string().nullable().optional(),
+  resolved_at: z.string().datetime().nullable().optional(),
+  released_by: z.string().uuid().nullable().optional(), // Null when released automatically
+  released_at: z.string().datetime().nullable().optional(),
+  payout_id: z.string().uuid().nullable().optional(),
+  created_at: z.string().datetime().optional(),
+  updated_at: z.string().datetime().optional()
+});
+
+export type EscrowMilestone = z.infer<typeof escrowMilestoneSchema>;
+
+// Raise a dispute on a milestone
+export const milestoneDisputeSchema = z.object({
+  reason: z.string().min(1).max(1000)
+});
+
+// Settle a disputed milestone: pay it, refund it, or put it back on hold
+export const milestoneResolutionSchema = z.object({
+  resolution: z.enum(["release", "refund", "resume"]),
+  note: z.string().max(1000).optional()
+});
+
+export type MilestoneResolution = z.infer<typeof milestoneResolutionSchema>;
+
+// An escrow with its milestones, as shown on the Earnings tab and campaign view
+export interface EscrowWithMilestones extends Escrow {
+  milestones: EscrowMilestone[];
+  campaign: string | null;
+  counterparty: string | null;
+}
+
+// Earnings tab totals for a period
+export interface EarningsSummary {
+  total: number; // received in the period plus still held in escrow
+  pending: number; // funded but not yet released or transferred
+  received: number; // transferred to the athlete in the period
+  campaigns: number; // partnerships that paid out in the period
+  change: number | null; // percent change in received vs the previous period
+  currency: string;
+}
+
+// One row of an athlete's payout history
+export interface PayoutHistoryItem extends Payout {
+  brand: string | null;
+  campaign: string | null;
+}
+
+// Which part of a campaign budget an offer currently counts against
+export type BudgetBucket = "pending" | "committed";
+
+// One offer's line in a campaign budget ledger
+export interface CampaignBudgetLine {
+  offer_id: string;
+  athlete_id: string;
+  status: string;
+  bucket: BudgetBucket;
+  amount: number;
+  paid: number;
+}
+
+// Money totals for a campaign (or every campaign of a business)
+export interface CampaignBudgetTotals {
+  budget_min: number | null;
+  budget_max: number | null;
+  pending: number; // Open offers (pending, countered, frozen)
+  committed: number; // Accepted offers, including anything already paid
+  paid: number; // Completed payouts
+  outstanding: number; // Committed but not yet paid
+  remaining: number | null; // budget_max minus committed and pending
+}
+
+export interface CampaignBudgetSummary {
+  campaign_id: string;
+  title?: string;
+  status?: string;
+  enforcement: BudgetEnforcement;
+  totals: CampaignBudgetTotals;
+  lines?: CampaignBudgetLine[];
+}
+
+// Generated contract lifecycle
+// "generated" until every required party has signed
+export const ContractStatus = z.enum(["generated", "signed", "void"]);
+export type ContractStatus = z.infer<typeof ContractStatus>;
+
+// Contract templates table schema - every edit is stored as a new, immutable version
+export const contractTemplateSchema = z.object({
+  id: z.string().uuid(), // Primary key, auto-generated
+  key: z.string(), // Template family, e.g. "partnership_agreement"
+  version: z.number().int().min(1),
+  title: z.string(),
+  body: z.string(), // "# Heading" lines, "- " bullets and {{placeholders}}
+  nil_clauses: z.array(z.string()).min(1), // Required NIL disclosures, always printed
+  is_active: z.boolean().default(false), // The version new contracts are generated from
+  change_note: z.string().nullable().optional(),
+  created_by: z.string().uuid().nullable().optional(), // Admin who published it
+  created_at: z.string().datetime().optional()
+});
+
+export type ContractTemplate = z.infer<typeof contractTemplateSchema>;
+
+// Request body for publishing a new template version (admin)
+export const contractTemplateInputSchema = z.object({
+  title: z.string().min(1).max(200),
+  body: z.string().min(1).max(50000),
+  nil_clauses: z.array(z.string().min(1).max(2000)).min(1).max(30),
+  change_note: z.string().max(500).optional()
+});
+
+export type ContractTemplateInput = z.infer<typeof contractTemplateInputSchema>;
+
+// Request body for previewing a draft template against an existing offer (admin)
+export const contractTemplatePreviewSchema = contractTemplateInputSchema.extend({
+  offer_id: z.string().uuid()
+});
+
+// Contracts table schema - the document generated for an accepted offer
+export const contractSchema = z.object({
+  id: z.string().uuid(), // Primary key, auto-generated
+  offer_id: z.string().uuid(), // Foreign key to partnership_offers.id, one contract per offer
+  campaign_id: z.string().uuid().nullable().optional(),
+  athlete_id: z.string().uuid(),
+  business_id: z.string().uuid(),
+  template_id: z.string().uuid(), // Foreign key to contract_templates.id
+  template_version: z.number().int(), // Version that produced this document
+  status: ContractStatus.default("generated"),
+  storage_key: z.string(), // Object storage key of the PDF
+  file_name: z.string(),
+  content_hash: z.string(), // SHA-256 of the PDF
+  generated_at: z.string().datetime(),
+  signed_storage_key: z.string().nullable().optional(), // PDF with the signature certificate appended
+  signed_hash: z.string().nullable().optional(), // SHA-256 of the signed PDF
+  signed_at: z.string().datetime().nullable().optional(),
+  created_at: z.string().datetime().optional(),
+  updated_at: z.string().datetime().optional()
+});
+
+export type Contract = z.infer<typeof contractSchema>;
+
+// A contract with the names the Contracts & Forms tab shows
+export interface ContractListItem extends Contract {
+  brand: string | null;
+  athlete: string | null;
+  campaign: string | null;
+}
+
+// Guardian consent for athletes under 18; required before they accept offers or message businesses
+export const GuardianConsentStatus = z.enum(["pending", "approved", "declined", "revoked"]);
+export type GuardianConsentStatus = z.infer<typeof GuardianConsentStatus>;
+
+// Guardian consents table schema - one current consent per athlete
+export const guardianConsentSchema = z.object({
+  id: z.string().uuid(), // Primary key, auto-generated
+  athlete_id: z.string().uuid(), // Foreign key to users.id
+  guardian_name: z.string(),
+  guardian_email: z.string().email(),
+  relationship: z.string().nullable().optional(), // e.g. "Parent", "Legal guardian"
+  status: GuardianConsentStatus.default("pending"),
+  invited_at: z.string().datetime(),
+  verified_at: z.string().datetime().nullable().optional(), // First time the guardian opened the emailed link
+  responded_at: z.string().datetime().nullable().optional(),
+  ip_address: z.string().nullable().optional(), // Recorded with the guardian's decision
+  user_agent: z.string().nullable().optional(),
+  created_at: z.string().datetime().optional(),
+  updated_at: z.string().datetime().optional()
+});
+
+export type GuardianConsent = z.infer<typeof guardianConsentSchema>;
+
+// Request body for inviting a guardian (athlete)
+export const guardianInviteSchema = z.object({
+  name: z.string().trim().min(2).max(200),
+  email: z.string().trim().email(),
+  relationship: z.string().trim().max(50).optional()
+});
+
+export type GuardianInvite = z.infer<typeof guardianInviteSchema>;
+
+// Request body for the guardian's decision
+export const guardianConsentDecisionSchema = z.object({
+  decision: z.enum(["approve", "decline"])
+});
+
+export type GuardianConsentDecision = z.infer<typeof guardianConsentDecisionSchema>;
+
+// Guardian consent state shown to the athlete
+export interface GuardianConsentSummary {
+  is_minor: boolean;
+  age: number | null;
+  consent_required: boolean; // Minor without an approved consent, or no date of birth on record
+  consent: GuardianConsent | null;
+}
+
+// Read-only view a guardian reaches from their emailed link
+export interface GuardianView {
+  athlete: { name: string; school: string | null; sport: string | null };
+  consent: GuardianConsent;
+  offers: Array<{
+    id: string;
+    status: string;
+    brand: string | null;
+    campaign: string | null;
+    offer_amount: number | string | null;
+    compensation_type: string | null;
+    deliverables: any[] | null;
+    term: string | null;
+    usage_rights: string | null;
+    exclusivity: string | null;
+    created_at: string;
+  }>;
+}
+
+// Parties who sign a contract; a guardian co-signs when the athlete is a minor
+export const SignerRole = z.enum(["business", "athlete", "guardian"]);
+export type SignerRole = z.infer<typeof SignerRole>;
+
+export const SignatureMethod = z.enum(["typed", "drawn"]);
+export type SignatureMethod = z.infer<typeof SignatureMethod>;
+
+// Contract signatures table schema - one row per required signer
+export const contractSignatureSchema = z.object({
+  id: z.string().uuid(), // Primary key, auto-generated
+  contract_id: z.string().uuid(), // Foreign key to contracts.id
+  signer_role: SignerRole,
+  signing_order: z.number().int(), // Signers sign in ascending order
+  signer_user_id: z.string().uuid().nullable().optional(), // Null for guardians, who sign through an emailed link
+  signer_name: z.string().nullable().optional(),
+  signer_email: z.string().nullable().optional(),
+  status: z.enum(["pending", "signed"]).default("pending"),
+  method: SignatureMethod.nullable().optional(),
+  typed_name: z.string().nullable().optional(),
+  signature_image: z.string().nullable().optional(), // PNG data URL for drawn signatures
+  signature_hash: z.string().nullable().optional(), // SHA-256 of the signature and the document it was applied to
+  document_hash: z.string().nullable().optional(), // contracts.content_hash at signing time
+  ip_address: z.string().nullable().optional(),
+  user_agent: z.string().nullable().optional(),
+  signed_at: z.string().datetime().nullable().optional(),
+  invited_at: z.string().datetime().nullable().optional(),
+  created_at: z.string().datetime().optional(),
+  updated_at: z.string().datetime().optional()
+});
+
+export type ContractSignature = z.infer<typeof contractSignatureSchema>;
+
+export const ContractAuditAction = z.enum([
+  "signatures_requested",
+  "guardian_invited",
+  "viewed",
+  "signed",
+  "signatures_reset",
+  "completed"
+]);
+export type ContractAuditAction = z.infer<typeof ContractAuditAction>;
+
+// Contract audit events table schema - append-only
+export const contractAuditEventSchema = z.object({
+  id: z.string().uuid(), // Primary key, auto-generated
+  contract_id: z.string().uuid(), // Foreign key to contracts.id
+  signature_id: z.string().uuid().nullable().optional(),
+  action: ContractAuditAction,
+  actor_user_id: z.string().uuid().nullable().optional(),
+  actor_role: z.string().nullable().optional(),
+  actor_name: z.string().nullable().optional(),
+  ip_address: z.string().nullable().optional(),
+  user_agent: z.string().nullable().optional(),
+  document_hash: z.string().nullable().optional(),
+  details: z.record(z.any()).default({}),
+  created_at: z.string().datetime()
+});
+
+export type ContractAuditEvent = z.infer<typeof contractAuditEventSchema>;
+
+// Request body for signing a contract
+export const contractSignInputSchema = z.object({
+  method: SignatureMethod,
+  typed_name: z.string().trim().min(2, "Type your full legal name").max(200),
+  signature_image: z.string().regex(/^data:image\/png;base64,[A-Za-z0-9+/=]+$/, "Signature must be a PNG image").max(300000).optional(),
+  consent: z.literal(true, { errorMap: () => ({ message: "You must agree to sign electronically" }) })
+}).refine(input => input.method !== "drawn" || !!input.signature_image, {
+  message: "Drawn signatures need a signature image",
+  path: ["signature_image"]
+});
+
+export type ContractSignInput = z.infer<typeof contractSignInputSchema>;
+
+// Request body for naming the guardian who co-signs for a minor
+export const contractGuardianInputSchema = z.object({
+  name: z.string().trim().min(2).max(200),
+  email: z.string().trim().email()
+});
+
+export type ContractGuardianInput = z.infer<typeof contractGuardianInputSchema>;
+
+// Signature progress for a contract, as shown to its parties
+export interface ContractSigningStatus {
+  contract: ContractListItem;
+  signers: ContractSignature[];
+  next_signer: SignerRole | null;
+  guardian_required: boolean;
+  audit: ContractAuditEvent[];
+}
+
+// Federal tax classification boxes on the W-9
+export const TaxClassification = z.enum([
+  "individual", // Individual/sole proprietor or single-member LLC
+  "c_corporation",
+  "s_corporation",
+  "partnership",
+  "trust_estate",
+  "llc"
+]);
+export type TaxClassification = z.infer<typeof TaxClassification>;
+
+// Taxpayer identification number kinds
+export const TinType = z.enum(["ssn", "ein"]);
+export type TinType = z.infer<typeof TinType>;
+
+// Tax forms table schema - an athlete's current W-9, as returned to clients
+export const taxFormSchema = z.object({
+  id: z.string().uuid(), // Primary key, auto-generated
+  athlete_id: z.string().uuid(), // Foreign key to users.id
+  legal_name: z.string(),
+  business_name: z.string().nullable().optional(),
+  tax_classification: TaxClassification,
+  tin_type: TinType,
+  tin_masked: z.string(), // e.g. ***-**-1234; the full TIN is only stored encrypted
+  address_line1: z.string(),
+  address_line2: z.string().nullable().optional(),
+  city: z.string(),
+  state: z.string().length(2),
+  zip: z.string(),
+  signature_name: z.string(), // Typed name certifying the W-9
+  certified_at: z.string().datetime(),
+  created_at: z.string().datetime().optional(),
+  updated_at: z.string().datetime().optional()
+});
+
+export type TaxForm = z.infer<typeof taxFormSchema>;
+
+// Request body for submitting a W-9 (athlete)
+export const w9InputSchema = z.object({
+  legal_name: z.string().trim().min(2).max(200),
+  business_name: z.string().trim().max(200).optional(),
+  tax_classification: TaxClassification,
+  tin_type: TinType,
+  tin: z.string().trim(),
+  address_line1: z.string().trim().min(1).max(200),
+  address_line2: z.string().trim().max(200).optional(),
+  city: z.string().trim().min(1).max(100),
+  state: z.string().trim().regex(/^[A-Za-z]{2}$/, "Use the two-letter state code").transform(state => state.toUpperCase()),
+  zip: z.string().trim().regex(/^\d{5}(-\d{4})?$/, "Enter a 5 or 9 digit ZIP code"),
+  signature_name: z.string().trim().min(2).max(200),
+  certify: z.literal(true) // Under penalties of perjury certification
+}).superRefine((input, ctx) => {
+  const pattern = input.tin_type === "ssn" ? /^\d{3}-?\d{2}-?\d{4}$/ : /^\d{2}-?\d{7}$/;
+  if (!pattern.test(input.tin)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["tin"],
+      message: input.tin_type === "ssn" ? "Enter a 9 digit SSN" : "Enter a 9 digit EIN"
+    });
+  }
+});
+
+export type W9Input = z.infer<typeof w9InputSchema>;
+
+// An athlete's paid earnings for one calendar year
+export interface TaxYearEarnings {
+  year: number;
+  total: number; // Payouts paid during the year
+  payouts: number;
+  currency: string;
+  threshold: number; // 1099-NEC reporting threshold for the year
+  reportable: boolean; // At or over the threshold, so a 1099-NEC is issued
+}
+
+// One athlete's row in the admin 1099-NEC report
+export interface Tax1099Row {
+  athlete_id: string;
+  athlete_name: string;
+  email: string | null;
+  year: number;
+  total: number;
+  w9_on_file: boolean;
+  form: TaxForm | null;
+}
+
+// Account status values for users.status; suspended users can't sign in or use the API
+export const UserAccountStatus = z.enum(["active", "suspended"]);
+export type UserAccountStatus = z.infer<typeof UserAccountStatus>;
+
+// Actions an admin can take on a user account, as recorded in the audit trail
+export const AdminAuditAction = z.enum(["role_change", "suspend", "reactivate", "impersonate"]);
+export type AdminAuditAction = z.infer<typeof AdminAuditAction>;
+
+// Admin audit events table schema - append-only
+export const adminAuditEventSchema = z.object({
+  id: z.string().uuid(), // Primary key, auto-generated
+  admin_id: z.string().uuid(), // Foreign key to users.id
+  target_user_id: z.string().uuid(), // Foreign key to users.id
+  action: AdminAuditAction,
+  reason: z.string().nullable().optional(),
+  details: z.record(z.any()).default({}), // e.g. { from: "athlete", to: "business" } for role changes
+  ip_address: z.string().nullable().optional(),
+  user_agent: z.string().nullable().optional(),
+  created_at: z.string().datetime().optional() // Defaults to now()
+});
+
+export type AdminAuditEvent = z.infer<typeof adminAuditEventSchema>;
+
+// Query string for the admin user search
+export const adminUserSearchSchema = z.object({
+  q: z.string().trim().max(100).optional(), // Matches email or name
+  role: UserRole.optional(),
+  status: UserAccountStatus.optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+export type AdminUserSearch = z.infer<typeof adminUserSearchSchema>;
+
+// Request body for changing a user's role
+export const adminRoleChangeSchema = z.object({
+  role: UserRole,
+  reason: z.string().trim().max(500).optional()
+});
+
+// Request body for suspending a user or starting an impersonation session; a reason is required
+export const adminReasonSchema = z.object({
+  reason: z.string().trim().min(1, "A reason is required").max(500)
+});
+
+// Query string for the admin partnership overview
+export const adminPartnershipQuerySchema = z.object({
+  status: OfferStatus.optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+// Query string for the admin audit trail
+export const adminAuditQuerySchema = z.object({
+  userId: z.string().uuid().optional(), // Events targeting this user
+  action: AdminAuditAction.optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+// A user as listed in the admin console
+export interface AdminUserSummary {
+  id: string;
+  email: string;
+  role: UserRole;
+  full_name: string | null;
+  status: UserAccountStatus;
+  suspended_at: string | null;
+  suspension_reason: string | null;
+  created_at: string | null;
+  last_login: string | null;
+}
+
+// A partnership offer as listed in the admin console
+export interface AdminPartnership {
+  id: string;
+  status: string;
+  athlete_id: string;
+  athlete_name: string;
+  business_id: string;
+  business_name: string;
+  campaign_id: string | null;
+  campaign_title: string | null;
+  offer_amount: number | null;
+  created_at: string | null;
+}
+
+// Platform-wide numbers for the admin dashboard
+export interface AdminKpis {
+  users: {
+    total: number;
+    byRole: Record<string, number>;
+    newLast30Days: number;
+    suspended: number;
+  };
+  partnerships: {
+    total: number;
+    byStatus: Record<string, number>;
+    acceptanceRate: number | null; // Percent of decided offers that were accepted
+  };
+  campaigns: {
+    active: number;
+  };
+  payments: {
+    paidOut: number; // Payouts sent to athletes, all time
+    paidOutLast30Days: number;
+    heldInEscrow: number; // Funded but not yet released or refunded
+    currency: string;
+  };
+}
+
+// Kinds of feedback users can send ("partnership" is feedback on a match)
+export const FeedbackType = z.enum(["general", "bug", "feature", "partnership", "testimonial"]);
+export type FeedbackType = z.infer<typeof FeedbackType>;
+
+// Triage states for feedback.status; new feedback starts out "pending"
+export const FeedbackStatus = z.enum(["pending", "in_review", "resolved", "dismissed"]);
+export type FeedbackStatus = z.infer<typeof FeedbackStatus>;
+
+// Allowed moves between feedback statuses; closed feedback can be reopened for review
+export const FEEDBACK_TRANSITIONS: Record<FeedbackStatus, FeedbackStatus[]> = {
+  pending: ["in_review", "resolved", "dismissed"],
+  in_review: ["resolved", "dismissed"],
+  resolved: ["in_review"],
+  dismissed: ["in_review"]
+};
+
+// Feedback as stored through IStorage.storeFeedback
+export const insertFeedbackSchema = z.object({
+  userId: z.string().uuid(),
+  userType: z.string(),
+  matchId: z.number().int().positive().optional(), // Foreign key to match_scores.id
+  feedbackType: FeedbackType,
+  title: z.string().trim().max(120).optional(),
+  content: z.string().trim().min(10, "Tell us a little more (at least 10 characters)").max(5000),
+  rating: z.number().int().min(1).max(5).optional(),
+  category: z.string().trim().max(50).optional(),
+  allowPublic: z.boolean().default(false) // The author agrees to it being shown as a testimonial
+});
+
+export type InsertFeedback = z.infer<typeof insertFeedbackSchema>;
+
+// Feedback table row, with camelCase alternatives as mapped by the storage layer
+export interface Feedback {
+  id: number;
+  user_type: string;
+  match_id: number | null;
+  status: FeedbackStatus;
+  title: string;
+  content: string;
+  rating: number;
+  category: string;
+  public: boolean; // Approved by an admin for the testimonials feed
+  allow_public: boolean;
+  admin_response: string | null;
+  responded_at: string | null;
+  created_at: string;
+  userId: string;
+  userType: string;
+  matchId: number | null;
+  feedbackType: FeedbackType;
+  allowPublic: boolean;
+  adminResponse: string | null;
+  createdAt?: Date;
+}
+
+// Request body for submitting feedback; the author comes from the session
+export const feedbackInputSchema = insertFeedbackSchema.omit({ userId: true, userType: true });
+
+export type FeedbackInput = z.infer<typeof feedbackInputSchema>;
+
+// Query string for the admin triage list
+export const feedbackQuerySchema = z.object({
+  type: FeedbackType.optional(),
+  status: FeedbackStatus.optional()
+});
+
+// Request body for moving feedback to another status (admin)
+export const feedbackStatusInputSchema = z.object({
+  status: FeedbackStatus
+});
+
+// Request body for answering feedback (admin); the status can be moved in the same step
+export const feedbackResponseInputSchema = z.object({
+  response: z.string().trim().min(1, "Response can't be empty").max(5000),
+  status: FeedbackStatus.optional()
+});
+
+// Request body for approving or withdrawing feedback as a public testimonial (admin)
+export const feedbackPublishInputSchema = z.object({
+  public: z.boolean()
+});
+
+// Feedback as shown in the public testimonials feed; the author stays anonymous
+export interface PublicTestimonial {
+  id: number;
+  title: string;
+  content: string;
+  rating: number | null;
+  userType: string;
+  createdAt: string;
+}
+
+// Side of a partnership a rating comes from; each side rates the other once it has ended
+export const RatingRole = z.enum(["athlete", "business"]);
+export type RatingRole = z.infer<typeof RatingRole>;
+
+// Criteria a business rates an athlete on
+export const ATHLETE_RATING_CRITERIA = ["on_time_delivery", "content_quality", "communication"] as const;
+
+// Criteria an athlete rates a business on
+export const BUSINESS_RATING_CRITERIA = ["payment_timeliness", "clarity", "respect"] as const;
+
+export const RATING_CRITERIA_LABELS: Record<string, string> = {
+  on_time_delivery: "On-time delivery",
+  content_quality: "Content quality",
+  communication: "Communication",
+  payment_timeliness: "Payment timeliness",
+  clarity: "Clarity",
+  respect: "Respect"
+};
+
+// Moderation state of partnership_ratings.status; removed ratings no longer count
+export const RatingStatus = z.enum(["published", "appealed", "removed"]);
+export type RatingStatus = z.infer<typeof RatingStatus>;
+
+const ratingScore = z.number().int().min(1).max(5);
+
+export const athleteRatingScoresSchema = z.object({
+  on_time_delivery: ratingScore,
+  content_quality: ratingScore,
+  communication: ratingScore
+}).strict();
+
+export const businessRatingScoresSchema = z.object({
+  payment_timeliness: ratingScore,
+  clarity: ratingScore,
+  respect: ratingScore
+}).strict();
+
+// Request body for rating the other party of an ended partnership
+// The service checks that the scores match the criteria for the rated side
+export const ratingInputSchema = z.object({
+  offerId: z.string().uuid(),
+  scores: z.union([athleteRatingScoresSchema, businessRatingScoresSchema]),
+  comment: z.string().trim().max(2000).optional()
+});
+
+export type RatingInput = z.infer<typeof ratingInputSchema>;
+
+// Request body for disputing a rating you received
+export const ratingAppealInputSchema = z.object({
+  reason: z.string().trim().min(10, "Explain what's wrong with this rating (at least 10 characters)").max(2000)
+});
+
+// Request body for deciding an appeal (admin): keep the rating or remove it from the reputation score
+export const ratingAppealDecisionSchema = z.object({
+  decision: z.enum(["uphold", "remove"]),
+  note: z.string().trim().max(2000).optional()
+});
+
+export type RatingAppealDecision = z.infer<typeof ratingAppealDecisionSchema>;
+
+// partnership_ratings table row
+export interface PartnershipRating {
+  id: string;
+  offer_id: string;
+  rater_id: string;
+  ratee_id: string;
+  rater_role: RatingRole;
+  scores: Record<string, number>;
+  overall: number; // Mean of the criteria scores
+  comment: string | null;
+  status: RatingStatus;
+  appeal_reason: string | null;
+  appealed_at: string | null;
+  appeal_decision: "uphold" | "remove" | null;
+  resolution_note: string | null;
+  resolved_by: string | null;
+  resolved_at: string | null;
+  created_at: string;
+  rater_name?: string | null;
+  ratee_name?: string | null;
+}
+
+// An ended partnership the current user hasn't rated yet
+export interface PendingRating {
+  offer_id: string;
+  ratee_id: string;
+  ratee_name: string;
+  ratee_role: RatingRole;
+  campaign_title: string | null;
+  criteria: string[];
+}
+
+// reputation_scores table row: a user's ratings aggregated
+export interface ReputationScore {
+  user_id: string;
+  role: RatingRole;
+  rating_count: number;
+  average: number | null; // Plain mean of the overall ratings (1-5)
+  score: number | null; // Average pulled towards the platform prior while there are few ratings (1-5)
+  criteria: Record<string, number>; // Mean per criterion
+  updated_at: string | null;
+}
+
+// Orderings for athlete search; each has a fixed direction
+export const AthleteSearchSort = z.enum(["followers", "engagement", "newest", "graduation_year", "name"]);
+export type AthleteSearchSort = z.infer<typeof AthleteSearchSort>;
+
+// Comma-separated or repeated query string values, or a JSON array, as a list
+const searchList = <T extends z.ZodTypeAny>(item: T) => z.preprocess(
+  value => {
+    const values = Array.isArray(value) ? value : typeof value === "string" ? value.split(",") : value;
+    return Array.isArray(values) ? values.map(entry => typeof entry === "string" ? entry.trim() : entry).filter(entry => entry !== "") : values;
+  },
+  z.array(item).max(25)
+).optional();
+
+// Athlete search filters; also what a saved search stores
+export const athleteSearchFiltersSchema = z.object({
+  q: z.string().trim().max(200).optional(), // Free text over name, bio, school, sport and achievements
+  sports: searchList(z.string().max(100)),
+  divisions: searchList(z.string().max(100)),
+  schools: searchList(z.string().max(200)),
+  graduationYears: searchList(z.coerce.number().int().min(1990).max(2100)),
+  zip: z.string().trim().regex(/^\d{5}$/, "Use a 5-digit ZIP code").optional(),
+  radiusMiles: z.coerce.number().positive().max(500).optional(), // Used with zip; defaults to 25 miles
+  minFollowers: z.coerce.number().int().min(0).optional(),
+  maxFollowers: z.coerce.number().int().min(0).optional(),
+  minEngagement: z.coerce.number().min(0).max(100).optional(), // Percent
+  maxEngagement: z.coerce.number().min(0).max(100).optional(), // Percent
+  contentTypes: searchList(z.string().max(50)) // Matches athletes with any of these content types
+});
+
+export type AthleteSearchFilters = z.infer<typeof athleteSearchFiltersSchema>;
+
+// Query string for GET /api/athlete-search
+export const athleteSearchQuerySchema = athleteSearchFiltersSchema.extend({
+  sort: AthleteSearchSort.default("followers"),
+  cursor: z.string().max(500).optional(), // nextCursor from the previous page
+  limit: z.coerce.number().int().min(1).max(50).default(20)
+});
+
+export type AthleteSearchQuery = z.infer<typeof athleteSearchQuerySchema>;
+
+// An athlete as shown in search results
+export interface AthleteSearchResult {
+  id: string;
+  name: string;
+  profile_image: string | null;
+  bio: string | null;
+  school: string | null;
+  division: string | null;
+  sport: string | null;
+  position: string | null;
+  graduation_year: number | null;
+  location: string | null;
+  follower_count: number;
+  engagement_percent: number | null;
+  content_types: string[];
+  distance_miles: number | null; // Set when searching by radius
+  created_at: string | null;
+}
+
+// Value counts for the filterable fields, over everything matching the current filters
+export interface AthleteSearchFacets {
+  sports: { value: string; count: number }[];
+  divisions: { value: string; count: number }[];
+  schools: { value: string; count: number }[];
+  graduationYears: { value: number; count: number }[];
+  contentTypes: { value: string; count: number }[];
+}
+
+// One page of athlete search results
+export interface AthleteSearchPage {
+  athletes: AthleteSearchResult[];
+  nextCursor: string | null; // null on the last page
+  total: number;
+  facets: AthleteSearchFacets;
+}
+
+// Request body for saving an athlete search
+export const savedAthleteSearchInputSchema = z.object({
+  name: z.string().trim().min(1, "Name your search").max(100),
+  filters: athleteSearchFiltersSchema,
+  sort: AthleteSearchSort.default("followers"),
+  alertsEnabled: z.boolean().default(true) // Notify when new athletes match
+});
+
+export type SavedAthleteSearchInput = z.infer<typeof savedAthleteSearchInputSchema>;
+
+// Request body for renaming a saved search or turning its alerts on or off
+export const savedAthleteSearchUpdateSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  alertsEnabled: z.boolean().optional()
+});
+
+// saved_athlete_searches table row
+export interface SavedAthleteSearch {
+  id: string;
+  business_id: string;
+  name: string;
+  filters: AthleteSearchFilters;
+  sort: AthleteSearchSort;
+  alerts_enabled: boolean;
+  last_checked_at: string; // Athletes who joined after this are reported by the next alert
+  last_alerted_at: string | null;
+  created_at: string;
+}
+
+// business_profiles.business_type values offered at onboarding
+export const BrandCompanyType = z.enum(["product", "service", "hybrid"]);
+export type BrandCompanyType = z.infer<typeof BrandCompanyType>;
+
+export const BrandDirectorySort = z.enum(["name", "budget", "newest"]);
+export type BrandDirectorySort = z.infer<typeof BrandDirectorySort>;
+
+// Query string for GET /api/brands
+export const brandDirectoryQuerySchema = z.object({
+  q: z.string().trim().max(200).optional(), // Matches company name and bio
+  industries: searchList(z.string().max(50)), // Ids from shared/industries.ts
+  minBudget: z.coerce.number().int().min(0).optional(), // Brands whose budget range reaches this
+  maxBudget: z.coerce.number().int().min(0).optional(),
+  locations: searchList(z.string().max(100)), // operatingLocation values, e.g. "Statewide"
+  companyTypes: searchList(BrandCompanyType),
+  activeCampaigns: z.enum(["true", "false"]).transform(value => value === "true").optional(), // Only brands running a campaign now
+  sort: BrandDirectorySort.default("name"),
+  limit: z.coerce.number().int().min(1).max(50).default(24),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+export type BrandDirectoryQuery = z.infer<typeof brandDirectoryQuerySchema>;
+
+// A brand as listed in the directory
+export interface BrandDirectoryEntry {
+  id: string;
+  name: string;
+  profile_image: string | null;
+  bio: string | null;
+  industry: string | null;
+  industry_label: string | null;
+  company_type: string | null;
+  operating_locations: string[];
+  budget_min: number | null;
+  budget_max: number | null;
+  active_campaigns: number;
+  interested: boolean; // The current athlete has already expressed interest
+}
+
+// Request body for an athlete expressing interest in a brand
+export const brandInterestInputSchema = z.object({
+  message: z.string().trim().max(1000).optional()
+});
+
+// Follow-up state of a lead
+export const BrandLeadStatus = z.enum(["new", "contacted", "archived"]);
+export type BrandLeadStatus = z.infer<typeof BrandLeadStatus>;
+
+// Request body for moving a lead along (business)
+export const brandLeadUpdateSchema = z.object({
+  status: BrandLeadStatus
+});
+
+// Request body for the business directory settings
+export const brandDirectorySettingsSchema = z.object({
+  discoverable: z.boolean() // Listed in the brand directory and open to athlete interest
+});
+
+// brand_leads table row, with the athlete's details for the business
+export interface BrandLead {
+  id: string;
+  business_id: string;
+  athlete_id: string;
+  message: string | null;
+  status: BrandLeadStatus;
+  created_at: string;
+  updated_at: string | null;
+  athlete?: {
+    name: string;
+    sport: string | null;
+    school: string | null;
+    division: string | null;
+    follower_count: number | null;
+    profile_image: string | null;
+  } | null;
+}
+
 // Define interface for Stripe-related code
 export interface StripeInterface {
   id: string;
@@ -0,0 +1,37 @@
+import type { AthleteSocialAccount } from "./schema";
+
+type VerifiableAccount = Pick<AthleteSocialAccount, "handle" | "verified_at" | "verified_handle" | "verification_expires_at"> & {
+  followers_count?: number | null;
+};
+
+// How much an unverified account's followers count for in matching
+export const UNVERIFIED_FOLLOWER_WEIGHT = 0.5;
+
+/**
+ * Whether an account's ownership is verified right now: confirmed for its
+ * current handle and not yet expired
+ */
+export function isAccountVerified(account: VerifiableAccount, now: Date = new Date()): boolean {
+  return !!account.verified_at
+    && !!account.verified_handle
+    && account.verified_handle.toLowerCase() === account.handle.toLowerCase()
+    && !!account.verification_expires_at
+    && new Date(account.verification_expires_at) > now;
+}
+
+/**
+ * Share of an athlete's followers that sit on verified accounts (0-1), or
+ * null when they have no accounts with follower counts
+ */
+export function verifiedFollowerShare(accounts: VerifiableAccount[] | null | undefined, now: Date = new Date()): number | null {
+  const counted = (accounts || []).filter(account => (account.followers_count || 0) > 0);
+  const total = counted.reduce((sum, account) => sum + (account.followers_count || 0), 0);
+  if (total === 0) {
+    return null;
+  }
+
+  const verified = counted
+    .filter(account => isAccountVerified(account, now))
+    .reduce((sum, account) => sum + (account.followers_count || 0), 0);
+  return verified / total;
+}